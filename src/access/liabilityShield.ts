@@ -1,18 +1,31 @@
+import type { CollectionAfterReadHook, FieldAccess, PayloadRequest } from 'payload'
+
 /**
  * Liability Shield
  *
- * Strips sensitive data from AVOID products for non-premium users.
+ * Strips sensitive data from FLAGGED products for non-premium users.
  * This protects The Product Report from liability while still
  * providing value to free users (they know to avoid the product).
  *
- * Premium users get full access to all product details.
+ * Premium users, CMS staff and the trusted frontend get full access, and
+ * free users see the full details of products they unlocked individually
+ * (per user or per device).
+ *
+ * Applied on every public read path:
+ * - REST and GraphQL: the Products afterRead hook (shieldProductAfterRead)
+ *   plus field-level read access (shieldedFieldAccess) on the shielded fields
+ * - Custom endpoints: read with the Local API, then pass the response through
+ *   shieldProductForViewer / shieldProductsForViewer with getShieldViewer(req)
+ *
+ * Only FLAGGED products viewed by a non-premium caller cost anything: one
+ * unlock lookup per request, memoized on req.context.
  */
 
 interface Product {
     id: number
-    name: string
+    name?: string
     brand?: string
-    verdict?: 'recommend' | 'avoid'
+    verdict?: string | null
     verdictReason?: string
     imageUrl?: string | null
     backgroundRemovedImageUrl?: string | null
@@ -25,11 +38,13 @@ interface Product {
     purchaseLinks?: unknown[] | null
     testingInfo?: string | null
     summary?: string | null
+    reportVersions?: unknown[] | null
+    ruleApplied?: string | null
     sourceCount?: number
     [key: string]: unknown
 }
 
-interface ShieldedProduct extends Omit<Product, 'ingredientsList' | 'ingredientsRaw' | 'pros' | 'cons' | 'fullReview' | 'purchaseLinks' | 'testingInfo'> {
+interface ShieldedProduct extends Omit<Product, 'ingredientsList' | 'ingredientsRaw' | 'pros' | 'cons' | 'fullReview' | 'purchaseLinks' | 'testingInfo' | 'summary' | 'reportVersions' | 'ruleApplied'> {
     ingredientsList: never[]
     ingredientsRaw: null
     pros: null
@@ -37,12 +52,16 @@ interface ShieldedProduct extends Omit<Product, 'ingredientsList' | 'ingredients
     fullReview: null
     purchaseLinks: null
     testingInfo: null
+    summary: null
+    unmatchedIngredients: null
+    reportVersions: null
+    ruleApplied: null
     verdictReason: string
     isShielded: true
 }
 
 /**
- * Fields that are stripped from AVOID products for non-premium users.
+ * Fields that are stripped from FLAGGED products for non-premium users.
  * These are the sensitive/liability-prone fields.
  */
 export const SHIELDED_FIELDS = [
@@ -54,10 +73,26 @@ export const SHIELDED_FIELDS = [
     'purchaseLinks',
     'testingInfo',
     'summary',
+    'unmatchedIngredients',
+    'reportVersions', // Snapshots and change lines repeat the summary and detections
+    'ruleApplied', // Matched rule clauses name the ingredients and levels
 ] as const
 
 /**
- * Fields that are always visible, even for AVOID products.
+ * Verdicts whose details are shielded. 'avoid' is the pre-rename name of
+ * 'flagged' and still appears in older clients' payloads.
+ */
+export const SHIELDED_VERDICTS = ['flagged', 'avoid'] as const
+
+/** Replaces verdictReason on shielded products */
+export const SHIELDED_VERDICT_REASON = 'Does Not Meet Our Standards'
+
+export function isShieldedVerdict(verdict: unknown): boolean {
+    return typeof verdict === 'string' && (SHIELDED_VERDICTS as readonly string[]).includes(verdict.toLowerCase())
+}
+
+/**
+ * Fields that are always visible, even for FLAGGED products.
  * These help users identify the product without detailed analysis.
  */
 export const PUBLIC_FIELDS = [
@@ -76,7 +111,7 @@ export const PUBLIC_FIELDS = [
 /**
  * Apply liability shield to a product.
  *
- * If the product is AVOID and the user is not premium,
+ * If the product is FLAGGED and the user is not premium,
  * strip sensitive fields and replace verdictReason with generic text.
  *
  * @param product - The product to shield
@@ -87,28 +122,25 @@ export function applyLiabilityShield<T extends Product>(
     product: T,
     isPremium: boolean
 ): T | (T & ShieldedProduct) {
-    // Only shield AVOID products for non-premium users
-    if (product.verdict !== 'avoid' || isPremium) {
+    // Only shield FLAGGED products for non-premium users
+    if (!isShieldedVerdict(product.verdict) || isPremium) {
         return product
     }
 
-    // Create shielded version
+    // Strip sensitive fields
+    const shielded: Record<string, unknown> = { ...product }
+    for (const field of SHIELDED_FIELDS) {
+        shielded[field] = null
+    }
+
     return {
-        ...product,
-        // Strip sensitive fields
+        ...shielded,
         ingredientsList: [],
-        ingredientsRaw: null,
-        pros: null,
-        cons: null,
-        fullReview: null,
-        purchaseLinks: null,
-        testingInfo: null,
-        summary: null,
         // Replace specific reason with generic
-        verdictReason: 'Does Not Meet Our Standards',
+        verdictReason: SHIELDED_VERDICT_REASON,
         // Mark as shielded
         isShielded: true,
-    } as T & ShieldedProduct
+    } as unknown as T & ShieldedProduct
 }
 
 /**
@@ -131,21 +163,27 @@ export function applyLiabilityShieldToMany<T extends Product>(
  * @param user - The user object from Payload
  * @returns Whether the user has premium access
  */
-export function isPremiumUser(user: {
-    memberState?: string
-    subscriptionStatus?: string
-    role?: string
-} | null | undefined): boolean {
+export function isPremiumUser(user: unknown): boolean {
     if (!user) return false
+    const u = user as {
+        memberState?: string
+        subscriptionStatus?: string
+        role?: string
+        isAdmin?: boolean
+        collection?: string
+    }
+
+    // Only app users - a brand portal 'admin' is not a site admin
+    if (u.collection && u.collection !== 'users') return false
 
     // Admins always have premium access
-    if (user.role === 'admin') return true
+    if (u.role === 'admin' || u.isAdmin) return true
 
     // Premium members have access
-    if (user.memberState === 'member') return true
+    if (u.memberState === 'member') return true
 
     // Users with active subscription have access
-    if (user.subscriptionStatus === 'premium') return true
+    if (u.subscriptionStatus === 'premium') return true
 
     return false
 }
@@ -159,7 +197,7 @@ export function isPremiumUser(user: {
  */
 export function shieldProductsForUser<T extends Product>(
     products: T[],
-    user: { memberState?: string; subscriptionStatus?: string; role?: string } | null | undefined
+    user: unknown
 ): (T | (T & ShieldedProduct))[] {
     const isPremium = isPremiumUser(user)
     return applyLiabilityShieldToMany(products, isPremium)
@@ -174,3 +212,146 @@ export function shieldProductsForUser<T extends Product>(
 export function isProductShielded(product: { isShielded?: boolean }): boolean {
     return product.isShielded === true
 }
+
+// ============================================
+// REQUEST VIEWERS
+// ============================================
+
+/**
+ * Who is reading: whether anything is shielded from them, and which
+ * products they unlocked
+ */
+export interface ShieldViewer {
+    /** Premium user, CMS staff or trusted frontend - nothing is shielded */
+    fullAccess: boolean
+    /** Product ids unlocked by this user or device */
+    unlockedProductIds: ReadonlySet<string>
+}
+
+export interface ShieldViewerOptions {
+    /** Device fingerprint; defaults to the X-Fingerprint header */
+    fingerprintHash?: string | null
+}
+
+const FULL_ACCESS_VIEWER: ShieldViewer = { fullAccess: true, unlockedProductIds: new Set() }
+
+/**
+ * Server-to-server requests from our own frontend (PAYLOAD_API_SECRET)
+ */
+export function isTrustedFrontendRequest(req: Pick<PayloadRequest, 'headers'>): boolean {
+    const apiKey = req.headers.get('x-api-key')
+    const expectedKey = process.env.PAYLOAD_API_SECRET
+    return !!apiKey && !!expectedKey && apiKey === expectedKey
+}
+
+/**
+ * Full product access without any lookup: CMS staff, the trusted
+ * frontend and premium users
+ */
+export function hasFullProductAccess(req: Pick<PayloadRequest, 'headers' | 'user'>): boolean {
+    const user = req.user as { collection?: string; role?: string } | null | undefined
+    if (user?.collection === 'users' && (user.role === 'admin' || user.role === 'product_editor')) return true
+    if (isTrustedFrontendRequest(req)) return true
+    return isPremiumUser(user)
+}
+
+async function loadUnlockedProductIds(req: PayloadRequest, fingerprintHash: string | null): Promise<Set<string>> {
+    const unlocked = new Set<string>()
+    const user = req.user as { id?: number | string; collection?: string; unlockedProducts?: unknown } | null | undefined
+    const isAppUser = user?.collection === 'users' && user.id !== undefined
+
+    if (isAppUser && Array.isArray(user.unlockedProducts)) {
+        for (const id of user.unlockedProducts) unlocked.add(String(id))
+    }
+
+    const owners: Array<Record<string, { equals: unknown }>> = []
+    if (isAppUser) owners.push({ user: { equals: user.id } })
+    if (fingerprintHash) {
+        const { docs } = await req.payload.find({
+            collection: 'device-fingerprints',
+            where: { fingerprintHash: { equals: fingerprintHash } },
+            limit: 1,
+            depth: 0,
+            overrideAccess: true,
+        })
+        if (docs[0]) owners.push({ deviceFingerprint: { equals: docs[0].id } })
+    }
+    if (owners.length === 0) return unlocked
+
+    const { docs } = await req.payload.find({
+        collection: 'product-unlocks',
+        where: { or: owners },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+    })
+    for (const unlock of docs as Array<{ product?: number | { id: number } | null }>) {
+        const productId = typeof unlock.product === 'object' ? unlock.product?.id : unlock.product
+        if (productId) unlocked.add(String(productId))
+    }
+    return unlocked
+}
+
+/**
+ * Resolve the viewer of a request. Memoized on req.context, so REST hooks,
+ * field access and endpoint code share a single unlock lookup.
+ */
+export function getShieldViewer(req: PayloadRequest, options: ShieldViewerOptions = {}): Promise<ShieldViewer> {
+    if (hasFullProductAccess(req)) return Promise.resolve(FULL_ACCESS_VIEWER)
+
+    const fingerprintHash = options.fingerprintHash ?? req.headers.get('x-fingerprint')
+    const cacheKey = `liabilityShieldViewer:${fingerprintHash || ''}`
+    req.context = req.context || {}
+    const cached = req.context[cacheKey] as Promise<ShieldViewer> | undefined
+    if (cached) return cached
+
+    const viewer = loadUnlockedProductIds(req, fingerprintHash || null)
+        .catch((error) => {
+            // Fail closed: without unlock data, flagged products stay shielded
+            console.error('[LiabilityShield] Unlock lookup failed:', error)
+            return new Set<string>()
+        })
+        .then((unlockedProductIds): ShieldViewer => ({ fullAccess: false, unlockedProductIds }))
+    req.context[cacheKey] = viewer
+    return viewer
+}
+
+/**
+ * Whether a viewer may see a product's shielded fields
+ */
+export function canViewShieldedProduct(product: { id?: number | string; verdict?: unknown }, viewer: ShieldViewer): boolean {
+    if (viewer.fullAccess || !isShieldedVerdict(product.verdict)) return true
+    return product.id !== undefined && viewer.unlockedProductIds.has(String(product.id))
+}
+
+export function shieldProductForViewer<T extends Product>(product: T, viewer: ShieldViewer): T | (T & ShieldedProduct) {
+    return applyLiabilityShield(product, canViewShieldedProduct(product, viewer))
+}
+
+export function shieldProductsForViewer<T extends Product>(products: T[], viewer: ShieldViewer): (T | (T & ShieldedProduct))[] {
+    return products.map((product) => shieldProductForViewer(product, viewer))
+}
+
+// ============================================
+// PAYLOAD HOOKS & ACCESS
+// ============================================
+
+/**
+ * Field read access for shielded Products fields (REST / GraphQL). Also
+ * stops them being used in where queries by callers who can't read them.
+ */
+export const shieldedFieldAccess: FieldAccess = async ({ doc, req }) => {
+    if (!doc || !isShieldedVerdict(doc.verdict)) return true
+    if (hasFullProductAccess(req)) return true
+    return canViewShieldedProduct(doc, await getShieldViewer(req))
+}
+
+/**
+ * Products afterRead hook: shields REST and GraphQL responses, including
+ * products populated into other collections. Local API reads (jobs, hooks,
+ * custom endpoints) get full data; endpoints shield their own responses.
+ */
+export const shieldProductAfterRead: CollectionAfterReadHook = async ({ doc, req }) => {
+    if (req.payloadAPI === 'local' || !doc || !isShieldedVerdict(doc.verdict)) return doc
+    return shieldProductForViewer(doc, await getShieldViewer(req))
+}
@@ -1,4 +1,5 @@
-import type { Access } from 'payload'
+import type { Access, PayloadRequest } from 'payload'
+import { forbiddenError, unauthorizedError } from '../utilities/api-response'
 
 /**
  * Check if user is admin or product_editor
@@ -21,7 +22,40 @@ export const isAdmin: Access = ({ req: { user } }) => {
     return role === 'admin' || isAdminFlag === true
 }
 
+/**
+ * Check if user is a staff admin or product_editor. Brand portal users have
+ * their own 'admin' role, so the users collection is checked too.
+ * Used by custom endpoints that take a request user rather than access args
+ */
+export function isStaffEditor(user: unknown): boolean {
+    const staff = user as { collection?: string; role?: string } | null | undefined
+    return staff?.collection === 'users' && (staff.role === 'admin' || staff.role === 'product_editor')
+}
+
+/**
+ * Check if user is a staff admin (users collection), by role or isAdmin flag
+ */
+export function isStaffAdmin(user: unknown): boolean {
+    const staff = user as { collection?: string; role?: string; isAdmin?: boolean } | null | undefined
+    return staff?.collection === 'users' && (staff.role === 'admin' || staff.isAdmin === true)
+}
+
+/**
+ * Collection access for staff-only collections: isStaffEditor as an Access
+ * function
+ */
+export const isStaffEditorOrAdmin: Access = ({ req: { user } }) => isStaffEditor(user)
+
 /**
  * Allow read for everyone (public access)
  */
 export const publicRead: Access = () => true
+
+/**
+ * Guard for admin-only custom endpoints: an error response, or null when the
+ * request comes from a staff admin
+ */
+export function requireAdmin(req: PayloadRequest): Response | null {
+    if (!req.user) return unauthorizedError()
+    return isStaffAdmin(req.user) ? null : forbiddenError('Admin access required')
+}
@@ -24,6 +24,7 @@ import { default as default_b86c2794d853a6cbf5069197bde7e8e2 } from '@/component
 import { FolderTableCell as FolderTableCell_ab83ff7e88da8d3530831f296ec4756a } from '@payloadcms/ui/rsc'
 import { FolderField as FolderField_ab83ff7e88da8d3530831f296ec4756a } from '@payloadcms/ui/rsc'
 import { default as default_a814725a5c86f27c59db027aa5a4f37a } from '@/components/IconPreviewField'
+import { default as default_8b66c5f84bbbf65d987843c88c6eb1fe } from '@/components/AuditDiff'
 import { LinkToDoc as LinkToDoc_aead06e4cbf6b2620c5c51c9ab283634 } from '@payloadcms/plugin-search/client'
 import { ReindexButton as ReindexButton_aead06e4cbf6b2620c5c51c9ab283634 } from '@payloadcms/plugin-search/client'
 import { FolderTypeField as FolderTypeField_3817bf644402e67bfe6577f60ef982de } from '@payloadcms/ui'
@@ -53,6 +54,7 @@ import { default as default_d0e938ca65e5c5e2804b04705779ca18 } from '@/component
 import { default as default_0d3552c71d14ebbaa0d54a52dc311a4c } from '@/components/DataExportDashboard'
 import { default as default_1323c6a65548e8ee41b56f7fe76d8501 } from '@/components/ApiStatusDashboard'
 import { default as default_4d0f6fe94161c814e9bb425924e0902e } from '@/components/CacheStatusDashboard'
+import { default as default_5c0f14bb3e95306eab86079dd7c027c5 } from '@/components/VerdictRuleSimulator'
 import { default as default_f678d68fde33b868cd5fcdb10daa6cc8 } from '@/components/ContributorLeaderboard'
 import { default as default_39370d8972d865c782e2cdb427984128 } from '@/components/SEOAuditDashboard'
 import { default as default_e4572bf72e2bcc4cf2cfd299594a3928 } from '@/components/SecurityDashboard'
@@ -90,6 +92,7 @@ export const importMap = {
   "@payloadcms/ui/rsc#FolderTableCell": FolderTableCell_ab83ff7e88da8d3530831f296ec4756a,
   "@payloadcms/ui/rsc#FolderField": FolderField_ab83ff7e88da8d3530831f296ec4756a,
   "@/components/IconPreviewField#default": default_a814725a5c86f27c59db027aa5a4f37a,
+  "@/components/AuditDiff#default": default_8b66c5f84bbbf65d987843c88c6eb1fe,
   "@payloadcms/plugin-search/client#LinkToDoc": LinkToDoc_aead06e4cbf6b2620c5c51c9ab283634,
   "@payloadcms/plugin-search/client#ReindexButton": ReindexButton_aead06e4cbf6b2620c5c51c9ab283634,
   "@payloadcms/ui#FolderTypeField": FolderTypeField_3817bf644402e67bfe6577f60ef982de,
@@ -119,6 +122,7 @@ export const importMap = {
   "@/components/DataExportDashboard#default": default_0d3552c71d14ebbaa0d54a52dc311a4c,
   "@/components/ApiStatusDashboard#default": default_1323c6a65548e8ee41b56f7fe76d8501,
   "@/components/CacheStatusDashboard#default": default_4d0f6fe94161c814e9bb425924e0902e,
+  "@/components/VerdictRuleSimulator#default": default_5c0f14bb3e95306eab86079dd7c027c5,
   "@/components/ContributorLeaderboard#default": default_f678d68fde33b868cd5fcdb10daa6cc8,
   "@/components/SEOAuditDashboard#default": default_39370d8972d865c782e2cdb427984128,
   "@/components/SecurityDashboard#default": default_e4572bf72e2bcc4cf2cfd299594a3928,
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { enqueueJob } from '@/utilities/job-queue'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Weekly Brand Benchmark Report Cron Job
+ * Runs Mondays at 11 AM UTC
+ * Queues a 'brand-reports' job: last week's report for every brand, archived
+ * and emailed (PDF + HTML) to brand users with the weekly digest on
+ */
+export async function GET(request: Request) {
+    // Verify cron secret
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('[Brand Reports Cron] Unauthorized request')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const payload = await getPayload({ config })
+
+        const job = await enqueueJob(payload, 'brand-reports', { asOf: new Date().toISOString() }, { unique: true })
+
+        console.log(`[Brand Reports Cron] Queued weekly brand reports as job ${job.id}`)
+
+        return NextResponse.json({
+            success: true,
+            queued: true,
+            jobId: job.id,
+            timestamp: new Date().toISOString(),
+        }, { status: 202 })
+    } catch (error) {
+        console.error('[Brand Reports Cron] Error:', error)
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Cron failed',
+            timestamp: new Date().toISOString(),
+        }, { status: 500 })
+    }
+}
@@ -0,0 +1,22 @@
+import type { Payload } from 'payload'
+import { CronLockTTL, wrapCronHandler } from '@/utilities/cron-utils'
+import { runCampaignScheduler } from '@/utilities/campaign-scheduler'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // 5 minutes
+
+/**
+ * Push Campaign Scheduler Cron Job
+ * Runs every 15 minutes
+ * Sends due one-time and recurring campaigns in each recipient's timezone,
+ * holding back quiet hours, cooldowns and the hourly cap
+ */
+export const GET = wrapCronHandler(
+    'campaign-scheduler',
+    async (payload) => runCampaignScheduler(payload as Payload),
+    {
+        lockTTL: CronLockTTL.MEDIUM,
+        // Ticks are 15 minutes apart; skip only a duplicate delivery of the same tick
+        skipWindow: 10 * 60,
+    }
+)
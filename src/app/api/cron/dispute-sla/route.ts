@@ -0,0 +1,20 @@
+import type { Payload } from 'payload'
+import { CronLockTTL, CronSkipWindow, wrapCronHandler } from '@/utilities/cron-utils'
+import { runDisputeSlaEngine } from '@/utilities/dispute-sla'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // 5 minutes
+
+/**
+ * Hourly Manufacturer Dispute SLA Cron Job
+ * Runs at the top of every hour
+ * Flags SLA breaches, escalates priority and emails the assignee
+ */
+export const GET = wrapCronHandler(
+    'dispute-sla',
+    async (payload) => runDisputeSlaEngine(payload as Payload),
+    {
+        lockTTL: CronLockTTL.QUICK,
+        skipWindow: CronSkipWindow.HOURLY,
+    }
+)
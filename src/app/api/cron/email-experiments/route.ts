@@ -0,0 +1,21 @@
+import type { Payload } from 'payload'
+import { CronLockTTL, wrapCronHandler } from '@/utilities/cron-utils'
+import { runEmailExperiments } from '@/utilities/email-experiments'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // 5 minutes
+
+/**
+ * Email Experiments Cron Job
+ * Runs hourly
+ * Evaluates email templates in A/B testing once their holdout period is
+ * over and promotes the winning variant
+ */
+export const GET = wrapCronHandler(
+    'email-experiments',
+    async (payload) => runEmailExperiments(payload as Payload),
+    {
+        lockTTL: CronLockTTL.MEDIUM,
+        skipWindow: 30 * 60,
+    }
+)
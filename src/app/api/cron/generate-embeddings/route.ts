@@ -3,9 +3,10 @@ import { getPayload } from 'payload'
 import config from '@payload-config'
 import {
   findProductsWithoutEmbeddings,
-  embedProducts,
+  findProductsByIds,
   getEmbeddingStats,
 } from '../../../../utilities/embeddings'
+import { enqueueJob, jobAcceptedResponse } from '../../../../utilities/job-queue'
 
 export const dynamic = 'force-dynamic'
 export const maxDuration = 60 // Vercel function timeout
@@ -14,7 +15,8 @@ export const maxDuration = 60 // Vercel function timeout
  * GET /api/cron/generate-embeddings
  *
  * Cron job to generate embeddings for products that don't have them.
- * Processes products in batches to stay within API limits and timeouts.
+ * Queues an 'embed-products' job for the next batch; the job queue runner
+ * (/api/payload-jobs/run) does the work outside this request.
  *
  * Set up in Vercel Cron or call manually:
  * - vercel.json: { "crons": [{ "path": "/api/cron/generate-embeddings", "schedule": "0 * * * *" }] }
@@ -48,34 +50,21 @@ export async function GET(request: Request) {
     const payload = await getPayload({ config })
 
     // Get current stats
-    const statsBefore = await getEmbeddingStats(payload)
-
-    // Find products without embeddings
-    const batchSize = 50 // Process 50 at a time to stay within limits
-    const products = await findProductsWithoutEmbeddings(payload, batchSize)
+    const stats = await getEmbeddingStats(payload)
 
-    if (products.length === 0) {
+    if (stats.withoutEmbeddings === 0) {
       return NextResponse.json({
         message: 'All products have embeddings',
-        stats: statsBefore,
+        stats,
       })
     }
 
-    console.log(`[Embeddings Cron] Processing ${products.length} products...`)
-
-    // Generate embeddings
-    const results = await embedProducts(payload, products)
+    // Process 50 at a time to stay within limits
+    const job = await enqueueJob(payload, 'embed-products', { batchSize: 50 }, { unique: true })
 
-    // Get updated stats
-    const statsAfter = await getEmbeddingStats(payload)
+    console.log(`[Embeddings Cron] Queued job ${job.id} (${stats.withoutEmbeddings} products remaining)`)
 
-    return NextResponse.json({
-      message: `Generated embeddings for ${results.length} products`,
-      processed: results.length,
-      statsBefore,
-      statsAfter,
-      remaining: statsAfter.withoutEmbeddings,
-    })
+    return jobAcceptedResponse(job, 'embed-products')
   } catch (error) {
     console.error('[Embeddings Cron] Error:', error)
 
@@ -93,6 +82,8 @@ export async function GET(request: Request) {
  * POST /api/cron/generate-embeddings
  *
  * Trigger embedding generation for specific products or all missing.
+ * Dry runs answer directly; everything else is queued as an
+ * 'embed-products' job.
  *
  * Request body:
  * {
@@ -119,73 +110,15 @@ export async function POST(request: Request) {
 
     const body = await request.json().catch(() => ({}))
     const { productIds, batchSize = 50, dryRun = false } = body
+    const specificIds = Array.isArray(productIds) && productIds.length > 0 ? productIds : undefined
 
     const payload = await getPayload({ config })
 
-    // If specific product IDs provided, fetch and embed those
-    if (productIds && Array.isArray(productIds) && productIds.length > 0) {
-      const db = payload.db as {
-        drizzle: {
-          execute: (query: unknown) => Promise<{ rows: unknown[] }>
-        }
-      }
-
-      const result = await db.drizzle.execute(
-        `SELECT
-           p.id,
-           p.name,
-           p.brand,
-           p.summary,
-           p.verdict_reason as "verdictReason",
-           c.name as "category"
-         FROM products p
-         LEFT JOIN categories c ON p.category_id = c.id
-         WHERE p.id IN (${productIds.join(',')})
-           AND p.status = 'published'
-           AND p.name IS NOT NULL
-           AND p.brand IS NOT NULL`
-      )
-
-      const products = (result.rows as unknown[]).map((row: unknown) => {
-        const r = row as {
-          id: number
-          name: string
-          brand: string
-          summary?: string | null
-          verdictReason?: string | null
-          category?: string | null
-        }
-        return {
-          id: r.id,
-          name: r.name,
-          brand: r.brand,
-          summary: r.summary,
-          verdictReason: r.verdictReason,
-          category: r.category,
-        }
-      })
-
-      if (dryRun) {
-        return NextResponse.json({
-          message: 'Dry run - would process these products',
-          products: products.map((p) => ({ id: p.id, name: p.name, brand: p.brand })),
-          count: products.length,
-        })
-      }
-
-      const results = await embedProducts(payload, products)
-
-      return NextResponse.json({
-        message: `Generated embeddings for ${results.length} specific products`,
-        processed: results.length,
-        productIds: results.map((r) => r.productId),
-      })
-    }
-
-    // Otherwise, process batch of products without embeddings
-    const products = await findProductsWithoutEmbeddings(payload, batchSize)
-
     if (dryRun) {
+      const products = specificIds
+        ? await findProductsByIds(payload, specificIds)
+        : await findProductsWithoutEmbeddings(payload, batchSize)
+
       return NextResponse.json({
         message: 'Dry run - would process these products',
         products: products.map((p) => ({ id: p.id, name: p.name, brand: p.brand })),
@@ -193,22 +126,22 @@ export async function POST(request: Request) {
       })
     }
 
-    if (products.length === 0) {
+    if (!specificIds) {
       const stats = await getEmbeddingStats(payload)
-      return NextResponse.json({
-        message: 'All products have embeddings',
-        stats,
-      })
+      if (stats.withoutEmbeddings === 0) {
+        return NextResponse.json({
+          message: 'All products have embeddings',
+          stats,
+        })
+      }
     }
 
-    const results = await embedProducts(payload, products)
-    const stats = await getEmbeddingStats(payload)
-
-    return NextResponse.json({
-      message: `Generated embeddings for ${results.length} products`,
-      processed: results.length,
-      stats,
+    const job = await enqueueJob(payload, 'embed-products', {
+      productIds: specificIds,
+      batchSize,
     })
+
+    return jobAcceptedResponse(job, 'embed-products')
   } catch (error) {
     console.error('[Embeddings Manual] Error:', error)
 
@@ -0,0 +1,21 @@
+import type { Payload } from 'payload'
+import { CronLockTTL, wrapCronHandler } from '@/utilities/cron-utils'
+import { reconcilePushReceipts } from '@/utilities/push-receipts'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // 5 minutes
+
+/**
+ * Push Receipts Cron Job
+ * Runs every 15 minutes, offset from the campaign scheduler
+ * Fetches Expo receipts for recent push tickets, updates delivery status
+ * per send and deactivates tokens reported as DeviceNotRegistered
+ */
+export const GET = wrapCronHandler(
+    'push-receipts',
+    async (payload) => reconcilePushReceipts(payload as Payload),
+    {
+        lockTTL: CronLockTTL.MEDIUM,
+        skipWindow: 10 * 60,
+    }
+)
@@ -1,15 +1,15 @@
 import { NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
-import { runRecallWatchdog } from '@/endpoints/recall-watchdog'
+import { enqueueJob } from '@/utilities/job-queue'
 
 export const dynamic = 'force-dynamic'
-export const maxDuration = 300 // 5 minutes
 
 /**
  * Daily Recall Watchdog Cron Job
  * Runs at 8 AM UTC every day
- * Checks FDA recalls and updates affected products
+ * Queues a 'recall-watchdog' job, which checks FDA recalls and queues
+ * likely product matches for review outside this request
  */
 export async function GET(request: Request) {
     // Verify cron secret
@@ -22,18 +22,18 @@ export async function GET(request: Request) {
     }
 
     try {
-        console.log('[Recall Cron] Starting daily recall check...')
-
         const payload = await getPayload({ config })
 
-        const result = await runRecallWatchdog(payload)
+        const job = await enqueueJob(payload, 'recall-watchdog', {}, { unique: true })
 
-        console.log(`[Recall Cron] Complete: ${result.productsFlagged} products flagged, ${result.recallsChecked} recalls checked`)
+        console.log(`[Recall Cron] Queued daily recall check as job ${job.id}`)
 
         return NextResponse.json({
+            success: true,
+            queued: true,
+            jobId: job.id,
             timestamp: new Date().toISOString(),
-            ...result,
-        })
+        }, { status: 202 })
     } catch (error) {
         console.error('[Recall Cron] Error:', error)
         return NextResponse.json({
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { enqueueJob } from '@/utilities/job-queue'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Daily Segment Refresh Cron Job
+ * Runs at 4 AM UTC every day
+ * Queues a full 'segment-refresh' job: every device re-evaluated against
+ * every segment, for the time-based metrics (days since install, days since
+ * last active) that change without any record changing
+ */
+export async function GET(request: Request) {
+    // Verify cron secret
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('[Segment Refresh Cron] Unauthorized request')
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const payload = await getPayload({ config })
+
+        const job = await enqueueJob(payload, 'segment-refresh', {}, { unique: true })
+
+        console.log(`[Segment Refresh Cron] Queued full segment refresh as job ${job.id}`)
+
+        return NextResponse.json({
+            success: true,
+            queued: true,
+            jobId: job.id,
+            timestamp: new Date().toISOString(),
+        }, { status: 202 })
+    } catch (error) {
+        console.error('[Segment Refresh Cron] Error:', error)
+        return NextResponse.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Cron failed',
+            timestamp: new Date().toISOString(),
+        }, { status: 500 })
+    }
+}
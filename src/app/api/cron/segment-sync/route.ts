@@ -0,0 +1,20 @@
+import type { Payload } from 'payload'
+import { CronLockTTL, wrapCronHandler } from '@/utilities/cron-utils'
+import { syncSegmentEvents } from '@/utilities/segment-engine'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300 // 5 minutes
+
+/**
+ * Segment Sync Cron Job
+ * Runs every 15 minutes
+ * Pushes segment entries and exits to RevenueCat subscriber attributes
+ */
+export const GET = wrapCronHandler(
+    'segment-sync',
+    async (payload) => syncSegmentEvents(payload as Payload),
+    {
+        lockTTL: CronLockTTL.MEDIUM,
+        skipWindow: 10 * 60,
+    }
+)
@@ -66,7 +66,7 @@ async function sendWeeklyDigestEmails(payload: any) {
         where: {
             and: [
                 { sequence: { equals: 'weekly_digest' } },
-                { status: { equals: 'active' } },
+                { status: { in: ['active', 'ab_testing'] } },
             ],
         },
         limit: 1,
@@ -137,7 +137,7 @@ async function sendWeeklyDigestEmails(payload: any) {
     }))
 
     // Send with A/B testing
-    const result = await sendBulkEmail(payload, template.id, recipients, true)
+    const result = await sendBulkEmail(payload, template.id, recipients)
 
     console.log(`[EmailCron] Weekly digest complete: ${result.sent} sent, ${result.failed} failed`)
 
@@ -173,7 +173,7 @@ async function sendWeek1Sequence(payload: any) {
                 and: [
                     { sequence: { equals: 'week1_value' } },
                     { dayInSequence: { equals: day } },
-                    { status: { equals: 'active' } },
+                    { status: { in: ['active', 'ab_testing'] } },
                 ],
             },
             limit: 1,
@@ -232,7 +232,7 @@ async function sendWeek1Sequence(payload: any) {
 
         if (recipients.length > 0) {
             console.log(`[EmailCron] Week1 Day ${day}: Sending to ${recipients.length} users`)
-            const result = await sendBulkEmail(payload, template.id, recipients, true)
+            const result = await sendBulkEmail(payload, template.id, recipients)
             totalSent += result.sent
             totalFailed += result.failed
         }
@@ -267,7 +267,7 @@ async function sendWinBackSequence(payload: any) {
                 and: [
                     { sequence: { equals: 'winback' } },
                     { dayInSequence: { equals: daysInactive } },
-                    { status: { equals: 'active' } },
+                    { status: { in: ['active', 'ab_testing'] } },
                 ],
             },
             limit: 1,
@@ -335,7 +335,7 @@ async function sendWinBackSequence(payload: any) {
 
         if (recipients.length > 0) {
             console.log(`[EmailCron] Winback Day ${daysInactive}: Sending to ${recipients.length} users`)
-            const result = await sendBulkEmail(payload, template.id, recipients, true)
+            const result = await sendBulkEmail(payload, template.id, recipients)
             totalSent += result.sent
             totalFailed += result.failed
         }
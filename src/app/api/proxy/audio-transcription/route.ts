@@ -111,9 +111,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting per user using Vercel KV
-    const rateLimit = await checkRateLimitAsync(`audio-transcription:${user.id}`, AUDIO_TRANSCRIPTION_RATE_LIMIT)
+    const rateLimit = await checkRateLimitAsync(`audio-transcription:${user.id}`, AUDIO_TRANSCRIPTION_RATE_LIMIT, request)
     if (!rateLimit.allowed) {
-      return rateLimitResponse(rateLimit.resetAt)
+      return rateLimitResponse(rateLimit)
     }
 
     // Parse form data
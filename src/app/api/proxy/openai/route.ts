@@ -146,9 +146,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Rate limiting per user using Vercel KV
-    const rateLimit = await checkRateLimitAsync(`openai-proxy:${user.id}`, OPENAI_PROXY_RATE_LIMIT)
+    const rateLimit = await checkRateLimitAsync(`openai-proxy:${user.id}`, OPENAI_PROXY_RATE_LIMIT, request)
     if (!rateLimit.allowed) {
-      return rateLimitResponse(rateLimit.resetAt)
+      return rateLimitResponse(rateLimit)
     }
 
     // Parse request body
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
+import { clientIpOf } from '@/utilities/referral-fraud'
 
 function validateApiKey(request: NextRequest): boolean {
     const apiKey = request.headers.get('x-api-key')
@@ -99,6 +100,7 @@ export async function POST(request: NextRequest) {
                 referredDeviceId,
                 status: 'pending',
                 source,
+                attributionIp: clientIpOf(request.headers),
             },
         })
 
@@ -2,7 +2,7 @@ import { NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { searchSimilarProducts, generateEmbedding, getEmbeddingStats } from '../../../../utilities/embeddings'
-import { checkRateLimitAsync, rateLimitResponse, RateLimits } from '../../../../utilities/rate-limiter'
+import { checkRateLimitAsync, rateLimitResponse, RateLimits, withRateLimitHeaders } from '../../../../utilities/rate-limiter'
 
 export const dynamic = 'force-dynamic'
 
@@ -118,9 +118,9 @@ export async function POST(request: Request) {
       request.headers.get('x-real-ip') ||
       'unknown'
 
-    const rateLimit = await checkRateLimitAsync(`semantic-search:${ip}`, SEMANTIC_SEARCH_RATE_LIMIT)
+    const rateLimit = await checkRateLimitAsync(`semantic-search:${ip}`, SEMANTIC_SEARCH_RATE_LIMIT, request)
     if (!rateLimit.allowed) {
-      return rateLimitResponse(rateLimit.resetAt)
+      return rateLimitResponse(rateLimit)
     }
 
     // Parse request body
@@ -175,13 +175,13 @@ export async function POST(request: Request) {
 
     if (stats.withEmbeddings === 0) {
       // Fall back to basic text search if no embeddings exist
-      return NextResponse.json({
+      return withRateLimitHeaders(NextResponse.json({
         results: [],
         query,
         count: 0,
         message: 'Semantic search not yet available. Embeddings are being generated.',
         embeddingStats: stats,
-      })
+      }), rateLimit)
     }
 
     // Perform semantic search
@@ -192,12 +192,12 @@ export async function POST(request: Request) {
       verdictFilter: verdictFilter as 'recommend' | 'caution' | 'avoid' | null,
     })
 
-    return NextResponse.json({
+    return withRateLimitHeaders(NextResponse.json({
       results,
       query,
       count: results.length,
       embeddingStats: stats.percentComplete < 100 ? stats : undefined,
-    })
+    }), rateLimit)
   } catch (error) {
     console.error('[Semantic Search] Error:', error)
 
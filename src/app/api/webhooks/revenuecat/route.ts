@@ -1,303 +1,17 @@
 import { NextResponse } from 'next/server'
 import { getPayload } from 'payload'
 import config from '@payload-config'
-import { createAuditLog } from '@/collections/AuditLog'
+import {
+  eventSubscriberId,
+  receiveRevenueCatEvent,
+  type RevenueCatWebhookPayload,
+} from '@/utilities/revenuecat-events'
 
 export const dynamic = 'force-dynamic'
 
 // RevenueCat webhook authorization - set this in RevenueCat dashboard
 const REVENUECAT_WEBHOOK_SECRET = process.env.REVENUECAT_WEBHOOK_SECRET
 
-type SubscriptionStatus = 'free' | 'trial' | 'premium' | 'cancelled'
-
-/**
- * RevenueCat webhook event types
- * See: https://www.revenuecat.com/docs/integrations/webhooks/event-types-and-fields
- */
-type RevenueCatEventType =
-  | 'INITIAL_PURCHASE'
-  | 'RENEWAL'
-  | 'CANCELLATION'
-  | 'UNCANCELLATION'
-  | 'EXPIRATION'
-  | 'BILLING_ISSUE'
-  | 'PRODUCT_CHANGE'
-  | 'SUBSCRIBER_ALIAS'
-  | 'SUBSCRIPTION_PAUSED'
-  | 'SUBSCRIPTION_EXTENDED'
-  | 'TRANSFER'
-  | 'TEST'
-
-interface RevenueCatEvent {
-  type: RevenueCatEventType
-  id: string
-  event_timestamp_ms: number
-  app_id: string
-  app_user_id: string
-  original_app_user_id: string
-  aliases: string[]
-  subscriber_attributes?: Record<string, { value: string; updated_at_ms: number }>
-  product_id?: string
-  entitlement_id?: string
-  entitlement_ids?: string[]
-  period_type?: 'TRIAL' | 'INTRO' | 'NORMAL' | 'PROMOTIONAL'
-  purchased_at_ms?: number
-  expiration_at_ms?: number
-  environment?: 'SANDBOX' | 'PRODUCTION'
-  store?: 'APP_STORE' | 'PLAY_STORE' | 'STRIPE' | 'PROMOTIONAL'
-  is_family_share?: boolean
-  takehome_percentage?: number
-  offer_code?: string
-  price?: number
-  currency?: string
-  price_in_purchased_currency?: number
-  tax_percentage?: number
-  commission_percentage?: number
-  cancel_reason?: string
-  expiration_reason?: string
-  new_product_id?: string
-  presented_offering_id?: string
-  // Subscriber info (for INITIAL_PURCHASE, RENEWAL, etc.)
-  subscriber?: {
-    original_app_user_id: string
-    first_seen: string
-    last_seen: string
-    management_url?: string
-    original_application_version?: string
-    original_purchase_date?: string
-    non_subscriptions?: Record<string, any[]>
-    subscriptions?: Record<string, {
-      billing_issues_detected_at?: string
-      expires_date: string
-      grace_period_expires_date?: string
-      is_sandbox: boolean
-      original_purchase_date: string
-      ownership_type: string
-      period_type: string
-      purchase_date: string
-      store: string
-      unsubscribe_detected_at?: string
-    }>
-    entitlements?: Record<string, {
-      expires_date?: string
-      grace_period_expires_date?: string
-      product_identifier: string
-      purchase_date: string
-    }>
-  }
-}
-
-interface RevenueCatWebhookPayload {
-  api_version: string
-  event: RevenueCatEvent
-}
-
-/**
- * Map RevenueCat event to audit log action
- */
-function mapEventToAuditAction(event: RevenueCatEvent): string | null {
-  switch (event.type) {
-    case 'INITIAL_PURCHASE':
-      return event.period_type === 'TRIAL' ? 'trial_started' : 'subscription_started'
-    case 'RENEWAL':
-      return 'subscription_renewed'
-    case 'CANCELLATION':
-      return 'subscription_cancelled'
-    case 'EXPIRATION':
-      return 'subscription_cancelled'
-    case 'BILLING_ISSUE':
-      return 'billing_issue'
-    case 'SUBSCRIPTION_PAUSED':
-      return 'subscription_paused'
-    case 'UNCANCELLATION':
-    case 'SUBSCRIPTION_EXTENDED':
-      return 'subscription_started' // Reactivation
-    default:
-      return null
-  }
-}
-
-/**
- * Map RevenueCat event to our subscription status
- */
-function mapEventToStatus(event: RevenueCatEvent): SubscriptionStatus | null {
-  const eventType = event.type
-
-  switch (eventType) {
-    case 'INITIAL_PURCHASE':
-      // Check if it's a trial
-      if (event.period_type === 'TRIAL') {
-        return 'trial'
-      }
-      return 'premium'
-
-    case 'RENEWAL':
-      return 'premium'
-
-    case 'UNCANCELLATION':
-      return 'premium'
-
-    case 'SUBSCRIPTION_EXTENDED':
-      return 'premium'
-
-    case 'CANCELLATION':
-      // User cancelled but may still have access until expiration
-      // Check if subscription has expired
-      if (event.expiration_at_ms && event.expiration_at_ms < Date.now()) {
-        return 'cancelled'
-      }
-      // Still has access, don't change status yet
-      // The EXPIRATION event will handle the final status change
-      return null
-
-    case 'EXPIRATION':
-      return 'cancelled'
-
-    case 'BILLING_ISSUE':
-      // Keep premium but we should flag this somewhere
-      // For now, don't change status - give grace period
-      return null
-
-    case 'SUBSCRIPTION_PAUSED':
-      return 'cancelled'
-
-    case 'PRODUCT_CHANGE':
-      // Product changed but still subscribed
-      return 'premium'
-
-    case 'SUBSCRIBER_ALIAS':
-    case 'TRANSFER':
-    case 'TEST':
-      // These don't affect subscription status
-      return null
-
-    default:
-      return null
-  }
-}
-
-/**
- * Find user by RevenueCat app_user_id or aliases
- * The app_user_id could be:
- * 1. Our Payload user ID (if we called Purchases.logIn(userId))
- * 2. An anonymous RevenueCat ID (starts with $RCAnonymousID:)
- * 3. An email address (from subscriber attributes)
- */
-async function findUserByRevenueCatId(
-  payload: any,
-  event: RevenueCatEvent
-): Promise<any | null> {
-  const { app_user_id, original_app_user_id, aliases, subscriber_attributes } = event
-
-  // Collect all possible user identifiers
-  const possibleIds = [app_user_id, original_app_user_id, ...aliases].filter(Boolean)
-
-  // 1. Try to find by revenuecatUserId field
-  for (const id of possibleIds) {
-    const byRevenueCatId = await payload.find({
-      collection: 'users',
-      where: { revenuecatUserId: { equals: id } },
-      limit: 1,
-    })
-
-    if (byRevenueCatId.docs.length > 0) {
-      return byRevenueCatId.docs[0]
-    }
-  }
-
-  // 2. Try to find by Payload user ID (if app_user_id is a number or numeric string)
-  for (const id of possibleIds) {
-    // Skip anonymous IDs
-    if (id.startsWith('$RCAnonymousID:')) continue
-
-    // Try as numeric ID
-    const numericId = parseInt(id, 10)
-    if (!isNaN(numericId)) {
-      try {
-        const user = await payload.findByID({
-          collection: 'users',
-          id: numericId,
-        })
-        if (user) {
-          // Store RevenueCat ID for future lookups
-          await payload.update({
-            collection: 'users',
-            id: user.id,
-            data: { revenuecatUserId: app_user_id },
-          })
-          return user
-        }
-      } catch {
-        // User not found by ID
-      }
-    }
-  }
-
-  // 3. Try to find by email from subscriber attributes
-  const email = subscriber_attributes?.$email?.value
-  if (email) {
-    const byEmail = await payload.find({
-      collection: 'users',
-      where: { email: { equals: email } },
-      limit: 1,
-    })
-
-    if (byEmail.docs.length > 0) {
-      const user = byEmail.docs[0]
-      // Store RevenueCat ID for future lookups
-      await payload.update({
-        collection: 'users',
-        id: user.id,
-        data: { revenuecatUserId: app_user_id },
-      })
-      return user
-    }
-  }
-
-  // 4. Check if any alias looks like an email
-  for (const id of possibleIds) {
-    if (id.includes('@') && !id.startsWith('$')) {
-      const byEmail = await payload.find({
-        collection: 'users',
-        where: { email: { equals: id } },
-        limit: 1,
-      })
-
-      if (byEmail.docs.length > 0) {
-        const user = byEmail.docs[0]
-        await payload.update({
-          collection: 'users',
-          id: user.id,
-          data: { revenuecatUserId: app_user_id },
-        })
-        return user
-      }
-    }
-  }
-
-  return null
-}
-
-/**
- * Update user subscription status
- */
-async function updateUserSubscription(
-  payload: any,
-  userId: string | number,
-  data: {
-    subscriptionStatus?: SubscriptionStatus
-    revenuecatUserId?: string
-  }
-) {
-  await payload.update({
-    collection: 'users',
-    id: userId,
-    data,
-  })
-
-  console.log(`[RevenueCat Webhook] Updated user ${userId}:`, data)
-}
-
 /**
  * POST /api/webhooks/revenuecat
  * Handle RevenueCat webhook events for subscription management
@@ -307,6 +21,10 @@ async function updateUserSubscription(
  * 2. Add webhook URL: https://your-domain.com/api/webhooks/revenuecat
  * 3. Set Authorization header to: Bearer YOUR_SECRET
  * 4. Enable events you want to receive
+ *
+ * Events go through the revenuecat-events ledger (utilities/revenuecat-events),
+ * shared with /api/revenuecat-webhook: each event id is applied once, to both
+ * the user's subscription and their referral.
  */
 export async function POST(request: Request) {
   // SECURITY: Webhook secret must be configured - reject all requests if not set
@@ -348,22 +66,20 @@ export async function POST(request: Request) {
     return NextResponse.json({ received: true, message: 'Test event processed' })
   }
 
-  // Skip sandbox events in production (optional - remove if you want to process sandbox events)
-  if (event.environment === 'SANDBOX' && process.env.NODE_ENV === 'production') {
-    console.log('[RevenueCat Webhook] Skipping sandbox event in production')
-    return NextResponse.json({ received: true, message: 'Sandbox event skipped' })
+  if (!eventSubscriberId(event)) {
+    console.error('[RevenueCat Webhook] No subscriber in event')
+    return NextResponse.json({ error: 'Missing subscriber ID' }, { status: 400 })
   }
 
   const payload = await getPayload({ config })
 
   try {
-    // Find the user
-    const user = await findUserByRevenueCatId(payload, event)
+    const result = await receiveRevenueCatEvent(payload, event)
 
-    if (!user) {
+    if (result.status === 'unmatched') {
       console.error(`[RevenueCat Webhook] User not found for event: ${event.type}, app_user_id: ${event.app_user_id}`)
-      // Return 200 to prevent retries - we might need manual intervention
-      // Consider storing orphaned events for later processing
+      // Return 200 to prevent retries - the ledger keeps the event for replay
+      // once the user is linked
       return NextResponse.json({
         received: true,
         warning: 'User not found',
@@ -371,94 +87,22 @@ export async function POST(request: Request) {
       })
     }
 
-    // Determine new subscription status
-    const newStatus = mapEventToStatus(event)
-
-    if (newStatus) {
-      await updateUserSubscription(payload, user.id, {
-        subscriptionStatus: newStatus,
-        revenuecatUserId: event.app_user_id,
-      })
-
-      console.log(`[RevenueCat Webhook] User ${user.id} subscription updated to: ${newStatus}`)
-
-      // Handle referral attribution on initial purchase
-      if (event.type === 'INITIAL_PURCHASE' && user.referredBy) {
-        try {
-          // Find the referral record and update it
-          const referrals = await payload.find({
-            collection: 'referrals',
-            where: {
-              and: [
-                { referrerId: { equals: user.referredBy } },
-                { referredUserId: { equals: String(user.id) } },
-              ]
-            },
-            limit: 1,
-          })
-
-          if (referrals.docs.length > 0) {
-            const referral = referrals.docs[0]
-            // Mark referral as active (subscribed and eligible for commission)
-            await payload.update({
-              collection: 'referrals',
-              id: referral.id,
-              data: {
-                status: 'active',
-                firstSubscriptionDate: new Date().toISOString(),
-                revenuecatSubscriberId: event.app_user_id,
-              },
-            })
-            console.log(`[RevenueCat Webhook] Referral ${referral.id} marked as active`)
-          }
-        } catch (refError) {
-          console.error('[RevenueCat Webhook] Error updating referral:', refError)
-        }
-      }
-    } else {
-      // Event doesn't change status, but still update RevenueCat ID if needed
-      if (!user.revenuecatUserId) {
-        await updateUserSubscription(payload, user.id, {
-          revenuecatUserId: event.app_user_id,
-        })
-      }
-      console.log(`[RevenueCat Webhook] Event ${event.type} processed, no status change`)
-    }
-
-    // Create audit log entry for subscription events
-    const auditAction = mapEventToAuditAction(event)
-    if (auditAction) {
-      await createAuditLog(payload, {
-        action: auditAction,
-        sourceType: 'revenuecat',
-        sourceId: event.id,
-        targetCollection: 'users',
-        targetId: user.id,
-        targetName: user.email || user.name || `User ${user.id}`,
-        before: { subscriptionStatus: user.subscriptionStatus },
-        after: { subscriptionStatus: newStatus || user.subscriptionStatus },
-        metadata: {
-          eventType: event.type,
-          productId: event.product_id,
-          periodType: event.period_type,
-          store: event.store,
-          environment: event.environment,
-          price: event.price,
-          currency: event.currency,
-          offerCode: event.offer_code,
-        },
-        success: true,
-      })
+    if (result.status === 'failed') {
+      // Return 200 to prevent infinite retries - replay from the ledger
+      return NextResponse.json({ received: true, error: 'Processing error' })
     }
 
     return NextResponse.json({
       received: true,
-      user_id: user.id,
-      new_status: newStatus,
+      status: result.status,
+      duplicate: result.duplicate,
+      user_id: result.outcome?.user?.id ?? result.entry.user ?? null,
+      new_status: result.outcome?.user?.subscriptionStatus ?? null,
     })
   } catch (error) {
     console.error('[RevenueCat Webhook] Error processing event:', error)
-    // Return 200 to prevent infinite retries
-    return NextResponse.json({ received: true, error: 'Processing error' })
+    // The event may not have reached the ledger - let RevenueCat retry (the
+    // ledger dedupes redelivered events)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
 }
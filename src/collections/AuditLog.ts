@@ -3,8 +3,14 @@ import type { CollectionConfig } from 'payload'
 /**
  * AuditLog Collection
  *
- * Tracks all AI actions, rule applications, and system events.
- * Provides full provenance tracking for compliance and debugging.
+ * The single audit trail: AI actions, rule applications and system events
+ * (createAuditLog), plus admin changes to any collection or global
+ * (hooks/auditLog). Provides full provenance tracking for compliance and
+ * debugging.
+ *
+ * Admin changes keep the full prior and new values of every changed field in
+ * before / after, so they can be reverted (see utilities/audit-trail and
+ * /api/audit-trail). A revert is itself an entry, linked via revertOf.
  */
 export const AuditLog: CollectionConfig = {
     slug: 'audit-log',
@@ -28,9 +34,9 @@ export const AuditLog: CollectionConfig = {
     },
     admin: {
         useAsTitle: 'action',
-        defaultColumns: ['action', 'targetCollection', 'sourceType', 'createdAt'],
+        defaultColumns: ['action', 'targetCollection', 'targetName', 'actorEmail', 'summary', 'createdAt'],
         group: 'System',
-        description: 'Immutable audit trail of all AI and system actions',
+        description: 'Immutable audit trail of all AI, system and admin actions',
     },
     fields: [
         // === ACTION TYPE ===
@@ -70,11 +76,27 @@ export const AuditLog: CollectionConfig = {
                 { label: '🔥 Sentry Critical Alert', value: 'sentry_critical_alert' },
                 // Cron job events
                 { label: '⏰ Cron Execution', value: 'cron_execution' },
+                // Admin changes (hooks/auditLog)
+                { label: '➕ Create', value: 'create' },
+                { label: '✏️ Update', value: 'update' },
+                { label: '🗑️ Delete', value: 'delete' },
+                { label: '⚙️ Settings Change', value: 'settings_change' },
+                { label: '📦 Bulk Operation', value: 'bulk_operation' },
+                { label: '🔑 Login', value: 'login' },
+                { label: '🚪 Logout', value: 'logout' },
             ],
+            index: true,
             admin: {
                 position: 'sidebar',
             },
         },
+        {
+            name: 'summary',
+            type: 'text',
+            admin: {
+                description: 'Human-readable summary of the change',
+            },
+        },
 
         // === SOURCE INFO ===
         {
@@ -112,22 +134,30 @@ export const AuditLog: CollectionConfig = {
 
         // === TARGET INFO ===
         {
-            name: 'targetCollection',
+            name: 'targetType',
             type: 'select',
+            defaultValue: 'collection',
             options: [
-                { label: 'Products', value: 'products' },
-                { label: 'Ingredients', value: 'ingredients' },
-                { label: 'Categories', value: 'categories' },
-                { label: 'Videos', value: 'videos' },
-                { label: 'Articles', value: 'articles' },
-                { label: 'Polls', value: 'investigation-polls' },
-                { label: 'User Submissions', value: 'user-submissions' },
+                { label: 'Collection', value: 'collection' },
+                { label: 'Global', value: 'global' },
             ],
+            admin: {
+                position: 'sidebar',
+            },
+        },
+        {
+            name: 'targetCollection',
+            type: 'text',
+            index: true,
+            admin: {
+                description: 'Collection (or global) slug, e.g. products',
+            },
         },
         {
             name: 'targetId',
             type: 'number',
             label: 'Target Record ID',
+            index: true,
         },
         {
             name: 'targetName',
@@ -139,12 +169,21 @@ export const AuditLog: CollectionConfig = {
         },
 
         // === CHANGE DATA ===
+        {
+            name: 'changeDiff',
+            type: 'ui',
+            admin: {
+                components: {
+                    Field: '@/components/AuditDiff',
+                },
+            },
+        },
         {
             name: 'before',
             type: 'json',
             label: 'Before State',
             admin: {
-                description: 'State before the action (for updates)',
+                description: 'State before the action (for admin changes: prior values of the changed fields)',
             },
         },
         {
@@ -194,6 +233,49 @@ export const AuditLog: CollectionConfig = {
                 description: 'User who triggered this action (null for system)',
             },
         },
+        {
+            name: 'actorEmail',
+            type: 'email',
+            label: 'Actor Email',
+            index: true,
+            admin: {
+                description: 'Kept if the user is later deleted',
+            },
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'ipAddress',
+                    type: 'text',
+                    label: 'IP Address',
+                },
+                {
+                    name: 'userAgent',
+                    type: 'text',
+                },
+            ],
+        },
+
+        // === BULK OPERATIONS & REVERTS ===
+        {
+            name: 'operation',
+            type: 'text',
+            index: true,
+            admin: {
+                description: 'Bulk operation this change was part of (e.g. an admin-purge run)',
+            },
+        },
+        {
+            name: 'revertOf',
+            type: 'relationship',
+            relationTo: 'audit-log',
+            index: true,
+            label: 'Reverts',
+            admin: {
+                description: 'The audit entry this change reverted',
+            },
+        },
 
         // === RESULT ===
         {
@@ -275,15 +357,22 @@ export async function createAuditLog(
         sourceType?: string
         sourceId?: string
         sourceUrl?: string
+        targetType?: 'collection' | 'global'
         targetCollection?: string
         targetId?: number
         targetName?: string
+        summary?: string
         before?: Record<string, unknown>
         after?: Record<string, unknown>
         metadata?: Record<string, unknown>
         aiModel?: string
         confidence?: number
         performedBy?: number
+        actorEmail?: string
+        ipAddress?: string
+        userAgent?: string
+        operation?: string
+        revertOf?: number
         success?: boolean
         errorMessage?: string
         // Retry capability fields
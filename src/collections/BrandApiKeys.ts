@@ -0,0 +1,218 @@
+import type { CollectionConfig } from 'payload'
+import { DEFAULT_MONTHLY_API_QUOTA } from '../utilities/brand-access'
+
+/**
+ * Brand API Keys Collection
+ *
+ * Programmatic access to the Brand Dashboard endpoints for Enterprise brand
+ * users. Keys are issued and rotated through /api/brand-api-keys; only a
+ * SHA-256 hash and a display prefix are stored. Each key is scoped to a set
+ * of brands and to the issuer's tier when it was created, and meters its
+ * requests per month and per endpoint (see utilities/brand-access).
+ */
+export const BrandApiKeys: CollectionConfig = {
+    slug: 'brand-api-keys',
+    access: {
+        read: ({ req }) => {
+            if (req.user?.collection === 'users') return true
+            if (req.user?.collection === 'brand-users') {
+                return {
+                    owner: { equals: req.user.id },
+                }
+            }
+            return false
+        },
+        // Issued and rotated through the brand-api-keys endpoints
+        create: ({ req }) => req.user?.collection === 'users',
+        update: ({ req }) => req.user?.collection === 'users',
+        delete: ({ req }) => req.user?.collection === 'users',
+    },
+    admin: {
+        useAsTitle: 'name',
+        defaultColumns: ['name', 'keyPrefix', 'owner', 'tier', 'status', 'periodUsage', 'lastUsedAt'],
+        group: 'Intelligence',
+        description: 'Hashed API keys for programmatic brand portal access',
+    },
+    fields: [
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'name',
+                    type: 'text',
+                    required: true,
+                    admin: {
+                        description: 'What this key is used for (e.g., "BI warehouse sync")',
+                    },
+                },
+                {
+                    name: 'keyPrefix',
+                    type: 'text',
+                    required: true,
+                    admin: {
+                        readOnly: true,
+                        description: 'First characters of the key, for identification',
+                    },
+                },
+            ],
+        },
+        {
+            name: 'keyHash',
+            type: 'text',
+            required: true,
+            unique: true,
+            index: true,
+            hidden: true,
+        },
+        {
+            name: 'owner',
+            type: 'relationship',
+            relationTo: 'brand-users',
+            required: true,
+            index: true,
+            admin: {
+                description: 'Brand user who issued the key - it acts with their access',
+            },
+        },
+        {
+            name: 'brands',
+            type: 'relationship',
+            relationTo: 'brands',
+            hasMany: true,
+            required: true,
+            admin: {
+                description: 'Brands this key can read',
+            },
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'tier',
+                    type: 'select',
+                    required: true,
+                    options: [
+                        { label: 'Free', value: 'free' },
+                        { label: 'Starter', value: 'starter' },
+                        { label: 'Pro', value: 'pro' },
+                        { label: 'Enterprise', value: 'enterprise' },
+                    ],
+                    admin: {
+                        readOnly: true,
+                        description: 'Issuer tier when created - the key never exceeds it',
+                    },
+                },
+                {
+                    name: 'status',
+                    type: 'select',
+                    required: true,
+                    defaultValue: 'active',
+                    index: true,
+                    options: [
+                        { label: 'Active', value: 'active' },
+                        { label: 'Revoked', value: 'revoked' },
+                    ],
+                },
+                {
+                    name: 'expiresAt',
+                    type: 'date',
+                    admin: {
+                        description: 'Set on the old key when it is rotated (grace period)',
+                    },
+                },
+            ],
+        },
+        {
+            name: 'replacedBy',
+            type: 'relationship',
+            relationTo: 'brand-api-keys',
+            admin: {
+                readOnly: true,
+                condition: (data) => !!data?.replacedBy,
+            },
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'revokedAt',
+                    type: 'date',
+                    admin: {
+                        readOnly: true,
+                        condition: (data) => data?.status === 'revoked',
+                    },
+                },
+                {
+                    name: 'revokedBy',
+                    type: 'relationship',
+                    relationTo: 'brand-users',
+                    admin: {
+                        readOnly: true,
+                        condition: (data) => data?.status === 'revoked',
+                    },
+                },
+            ],
+        },
+
+        // === USAGE ===
+        {
+            type: 'collapsible',
+            label: 'Usage',
+            fields: [
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'monthlyQuota',
+                            type: 'number',
+                            defaultValue: DEFAULT_MONTHLY_API_QUOTA,
+                            min: 0,
+                            admin: {
+                                description: 'Requests allowed per calendar month',
+                            },
+                        },
+                        {
+                            name: 'usagePeriod',
+                            type: 'text',
+                            admin: {
+                                readOnly: true,
+                                description: 'Month the counters below cover (YYYY-MM)',
+                            },
+                        },
+                        {
+                            name: 'periodUsage',
+                            type: 'number',
+                            defaultValue: 0,
+                            admin: { readOnly: true },
+                        },
+                        {
+                            name: 'usageCount',
+                            type: 'number',
+                            defaultValue: 0,
+                            admin: {
+                                readOnly: true,
+                                description: 'All-time requests',
+                            },
+                        },
+                    ],
+                },
+                {
+                    name: 'endpointUsage',
+                    type: 'json',
+                    admin: {
+                        readOnly: true,
+                        description: 'Requests per endpoint this month',
+                    },
+                },
+                {
+                    name: 'lastUsedAt',
+                    type: 'date',
+                    admin: { readOnly: true },
+                },
+            ],
+        },
+    ],
+    timestamps: true,
+}
+
+export default BrandApiKeys
@@ -0,0 +1,134 @@
+import type { CollectionConfig, Where } from 'payload'
+import type { BrandUser } from '../payload-types'
+import { brandIdsOf } from '../utilities/brand-access'
+
+/**
+ * Brand Reports Collection
+ *
+ * Archive of the periodic benchmark reports emailed to brand users (see
+ * utilities/brand-reports). One issue per brand, period and edition; the
+ * report data is frozen at generation and the PDF / HTML are rendered from
+ * it on download via GET /api/brand/:brandId/reports/:reportId/pdf|html.
+ */
+export const BrandReports: CollectionConfig = {
+    slug: 'brand-reports',
+    access: {
+        read: ({ req }) => {
+            if (req.user?.collection === 'users') return true
+            if (req.user?.collection === 'brand-users') {
+                const user = req.user as unknown as BrandUser
+                const conditions: Where[] = [{ brand: { in: brandIdsOf(user) } }]
+                // Competitor comparison is a Pro+ feature
+                if (!user.features?.canViewCompetitors) {
+                    conditions.push({ edition: { equals: 'standard' } })
+                }
+                return { and: conditions }
+            }
+            return false
+        },
+        // Generated by the brand-reports queue task
+        create: ({ req }) => req.user?.collection === 'users',
+        update: ({ req }) => req.user?.collection === 'users',
+        delete: ({ req }) => req.user?.collection === 'users',
+    },
+    admin: {
+        useAsTitle: 'brandName',
+        defaultColumns: ['brandName', 'edition', 'issueNumber', 'periodStart', 'periodEnd', 'deliveredAt'],
+        group: 'Intelligence',
+        description: 'Archived brand benchmark reports (weekly digest)',
+    },
+    indexes: [
+        {
+            fields: ['brand', 'periodStart', 'edition'],
+            unique: true,
+        },
+    ],
+    fields: [
+        {
+            name: 'brand',
+            type: 'relationship',
+            relationTo: 'brands',
+            required: true,
+            index: true,
+        },
+        {
+            name: 'brandName',
+            type: 'text',
+            admin: {
+                readOnly: true,
+                description: 'Brand name (denormalized for the archive list)',
+            },
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'edition',
+                    type: 'select',
+                    required: true,
+                    defaultValue: 'standard',
+                    options: [
+                        { label: 'Standard', value: 'standard' },
+                        { label: 'Competitive (Pro+)', value: 'competitive' },
+                    ],
+                    admin: {
+                        description: 'Competitive adds the competitor comparison',
+                    },
+                },
+                {
+                    name: 'issueNumber',
+                    type: 'number',
+                    admin: { readOnly: true },
+                },
+            ],
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'periodStart',
+                    type: 'date',
+                    required: true,
+                    index: true,
+                    admin: { readOnly: true },
+                },
+                {
+                    name: 'periodEnd',
+                    type: 'date',
+                    required: true,
+                    admin: { readOnly: true },
+                },
+            ],
+        },
+        {
+            name: 'report',
+            type: 'json',
+            required: true,
+            admin: {
+                readOnly: true,
+                description: 'Report data as generated - PDF and HTML are rendered from this',
+            },
+        },
+        {
+            name: 'deliveredTo',
+            type: 'relationship',
+            relationTo: 'brand-users',
+            hasMany: true,
+            admin: {
+                readOnly: true,
+                description: 'Brand users this issue was emailed to',
+            },
+        },
+        {
+            name: 'deliveredAt',
+            type: 'date',
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+            },
+        },
+    ],
+    timestamps: true,
+}
+
+export default BrandReports
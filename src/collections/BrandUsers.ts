@@ -1,4 +1,5 @@
-import type { CollectionConfig } from 'payload'
+import type { CollectionConfig, FieldAccess } from 'payload'
+import { featuresForTier } from '../utilities/brand-access'
 
 /**
  * Brand Users Collection
@@ -11,7 +12,16 @@ import type { CollectionConfig } from 'payload'
  * - Starter ($99/mo): All products, basic analytics
  * - Pro ($299/mo): Competitive benchmarking, demand signals
  * - Enterprise (Custom): Full API access, custom reports, certification
+ *
+ * Owners and admins manage their team through /api/brand-team (invite,
+ * change role, revoke). Brand, role, tier, features and verification can
+ * only be changed there or by staff, never by the brand user editing
+ * themselves.
  */
+
+// Staff only - brand users must not edit their own role, brand or tier
+const staffOnly: FieldAccess = ({ req }) => req.user?.collection === 'users'
+
 export const BrandUsers: CollectionConfig = {
     slug: 'brand-users',
     auth: {
@@ -88,6 +98,7 @@ export const BrandUsers: CollectionConfig = {
             type: 'relationship',
             relationTo: 'brands',
             required: true,
+            access: { update: staffOnly },
             admin: {
                 description: 'The brand this user represents',
             },
@@ -97,6 +108,7 @@ export const BrandUsers: CollectionConfig = {
             type: 'relationship',
             relationTo: 'brands',
             hasMany: true,
+            access: { update: staffOnly },
             admin: {
                 description: 'Additional brands this user can access (for parent companies)',
             },
@@ -112,6 +124,7 @@ export const BrandUsers: CollectionConfig = {
                 { label: 'Analyst', value: 'analyst' },
                 { label: 'Viewer', value: 'viewer' },
             ],
+            access: { update: staffOnly },
             admin: {
                 description: 'Access level within the brand portal',
             },
@@ -124,6 +137,7 @@ export const BrandUsers: CollectionConfig = {
             name: 'isVerified',
             type: 'checkbox',
             defaultValue: false,
+            access: { update: staffOnly },
             admin: {
                 description: 'Has this user been verified as a legitimate brand representative?',
                 position: 'sidebar',
@@ -155,6 +169,7 @@ export const BrandUsers: CollectionConfig = {
                 { label: 'Phone Call', value: 'phone' },
                 { label: 'Business Documentation', value: 'documentation' },
                 { label: 'Manual Override', value: 'manual' },
+                { label: 'Team Invitation', value: 'team_invite' },
             ],
             admin: {
                 description: 'How this user was verified',
@@ -169,6 +184,55 @@ export const BrandUsers: CollectionConfig = {
             },
         },
 
+        // ═══════════════════════════════════════════════════════════════
+        // TEAM
+        // ═══════════════════════════════════════════════════════════════
+        {
+            name: 'invitedBy',
+            type: 'relationship',
+            relationTo: 'brand-users',
+            access: { update: staffOnly },
+            admin: {
+                readOnly: true,
+                description: 'Team member who sent the invitation',
+                condition: (data) => !!data?.invitedBy,
+            },
+        },
+        {
+            name: 'inviteTokenHash',
+            type: 'text',
+            hidden: true,
+        },
+        {
+            name: 'inviteExpiresAt',
+            type: 'date',
+            access: { update: staffOnly },
+            admin: {
+                readOnly: true,
+                condition: (data) => !!data?.invitedBy && !data?.isVerified,
+            },
+        },
+        {
+            name: 'accessRevokedAt',
+            type: 'date',
+            access: { update: staffOnly },
+            admin: {
+                description: 'Portal and API access revoked - login is blocked while set',
+                position: 'sidebar',
+            },
+        },
+        {
+            name: 'accessRevokedBy',
+            type: 'relationship',
+            relationTo: 'brand-users',
+            access: { update: staffOnly },
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+                condition: (data) => !!data?.accessRevokedAt,
+            },
+        },
+
         // ═══════════════════════════════════════════════════════════════
         // SUBSCRIPTION
         // ═══════════════════════════════════════════════════════════════
@@ -183,6 +247,7 @@ export const BrandUsers: CollectionConfig = {
                 { label: 'Pro ($299/mo)', value: 'pro' },
                 { label: 'Enterprise (Custom)', value: 'enterprise' },
             ],
+            access: { update: staffOnly },
             admin: {
                 position: 'sidebar',
             },
@@ -224,6 +289,7 @@ export const BrandUsers: CollectionConfig = {
         {
             name: 'features',
             type: 'group',
+            access: { update: staffOnly },
             admin: {
                 description: 'Feature flags (based on subscription)',
             },
@@ -335,17 +401,11 @@ export const BrandUsers: CollectionConfig = {
             },
         ],
         beforeChange: [
-            async ({ data, operation }) => {
-                // Set feature flags based on subscription tier
-                if (data.subscription) {
-                    const tier = data.subscription
-                    data.features = {
-                        canViewCompetitors: tier === 'pro' || tier === 'enterprise',
-                        canExportData: tier === 'pro' || tier === 'enterprise',
-                        canAccessApi: tier === 'enterprise',
-                        canViewDemandSignals: tier === 'pro' || tier === 'enterprise',
-                        canManageTeam: data.role === 'owner' || data.role === 'admin',
-                    }
+            async ({ data, originalDoc }) => {
+                // Set feature flags based on subscription tier and role
+                if (data.subscription || data.role) {
+                    const tier = data.subscription ?? originalDoc?.subscription ?? 'free'
+                    data.features = featuresForTier(tier, data.role ?? originalDoc?.role)
                 }
                 return data
             },
@@ -1,4 +1,5 @@
 import type { CollectionConfig } from 'payload'
+import { refreshSegmentsOnFingerprintChange } from '../hooks/segmentMembership'
 
 /**
  * DeviceFingerprints Collection
@@ -47,6 +48,9 @@ export const DeviceFingerprints: CollectionConfig = {
         group: 'System',
         description: 'Device fingerprints for One-Shot unlock tracking',
     },
+    hooks: {
+        afterChange: [refreshSegmentsOnFingerprintChange],
+    },
     fields: [
         // === FINGERPRINT IDENTITY ===
         {
@@ -178,6 +182,13 @@ export const DeviceFingerprints: CollectionConfig = {
                 description: 'List of email addresses used with this fingerprint',
             },
         },
+        {
+            name: 'lastIpAddress',
+            type: 'text',
+            admin: {
+                description: 'IP address of the last registration (referral fraud scoring)',
+            },
+        },
         {
             name: 'totalUnlocks',
             type: 'number',
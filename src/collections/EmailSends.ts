@@ -78,7 +78,7 @@ export const EmailSends: CollectionConfig = {
       type: 'text',
       required: true,
       admin: {
-        description: 'The actual subject line sent (after A/B variant selection)',
+        description: 'The actual subject line sent (after experiment variant selection)',
       },
     },
 
@@ -107,12 +107,16 @@ export const EmailSends: CollectionConfig = {
           type: 'select',
           options: [
             { label: 'A (Control)', value: 'A' },
-            { label: 'B (Variant)', value: 'B' },
+            { label: 'B', value: 'B' },
+            { label: 'C', value: 'C' },
+            { label: 'D', value: 'D' },
+            { label: 'E', value: 'E' },
+            { label: 'F', value: 'F' },
           ],
           defaultValue: 'A',
           admin: {
             width: '33%',
-            description: 'Which subject line variant was sent',
+            description: 'Experiment variant that was sent',
           },
         },
         {
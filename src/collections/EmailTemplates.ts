@@ -4,6 +4,11 @@
  * Manage all email templates for automated sequences.
  * Enhanced with preview capability, A/B testing, and performance stats.
  *
+ * Experiments: with status "A/B Testing", sends are split at random
+ * between the template's own content (variant A) and the variants on the
+ * Experiment tab. The email-experiments cron picks the winner after the
+ * holdout period (see utilities/email-experiments).
+ *
  * Template Types:
  * - Week 1 Value Discovery: Onboarding sequence
  * - Weekly Digest: Weekly product updates
@@ -15,6 +20,7 @@
 
 import { CollectionConfig } from 'payload'
 import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
+import { EMAIL_VARIANT_KEYS, EXPERIMENT_DEFAULTS } from '../utilities/email-experiments'
 
 export const EmailTemplates: CollectionConfig = {
   slug: 'email-templates',
@@ -99,6 +105,16 @@ export const EmailTemplates: CollectionConfig = {
         condition: (data) => data?.sequence === 'fomo_trigger',
       },
     },
+    {
+      name: 'audienceSegments',
+      type: 'relationship',
+      relationTo: 'user-segments',
+      hasMany: true,
+      admin: {
+        position: 'sidebar',
+        description: 'Only send to users with a device in any of these segments. Leave empty for everyone the sequence targets.',
+      },
+    },
 
     // Subject Lines (A/B Testing)
     {
@@ -119,8 +135,8 @@ export const EmailTemplates: CollectionConfig = {
               name: 'subjectVariantB',
               type: 'text',
               admin: {
-                description: 'A/B test: alternate subject line (50% of recipients)',
-                condition: (data) => data?.status === 'ab_testing',
+                description: 'Legacy A/B test: alternate subject line, used when no variants are set on the Experiment tab',
+                condition: (data) => data?.status === 'ab_testing' && !data?.variants?.length,
               },
             },
             {
@@ -237,6 +253,177 @@ export const EmailTemplates: CollectionConfig = {
             },
           ],
         },
+        {
+          label: 'Experiment',
+          description: 'Multi-variant test against this content (variant A)',
+          fields: [
+            {
+              name: 'variants',
+              type: 'array',
+              maxRows: EMAIL_VARIANT_KEYS.length - 1,
+              admin: {
+                description: 'Challengers. Leave a field empty to send variant A\'s value',
+                initCollapsed: true,
+              },
+              validate: (value: unknown) => {
+                const keys = ((value as Array<{ key?: string }> | null) || []).map(variant => variant.key)
+                return new Set(keys).size === keys.length || 'Each variant needs its own key'
+              },
+              fields: [
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'key',
+                      type: 'select',
+                      required: true,
+                      options: EMAIL_VARIANT_KEYS.filter(key => key !== 'A').map(key => ({ label: key, value: key })),
+                      admin: { width: '50%' },
+                    },
+                    {
+                      name: 'weight',
+                      type: 'number',
+                      defaultValue: 1,
+                      min: 0,
+                      admin: {
+                        width: '50%',
+                        description: 'Share of traffic relative to the other arms',
+                      },
+                    },
+                  ],
+                },
+                {
+                  name: 'subject',
+                  type: 'text',
+                },
+                {
+                  name: 'preheader',
+                  type: 'text',
+                },
+                {
+                  name: 'headline',
+                  type: 'text',
+                },
+                {
+                  name: 'body',
+                  type: 'richText',
+                },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'ctaText',
+                      type: 'text',
+                      admin: { width: '50%' },
+                    },
+                    {
+                      name: 'ctaUrl',
+                      type: 'text',
+                      admin: { width: '50%' },
+                    },
+                  ],
+                },
+              ],
+            },
+            {
+              name: 'experiment',
+              type: 'group',
+              fields: [
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'metric',
+                      type: 'select',
+                      defaultValue: EXPERIMENT_DEFAULTS.metric,
+                      options: [
+                        { label: 'Open Rate', value: 'open' },
+                        { label: 'Click Rate', value: 'click' },
+                      ],
+                      admin: { width: '33%' },
+                    },
+                    {
+                      name: 'confidenceLevel',
+                      type: 'number',
+                      defaultValue: EXPERIMENT_DEFAULTS.confidenceLevel,
+                      min: 80,
+                      max: 99.9,
+                      admin: {
+                        width: '33%',
+                        description: 'Percent; split across challengers (Bonferroni)',
+                      },
+                    },
+                    {
+                      name: 'controlWeight',
+                      type: 'number',
+                      defaultValue: 1,
+                      min: 0,
+                      admin: {
+                        width: '33%',
+                        description: 'Traffic share of variant A',
+                      },
+                    },
+                  ],
+                },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'holdoutHours',
+                      type: 'number',
+                      defaultValue: EXPERIMENT_DEFAULTS.holdoutHours,
+                      min: 1,
+                      admin: {
+                        width: '33%',
+                        description: 'Hours to collect data before the result is evaluated',
+                      },
+                    },
+                    {
+                      name: 'minSampleSize',
+                      type: 'number',
+                      defaultValue: EXPERIMENT_DEFAULTS.minSampleSize,
+                      min: 1,
+                      admin: {
+                        width: '33%',
+                        description: 'Sends each variant needs before evaluation',
+                      },
+                    },
+                    {
+                      name: 'autoPromote',
+                      type: 'checkbox',
+                      defaultValue: true,
+                      label: 'Promote winner automatically',
+                      admin: { width: '33%' },
+                    },
+                  ],
+                },
+                {
+                  type: 'row',
+                  fields: [
+                    {
+                      name: 'startedAt',
+                      type: 'date',
+                      admin: {
+                        width: '50%',
+                        readOnly: true,
+                        date: { pickerAppearance: 'dayAndTime' },
+                      },
+                    },
+                    {
+                      name: 'concludedAt',
+                      type: 'date',
+                      admin: {
+                        width: '50%',
+                        readOnly: true,
+                        date: { pickerAppearance: 'dayAndTime' },
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
         {
           label: 'Stats',
           description: 'Performance metrics',
@@ -313,11 +500,15 @@ export const EmailTemplates: CollectionConfig = {
                     { label: 'Not Determined', value: 'pending' },
                     { label: 'Variant A Wins', value: 'A' },
                     { label: 'Variant B Wins', value: 'B' },
+                    { label: 'Variant C Wins', value: 'C' },
+                    { label: 'Variant D Wins', value: 'D' },
+                    { label: 'Variant E Wins', value: 'E' },
+                    { label: 'Variant F Wins', value: 'F' },
                     { label: 'No Significant Difference', value: 'tie' },
                   ],
                   admin: {
-                    condition: (data) => data?.subjectVariantB,
-                    description: 'A/B test result (auto-calculated after 100+ sends)',
+                    condition: (data) => data?.subjectVariantB || data?.variants?.length || data?.stats?.abTestWinner,
+                    description: 'Experiment result (set after the holdout period once every variant has enough sends)',
                   },
                 },
               ],
@@ -337,6 +528,16 @@ export const EmailTemplates: CollectionConfig = {
     },
   ],
   hooks: {
+    beforeChange: [
+      async ({ data, originalDoc }) => {
+        // Starting an experiment resets the holdout clock and the result
+        if (data.status === 'ab_testing' && originalDoc?.status !== 'ab_testing') {
+          data.experiment = { ...data.experiment, startedAt: new Date().toISOString(), concludedAt: null }
+          data.stats = { ...data.stats, abTestWinner: 'pending' }
+        }
+        return data
+      },
+    ],
     afterChange: [
       async ({ doc }) => {
         // Recalculate rates when stats change
@@ -0,0 +1,298 @@
+import type { CollectionConfig } from 'payload'
+import { isAdmin, isEditorOrAdmin } from '../access/roleAccess'
+import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
+import {
+    isValidCasNumber,
+    normalizeCasNumber,
+    normalizeENumber,
+    invalidateIngredientIndex,
+} from '../utilities/ingredient-registry'
+
+/**
+ * Ingredients Collection
+ *
+ * First-class ingredient registry used by the verdict engine and risk prediction.
+ * Each entry carries:
+ * - Synonyms, CAS number and E-number for matching raw ingredient text
+ * - Hazard classifications (IARC, GHS, Prop 65, ...)
+ * - Per-jurisdiction regulatory status
+ * - A risk weight that replaces the old hard-coded risk signal constants
+ *
+ * Products link here via `ingredientsList`; VerdictRules reference entries via
+ * `ingredientCondition`.
+ */
+export const Ingredients: CollectionConfig = {
+    slug: 'ingredients',
+    access: {
+        read: () => true,
+        create: isEditorOrAdmin,
+        update: isEditorOrAdmin,
+        delete: isAdmin,
+    },
+    admin: {
+        useAsTitle: 'name',
+        defaultColumns: ['name', 'verdict', 'casNumber', 'eNumber', 'riskWeight', 'updatedAt'],
+        listSearchableFields: ['name', 'casNumber', 'eNumber'],
+        group: 'Research',
+        description: 'Ingredient registry with synonyms, identifiers, hazards and regulatory status',
+    },
+    hooks: {
+        beforeChange: [
+            ({ data }) => {
+                if (!data) return data
+
+                if (data.name && !data.slug) {
+                    data.slug = data.name
+                        .toLowerCase()
+                        .replace(/[^a-z0-9]+/g, '-')
+                        .replace(/(^-|-$)/g, '')
+                }
+                if (data.casNumber) {
+                    data.casNumber = normalizeCasNumber(data.casNumber)
+                }
+                if (data.eNumber) {
+                    data.eNumber = normalizeENumber(data.eNumber)
+                }
+                return data
+            },
+        ],
+        afterChange: [
+            createAuditLogHook('ingredients'),
+            () => {
+                invalidateIngredientIndex()
+            },
+        ],
+        afterDelete: [
+            createAuditDeleteHook('ingredients'),
+            () => {
+                invalidateIngredientIndex()
+            },
+        ],
+    },
+    fields: [
+        // === IDENTIFICATION ===
+        {
+            name: 'name',
+            type: 'text',
+            required: true,
+            unique: true,
+            admin: {
+                description: 'Canonical ingredient name (e.g., "Titanium Dioxide")',
+            },
+        },
+        {
+            name: 'slug',
+            type: 'text',
+            unique: true,
+            index: true,
+            admin: {
+                position: 'sidebar',
+                description: 'Auto-generated from name if empty',
+            },
+        },
+        {
+            name: 'synonyms',
+            type: 'array',
+            admin: {
+                description: 'Alternative names as they appear on labels (e.g., "E171", "CI 77891")',
+            },
+            fields: [
+                {
+                    name: 'synonym',
+                    type: 'text',
+                    required: true,
+                },
+            ],
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'casNumber',
+                    type: 'text',
+                    index: true,
+                    label: 'CAS Number',
+                    validate: (value: string | null | undefined) => {
+                        if (!value) return true
+                        return isValidCasNumber(value) || 'Invalid CAS Registry Number (checksum failed)'
+                    },
+                    admin: {
+                        description: 'e.g., 13463-67-7',
+                    },
+                },
+                {
+                    name: 'eNumber',
+                    type: 'text',
+                    index: true,
+                    label: 'E-Number',
+                    admin: {
+                        description: 'EU food additive code (e.g., E171)',
+                    },
+                },
+            ],
+        },
+        {
+            name: 'category',
+            type: 'select',
+            options: [
+                { label: 'Artificial Colors', value: 'artificial_colors' },
+                { label: 'Artificial Sweeteners', value: 'artificial_sweeteners' },
+                { label: 'Preservatives', value: 'preservatives' },
+                { label: 'Emulsifiers', value: 'emulsifiers' },
+                { label: 'Heavy Metals', value: 'heavy_metals' },
+                { label: 'Pesticides', value: 'pesticides' },
+                { label: 'Vitamins & Minerals', value: 'vitamins_minerals' },
+                { label: 'Proteins', value: 'proteins' },
+                { label: 'Fats & Oils', value: 'fats_oils' },
+                { label: 'Sugars', value: 'sugars' },
+                { label: 'Fibers', value: 'fibers' },
+                { label: 'Other', value: 'other' },
+            ],
+        },
+
+        // === ASSESSMENT ===
+        {
+            name: 'verdict',
+            type: 'select',
+            required: true,
+            defaultValue: 'unknown',
+            index: true,
+            options: [
+                { label: '✅ Safe', value: 'safe' },
+                { label: '⚠️ Caution', value: 'caution' },
+                { label: '🚫 Flagged', value: 'flagged' },
+                { label: '❓ Unknown', value: 'unknown' },
+            ],
+            admin: {
+                position: 'sidebar',
+                description: 'Used by "Ingredient Verdict" rules and conflict detection',
+            },
+        },
+        {
+            name: 'riskWeight',
+            type: 'number',
+            min: 0,
+            max: 50,
+            defaultValue: 0,
+            admin: {
+                position: 'sidebar',
+                description: 'Contribution to product risk prediction (0-50). 0 = no risk signal.',
+            },
+        },
+        {
+            name: 'reason',
+            type: 'textarea',
+            admin: {
+                description: 'Summary of the evidence behind this assessment',
+            },
+        },
+        {
+            name: 'hazardClassifications',
+            type: 'array',
+            admin: {
+                description: 'Hazard classifications from recognized authorities',
+            },
+            fields: [
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'hazard',
+                            type: 'select',
+                            required: true,
+                            options: [
+                                { label: 'Carcinogen', value: 'carcinogen' },
+                                { label: 'Possible Carcinogen', value: 'possible_carcinogen' },
+                                { label: 'Endocrine Disruptor', value: 'endocrine_disruptor' },
+                                { label: 'Reproductive Toxicant', value: 'reproductive_toxicant' },
+                                { label: 'Developmental Toxicant', value: 'developmental_toxicant' },
+                                { label: 'Neurotoxicant', value: 'neurotoxicant' },
+                                { label: 'Allergen', value: 'allergen' },
+                                { label: 'Heavy Metal', value: 'heavy_metal' },
+                                { label: 'Irritant', value: 'irritant' },
+                                { label: 'Other', value: 'other' },
+                            ],
+                        },
+                        {
+                            name: 'authority',
+                            type: 'select',
+                            options: [
+                                { label: 'IARC', value: 'iarc' },
+                                { label: 'GHS / CLP', value: 'ghs' },
+                                { label: 'California Prop 65', value: 'prop65' },
+                                { label: 'ECHA', value: 'echa' },
+                                { label: 'US EPA', value: 'epa' },
+                                { label: 'NTP', value: 'ntp' },
+                                { label: 'Other', value: 'other' },
+                            ],
+                        },
+                    ],
+                },
+                {
+                    name: 'reference',
+                    type: 'text',
+                    admin: {
+                        description: 'Classification code or citation (e.g., "IARC Group 2B", "H351")',
+                    },
+                },
+            ],
+        },
+        {
+            name: 'jurisdictionStatus',
+            type: 'array',
+            label: 'Regulatory Status by Jurisdiction',
+            fields: [
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'jurisdiction',
+                            type: 'select',
+                            required: true,
+                            options: [
+                                { label: 'United States (FDA)', value: 'us' },
+                                { label: 'California', value: 'us_ca' },
+                                { label: 'European Union', value: 'eu' },
+                                { label: 'United Kingdom', value: 'uk' },
+                                { label: 'Canada', value: 'ca' },
+                                { label: 'Australia / New Zealand', value: 'anz' },
+                                { label: 'Japan', value: 'jp' },
+                            ],
+                        },
+                        {
+                            name: 'status',
+                            type: 'select',
+                            required: true,
+                            options: [
+                                { label: 'Approved', value: 'approved' },
+                                { label: 'Restricted', value: 'restricted' },
+                                { label: 'Warning Label Required', value: 'warning_required' },
+                                { label: 'Banned', value: 'banned' },
+                                { label: 'Under Review', value: 'under_review' },
+                            ],
+                        },
+                        {
+                            name: 'effectiveDate',
+                            type: 'date',
+                        },
+                    ],
+                },
+                {
+                    name: 'limit',
+                    type: 'text',
+                    admin: {
+                        description: 'Permitted level, if restricted (e.g., "0.5 ppm")',
+                    },
+                },
+                {
+                    name: 'reference',
+                    type: 'text',
+                    admin: {
+                        description: 'Regulation or notice (e.g., "Regulation (EU) 2022/63")',
+                    },
+                },
+            ],
+        },
+    ],
+    timestamps: true,
+}
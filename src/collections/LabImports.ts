@@ -0,0 +1,250 @@
+import type { CollectionConfig } from 'payload'
+import { isStaffAdmin, isStaffEditorOrAdmin } from '../access/roleAccess'
+import { mergeDetections, type ProposedDetection } from '../utilities/lab-import'
+
+/**
+ * Lab Imports Collection
+ *
+ * Staging area for instrument exports (vendor CSV / mzML) parsed by
+ * POST /api/lab-data/import. Each import holds the proposed detections for one
+ * product; nothing is written to the product until a reviewer sets the status
+ * to "applied", at which point the detections are merged into
+ * detectionResults (replacing existing entries for the same compound).
+ *
+ * Reviewers may edit the proposed detections JSON before applying.
+ */
+export const LabImports: CollectionConfig = {
+    slug: 'lab-imports',
+    access: {
+        read: isStaffEditorOrAdmin,
+        create: isStaffEditorOrAdmin,
+        update: isStaffEditorOrAdmin,
+        delete: ({ req: { user } }) => isStaffAdmin(user),
+    },
+    admin: {
+        useAsTitle: 'fileName',
+        defaultColumns: ['fileName', 'product', 'status', 'format', 'detectionCount', 'createdAt'],
+        group: 'Research',
+        description: 'Instrument data imports awaiting review before they are applied to products',
+    },
+    hooks: {
+        beforeChange: [
+            // ============================================
+            // APPLY APPROVED IMPORT
+            // Merge detections into the product when status moves to "applied"
+            // ============================================
+            async ({ data, originalDoc, operation, req }) => {
+                if (!data) return data
+
+                const wasApplied = originalDoc?.status === 'applied'
+                if (wasApplied && data.status && data.status !== 'applied') {
+                    throw new Error('Applied imports cannot be reopened. Start a new import instead.')
+                }
+                if (data.status !== 'applied' || wasApplied) return data
+                if (operation === 'create') {
+                    throw new Error('Imports must be reviewed before they are applied')
+                }
+
+                const productId = typeof (data.product ?? originalDoc?.product) === 'object'
+                    ? (data.product ?? originalDoc?.product)?.id
+                    : data.product ?? originalDoc?.product
+                const detections = (data.detections ?? originalDoc?.detections) as ProposedDetection[] | null
+                if (!productId || !Array.isArray(detections) || detections.length === 0) {
+                    throw new Error('Nothing to apply: the import has no detections')
+                }
+
+                const product = await req.payload.findByID({
+                    collection: 'products',
+                    id: productId,
+                    depth: 0,
+                    req,
+                })
+                const existing = product.detectionResults?.detections || []
+                const acquiredAt = data.acquiredAt ?? originalDoc?.acquiredAt
+                const labName = data.labName ?? originalDoc?.labName
+
+                await req.payload.update({
+                    collection: 'products',
+                    id: productId,
+                    data: {
+                        detectionResults: {
+                            ...product.detectionResults,
+                            detections: mergeDetections(existing, detections) as typeof existing,
+                            rawDataAvailable: true,
+                            labName: labName || product.detectionResults?.labName,
+                            testDate: acquiredAt || product.detectionResults?.testDate,
+                        },
+                    },
+                    context: {
+                        reportChangeReason: `Lab data import: ${data.fileName ?? originalDoc?.fileName ?? 'instrument export'}`,
+                    },
+                    req,
+                })
+
+                data.reviewedBy = req.user?.id
+                data.reviewedAt = new Date().toISOString()
+                console.log(`[LabImports] Applied ${detections.length} detections to product ${productId}`)
+
+                return data
+            },
+        ],
+    },
+    fields: [
+        {
+            name: 'product',
+            type: 'relationship',
+            relationTo: 'products',
+            required: true,
+            index: true,
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'status',
+                    type: 'select',
+                    required: true,
+                    defaultValue: 'pending_review',
+                    options: [
+                        { label: 'Pending Review', value: 'pending_review' },
+                        { label: 'Applied', value: 'applied' },
+                        { label: 'Rejected', value: 'rejected' },
+                    ],
+                    admin: {
+                        description: 'Set to Applied to merge the detections into the product',
+                    },
+                },
+                {
+                    name: 'format',
+                    type: 'select',
+                    required: true,
+                    options: [
+                        { label: 'Vendor CSV', value: 'vendor_csv' },
+                        { label: 'mzML', value: 'mzml' },
+                    ],
+                    admin: {
+                        readOnly: true,
+                    },
+                },
+            ],
+        },
+        {
+            name: 'fileName',
+            type: 'text',
+            admin: {
+                readOnly: true,
+            },
+        },
+
+        // === INSTRUMENT METADATA ===
+        {
+            type: 'collapsible',
+            label: 'Instrument Metadata',
+            fields: [
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'instrument',
+                            type: 'text',
+                        },
+                        {
+                            name: 'sampleName',
+                            type: 'text',
+                        },
+                        {
+                            name: 'acquiredAt',
+                            type: 'date',
+                            admin: {
+                                description: 'Becomes the product test date when applied',
+                            },
+                        },
+                    ],
+                },
+                {
+                    name: 'labName',
+                    type: 'text',
+                    admin: {
+                        description: 'Testing laboratory (copied to the product when applied)',
+                    },
+                },
+            ],
+        },
+
+        // === PARSE RESULTS ===
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'peakCount',
+                    type: 'number',
+                    admin: { readOnly: true, description: 'Identified peaks in the export' },
+                },
+                {
+                    name: 'detectionCount',
+                    type: 'number',
+                    admin: { readOnly: true, description: 'Proposed detections' },
+                },
+                {
+                    name: 'notDetectedCount',
+                    type: 'number',
+                    admin: { readOnly: true, description: 'Targets reported below LOD' },
+                },
+            ],
+        },
+        {
+            name: 'detections',
+            type: 'json',
+            admin: {
+                description: 'Proposed detectionResults entries. Edit before applying if needed.',
+            },
+        },
+        {
+            name: 'unmatchedPeaks',
+            type: 'json',
+            admin: {
+                readOnly: true,
+                description: 'Peaks not found in the ingredient registry',
+            },
+        },
+        {
+            name: 'warnings',
+            type: 'json',
+            admin: {
+                readOnly: true,
+            },
+        },
+
+        // === REVIEW ===
+        {
+            name: 'reviewNotes',
+            type: 'textarea',
+        },
+        {
+            name: 'uploadedBy',
+            type: 'relationship',
+            relationTo: 'users',
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+            },
+        },
+        {
+            name: 'reviewedBy',
+            type: 'relationship',
+            relationTo: 'users',
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+            },
+        },
+        {
+            name: 'reviewedAt',
+            type: 'date',
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+            },
+        },
+    ],
+}
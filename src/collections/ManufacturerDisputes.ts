@@ -1,4 +1,5 @@
 import type { CollectionConfig } from 'payload'
+import { SLA_BUSINESS_DAYS, addBusinessDays, buildManufacturerReply, isDisputeOpen } from '../utilities/dispute-sla'
 
 /**
  * ManufacturerDisputes Collection
@@ -183,6 +184,31 @@ export const ManufacturerDisputes: CollectionConfig = {
                 },
               ],
             },
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'brand',
+                  type: 'relationship',
+                  relationTo: 'brands',
+                  admin: {
+                    width: '50%',
+                    readOnly: true,
+                    description: 'Brand the dispute was filed for (Brand Portal submissions)',
+                  },
+                },
+                {
+                  name: 'submittedBy',
+                  type: 'relationship',
+                  relationTo: 'brand-users',
+                  admin: {
+                    width: '50%',
+                    readOnly: true,
+                    description: 'Brand Portal user who submitted the dispute',
+                  },
+                },
+              ],
+            },
             {
               name: 'emailDomainVerified',
               type: 'checkbox',
@@ -314,7 +340,7 @@ export const ManufacturerDisputes: CollectionConfig = {
               type: 'checkbox',
               defaultValue: false,
               admin: {
-                description: 'Was the published report updated as a result?',
+                description: 'Was the published report updated as a result? Links this dispute to the product report version history.',
               },
             },
             {
@@ -330,6 +356,32 @@ export const ManufacturerDisputes: CollectionConfig = {
         {
           label: 'Response & Resolution',
           fields: [
+            {
+              name: 'suggestedResponse',
+              type: 'textarea',
+              virtual: true,
+              admin: {
+                readOnly: true,
+                description: 'Approved template for the current status (from legal copy). Adapt into the official response.',
+              },
+              hooks: {
+                afterRead: [
+                  ({ data }) =>
+                    data?.referenceNumber
+                      ? buildManufacturerReply(
+                        {
+                          referenceNumber: data.referenceNumber,
+                          status: data.status,
+                          submittedAt: data.submittedAt,
+                          slaDeadline: data.slaDeadline,
+                          updateDescription: data.updateDescription,
+                        },
+                        data.productReference
+                      )
+                      : undefined,
+                ],
+              },
+            },
             {
               name: 'responseToManufacturer',
               type: 'richText',
@@ -459,18 +511,42 @@ export const ManufacturerDisputes: CollectionConfig = {
 
           // Set SLA deadline to 14 business days from now
           if (!data.slaDeadline) {
-            const deadline = new Date()
-            let businessDays = 0
-            while (businessDays < 14) {
-              deadline.setDate(deadline.getDate() + 1)
-              const day = deadline.getDay()
-              if (day !== 0 && day !== 6) businessDays++ // Skip weekends
-            }
-            data.slaDeadline = deadline.toISOString()
+            data.slaDeadline = addBusinessDays(new Date(), SLA_BUSINESS_DAYS).toISOString()
           }
         }
         return data
       },
+      // Append submissions and status changes to the embedded audit trail
+      async ({ data, originalDoc, operation, req }) => {
+        const now = new Date().toISOString()
+        const performedBy = req.user?.collection === 'users' ? req.user.id : undefined
+        const auditLog = [...(data.auditLog ?? originalDoc?.auditLog ?? [])]
+
+        if (operation === 'create') {
+          auditLog.push({
+            timestamp: now,
+            action: 'submitted',
+            notes: data.submittedBy ? 'Submitted via Brand Portal' : 'Submitted via dispute form',
+          })
+        } else if (data.status && data.status !== originalDoc?.status) {
+          auditLog.push({
+            timestamp: now,
+            action: 'status_changed',
+            performedBy,
+            notes: `${originalDoc?.status} -> ${data.status}`,
+          })
+
+          // Stamp the resolution date the first time a dispute is closed out
+          if (!isDisputeOpen(data.status) && !data.resolvedDate && !originalDoc?.resolvedDate) {
+            data.resolvedDate = now
+          }
+        } else {
+          return data
+        }
+
+        data.auditLog = auditLog
+        return data
+      },
       // Calculate response time when first response is sent
       async ({ data, originalDoc, operation }) => {
         if (operation === 'update') {
@@ -486,8 +562,7 @@ export const ManufacturerDisputes: CollectionConfig = {
           if (!data.slaBreached && data.slaDeadline) {
             const deadline = new Date(data.slaDeadline)
             const now = new Date()
-            const isResolved = data.status?.startsWith('resolved_') || data.status?.startsWith('closed_')
-            if (now > deadline && !isResolved) {
+            if (now > deadline && isDisputeOpen(data.status)) {
               data.slaBreached = true
             }
           }
@@ -507,6 +582,28 @@ export const ManufacturerDisputes: CollectionConfig = {
           }
         }
       },
+      // Tie "report updated" resolutions to the product's report version history
+      async ({ doc, previousDoc, req }) => {
+        if (!doc.reportUpdated || previousDoc?.reportUpdated) return
+        const productId = typeof doc.product === 'object' ? doc.product?.id : doc.product
+        if (!productId) return
+
+        try {
+          await req.payload.update({
+            collection: 'products',
+            id: productId,
+            data: {},
+            context: {
+              reportDispute: {
+                referenceNumber: doc.referenceNumber,
+                description: doc.updateDescription,
+              },
+            },
+          })
+        } catch (error) {
+          console.error(`[ManufacturerDispute] Failed to record report version for ${doc.referenceNumber}:`, error)
+        }
+      },
     ],
   },
 }
@@ -8,6 +8,7 @@ import {
 
 import { anyone } from '../access/anyone'
 import { authenticated } from '../access/authenticated'
+import { hashUploadedFile } from '../hooks/hashUploadedFile'
 
 export const Media: CollectionConfig = {
   slug: 'media',
@@ -18,6 +19,9 @@ export const Media: CollectionConfig = {
     read: anyone,
     update: authenticated,
   },
+  hooks: {
+    beforeChange: [hashUploadedFile],
+  },
   fields: [
     {
       name: 'alt',
@@ -33,6 +37,17 @@ export const Media: CollectionConfig = {
         },
       }),
     },
+    {
+      name: 'sha256',
+      type: 'text',
+      index: true,
+      label: 'SHA-256',
+      admin: {
+        readOnly: true,
+        position: 'sidebar',
+        description: 'Hash of the uploaded file, used to verify lab evidence',
+      },
+    },
   ],
   upload: {
     // Using vercelBlobStorage plugin for file storage - no staticDir needed
@@ -0,0 +1,168 @@
+/**
+ * Payout Runs Collection
+ *
+ * A batch of pending referral payouts for one period, paid through one
+ * provider (PayPal Payouts, Stripe Connect or ACH). Created by
+ * POST /api/referral-payout-runs, which groups payouts into one item per
+ * referrer, skips anything under the minimum or blocked on a W-9, and moves
+ * the batched payouts to "processing".
+ *
+ * The payment file is downloaded from
+ * GET /api/referral-payout-runs/:id/export; the provider's result file is
+ * imported with POST /api/referral-payout-runs/:id/reconcile.
+ */
+
+import type { CollectionConfig } from 'payload'
+import { isAdmin } from '../access/roleAccess'
+import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
+
+export const PayoutRuns: CollectionConfig = {
+    slug: 'payout-runs',
+    admin: {
+        useAsTitle: 'period',
+        group: 'Growth',
+        description: 'Referral payout batches exported to payment providers',
+        defaultColumns: ['period', 'provider', 'status', 'itemCount', 'totalAmount', 'createdAt'],
+    },
+    access: {
+        // Payouts are sensitive financial data - admin only
+        read: isAdmin,
+        create: isAdmin,
+        update: isAdmin,
+        delete: isAdmin,
+    },
+    hooks: {
+        afterChange: [createAuditLogHook('payout-runs')],
+        afterDelete: [createAuditDeleteHook('payout-runs')],
+    },
+    fields: [
+        {
+            name: 'period',
+            type: 'text',
+            required: true,
+            index: true,
+            admin: {
+                description: 'Payout period batched (e.g., "2026-01" or "2026" - annual runs include monthly payouts)',
+            },
+        },
+        {
+            name: 'provider',
+            type: 'select',
+            required: true,
+            options: [
+                { label: 'PayPal Payouts (PayPal + Venmo)', value: 'paypal' },
+                { label: 'Stripe Connect', value: 'stripe' },
+                { label: 'ACH', value: 'ach' },
+            ],
+        },
+        {
+            name: 'status',
+            type: 'select',
+            required: true,
+            defaultValue: 'ready',
+            options: [
+                { label: 'Ready', value: 'ready' },                               // Payment file can be exported
+                { label: 'Partially Reconciled', value: 'partially_reconciled' }, // Some items settled
+                { label: 'Reconciled', value: 'reconciled' },                     // Every item paid or failed
+                { label: 'Cancelled', value: 'cancelled' },                       // Payouts returned to pending
+            ],
+            index: true,
+        },
+        {
+            name: 'minimumAmount',
+            type: 'number',
+            min: 0,
+            defaultValue: 25,
+            admin: {
+                description: 'Referrers owed less than this (USD) are skipped and carried over',
+            },
+        },
+
+        // Totals
+        {
+            type: 'row',
+            fields: [
+                { name: 'itemCount', type: 'number', defaultValue: 0, admin: { readOnly: true } },
+                { name: 'payoutCount', type: 'number', defaultValue: 0, admin: { readOnly: true } },
+                { name: 'totalAmount', type: 'number', defaultValue: 0, admin: { readOnly: true, description: 'USD' } },
+            ],
+        },
+
+        // Payment items (one per referrer and destination)
+        {
+            name: 'items',
+            type: 'array',
+            admin: {
+                description: 'Payments in this run. itemId is the reference id sent to the provider.',
+            },
+            fields: [
+                { name: 'itemId', type: 'text', required: true },
+                { name: 'referrerId', type: 'text', required: true },
+                { name: 'referrerEmail', type: 'text', required: true },
+                { name: 'paymentMethod', type: 'text', required: true },
+                { name: 'destination', type: 'text', required: true },
+                { name: 'amount', type: 'number', required: true },
+                {
+                    name: 'payoutIds',
+                    type: 'json',
+                    admin: { description: 'Referral payouts this item pays' },
+                },
+                {
+                    name: 'status',
+                    type: 'select',
+                    defaultValue: 'pending',
+                    options: [
+                        { label: 'Pending', value: 'pending' },
+                        { label: 'Paid', value: 'paid' },
+                        { label: 'Failed', value: 'failed' },
+                    ],
+                },
+                { name: 'transactionId', type: 'text' },
+                { name: 'error', type: 'text' },
+            ],
+        },
+        {
+            name: 'skipped',
+            type: 'json',
+            admin: {
+                readOnly: true,
+                description: 'Payouts left pending: below_minimum, missing_payment_details or w9_required',
+            },
+        },
+
+        // Reconciliation
+        {
+            name: 'reconciledAt',
+            type: 'date',
+            admin: {
+                readOnly: true,
+                date: {
+                    pickerAppearance: 'dayAndTime',
+                },
+            },
+        },
+        {
+            name: 'lastReconciliation',
+            type: 'json',
+            admin: {
+                readOnly: true,
+                description: 'Result of the last imported provider file (paid, failed, unmatched, mismatched items)',
+            },
+        },
+        {
+            name: 'createdBy',
+            type: 'relationship',
+            relationTo: 'users',
+            admin: {
+                readOnly: true,
+            },
+        },
+        {
+            name: 'notes',
+            type: 'textarea',
+        },
+    ],
+    timestamps: true,
+}
+
+export default PayoutRuns
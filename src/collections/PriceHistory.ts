@@ -1,4 +1,5 @@
 import type { CollectionConfig } from 'payload'
+import { checkReformulation } from '../utilities/reformulation-detector'
 
 /**
  * PriceHistory Collection
@@ -8,8 +9,10 @@ import type { CollectionConfig } from 'payload'
  * - Shrinkflation: Same price, smaller size
  * - Skimpflation: Same price/size, cheaper ingredients
  * - Price increases
+ * - Reformulations: ingredient snapshots diffed against the previous capture
+ *   (utilities/reformulation-detector)
  *
- * Data is collected daily via automated scraping.
+ * Data is collected daily via automated scraping (utilities/retailer-adapters).
  */
 export const PriceHistory: CollectionConfig = {
     slug: 'price-history',
@@ -25,6 +28,19 @@ export const PriceHistory: CollectionConfig = {
         group: 'Analytics',
         description: 'Historical price and size data for shrinkflation/skimpflation detection',
     },
+    hooks: {
+        afterChange: [
+            async ({ doc, operation, req }) => {
+                if (operation !== 'create' || !doc.ingredientsSnapshot) return doc
+                try {
+                    await checkReformulation(req.payload, doc, req)
+                } catch (error) {
+                    console.error(`[PriceHistory] Reformulation check failed for record ${doc.id}:`, error)
+                }
+                return doc
+            },
+        ],
+    },
     fields: [
         // === PRODUCT REFERENCE ===
         {
@@ -105,6 +121,7 @@ export const PriceHistory: CollectionConfig = {
                 { label: 'Kroger', value: 'kroger' },
                 { label: 'Whole Foods', value: 'whole_foods' },
                 { label: 'Instacart', value: 'instacart' },
+                { label: 'iHerb', value: 'iherb' },
                 { label: 'Manual Entry', value: 'manual' },
             ],
             admin: {
@@ -118,6 +135,20 @@ export const PriceHistory: CollectionConfig = {
                 description: 'URL where price was captured',
             },
         },
+        {
+            name: 'extractedFrom',
+            type: 'select',
+            options: [
+                { label: 'Embedded Page State', value: 'embedded_state' },
+                { label: 'JSON-LD', value: 'json_ld' },
+                { label: 'Microdata', value: 'microdata' },
+                { label: 'Page Markup', value: 'html' },
+            ],
+            admin: {
+                position: 'sidebar',
+                description: 'Where the scraper read the price from',
+            },
+        },
         {
             name: 'capturedAt',
             type: 'date',
@@ -139,6 +170,17 @@ export const PriceHistory: CollectionConfig = {
                 description: 'Ingredient list at time of capture (for skimpflation detection)',
             },
         },
+        {
+            name: 'ingredientsSource',
+            type: 'select',
+            options: [
+                { label: 'Retailer Ingredient Panel', value: 'retailer' },
+                { label: 'Product Record', value: 'product' },
+            ],
+            admin: {
+                description: 'Ingredient counts are only compared between snapshots from the same source',
+            },
+        },
         {
             name: 'ingredientCount',
             type: 'number',
@@ -165,6 +207,7 @@ export const PriceHistory: CollectionConfig = {
                 { label: 'Shrinkflation', value: 'shrinkflation' },
                 { label: 'Skimpflation', value: 'skimpflation' },
                 { label: 'Both Shrink+Price', value: 'double_whammy' },
+                { label: 'Reformulation', value: 'reformulation' },
             ],
             admin: {
                 condition: (data) => data?.anomalyDetected,
@@ -1,4 +1,5 @@
 import type { CollectionConfig } from 'payload'
+import { refreshSegmentsOnUnlock } from '../hooks/segmentMembership'
 
 /**
  * ProductUnlocks Collection
@@ -37,6 +38,9 @@ export const ProductUnlocks: CollectionConfig = {
         group: 'System',
         description: 'Immutable record of all product unlocks',
     },
+    hooks: {
+        afterChange: [refreshSegmentsOnUnlock],
+    },
     fields: [
         // === USER & DEVICE ===
         {
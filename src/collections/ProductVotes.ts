@@ -1,5 +1,6 @@
 import type { CollectionConfig } from 'payload'
 import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
+import { refreshSegmentsOnVote } from '../hooks/segmentMembership'
 
 /**
  * ProductVotes Collection
@@ -59,6 +60,7 @@ export const ProductVotes: CollectionConfig = {
         ],
         afterChange: [
             createAuditLogHook('product-votes'),
+            refreshSegmentsOnVote,
             async ({ doc, previousDoc, req, operation }) => {
                 // Only process updates where status changed to 'complete'
                 if (operation !== 'update' || !previousDoc) return doc
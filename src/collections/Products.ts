@@ -15,35 +15,40 @@
  */
 import type { CollectionConfig, FieldAccess } from 'payload'
 import { isEditorOrAdmin, isAdmin } from '../access/roleAccess'
+import { isTrustedFrontendRequest, shieldedFieldAccess, shieldProductAfterRead } from '../access/liabilityShield'
 import {
     detectConflicts,
     hydrateCategory,
     calculateFreshness,
+    parseAndLinkIngredients,
 } from '../utilities/smart-automation'
 import { debouncedRecalculateFeaturedProduct } from '../utilities/featured-product'
 import { createAuditLog } from './AuditLog'
 import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
+import { applyVerdictRules } from '../hooks/verdictRules'
 import { classifyCategory } from '../utilities/ai-category'
 import { populateSafeAlternatives } from '../utilities/safe-alternatives'
 import { extractAndPopulateProduct } from '../utilities/image-extraction'
 import { getThresholds } from '../utilities/get-thresholds'
 import { containsProhibitedTerms, classifyDetection, getDisplayMode } from '../lib/legal-copy'
+import {
+    buildReportSnapshot,
+    diffSnapshots,
+    findVersion,
+    formatDisputeReason,
+    hasLabData,
+    snapshotsEqual,
+} from '../utilities/report-versions'
+import { evidenceChanged, resolveMediaHash, sealVersion, type SealedReportVersion } from '../utilities/evidence-chain'
 
 /**
- * Check if a user has premium access (admin, member, or premium subscriber)
+ * Normalize a hasMany relationship value (ids or populated docs) to ids
  */
-function isPremiumUser(user: unknown): boolean {
-    if (!user) return false
-    const u = user as {
-        role?: string
-        memberState?: string
-        subscriptionStatus?: string
-        isAdmin?: boolean
-    }
-    if (u.role === 'admin' || u.isAdmin) return true
-    if (u.memberState === 'member') return true
-    if (u.subscriptionStatus === 'premium') return true
-    return false
+function toRelationshipIds(value: unknown): number[] | undefined {
+    if (!Array.isArray(value)) return undefined
+    return value
+        .map((item) => (typeof item === 'object' && item !== null ? (item as { id: number }).id : item))
+        .filter((id): id is number => typeof id === 'number')
 }
 
 /**
@@ -51,51 +56,13 @@ function isPremiumUser(user: unknown): boolean {
  * - Authenticated users (admin panel) can see everything
  * - Requests with valid x-api-key header (frontend server) can see everything
  * - Unauthenticated API requests get this field omitted
+ * - FLAGGED products additionally follow the Liability Shield
  */
-const premiumFieldAccess: FieldAccess = ({ req }) => {
-    // If user is logged in (admin or authenticated request), allow read
-    if (req.user) return true
-
-    // Check for API key from trusted frontend
-    const apiKey = req.headers.get('x-api-key')
-    const expectedKey = process.env.PAYLOAD_API_SECRET
-    if (apiKey && expectedKey && apiKey === expectedKey) {
-        return true
-    }
-
-    // Public API requests cannot read premium fields
-    return false
-}
+const premiumFieldAccess: FieldAccess = (args) => {
+    // Only logged-in users (admin or authenticated request) or the trusted frontend
+    if (!args.req.user && !isTrustedFrontendRequest(args.req)) return false
 
-/**
- * Verdict-based field access control (Liability Shield).
- * For FLAGGED products, sensitive lab data is restricted to:
- * - CMS users (admin/editor)
- * - Premium users (member, premium subscriber)
- * - Requests with valid API key from trusted frontend
- *
- * This protects the company from liability by not exposing
- * detailed ingredient/testing data for products marked as FLAGGED.
- */
-const verdictBasedFieldAccess: FieldAccess = ({ doc, req }) => {
-    // CMS users (admin/editor) always see everything
-    if (req.user) {
-        const role = (req.user as { role?: string }).role
-        if (role === 'admin' || role === 'product_editor') return true
-    }
-
-    // Check for API key from trusted frontend
-    const apiKey = req.headers.get('x-api-key')
-    const expectedKey = process.env.PAYLOAD_API_SECRET
-    if (apiKey && expectedKey && apiKey === expectedKey) {
-        return true
-    }
-
-    // Non-FLAGGED products are visible to all
-    if (doc?.verdict !== 'flagged') return true
-
-    // For FLAGGED products, only premium users can see sensitive fields
-    return isPremiumUser(req.user)
+    return shieldedFieldAccess(args)
 }
 
 export const Products: CollectionConfig = {
@@ -139,7 +106,24 @@ export const Products: CollectionConfig = {
     },
     hooks: {
         beforeChange: [
-            // NOTE: HOOK 1 (Ingredient parsing) REMOVED - Liability Shield
+            // ============================================
+            // HOOK 1: INGREDIENT PARSING
+            // Link raw label text to the Ingredients registry
+            // ============================================
+            async ({ data, req, originalDoc }) => {
+                const rawChanged = data?.ingredientsRaw !== undefined &&
+                    data.ingredientsRaw !== originalDoc?.ingredientsRaw
+                if (!rawChanged) return data
+
+                try {
+                    const parsed = await parseAndLinkIngredients(data.ingredientsRaw || '', req.payload)
+                    data.ingredientsList = parsed.linkedIds
+                    data.unmatchedIngredients = parsed.unmatched
+                } catch (error) {
+                    console.error('Ingredient parsing failed:', error)
+                }
+                return data
+            },
 
             // ============================================
             // HOOK 3: INSTANT CATEGORY HYDRATION
@@ -176,8 +160,12 @@ export const Products: CollectionConfig = {
                 return data;
             },
 
-            // NOTE: HOOK 4 (Verdict Rules with Ingredients) REMOVED - Liability Shield
-            // NOTE: HOOK 5 (Auto-verdict from Ingredients) REMOVED - Liability Shield
+            // ============================================
+            // HOOK 4 + 5: VERDICT RULES / AUTO-VERDICT
+            // Evaluate active VerdictRules, store the auto-verdict and apply
+            // it unless an editor has overridden it
+            // ============================================
+            applyVerdictRules,
 
             // ============================================
             // HOOK 6: HARD GUARDRAILS - Block conflicting saves
@@ -186,6 +174,7 @@ export const Products: CollectionConfig = {
                 const conflictResult = await detectConflicts(
                     {
                         verdict: data?.verdict,
+                        ingredientsList: toRelationshipIds(data?.ingredientsList),
                         verdictOverride: data?.verdictOverride,
                         category: typeof data?.category === 'number' ? data.category : data?.category?.id,
                     },
@@ -283,11 +272,22 @@ export const Products: CollectionConfig = {
             // ============================================
             // HOOK 7: FRESHNESS MONITORING
             // ============================================
-            ({ data }) => {
+            ({ data, originalDoc }) => {
                 // Calculate freshness status
                 const lastTested = data?.testingInfo?.lastTestedDate;
                 const freshness = calculateFreshness(lastTested);
                 data.freshnessStatus = freshness.status;
+
+                // A requested retest (e.g. hazardous reformulation) holds the
+                // product at 'needs_review' until a newer test date is entered
+                const retestRequestedAt = data?.retestRequestedAt ?? originalDoc?.retestRequestedAt;
+                if (
+                    freshness.status === 'fresh' &&
+                    retestRequestedAt &&
+                    (!lastTested || new Date(retestRequestedAt) > new Date(lastTested))
+                ) {
+                    data.freshnessStatus = 'needs_review';
+                }
                 return data;
             },
 
@@ -588,65 +588,109 @@ export const Products: CollectionConfig = {
 
                 return data
             },
-        ],
 
-        // ============================================
-        // AFTER CHANGE: AUTO VERSION SNAPSHOT (Litigation Defense)
-        // Legal Framework Section 14.3: Create immutable report history
-        // ============================================
-        afterChange: [
-            async ({ doc, previousDoc, req, operation }) => {
-                // Create version snapshot when product is published or updated while published
-                const isPublished = doc.status === 'published'
-                const justPublished = isPublished && previousDoc?.status !== 'published'
-                const updatedWhilePublished = isPublished && previousDoc?.status === 'published'
-
-                if (justPublished || updatedWhilePublished) {
-                    // Build snapshot of key fields
-                    const snapshot = {
-                        name: doc.name,
-                        brand: doc.brand,
-                        verdict: doc.verdict,
-                        summary: doc.summary,
-                        sampleId: doc.sampleId,
-                        testDate: doc.testDate,
-                        category: doc.category,
-                        badges: doc.badges,
+            // ============================================
+            // HOOK 10.5: EVIDENCE HASHES (Chain of Custody)
+            // Copy the SHA-256 of the attached COA and chain-of-custody
+            // documents from their media uploads. Never taken from the client.
+            // ============================================
+            async ({ data, req, originalDoc }) => {
+                if (!data) return data
+
+                const previous = originalDoc?.evidenceLocker || {}
+                const locker = { ...previous, ...data.evidenceLocker }
+                const mediaId = (value: unknown) => (typeof value === 'object' && value ? (value as { id: number }).id : value)
+
+                const hashOf = async (field: 'labReportOriginal' | 'labChainOfCustody', hashField: 'labReportHash' | 'labChainOfCustodyHash') => {
+                    if (!locker[field]) return null
+                    if (mediaId(locker[field]) === mediaId(previous[field]) && previous[hashField]) {
+                        return previous[hashField] as string
                     }
+                    try {
+                        return await resolveMediaHash(req.payload, locker[field])
+                    } catch (error) {
+                        console.error(`[Evidence Hash] Could not hash ${field} for product ${originalDoc?.id ?? '(new)'}:`, error)
+                        return null
+                    }
+                }
 
-                    // Calculate next version number
-                    const existingVersions = (doc as { reportVersions?: unknown[] }).reportVersions || []
-                    const nextVersion = existingVersions.length + 1
+                data.evidenceLocker = {
+                    ...data.evidenceLocker,
+                    labReportHash: await hashOf('labReportOriginal', 'labReportHash'),
+                    labChainOfCustodyHash: await hashOf('labChainOfCustody', 'labChainOfCustodyHash'),
+                }
+                return data
+            },
 
-                    // Add new version (don't block on this)
-                    setTimeout(async () => {
-                        try {
-                            await req.payload.update({
-                                collection: 'products',
-                                id: doc.id,
-                                data: {
-                                    reportVersions: [
-                                        ...existingVersions,
-                                        {
-                                            versionNumber: nextVersion,
-                                            publishedAt: new Date().toISOString(),
-                                            snapshot,
-                                            changeReason: justPublished ? 'Initial publication' : 'Content update',
-                                        },
-                                    ],
-                                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                                } as any,
-                            })
-                            console.log(`[Version Snapshot] Created v${nextVersion} for product ${doc.id}`)
-                        } catch (error) {
-                            console.error('[Version Snapshot] Failed:', error)
-                        }
-                    }, 200)
+            // ============================================
+            // HOOK 11: REPORT VERSION SNAPSHOT (Litigation Defense)
+            // Legal Framework Section 14.3: Create immutable report history
+            // Appends a version whenever a published product with lab data
+            // changes what readers see or the evidence behind it. Runs last so
+            // rule verdicts are final, and writes in the same save (no
+            // follow-up update to recurse on). Each version is sealed into
+            // a hash chain (see utilities/evidence-chain.ts).
+            // ============================================
+            async ({ data, req, originalDoc }) => {
+                // History is append-only: never accept edits to past versions
+                const existingVersions = ((originalDoc?.reportVersions || []) as SealedReportVersion[])
+                data.reportVersions = existingVersions
+
+                const product = { ...originalDoc, ...data }
+                if (product.status !== 'published' || !hasLabData(product)) {
+                    return data
                 }
 
-                return doc
+                const snapshot = buildReportSnapshot(product)
+                const latest = findVersion(existingVersions)
+                const disputeReason = req.context?.reportDispute as
+                    | { referenceNumber: string; description?: string | null }
+                    | undefined
+
+                const evidence = {
+                    labReportHash: data.evidenceLocker?.labReportHash || null,
+                    chainOfCustodyHash: data.evidenceLocker?.labChainOfCustodyHash || null,
+                }
+
+                if (latest && snapshotsEqual(latest.snapshot, snapshot) && !evidenceChanged(latest, evidence)) {
+                    // Dispute resolved after the corrected report went out: credit the latest version
+                    if (disputeReason && !latest.disputeReference) {
+                        data.reportVersions = existingVersions.map(v =>
+                            v === latest
+                                ? { ...v, disputeReference: disputeReason.referenceNumber, changeReason: formatDisputeReason(disputeReason) }
+                                : v
+                        )
+                    }
+                    return data
+                }
+
+                const defaultReason = !latest
+                    ? 'Initial publication'
+                    : snapshotsEqual(latest.snapshot, snapshot) ? 'Lab evidence updated' : 'Content update'
+                const changeReason = disputeReason
+                    ? formatDisputeReason(disputeReason)
+                    : (req.context?.reportChangeReason as string | undefined) || defaultReason
+
+                const versionNumber = (latest?.versionNumber || 0) + 1
+                data.reportVersions = [
+                    ...existingVersions,
+                    sealVersion({
+                        versionNumber,
+                        publishedAt: new Date().toISOString(),
+                        snapshot,
+                        changes: latest ? diffSnapshots(latest.snapshot, snapshot) : [],
+                        changeReason,
+                        disputeReference: disputeReason?.referenceNumber,
+                        ...evidence,
+                    }, latest),
+                ]
+                console.log(`[Version Snapshot] Created v${versionNumber} for product ${originalDoc?.id ?? '(new)'}`)
+
+                return data
             },
+        ],
 
+        afterChange: [
             // ============================================
             // HOOK: AUTO BACKGROUND REMOVAL ON PUBLISH
             // ============================================
@@ -926,8 +970,9 @@ export const Products: CollectionConfig = {
             createAuditDeleteHook('products'),
         ],
 
-        // TEMPORARILY DISABLED - afterRead hook causing API timeouts
-        // afterRead: [],
+        // Liability Shield for REST / GraphQL reads. Cheap: returns early for
+        // Local API reads and non-flagged products, one unlock lookup per request.
+        afterRead: [shieldProductAfterRead],
     },
     fields: [
         // === MAIN INFO ===
@@ -1091,6 +1136,9 @@ export const Products: CollectionConfig = {
         {
             name: 'autoVerdict',
             type: 'select',
+            access: {
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
+            },
             options: [
                 { label: '✅ RECOMMEND', value: 'recommend' },
                 { label: '⚠️ CAUTION', value: 'caution' },
@@ -1140,16 +1188,54 @@ export const Products: CollectionConfig = {
         },
         {
             name: 'ruleApplied',
-            type: 'text',
+            type: 'textarea',
             label: 'VerdictRule Applied',
+            access: {
+                read: shieldedFieldAccess, // Matched clauses name ingredients and levels
+            },
             admin: {
                 readOnly: true,
-                description: 'Name of VerdictRule(s) that set the verdict',
+                description: 'VerdictRule(s) that set the verdict, with the condition clauses that matched',
                 condition: (data) => !!data?.ruleApplied,
             },
         },
 
-        // NOTE: INGREDIENTS fields REMOVED - Liability Shield
+        // === INGREDIENTS ===
+        {
+            name: 'ingredientsRaw',
+            type: 'textarea',
+            label: 'Ingredients (Raw Text)',
+            access: {
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
+            },
+            admin: {
+                description: 'Ingredient panel as printed on the label. Parsed and linked to the Ingredients registry on save.',
+            },
+        },
+        {
+            name: 'ingredientsList',
+            type: 'relationship',
+            relationTo: 'ingredients',
+            hasMany: true,
+            access: {
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
+            },
+            admin: {
+                description: 'Registry ingredients linked from the raw text (used by VerdictRules and risk prediction)',
+            },
+        },
+        {
+            name: 'unmatchedIngredients',
+            type: 'json',
+            access: {
+                read: shieldedFieldAccess,
+            },
+            admin: {
+                readOnly: true,
+                description: 'Label names with no registry match. Add them as ingredients or synonyms.',
+                condition: (data) => Array.isArray(data?.unmatchedIngredients) && data.unmatchedIngredients.length > 0,
+            },
+        },
 
 
         // === SOURCE TRACKING ===
@@ -1421,6 +1507,7 @@ export const Products: CollectionConfig = {
                             name: 'labReportHash',
                             type: 'text',
                             label: 'Lab Report Hash (SHA-256)',
+                            index: true,
                             admin: {
                                 readOnly: true,
                                 description: 'Auto-generated hash of the COA file to prove immutability.',
@@ -1435,6 +1522,16 @@ export const Products: CollectionConfig = {
                                 description: 'Signed document tracking sample from logistics to lab technician.',
                             },
                         },
+                        {
+                            name: 'labChainOfCustodyHash',
+                            type: 'text',
+                            label: 'Chain of Custody Hash (SHA-256)',
+                            index: true,
+                            admin: {
+                                readOnly: true,
+                                description: 'Auto-generated hash of the chain of custody document.',
+                            },
+                        },
                     ],
                 },
                 // === ENHANCED CHAIN OF CUSTODY (Litigation Defense) ===
@@ -1750,6 +1847,9 @@ export const Products: CollectionConfig = {
             name: 'reportVersions',
             type: 'array',
             label: 'Report Version History',
+            access: {
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
+            },
             admin: {
                 readOnly: true,
                 description: 'Immutable history of published report versions for litigation defense',
@@ -1782,6 +1882,58 @@ export const Products: CollectionConfig = {
                         description: 'Why this version was created (e.g., "Manufacturer dispute", "New test data")',
                     },
                 },
+                {
+                    name: 'changes',
+                    type: 'json',
+                    label: 'Changes From Previous Version',
+                    admin: {
+                        description: 'Field-level diff against the previous version',
+                    },
+                },
+                {
+                    name: 'disputeReference',
+                    type: 'text',
+                    label: 'Dispute Reference',
+                    admin: {
+                        description: 'Manufacturer dispute that led to this version (e.g., DIS-2026-ABC123)',
+                    },
+                },
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'labReportHash',
+                            type: 'text',
+                            label: 'Lab Report Hash',
+                            admin: {
+                                description: 'SHA-256 of the COA this version was published with',
+                            },
+                        },
+                        {
+                            name: 'chainOfCustodyHash',
+                            type: 'text',
+                            label: 'Chain of Custody Hash',
+                        },
+                    ],
+                },
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'previousHash',
+                            type: 'text',
+                            label: 'Previous Version Hash',
+                        },
+                        {
+                            name: 'hash',
+                            type: 'text',
+                            label: 'Version Hash',
+                            admin: {
+                                description: 'Seals this version and links it to the previous one',
+                            },
+                        },
+                    ],
+                },
             ],
         },
 
@@ -1811,6 +1963,24 @@ export const Products: CollectionConfig = {
                 description: 'Auto-calculated from last tested date',
             },
         },
+        {
+            name: 'retestRequestedAt',
+            type: 'date',
+            admin: {
+                position: 'sidebar',
+                readOnly: true,
+                description: 'Set when a hazardous reformulation is detected. Keeps freshness at Needs Review until a newer test date.',
+            },
+        },
+        {
+            name: 'retestReason',
+            type: 'text',
+            admin: {
+                position: 'sidebar',
+                readOnly: true,
+                condition: (data) => !!data?.retestRequestedAt,
+            },
+        },
 
         // === STATUS & WORKFLOW ===
         {
@@ -1902,6 +2072,9 @@ export const Products: CollectionConfig = {
             name: 'summary',
             type: 'textarea',
             label: 'Product Summary',
+            access: {
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
+            },
             admin: {
                 description: 'Brief overview for cards and previews',
             },
@@ -1911,7 +2084,7 @@ export const Products: CollectionConfig = {
             type: 'richText',
             label: 'Full Review',
             access: {
-                read: verdictBasedFieldAccess, // Hidden for FLAGGED products to non-premium users
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
             },
         },
 
@@ -1921,6 +2094,9 @@ export const Products: CollectionConfig = {
             name: 'purchaseLinks',
             type: 'array',
             label: '🛒 Where to Buy',
+            access: {
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
+            },
             fields: [
                 {
                     type: 'row',
@@ -1975,7 +2151,7 @@ export const Products: CollectionConfig = {
             type: 'group',
             label: 'Testing Information',
             access: {
-                read: verdictBasedFieldAccess, // Hidden for FLAGGED products to non-premium users
+                read: shieldedFieldAccess, // Hidden for FLAGGED products to non-premium users
             },
             fields: [
                 {
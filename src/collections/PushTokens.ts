@@ -141,6 +141,13 @@ export const PushTokens: CollectionConfig = {
         description: 'Last time the user opened the app (for win-back targeting)',
       },
     },
+    {
+      name: 'timezone',
+      type: 'text',
+      admin: {
+        description: 'IANA timezone reported by the device (e.g. "America/Chicago"); used for local-time campaigns and quiet hours',
+      },
+    },
     {
       name: 'lastWinbackNotification',
       type: 'date',
@@ -0,0 +1,227 @@
+import type { CollectionConfig } from 'payload'
+import { isAdmin, isEditorOrAdmin } from '../access/roleAccess'
+import { applyConfirmedRecall } from '../utilities/recall-matching'
+
+/**
+ * Recall Matches Collection
+ *
+ * Review queue for the recall watchdog. Each entry pairs one FDA / CPSC
+ * recall with a catalog product it probably covers, with the identifiers
+ * extracted from the recall and a confidence score (utilities/recall-matching).
+ * Nothing touches the product until a reviewer sets the status to
+ * "confirmed", which appends the recall to the brand's history, flags the
+ * product for retest and alerts users who saved it.
+ */
+export const RecallMatches: CollectionConfig = {
+    slug: 'recall-matches',
+    access: {
+        read: isEditorOrAdmin,
+        create: isEditorOrAdmin,
+        update: isEditorOrAdmin,
+        delete: isAdmin,
+    },
+    admin: {
+        useAsTitle: 'recallNumber',
+        defaultColumns: ['recallNumber', 'product', 'confidence', 'status', 'recallingFirm', 'createdAt'],
+        group: 'Research',
+        description: 'Recalls matched to catalog products, awaiting review',
+    },
+    indexes: [{ fields: ['recallNumber', 'product'], unique: true }],
+    hooks: {
+        beforeChange: [
+            // ============================================
+            // APPLY CONFIRMED MATCH
+            // Brand history, product flag and saver alerts when status moves to "confirmed"
+            // ============================================
+            async ({ data, originalDoc, operation, req }) => {
+                if (!data) return data
+
+                const wasConfirmed = originalDoc?.status === 'confirmed'
+                if (wasConfirmed && data.status && data.status !== 'confirmed') {
+                    throw new Error('Confirmed recall matches cannot be reopened')
+                }
+                if (data.status !== 'confirmed' || wasConfirmed) return data
+                if (operation === 'create') {
+                    throw new Error('Recall matches must be reviewed before they are confirmed')
+                }
+
+                const alerts = await applyConfirmedRecall(req.payload, { ...originalDoc, ...data }, req)
+
+                data.alertsSent = alerts
+                data.reviewedBy = req.user?.id
+                data.reviewedAt = new Date().toISOString()
+                console.log(`[RecallMatches] Confirmed ${data.recallNumber ?? originalDoc?.recallNumber} for product ${data.product ?? originalDoc?.product}`)
+
+                return data
+            },
+        ],
+    },
+    fields: [
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'product',
+                    type: 'relationship',
+                    relationTo: 'products',
+                    required: true,
+                    index: true,
+                },
+                {
+                    name: 'brand',
+                    type: 'relationship',
+                    relationTo: 'brands',
+                    admin: {
+                        description: 'Brand whose recall history is updated on confirmation',
+                    },
+                },
+            ],
+        },
+        {
+            type: 'row',
+            fields: [
+                {
+                    name: 'status',
+                    type: 'select',
+                    required: true,
+                    defaultValue: 'pending_review',
+                    index: true,
+                    options: [
+                        { label: 'Pending Review', value: 'pending_review' },
+                        { label: 'Confirmed', value: 'confirmed' },
+                        { label: 'Rejected', value: 'rejected' },
+                    ],
+                    admin: {
+                        description: 'Set to Confirmed to flag the product and alert users who saved it',
+                    },
+                },
+                {
+                    name: 'confidence',
+                    type: 'number',
+                    min: 0,
+                    max: 1,
+                    admin: {
+                        readOnly: true,
+                        step: 0.01,
+                    },
+                },
+            ],
+        },
+        {
+            name: 'signals',
+            type: 'select',
+            hasMany: true,
+            options: [
+                { label: 'UPC', value: 'upc' },
+                { label: 'Lot Number', value: 'lot' },
+                { label: 'Date Range', value: 'date_range' },
+                { label: 'Brand', value: 'brand' },
+                { label: 'Product Name', value: 'product_name' },
+            ],
+            admin: {
+                readOnly: true,
+                description: 'What matched between the recall and the product',
+            },
+        },
+
+        // === RECALL ===
+        {
+            type: 'collapsible',
+            label: 'Recall',
+            fields: [
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'recallNumber',
+                            type: 'text',
+                            required: true,
+                            index: true,
+                        },
+                        {
+                            name: 'recallSource',
+                            type: 'select',
+                            required: true,
+                            options: [
+                                { label: 'FDA Food', value: 'fda_food' },
+                                { label: 'FDA Drug', value: 'fda_drug' },
+                                { label: 'CPSC', value: 'cpsc' },
+                            ],
+                        },
+                        {
+                            name: 'classification',
+                            type: 'text',
+                        },
+                        {
+                            name: 'recallDate',
+                            type: 'date',
+                        },
+                    ],
+                },
+                {
+                    name: 'recallingFirm',
+                    type: 'text',
+                },
+                {
+                    name: 'reason',
+                    type: 'textarea',
+                },
+                {
+                    name: 'productDescription',
+                    type: 'textarea',
+                },
+                {
+                    name: 'codeInfo',
+                    type: 'textarea',
+                    admin: {
+                        description: 'Lot, UPC and date codes listed in the recall',
+                    },
+                },
+                {
+                    name: 'recallUrl',
+                    type: 'text',
+                },
+                {
+                    name: 'extracted',
+                    type: 'json',
+                    admin: {
+                        readOnly: true,
+                        description: 'UPCs, lot numbers and date ranges extracted from the recall',
+                    },
+                },
+            ],
+        },
+
+        // === REVIEW ===
+        {
+            name: 'reviewNotes',
+            type: 'textarea',
+        },
+        {
+            name: 'alertsSent',
+            type: 'json',
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+                description: 'Push notifications and emails sent on confirmation',
+            },
+        },
+        {
+            name: 'reviewedBy',
+            type: 'relationship',
+            relationTo: 'users',
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+            },
+        },
+        {
+            name: 'reviewedAt',
+            type: 'date',
+            admin: {
+                readOnly: true,
+                position: 'sidebar',
+            },
+        },
+    ],
+}
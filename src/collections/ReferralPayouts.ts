@@ -6,7 +6,15 @@
  * 
  * Commission: $25/year per active referred subscriber
  * Minimum payout: $25 (1 active referral)
- * Payment methods: PayPal, Venmo, or subscription credit
+ * Payment methods: PayPal, Venmo, Stripe Connect, ACH, or subscription credit
+ *
+ * Pending PayPal / Venmo, Stripe and ACH payouts are paid in payout runs
+ * (utilities/payout-runs), which export the provider payment file and
+ * reconcile its results back into status, transactionId and ytdTotal.
+ *
+ * Commission on a referral held for fraud review gets its own "held" payout,
+ * which moves to "pending" or "cancelled" when the referral is approved or
+ * denied (utilities/referral-fraud).
  */
 
 import type { CollectionConfig } from 'payload'
@@ -86,6 +94,7 @@ export const ReferralPayouts: CollectionConfig = {
             defaultValue: 'pending',
             options: [
                 { label: 'Pending', value: 'pending' },        // Awaiting processing
+                { label: 'Held', value: 'held' },              // Awaiting fraud review
                 { label: 'Processing', value: 'processing' }, // Being processed
                 { label: 'Paid', value: 'paid' },              // Successfully paid
                 { label: 'Failed', value: 'failed' },         // Payment failed
@@ -93,6 +102,16 @@ export const ReferralPayouts: CollectionConfig = {
             ],
             index: true,
         },
+        {
+            name: 'heldReferral',
+            type: 'relationship',
+            relationTo: 'referrals',
+            index: true,
+            admin: {
+                condition: (data) => data?.status === 'held' || Boolean(data?.heldReferral),
+                description: 'Referral whose fraud review this payout is waiting on',
+            },
+        },
 
         // Payment Method
         {
@@ -102,6 +121,8 @@ export const ReferralPayouts: CollectionConfig = {
             options: [
                 { label: 'PayPal', value: 'paypal' },
                 { label: 'Venmo', value: 'venmo' },
+                { label: 'Stripe Connect', value: 'stripe' },
+                { label: 'Bank Transfer (ACH)', value: 'ach' },
                 { label: 'Subscription Credit', value: 'credit' },
                 { label: 'Check', value: 'check' },
             ],
@@ -110,7 +131,18 @@ export const ReferralPayouts: CollectionConfig = {
             name: 'paymentDetails',
             type: 'text',
             admin: {
-                description: 'PayPal email, Venmo handle, or other payment details',
+                description: 'PayPal email, Venmo handle, Stripe account id (acct_...), ACH account reference, or other payment details',
+            },
+        },
+        {
+            name: 'payoutRun',
+            type: 'relationship',
+            relationTo: 'payout-runs',
+            index: true,
+            admin: {
+                readOnly: true,
+                condition: (data) => Boolean(data?.payoutRun),
+                description: 'Payout run this payout was batched into',
             },
         },
 
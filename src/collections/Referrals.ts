@@ -8,10 +8,14 @@
  * for each referred subscriber who remains active.
  *
  * Security: Prevents self-referral, duplicate referrals, and rate limits creation.
+ * Each referral also carries a fraud score (utilities/referral-fraud); high-risk
+ * referrals are held for review and their commission waits in a "held" payout
+ * until a reviewer approves or denies them.
  */
 
 import type { CollectionConfig } from 'payload'
 import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
+import { applyReferralFraudReview, clientIpOf } from '../utilities/referral-fraud'
 
 // Anti-fraud: Maximum referrals that can be created in a short time window
 const MAX_REFERRALS_PER_HOUR = 10
@@ -109,8 +113,34 @@ export const Referrals: CollectionConfig = {
                 // Normalize referral code to uppercase
                 data.referralCode = data.referralCode.toUpperCase()
 
+                // Attribution IP for fraud scoring (endpoints pass it explicitly)
+                data.attributionIp = data.attributionIp || clientIpOf(req.headers)
+
                 return data
             },
+            // ============================================
+            // FRAUD REVIEW
+            // Releases or cancels held payouts when a reviewer approves / denies
+            // ============================================
+            async ({ data, originalDoc, operation, req }) => {
+                if (operation !== 'update' || !data?.fraud) return data
+
+                const previous = originalDoc?.fraud?.reviewStatus
+                const decision = data.fraud.reviewStatus
+                if (!decision || decision === previous) return data
+                if (previous === 'denied') {
+                    throw new Error('Denied referrals cannot be reopened')
+                }
+                if (decision !== 'approved' && decision !== 'denied') return data
+
+                const changes = await applyReferralFraudReview(req, { ...originalDoc, ...data }, decision)
+
+                data.fraud.reviewedBy = req.user?.id
+                data.fraud.reviewedAt = new Date().toISOString()
+                console.log(`[Referral] Fraud review ${decision} for referral ${originalDoc?.id}`)
+
+                return { ...data, ...changes }
+            },
         ],
         afterChange: [createAuditLogHook('referrals')],
         afterDelete: [createAuditDeleteHook('referrals')],
@@ -207,6 +237,26 @@ export const Referrals: CollectionConfig = {
                 },
             },
         },
+        {
+            name: 'cancelledAt',
+            type: 'date',
+            admin: {
+                description: 'When the referred subscriber cancelled (from RevenueCat)',
+                date: {
+                    pickerAppearance: 'dayAndTime',
+                },
+            },
+        },
+        {
+            name: 'refundedAt',
+            type: 'date',
+            admin: {
+                description: 'When the referred subscriber was refunded (from RevenueCat)',
+                date: {
+                    pickerAppearance: 'dayAndTime',
+                },
+            },
+        },
         {
             name: 'nextCommissionDate',
             type: 'date',
@@ -244,6 +294,101 @@ export const Referrals: CollectionConfig = {
             index: true,
         },
 
+        // Fraud Review
+        {
+            name: 'fraud',
+            type: 'group',
+            admin: {
+                description: 'Fraud score from linked fingerprints, IPs, emails and refund timing',
+            },
+            fields: [
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'score',
+                            type: 'number',
+                            min: 0,
+                            max: 100,
+                            admin: {
+                                readOnly: true,
+                                description: 'Fraud likelihood (0-100)',
+                            },
+                        },
+                        {
+                            name: 'riskLevel',
+                            type: 'select',
+                            options: [
+                                { label: 'Low', value: 'low' },
+                                { label: 'Medium', value: 'medium' },
+                                { label: 'High', value: 'high' },
+                            ],
+                            admin: {
+                                readOnly: true,
+                            },
+                        },
+                        {
+                            name: 'reviewStatus',
+                            type: 'select',
+                            defaultValue: 'none',
+                            options: [
+                                { label: 'Not Held', value: 'none' },
+                                { label: 'Held for Review', value: 'held' },  // Commission held in a "held" payout
+                                { label: 'Approved', value: 'approved' },     // Held payouts released
+                                { label: 'Denied', value: 'denied' },         // Held payouts cancelled, referral marked fraud
+                            ],
+                            index: true,
+                        },
+                    ],
+                },
+                {
+                    name: 'signals',
+                    type: 'json',
+                    admin: {
+                        readOnly: true,
+                        description: 'Signals behind the score, with their weights',
+                    },
+                },
+                {
+                    name: 'checkedAt',
+                    type: 'date',
+                    admin: {
+                        readOnly: true,
+                        date: {
+                            pickerAppearance: 'dayAndTime',
+                        },
+                    },
+                },
+                {
+                    name: 'reviewNotes',
+                    type: 'textarea',
+                },
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'reviewedBy',
+                            type: 'relationship',
+                            relationTo: 'users',
+                            admin: {
+                                readOnly: true,
+                            },
+                        },
+                        {
+                            name: 'reviewedAt',
+                            type: 'date',
+                            admin: {
+                                readOnly: true,
+                                date: {
+                                    pickerAppearance: 'dayAndTime',
+                                },
+                            },
+                        },
+                    ],
+                },
+            ],
+        },
+
         // Metadata
         {
             name: 'source',
@@ -255,6 +400,13 @@ export const Referrals: CollectionConfig = {
                 { label: 'Direct Link', value: 'link' },
             ],
         },
+        {
+            name: 'attributionIp',
+            type: 'text',
+            admin: {
+                description: 'IP address the referral was attributed from',
+            },
+        },
         {
             name: 'notes',
             type: 'textarea',
@@ -5,7 +5,9 @@ import { createAuditLog } from './AuditLog'
  * RegulatoryChanges Collection
  *
  * Tracks regulatory updates from FDA, EU EFSA, California Prop 65, etc.
- * Automatically links changes to affected ingredients and products.
+ * The regulatory monitor (utilities/regulatory-feeds) resolves each
+ * substance to the ingredient registry and links the published products
+ * containing it, plus their categories.
  *
  * Sources monitored:
  * - FDA Federal Register
@@ -72,6 +74,7 @@ export const RegulatoryChanges: CollectionConfig = {
             name: 'referenceId',
             type: 'text',
             label: 'Reference ID',
+            index: true,
             admin: {
                 description: 'Official reference number (e.g., FDA-2024-N-1234)',
             },
@@ -168,7 +171,6 @@ export const RegulatoryChanges: CollectionConfig = {
         },
 
         // === AFFECTED ITEMS ===
-        // NOTE: affectedIngredients field removed - Ingredients collection archived
         {
             name: 'affectedCategories',
             type: 'relationship',
@@ -182,9 +184,9 @@ export const RegulatoryChanges: CollectionConfig = {
         {
             name: 'affectedSubstances',
             type: 'array',
-            label: 'Substances (Not Yet in DB)',
+            label: 'Affected Substances',
             admin: {
-                description: 'Substances mentioned that may not be in our ingredient database yet',
+                description: 'Substances named in the document, linked to the ingredient registry when they resolve',
             },
             fields: [
                 {
@@ -197,8 +199,27 @@ export const RegulatoryChanges: CollectionConfig = {
                     type: 'text',
                     label: 'CAS Number',
                 },
+                {
+                    name: 'ingredient',
+                    type: 'relationship',
+                    relationTo: 'ingredients',
+                    admin: {
+                        description: 'Leave empty when the substance is not in our ingredient database yet',
+                    },
+                },
             ],
         },
+        {
+            name: 'affectedProducts',
+            type: 'relationship',
+            relationTo: 'products',
+            hasMany: true,
+            label: 'Affected Products',
+            admin: {
+                readOnly: true,
+                description: 'Published products containing an affected substance when the change was recorded',
+            },
+        },
 
         // === DETAILS ===
         {
@@ -0,0 +1,129 @@
+import type { CollectionConfig } from 'payload'
+import { isAdmin } from '../access/roleAccess'
+
+/**
+ * RevenueCat Events Collection
+ *
+ * Ledger of every RevenueCat webhook event, keyed by the RevenueCat event id.
+ * Both webhook routes record the event here before processing it
+ * (utilities/revenuecat-events), so a redelivered event is acknowledged
+ * without being applied twice. Unmatched and failed events can be re-run
+ * from POST /api/revenuecat-ledger/replay once the cause is fixed.
+ */
+export const RevenueCatEvents: CollectionConfig = {
+    slug: 'revenuecat-events',
+    labels: {
+        singular: 'RevenueCat Event',
+        plural: 'RevenueCat Events',
+    },
+    admin: {
+        useAsTitle: 'eventId',
+        defaultColumns: ['eventId', 'type', 'appUserId', 'status', 'attempts', 'eventAt'],
+        group: 'Users',
+        description: 'RevenueCat webhook events and how they were applied (maintained automatically)',
+    },
+    access: {
+        read: isAdmin,
+        create: () => false,
+        update: () => false,
+        delete: isAdmin,
+    },
+    fields: [
+        {
+            name: 'eventId',
+            type: 'text',
+            required: true,
+            unique: true,
+            index: true,
+            admin: {
+                description: 'RevenueCat event id',
+            },
+        },
+        {
+            name: 'type',
+            type: 'text',
+            required: true,
+            index: true,
+        },
+        {
+            name: 'appUserId',
+            type: 'text',
+            index: true,
+        },
+        {
+            name: 'environment',
+            type: 'text',
+        },
+        {
+            name: 'eventAt',
+            type: 'date',
+            index: true,
+            admin: {
+                description: 'event_timestamp_ms',
+                date: {
+                    pickerAppearance: 'dayAndTime',
+                },
+            },
+        },
+        {
+            name: 'status',
+            type: 'select',
+            required: true,
+            defaultValue: 'received',
+            options: [
+                { label: 'Received', value: 'received' },   // Recorded, not yet applied
+                { label: 'Processed', value: 'processed' }, // Applied to a user and / or referral
+                { label: 'Unmatched', value: 'unmatched' }, // No user or referral found - replay once linked
+                { label: 'Skipped', value: 'skipped' },     // Nothing to apply (test, sandbox, informational)
+                { label: 'Failed', value: 'failed' },       // Processing threw - replay after fixing
+            ],
+            index: true,
+        },
+        {
+            name: 'attempts',
+            type: 'number',
+            defaultValue: 0,
+        },
+        {
+            name: 'processedAt',
+            type: 'date',
+            admin: {
+                date: {
+                    pickerAppearance: 'dayAndTime',
+                },
+            },
+        },
+        {
+            name: 'error',
+            type: 'textarea',
+        },
+        {
+            name: 'user',
+            type: 'relationship',
+            relationTo: 'users',
+        },
+        {
+            name: 'referral',
+            type: 'relationship',
+            relationTo: 'referrals',
+        },
+        {
+            name: 'outcome',
+            type: 'json',
+            admin: {
+                description: 'What the last run changed: subscription status, member state, referral actions',
+            },
+        },
+        {
+            name: 'event',
+            type: 'json',
+            required: true,
+            admin: {
+                description: 'Raw RevenueCat event, re-run on replay',
+            },
+        },
+    ],
+    timestamps: true,
+}
+
+export default RevenueCatEvents
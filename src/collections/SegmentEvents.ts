@@ -0,0 +1,73 @@
+import type { CollectionConfig } from 'payload'
+import { isAdmin } from '../access/roleAccess'
+
+/**
+ * Segment Events Collection
+ *
+ * Every entry into and exit from a segment, written by the segment engine.
+ * Drives the RevenueCat attribute sync (syncedAt is set once pushed) and
+ * GET /api/segments/events for other consumers.
+ */
+export const SegmentEvents: CollectionConfig = {
+    slug: 'segment-events',
+    labels: {
+        singular: 'Segment Event',
+        plural: 'Segment Events',
+    },
+    admin: {
+        useAsTitle: 'fingerprintHash',
+        defaultColumns: ['segment', 'change', 'fingerprintHash', 'user', 'syncedAt', 'createdAt'],
+        group: 'Users',
+        description: 'Segment entries and exits (maintained automatically)',
+    },
+    access: {
+        read: isAdmin,
+        create: () => false,
+        update: () => false,
+        delete: isAdmin,
+    },
+    fields: [
+        {
+            name: 'segment',
+            type: 'relationship',
+            relationTo: 'user-segments',
+            required: true,
+            index: true,
+        },
+        {
+            name: 'change',
+            type: 'select',
+            required: true,
+            options: [
+                { label: 'Entered', value: 'entered' },
+                { label: 'Exited', value: 'exited' },
+            ],
+        },
+        {
+            name: 'fingerprint',
+            type: 'relationship',
+            relationTo: 'device-fingerprints',
+        },
+        {
+            name: 'fingerprintHash',
+            type: 'text',
+            index: true,
+        },
+        {
+            name: 'user',
+            type: 'relationship',
+            relationTo: 'users',
+        },
+        {
+            name: 'syncedAt',
+            type: 'date',
+            index: true,
+            admin: {
+                description: 'When the change was pushed to RevenueCat (or found to have nothing to push)',
+            },
+        },
+    ],
+    timestamps: true,
+}
+
+export default SegmentEvents
@@ -0,0 +1,75 @@
+import type { CollectionConfig } from 'payload'
+import { isAdmin } from '../access/roleAccess'
+
+/**
+ * Segment Memberships Collection
+ *
+ * Materialized segment membership: one row per device currently matching a
+ * user segment's rules. Written only by the segment engine
+ * (utilities/segment-engine); campaigns and emails target segments through
+ * this table. Read-only in the admin.
+ */
+export const SegmentMemberships: CollectionConfig = {
+    slug: 'segment-memberships',
+    labels: {
+        singular: 'Segment Membership',
+        plural: 'Segment Memberships',
+    },
+    admin: {
+        useAsTitle: 'fingerprintHash',
+        defaultColumns: ['segment', 'fingerprintHash', 'user', 'enteredAt'],
+        group: 'Users',
+        description: 'Devices currently in each segment (maintained automatically)',
+    },
+    access: {
+        read: isAdmin,
+        create: () => false,
+        update: () => false,
+        delete: () => false,
+    },
+    fields: [
+        {
+            name: 'segment',
+            type: 'relationship',
+            relationTo: 'user-segments',
+            required: true,
+            index: true,
+        },
+        {
+            name: 'fingerprint',
+            type: 'relationship',
+            relationTo: 'device-fingerprints',
+            required: true,
+            index: true,
+        },
+        {
+            name: 'fingerprintHash',
+            type: 'text',
+            required: true,
+            index: true,
+        },
+        {
+            name: 'user',
+            type: 'relationship',
+            relationTo: 'users',
+            index: true,
+            admin: {
+                description: 'Account linked to the device when it entered',
+            },
+        },
+        {
+            name: 'enteredAt',
+            type: 'date',
+            required: true,
+        },
+    ],
+    timestamps: true,
+    indexes: [
+        {
+            fields: ['segment', 'fingerprint'],
+            unique: true,
+        },
+    ],
+}
+
+export default SegmentMemberships
@@ -1,5 +1,6 @@
 import type { CollectionConfig } from 'payload'
 import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
+import { queueSegmentRefresh } from '../hooks/segmentMembership'
 
 /**
  * User Segments Collection
@@ -7,6 +8,9 @@ import { createAuditLogHook, createAuditDeleteHook } from '../hooks/auditLog'
  * Defines user segments based on behavioral rules.
  * Used for targeting notifications, experiments, and analytics.
  * Supports integration with Statsig gates and RevenueCat attributes.
+ *
+ * Membership is computed server-side and kept in segment-memberships
+ * (see utilities/segment-engine); saving a segment queues a refresh.
  */
 export const UserSegments: CollectionConfig = {
     slug: 'user-segments',
@@ -15,7 +19,7 @@ export const UserSegments: CollectionConfig = {
         plural: 'User Segments',
     },
     hooks: {
-        afterChange: [createAuditLogHook('user-segments')],
+        afterChange: [createAuditLogHook('user-segments'), queueSegmentRefresh],
         afterDelete: [createAuditDeleteHook('user-segments')],
     },
     admin: {
@@ -65,7 +69,7 @@ export const UserSegments: CollectionConfig = {
             required: true,
             minRows: 1,
             admin: {
-                description: 'Rules that define segment membership. All rules must match (AND logic).',
+                description: 'Rules that define segment membership. Streak Days, Badge Count and App Version are only reported by the app, so server-side membership never matches them.',
             },
             fields: [
                 {
@@ -200,7 +204,7 @@ export const UserSegments: CollectionConfig = {
             name: 'estimatedSize',
             type: 'number',
             admin: {
-                description: 'Estimated number of users in this segment (auto-updated)',
+                description: 'Devices currently in this segment (auto-updated)',
                 readOnly: true,
                 position: 'sidebar',
             },
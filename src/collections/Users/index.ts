@@ -4,6 +4,7 @@ import { authenticated } from '../../access/authenticated'
 import { isSelfOrAdmin } from '../../access/isSelfOrAdmin'
 import { createAuditLog } from '../AuditLog'
 import { createAuditLogHook, createAuditDeleteHook } from '../../hooks/auditLog'
+import { refreshSegmentsOnUserChange } from '../../hooks/segmentMembership'
 import { sendWelcomeEmail, syncToResendAudience } from './hooks'
 
 /**
@@ -168,7 +169,7 @@ export const Users: CollectionConfig = {
   hooks: {
     beforeDelete: [beforeDeleteUser],
     afterDelete: [afterDeleteUser, createAuditDeleteHook('users')],
-    afterChange: [sendWelcomeEmail, syncToResendAudience, createAuditLogHook('users')],
+    afterChange: [sendWelcomeEmail, syncToResendAudience, refreshSegmentsOnUserChange, createAuditLogHook('users')],
   },
   auth: {
     forgotPassword: {
@@ -1,10 +1,13 @@
 import type { CollectionConfig } from 'payload'
 import { isAdmin } from '../access/roleAccess'
+import { validateConditionTree } from '../utilities/verdict-conditions'
 
 /**
  * Verdict Rules Collection
  *
  * Defines automated rules for product verdicts based on ingredients.
+ * Rules either use a single condition type or a composable AND/OR/NOT
+ * condition tree (see utilities/verdict-conditions.ts).
  * When a rule matches, it can:
  * - Set autoVerdict on a product
  * - Flag products for review
@@ -52,12 +55,23 @@ export const VerdictRules: CollectionConfig = {
                 { label: 'Missing Ingredient', value: 'missing_ingredient' },
                 { label: 'Ingredient Verdict', value: 'ingredient_verdict' },
                 { label: 'Category Match', value: 'category_match' },
+                { label: 'Condition Tree (AND / OR / NOT)', value: 'condition_tree' },
             ],
             admin: {
                 description: 'What triggers this rule',
             },
         },
-        // NOTE: ingredientCondition field removed - Ingredients collection archived
+        {
+            name: 'ingredientCondition',
+            type: 'relationship',
+            relationTo: 'ingredients',
+            hasMany: true,
+            admin: {
+                description: 'Registry ingredients to look for (any match triggers the rule)',
+                condition: (data) =>
+                    data?.conditionType === 'contains_ingredient' || data?.conditionType === 'missing_ingredient',
+            },
+        },
         {
             name: 'ingredientVerdictCondition',
             type: 'select',
@@ -81,6 +95,21 @@ export const VerdictRules: CollectionConfig = {
                 condition: (data) => data?.conditionType === 'category_match',
             },
         },
+        {
+            name: 'conditionTree',
+            type: 'json',
+            validate: (value: unknown, { siblingData }: { siblingData: { conditionType?: string } }) => {
+                if (siblingData?.conditionType !== 'condition_tree') return true
+                if (!value) return 'A condition tree is required for this condition type'
+                return validateConditionTree(value)
+            },
+            admin: {
+                description: 'Nested { "op": "and" | "or", "children": [...] }, { "op": "not", "child": {...} } or predicates: ' +
+                    'contains_ingredient, missing_ingredient, ingredient_verdict, category, detection, ' +
+                    'price_range, brand_trust_score, brand_recall, freshness',
+                condition: (data) => data?.conditionType === 'condition_tree',
+            },
+        },
 
         // === ACTION ===
         {
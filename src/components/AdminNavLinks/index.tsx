@@ -54,6 +54,22 @@ const AdminNavLinks: React.FC = () => {
                     >
                         Content Queue
                     </Link>
+                    <Link
+                        href="/admin/verdict-simulator"
+                        style={{
+                            display: 'flex',
+                            alignItems: 'center',
+                            gap: '8px',
+                            padding: '8px 12px',
+                            borderRadius: '6px',
+                            textDecoration: 'none',
+                            color: '#d4d4d8',
+                            fontSize: '14px',
+                            marginBottom: '4px',
+                        }}
+                    >
+                        Verdict Rule Simulator
+                    </Link>
                     <Link
                         href="/admin/system-health"
                         style={{
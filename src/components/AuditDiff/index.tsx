@@ -0,0 +1,222 @@
+'use client'
+
+import React, { useCallback, useEffect, useState } from 'react'
+import { useDocumentInfo } from '@payloadcms/ui'
+
+interface FieldChange {
+    field: string
+    before: unknown
+    after: unknown
+    kind: 'added' | 'removed' | 'changed'
+}
+
+interface AuditEntry {
+    id: number
+    action: string
+    target: { type: string; collection?: string | null; id?: number | null; name?: string | null }
+    changes: FieldChange[]
+    revertible: boolean
+    revertOf: number | null
+    revertedBy: number | null
+}
+
+const KIND_COLORS: Record<FieldChange['kind'], string> = {
+    added: '#047857',
+    removed: '#dc2626',
+    changed: '#b45309',
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '—'
+    if (typeof value === 'string') return value
+    return JSON.stringify(value, null, 2)
+}
+
+/**
+ * Audit Diff
+ *
+ * Field-level before / after of an audit-log entry, with a one-click revert
+ * (POST /api/audit-trail/:id/revert). Offers a forced revert when fields
+ * were changed again since.
+ */
+const AuditDiff: React.FC = () => {
+    const { id } = useDocumentInfo()
+    const [entry, setEntry] = useState<AuditEntry | null>(null)
+    const [blocker, setBlocker] = useState<string | null>(null)
+    const [loading, setLoading] = useState(false)
+    const [result, setResult] = useState<{
+        success: boolean
+        message: string
+        canForce?: boolean
+    } | null>(null)
+
+    const load = useCallback(async () => {
+        if (!id) return
+        const res = await fetch(`/api/audit-trail/${id}`)
+        if (!res.ok) return
+        const data = await res.json()
+        setEntry(data.entry)
+        setBlocker(data.revertBlocker)
+    }, [id])
+
+    useEffect(() => {
+        load().catch(() => undefined)
+    }, [load])
+
+    const handleRevert = async (force: boolean) => {
+        if (!id) return
+        const confirmed = window.confirm(force
+            ? 'Overwrite the later changes to these fields and revert?'
+            : 'Revert this change? The prior values will be restored.')
+        if (!confirmed) return
+
+        setLoading(true)
+        setResult(null)
+
+        try {
+            const res = await fetch(`/api/audit-trail/${id}/revert`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ force }),
+            })
+            const data = await res.json()
+
+            if (!res.ok) {
+                setResult({
+                    success: false,
+                    message: data.error || 'Revert failed',
+                    canForce: data.code === 'CONFLICT',
+                })
+                return
+            }
+
+            setResult({
+                success: true,
+                message: `Reverted - recorded as audit entry #${data.revertEntryId}`,
+            })
+            await load()
+        } catch (error) {
+            setResult({
+                success: false,
+                message: error instanceof Error ? error.message : 'Revert failed',
+            })
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    if (!entry) return null
+
+    const cellStyle: React.CSSProperties = {
+        padding: '6px 8px',
+        borderBottom: '1px solid #e5e7eb',
+        verticalAlign: 'top',
+        fontSize: '12px',
+    }
+    const valueStyle: React.CSSProperties = {
+        ...cellStyle,
+        fontFamily: 'monospace',
+        whiteSpace: 'pre-wrap',
+        wordBreak: 'break-word',
+        maxWidth: '360px',
+    }
+
+    return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginBottom: '24px' }}>
+            <h4 style={{ margin: 0 }}>Changes</h4>
+
+            {entry.revertOf && (
+                <p style={{ fontSize: '12px', margin: 0 }}>
+                    Reverts <a href={`/admin/collections/audit-log/${entry.revertOf}`}>audit entry #{entry.revertOf}</a>
+                </p>
+            )}
+
+            {entry.changes.length === 0 ? (
+                <p style={{ fontSize: '12px', color: '#6b7280', margin: 0 }}>No field changes recorded.</p>
+            ) : (
+                <table style={{ borderCollapse: 'collapse', width: '100%' }}>
+                    <thead>
+                        <tr>
+                            <th style={{ ...cellStyle, textAlign: 'left' }}>Field</th>
+                            <th style={{ ...cellStyle, textAlign: 'left' }}>Before</th>
+                            <th style={{ ...cellStyle, textAlign: 'left' }}>After</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {entry.changes.map(change => (
+                            <tr key={change.field}>
+                                <td style={{ ...cellStyle, fontWeight: 600, color: KIND_COLORS[change.kind] }}>
+                                    {change.field}
+                                </td>
+                                <td style={{ ...valueStyle, background: '#fef2f2' }}>{formatValue(change.before)}</td>
+                                <td style={{ ...valueStyle, background: '#f0fdf4' }}>{formatValue(change.after)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            {entry.revertedBy ? (
+                <p style={{ fontSize: '12px', margin: 0 }}>
+                    ↩ Reverted by <a href={`/admin/collections/audit-log/${entry.revertedBy}`}>audit entry #{entry.revertedBy}</a>
+                </p>
+            ) : entry.revertible ? (
+                <div style={{ display: 'flex', gap: '8px' }}>
+                    <button
+                        type="button"
+                        onClick={() => handleRevert(false)}
+                        disabled={loading}
+                        style={{
+                            padding: '8px 16px',
+                            background: loading ? '#9ca3af' : '#dc2626',
+                            color: 'white',
+                            border: 'none',
+                            borderRadius: '6px',
+                            fontSize: '13px',
+                            fontWeight: 500,
+                            cursor: loading ? 'not-allowed' : 'pointer',
+                        }}
+                    >
+                        {loading ? 'Reverting...' : '↩ Revert this change'}
+                    </button>
+                    {result?.canForce && (
+                        <button
+                            type="button"
+                            onClick={() => handleRevert(true)}
+                            disabled={loading}
+                            style={{
+                                padding: '8px 16px',
+                                background: 'white',
+                                color: '#dc2626',
+                                border: '1px solid #dc2626',
+                                borderRadius: '6px',
+                                fontSize: '13px',
+                                cursor: loading ? 'not-allowed' : 'pointer',
+                            }}
+                        >
+                            Revert anyway
+                        </button>
+                    )}
+                </div>
+            ) : blocker ? (
+                <p style={{ fontSize: '11px', color: '#6b7280', margin: 0 }}>Not revertible: {blocker}</p>
+            ) : null}
+
+            {result && (
+                <div
+                    style={{
+                        padding: '8px 12px',
+                        background: result.success ? '#d1fae5' : '#fee2e2',
+                        color: result.success ? '#047857' : '#dc2626',
+                        borderRadius: '6px',
+                        fontSize: '13px',
+                    }}
+                >
+                    {result.success ? '✓' : '✗'} {result.message}
+                </div>
+            )}
+        </div>
+    )
+}
+
+export default AuditDiff
@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState, useEffect, useCallback } from 'react'
+import { waitForJob } from '@/utilities/wait-for-job'
 
 interface ProductWithImage {
     id: number
@@ -156,10 +157,32 @@ const BatchBackgroundRemoval: React.FC = () => {
                 body: JSON.stringify({ productIds, force: forceReprocess }),
             })
 
-            const data = await res.json()
+            const queued = await res.json()
 
             if (!res.ok) {
-                throw new Error(data.error || 'Batch processing failed')
+                throw new Error(queued.error || 'Batch processing failed')
+            }
+
+            // The batch runs as a background job; poll it for progress
+            const job = await waitForJob(queued.jobId, (update) => {
+                setProgress((prev) => ({
+                    ...prev,
+                    current: update.progress.completed,
+                    total: update.progress.total || prev.total,
+                }))
+                if (update.progress.message) setMessage(update.progress.message)
+            })
+
+            if (job.status !== 'succeeded') {
+                throw new Error(job.error || `Batch job ${job.status.replace('_', ' ')}`)
+            }
+
+            const data = job.result as {
+                processed: number
+                successCount: number
+                failureCount: number
+                estimatedCost: string
+                results: ProcessingResult[]
             }
 
             setProgress({
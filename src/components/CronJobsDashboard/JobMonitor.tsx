@@ -0,0 +1,223 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import type { JobStatus, JobSummary } from '@/utilities/job-queue'
+
+const STATUS_COLORS: Record<JobStatus, { bg: string; text: string; label: string }> = {
+  queued: { bg: '#f3f4f6', text: '#374151', label: 'Queued' },
+  scheduled: { bg: '#f3f4f6', text: '#374151', label: 'Scheduled' },
+  running: { bg: '#dbeafe', text: '#1e40af', label: 'Running' },
+  succeeded: { bg: '#dcfce7', text: '#166534', label: 'Succeeded' },
+  failed: { bg: '#fee2e2', text: '#991b1b', label: 'Failed' },
+  dead_letter: { bg: '#fee2e2', text: '#991b1b', label: 'Dead letter' },
+  cancelled: { bg: '#fef3c7', text: '#92400e', label: 'Cancelled' },
+}
+
+// Poll quickly while something is in flight, slowly otherwise
+const ACTIVE_POLL_MS = 3000
+const IDLE_POLL_MS = 15000
+
+interface JobMonitorProps {
+  /** Bumped by the parent after it queues a job so the list refreshes at once */
+  refreshKey?: number
+}
+
+/**
+ * Job Monitor
+ *
+ * Live view of the durable job queue (payload-jobs): progress of running
+ * batch jobs, cancel for queued/running jobs and re-queue for dead letters.
+ */
+const JobMonitor: React.FC<JobMonitorProps> = ({ refreshKey = 0 }) => {
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const [counts, setCounts] = useState<Record<string, number>>({})
+  const [error, setError] = useState<string | null>(null)
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set())
+  const [runningQueue, setRunningQueue] = useState(false)
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await fetch('/api/jobs?limit=15', { credentials: 'include' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load jobs')
+      setJobs(data.jobs || [])
+      setCounts(data.counts || {})
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs')
+    }
+  }, [])
+
+  const hasActiveJobs = (counts.running || 0) + (counts.queued || 0) > 0
+
+  useEffect(() => {
+    fetchJobs()
+    const interval = setInterval(fetchJobs, hasActiveJobs ? ACTIVE_POLL_MS : IDLE_POLL_MS)
+    return () => clearInterval(interval)
+  }, [fetchJobs, hasActiveJobs, refreshKey])
+
+  const jobAction = async (job: JobSummary, action: 'cancel' | 'retry') => {
+    const key = `${job.id}`
+    setBusyIds((prev) => new Set(prev).add(key))
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/${action}`, { method: 'POST', credentials: 'include' })
+      const data = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(data.error || `Failed to ${action} job`)
+      await fetchJobs()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} job`)
+    } finally {
+      setBusyIds((prev) => {
+        const next = new Set(prev)
+        next.delete(key)
+        return next
+      })
+    }
+  }
+
+  // Work the queue now instead of waiting for the per-minute cron
+  const runQueue = async () => {
+    setRunningQueue(true)
+    try {
+      await fetch('/api/payload-jobs/run?limit=1', { credentials: 'include' })
+    } finally {
+      setRunningQueue(false)
+      fetchJobs()
+    }
+  }
+
+  const buttonStyle = (color: string, disabled: boolean): React.CSSProperties => ({
+    background: disabled ? '#9ca3af' : color,
+    color: '#fff',
+    border: 'none',
+    padding: '4px 10px',
+    borderRadius: '4px',
+    cursor: disabled ? 'not-allowed' : 'pointer',
+    fontSize: '11px',
+    fontWeight: 500,
+  })
+
+  return (
+    <div style={{ marginBottom: '24px' }}>
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '12px',
+        }}
+      >
+        <div>
+          <h3 style={{ margin: 0, fontSize: '14px', fontWeight: 600, color: '#1f2937' }}>Job Queue</h3>
+          <p style={{ margin: '2px 0 0', fontSize: '12px', color: '#6b7280' }}>
+            {counts.running || 0} running · {counts.queued || 0} queued · {counts.dead_letter || 0} dead letters
+          </p>
+        </div>
+        <button
+          onClick={runQueue}
+          disabled={runningQueue || !counts.queued}
+          style={buttonStyle('#1e40af', runningQueue || !counts.queued)}
+        >
+          {runningQueue ? 'Processing...' : 'Process Next Job'}
+        </button>
+      </div>
+
+      {error && (
+        <div style={{ padding: '8px 12px', background: '#fee2e2', color: '#991b1b', borderRadius: '6px', fontSize: '12px', marginBottom: '8px' }}>
+          {error}
+        </div>
+      )}
+
+      {jobs.length === 0 ? (
+        <div style={{ padding: '12px 16px', background: '#f9fafb', borderRadius: '6px', fontSize: '12px', color: '#6b7280' }}>
+          No jobs yet. Batch tools and cron runs appear here once queued.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {jobs.map((job) => {
+            const colors = STATUS_COLORS[job.status]
+            const busy = busyIds.has(`${job.id}`)
+            const canCancel = job.status === 'queued' || job.status === 'scheduled' || job.status === 'running'
+            const canRetry = job.status === 'dead_letter' || job.status === 'failed' || job.status === 'cancelled'
+
+            return (
+              <div
+                key={job.id}
+                style={{
+                  padding: '10px 14px',
+                  background: '#fff',
+                  borderRadius: '6px',
+                  border: '1px solid #e5e7eb',
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '8px' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '8px', minWidth: 0 }}>
+                    <span
+                      style={{
+                        background: colors.bg,
+                        color: colors.text,
+                        padding: '2px 6px',
+                        borderRadius: '4px',
+                        fontSize: '10px',
+                        fontWeight: 600,
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {colors.label}
+                    </span>
+                    <span style={{ fontWeight: 500, fontSize: '13px', color: '#1f2937' }}>{job.label}</span>
+                    <span style={{ fontSize: '11px', color: '#9ca3af' }}>
+                      #{job.id}
+                      {job.retryOf ? ` (retry of #${job.retryOf})` : ''}
+                      {job.createdAt ? ` · ${new Date(job.createdAt).toLocaleString()}` : ''}
+                    </span>
+                  </div>
+                  <div style={{ display: 'flex', gap: '6px' }}>
+                    {canCancel && (
+                      <button onClick={() => jobAction(job, 'cancel')} disabled={busy} style={buttonStyle('#92400e', busy)}>
+                        Cancel
+                      </button>
+                    )}
+                    {canRetry && (
+                      <button onClick={() => jobAction(job, 'retry')} disabled={busy} style={buttonStyle('#166534', busy)}>
+                        Re-queue
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {(job.status === 'running' || job.progress.total > 0) && (
+                  <div style={{ marginTop: '8px' }}>
+                    <div style={{ height: '6px', background: '#e5e7eb', borderRadius: '3px', overflow: 'hidden' }}>
+                      <div
+                        style={{
+                          width: `${job.progress.percent}%`,
+                          height: '100%',
+                          background: colors.text,
+                          transition: 'width 0.3s',
+                        }}
+                      />
+                    </div>
+                    <div style={{ fontSize: '11px', color: '#6b7280', marginTop: '4px' }}>
+                      {job.progress.completed}/{job.progress.total}
+                      {job.progress.message ? ` · ${job.progress.message}` : ''}
+                    </div>
+                  </div>
+                )}
+
+                {job.error && job.status !== 'cancelled' && (
+                  <div style={{ fontSize: '11px', color: '#991b1b', marginTop: '6px' }}>
+                    {job.attempts > 0 ? `After ${job.attempts} attempts: ` : ''}
+                    {job.error}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default JobMonitor
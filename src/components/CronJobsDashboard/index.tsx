@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState, useCallback } from 'react'
+import JobMonitor from './JobMonitor'
 
 interface CronJob {
   name: string
@@ -185,6 +186,7 @@ const FREQUENCY_COLORS: Record<string, { bg: string; text: string }> = {
 const CronJobsDashboard: React.FC = () => {
   const [runningJobs, setRunningJobs] = useState<Set<string>>(new Set())
   const [jobResults, setJobResults] = useState<Record<string, { status: 'success' | 'error'; message: string; timestamp: string }>>({})
+  const [monitorRefresh, setMonitorRefresh] = useState(0)
 
   const handleRunJob = useCallback(async (job: CronJob) => {
     setRunningJobs((prev) => new Set(prev).add(job.path))
@@ -200,11 +202,18 @@ const CronJobsDashboard: React.FC = () => {
 
       const data = await response.json().catch(() => ({}))
 
+      // Heavy jobs are queued rather than run in the request; follow them in the monitor
+      if (data.jobId) {
+        setMonitorRefresh((n) => n + 1)
+      }
+
       setJobResults((prev) => ({
         ...prev,
         [job.path]: {
           status: response.ok ? 'success' : 'error',
-          message: data.message || data.error || (response.ok ? 'Completed' : 'Failed'),
+          message: data.jobId
+            ? `Queued as job #${data.jobId}`
+            : data.message || data.error || (response.ok ? 'Completed' : 'Failed'),
           timestamp: new Date().toISOString(),
         },
       }))
@@ -298,6 +307,8 @@ const CronJobsDashboard: React.FC = () => {
         </div>
       </div>
 
+      <JobMonitor refreshKey={monitorRefresh} />
+
       {frequencyOrder.map((frequency) => {
         const jobs = groupedJobs[frequency]
         if (!jobs || jobs.length === 0) return null
@@ -343,6 +354,7 @@ const CronJobsDashboard: React.FC = () => {
                         </span>
                         {result && (
                           <span
+                            title={result.message}
                             style={{
                               background: result.status === 'success' ? '#dcfce7' : '#fee2e2',
                               color: result.status === 'success' ? '#166534' : '#991b1b',
@@ -403,6 +415,8 @@ const CronJobsDashboard: React.FC = () => {
         <ul style={{ margin: 0, paddingLeft: '20px', fontSize: '12px', color: '#6b7280' }}>
           <li>Jobs are scheduled in Vercel Cron (UTC timezone)</li>
           <li>Manual runs bypass rate limiting but use the same endpoints</li>
+          <li>Heavy jobs (embeddings, recall check, batch tools) run on the job queue, worked every minute via /api/payload-jobs/run</li>
+          <li>Failed queue jobs retry automatically, then land in dead letters for re-queueing</li>
           <li>Check Vercel logs for detailed execution history</li>
           <li>All jobs require CRON_SECRET or API key authentication</li>
         </ul>
@@ -1,36 +1,32 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
+import type { ArmResult, ExperimentAnalysis } from '@/utilities/email-experiments'
 
 /**
  * Email A/B Test Results Dashboard
- * 
- * View performance of A/B tested email subject lines.
+ *
+ * Running and recently concluded email experiments: per-variant rates
+ * with confidence intervals, the difference to control and its p-value.
  */
 
-interface ABTestResult {
-    templateId: string
-    templateName: string
-    variantA: {
-        subject: string
-        sent: number
-        opened: number
-        clicked: number
-        openRate: string
-    }
-    variantB: {
-        subject: string
-        sent: number
-        opened: number
-        clicked: number
-        openRate: string
-    }
-    winner: 'A' | 'B' | 'tie' | 'insufficient_data'
-    confidence: string
+interface ExperimentResult {
+    templateId: number
+    name: string
+    status: string
+    startedAt: string | null
+    concludedAt: string | null
+    recordedWinner: string | null
+    variants: Array<{ key: string; weight: number; subject: string }>
+    analysis: ExperimentAnalysis | null
 }
 
+const formatPercent = (value: number, digits = 1) => `${(value * 100).toFixed(digits)}%`
+
+const formatPoints = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)} pts`
+
 export default function EmailABDashboard() {
-    const [results, setResults] = useState<ABTestResult[]>([])
+    const [results, setResults] = useState<ExperimentResult[]>([])
     const [loading, setLoading] = useState(true)
 
     useEffect(() => {
@@ -39,40 +35,10 @@ export default function EmailABDashboard() {
 
     const fetchABResults = async () => {
         try {
-            // Fetch templates with A/B testing enabled
-            const response = await fetch('/api/email-templates?where[subjectVariantB][exists]=true')
+            const response = await fetch('/api/email-ab-results')
             const data = await response.json()
-
-            if (data.docs) {
-                const resultsWithStats = await Promise.all(
-                    data.docs.map(async (template: any) => {
-                        // Fetch send stats for this template
-                        const statsResponse = await fetch(`/api/email-ab-results?templateId=${template.id}`)
-                        const stats = await statsResponse.json()
-
-                        return {
-                            templateId: template.id,
-                            templateName: template.subject,
-                            variantA: {
-                                subject: template.subject,
-                                sent: stats.variantA?.sent || 0,
-                                opened: stats.variantA?.opened || 0,
-                                clicked: stats.variantA?.clicked || 0,
-                                openRate: stats.variantA?.openRate || '0%',
-                            },
-                            variantB: {
-                                subject: template.subjectVariantB || '',
-                                sent: stats.variantB?.sent || 0,
-                                opened: stats.variantB?.opened || 0,
-                                clicked: stats.variantB?.clicked || 0,
-                                openRate: stats.variantB?.openRate || '0%',
-                            },
-                            winner: stats.winner || 'insufficient_data',
-                            confidence: stats.confidence || 'N/A',
-                        }
-                    })
-                )
-                setResults(resultsWithStats)
+            if (data.experiments) {
+                setResults(data.experiments)
             }
         } catch (error) {
             console.error('Failed to fetch A/B results:', error)
@@ -81,19 +47,51 @@ export default function EmailABDashboard() {
         }
     }
 
-    const getWinnerBadge = (winner: string) => {
-        switch (winner) {
-            case 'A':
-                return { bg: '#DCFCE7', text: '#16A34A', label: 'A Wins' }
-            case 'B':
-                return { bg: '#DBEAFE', text: '#2563EB', label: 'B Wins' }
-            case 'tie':
-                return { bg: '#FEF3C7', text: '#D97706', label: 'Tie' }
-            default:
-                return { bg: '#F3F4F6', text: '#6B7280', label: 'Collecting Data' }
+    const getWinnerBadge = (result: ExperimentResult) => {
+        const winner = result.concludedAt ? result.recordedWinner : result.analysis?.winner
+        if (winner === 'tie') {
+            return { bg: '#FEF3C7', text: '#D97706', label: 'No Significant Difference' }
+        }
+        if (winner && winner !== 'pending') {
+            return { bg: '#DCFCE7', text: '#16A34A', label: `${winner} Wins` }
         }
+        if (result.analysis?.pending === 'holdout' && result.analysis.evaluateAfter) {
+            return {
+                bg: '#F3F4F6',
+                text: '#6B7280',
+                label: `Holdout until ${new Date(result.analysis.evaluateAfter).toLocaleString()}`,
+            }
+        }
+        if (result.analysis?.pending === 'sample') {
+            return { bg: '#DBEAFE', text: '#2563EB', label: 'Needs More Sends' }
+        }
+        return { bg: '#F3F4F6', text: '#6B7280', label: 'Collecting Data' }
     }
 
+    /** Interval bar on a shared 0..scale axis with the point estimate marked */
+    const renderInterval = (arm: ArmResult, scale: number, color: string) => (
+        <div style={{ position: 'relative', height: '10px', backgroundColor: '#F3F4F6', borderRadius: '5px', minWidth: '120px' }}>
+            <div style={{
+                position: 'absolute',
+                left: `${(arm.interval.low / scale) * 100}%`,
+                width: `${Math.max(1, ((arm.interval.high - arm.interval.low) / scale) * 100)}%`,
+                top: 0,
+                bottom: 0,
+                backgroundColor: color,
+                opacity: 0.35,
+                borderRadius: '5px',
+            }} />
+            <div style={{
+                position: 'absolute',
+                left: `calc(${(arm.rate / scale) * 100}% - 1px)`,
+                width: '2px',
+                top: '-2px',
+                bottom: '-2px',
+                backgroundColor: color,
+            }} />
+        </div>
+    )
+
     if (loading) {
         return (
             <div style={{ padding: '40px', textAlign: 'center' }}>
@@ -102,13 +100,16 @@ export default function EmailABDashboard() {
         )
     }
 
+    const cellStyle: React.CSSProperties = { padding: '8px', fontSize: '13px', borderBottom: '1px solid #F3F4F6', textAlign: 'left' }
+    const headStyle: React.CSSProperties = { ...cellStyle, fontSize: '11px', color: '#6B7280', fontWeight: 600, textTransform: 'uppercase' }
+
     return (
         <div style={{ padding: '20px', maxWidth: '1200px' }}>
             <h1 style={{ fontSize: '24px', fontWeight: 'bold', marginBottom: '8px' }}>
                 📊 Email A/B Test Results
             </h1>
             <p style={{ color: '#666', marginBottom: '24px' }}>
-                Compare subject line performance across email variants
+                Compare variant performance with confidence intervals
             </p>
 
             {results.length === 0 ? (
@@ -119,14 +120,18 @@ export default function EmailABDashboard() {
                     borderRadius: '12px',
                 }}>
                     <p style={{ color: '#6B7280', fontSize: '16px' }}>
-                        No A/B tests running yet. Add a Subject Variant B to any email template to start testing.
+                        No A/B tests running yet. Add variants on a template&apos;s Experiment tab and set its status to A/B Testing.
                     </p>
                 </div>
             ) : (
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
                     {results.map((result) => {
-                        const badge = getWinnerBadge(result.winner)
-                        const totalSent = result.variantA.sent + result.variantB.sent
+                        const badge = getWinnerBadge(result)
+                        const arms = result.analysis?.arms || []
+                        const totalSent = arms.reduce((sum, arm) => sum + arm.sent, 0)
+                        const scale = Math.min(1, Math.max(0.05, ...arms.map(arm => arm.interval.high)) * 1.1)
+                        const winner = result.concludedAt ? result.recordedWinner : result.analysis?.winner
+                        const subjectOf = (key: string) => result.variants.find(variant => variant.key === key)?.subject
 
                         return (
                             <div
@@ -147,10 +152,12 @@ export default function EmailABDashboard() {
                                 }}>
                                     <div>
                                         <h3 style={{ fontSize: '16px', fontWeight: '600', margin: 0 }}>
-                                            {result.templateName}
+                                            {result.name}
                                         </h3>
                                         <p style={{ fontSize: '12px', color: '#6B7280', margin: '4px 0 0' }}>
                                             {totalSent} emails sent
+                                            {result.analysis && ` · ${result.analysis.metric === 'click' ? 'Click' : 'Open'} rate`}
+                                            {result.startedAt && ` · started ${new Date(result.startedAt).toLocaleDateString()}`}
                                         </p>
                                     </div>
                                     <span style={{
@@ -166,122 +173,78 @@ export default function EmailABDashboard() {
                                 </div>
 
                                 {/* Variants comparison */}
-                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px' }}>
-                                    {/* Variant A */}
-                                    <div style={{
-                                        backgroundColor: result.winner === 'A' ? '#F0FDF4' : '#F9FAFB',
-                                        padding: '16px',
-                                        borderRadius: '8px',
-                                        border: result.winner === 'A' ? '2px solid #16A34A' : '1px solid #E5E7EB',
-                                    }}>
-                                        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
-                                            <span style={{
-                                                backgroundColor: '#E5E7EB',
-                                                color: '#374151',
-                                                padding: '2px 8px',
-                                                borderRadius: '4px',
-                                                fontSize: '12px',
-                                                fontWeight: '600',
-                                                marginRight: '8px',
-                                            }}>
-                                                A
-                                            </span>
-                                            <span style={{ fontSize: '12px', color: '#6B7280' }}>Control</span>
-                                        </div>
-                                        <p style={{
-                                            fontSize: '14px',
-                                            fontWeight: '500',
-                                            color: '#1F2937',
-                                            marginBottom: '12px',
-                                            fontStyle: 'italic',
-                                        }}>
-                                            "{result.variantA.subject}"
-                                        </p>
-                                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
-                                            <div>
-                                                <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#1F2937', margin: 0 }}>
-                                                    {result.variantA.openRate}
-                                                </p>
-                                                <p style={{ fontSize: '11px', color: '#6B7280', margin: '2px 0 0' }}>Open Rate</p>
-                                            </div>
-                                            <div>
-                                                <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#1F2937', margin: 0 }}>
-                                                    {result.variantA.opened}
-                                                </p>
-                                                <p style={{ fontSize: '11px', color: '#6B7280', margin: '2px 0 0' }}>Opened</p>
-                                            </div>
-                                            <div>
-                                                <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#1F2937', margin: 0 }}>
-                                                    {result.variantA.clicked}
-                                                </p>
-                                                <p style={{ fontSize: '11px', color: '#6B7280', margin: '2px 0 0' }}>Clicked</p>
-                                            </div>
-                                        </div>
-                                    </div>
-
-                                    {/* Variant B */}
-                                    <div style={{
-                                        backgroundColor: result.winner === 'B' ? '#EFF6FF' : '#F9FAFB',
-                                        padding: '16px',
-                                        borderRadius: '8px',
-                                        border: result.winner === 'B' ? '2px solid #2563EB' : '1px solid #E5E7EB',
-                                    }}>
-                                        <div style={{ display: 'flex', alignItems: 'center', marginBottom: '8px' }}>
-                                            <span style={{
-                                                backgroundColor: '#DBEAFE',
-                                                color: '#2563EB',
-                                                padding: '2px 8px',
-                                                borderRadius: '4px',
-                                                fontSize: '12px',
-                                                fontWeight: '600',
-                                                marginRight: '8px',
-                                            }}>
-                                                B
-                                            </span>
-                                            <span style={{ fontSize: '12px', color: '#6B7280' }}>Variant</span>
-                                        </div>
-                                        <p style={{
-                                            fontSize: '14px',
-                                            fontWeight: '500',
-                                            color: '#1F2937',
-                                            marginBottom: '12px',
-                                            fontStyle: 'italic',
-                                        }}>
-                                            "{result.variantB.subject}"
-                                        </p>
-                                        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '8px' }}>
-                                            <div>
-                                                <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#1F2937', margin: 0 }}>
-                                                    {result.variantB.openRate}
-                                                </p>
-                                                <p style={{ fontSize: '11px', color: '#6B7280', margin: '2px 0 0' }}>Open Rate</p>
-                                            </div>
-                                            <div>
-                                                <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#1F2937', margin: 0 }}>
-                                                    {result.variantB.opened}
-                                                </p>
-                                                <p style={{ fontSize: '11px', color: '#6B7280', margin: '2px 0 0' }}>Opened</p>
-                                            </div>
-                                            <div>
-                                                <p style={{ fontSize: '20px', fontWeight: 'bold', color: '#1F2937', margin: 0 }}>
-                                                    {result.variantB.clicked}
-                                                </p>
-                                                <p style={{ fontSize: '11px', color: '#6B7280', margin: '2px 0 0' }}>Clicked</p>
-                                            </div>
-                                        </div>
-                                    </div>
-                                </div>
-
-                                {/* Statistical confidence */}
-                                {result.winner !== 'insufficient_data' && (
-                                    <p style={{
-                                        marginTop: '12px',
-                                        fontSize: '12px',
-                                        color: '#6B7280',
-                                        textAlign: 'center',
-                                    }}>
-                                        Statistical confidence: {result.confidence}
-                                    </p>
+                                {arms.length > 0 && (
+                                    <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                                        <thead>
+                                            <tr>
+                                                <th style={headStyle}>Variant</th>
+                                                <th style={headStyle}>Subject</th>
+                                                <th style={headStyle}>Sent</th>
+                                                <th style={headStyle}>Rate</th>
+                                                <th style={headStyle}>{result.analysis?.confidenceLevel}% CI</th>
+                                                <th style={headStyle}>vs. A ({result.analysis?.adjustedConfidenceLevel}% CI)</th>
+                                                <th style={headStyle}>p-value</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {arms.map((arm) => {
+                                                const isWinner = winner === arm.key
+                                                const color = isWinner ? '#16A34A' : arm.key === 'A' ? '#6B7280' : '#2563EB'
+                                                return (
+                                                    <tr key={arm.key} style={{ backgroundColor: isWinner ? '#F0FDF4' : undefined }}>
+                                                        <td style={cellStyle}>
+                                                            <span style={{
+                                                                backgroundColor: arm.key === 'A' ? '#E5E7EB' : '#DBEAFE',
+                                                                color: arm.key === 'A' ? '#374151' : '#2563EB',
+                                                                padding: '2px 8px',
+                                                                borderRadius: '4px',
+                                                                fontSize: '12px',
+                                                                fontWeight: '600',
+                                                            }}>
+                                                                {arm.key}
+                                                            </span>
+                                                            {arm.key === 'A' && (
+                                                                <span style={{ fontSize: '12px', color: '#6B7280', marginLeft: '8px' }}>Control</span>
+                                                            )}
+                                                        </td>
+                                                        <td style={{ ...cellStyle, fontStyle: 'italic', color: '#1F2937' }}>
+                                                            {subjectOf(arm.key) ? `"${subjectOf(arm.key)}"` : '—'}
+                                                        </td>
+                                                        <td style={cellStyle}>{arm.sent}</td>
+                                                        <td style={{ ...cellStyle, fontWeight: 'bold' }}>
+                                                            {formatPercent(arm.rate)}
+                                                            <div style={{ fontSize: '11px', color: '#6B7280', fontWeight: 'normal' }}>
+                                                                {formatPercent(arm.interval.low)} – {formatPercent(arm.interval.high)}
+                                                            </div>
+                                                        </td>
+                                                        <td style={cellStyle}>{renderInterval(arm, scale, color)}</td>
+                                                        <td style={cellStyle}>
+                                                            {arm.vsControl ? (
+                                                                <>
+                                                                    <span style={{
+                                                                        fontWeight: 600,
+                                                                        color: arm.vsControl.significant
+                                                                            ? (arm.vsControl.difference > 0 ? '#16A34A' : '#DC2626')
+                                                                            : '#1F2937',
+                                                                    }}>
+                                                                        {formatPoints(arm.vsControl.difference)}
+                                                                    </span>
+                                                                    <div style={{ fontSize: '11px', color: '#6B7280' }}>
+                                                                        {formatPoints(arm.vsControl.interval.low)} to {formatPoints(arm.vsControl.interval.high)}
+                                                                    </div>
+                                                                </>
+                                                            ) : '—'}
+                                                        </td>
+                                                        <td style={cellStyle}>
+                                                            {arm.vsControl
+                                                                ? arm.vsControl.pValue < 0.001 ? '< 0.001' : arm.vsControl.pValue.toFixed(3)
+                                                                : '—'}
+                                                        </td>
+                                                    </tr>
+                                                )
+                                            })}
+                                        </tbody>
+                                    </table>
                                 )}
                             </div>
                         )
@@ -299,8 +262,8 @@ export default function EmailABDashboard() {
             }}>
                 <strong>💡 Tips for A/B Testing:</strong>
                 <ul style={{ margin: '8px 0 0', paddingLeft: '20px', fontSize: '14px' }}>
-                    <li>Wait for at least 100 sends per variant before declaring a winner</li>
-                    <li>Test one variable at a time (subject only, not body)</li>
+                    <li>Results are evaluated once, after the holdout period — don&apos;t stop a test early because one variant looks ahead</li>
+                    <li>A variant only wins when its interval vs. A excludes zero; more variants need more sends per variant</li>
                     <li>Look at click rate, not just open rate</li>
                 </ul>
             </div>
@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState, useEffect, useCallback } from 'react'
+import { waitForJob } from '@/utilities/wait-for-job'
 
 interface InternalizeStatus {
     externalUrls: number
@@ -134,12 +135,50 @@ const ImageInternalizer: React.FC = () => {
         setProducts(prev => prev.filter(p => p.id !== productId))
     }
 
-    // Internalize all pending products
+    // Internalize all pending products as one background job
     const internalizeAll = async () => {
-        const pending = products.filter(p => p.status === 'pending')
-        for (const product of pending) {
-            await internalizeProduct(product.id)
-            await new Promise(r => setTimeout(r, 300)) // Small delay between requests
+        const pendingIds = products.filter(p => p.status === 'pending').map(p => p.id)
+        if (pendingIds.length === 0) return
+
+        setProducts(prev => prev.map(p =>
+            pendingIds.includes(p.id) ? { ...p, status: 'processing' as const } : p
+        ))
+
+        try {
+            const res = await fetch('/api/images/internalize', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ productIds: pendingIds }),
+            })
+            const queued = await res.json()
+            if (!res.ok) {
+                throw new Error(queued.error || 'Internalization failed')
+            }
+
+            const job = await waitForJob(queued.jobId, (update) => {
+                setMessage(`⏳ ${update.progress.completed}/${update.progress.total || pendingIds.length} - ${update.progress.message || update.status}`)
+            })
+            if (job.status !== 'succeeded') {
+                throw new Error(job.error || `Job ${job.status.replace('_', ' ')}`)
+            }
+
+            const results = ((job.result as { results?: ProcessingResult[] })?.results || [])
+            const byId = new Map(results.map(r => [r.productId, r]))
+            setProducts(prev => prev
+                .filter(p => !byId.get(p.id)?.success)
+                .map(p => {
+                    if (!pendingIds.includes(p.id)) return p
+                    const result = byId.get(p.id)
+                    return result
+                        ? { ...p, status: 'failed' as const, error: result.error || 'Failed' }
+                        : { ...p, status: 'pending' as const }
+                }))
+            setMessage(`✅ Internalized ${results.filter(r => r.success).length}/${pendingIds.length} images`)
+        } catch (error) {
+            setProducts(prev => prev.map(p =>
+                pendingIds.includes(p.id) && p.status === 'processing' ? { ...p, status: 'pending' as const } : p
+            ))
+            setMessage(`❌ ${error instanceof Error ? error.message : 'Internalization failed'}`)
         }
         fetchStatus()
     }
@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useState, useEffect, useCallback } from 'react'
+import type { DeliveryFunnel } from '@/utilities/push-receipts'
 
 interface PushStats {
   totalTokens: number
@@ -26,15 +27,27 @@ interface Campaign {
   }
 }
 
+interface CampaignFunnel {
+  id: number
+  name: string
+  status: string
+  type: string
+  lastSentAt?: string | null
+  funnel: DeliveryFunnel
+}
+
 /**
  * Push Notification Campaign Dashboard
  *
  * Manage push notification campaigns and view delivery statistics.
  * Supports targeting by platform and scheduling for future delivery.
+ * Delivery funnels come from notification-sends reconciled against
+ * Expo receipts (/api/campaigns/funnel).
  */
 const PushCampaignDashboard: React.FC = () => {
   const [stats, setStats] = useState<PushStats | null>(null)
   const [campaigns, setCampaigns] = useState<Campaign[]>([])
+  const [funnels, setFunnels] = useState<CampaignFunnel[]>([])
   const [loading, setLoading] = useState(true)
   const [showNewCampaign, setShowNewCampaign] = useState(false)
   const [newCampaign, setNewCampaign] = useState<{
@@ -51,17 +64,19 @@ const PushCampaignDashboard: React.FC = () => {
   const fetchData = useCallback(async () => {
     try {
       // Fetch push token stats
-      const [allRes, iosRes, androidRes, activeRes] = await Promise.all([
+      const [allRes, iosRes, androidRes, activeRes, funnelRes] = await Promise.all([
         fetch('/api/push-tokens?limit=0').catch(() => ({ ok: false })),
         fetch('/api/push-tokens?where[platform][equals]=ios&limit=0').catch(() => ({ ok: false })),
         fetch('/api/push-tokens?where[platform][equals]=android&limit=0').catch(() => ({ ok: false })),
         fetch('/api/push-tokens?where[isActive][equals]=true&limit=0').catch(() => ({ ok: false })),
+        fetch('/api/campaigns/funnel?limit=10').catch(() => ({ ok: false })),
       ])
 
       const all = allRes.ok ? await (allRes as Response).json() : { totalDocs: 0 }
       const ios = iosRes.ok ? await (iosRes as Response).json() : { totalDocs: 0 }
       const android = androidRes.ok ? await (androidRes as Response).json() : { totalDocs: 0 }
       const active = activeRes.ok ? await (activeRes as Response).json() : { totalDocs: 0 }
+      const funnelData = funnelRes.ok ? await (funnelRes as Response).json() : { campaigns: [] }
 
       // Note: Daily registration chart requires date-based token queries
       // For now, show empty - implement proper token registration tracking
@@ -75,6 +90,8 @@ const PushCampaignDashboard: React.FC = () => {
         tokensByDay,
       })
 
+      setFunnels(funnelData.campaigns || [])
+
       // Note: Campaign history requires a push-campaigns collection
       // Currently empty - implement campaign persistence for history
       setCampaigns([])
@@ -142,6 +159,20 @@ const PushCampaignDashboard: React.FC = () => {
     }
   }
 
+  /** One funnel stage as a bar relative to the targeted count */
+  const renderStage = (label: string, value: number, total: number, color: string) => (
+    <div key={label} style={styles.funnelRow}>
+      <span style={styles.funnelLabel}>{label}</span>
+      <div style={styles.funnelTrack}>
+        <div style={{ ...styles.funnelFill, width: `${total > 0 ? (value / total) * 100 : 0}%`, background: color }} />
+      </div>
+      <span style={styles.funnelValue}>
+        {value.toLocaleString()}
+        <span style={styles.funnelPercent}>{total > 0 ? ` ${((value / total) * 100).toFixed(1)}%` : ''}</span>
+      </span>
+    </div>
+  )
+
   if (loading) {
     return (
       <div style={styles.container}>
@@ -268,6 +299,46 @@ const PushCampaignDashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Delivery Funnels */}
+      <div style={styles.section}>
+        <h2 style={styles.sectionTitle}>Delivery Funnels</h2>
+        {funnels.length === 0 ? (
+          <div style={styles.emptyState}>No campaigns sent yet.</div>
+        ) : (
+          <div style={styles.campaignList}>
+            {funnels.map(({ id, name, status, lastSentAt, funnel }) => (
+              <div key={id} style={styles.campaignCard}>
+                <div style={styles.campaignHeader}>
+                  <div>
+                    <h3 style={styles.campaignTitle}>{name}</h3>
+                    {lastSentAt && (
+                      <p style={styles.campaignMessage}>Last sent {new Date(lastSentAt).toLocaleString()}</p>
+                    )}
+                  </div>
+                  <span style={{ ...styles.statusBadge, background: '#3f3f46' }}>{status}</span>
+                </div>
+
+                {renderStage('Targeted', funnel.targeted, funnel.targeted, '#71717a')}
+                {renderStage('Accepted', funnel.accepted, funnel.targeted, '#3b82f6')}
+                {renderStage('Delivered', funnel.delivered, funnel.targeted, '#22c55e')}
+                {renderStage('Opened', funnel.opened, funnel.targeted, '#a855f7')}
+
+                <div style={styles.campaignMeta}>
+                  <span>Rejected by Expo: {funnel.ticketErrors.toLocaleString()}</span>
+                  <span>Failed after accept: {funnel.receiptErrors.toLocaleString()}</span>
+                  <span style={{ color: funnel.deadTokens > 0 ? '#f87171' : undefined }}>
+                    Dead tokens: {funnel.deadTokens.toLocaleString()}
+                  </span>
+                  {funnel.awaitingReceipt > 0 && (
+                    <span>Awaiting receipt: {funnel.awaitingReceipt.toLocaleString()}</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Campaigns List */}
       <div style={styles.section}>
         <h2 style={styles.sectionTitle}>Campaigns</h2>
@@ -324,6 +395,8 @@ const PushCampaignDashboard: React.FC = () => {
         <h4 style={styles.noteTitle}>Integration Note</h4>
         <p style={styles.noteText}>
           Push notifications are sent via Expo Push API. Ensure EXPO_ACCESS_TOKEN is configured.
+          Delivery is confirmed from Expo receipts every 15 minutes; tokens reported as
+          DeviceNotRegistered are deactivated.
           For production, create a campaigns collection to persist campaign history.
         </p>
       </div>
@@ -582,6 +655,48 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '12px',
     color: '#71717a',
   },
+  emptyState: {
+    background: '#18181b',
+    border: '1px solid #27272a',
+    borderRadius: '12px',
+    padding: '24px',
+    textAlign: 'center',
+    fontSize: '14px',
+    color: '#71717a',
+  },
+  funnelRow: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '12px',
+    marginBottom: '8px',
+  },
+  funnelLabel: {
+    width: '80px',
+    fontSize: '13px',
+    color: '#a1a1aa',
+  },
+  funnelTrack: {
+    flex: 1,
+    height: '12px',
+    background: '#27272a',
+    borderRadius: '6px',
+    overflow: 'hidden',
+  },
+  funnelFill: {
+    height: '100%',
+    borderRadius: '6px',
+  },
+  funnelValue: {
+    width: '110px',
+    textAlign: 'right',
+    fontSize: '13px',
+    fontWeight: 600,
+    color: '#fff',
+  },
+  funnelPercent: {
+    fontWeight: 400,
+    color: '#71717a',
+  },
   noteSection: {
     background: 'rgba(59, 130, 246, 0.1)',
     border: '1px solid rgba(59, 130, 246, 0.3)',
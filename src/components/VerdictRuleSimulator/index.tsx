@@ -0,0 +1,592 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+
+interface ActiveRule {
+    id: number
+    name: string
+    priority: number
+    action: string
+    conditionType: string
+}
+
+interface GroupSummary {
+    changed: number
+    transitions: Record<string, number>
+}
+
+interface VerdictChange {
+    productId: number
+    productName: string
+    brand: string
+    category: string
+    fromVerdict: string
+    toVerdict: string
+    rules: string[]
+}
+
+interface SimulationResult {
+    scanned: number
+    changed: number
+    heldByOverride: number
+    newlyBlocked: number
+    transitions: Record<string, number>
+    byCategory: Record<string, GroupSummary>
+    byBrand: Record<string, GroupSummary>
+    changes: VerdictChange[]
+    truncated: boolean
+}
+
+const DRAFT_TEMPLATE = JSON.stringify(
+    {
+        name: 'Draft: Baby food lead or recent recall',
+        conditionType: 'condition_tree',
+        action: 'set_caution',
+        priority: 10,
+        conditionTree: {
+            op: 'or',
+            children: [
+                {
+                    op: 'and',
+                    children: [
+                        { type: 'category', categories: ['baby-food'] },
+                        { type: 'detection', compound: 'lead', operator: 'gt', value: 10, unit: 'ppb' },
+                    ],
+                },
+                { type: 'brand_recall', withinMonths: 12 },
+            ],
+        },
+    },
+    null,
+    2
+)
+
+const VERDICT_COLORS: Record<string, string> = {
+    recommend: '#10b981',
+    caution: '#f59e0b',
+    flagged: '#ef4444',
+}
+
+const MAX_CHANGES_SHOWN = 200
+
+const VerdictRuleSimulator: React.FC = () => {
+    const [rules, setRules] = useState<ActiveRule[]>([])
+    const [draftJson, setDraftJson] = useState(DRAFT_TEMPLATE)
+    const [useDraft, setUseDraft] = useState(true)
+    const [priorities, setPriorities] = useState<Record<number, string>>({})
+    const [result, setResult] = useState<SimulationResult | null>(null)
+    const [running, setRunning] = useState(false)
+    const [exporting, setExporting] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const fetchRules = useCallback(async () => {
+        try {
+            const response = await fetch('/api/verdict-rules?where[isActive][equals]=true&sort=-priority&limit=100&depth=0')
+            if (!response.ok) throw new Error('Failed to load active rules')
+            const data = await response.json()
+            setRules(data.docs || [])
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to load rules')
+        }
+    }, [])
+
+    useEffect(() => {
+        fetchRules()
+    }, [fetchRules])
+
+    const buildRequestBody = (format: 'json' | 'csv') => {
+        const body: Record<string, unknown> = { format }
+
+        if (useDraft) {
+            body.draftRule = JSON.parse(draftJson)
+        }
+
+        const priorityOverrides: Record<string, number> = {}
+        for (const rule of rules) {
+            const value = priorities[rule.id]
+            if (value !== undefined && value !== '' && Number(value) !== rule.priority) {
+                priorityOverrides[String(rule.id)] = Number(value)
+            }
+        }
+        if (Object.keys(priorityOverrides).length > 0) {
+            body.priorityOverrides = priorityOverrides
+        }
+
+        return body
+    }
+
+    const runSimulation = async (format: 'json' | 'csv') => {
+        let body: Record<string, unknown>
+        try {
+            body = buildRequestBody(format)
+        } catch {
+            setError('Draft rule is not valid JSON')
+            return
+        }
+
+        setError(null)
+        if (format === 'csv') setExporting(true)
+        else setRunning(true)
+
+        try {
+            const response = await fetch('/api/verdict-simulator', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            })
+
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({}))
+                throw new Error(errorData.error || `Simulation failed: ${response.status}`)
+            }
+
+            if (format === 'csv') {
+                const contentDisposition = response.headers.get('Content-Disposition')
+                const filenameMatch = contentDisposition?.match(/filename="(.+)"/)
+                const blob = await response.blob()
+                const url = window.URL.createObjectURL(blob)
+                const a = document.createElement('a')
+                a.href = url
+                a.download = filenameMatch?.[1] || 'verdict-rule-simulation.csv'
+                document.body.appendChild(a)
+                a.click()
+                window.URL.revokeObjectURL(url)
+                document.body.removeChild(a)
+            } else {
+                setResult(await response.json())
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Simulation failed')
+        } finally {
+            setRunning(false)
+            setExporting(false)
+        }
+    }
+
+    const renderGroupTable = (title: string, groups: Record<string, GroupSummary>) => {
+        const rows = Object.entries(groups).sort(([, a], [, b]) => b.changed - a.changed)
+        if (rows.length === 0) return null
+
+        return (
+            <div style={styles.section}>
+                <h2 style={styles.sectionTitle}>{title}</h2>
+                <div style={styles.tableContainer}>
+                    <table style={styles.table}>
+                        <thead>
+                            <tr>
+                                <th style={styles.th}>{title.replace('By ', '')}</th>
+                                <th style={styles.th}>Changed</th>
+                                <th style={styles.th}>Transitions</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(([name, group]) => (
+                                <tr key={name} style={styles.tr}>
+                                    <td style={styles.td}>{name}</td>
+                                    <td style={styles.td}>{group.changed}</td>
+                                    <td style={styles.td}>
+                                        {Object.entries(group.transitions)
+                                            .map(([transition, count]) => `${transition.replace('->', ' → ')} (${count})`)
+                                            .join(', ')}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div style={styles.container}>
+            {/* Header */}
+            <div style={styles.header}>
+                <div>
+                    <h1 style={styles.title}>Verdict Rule Simulator</h1>
+                    <p style={styles.subtitle}>
+                        Dry-run a draft rule or a new priority order across the catalog. Nothing is saved.
+                    </p>
+                </div>
+                <div style={styles.headerActions}>
+                    <button
+                        onClick={() => runSimulation('json')}
+                        disabled={running}
+                        style={{ ...styles.primaryButton, opacity: running ? 0.6 : 1 }}
+                    >
+                        {running ? 'Simulating...' : 'Run Simulation'}
+                    </button>
+                    <button
+                        onClick={() => runSimulation('csv')}
+                        disabled={exporting}
+                        style={{ ...styles.secondaryButton, opacity: exporting ? 0.6 : 1 }}
+                    >
+                        {exporting ? 'Exporting...' : 'Export CSV'}
+                    </button>
+                </div>
+            </div>
+
+            {error && <div style={styles.error}>{error}</div>}
+
+            <div style={styles.inputGrid}>
+                {/* Draft Rule */}
+                <div style={styles.card}>
+                    <label style={styles.checkboxLabel}>
+                        <input type="checkbox" checked={useDraft} onChange={(e) => setUseDraft(e.target.checked)} />
+                        Include draft rule
+                    </label>
+                    <p style={styles.hint}>
+                        Same fields as a verdict-rules entry. Set &quot;id&quot; to simulate edits to an existing rule.
+                    </p>
+                    <textarea
+                        value={draftJson}
+                        onChange={(e) => setDraftJson(e.target.value)}
+                        disabled={!useDraft}
+                        spellCheck={false}
+                        style={styles.textarea}
+                    />
+                </div>
+
+                {/* Priority Ordering */}
+                <div style={styles.card}>
+                    <h3 style={styles.cardTitle}>Active Rule Priorities</h3>
+                    <p style={styles.hint}>Higher priority runs first. Change values to test a re-ordering.</p>
+                    {rules.length === 0 ? (
+                        <p style={styles.empty}>No active rules</p>
+                    ) : (
+                        rules.map((rule) => (
+                            <div key={rule.id} style={styles.ruleRow}>
+                                <span style={styles.ruleName}>
+                                    {rule.name}
+                                    <span style={styles.ruleMeta}> · {rule.action}</span>
+                                </span>
+                                <input
+                                    type="number"
+                                    value={priorities[rule.id] ?? String(rule.priority ?? 0)}
+                                    onChange={(e) => setPriorities((prev) => ({ ...prev, [rule.id]: e.target.value }))}
+                                    style={styles.priorityInput}
+                                />
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+
+            {result && (
+                <>
+                    {/* Stats Cards */}
+                    <div style={styles.statsRow}>
+                        <div style={styles.statCard}>
+                            <p style={styles.statLabel}>Products Scanned</p>
+                            <p style={styles.statValue}>{result.scanned}</p>
+                        </div>
+                        <div style={styles.statCard}>
+                            <p style={styles.statLabel}>Verdict Changes</p>
+                            <p style={{ ...styles.statValue, color: result.changed > 0 ? '#f59e0b' : '#10b981' }}>
+                                {result.changed}
+                            </p>
+                        </div>
+                        <div style={styles.statCard}>
+                            <p style={styles.statLabel}>Held by Override</p>
+                            <p style={styles.statValue}>{result.heldByOverride}</p>
+                        </div>
+                        <div style={styles.statCard}>
+                            <p style={styles.statLabel}>Newly Blocked</p>
+                            <p style={{ ...styles.statValue, color: result.newlyBlocked > 0 ? '#ef4444' : '#111827' }}>
+                                {result.newlyBlocked}
+                            </p>
+                        </div>
+                    </div>
+
+                    {result.truncated && (
+                        <div style={styles.warning}>Catalog exceeds the simulation limit - results are partial.</div>
+                    )}
+
+                    {/* Transitions */}
+                    {Object.keys(result.transitions).length > 0 && (
+                        <div style={styles.section}>
+                            <h2 style={styles.sectionTitle}>Transitions</h2>
+                            <div style={styles.transitionList}>
+                                {Object.entries(result.transitions).map(([transition, count]) => {
+                                    const [from, to] = transition.split('->')
+                                    return (
+                                        <span key={transition} style={styles.transitionBadge}>
+                                            <span style={{ color: VERDICT_COLORS[from] }}>{from}</span>
+                                            {' → '}
+                                            <span style={{ color: VERDICT_COLORS[to] }}>{to}</span>
+                                            <strong style={{ marginLeft: '8px' }}>{count}</strong>
+                                        </span>
+                                    )
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    {renderGroupTable('By Category', result.byCategory)}
+                    {renderGroupTable('By Brand', result.byBrand)}
+
+                    {/* Changed Products */}
+                    {result.changes.length > 0 && (
+                        <div style={styles.section}>
+                            <h2 style={styles.sectionTitle}>Changed Products</h2>
+                            {result.changes.length > MAX_CHANGES_SHOWN && (
+                                <p style={styles.hint}>
+                                    Showing first {MAX_CHANGES_SHOWN} of {result.changes.length}. Export CSV for the full list.
+                                </p>
+                            )}
+                            <div style={styles.tableContainer}>
+                                <table style={styles.table}>
+                                    <thead>
+                                        <tr>
+                                            <th style={styles.th}>Product</th>
+                                            <th style={styles.th}>Brand</th>
+                                            <th style={styles.th}>Category</th>
+                                            <th style={styles.th}>Verdict</th>
+                                            <th style={styles.th}>Rules</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {result.changes.slice(0, MAX_CHANGES_SHOWN).map((change) => (
+                                            <tr key={change.productId} style={styles.tr}>
+                                                <td style={styles.td}>
+                                                    <a href={`/admin/collections/products/${change.productId}`} style={styles.link}>
+                                                        {change.productName}
+                                                    </a>
+                                                </td>
+                                                <td style={styles.td}>{change.brand}</td>
+                                                <td style={styles.td}>{change.category}</td>
+                                                <td style={styles.td}>
+                                                    <span style={{ color: VERDICT_COLORS[change.fromVerdict] }}>{change.fromVerdict}</span>
+                                                    {' → '}
+                                                    <span style={{ color: VERDICT_COLORS[change.toVerdict] }}>{change.toVerdict}</span>
+                                                </td>
+                                                <td style={{ ...styles.td, fontSize: '12px', color: '#6b7280' }}>
+                                                    {change.rules.join('; ') || '-'}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    )
+}
+
+const styles: Record<string, React.CSSProperties> = {
+    container: {
+        padding: '24px',
+        maxWidth: '1100px',
+        margin: '0 auto',
+        fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    },
+    header: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'flex-start',
+        marginBottom: '24px',
+        flexWrap: 'wrap',
+        gap: '16px',
+    },
+    title: {
+        margin: 0,
+        fontSize: '28px',
+        fontWeight: 700,
+        color: '#111827',
+    },
+    subtitle: {
+        margin: '4px 0 0',
+        fontSize: '14px',
+        color: '#6b7280',
+    },
+    headerActions: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '12px',
+    },
+    primaryButton: {
+        padding: '8px 16px',
+        background: '#3b82f6',
+        color: '#fff',
+        border: 'none',
+        borderRadius: '6px',
+        cursor: 'pointer',
+        fontSize: '13px',
+    },
+    secondaryButton: {
+        padding: '8px 16px',
+        background: '#f3f4f6',
+        border: '1px solid #e5e7eb',
+        borderRadius: '6px',
+        cursor: 'pointer',
+        fontSize: '13px',
+    },
+    error: {
+        padding: '12px 16px',
+        marginBottom: '16px',
+        background: '#fef2f2',
+        border: '1px solid #fecaca',
+        borderRadius: '8px',
+        color: '#991b1b',
+        fontSize: '14px',
+    },
+    warning: {
+        padding: '12px 16px',
+        marginBottom: '16px',
+        background: '#fffbeb',
+        border: '1px solid #fde68a',
+        borderRadius: '8px',
+        color: '#92400e',
+        fontSize: '14px',
+    },
+    inputGrid: {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(320px, 1fr))',
+        gap: '16px',
+        marginBottom: '32px',
+    },
+    card: {
+        background: '#fff',
+        border: '1px solid #e5e7eb',
+        borderRadius: '12px',
+        padding: '20px',
+    },
+    cardTitle: {
+        margin: 0,
+        fontSize: '15px',
+        fontWeight: 600,
+        color: '#111827',
+    },
+    checkboxLabel: {
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        fontSize: '15px',
+        fontWeight: 600,
+        color: '#111827',
+    },
+    hint: {
+        margin: '6px 0 12px',
+        fontSize: '12px',
+        color: '#6b7280',
+    },
+    textarea: {
+        width: '100%',
+        minHeight: '320px',
+        padding: '12px',
+        fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace',
+        fontSize: '12px',
+        border: '1px solid #e5e7eb',
+        borderRadius: '8px',
+        resize: 'vertical',
+        boxSizing: 'border-box',
+    },
+    empty: {
+        fontSize: '13px',
+        color: '#9ca3af',
+    },
+    ruleRow: {
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: '8px 0',
+        borderBottom: '1px solid #f3f4f6',
+        gap: '12px',
+    },
+    ruleName: {
+        fontSize: '13px',
+        color: '#111827',
+    },
+    ruleMeta: {
+        color: '#9ca3af',
+    },
+    priorityInput: {
+        width: '72px',
+        padding: '4px 8px',
+        border: '1px solid #e5e7eb',
+        borderRadius: '6px',
+        fontSize: '13px',
+    },
+    statsRow: {
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(140px, 1fr))',
+        gap: '16px',
+        marginBottom: '32px',
+    },
+    statCard: {
+        background: '#fff',
+        border: '1px solid #e5e7eb',
+        borderRadius: '12px',
+        padding: '20px',
+        textAlign: 'center',
+    },
+    statLabel: {
+        margin: 0,
+        fontSize: '13px',
+        color: '#6b7280',
+    },
+    statValue: {
+        margin: '8px 0 0',
+        fontSize: '32px',
+        fontWeight: 700,
+        color: '#111827',
+    },
+    section: {
+        marginBottom: '32px',
+    },
+    sectionTitle: {
+        margin: '0 0 12px',
+        fontSize: '18px',
+        fontWeight: 600,
+        color: '#111827',
+    },
+    transitionList: {
+        display: 'flex',
+        flexWrap: 'wrap',
+        gap: '8px',
+    },
+    transitionBadge: {
+        padding: '6px 12px',
+        background: '#f9fafb',
+        border: '1px solid #e5e7eb',
+        borderRadius: '9999px',
+        fontSize: '13px',
+    },
+    tableContainer: {
+        background: '#fff',
+        border: '1px solid #e5e7eb',
+        borderRadius: '12px',
+        overflow: 'hidden',
+    },
+    table: {
+        width: '100%',
+        borderCollapse: 'collapse',
+    },
+    th: {
+        textAlign: 'left',
+        padding: '12px 16px',
+        background: '#f9fafb',
+        borderBottom: '1px solid #e5e7eb',
+        fontSize: '12px',
+        fontWeight: 600,
+        color: '#6b7280',
+        textTransform: 'uppercase',
+    },
+    tr: {
+        borderBottom: '1px solid #f3f4f6',
+    },
+    td: {
+        padding: '12px 16px',
+        fontSize: '14px',
+        color: '#374151',
+    },
+    link: {
+        color: '#3b82f6',
+        textDecoration: 'none',
+    },
+}
+
+export default VerdictRuleSimulator
@@ -1,11 +1,12 @@
 'use client'
 
 import React, { useState } from 'react'
+import { waitForJob } from '@/utilities/wait-for-job'
 
 interface SyncResult {
     success: boolean
     imported?: number
-    skipped?: number
+    updated?: number
     message?: string
     error?: string
 }
@@ -14,6 +15,7 @@ const YouTubeSync: React.FC = () => {
     const [syncing, setSyncing] = useState(false)
     const [result, setResult] = useState<SyncResult | null>(null)
     const [error, setError] = useState<string | null>(null)
+    const [progress, setProgress] = useState<string | null>(null)
 
     const handleSync = async () => {
         setSyncing(true)
@@ -26,17 +28,26 @@ const YouTubeSync: React.FC = () => {
                 headers: { 'Content-Type': 'application/json' },
             })
 
-            const data: SyncResult = await response.json()
+            const queued = await response.json()
 
-            if (data.success) {
-                setResult(data)
+            if (!response.ok) {
+                setError(queued.error || 'Sync failed')
+                return
+            }
+
+            // The sync runs as a background job; poll until it finishes
+            const job = await waitForJob(queued.jobId, (update) => setProgress(update.progress.message))
+
+            if (job.status === 'succeeded') {
+                setResult({ success: true, ...(job.result as Omit<SyncResult, 'success'>) })
             } else {
-                setError(data.error || 'Sync failed')
+                setError(job.error || `Sync ${job.status.replace('_', ' ')}`)
             }
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Network error')
         } finally {
             setSyncing(false)
+            setProgress(null)
         }
     }
 
@@ -87,7 +98,7 @@ const YouTubeSync: React.FC = () => {
                 {syncing ? (
                     <>
                         <span style={{ animation: 'spin 1s linear infinite' }}>⏳</span>
-                        Syncing Videos...
+                        {progress || 'Syncing Videos...'}
                     </>
                 ) : (
                     <>
@@ -126,7 +137,7 @@ const YouTubeSync: React.FC = () => {
                     </p>
                     <div style={{ marginTop: '8px', fontSize: '14px' }}>
                         <p style={{ margin: '4px 0' }}>📥 Imported: {result.imported} videos</p>
-                        <p style={{ margin: '4px 0' }}>⏭️ Skipped: {result.skipped} (too long or duplicates)</p>
+                        <p style={{ margin: '4px 0' }}>🔁 Updated: {result.updated ?? 0} existing videos</p>
                     </div>
                 </div>
             )}
@@ -9,6 +9,10 @@ import type { PayloadHandler, PayloadRequest } from 'payload'
  * - purge_ai_drafts: Deletes ALL products with status 'ai_draft'
  * - purge_duplicates: Keeps only the newest ai_draft for each name+brand combo
  * 
+ * Every deletion is audited with the full document under one operation id
+ * (returned as auditOperation), so a bad purge can be reviewed and reverted
+ * via /api/audit-trail?operation=...
+ *
  * Added: December 2024
  * ============================================================================ */
 
@@ -41,6 +45,7 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
         }
 
         const { payload } = req
+        const auditOperation = `admin-purge:${action}:${new Date().toISOString()}`
 
         // ============================================================
         // ACTION: Delete ALL ai_draft products
@@ -59,6 +64,8 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                 await payload.delete({
                     collection: 'products',
                     id: product.id,
+                    req,
+                    context: { auditOperation },
                 })
                 deleted++
             }
@@ -67,6 +74,7 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                 success: true,
                 action: 'purge_ai_drafts',
                 deleted,
+                auditOperation,
                 message: `Deleted ${deleted} AI draft products`,
             })
         }
@@ -91,6 +99,8 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                 await payload.delete({
                     collection: 'products',
                     id: product.id,
+                    req,
+                    context: { auditOperation },
                 })
                 deleted++
             }
@@ -99,6 +109,7 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                 success: true,
                 action: 'purge_all_drafts',
                 deleted,
+                auditOperation,
                 message: `Deleted ${deleted} products (ai_draft + draft)`,
             })
         }
@@ -120,6 +131,8 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                 await payload.delete({
                     collection: 'products',
                     id: product.id,
+                    req,
+                    context: { auditOperation },
                 })
                 deleted++
             }
@@ -128,6 +141,7 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                 success: true,
                 action: 'purge_drafts',
                 deleted,
+                auditOperation,
                 message: `Deleted ${deleted} regular draft products`,
             })
         }
@@ -166,6 +180,8 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                     await payload.delete({
                         collection: 'products',
                         id: products[i].id,
+                        req,
+                        context: { auditOperation },
                     })
                     deleted++
                 }
@@ -176,6 +192,7 @@ export const adminPurgeHandler: PayloadHandler = async (req: PayloadRequest) =>
                 action: 'purge_duplicates',
                 deleted,
                 kept,
+                auditOperation,
                 message: `Kept ${kept} unique products, deleted ${deleted} duplicates`,
             })
         }
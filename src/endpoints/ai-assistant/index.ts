@@ -62,10 +62,10 @@ export const aiAssistantEndpoint: Endpoint = {
         const rateCheck = await checkRateLimitAsync(rateLimitKey, {
             ...AI_ASSISTANT_RATE_LIMIT,
             identifier: 'ai-assistant',
-        })
+        }, req)
 
         if (!rateCheck.allowed) {
-            return rateLimitResponse(rateCheck.resetAt)
+            return rateLimitResponse(rateCheck)
         }
 
         // Parse request body
@@ -0,0 +1,272 @@
+/**
+ * Audit Trail Endpoints
+ *
+ * Admin access to the unified audit log (AI, system and admin changes):
+ * - Timeline: Entries filtered by document, actor, action, operation and date
+ * - Entry: One entry with its field-level diff
+ * - Revert: Restore the prior values of a change
+ * - Revert operation: Revert every change of a bulk operation (e.g. admin-purge)
+ *
+ * Reverts go through Payload and are recorded as their own audit entries
+ * (see utilities/audit-trail).
+ */
+
+import type { Endpoint, PayloadRequest } from 'payload'
+import type { AuditLog } from '../payload-types'
+import { requireAdmin } from '../access/roleAccess'
+import {
+    validationError,
+    notFoundError,
+    internalError,
+    errorResponse,
+} from '../utilities/api-response'
+import {
+    buildAuditTimelineWhere,
+    diffAuditEntry,
+    parseAuditTimelineQuery,
+    revertAuditEntry,
+    revertBlocker,
+} from '../utilities/audit-trail'
+
+// Most entries a single operation revert will touch
+const MAX_OPERATION_REVERT = 1000
+
+function relationId(value: number | { id: number } | null | undefined): number | null {
+    if (value === null || value === undefined) return null
+    return typeof value === 'object' ? value.id : value
+}
+
+function serializeEntry(req: PayloadRequest, entry: AuditLog, revertedBy: number | null) {
+    return {
+        id: entry.id,
+        action: entry.action,
+        summary: entry.summary,
+        target: {
+            type: entry.targetType || 'collection',
+            collection: entry.targetCollection,
+            id: entry.targetId,
+            name: entry.targetName,
+        },
+        actor: {
+            id: relationId(entry.performedBy as number | { id: number } | null | undefined),
+            email: entry.actorEmail,
+        },
+        sourceType: entry.sourceType,
+        operation: entry.operation,
+        success: entry.success,
+        changes: diffAuditEntry(entry),
+        revertible: !revertedBy && revertBlocker(entry, req.payload.config.collections) === null,
+        revertOf: relationId(entry.revertOf as number | { id: number } | null | undefined),
+        revertedBy,
+        createdAt: entry.createdAt,
+    }
+}
+
+/**
+ * Map entry id -> the entry that reverted it
+ */
+async function findReverts(req: PayloadRequest, entryIds: number[]): Promise<Map<number, number>> {
+    const reverts = new Map<number, number>()
+    if (entryIds.length === 0) return reverts
+    const { docs } = await req.payload.find({
+        collection: 'audit-log',
+        where: { revertOf: { in: entryIds } },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+    })
+    for (const doc of docs) {
+        const original = relationId(doc.revertOf as number | { id: number } | null | undefined)
+        if (original && !reverts.has(original)) reverts.set(original, doc.id)
+    }
+    return reverts
+}
+
+/**
+ * Audit Timeline
+ * GET /api/audit-trail
+ *
+ * Query: ?collection=products&documentId=12&actor=<id|email|system>
+ *        &action=update,delete&operation=...&from=2026-01-01&to=2026-01-31
+ *        &limit=50&page=1
+ */
+export const auditTimelineHandler: Endpoint = {
+    path: '/audit-trail',
+    method: 'get',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const url = new URL(req.url || '', 'http://localhost')
+            const filters = parseAuditTimelineQuery(url.searchParams)
+            const limit = Math.min(parseInt(url.searchParams.get('limit') || '50') || 50, 200)
+            const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1)
+
+            const result = await req.payload.find({
+                collection: 'audit-log',
+                where: buildAuditTimelineWhere(filters),
+                sort: '-createdAt',
+                limit,
+                page,
+                depth: 0,
+                overrideAccess: true,
+            })
+            const reverts = await findReverts(req, result.docs.map(doc => doc.id))
+
+            return Response.json({
+                success: true,
+                entries: result.docs.map(doc => serializeEntry(req, doc, reverts.get(doc.id) ?? null)),
+                filters,
+                pagination: {
+                    page: result.page,
+                    totalPages: result.totalPages,
+                    totalDocs: result.totalDocs,
+                },
+            })
+        } catch (error) {
+            console.error('[AuditTrail] Timeline error:', error)
+            return internalError('Failed to load audit trail')
+        }
+    },
+}
+
+/**
+ * Audit Entry
+ * GET /api/audit-trail/:entryId
+ */
+export const auditEntryHandler: Endpoint = {
+    path: '/audit-trail/:entryId',
+    method: 'get',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const entryId = Number((req.routeParams as Record<string, string>)?.entryId)
+            const entry = entryId
+                ? await req.payload.findByID({
+                    collection: 'audit-log',
+                    id: entryId,
+                    depth: 0,
+                    overrideAccess: true,
+                }).catch(() => null)
+                : null
+            if (!entry) return notFoundError('Audit entry')
+
+            const reverts = await findReverts(req, [entry.id])
+            const revertedBy = reverts.get(entry.id) ?? null
+            return Response.json({
+                success: true,
+                entry: serializeEntry(req, entry, revertedBy),
+                revertBlocker: revertedBy ? 'Already reverted' : revertBlocker(entry, req.payload.config.collections),
+            })
+        } catch (error) {
+            console.error('[AuditTrail] Entry error:', error)
+            return internalError('Failed to load audit entry')
+        }
+    },
+}
+
+/**
+ * Revert Change
+ * POST /api/audit-trail/:entryId/revert
+ *
+ * Body: { force?: boolean } - force overwrites fields changed again since,
+ * and allows reverting twice
+ */
+export const auditRevertHandler: Endpoint = {
+    path: '/audit-trail/:entryId/revert',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const entryId = Number((req.routeParams as Record<string, string>)?.entryId)
+            if (!entryId) return validationError('Audit entry ID required')
+
+            const body = await req.json?.().catch(() => ({})) || {}
+            const result = await revertAuditEntry(req, entryId, { force: body.force === true })
+            if (!result.ok) {
+                return errorResponse(result.code, result.error, result.status, result.conflicts)
+            }
+
+            return Response.json({ success: true, ...result })
+        } catch (error) {
+            console.error('[AuditTrail] Revert error:', error)
+            return internalError(error instanceof Error ? `Revert failed: ${error.message}` : 'Revert failed')
+        }
+    },
+}
+
+/**
+ * Revert Bulk Operation
+ * POST /api/audit-trail/revert-operation
+ *
+ * Body: { operation: string, force?: boolean }
+ *
+ * Reverts the operation's changes newest first. Entries that can't be
+ * reverted are reported, not fatal.
+ */
+export const auditRevertOperationHandler: Endpoint = {
+    path: '/audit-trail/revert-operation',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const body = await req.json?.().catch(() => ({})) || {}
+            const operation = typeof body.operation === 'string' ? body.operation.trim() : ''
+            if (!operation) return validationError('operation is required')
+
+            const { docs, totalDocs } = await req.payload.find({
+                collection: 'audit-log',
+                where: {
+                    and: [
+                        { operation: { equals: operation } },
+                        { revertOf: { exists: false } },
+                    ],
+                },
+                sort: '-createdAt',
+                limit: MAX_OPERATION_REVERT,
+                depth: 0,
+                overrideAccess: true,
+            })
+            if (totalDocs === 0) return notFoundError('Operation')
+
+            const reverted: Array<{ entryId: number; revertEntryId: number; documentId: number | null }> = []
+            const failed: Array<{ entryId: number; code: string; error: string }> = []
+            for (const entry of docs) {
+                const result = await revertAuditEntry(req, entry.id, { force: body.force === true })
+                if (result.ok) {
+                    reverted.push({ entryId: entry.id, revertEntryId: result.revertEntryId, documentId: result.documentId })
+                } else {
+                    failed.push({ entryId: entry.id, code: result.code, error: result.error })
+                }
+            }
+
+            console.log(`[AuditTrail] Reverted operation ${operation}: ${reverted.length} reverted, ${failed.length} failed`)
+
+            return Response.json({
+                success: failed.length === 0,
+                operation,
+                reverted,
+                failed,
+                remaining: Math.max(totalDocs - docs.length, 0),
+            })
+        } catch (error) {
+            console.error('[AuditTrail] Operation revert error:', error)
+            return internalError('Failed to revert operation')
+        }
+    },
+}
+
+// Export all handlers
+export const auditTrailEndpoints = [
+    auditTimelineHandler,
+    auditRevertOperationHandler,
+    auditEntryHandler,
+    auditRevertHandler,
+]
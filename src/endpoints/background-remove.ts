@@ -1,6 +1,7 @@
 import type { Payload, PayloadHandler, PayloadRequest } from 'payload'
 import { checkRateLimitAsync, getRateLimitKey, rateLimitResponse, RateLimits } from '@/utilities/rate-limiter'
 import { getServerSideURL } from '@/utilities/getURL'
+import { enqueueJob, inlineJob, jobAcceptedResponse, type JobContext } from '@/utilities/job-queue'
 
 /**
  * Background Removal Endpoint
@@ -415,9 +416,9 @@ export const backgroundRemoveHandler: PayloadHandler = async (req: PayloadReques
 
     // Rate limiting
     const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BG_REMOVAL)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BG_REMOVAL, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     // Check for API key
@@ -462,9 +463,67 @@ export const backgroundRemoveHandler: PayloadHandler = async (req: PayloadReques
     }
 }
 
+/**
+ * Remove backgrounds from several products. Runs as the
+ * 'background-remove-batch' job.
+ */
+export async function runBackgroundRemovalBatch(
+    payload: Payload,
+    params: { productIds: number[]; force?: boolean },
+    job: JobContext = inlineJob
+) {
+    const { productIds, force = false } = params
+
+    // Estimate cost for user confirmation
+    const estimatedCost = productIds.length * 0.02
+
+    // Process each product sequentially with delay to respect API rate limits
+    const results: Array<{
+        productId: number
+        success: boolean
+        newMediaId?: number
+        error?: string
+    }> = []
+
+    for (let i = 0; i < productIds.length; i++) {
+        const productId = productIds[i]
+
+        await job.progress(i, productIds.length, `Processing product ${productId}`)
+        if (job.isCancelled()) break
+
+        // Add delay between requests to respect Photoroom rate limits (100/min)
+        if (i > 0) {
+            await new Promise((resolve) => setTimeout(resolve, 700)) // ~85 requests/min max
+        }
+
+        const result = await processProductBackgroundRemoval(payload, productId, false, force)
+        results.push({
+            productId: result.productId,
+            success: result.success,
+            ...(result.newMediaId && { newMediaId: result.newMediaId }),
+            ...(result.error && { error: result.error }),
+        })
+    }
+
+    const successCount = results.filter((r) => r.success).length
+    const failureCount = results.filter((r) => !r.success).length
+    await job.progress(results.length, productIds.length, `${successCount} succeeded, ${failureCount} failed`)
+
+    return {
+        processed: results.length,
+        successCount,
+        failureCount,
+        cancelled: job.isCancelled(),
+        estimatedCost: `$${estimatedCost.toFixed(2)}`,
+        results,
+    }
+}
+
 /**
  * Batch background removal handler
  * POST /api/background/batch
+ *
+ * Validates the request and queues a 'background-remove-batch' job.
  */
 export const backgroundBatchHandler: PayloadHandler = async (req: PayloadRequest) => {
     // Authentication check
@@ -474,9 +533,9 @@ export const backgroundBatchHandler: PayloadHandler = async (req: PayloadRequest
 
     // Rate limiting for batch operations
     const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BG_REMOVAL_BATCH)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BG_REMOVAL_BATCH, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     // Check for API key
@@ -503,45 +562,13 @@ export const backgroundBatchHandler: PayloadHandler = async (req: PayloadRequest
             )
         }
 
-        // Estimate cost for user confirmation
-        const estimatedCost = body.productIds.length * 0.02
-
-        // Process each product sequentially with delay to respect API rate limits
-        const results: Array<{
-            productId: number
-            success: boolean
-            newMediaId?: number
-            error?: string
-        }> = []
-
-        for (let i = 0; i < body.productIds.length; i++) {
-            const productId = body.productIds[i]
-
-            // Add delay between requests to respect Photoroom rate limits (100/min)
-            if (i > 0) {
-                await new Promise((resolve) => setTimeout(resolve, 700)) // ~85 requests/min max
-            }
-
-            const result = await processProductBackgroundRemoval(req.payload, productId, false, body.force ?? false)
-            results.push({
-                productId: result.productId,
-                success: result.success,
-                ...(result.newMediaId && { newMediaId: result.newMediaId }),
-                ...(result.error && { error: result.error }),
-            })
-        }
-
-        const successCount = results.filter((r) => r.success).length
-        const failureCount = results.filter((r) => !r.success).length
+        const userId = (req.user as { id?: number })?.id
+        const job = await enqueueJob(req.payload, 'background-remove-batch', {
+            productIds: body.productIds,
+            force: body.force ?? false,
+        }, { req, requestedBy: userId })
 
-        return Response.json({
-            success: true,
-            processed: results.length,
-            successCount,
-            failureCount,
-            estimatedCost: `$${estimatedCost.toFixed(2)}`,
-            results,
-        })
+        return jobAcceptedResponse(job, 'background-remove-batch')
     } catch (error) {
         console.error('Batch background removal error:', error)
         return Response.json(
@@ -1,6 +1,7 @@
 import type { PayloadHandler, PayloadRequest, Payload, Where } from 'payload'
 import { createAuditLog } from '../collections/AuditLog'
 import { checkRateLimitAsync, rateLimitResponse, getRateLimitKey, RateLimits } from '../utilities/rate-limiter'
+import { enqueueJob, inlineJob, jobAcceptedResponse, type JobContext } from '../utilities/job-queue'
 
 interface GoogleSearchResponse {
     items?: Array<{
@@ -122,179 +123,216 @@ async function downloadAndUploadImage(
     }
 }
 
+export interface BatchEnrichParams {
+    productIds?: number[]       // Specific product IDs to enrich
+    where?: Where               // Payload query for filtering
+    limit?: number              // Max products to process
+    onlyMissingImages?: boolean // Only enrich products without images
+    performedBy?: number
+}
+
 /**
- * Batch Product Enrichment Endpoint
- * POST /api/products/batch-enrich
- *
- * Enriches multiple products at once with images and price data.
- * Supports filtering by criteria (missing images, specific status, etc.)
+ * Enrich products with images. Runs as the 'batch-enrich' job.
  */
-export const batchEnrichHandler: PayloadHandler = async (req: PayloadRequest) => {
-    if (!req.user) {
-        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+export async function runBatchEnrich(
+    payload: Payload,
+    params: BatchEnrichParams,
+    job: JobContext = inlineJob
+) {
+    const {
+        productIds,
+        where,
+        limit = 50,
+        onlyMissingImages = true,
+        performedBy,
+    } = params
+
+    // Build query
+    let query: Where = {}
+
+    if (productIds?.length) {
+        query = { id: { in: productIds } }
+    } else if (where) {
+        query = where
+    } else if (onlyMissingImages) {
+        query = {
+            and: [
+                { image: { exists: false } },
+                { imageUrl: { exists: false } },
+            ],
+        }
     }
 
-    // Rate limiting
-    const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BATCH_OPERATIONS)
-    if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+    // Find products to enrich
+    const products = await payload.find({
+        collection: 'products',
+        where: query,
+        limit: Math.min(limit, 100), // Cap at 100 for safety
+    })
+
+    const results = {
+        total: products.docs.length,
+        enriched: 0,
+        failed: 0,
+        skipped: 0,
+        cancelled: false,
+        details: [] as Array<{
+            id: number
+            name: string
+            status: 'enriched' | 'failed' | 'skipped'
+            imageUrl?: string
+            error?: string
+        }>,
     }
 
-    try {
-        const body = await req.json?.()
-        const {
-            productIds,           // Specific product IDs to enrich
-            where,                // Payload query for filtering
-            limit = 50,           // Max products to process
-            onlyMissingImages = true,  // Only enrich products without images
-        } = body || {}
-
-        const payload = req.payload
-
-        // Build query
-        let query: Where = {}
-
-        if (productIds?.length) {
-            query = { id: { in: productIds } }
-        } else if (where) {
-            query = where as Where
-        } else if (onlyMissingImages) {
-            query = {
-                and: [
-                    { image: { exists: false } },
-                    { imageUrl: { exists: false } },
-                ],
-            }
+    // Process each product
+    for (const [index, product] of products.docs.entries()) {
+        await job.progress(index, results.total, `Enriching ${product.name}`)
+        if (job.isCancelled()) {
+            results.cancelled = true
+            break
         }
 
-        // Find products to enrich
-        const products = await payload.find({
-            collection: 'products',
-            where: query,
-            limit: Math.min(limit, 100), // Cap at 100 for safety
-        })
+        const productData = product as unknown as {
+            id: number
+            name: string
+            brand?: string
+            image?: unknown
+            imageUrl?: string
+        }
 
-        const results = {
-            total: products.docs.length,
-            enriched: 0,
-            failed: 0,
-            skipped: 0,
-            details: [] as Array<{
-                id: number
-                name: string
-                status: 'enriched' | 'failed' | 'skipped'
-                imageUrl?: string
-                error?: string
-            }>,
+        // Skip if already has image
+        if (productData.image || productData.imageUrl) {
+            results.skipped++
+            results.details.push({
+                id: productData.id,
+                name: productData.name,
+                status: 'skipped',
+            })
+            continue
         }
 
-        // Process each product
-        for (const product of products.docs) {
-            const productData = product as unknown as {
-                id: number
-                name: string
-                brand?: string
-                image?: unknown
-                imageUrl?: string
-            }
+        try {
+            // Search for image
+            const imageUrl = await searchProductImage(productData.name, productData.brand || null)
 
-            // Skip if already has image
-            if (productData.image || productData.imageUrl) {
-                results.skipped++
+            if (!imageUrl) {
+                results.failed++
                 results.details.push({
                     id: productData.id,
                     name: productData.name,
-                    status: 'skipped',
+                    status: 'failed',
+                    error: 'No image found',
                 })
                 continue
             }
 
-            try {
-                // Search for image
-                const imageUrl = await searchProductImage(productData.name, productData.brand || null)
-
-                if (!imageUrl) {
-                    results.failed++
-                    results.details.push({
-                        id: productData.id,
-                        name: productData.name,
-                        status: 'failed',
-                        error: 'No image found',
-                    })
-                    continue
-                }
-
-                // Download and upload
-                const downloadResult = await downloadAndUploadImage(
-                    payload,
+            // Download and upload
+            const downloadResult = await downloadAndUploadImage(
+                payload,
+                imageUrl,
+                productData.name,
+                productData.brand || null
+            )
+
+            if (downloadResult.mediaId) {
+                // Update product with new image
+                await payload.update({
+                    collection: 'products',
+                    id: productData.id,
+                    data: { image: downloadResult.mediaId },
+                })
+
+                // Create audit log
+                await createAuditLog(payload, {
+                    action: 'image_enriched',
+                    sourceType: 'system',
+                    targetCollection: 'products',
+                    targetId: productData.id,
+                    targetName: productData.name,
+                    after: { imageUrl, mediaId: downloadResult.mediaId },
+                    performedBy,
+                })
+
+                results.enriched++
+                results.details.push({
+                    id: productData.id,
+                    name: productData.name,
+                    status: 'enriched',
                     imageUrl,
-                    productData.name,
-                    productData.brand || null
-                )
-
-                if (downloadResult.mediaId) {
-                    // Update product with new image
-                    await payload.update({
-                        collection: 'products',
-                        id: productData.id,
-                        data: { image: downloadResult.mediaId },
-                    })
-
-                    // Create audit log
-                    await createAuditLog(payload, {
-                        action: 'image_enriched',
-                        sourceType: 'system',
-                        targetCollection: 'products',
-                        targetId: productData.id,
-                        targetName: productData.name,
-                        after: { imageUrl, mediaId: downloadResult.mediaId },
-                        performedBy: (req.user as { id?: number })?.id,
-                    })
-
-                    results.enriched++
-                    results.details.push({
-                        id: productData.id,
-                        name: productData.name,
-                        status: 'enriched',
-                        imageUrl,
-                    })
-                } else {
-                    // Fallback: store external URL
-                    await payload.update({
-                        collection: 'products',
-                        id: productData.id,
-                        data: { imageUrl },
-                    })
-
-                    results.enriched++
-                    results.details.push({
-                        id: productData.id,
-                        name: productData.name,
-                        status: 'enriched',
-                        imageUrl,
-                        error: `Download failed: ${downloadResult.error}, stored external URL`,
-                    })
-                }
-            } catch (error) {
-                results.failed++
+                })
+            } else {
+                // Fallback: store external URL
+                await payload.update({
+                    collection: 'products',
+                    id: productData.id,
+                    data: { imageUrl },
+                })
+
+                results.enriched++
                 results.details.push({
                     id: productData.id,
                     name: productData.name,
-                    status: 'failed',
-                    error: error instanceof Error ? error.message : 'Unknown error',
+                    status: 'enriched',
+                    imageUrl,
+                    error: `Download failed: ${downloadResult.error}, stored external URL`,
                 })
             }
-
-            // Small delay to avoid rate limiting
-            await new Promise(resolve => setTimeout(resolve, 500))
+        } catch (error) {
+            results.failed++
+            results.details.push({
+                id: productData.id,
+                name: productData.name,
+                status: 'failed',
+                error: error instanceof Error ? error.message : 'Unknown error',
+            })
         }
 
-        return Response.json({
-            success: true,
-            message: `Enriched ${results.enriched}/${results.total} products`,
-            ...results,
-        })
+        // Small delay to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, 500))
+    }
+
+    if (!results.cancelled) {
+        await job.progress(results.total, results.total, `Enriched ${results.enriched}/${results.total} products`)
+    }
+
+    return results
+}
+
+/**
+ * Batch Product Enrichment Endpoint
+ * POST /api/products/batch-enrich
+ *
+ * Enriches multiple products at once with images and price data.
+ * Supports filtering by criteria (missing images, specific status, etc.)
+ * The work is queued as a 'batch-enrich' job; poll the returned statusUrl.
+ */
+export const batchEnrichHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Rate limiting
+    const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BATCH_OPERATIONS, req)
+    if (!rateLimit.allowed) {
+        return rateLimitResponse(rateLimit)
+    }
+
+    try {
+        const body = await req.json?.()
+        const { productIds, where, limit, onlyMissingImages } = body || {}
+        const userId = (req.user as { id?: number })?.id
+
+        const job = await enqueueJob(req.payload, 'batch-enrich', {
+            productIds,
+            where,
+            limit,
+            onlyMissingImages,
+            performedBy: userId,
+        }, { req, requestedBy: userId })
+
+        return jobAcceptedResponse(job, 'batch-enrich')
     } catch (error) {
         console.error('Batch enrichment error:', error)
         return Response.json(
@@ -1,5 +1,5 @@
 import type { PayloadHandler, PayloadRequest } from 'payload'
-import { applyRateLimitAsync, RateLimits } from '../utilities/rate-limiter'
+import { applyRateLimitAsync, RateLimits, withRateLimitHeaders } from '../utilities/rate-limiter'
 import { validationError, internalError } from '../utilities/api-response'
 
 // Maximum length for fingerprint hash
@@ -70,13 +70,13 @@ export const behaviorUpdateHandler: PayloadHandler = async (req: PayloadRequest)
         }
 
         // Rate limit by fingerprint hash (60 updates per minute)
-        const rateLimitResponse = await applyRateLimitAsync(
+        const rateLimit = await applyRateLimitAsync(
             req as unknown as Request,
             RateLimits.FINGERPRINT_BEHAVIOR,
             `fingerprint:behavior:${fingerprintHash}`
         )
-        if (rateLimitResponse) {
-            return rateLimitResponse
+        if (rateLimit.limited) {
+            return rateLimit.limited
         }
 
         // Validate behavior metrics
@@ -117,7 +117,7 @@ export const behaviorUpdateHandler: PayloadHandler = async (req: PayloadRequest)
                 },
             })
 
-            return Response.json({ success: true, created: true, cohort }, { status: 201 })
+            return withRateLimitHeaders(Response.json({ success: true, created: true, cohort }, { status: 201 }), rateLimit.result)
         }
 
         // Update existing fingerprint
@@ -145,7 +145,7 @@ export const behaviorUpdateHandler: PayloadHandler = async (req: PayloadRequest)
             },
         })
 
-        return Response.json({ success: true, metrics: updatedMetrics }, { status: 200 })
+        return withRateLimitHeaders(Response.json({ success: true, metrics: updatedMetrics }, { status: 200 }), rateLimit.result)
     } catch (error) {
         console.error('[BehaviorUpdate] Failed:', error)
         return internalError('Failed to update behavior metrics')
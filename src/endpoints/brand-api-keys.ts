@@ -0,0 +1,319 @@
+/**
+ * Brand Portal API Key Endpoints
+ *
+ * Enterprise brand users issue keys for programmatic access to the Brand
+ * Dashboard endpoints (send as `X-API-Key` or `Authorization: Bearer`):
+ * - List: Your keys (team managers see the whole team's)
+ * - Create: Issue a key scoped to some or all of your brands
+ * - Rotate: Issue a replacement; the old key keeps working for a grace period
+ * - Revoke: Disable a key immediately
+ *
+ * The plaintext key is returned once, on create / rotate. Viewers cannot
+ * hold keys.
+ */
+
+import type { Endpoint, PayloadRequest, Where } from 'payload'
+import type { BrandApiKey, BrandUser } from '../payload-types'
+import {
+    validationError,
+    unauthorizedError,
+    forbiddenError,
+    notFoundError,
+    internalError,
+} from '../utilities/api-response'
+import {
+    brandIdsOf,
+    canRevokeMember,
+    featuresForTier,
+    generateApiKey,
+    getBrandSessionUser,
+    relationId,
+} from '../utilities/brand-access'
+
+// Active keys per brand user
+const MAX_ACTIVE_KEYS = 10
+
+// How long a rotated key keeps working (24 hours)
+const ROTATION_GRACE_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The signed-in brand user allowed to hold API keys, or an error response
+ */
+function requireApiUser(req: PayloadRequest): BrandUser | Response {
+    const user = getBrandSessionUser(req)
+    if (!user) return unauthorizedError('Not authenticated')
+    if (!featuresForTier(user.subscription, user.role).canAccessApi) return forbiddenError('API access requires an Enterprise subscription')
+    if (user.role === 'viewer') return forbiddenError('Viewers cannot hold API keys')
+    return user
+}
+
+/**
+ * A key the user may manage: their own, or for team managers a teammate's
+ * they could revoke (admins can't touch the owner's or other admins' keys)
+ */
+async function findManagedKey(req: PayloadRequest, user: BrandUser): Promise<BrandApiKey | null> {
+    const keyId = Number((req.routeParams as Record<string, string>)?.keyId)
+    if (!keyId) return null
+    const key = await req.payload.findByID({
+        collection: 'brand-api-keys',
+        id: keyId,
+        depth: 1,
+        overrideAccess: true,
+    }).catch(() => null)
+    if (!key) return null
+
+    const owner = key.owner as BrandUser | number
+    if (relationId(owner) === user.id) return key
+    if (typeof owner !== 'object' || relationId(owner.brand) !== relationId(user.brand)) return null
+    if (!featuresForTier(user.subscription, user.role).canManageTeam) return null
+    return canRevokeMember(user.role, owner.role) ? key : null
+}
+
+function serializeKey(key: BrandApiKey) {
+    return {
+        id: key.id,
+        name: key.name,
+        keyPrefix: key.keyPrefix,
+        owner: relationId(key.owner as number | { id: number }),
+        brands: (key.brands || []).map(b => relationId(b as number | { id: number })),
+        tier: key.tier,
+        status: key.status,
+        expiresAt: key.expiresAt,
+        replacedBy: relationId(key.replacedBy as number | { id: number } | null | undefined),
+        usage: {
+            period: key.usagePeriod,
+            requests: key.periodUsage || 0,
+            monthlyQuota: key.monthlyQuota,
+            byEndpoint: key.endpointUsage || {},
+            total: key.usageCount || 0,
+            lastUsedAt: key.lastUsedAt,
+        },
+        createdAt: key.createdAt,
+    }
+}
+
+async function countActiveKeys(req: PayloadRequest, ownerId: number): Promise<number> {
+    const { totalDocs } = await req.payload.count({
+        collection: 'brand-api-keys',
+        where: {
+            and: [
+                { owner: { equals: ownerId } },
+                { status: { equals: 'active' } },
+            ],
+        },
+        overrideAccess: true,
+    })
+    return totalDocs
+}
+
+/**
+ * List API Keys
+ * GET /api/brand-api-keys
+ */
+export const brandApiKeysListHandler: Endpoint = {
+    path: '/brand-api-keys',
+    method: 'get',
+    handler: async (req) => {
+        try {
+            const user = getBrandSessionUser(req)
+            if (!user) return unauthorizedError('Not authenticated')
+
+            const where: Where = featuresForTier(user.subscription, user.role).canManageTeam
+                ? { 'owner.brand': { equals: relationId(user.brand) } }
+                : { owner: { equals: user.id } }
+
+            const { docs } = await req.payload.find({
+                collection: 'brand-api-keys',
+                where,
+                sort: '-createdAt',
+                pagination: false,
+                depth: 0,
+                overrideAccess: true,
+            })
+
+            return Response.json({ success: true, keys: docs.map(serializeKey) })
+        } catch (error) {
+            console.error('[BrandApiKeys] List error:', error)
+            return internalError('Failed to load API keys')
+        }
+    },
+}
+
+/**
+ * Create API Key
+ * POST /api/brand-api-keys
+ *
+ * Body: { name, brands?: number[] } - brands default to all of yours
+ */
+export const brandApiKeysCreateHandler: Endpoint = {
+    path: '/brand-api-keys',
+    method: 'post',
+    handler: async (req) => {
+        const user = requireApiUser(req)
+        if (user instanceof Response) return user
+
+        try {
+            const body = await req.json?.() || {}
+            const name = typeof body.name === 'string' ? body.name.trim() : ''
+            if (!name) {
+                return validationError('Key name is required')
+            }
+
+            const allowed = brandIdsOf(user)
+            const brands = Array.isArray(body.brands) && body.brands.length > 0
+                ? [...new Set(body.brands.map(Number))] as number[]
+                : allowed
+            const outside = brands.filter(id => !allowed.includes(id))
+            if (outside.length > 0) {
+                return forbiddenError(`No access to brands: ${outside.join(', ')}`)
+            }
+
+            if (await countActiveKeys(req, user.id) >= MAX_ACTIVE_KEYS) {
+                return validationError(`You can have at most ${MAX_ACTIVE_KEYS} active API keys. Revoke one first.`)
+            }
+
+            const generated = generateApiKey()
+            const key = await req.payload.create({
+                collection: 'brand-api-keys',
+                data: {
+                    name,
+                    keyPrefix: generated.keyPrefix,
+                    keyHash: generated.keyHash,
+                    owner: user.id,
+                    brands,
+                    tier: user.subscription,
+                    status: 'active',
+                },
+                overrideAccess: true,
+            })
+
+            console.log(`[BrandApiKeys] ${user.id} created key ${key.id} (${generated.keyPrefix}...)`)
+
+            return Response.json({
+                success: true,
+                key: generated.key,
+                apiKey: serializeKey(key),
+                message: 'Store this key now - it will not be shown again.',
+            })
+        } catch (error) {
+            console.error('[BrandApiKeys] Create error:', error)
+            return internalError('Failed to create API key')
+        }
+    },
+}
+
+/**
+ * Rotate API Key
+ * POST /api/brand-api-keys/:keyId/rotate
+ *
+ * Issues a replacement with the same name and brands (re-checked against
+ * current access) at the caller's current tier.
+ */
+export const brandApiKeysRotateHandler: Endpoint = {
+    path: '/brand-api-keys/:keyId/rotate',
+    method: 'post',
+    handler: async (req) => {
+        const user = requireApiUser(req)
+        if (user instanceof Response) return user
+
+        try {
+            const existing = await findManagedKey(req, user)
+            if (!existing) return notFoundError('API key')
+            if (relationId(existing.owner as number | { id: number }) !== user.id) {
+                return forbiddenError('Only the key owner can rotate it')
+            }
+            if (existing.status !== 'active' || existing.replacedBy) {
+                return validationError('Only active keys that have not been rotated can be rotated')
+            }
+
+            const allowed = brandIdsOf(user)
+            const brands = (existing.brands || [])
+                .map(b => relationId(b as number | { id: number }))
+                .filter((id): id is number => id !== null && allowed.includes(id))
+            if (brands.length === 0) {
+                return forbiddenError('You no longer have access to any of this key\'s brands')
+            }
+
+            const generated = generateApiKey()
+            const replacement = await req.payload.create({
+                collection: 'brand-api-keys',
+                data: {
+                    name: existing.name,
+                    keyPrefix: generated.keyPrefix,
+                    keyHash: generated.keyHash,
+                    owner: user.id,
+                    brands,
+                    tier: user.subscription,
+                    status: 'active',
+                    monthlyQuota: existing.monthlyQuota,
+                },
+                overrideAccess: true,
+            })
+
+            const graceUntil = new Date(Date.now() + ROTATION_GRACE_MS).toISOString()
+            const expiresAt = existing.expiresAt && existing.expiresAt < graceUntil ? existing.expiresAt : graceUntil
+            await req.payload.update({
+                collection: 'brand-api-keys',
+                id: existing.id,
+                data: { replacedBy: replacement.id, expiresAt },
+                overrideAccess: true,
+            })
+
+            console.log(`[BrandApiKeys] ${user.id} rotated key ${existing.id} -> ${replacement.id}`)
+
+            return Response.json({
+                success: true,
+                key: generated.key,
+                apiKey: serializeKey(replacement),
+                previousKey: { id: existing.id, expiresAt },
+                message: 'Store this key now - it will not be shown again.',
+            })
+        } catch (error) {
+            console.error('[BrandApiKeys] Rotate error:', error)
+            return internalError('Failed to rotate API key')
+        }
+    },
+}
+
+/**
+ * Revoke API Key
+ * DELETE /api/brand-api-keys/:keyId
+ */
+export const brandApiKeysRevokeHandler: Endpoint = {
+    path: '/brand-api-keys/:keyId',
+    method: 'delete',
+    handler: async (req) => {
+        try {
+            const user = getBrandSessionUser(req)
+            if (!user) return unauthorizedError('Not authenticated')
+
+            const key = await findManagedKey(req, user)
+            if (!key) return notFoundError('API key')
+            if (key.status === 'revoked') {
+                return Response.json({ success: true, alreadyRevoked: true })
+            }
+
+            await req.payload.update({
+                collection: 'brand-api-keys',
+                id: key.id,
+                data: { status: 'revoked', revokedAt: new Date().toISOString(), revokedBy: user.id },
+                overrideAccess: true,
+            })
+
+            console.log(`[BrandApiKeys] ${user.id} revoked key ${key.id}`)
+
+            return Response.json({ success: true, id: key.id, status: 'revoked' })
+        } catch (error) {
+            console.error('[BrandApiKeys] Revoke error:', error)
+            return internalError('Failed to revoke API key')
+        }
+    },
+}
+
+// Export all handlers
+export const brandApiKeyEndpoints = [
+    brandApiKeysListHandler,
+    brandApiKeysCreateHandler,
+    brandApiKeysRotateHandler,
+    brandApiKeysRevokeHandler,
+]
@@ -8,6 +8,8 @@
  * - Forgot Password: Password reset flow
  * - Refresh Token: Extend session
  *
+ * Team management and API keys live in brand-team.ts and brand-api-keys.ts.
+ *
  * @openapi
  * components:
  *   schemas:
@@ -120,9 +122,9 @@ export const brandLoginHandler: Endpoint = {
     handler: async (req) => {
         // Apply rate limiting (using Vercel KV for serverless)
         const rateLimitKey = getRateLimitKey(req as unknown as Request)
-        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN)
+        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN, req)
         if (!rateLimit.allowed) {
-            return rateLimitResponse(rateLimit.resetAt)
+            return rateLimitResponse(rateLimit)
         }
 
         try {
@@ -152,6 +154,7 @@ export const brandLoginHandler: Endpoint = {
                 role: string
                 subscription: string
                 isVerified: boolean
+                accessRevokedAt?: string | null
                 features: any
             }
 
@@ -160,6 +163,11 @@ export const brandLoginHandler: Endpoint = {
                 return forbiddenError('Account not verified. Please check your email and verify your account.')
             }
 
+            // Team admins can revoke access without deleting the account
+            if (user.accessRevokedAt) {
+                return forbiddenError('Your access to this brand portal has been revoked. Contact your team admin.')
+            }
+
             // Get brand details
             let brandData = null
             if (user.brand) {
@@ -213,9 +221,9 @@ export const brandSignupHandler: Endpoint = {
     handler: async (req) => {
         // Apply rate limiting (more restrictive for signup to prevent abuse)
         const rateLimitKey = getRateLimitKey(req as unknown as Request)
-        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN)
+        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN, req)
         if (!rateLimit.allowed) {
-            return rateLimitResponse(rateLimit.resetAt)
+            return rateLimitResponse(rateLimit)
         }
 
         try {
@@ -6,9 +6,14 @@
  * - Products: Brand's product catalog with scores
  * - Competitors: Competitive benchmarking (Pro+)
  * - Demand Signals: Consumer interest signals (Pro+)
+ *
+ * Each endpoint accepts a brand user session or a brand API key
+ * (`X-API-Key` / `Authorization: Bearer`, see brand-api-keys.ts). Key requests
+ * are limited to the key's brands and tier and metered per key.
  */
 
 import type { Endpoint, PayloadRequest } from 'payload'
+import { authenticateApiKey, readApiKey, recordApiKeyUsage } from '../utilities/brand-access'
 
 /**
  * Brand user with feature access permissions
@@ -135,26 +140,43 @@ interface BrandAccessResult {
     authorized: boolean
     user?: BrandUser
     error?: string
+    /** HTTP status to respond with when not authorized */
+    status?: number
+    /** Set when the request was authenticated with an API key */
+    apiKeyId?: number
+}
+
+interface BrandAccessOptions {
+    /** Accept brand API keys as well as sessions */
+    allowApiKey?: boolean
 }
 
 /**
  * Middleware to verify brand user authentication and access
  */
-async function verifyBrandAccess(
+export async function verifyBrandAccess(
     req: PayloadRequest,
-    brandId: string | number
+    brandId: string | number,
+    options: BrandAccessOptions = {}
 ): Promise<BrandAccessResult> {
     // Check authentication
-    const reqUser = req.user as { collection?: string } | undefined
+    const reqUser = req.user as { collection?: string; accessRevokedAt?: string | null } | undefined
     if (!reqUser || reqUser.collection !== 'brand-users') {
-        return { authorized: false, error: 'Authentication required' }
+        const apiKey = options.allowApiKey ? readApiKey(req.headers) : null
+        if (!apiKey) {
+            return { authorized: false, error: 'Authentication required', status: 401 }
+        }
+        return verifyApiKeyAccess(req, apiKey, Number(brandId))
     }
 
     const user = reqUser as unknown as BrandUser
 
     // Check verification status
     if (!user.isVerified) {
-        return { authorized: false, error: 'Account not verified' }
+        return { authorized: false, error: 'Account not verified', status: 403 }
+    }
+    if (reqUser.accessRevokedAt) {
+        return { authorized: false, error: 'Portal access revoked', status: 403 }
     }
 
     // Check brand access
@@ -168,12 +190,39 @@ async function verifyBrandAccess(
         additionalBrandIds.includes(requestedBrandId)
 
     if (!hasAccess) {
-        return { authorized: false, error: 'Access denied to this brand' }
+        return { authorized: false, error: 'Access denied to this brand', status: 403 }
     }
 
     return { authorized: true, user }
 }
 
+/**
+ * Authenticate an API key for one brand and meter the request
+ */
+async function verifyApiKeyAccess(
+    req: PayloadRequest,
+    apiKey: string,
+    brandId: number
+): Promise<BrandAccessResult> {
+    const auth = await authenticateApiKey(req.payload, apiKey)
+    if (!auth.principal) {
+        return { authorized: false, error: auth.error, status: auth.status }
+    }
+
+    const { principal } = auth
+    if (principal.brand !== brandId && !principal.additionalBrands.includes(brandId)) {
+        return { authorized: false, error: 'Access denied to this brand', status: 403 }
+    }
+
+    // Metered per endpoint, e.g. "analytics"
+    const endpoint = new URL(req.url || '', 'http://localhost').pathname.split('/').filter(Boolean).pop() || 'unknown'
+    if (!(await recordApiKeyUsage(req.payload, principal.apiKeyId as number, endpoint))) {
+        return { authorized: false, error: 'Monthly API quota exceeded for this key', status: 429 }
+    }
+
+    return { authorized: true, user: principal, apiKeyId: principal.apiKeyId }
+}
+
 /**
  * Get Brand Analytics
  * GET /api/brand/:brandId/analytics
@@ -190,9 +239,9 @@ export const brandAnalyticsHandler: Endpoint = {
                 return Response.json({ error: 'Brand ID required' }, { status: 400 })
             }
 
-            const access = await verifyBrandAccess(req, brandId)
+            const access = await verifyBrandAccess(req, brandId, { allowApiKey: true })
             if (!access.authorized) {
-                return Response.json({ error: access.error }, { status: access.error === 'Authentication required' ? 401 : 403 })
+                return Response.json({ error: access.error }, { status: access.status ?? 403 })
             }
 
             // Get query params for date range
@@ -291,9 +340,9 @@ export const brandProductsHandler: Endpoint = {
                 return Response.json({ error: 'Brand ID required' }, { status: 400 })
             }
 
-            const access = await verifyBrandAccess(req, brandId)
+            const access = await verifyBrandAccess(req, brandId, { allowApiKey: true })
             if (!access.authorized) {
-                return Response.json({ error: access.error }, { status: access.error === 'Authentication required' ? 401 : 403 })
+                return Response.json({ error: access.error }, { status: access.status ?? 403 })
             }
 
             // Get query params for pagination and filtering
@@ -393,9 +442,9 @@ export const brandCompetitorsHandler: Endpoint = {
                 return Response.json({ error: 'Brand ID required' }, { status: 400 })
             }
 
-            const access = await verifyBrandAccess(req, brandId)
+            const access = await verifyBrandAccess(req, brandId, { allowApiKey: true })
             if (!access.authorized) {
-                return Response.json({ error: access.error }, { status: access.error === 'Authentication required' ? 401 : 403 })
+                return Response.json({ error: access.error }, { status: access.status ?? 403 })
             }
 
             // Check feature access
@@ -562,9 +611,9 @@ export const brandDemandSignalsHandler: Endpoint = {
                 return Response.json({ error: 'Brand ID required' }, { status: 400 })
             }
 
-            const access = await verifyBrandAccess(req, brandId)
+            const access = await verifyBrandAccess(req, brandId, { allowApiKey: true })
             if (!access.authorized) {
-                return Response.json({ error: access.error }, { status: access.error === 'Authentication required' ? 401 : 403 })
+                return Response.json({ error: access.error }, { status: access.status ?? 403 })
             }
 
             // Check feature access
@@ -708,9 +757,9 @@ export const brandOverviewHandler: Endpoint = {
                 return Response.json({ error: 'Brand ID required' }, { status: 400 })
             }
 
-            const access = await verifyBrandAccess(req, brandId)
+            const access = await verifyBrandAccess(req, brandId, { allowApiKey: true })
             if (!access.authorized) {
-                return Response.json({ error: access.error }, { status: access.error === 'Authentication required' ? 401 : 403 })
+                return Response.json({ error: access.error }, { status: access.status ?? 403 })
             }
 
             // Get brand
@@ -0,0 +1,321 @@
+/**
+ * Brand Portal Dispute Endpoints
+ *
+ * Lets verified brand users file and track Right of Reply disputes against
+ * our reports, using their Brand Portal session (see brand-auth.ts):
+ * - List: Disputes filed for a brand, with SLA status
+ * - Submit: File a new dispute for one of the brand's products
+ * - Detail: Status, templated response and resolution for one dispute
+ *
+ * Internal review fields (notes, findings, assignee, audit log) are never
+ * returned to brand users.
+ */
+
+import type { Endpoint, PayloadRequest } from 'payload'
+import { verifyBrandAccess } from './brand-dashboard'
+import { assessDisputeSla, buildManufacturerReply } from '../utilities/dispute-sla'
+import { escapeHtml } from '../utilities/escape-html'
+import { checkRateLimitAsync, getRateLimitKey, rateLimitResponse, RateLimits } from '../utilities/rate-limiter'
+
+/**
+ * Dispute record as stored in manufacturer-disputes
+ */
+interface DisputeRecord {
+    id: number
+    referenceNumber: string
+    status: string
+    priority?: 'low' | 'normal' | 'high' | 'urgent' | null
+    disputeType: string
+    description: string
+    product?: number | { id: number; name?: string; slug?: string } | null
+    productReference?: string | null
+    sampleId?: string | null
+    submittedAt?: string | null
+    slaDeadline?: string | null
+    slaBreached?: boolean | null
+    responseDate?: string | null
+    resolvedDate?: string | null
+    resolutionSummary?: string | null
+    reportUpdated?: boolean | null
+    updateDescription?: string | null
+}
+
+/**
+ * Brand user fields needed to file a dispute
+ */
+interface DisputeBrandUser {
+    id: number
+    email: string
+    name: string
+    jobTitle?: string | null
+    phone?: string | null
+}
+
+const DISPUTE_TYPES = ['methodology', 'sample', 'accuracy', 'reformulation', 'label', 'other']
+const MIN_DESCRIPTION_LENGTH = 50
+
+function getRouteParam(req: PayloadRequest, name: string): string | undefined {
+    return (req.routeParams as Record<string, string>)?.[name]
+}
+
+function accessErrorResponse(error?: string): Response {
+    return Response.json({ error }, { status: error === 'Authentication required' ? 401 : 403 })
+}
+
+/**
+ * Brand-facing view of a dispute
+ */
+function toPortalDispute(dispute: DisputeRecord) {
+    const product = typeof dispute.product === 'object' && dispute.product ? dispute.product : null
+    const productName = product?.name || dispute.productReference
+    const sla = assessDisputeSla(dispute)
+
+    return {
+        referenceNumber: dispute.referenceNumber,
+        status: dispute.status,
+        disputeType: dispute.disputeType,
+        product: product ? { id: product.id, name: product.name, slug: product.slug } : null,
+        productReference: dispute.productReference || null,
+        sampleId: dispute.sampleId || null,
+        submittedAt: dispute.submittedAt,
+        slaDeadline: dispute.slaDeadline,
+        slaStatus: sla.state,
+        responseDate: dispute.responseDate || null,
+        resolvedDate: dispute.resolvedDate || null,
+        reportUpdated: !!dispute.reportUpdated,
+        resolutionSummary: sla.state === 'closed' ? dispute.resolutionSummary || null : null,
+        message: buildManufacturerReply(dispute, productName),
+    }
+}
+
+/**
+ * List Brand Disputes
+ * GET /api/brand/:brandId/disputes
+ */
+export const brandDisputesListHandler: Endpoint = {
+    path: '/brand/:brandId/disputes',
+    method: 'get',
+    handler: async (req) => {
+        try {
+            const brandId = getRouteParam(req, 'brandId')
+            if (!brandId) {
+                return Response.json({ error: 'Brand ID required' }, { status: 400 })
+            }
+
+            const access = await verifyBrandAccess(req, brandId)
+            if (!access.authorized) return accessErrorResponse(access.error)
+
+            const url = new URL(req.url || '', 'http://localhost')
+            const page = parseInt(url.searchParams.get('page') || '1')
+            const limit = Math.min(parseInt(url.searchParams.get('limit') || '20'), 100)
+
+            const disputes = await req.payload.find({
+                collection: 'manufacturer-disputes',
+                where: { brand: { equals: Number(brandId) } },
+                sort: '-submittedAt',
+                page,
+                limit,
+                depth: 1,
+                overrideAccess: true,
+            })
+
+            return Response.json({
+                disputes: (disputes.docs as unknown as DisputeRecord[]).map(toPortalDispute),
+                pagination: {
+                    page: disputes.page,
+                    totalPages: disputes.totalPages,
+                    totalDocs: disputes.totalDocs,
+                },
+            })
+        } catch (error) {
+            console.error('[BrandDisputes] List error:', error)
+            return Response.json({ error: 'Failed to fetch disputes' }, { status: 500 })
+        }
+    },
+}
+
+/**
+ * Submit Brand Dispute
+ * POST /api/brand/:brandId/disputes
+ *
+ * Body: { productId?, productReference?, sampleId?, disputeType, description,
+ *         contactPhone?, verificationCheckbox: true }
+ */
+export const brandDisputeSubmitHandler: Endpoint = {
+    path: '/brand/:brandId/disputes',
+    method: 'post',
+    handler: async (req) => {
+        try {
+            const brandId = getRouteParam(req, 'brandId')
+            if (!brandId) {
+                return Response.json({ error: 'Brand ID required' }, { status: 400 })
+            }
+
+            const access = await verifyBrandAccess(req, brandId)
+            if (!access.authorized) return accessErrorResponse(access.error)
+
+            const user = req.user as unknown as DisputeBrandUser
+            const rateLimit = await checkRateLimitAsync(
+                getRateLimitKey(req as unknown as Request, `brand-${user.id}`),
+                RateLimits.DISPUTE_SUBMIT,
+                req
+            )
+            if (!rateLimit.allowed) {
+                return rateLimitResponse(rateLimit)
+            }
+
+            const body = await req.json?.() || {}
+            const { productId, productReference, sampleId, disputeType, description, contactPhone, verificationCheckbox } = body
+
+            if (!DISPUTE_TYPES.includes(disputeType)) {
+                return Response.json({ error: `disputeType must be one of: ${DISPUTE_TYPES.join(', ')}` }, { status: 400 })
+            }
+            if (typeof description !== 'string' || description.trim().length < MIN_DESCRIPTION_LENGTH) {
+                return Response.json({ error: `description must be at least ${MIN_DESCRIPTION_LENGTH} characters` }, { status: 400 })
+            }
+            if (verificationCheckbox !== true) {
+                return Response.json({ error: 'You must confirm you are authorized to submit on behalf of this brand' }, { status: 400 })
+            }
+            if (!productId && !productReference) {
+                return Response.json({ error: 'productId or productReference is required' }, { status: 400 })
+            }
+
+            const phone = contactPhone || user.phone
+            if (!phone) {
+                return Response.json({ error: 'contactPhone is required' }, { status: 400 })
+            }
+
+            const brand = await req.payload.findByID({
+                collection: 'brands',
+                id: Number(brandId),
+                depth: 0,
+            })
+            if (!brand) {
+                return Response.json({ error: 'Brand not found' }, { status: 404 })
+            }
+
+            // Brands may only dispute reports on their own products
+            let product: { id: number; name: string; brand?: string | null } | null = null
+            if (productId) {
+                try {
+                    product = await req.payload.findByID({
+                        collection: 'products',
+                        id: Number(productId),
+                        depth: 0,
+                        overrideAccess: true,
+                    })
+                } catch {
+                    return Response.json({ error: 'Product not found' }, { status: 404 })
+                }
+                if (product.brand?.trim().toLowerCase() !== brand.name.trim().toLowerCase()) {
+                    return Response.json({ error: 'Product does not belong to this brand' }, { status: 403 })
+                }
+            }
+
+            const created = await req.payload.create({
+                collection: 'manufacturer-disputes',
+                data: {
+                    referenceNumber: '',
+                    status: 'pending',
+                    companyName: brand.name,
+                    contactName: user.name,
+                    contactTitle: user.jobTitle || undefined,
+                    contactEmail: user.email,
+                    contactPhone: phone,
+                    // Brand Portal accounts are verified against the brand before access is granted
+                    emailDomainVerified: true,
+                    brand: brand.id,
+                    submittedBy: user.id,
+                    product: product?.id,
+                    productReference: productReference || product?.name,
+                    sampleId,
+                    disputeType,
+                    description: description.trim(),
+                    submittedAt: new Date().toISOString(),
+                    ipAddress: req.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || undefined,
+                    userAgent: req.headers.get('user-agent') || undefined,
+                    verificationCheckbox: true,
+                },
+                overrideAccess: true,
+            })
+
+            const dispute = toPortalDispute({ ...(created as unknown as DisputeRecord), product })
+
+            try {
+                await req.payload.sendEmail({
+                    to: user.email,
+                    subject: `Dispute received: ${dispute.referenceNumber}`,
+                    html: `
+                        <p>Hi ${escapeHtml(user.name || '')},</p>
+                        <p>${escapeHtml(dispute.message)}</p>
+                        <p>You can track this dispute in the Brand Portal.</p>
+                        <p>Best,<br>The Product Report Team</p>
+                    `,
+                })
+            } catch (emailError) {
+                console.error('[BrandDisputes] Failed to send acknowledgement email:', emailError)
+            }
+
+            console.log(`[BrandDisputes] ${dispute.referenceNumber} submitted by brand user ${user.id} for brand ${brand.id}`)
+
+            return Response.json({ success: true, dispute }, { status: 201 })
+        } catch (error) {
+            console.error('[BrandDisputes] Submit error:', error)
+            return Response.json({ error: 'Failed to submit dispute' }, { status: 500 })
+        }
+    },
+}
+
+/**
+ * Get Brand Dispute
+ * GET /api/brand/:brandId/disputes/:referenceNumber
+ */
+export const brandDisputeDetailHandler: Endpoint = {
+    path: '/brand/:brandId/disputes/:referenceNumber',
+    method: 'get',
+    handler: async (req) => {
+        try {
+            const brandId = getRouteParam(req, 'brandId')
+            const referenceNumber = getRouteParam(req, 'referenceNumber')
+            if (!brandId || !referenceNumber) {
+                return Response.json({ error: 'Brand ID and reference number required' }, { status: 400 })
+            }
+
+            const access = await verifyBrandAccess(req, brandId)
+            if (!access.authorized) return accessErrorResponse(access.error)
+
+            const result = await req.payload.find({
+                collection: 'manufacturer-disputes',
+                where: {
+                    and: [
+                        { referenceNumber: { equals: referenceNumber } },
+                        { brand: { equals: Number(brandId) } },
+                    ],
+                },
+                limit: 1,
+                depth: 1,
+                overrideAccess: true,
+            })
+
+            const dispute = result.docs[0] as unknown as DisputeRecord | undefined
+            if (!dispute) {
+                return Response.json({ error: 'Dispute not found' }, { status: 404 })
+            }
+
+            return Response.json({
+                ...toPortalDispute(dispute),
+                description: dispute.description,
+            })
+        } catch (error) {
+            console.error('[BrandDisputes] Detail error:', error)
+            return Response.json({ error: 'Failed to fetch dispute' }, { status: 500 })
+        }
+    },
+}
+
+// Export all handlers
+export const brandDisputeEndpoints = [
+    brandDisputesListHandler,
+    brandDisputeSubmitHandler,
+    brandDisputeDetailHandler,
+]
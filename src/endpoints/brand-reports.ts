@@ -0,0 +1,160 @@
+/**
+ * Brand Report Archive Endpoints
+ *
+ * Past benchmark reports for the Brand Intelligence Portal:
+ * - List: Archived issues for a brand
+ * - Download: An issue as PDF or HTML
+ *
+ * Issues are generated and emailed weekly by the brand-reports queue task
+ * (see utilities/brand-reports). Competitive editions are only listed for
+ * users with competitor access. Accepts brand sessions and API keys, like
+ * the dashboard endpoints.
+ */
+
+import type { Endpoint, Where } from 'payload'
+import { verifyBrandAccess } from './brand-dashboard'
+import {
+    renderBrandReportHtml,
+    renderBrandReportPdf,
+    reportFileName,
+    type ArchivedBrandReport,
+} from '../utilities/brand-reports'
+
+/**
+ * List Brand Reports
+ * GET /api/brand/:brandId/reports
+ *
+ * Query: ?limit=12&page=1
+ */
+export const brandReportsListHandler: Endpoint = {
+    path: '/brand/:brandId/reports',
+    method: 'get',
+    handler: async (req) => {
+        try {
+            const brandId = (req.routeParams as Record<string, string>)?.brandId
+            if (!brandId) {
+                return Response.json({ error: 'Brand ID required' }, { status: 400 })
+            }
+
+            const access = await verifyBrandAccess(req, brandId, { allowApiKey: true })
+            if (!access.authorized) {
+                return Response.json({ error: access.error }, { status: access.status ?? 403 })
+            }
+
+            const url = new URL(req.url || '', 'http://localhost')
+            const limit = Math.min(parseInt(url.searchParams.get('limit') || '12') || 12, 52)
+            const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1)
+
+            const where: Where = {
+                and: [
+                    { brand: { equals: Number(brandId) } },
+                    ...(access.user?.features?.canViewCompetitors ? [] : [{ edition: { equals: 'standard' } }]),
+                ],
+            }
+
+            const reports = await req.payload.find({
+                collection: 'brand-reports',
+                where,
+                sort: '-periodStart',
+                limit,
+                page,
+                depth: 0,
+                overrideAccess: true,
+            })
+
+            return Response.json({
+                reports: (reports.docs as unknown as ArchivedBrandReport[]).map(r => ({
+                    id: r.id,
+                    issueNumber: r.issueNumber,
+                    edition: r.edition,
+                    period: r.report.period,
+                    deliveredAt: r.deliveredAt,
+                    downloads: {
+                        pdf: `/api/brand/${brandId}/reports/${r.id}/pdf`,
+                        html: `/api/brand/${brandId}/reports/${r.id}/html`,
+                    },
+                })),
+                pagination: {
+                    page: reports.page,
+                    totalPages: reports.totalPages,
+                    totalDocs: reports.totalDocs,
+                },
+            })
+        } catch (error) {
+            console.error('[BrandReports] List error:', error)
+            return Response.json({ error: 'Failed to fetch reports' }, { status: 500 })
+        }
+    },
+}
+
+/**
+ * Download Brand Report
+ * GET /api/brand/:brandId/reports/:reportId/:format
+ *
+ * format: pdf | html
+ */
+export const brandReportDownloadHandler: Endpoint = {
+    path: '/brand/:brandId/reports/:reportId/:format',
+    method: 'get',
+    handler: async (req) => {
+        try {
+            const { brandId, reportId, format } = (req.routeParams || {}) as Record<string, string>
+            if (!brandId || !reportId) {
+                return Response.json({ error: 'Brand ID and report ID required' }, { status: 400 })
+            }
+            if (format !== 'pdf' && format !== 'html') {
+                return Response.json({ error: 'Format must be pdf or html' }, { status: 400 })
+            }
+
+            const access = await verifyBrandAccess(req, brandId, { allowApiKey: true })
+            if (!access.authorized) {
+                return Response.json({ error: access.error }, { status: access.status ?? 403 })
+            }
+
+            const report = await req.payload.findByID({
+                collection: 'brand-reports',
+                id: Number(reportId),
+                depth: 0,
+                overrideAccess: true,
+            }).catch(() => null) as ArchivedBrandReport | null
+
+            const reportBrand = typeof report?.brand === 'object' ? report.brand.id : report?.brand
+            if (!report || reportBrand !== Number(brandId)) {
+                return Response.json({ error: 'Report not found' }, { status: 404 })
+            }
+            if (report.edition === 'competitive' && !access.user?.features?.canViewCompetitors) {
+                return Response.json({
+                    error: 'Competitive reports require Pro subscription or higher',
+                    code: 'FEATURE_LOCKED',
+                    requiredTier: 'pro',
+                }, { status: 403 })
+            }
+
+            const filename = reportFileName(report.report, format)
+            if (format === 'html') {
+                return new Response(renderBrandReportHtml(report.report), {
+                    headers: {
+                        'Content-Type': 'text/html; charset=utf-8',
+                        'Content-Disposition': `inline; filename="${filename}"`,
+                    },
+                })
+            }
+
+            return new Response(new Uint8Array(renderBrandReportPdf(report.report)), {
+                headers: {
+                    'Content-Type': 'application/pdf',
+                    'Content-Disposition': `attachment; filename="${filename}"`,
+                },
+            })
+        } catch (error) {
+            console.error('[BrandReports] Download error:', error)
+            return Response.json({ error: 'Failed to render report' }, { status: 500 })
+        }
+    },
+}
+
+// Export all handlers
+export const brandReportEndpoints = [
+    brandReportsListHandler,
+    brandReportDownloadHandler,
+]
@@ -0,0 +1,409 @@
+/**
+ * Brand Portal Team Endpoints
+ *
+ * Lets brand owners and admins (features.canManageTeam) run their own team:
+ * - List: Everyone on the brand, with pending invitations
+ * - Invite: Create an invited account and email a one-time link
+ * - Accept Invite: Invitee sets a password and is verified
+ * - Change Role: Re-role a member (owners manage everyone, admins manage
+ *   analysts and viewers)
+ * - Revoke: Block a member's login and revoke their API keys
+ *
+ * Invitees join the inviter's primary brand and subscription tier.
+ */
+
+import type { Endpoint, PayloadRequest } from 'payload'
+import crypto from 'crypto'
+import type { BrandUser } from '../payload-types'
+import {
+    validationError,
+    unauthorizedError,
+    forbiddenError,
+    notFoundError,
+    conflictError,
+    internalError,
+} from '../utilities/api-response'
+import {
+    BRAND_ROLES,
+    canAssignRole,
+    canRevokeMember,
+    featuresForTier,
+    getBrandSessionUser,
+    isBrandRole,
+    relationId,
+} from '../utilities/brand-access'
+import { escapeHtml } from '../utilities/escape-html'
+import { checkRateLimitAsync, getRateLimitKey, rateLimitResponse, RateLimits } from '../utilities/rate-limiter'
+
+// Invitation link expiration (7 days)
+const INVITE_TOKEN_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000
+
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * The signed-in team manager, or an error response
+ */
+function requireTeamManager(req: PayloadRequest): BrandUser | Response {
+    const user = getBrandSessionUser(req)
+    if (!user) return unauthorizedError('Not authenticated')
+    if (!featuresForTier(user.subscription, user.role).canManageTeam) return forbiddenError('Only brand owners and admins can manage the team')
+    return user
+}
+
+/**
+ * A member of the manager's brand (primary brand must match)
+ */
+async function findTeamMember(req: PayloadRequest, manager: BrandUser): Promise<BrandUser | null> {
+    const memberId = Number((req.routeParams as Record<string, string>)?.userId)
+    if (!memberId) return null
+    const member = await req.payload.findByID({
+        collection: 'brand-users',
+        id: memberId,
+        depth: 0,
+        overrideAccess: true,
+    }).catch(() => null)
+    if (!member || relationId(member.brand) !== relationId(manager.brand)) return null
+    return member
+}
+
+function maskEmail(email: string): string {
+    return email.replace(/(.{2})(.*)(@.*)/, '$1***$3')
+}
+
+/**
+ * List Team
+ * GET /api/brand-team
+ */
+export const brandTeamListHandler: Endpoint = {
+    path: '/brand-team',
+    method: 'get',
+    handler: async (req) => {
+        try {
+            const user = getBrandSessionUser(req)
+            if (!user) return unauthorizedError('Not authenticated')
+
+            const { docs } = await req.payload.find({
+                collection: 'brand-users',
+                where: { brand: { equals: relationId(user.brand) } },
+                sort: 'name',
+                pagination: false,
+                depth: 0,
+                overrideAccess: true,
+            })
+
+            return Response.json({
+                success: true,
+                canManageTeam: featuresForTier(user.subscription, user.role).canManageTeam,
+                members: docs.map(member => ({
+                    id: member.id,
+                    name: member.name,
+                    email: member.email,
+                    jobTitle: member.jobTitle,
+                    role: member.role,
+                    status: member.accessRevokedAt ? 'revoked' : member.isVerified ? 'active' : 'invited',
+                    invitedBy: relationId(member.invitedBy),
+                    inviteExpiresAt: member.isVerified ? null : member.inviteExpiresAt,
+                    accessRevokedAt: member.accessRevokedAt,
+                    lastLoginAt: member.lastLoginAt,
+                })),
+            })
+        } catch (error) {
+            console.error('[BrandTeam] List error:', error)
+            return internalError('Failed to load team')
+        }
+    },
+}
+
+/**
+ * Invite Team Member
+ * POST /api/brand-team/invite
+ *
+ * Body: { email, name, role?, jobTitle? }
+ */
+export const brandTeamInviteHandler: Endpoint = {
+    path: '/brand-team/invite',
+    method: 'post',
+    handler: async (req) => {
+        const manager = requireTeamManager(req)
+        if (manager instanceof Response) return manager
+
+        try {
+            const body = await req.json?.() || {}
+            const { email, name, jobTitle } = body
+            const role = body.role ?? 'analyst'
+
+            if (!email || !name) {
+                return validationError('Email and name are required')
+            }
+            if (!isBrandRole(role)) {
+                return validationError(`Role must be one of: ${BRAND_ROLES.join(', ')}`)
+            }
+            if (!canAssignRole(manager.role, null, role)) {
+                return forbiddenError(`You cannot invite a member as ${role}`)
+            }
+
+            const existing = await req.payload.find({
+                collection: 'brand-users',
+                where: { email: { equals: email.toLowerCase() } },
+                limit: 1,
+                depth: 0,
+                overrideAccess: true,
+            })
+            if (existing.docs.length > 0) {
+                return conflictError('An account with this email already exists')
+            }
+
+            const inviteToken = crypto.randomBytes(32).toString('hex')
+            const inviteExpiresAt = new Date(Date.now() + INVITE_TOKEN_EXPIRY_MS).toISOString()
+
+            const member = await req.payload.create({
+                collection: 'brand-users',
+                data: {
+                    email: email.toLowerCase(),
+                    // Replaced when the invitation is accepted
+                    password: crypto.randomBytes(24).toString('hex'),
+                    name,
+                    jobTitle: jobTitle || undefined,
+                    brand: relationId(manager.brand) as number,
+                    role,
+                    subscription: manager.subscription,
+                    isVerified: false,
+                    invitedBy: manager.id,
+                    inviteTokenHash: hashToken(inviteToken),
+                    inviteExpiresAt,
+                },
+                overrideAccess: true,
+            })
+
+            const inviteUrl = `https://brands.theproductreport.org/accept-invite?token=${inviteToken}&email=${encodeURIComponent(email)}`
+
+            try {
+                await req.payload.sendEmail({
+                    to: email,
+                    subject: `${manager.name} invited you to the Brand Portal`,
+                    html: `
+                        <h1>You're invited to The Product Report Brand Portal</h1>
+                        <p>Hi ${escapeHtml(String(name))},</p>
+                        <p>${escapeHtml(manager.name)} has invited you to join their brand team as ${role}.</p>
+                        <p><a href="${inviteUrl}" style="display: inline-block; padding: 12px 24px; background: #059669; color: white; text-decoration: none; border-radius: 6px;">Accept Invitation</a></p>
+                        <p>This link expires in 7 days.</p>
+                        <p>Best,<br>The Product Report Team</p>
+                    `,
+                })
+            } catch (emailError) {
+                console.error('[BrandTeam] Failed to send invitation email:', emailError)
+            }
+
+            console.log(`[BrandTeam] ${manager.id} invited ${maskEmail(email)} as ${role} (User ID: ${member.id})`)
+
+            return Response.json({
+                success: true,
+                member: { id: member.id, email: member.email, name: member.name, role, status: 'invited', inviteExpiresAt },
+            })
+        } catch (error) {
+            console.error('[BrandTeam] Invite error:', error)
+            return internalError('Failed to send invitation')
+        }
+    },
+}
+
+/**
+ * Accept Invitation
+ * POST /api/brand-team/accept-invite
+ *
+ * Body: { email, token, password }
+ */
+export const brandTeamAcceptInviteHandler: Endpoint = {
+    path: '/brand-team/accept-invite',
+    method: 'post',
+    handler: async (req) => {
+        const rateLimitKey = getRateLimitKey(req as unknown as Request)
+        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN, req)
+        if (!rateLimit.allowed) {
+            return rateLimitResponse(rateLimit)
+        }
+
+        try {
+            const body = await req.json?.() || {}
+            const { email, token, password } = body
+
+            if (!email || !token || !password) {
+                return validationError('Email, token and password are required')
+            }
+            if (password.length < 8) {
+                return validationError('Password must be at least 8 characters')
+            }
+
+            const { docs } = await req.payload.find({
+                collection: 'brand-users',
+                where: { email: { equals: email.toLowerCase() } },
+                limit: 1,
+                depth: 0,
+                overrideAccess: true,
+                showHiddenFields: true,
+            })
+            const member = docs[0]
+
+            if (!member || member.isVerified || member.accessRevokedAt || !member.inviteTokenHash) {
+                return validationError('Invalid or expired invitation')
+            }
+            const expected = Buffer.from(member.inviteTokenHash)
+            const actual = Buffer.from(hashToken(token))
+            if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+                return validationError('Invalid or expired invitation')
+            }
+            if (member.inviteExpiresAt && new Date(member.inviteExpiresAt) < new Date()) {
+                return validationError('Invitation has expired. Ask your team admin to send a new one.')
+            }
+
+            await req.payload.update({
+                collection: 'brand-users',
+                id: member.id,
+                data: {
+                    password,
+                    isVerified: true,
+                    verifiedAt: new Date().toISOString(),
+                    verificationMethod: 'team_invite',
+                    inviteTokenHash: null,
+                },
+                overrideAccess: true,
+            })
+
+            console.log(`[BrandTeam] Invitation accepted: ${maskEmail(email)}`)
+
+            return Response.json({
+                success: true,
+                message: 'Invitation accepted. You can now log in.',
+            })
+        } catch (error) {
+            console.error('[BrandTeam] Accept invite error:', error)
+            return internalError('Failed to accept invitation')
+        }
+    },
+}
+
+/**
+ * Change Member Role
+ * PATCH /api/brand-team/:userId/role
+ *
+ * Body: { role }
+ */
+export const brandTeamRoleHandler: Endpoint = {
+    path: '/brand-team/:userId/role',
+    method: 'patch',
+    handler: async (req) => {
+        const manager = requireTeamManager(req)
+        if (manager instanceof Response) return manager
+
+        try {
+            const body = await req.json?.() || {}
+            const { role } = body
+
+            if (!isBrandRole(role)) {
+                return validationError(`Role must be one of: ${BRAND_ROLES.join(', ')}`)
+            }
+
+            const member = await findTeamMember(req, manager)
+            if (!member) return notFoundError('Team member')
+            if (member.id === manager.id) {
+                return forbiddenError('You cannot change your own role')
+            }
+            if (!canAssignRole(manager.role, member.role, role)) {
+                return forbiddenError(`You cannot change a ${member.role} to ${role}`)
+            }
+
+            await req.payload.update({
+                collection: 'brand-users',
+                id: member.id,
+                data: { role },
+                overrideAccess: true,
+            })
+
+            console.log(`[BrandTeam] ${manager.id} changed ${member.id} from ${member.role} to ${role}`)
+
+            return Response.json({
+                success: true,
+                member: { id: member.id, role, previousRole: member.role },
+            })
+        } catch (error) {
+            console.error('[BrandTeam] Role change error:', error)
+            return internalError('Failed to change role')
+        }
+    },
+}
+
+/**
+ * Revoke Member Access
+ * POST /api/brand-team/:userId/revoke
+ *
+ * Blocks login and portal access and revokes the member's API keys. The
+ * account is kept so their disputes and history stay attributed.
+ */
+export const brandTeamRevokeHandler: Endpoint = {
+    path: '/brand-team/:userId/revoke',
+    method: 'post',
+    handler: async (req) => {
+        const manager = requireTeamManager(req)
+        if (manager instanceof Response) return manager
+
+        try {
+            const member = await findTeamMember(req, manager)
+            if (!member) return notFoundError('Team member')
+            if (member.id === manager.id) {
+                return forbiddenError('You cannot revoke your own access')
+            }
+            if (!canRevokeMember(manager.role, member.role)) {
+                return forbiddenError(`You cannot revoke a ${member.role}`)
+            }
+            if (member.accessRevokedAt) {
+                return Response.json({ success: true, alreadyRevoked: true })
+            }
+
+            const revokedAt = new Date().toISOString()
+            await req.payload.update({
+                collection: 'brand-users',
+                id: member.id,
+                data: {
+                    accessRevokedAt: revokedAt,
+                    accessRevokedBy: manager.id,
+                    inviteTokenHash: null,
+                },
+                overrideAccess: true,
+            })
+
+            const { docs: keys } = await req.payload.update({
+                collection: 'brand-api-keys',
+                where: {
+                    and: [
+                        { owner: { equals: member.id } },
+                        { status: { equals: 'active' } },
+                    ],
+                },
+                data: { status: 'revoked', revokedAt, revokedBy: manager.id },
+                overrideAccess: true,
+            })
+
+            console.log(`[BrandTeam] ${manager.id} revoked ${member.id} (${keys.length} API keys)`)
+
+            return Response.json({
+                success: true,
+                member: { id: member.id, status: 'revoked', accessRevokedAt: revokedAt },
+                apiKeysRevoked: keys.length,
+            })
+        } catch (error) {
+            console.error('[BrandTeam] Revoke error:', error)
+            return internalError('Failed to revoke access')
+        }
+    },
+}
+
+// Export all handlers
+export const brandTeamEndpoints = [
+    brandTeamListHandler,
+    brandTeamInviteHandler,
+    brandTeamAcceptInviteHandler,
+    brandTeamRoleHandler,
+    brandTeamRevokeHandler,
+]
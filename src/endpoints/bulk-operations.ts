@@ -44,9 +44,9 @@ export const bulkOperationsHandler: PayloadHandler = async (req) => {
 
     // Rate limiting
     const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BATCH_OPERATIONS)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BATCH_OPERATIONS, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     try {
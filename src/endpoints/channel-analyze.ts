@@ -178,9 +178,9 @@ export const channelAnalyzeHandler: PayloadHandler = async (req: PayloadRequest)
 
     // Rate limiting
     const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.AI_ANALYSIS)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.AI_ANALYSIS, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     if (!process.env.GEMINI_API_KEY) {
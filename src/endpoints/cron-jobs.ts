@@ -1,6 +1,7 @@
 import type { PayloadHandler } from 'payload'
 import { runFreshnessCheck, cleanupStaleAIDrafts } from '../jobs/freshness-check'
 import { sendWeeklyDigest } from '../jobs/weekly-digest'
+import { pruneFinishedJobs } from '../utilities/job-queue'
 
 /**
  * Cron Jobs Endpoint
@@ -8,7 +9,7 @@ import { sendWeeklyDigest } from '../jobs/weekly-digest'
  *
  * Available jobs:
  * - freshness: Check product freshness status
- * - cleanup: Remove stale AI drafts (30+ days old)
+ * - cleanup: Remove stale AI drafts (30+ days old) and old finished queue jobs
  * - weekly-digest: Send weekly digest emails (scheduled Tuesdays 10 AM UTC)
  * - all: Run all jobs
  */
@@ -49,6 +50,7 @@ export const cronJobsHandler: PayloadHandler = async (req) => {
         if (job === 'cleanup' || job === 'all') {
             const cleanupResult = await cleanupStaleAIDrafts(req.payload)
             results.cleanup = cleanupResult
+            results.jobsPruned = (await pruneFinishedJobs(req.payload)).deleted
             ;(results.jobsRun as string[]).push('cleanup')
         }
 
@@ -57,7 +57,7 @@ async function sendWeeklyDigest(payload: any) {
         where: {
             and: [
                 { sequence: { equals: 'weekly_digest' } },
-                { status: { equals: 'active' } },
+                { status: { in: ['active', 'ab_testing'] } },
             ],
         },
         limit: 1,
@@ -115,7 +115,7 @@ async function sendWeeklyDigest(payload: any) {
     }));
 
     // Send with A/B testing enabled
-    const result = await sendBulkEmail(payload, template.id, recipients, true);
+    const result = await sendBulkEmail(payload, template.id, recipients);
 
     console.log(`[EmailCron] Weekly digest sent: ${result.sent} success, ${result.failed} failed`);
 
@@ -150,7 +150,7 @@ async function sendWeek1Sequence(payload: any) {
                 and: [
                     { sequence: { equals: 'week1_value' } },
                     { dayInSequence: { equals: day } },
-                    { status: { equals: 'active' } },
+                    { status: { in: ['active', 'ab_testing'] } },
                 ],
             },
             limit: 1,
@@ -209,7 +209,7 @@ async function sendWeek1Sequence(payload: any) {
         }
 
         if (recipients.length > 0) {
-            const result = await sendBulkEmail(payload, template.id, recipients, true);
+            const result = await sendBulkEmail(payload, template.id, recipients);
             totalSent += result.sent;
             totalFailed += result.failed;
         }
@@ -240,7 +240,7 @@ async function sendWinBackSequence(payload: any) {
                 and: [
                     { sequence: { equals: 'winback' } },
                     { dayInSequence: { equals: daysInactive } },
-                    { status: { equals: 'active' } },
+                    { status: { in: ['active', 'ab_testing'] } },
                 ],
             },
             limit: 1,
@@ -304,7 +304,7 @@ async function sendWinBackSequence(payload: any) {
         }
 
         if (recipients.length > 0) {
-            const result = await sendBulkEmail(payload, template.id, recipients, true);
+            const result = await sendBulkEmail(payload, template.id, recipients);
             totalSent += result.sent;
             totalFailed += result.failed;
         }
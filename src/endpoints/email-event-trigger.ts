@@ -76,7 +76,7 @@ export const emailEventTriggerHandler: Endpoint = {
                         and: [
                             { sequence: { equals: 'fomo_trigger' } },
                             { triggerEvent: { equals: 'badge_unlocked' } },
-                            { status: { equals: 'active' } },
+                            { status: { in: ['active', 'ab_testing'] } },
                         ],
                     };
                     variables = {
@@ -91,7 +91,7 @@ export const emailEventTriggerHandler: Endpoint = {
                         and: [
                             { sequence: { equals: 'fomo_trigger' } },
                             { triggerEvent: { equals: 'product_retested' } },
-                            { status: { equals: 'active' } },
+                            { status: { in: ['active', 'ab_testing'] } },
                         ],
                     };
                     variables = {
@@ -105,7 +105,7 @@ export const emailEventTriggerHandler: Endpoint = {
                         and: [
                             { sequence: { equals: 'fomo_trigger' } },
                             { triggerEvent: { equals: 'year_in_clean_ready' } },
-                            { status: { equals: 'active' } },
+                            { status: { in: ['active', 'ab_testing'] } },
                         ],
                     };
                     variables = {
@@ -118,7 +118,7 @@ export const emailEventTriggerHandler: Endpoint = {
                         and: [
                             { sequence: { equals: 'fomo_trigger' } },
                             { triggerEvent: { equals: 'brand_news' } },
-                            { status: { equals: 'active' } },
+                            { status: { in: ['active', 'ab_testing'] } },
                         ],
                     };
                     variables = {
@@ -132,7 +132,7 @@ export const emailEventTriggerHandler: Endpoint = {
                         and: [
                             { sequence: { equals: 'fomo_trigger' } },
                             { triggerEvent: { equals: 'new_category_tests' } },
-                            { status: { equals: 'active' } },
+                            { status: { in: ['active', 'ab_testing'] } },
                         ],
                     };
                     variables = {
@@ -197,7 +197,6 @@ export const emailEventTriggerHandler: Endpoint = {
                 to: email,
                 templateId: String(template.id),
                 variables,
-                abTest: { enabled: true, variantId: Math.random() > 0.5 ? 'b' : 'a' },
             });
 
             return Response.json({
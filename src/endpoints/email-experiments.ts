@@ -0,0 +1,98 @@
+/**
+ * Email Experiment Results Endpoint
+ *
+ * GET /api/email-ab-results
+ * GET /api/email-ab-results?templateId=123
+ *
+ * Per-variant send/open/click counts, rates with confidence intervals,
+ * the difference to control and its p-value, for running and concluded
+ * experiments. Backs the Email A/B admin dashboard.
+ */
+
+import type { PayloadHandler } from 'payload'
+import {
+    getExperimentArms,
+    getExperimentResults,
+    type ExperimentTemplate,
+} from '../utilities/email-experiments'
+
+function describeTemplate(template: ExperimentTemplate) {
+    const arms = getExperimentArms(template)
+    return {
+        templateId: template.id,
+        name: template.subject,
+        status: template.status,
+        startedAt: template.experiment?.startedAt || null,
+        concludedAt: template.experiment?.concludedAt || null,
+        recordedWinner: (template.stats?.abTestWinner as string | null | undefined) || null,
+        variants: arms.map(arm => ({
+            key: arm.key,
+            weight: arm.weight,
+            subject: arm.content.subject || template.subject,
+        })),
+    }
+}
+
+export const emailABResultsHandler: PayloadHandler = async (req) => {
+    const { payload, user } = req
+
+    if (!user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const url = new URL(req.url || '', 'http://localhost')
+        const templateId = url.searchParams.get('templateId')
+
+        if (templateId) {
+            const template = await payload.findByID({
+                collection: 'email-templates',
+                id: Number(templateId),
+                depth: 0,
+            }).catch(() => null) as unknown as ExperimentTemplate | null
+
+            if (!template) {
+                return Response.json({ error: 'Template not found' }, { status: 404 })
+            }
+
+            return Response.json({
+                ...describeTemplate(template),
+                analysis: await getExperimentResults(payload, template),
+            })
+        }
+
+        // Running experiments plus the most recently concluded ones
+        const { docs } = await payload.find({
+            collection: 'email-templates',
+            where: {
+                or: [
+                    { status: { equals: 'ab_testing' } },
+                    { 'experiment.concludedAt': { exists: true } },
+                ],
+            },
+            sort: '-updatedAt',
+            limit: 20,
+            depth: 0,
+        })
+
+        const experiments = await Promise.all(
+            (docs as unknown as ExperimentTemplate[]).map(async (template) => ({
+                ...describeTemplate(template),
+                analysis: await getExperimentResults(payload, template),
+            }))
+        )
+
+        return Response.json({ experiments })
+    } catch (error) {
+        console.error('[Email Experiments] Error:', error)
+        return Response.json({ error: 'Failed to fetch experiment results' }, { status: 500 })
+    }
+}
+
+export const emailABResultsEndpoint = {
+    path: '/email-ab-results',
+    method: 'get' as const,
+    handler: emailABResultsHandler,
+}
+
+export default emailABResultsEndpoint
@@ -8,7 +8,8 @@
  * - email.bounced
  * - email.complained
  *
- * Updates EmailSends collection and calculates A/B test results.
+ * Updates EmailSends collection and template stats. Experiment results
+ * are computed from these rows (utilities/email-experiments).
  *
  * @openapi
  * /email-webhook:
@@ -350,73 +351,4 @@ async function updateTemplateStats(
     }
 }
 
-// Result type for A/B test results
-interface ABTestResults {
-    variantA: { sent: number; opened: number; clicked: number; openRate: string };
-    variantB: { sent: number; opened: number; clicked: number; openRate: string };
-    winner: 'A' | 'B' | 'tie';
-}
-
-/**
- * Get A/B test results for a template
- * Uses pagination to avoid loading too many records into memory
- */
-export async function getABTestResults(
-    payload: Payload,
-    templateId: string
-): Promise<ABTestResults> {
-    const variantA = { sent: 0, opened: 0, clicked: 0 };
-    const variantB = { sent: 0, opened: 0, clicked: 0 };
-
-    // Process in batches to avoid memory issues
-    const PAGE_SIZE = 100;
-    let page = 1;
-    let hasMore = true;
-
-    while (hasMore) {
-        const result = await payload.find({
-            collection: 'email-sends',
-            where: {
-                template: { equals: templateId },
-            },
-            limit: PAGE_SIZE,
-            page,
-        });
-
-        for (const send of result.docs) {
-            const emailSend = send as EmailSend;
-            const variant = emailSend.abVariant === 'B' ? variantB : variantA;
-            variant.sent++;
-            if (emailSend.status === 'opened' || emailSend.status === 'clicked') {
-                variant.opened++;
-            }
-            if (emailSend.status === 'clicked') {
-                variant.clicked++;
-            }
-        }
-
-        hasMore = result.hasNextPage ?? false;
-        page++;
-    }
-
-    const openRateA = variantA.sent > 0 ? variantA.opened / variantA.sent : 0;
-    const openRateB = variantB.sent > 0 ? variantB.opened / variantB.sent : 0;
-
-    let winner: 'A' | 'B' | 'tie' = 'tie';
-    if (openRateA > openRateB + 0.05) winner = 'A';
-    else if (openRateB > openRateA + 0.05) winner = 'B';
-
-    return {
-        variantA: {
-            ...variantA,
-            openRate: `${(openRateA * 100).toFixed(1)}%`,
-        },
-        variantB: {
-            ...variantB,
-            openRate: `${(openRateB * 100).toFixed(1)}%`,
-        },
-        winner,
-    };
-}
-
 export default resendWebhookHandler;
@@ -0,0 +1,158 @@
+import type { PayloadHandler, PayloadRequest } from 'payload'
+import {
+    findEvidenceByHash,
+    isSha256,
+    sha256Hex,
+    verifyHashChain,
+    type SealedReportVersion,
+} from '../utilities/evidence-chain'
+import { checkRateLimitAsync, getRateLimitKey, rateLimitResponse, RateLimits } from '../utilities/rate-limiter'
+
+/**
+ * Evidence Verification Endpoints (public)
+ *
+ * Lets anyone holding one of our lab reports or chain-of-custody documents
+ * confirm it is the file we published, and check that a product's report
+ * history has not been altered.
+ *
+ * - Verify: POST /api/evidence/verify
+ *   Send the file (multipart field "file", or the raw PDF body) or a
+ *   precomputed { hash } as JSON. The file is hashed in memory and not stored.
+ * - Chain: GET /api/evidence/chain/:productId
+ *   Recomputes the product's report version hash chain.
+ */
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024
+
+async function readSubmittedHash(req: PayloadRequest): Promise<{ hash?: string; error?: string }> {
+    const contentType = req.headers.get('content-type') || ''
+
+    if (contentType.includes('application/json')) {
+        const body = (await req.json?.()) || {}
+        const hash = typeof body.hash === 'string' ? body.hash.trim().toLowerCase() : ''
+        return isSha256(hash) ? { hash } : { error: 'hash must be a hex SHA-256 digest' }
+    }
+
+    let bytes: ArrayBuffer | undefined
+    if (contentType.includes('multipart/form-data')) {
+        const formData = await req.formData?.()
+        const file = formData?.get('file')
+        if (!file || typeof file === 'string') {
+            return { error: 'Upload the document in a "file" field' }
+        }
+        if (file.size > MAX_FILE_SIZE) return { error: 'File too large (max 50MB)' }
+        bytes = await file.arrayBuffer()
+    } else {
+        bytes = await req.arrayBuffer?.()
+    }
+
+    if (!bytes || bytes.byteLength === 0) {
+        return { error: 'Send a file or a { hash } to verify' }
+    }
+    if (bytes.byteLength > MAX_FILE_SIZE) return { error: 'File too large (max 50MB)' }
+
+    return { hash: sha256Hex(Buffer.from(bytes)) }
+}
+
+/**
+ * Verify a document against published evidence
+ * POST /api/evidence/verify
+ */
+export const evidenceVerifyHandler: PayloadHandler = async (req: PayloadRequest) => {
+    const rateLimit = await checkRateLimitAsync(
+        getRateLimitKey(req as unknown as Request),
+        RateLimits.EVIDENCE_VERIFY,
+        req
+    )
+    if (!rateLimit.allowed) {
+        return rateLimitResponse(rateLimit)
+    }
+
+    try {
+        const { hash, error } = await readSubmittedHash(req)
+        if (!hash) {
+            return Response.json({ error }, { status: 400 })
+        }
+
+        const matches = await findEvidenceByHash(req.payload, hash)
+
+        return Response.json({
+            hash,
+            algorithm: 'sha256',
+            verified: matches.length > 0,
+            matches,
+            message: matches.length > 0
+                ? 'This document matches lab evidence published with the report(s) below.'
+                : 'This document does not match any lab evidence we have published.',
+        })
+    } catch (error) {
+        console.error('[Evidence Verify] Error:', error)
+        return Response.json({ error: 'Verification failed' }, { status: 500 })
+    }
+}
+
+/**
+ * Verify a product's report version hash chain
+ * GET /api/evidence/chain/:productId
+ */
+export const evidenceChainHandler: PayloadHandler = async (req: PayloadRequest) => {
+    const rateLimit = await checkRateLimitAsync(
+        getRateLimitKey(req as unknown as Request),
+        RateLimits.EVIDENCE_VERIFY,
+        req
+    )
+    if (!rateLimit.allowed) {
+        return rateLimitResponse(rateLimit)
+    }
+
+    try {
+        const productId = (req.routeParams as Record<string, string>)?.productId
+        if (!productId || isNaN(Number(productId))) {
+            return Response.json({ error: 'Product ID required' }, { status: 400 })
+        }
+
+        let product: {
+            id: number
+            name: string
+            slug?: string | null
+            status?: string | null
+            evidenceLocker?: { labReportHash?: string | null; labChainOfCustodyHash?: string | null } | null
+            reportVersions?: SealedReportVersion[] | null
+        }
+        try {
+            product = await req.payload.findByID({
+                collection: 'products',
+                id: Number(productId),
+                depth: 0,
+                overrideAccess: true,
+            })
+        } catch {
+            return Response.json({ error: 'Product not found' }, { status: 404 })
+        }
+        if (product.status !== 'published') {
+            return Response.json({ error: 'Product not found' }, { status: 404 })
+        }
+
+        const chain = verifyHashChain(product.reportVersions || [])
+        const evidence = new Map((product.reportVersions || []).map(v => [v.versionNumber, v]))
+
+        return Response.json({
+            productId: product.id,
+            productName: product.name,
+            productSlug: product.slug,
+            currentEvidence: {
+                labReportHash: product.evidenceLocker?.labReportHash || null,
+                chainOfCustodyHash: product.evidenceLocker?.labChainOfCustodyHash || null,
+            },
+            ...chain,
+            links: chain.links.map(link => ({
+                ...link,
+                labReportHash: evidence.get(link.versionNumber)?.labReportHash || null,
+                chainOfCustodyHash: evidence.get(link.versionNumber)?.chainOfCustodyHash || null,
+            })),
+        })
+    } catch (error) {
+        console.error('[Evidence Chain] Error:', error)
+        return Response.json({ error: 'Verification failed' }, { status: 500 })
+    }
+}
@@ -1,7 +1,8 @@
 import { PayloadHandler } from 'payload'
 import { trackServer, flushServer } from '../lib/analytics/rudderstack-server'
 import { validationError, internalError } from '../utilities/api-response'
-import { applyRateLimitAsync, RateLimits, getRateLimitKey } from '../utilities/rate-limiter'
+import { applyRateLimitAsync, RateLimits, getRateLimitKey, withRateLimitHeaders } from '../utilities/rate-limiter'
+import { clientIpOf } from '../utilities/referral-fraud'
 
 // Maximum lengths for input validation
 const MAX_FINGERPRINT_HASH_LENGTH = 100
@@ -211,13 +212,13 @@ export const fingerprintRegisterHandler: PayloadHandler = async (req) => {
     try {
         // Rate limit by IP to prevent abuse (10 registrations per hour per IP)
         const rateLimitKey = getRateLimitKey(req as unknown as Request)
-        const rateLimitResponse = await applyRateLimitAsync(
+        const rateLimit = await applyRateLimitAsync(
             req as unknown as Request,
             RateLimits.FINGERPRINT_REGISTER,
             `fingerprint:register:${rateLimitKey}`
         )
-        if (rateLimitResponse) {
-            return rateLimitResponse
+        if (rateLimit.limited) {
+            return rateLimit.limited
         }
 
         const body = await req.json?.() || {}
@@ -229,14 +230,14 @@ export const fingerprintRegisterHandler: PayloadHandler = async (req) => {
 
         if (isGpcEnabled) {
             // GPC enabled - don't persist fingerprint, just return anonymous response
-            return Response.json({
+            return withRateLimitHeaders(Response.json({
                 success: true,
                 fingerprintId: null,
                 canUnlock: true,
                 remainingCredits: 1,
                 gpcRespected: true,
                 message: 'Global Privacy Control signal respected. Fingerprint not stored.',
-            })
+            }), rateLimit.result)
         }
 
         // Validate and sanitize fingerprint hash
@@ -249,6 +250,7 @@ export const fingerprintRegisterHandler: PayloadHandler = async (req) => {
         const browser = validateBrowser(body.browser)
         const os = validateOS(body.os)
         const deviceType = validateDeviceType(body.deviceType)
+        const ipAddress = clientIpOf(req.headers)
 
         // Check if fingerprint already exists
         const existingFingerprint = await req.payload.find({
@@ -281,12 +283,13 @@ export const fingerprintRegisterHandler: PayloadHandler = async (req) => {
                     ...(browser && { browser }),
                     ...(os && { os }),
                     ...(deviceType && { deviceType }),
+                    ...(ipAddress && { lastIpAddress: ipAddress }),
                 } as unknown as Record<string, unknown>,
             })
 
             // Check if banned
             if (existing.isBanned) {
-                return Response.json(
+                return withRateLimitHeaders(Response.json(
                     {
                         success: false,
                         fingerprintId: existing.id,
@@ -295,21 +298,21 @@ export const fingerprintRegisterHandler: PayloadHandler = async (req) => {
                         reason: 'Device is banned',
                     },
                     { status: 403 }
-                )
+                ), rateLimit.result)
             }
 
             // Calculate remaining credits
             const usedCredits = existing.unlockCreditsUsed || 0
             const remainingCredits = Math.max(0, 1 - usedCredits)
 
-            return Response.json({
+            return withRateLimitHeaders(Response.json({
                 success: true,
                 fingerprintId: existing.id,
                 canUnlock: remainingCredits > 0,
                 remainingCredits,
                 isExisting: true,
                 userId: typeof existing.user === 'object' ? existing.user?.id : existing.user,
-            })
+            }), rateLimit.result)
         }
 
         // Generate unique referral code
@@ -329,6 +332,7 @@ export const fingerprintRegisterHandler: PayloadHandler = async (req) => {
                 isBanned: false,
                 suspiciousActivity: false,
                 emailsUsed: [],
+                lastIpAddress: ipAddress,
                 referralCode,
                 totalReferrals: 0,
                 activeReferrals: 0,
@@ -348,13 +352,13 @@ export const fingerprintRegisterHandler: PayloadHandler = async (req) => {
         }, { anonymousId: fingerprintHash })
         await flushServer()
 
-        return Response.json({
+        return withRateLimitHeaders(Response.json({
             success: true,
             fingerprintId: newFingerprint.id,
             canUnlock: true,
             remainingCredits: 1,
             isExisting: false,
-        })
+        }), rateLimit.result)
     } catch (error) {
         console.error('[Fingerprint Register] Error:', error)
         return internalError('Failed to register fingerprint')
@@ -394,13 +398,13 @@ export const fingerprintCheckHandler: PayloadHandler = async (req) => {
         }
 
         // Rate limit by fingerprint hash to prevent enumeration (30 checks per minute)
-        const rateLimitResponse = await applyRateLimitAsync(
+        const rateLimit = await applyRateLimitAsync(
             req as unknown as Request,
             RateLimits.FINGERPRINT_CHECK,
             `fingerprint:check:${fingerprintHash}`
         )
-        if (rateLimitResponse) {
-            return rateLimitResponse
+        if (rateLimit.limited) {
+            return rateLimit.limited
         }
 
         const result = await req.payload.find({
@@ -414,11 +418,11 @@ export const fingerprintCheckHandler: PayloadHandler = async (req) => {
         })
 
         if (result.docs.length === 0) {
-            return Response.json({
+            return withRateLimitHeaders(Response.json({
                 exists: false,
                 canUnlock: true,
                 remainingCredits: 1,
-            })
+            }), rateLimit.result)
         }
 
         const fingerprint = result.docs[0] as {
@@ -429,25 +433,25 @@ export const fingerprintCheckHandler: PayloadHandler = async (req) => {
         }
 
         if (fingerprint.isBanned) {
-            return Response.json({
+            return withRateLimitHeaders(Response.json({
                 exists: true,
                 fingerprintId: fingerprint.id,
                 canUnlock: false,
                 remainingCredits: 0,
                 reason: 'Device is banned',
-            })
+            }), rateLimit.result)
         }
 
         const usedCredits = fingerprint.unlockCreditsUsed || 0
         const remainingCredits = Math.max(0, 1 - usedCredits)
 
-        return Response.json({
+        return withRateLimitHeaders(Response.json({
             exists: true,
             fingerprintId: fingerprint.id,
             canUnlock: remainingCredits > 0,
             remainingCredits,
             userId: typeof fingerprint.user === 'object' ? fingerprint.user?.id : fingerprint.user,
-        })
+        }), rateLimit.result)
     } catch (error) {
         console.error('[Fingerprint Check] Error:', error)
         return internalError('Failed to check fingerprint')
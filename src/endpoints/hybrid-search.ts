@@ -0,0 +1,238 @@
+import type { PayloadHandler, PayloadRequest } from 'payload'
+import { getShieldViewer, shieldProductsForViewer } from '../access/liabilityShield'
+import { hybridSearch, parseSearchFilters } from '../utilities/hybrid-search'
+import { checkRateLimitAsync, getRateLimitKey, rateLimitResponse, RateLimits, withRateLimitHeaders } from '../utilities/rate-limiter'
+
+/**
+ * Hybrid Search Endpoints
+ *
+ * - Search: GET or POST /api/search/hybrid
+ *   Keyword + semantic search with facet counts, reranked by past clicks.
+ *   Every search is logged to search-queries and the response carries its
+ *   searchId so the client can report which result was opened.
+ * - Click: POST /api/search/click { searchId, productId }
+ *   Records the opened result; these clicks feed the ranking for the same
+ *   and similar queries.
+ */
+
+const MAX_QUERY_LENGTH = 200
+const MAX_LIMIT = 50
+// Clicks reported later than this are ignored (stale tabs, replayed requests)
+const CLICK_WINDOW_MS = 24 * 60 * 60 * 1000
+
+type SearchSource = 'web' | 'mobile' | 'api'
+
+function readSource(value: unknown): SearchSource {
+    return value === 'web' || value === 'mobile' ? value : 'api'
+}
+
+async function readSearchInput(req: PayloadRequest): Promise<Record<string, unknown>> {
+    if (req.method === 'POST') {
+        const body = (await req.json?.().catch(() => null)) || {}
+        // Filters may be nested under "filters" or sent top-level like the query string
+        return { ...body, ...(typeof body.filters === 'object' ? body.filters : {}) }
+    }
+    return Object.fromEntries(new URL(req.url || '', 'http://localhost').searchParams)
+}
+
+/**
+ * @openapi
+ * /api/search/hybrid:
+ *   get:
+ *     summary: Hybrid product search
+ *     description: |
+ *       Full-text and semantic search fused into one ranking, boosted by
+ *       which results people opened for similar queries. Returns facet
+ *       counts for verdict, category, brand, price range and tested products.
+ *       POST accepts the same fields as a JSON body.
+ *     tags:
+ *       - Search
+ *     parameters:
+ *       - name: q
+ *         in: query
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *       - name: verdict
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Comma-separated verdicts (recommend, caution, flagged)
+ *       - name: category
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Comma-separated category IDs
+ *       - name: brand
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Comma-separated brand names
+ *       - name: priceRange
+ *         in: query
+ *         schema:
+ *           type: string
+ *         description: Comma-separated price ranges ($, $$, $$$, $$$$)
+ *       - name: testedOnly
+ *         in: query
+ *         schema:
+ *           type: boolean
+ *       - name: limit
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 50
+ *       - name: offset
+ *         in: query
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Ranked results, facets and the searchId for click feedback
+ *       400:
+ *         description: Query missing or too short
+ *       429:
+ *         description: Rate limit exceeded
+ */
+export const hybridSearchHandler: PayloadHandler = async (req: PayloadRequest) => {
+    const rateLimit = await checkRateLimitAsync(
+        getRateLimitKey(req as unknown as Request, req.user?.id),
+        RateLimits.HYBRID_SEARCH,
+        req
+    )
+    if (!rateLimit.allowed) {
+        return rateLimitResponse(rateLimit)
+    }
+
+    try {
+        const input = await readSearchInput(req)
+        const query = String(input.q ?? input.query ?? '').trim().substring(0, MAX_QUERY_LENGTH)
+        if (query.length < 2) {
+            return Response.json({ error: 'Query must be at least 2 characters' }, { status: 400 })
+        }
+
+        const filters = parseSearchFilters(input)
+        const limit = Math.min(Math.max(Number(input.limit) || 20, 1), MAX_LIMIT)
+        const offset = Math.max(Number(input.offset) || 0, 0)
+        const excludeIds = String(input.exclude ?? '')
+            .split(',')
+            .map(Number)
+            .filter(id => Number.isInteger(id) && id > 0)
+
+        const search = await hybridSearch(req.payload, query, { filters, limit, offset, excludeIds })
+
+        // Log the search; a failed log must not fail the search itself
+        let searchId: number | null = null
+        if (offset === 0) {
+            try {
+                const logged = await req.payload.create({
+                    collection: 'search-queries',
+                    data: {
+                        query,
+                        resultsCount: search.total,
+                        source: readSource(input.source),
+                        userId: req.user ? String(req.user.id) : null,
+                        deviceFingerprint: typeof input.deviceFingerprint === 'string' ? input.deviceFingerprint : null,
+                        sessionId: typeof input.sessionId === 'string' ? input.sessionId : null,
+                    },
+                    overrideAccess: true,
+                })
+                searchId = logged.id as number
+            } catch (error) {
+                console.error('[HybridSearch] Failed to log query:', error)
+            }
+        }
+
+        const viewer = await getShieldViewer(req, {
+            fingerprintHash: typeof input.deviceFingerprint === 'string' ? input.deviceFingerprint : null,
+        })
+        const results = shieldProductsForViewer(
+            search.results as Array<typeof search.results[number] & { verdict?: string; [key: string]: unknown }>,
+            viewer
+        )
+
+        return withRateLimitHeaders(Response.json({
+            success: true,
+            query,
+            searchId,
+            results,
+            facets: search.facets,
+            filters,
+            total: search.total,
+            limit,
+            offset,
+            mode: search.semantic ? 'hybrid' : 'keyword',
+        }), rateLimit)
+    } catch (error) {
+        console.error('[HybridSearch] Error:', error)
+        return Response.json({ error: 'Search failed' }, { status: 500 })
+    }
+}
+
+/**
+ * Record which result was opened
+ * POST /api/search/click
+ */
+export const searchClickHandler: PayloadHandler = async (req: PayloadRequest) => {
+    const rateLimit = await checkRateLimitAsync(
+        getRateLimitKey(req as unknown as Request, req.user?.id),
+        RateLimits.SEARCH_CLICK,
+        req
+    )
+    if (!rateLimit.allowed) {
+        return rateLimitResponse(rateLimit)
+    }
+
+    try {
+        const body = (await req.json?.().catch(() => null)) || {}
+        const searchId = Number(body.searchId)
+        const productId = Number(body.productId)
+        if (!Number.isInteger(searchId) || searchId <= 0 || !Number.isInteger(productId) || productId <= 0) {
+            return Response.json({ error: 'searchId and productId are required' }, { status: 400 })
+        }
+
+        const search = await req.payload.findByID({
+            collection: 'search-queries',
+            id: searchId,
+            depth: 0,
+            overrideAccess: true,
+        }).catch(() => null)
+
+        if (!search || Date.now() - new Date(search.createdAt).getTime() > CLICK_WINDOW_MS) {
+            return Response.json({ error: 'Search not found' }, { status: 404 })
+        }
+
+        if (!search.clickedResult) {
+            await req.payload.update({
+                collection: 'search-queries',
+                id: searchId,
+                data: { clickedResult: true, clickedProductId: String(productId) },
+                overrideAccess: true,
+            })
+        } else if (search.clickedProductId !== String(productId)) {
+            // One row per click so every opened result counts toward ranking
+            await req.payload.create({
+                collection: 'search-queries',
+                data: {
+                    query: search.query,
+                    resultsCount: search.resultsCount,
+                    source: search.source,
+                    userId: search.userId,
+                    deviceFingerprint: search.deviceFingerprint,
+                    sessionId: search.sessionId,
+                    clickedResult: true,
+                    clickedProductId: String(productId),
+                },
+                overrideAccess: true,
+            })
+        }
+
+        return withRateLimitHeaders(Response.json({ success: true }), rateLimit)
+    } catch (error) {
+        console.error('[HybridSearch] Click error:', error)
+        return Response.json({ error: 'Failed to record click' }, { status: 500 })
+    }
+}
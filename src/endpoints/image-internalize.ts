@@ -1,6 +1,7 @@
 import type { Payload, PayloadHandler, PayloadRequest } from 'payload'
 import type { Product, Brand, Media } from '@/payload-types'
 import { checkRateLimitAsync, getRateLimitKey, rateLimitResponse, RateLimits } from '@/utilities/rate-limiter'
+import { enqueueJob, inlineJob, jobAcceptedResponse, type JobContext } from '@/utilities/job-queue'
 
 /**
  * Product with populated brand for image internalization
@@ -224,10 +225,118 @@ export const imageInternalizeStatusHandler: PayloadHandler = async (req: Payload
     }
 }
 
+/**
+ * Internalize external product images. Runs as the 'image-internalize' job
+ * (or inline for a single product).
+ */
+export async function runImageInternalize(
+    payload: Payload,
+    params: { productIds?: number[] },
+    job: JobContext = inlineJob
+) {
+    const specificProductIds = params.productIds
+
+    // Type for the find result with populated brand
+    interface ProductFindResult {
+        docs: ProductWithBrand[]
+        totalDocs: number
+        totalPages: number
+        page: number
+        hasNextPage: boolean
+        hasPrevPage: boolean
+    }
+
+    let productsResult: ProductFindResult
+
+    if (specificProductIds && specificProductIds.length > 0) {
+        // Fetch specific products
+        productsResult = await payload.find({
+            collection: 'products',
+            where: {
+                id: { in: specificProductIds },
+            },
+            limit: specificProductIds.length,
+            depth: 1,
+        }) as ProductFindResult
+    } else {
+        // Find all products with external imageUrl
+        productsResult = await payload.find({
+            collection: 'products',
+            where: {
+                imageUrl: { exists: true },
+            },
+            limit: 200, // Process in batches
+            depth: 1, // Get brand info
+        }) as ProductFindResult
+    }
+
+    const results: Array<{
+        productId: number
+        productName: string
+        success: boolean
+        mediaId?: number
+        error?: string
+    }> = []
+
+    // Process each product with delay to avoid overwhelming external servers
+    for (let i = 0; i < productsResult.docs.length; i++) {
+        const product = productsResult.docs[i]
+
+        await job.progress(i, productsResult.docs.length, `Internalizing ${product.name || product.id}`)
+        if (job.isCancelled()) break
+
+        // Skip products without imageUrl
+        if (!product.imageUrl) {
+            continue
+        }
+
+        // Add delay between requests
+        if (i > 0) {
+            await new Promise((resolve) => setTimeout(resolve, 500))
+        }
+
+        // Extract brand name from populated brand object or use null
+        const brandData = typeof product.brand === 'object' && product.brand !== null
+            ? { name: product.brand.name }
+            : null
+
+        const result = await internalizeProductImage(payload, {
+            id: product.id,
+            name: product.name,
+            imageUrl: product.imageUrl,
+            brand: brandData,
+        })
+
+        results.push({
+            productId: result.productId,
+            productName: product.name || 'Unknown',
+            success: result.success,
+            ...(result.mediaId && { mediaId: result.mediaId }),
+            ...(result.error && { error: result.error }),
+        })
+    }
+
+    const successCount = results.filter((r) => r.success).length
+    const failureCount = results.filter((r) => !r.success).length
+    await job.progress(results.length, productsResult.docs.length, `${successCount} internalized, ${failureCount} failed`)
+
+    return {
+        processed: results.length,
+        successCount,
+        failureCount,
+        cancelled: job.isCancelled(),
+        remaining: productsResult.totalDocs - results.length,
+        results,
+    }
+}
+
 /**
  * Internalize external images
  * POST /api/images/internalize
  * Body: { productIds?: number[] } - Optional array of specific product IDs to process
+ *
+ * A single product is processed in the request so the admin preview updates
+ * immediately; anything larger is queued as an 'image-internalize' job.
  */
 export const imageInternalizeHandler: PayloadHandler = async (req: PayloadRequest) => {
     if (!req.user) {
@@ -236,115 +345,37 @@ export const imageInternalizeHandler: PayloadHandler = async (req: PayloadReques
 
     // Rate limiting
     const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BG_REMOVAL_BATCH)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.BG_REMOVAL_BATCH, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     try {
         // Check if specific product IDs were provided
         const body = await req.json?.().catch(() => null)
-        const specificProductIds = body?.productIds as number[] | undefined
-
-        // Type for the find result with populated brand
-        interface ProductFindResult {
-            docs: ProductWithBrand[]
-            totalDocs: number
-            totalPages: number
-            page: number
-            hasNextPage: boolean
-            hasPrevPage: boolean
-        }
-
-        let productsResult: ProductFindResult
-
-        if (specificProductIds && specificProductIds.length > 0) {
-            // Fetch specific products
-            productsResult = await req.payload.find({
-                collection: 'products',
-                where: {
-                    id: { in: specificProductIds },
-                },
-                limit: specificProductIds.length,
-                depth: 1,
-            }) as ProductFindResult
-        } else {
-            // Find all products with external imageUrl
-            productsResult = await req.payload.find({
-                collection: 'products',
-                where: {
-                    imageUrl: { exists: true },
-                },
-                limit: 200, // Process in batches
-                depth: 1, // Get brand info
-            }) as ProductFindResult
-        }
-
-        if (productsResult.docs.length === 0) {
-            return Response.json({
-                success: true,
-                message: 'No products with external URLs found',
-                processed: 0,
-                successCount: 0,
-                failureCount: 0,
-                results: [],
-            })
-        }
-
-        const results: Array<{
-            productId: number
-            productName: string
-            success: boolean
-            mediaId?: number
-            error?: string
-        }> = []
-
-        // Process each product with delay to avoid overwhelming external servers
-        for (let i = 0; i < productsResult.docs.length; i++) {
-            const product = productsResult.docs[i]
-
-            // Skip products without imageUrl
-            if (!product.imageUrl) {
-                continue
-            }
-
-            // Add delay between requests
-            if (i > 0) {
-                await new Promise((resolve) => setTimeout(resolve, 500))
+        const productIds = Array.isArray(body?.productIds) ? body.productIds as number[] : undefined
+
+        if (productIds?.length === 1) {
+            const result = await runImageInternalize(req.payload, { productIds })
+            if (result.processed === 0) {
+                return Response.json({
+                    success: true,
+                    message: 'No products with external URLs found',
+                    ...result,
+                })
             }
-
-            // Extract brand name from populated brand object or use null
-            const brandData = typeof product.brand === 'object' && product.brand !== null
-                ? { name: product.brand.name }
-                : null
-
-            const result = await internalizeProductImage(req.payload, {
-                id: product.id,
-                name: product.name,
-                imageUrl: product.imageUrl,
-                brand: brandData,
-            })
-
-            results.push({
-                productId: result.productId,
-                productName: product.name || 'Unknown',
-                success: result.success,
-                ...(result.mediaId && { mediaId: result.mediaId }),
-                ...(result.error && { error: result.error }),
-            })
+            return Response.json({ success: true, ...result })
         }
 
-        const successCount = results.filter((r) => r.success).length
-        const failureCount = results.filter((r) => !r.success).length
-
-        return Response.json({
-            success: true,
-            processed: results.length,
-            successCount,
-            failureCount,
-            remaining: productsResult.totalDocs - results.length,
-            results,
+        const userId = (req.user as { id?: number })?.id
+        const job = await enqueueJob(req.payload, 'image-internalize', { productIds }, {
+            req,
+            requestedBy: userId,
+            // A full sweep covers every external URL, so one at a time is enough
+            unique: !productIds?.length,
         })
+
+        return jobAcceptedResponse(job, 'image-internalize')
     } catch (error) {
         console.error('Image internalization error:', error)
         return Response.json(
@@ -0,0 +1,202 @@
+import type { PayloadHandler, PayloadRequest, Where } from 'payload'
+import { isStaffEditor } from '../access/roleAccess'
+import {
+    enqueueJob,
+    isJobTaskSlug,
+    summarizeJob,
+    type JobStatus,
+    type QueuedJobRecord,
+} from '../utilities/job-queue'
+
+/**
+ * Job Queue Endpoints
+ *
+ * - GET  /api/jobs            - Recent jobs and queue counts (job monitor)
+ * - GET  /api/jobs/:id        - Status, progress and result of one job
+ * - POST /api/jobs/:id/cancel - Cancel a queued or running job
+ * - POST /api/jobs/:id/retry  - Re-queue a dead-lettered or cancelled job
+ *
+ * Anyone who started a job can follow and cancel it; the monitor and
+ * retries require admin or product_editor role.
+ */
+
+const STATUS_FILTERS: Partial<Record<JobStatus, Where>> = {
+    queued: {
+        and: [
+            { processing: { equals: false } },
+            { completedAt: { exists: false } },
+            { hasError: { not_equals: true } },
+        ],
+    },
+    running: {
+        and: [
+            { processing: { equals: true } },
+            { hasError: { not_equals: true } },
+        ],
+    },
+    succeeded: { completedAt: { exists: true } },
+    dead_letter: { 'deadLetter.deadLettered': { equals: true } },
+}
+
+async function loadJob(req: PayloadRequest): Promise<QueuedJobRecord | null> {
+    const id = Number((req.routeParams as Record<string, string>)?.id)
+    if (!id) return null
+
+    try {
+        const job = await req.payload.findByID({
+            collection: 'payload-jobs',
+            id,
+            depth: 0,
+            overrideAccess: true,
+        })
+        return job as unknown as QueuedJobRecord
+    } catch {
+        return null
+    }
+}
+
+function canAccessJob(req: PayloadRequest, job: QueuedJobRecord): boolean {
+    if (isStaffEditor(req.user)) return true
+    const requestedBy = typeof job.requestedBy === 'object' ? job.requestedBy?.id : job.requestedBy
+    return req.user?.collection === 'users' && requestedBy === req.user.id
+}
+
+/**
+ * GET /api/jobs?status=running&task=batch-enrich&limit=25
+ */
+export const jobsListHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!isStaffEditor(req.user)) {
+        return Response.json({ error: 'Editor access required' }, { status: 403 })
+    }
+
+    try {
+        const { status, task, limit } = req.query as { status?: string; task?: string; limit?: string }
+
+        const and: Where[] = []
+        if (status && STATUS_FILTERS[status as JobStatus]) {
+            and.push(STATUS_FILTERS[status as JobStatus]!)
+        }
+        if (task && isJobTaskSlug(task)) {
+            and.push({ taskSlug: { equals: task } })
+        }
+
+        const jobs = await req.payload.find({
+            collection: 'payload-jobs',
+            where: and.length ? { and } : undefined,
+            sort: '-createdAt',
+            limit: Math.min(Math.max(Number(limit) || 25, 1), 100),
+            depth: 0,
+            overrideAccess: true,
+        })
+
+        const counts: Record<string, number> = {}
+        for (const key of ['queued', 'running', 'dead_letter'] as const) {
+            const result = await req.payload.count({
+                collection: 'payload-jobs',
+                where: STATUS_FILTERS[key],
+                overrideAccess: true,
+            })
+            counts[key] = result.totalDocs
+        }
+
+        const now = new Date()
+        return Response.json({
+            success: true,
+            jobs: jobs.docs.map(job => summarizeJob(job as unknown as QueuedJobRecord, now)),
+            counts,
+        })
+    } catch (error) {
+        console.error('[Jobs] List error:', error)
+        return Response.json({ error: 'Failed to load jobs' }, { status: 500 })
+    }
+}
+
+/**
+ * GET /api/jobs/:id
+ */
+export const jobStatusHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const job = await loadJob(req)
+    if (!job || !canAccessJob(req, job)) {
+        return Response.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return Response.json({ success: true, job: summarizeJob(job) })
+}
+
+/**
+ * POST /api/jobs/:id/cancel
+ *
+ * Queued jobs never start; running jobs stop at their next progress update.
+ */
+export const jobCancelHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const job = await loadJob(req)
+    if (!job || !canAccessJob(req, job)) {
+        return Response.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    const { status } = summarizeJob(job)
+    if (status !== 'queued' && status !== 'scheduled' && status !== 'running') {
+        return Response.json({ error: `Job is already ${status.replace('_', ' ')}` }, { status: 409 })
+    }
+
+    try {
+        await req.payload.jobs.cancelByID({ id: job.id, overrideAccess: true, req })
+        const updated = await loadJob(req)
+        return Response.json({ success: true, job: summarizeJob(updated || job) })
+    } catch (error) {
+        console.error('[Jobs] Cancel error:', error)
+        return Response.json({ error: 'Failed to cancel job' }, { status: 500 })
+    }
+}
+
+/**
+ * POST /api/jobs/:id/retry
+ *
+ * Queues a fresh copy of a dead-lettered, failed or cancelled job with the
+ * same input. The original stays in the log for reference.
+ */
+export const jobRetryHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!isStaffEditor(req.user)) {
+        return Response.json({ error: 'Editor access required' }, { status: 403 })
+    }
+
+    const job = await loadJob(req)
+    if (!job) {
+        return Response.json({ error: 'Job not found' }, { status: 404 })
+    }
+    if (!isJobTaskSlug(job.taskSlug)) {
+        return Response.json({ error: 'Only queue tasks can be retried' }, { status: 400 })
+    }
+
+    const { status } = summarizeJob(job)
+    if (status !== 'dead_letter' && status !== 'failed' && status !== 'cancelled') {
+        return Response.json({ error: `Job is ${status.replace('_', ' ')}, not retryable` }, { status: 409 })
+    }
+
+    try {
+        const params = ((job.input as { params?: Record<string, unknown> } | null)?.params) || {}
+        const retry = await enqueueJob(req.payload, job.taskSlug, params, {
+            req,
+            requestedBy: req.user?.id as number,
+            retryOf: Number(job.id),
+        })
+
+        return Response.json({
+            success: true,
+            jobId: retry.id,
+            retryOf: job.id,
+            statusUrl: `/api/jobs/${retry.id}`,
+        }, { status: 202 })
+    } catch (error) {
+        console.error('[Jobs] Retry error:', error)
+        return Response.json({ error: 'Failed to retry job' }, { status: 500 })
+    }
+}
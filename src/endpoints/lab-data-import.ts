@@ -0,0 +1,104 @@
+import type { PayloadHandler, PayloadRequest } from 'payload'
+import { isStaffEditor } from '../access/roleAccess'
+import { previewLabImport, stageLabImport, type LabImportFormat } from '../utilities/lab-import'
+
+/**
+ * Lab Data Import Endpoint
+ * POST /api/lab-data/import
+ *
+ * Parses an LC-MS / GC-MS instrument export and stages the mapped detections
+ * for a product as a lab-imports document awaiting review. The product itself
+ * is only updated once a reviewer applies the import.
+ *
+ * Body:
+ * - productId: number (required)
+ * - content: string - file contents (vendor CSV/TSV peak table or mzML)
+ * - format: 'vendor_csv' | 'mzml' (optional, detected from content)
+ * - fileName: string (optional)
+ * - labName: string (optional)
+ * - dryRun: boolean - return the mapped detections without staging (default false)
+ *
+ * Requires a staff admin or product_editor.
+ */
+
+const MAX_CONTENT_LENGTH = 25 * 1024 * 1024
+const FORMATS: LabImportFormat[] = ['vendor_csv', 'mzml']
+
+export const labDataImportHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user || !isStaffEditor(req.user)) {
+        return Response.json({ error: 'Editor access required' }, { status: 403 })
+    }
+
+    try {
+        const body = (await req.json?.()) || {}
+        const { productId, content, format, fileName, labName, dryRun } = body
+
+        if (!productId || isNaN(Number(productId))) {
+            return Response.json({ error: 'productId is required' }, { status: 400 })
+        }
+        if (typeof content !== 'string' || !content.trim()) {
+            return Response.json({ error: 'content is required' }, { status: 400 })
+        }
+        if (content.length > MAX_CONTENT_LENGTH) {
+            return Response.json({ error: 'File too large (max 25MB)' }, { status: 413 })
+        }
+        if (format && !FORMATS.includes(format)) {
+            return Response.json({ error: `format must be one of: ${FORMATS.join(', ')}` }, { status: 400 })
+        }
+
+        const options = {
+            productId: Number(productId),
+            content,
+            format,
+            fileName: typeof fileName === 'string' ? fileName : undefined,
+            labName: typeof labName === 'string' ? labName : undefined,
+            uploadedBy: req.user.id as number,
+        }
+
+        try {
+            await req.payload.findByID({ collection: 'products', id: options.productId, depth: 0 })
+        } catch {
+            return Response.json({ error: 'Product not found' }, { status: 404 })
+        }
+
+        if (dryRun) {
+            const preview = await previewLabImport(req.payload, options)
+            return Response.json({
+                success: true,
+                dryRun: true,
+                format: preview.parsed.format,
+                instrument: preview.parsed.instrument,
+                sampleName: preview.parsed.sampleName,
+                acquiredAt: preview.parsed.acquiredAt,
+                peakCount: preview.parsed.peaks.length,
+                notDetectedCount: preview.parsed.notDetected,
+                detections: preview.detections,
+                unmatchedPeaks: preview.unmatchedPeaks,
+                warnings: preview.parsed.warnings,
+            })
+        }
+
+        const staged = await stageLabImport(req.payload, options)
+        console.log(`[Lab Import] Staged import ${staged.id} for product ${options.productId}: ${staged.detectionCount} detections`)
+
+        return Response.json({
+            success: true,
+            importId: staged.id,
+            status: staged.status,
+            format: staged.format,
+            peakCount: staged.peakCount,
+            detectionCount: staged.detectionCount,
+            notDetectedCount: staged.notDetectedCount,
+            detections: staged.detections,
+            unmatchedPeaks: staged.unmatchedPeaks,
+            warnings: staged.warnings,
+            reviewUrl: `/admin/collections/lab-imports/${staged.id}`,
+        }, { status: 201 })
+    } catch (error) {
+        console.error('[Lab Import] Error:', error)
+        return Response.json(
+            { error: error instanceof Error ? error.message : 'Import failed' },
+            { status: 500 }
+        )
+    }
+}
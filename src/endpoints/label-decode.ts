@@ -14,7 +14,7 @@ import { checkRateLimitAsync, rateLimitResponse, getRateLimitKey, RateLimits } f
 interface DecodedIngredient {
     name: string
     linkedId?: number
-    verdict?: 'safe' | 'caution' | 'avoid' | 'unknown'
+    verdict?: 'safe' | 'caution' | 'flagged' | 'unknown'
     confidence: number
 }
 
@@ -25,7 +25,7 @@ interface DecodeResult {
     linkedCount: number
     unmatchedCount: number
     flaggedToxins: string[]
-    autoVerdict?: 'recommend' | 'caution' | 'avoid'
+    autoVerdict?: 'recommend' | 'caution' | 'flagged'
     productId?: number
     error?: string
 }
@@ -38,9 +38,9 @@ export const labelDecodeHandler: PayloadHandler = async (req: PayloadRequest) =>
 
     // Rate limiting
     const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.AI_ANALYSIS)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.AI_ANALYSIS, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     // Check for API key
@@ -137,19 +137,33 @@ Return ONLY a valid JSON object with this exact schema:
             return Response.json({ error: 'Failed to parse AI response' }, { status: 500 })
         }
 
-        // NOTE: Ingredient linking disabled - Ingredients collection archived
-        // Just return parsed ingredient names without verdicts
-        const decodedIngredients: DecodedIngredient[] = parsed.ingredients.map(name => ({
-            name,
-            verdict: 'unknown' as const,
+        // Link extracted names against the Ingredients registry
+        const linkResult = await parseAndLinkIngredients(parsed.ingredients.join(', '), req.payload)
+        const decodedIngredients: DecodedIngredient[] = linkResult.parsedIngredients.map(ing => ({
+            name: ing.matchedName || ing.name,
+            linkedId: ing.ingredientId,
+            verdict: (ing.verdict as DecodedIngredient['verdict']) || 'unknown',
             confidence: parsed.confidence,
         }))
 
-        const flaggedToxins: string[] = []
-        const autoVerdict: 'recommend' | 'caution' | 'avoid' | undefined = undefined
-
-        // NOTE: Auto-apply to product disabled - Ingredients collection archived
-        const updatedProductId: number | undefined = undefined
+        const flaggedToxins = decodedIngredients
+            .filter(ing => ing.verdict === 'flagged')
+            .map(ing => ing.name)
+        const autoVerdict = linkResult.autoVerdict || undefined
+
+        // Auto-apply to product: the Products beforeChange hook re-parses ingredientsRaw
+        // and re-links ingredientsList / unmatchedIngredients
+        let updatedProductId: number | undefined = undefined
+        if (autoApply && productId) {
+            await req.payload.update({
+                collection: 'products',
+                id: productId,
+                data: {
+                    ingredientsRaw: parsed.ingredients.join(', '),
+                },
+            })
+            updatedProductId = productId
+        }
 
         // Create audit log
         await createAuditLog(req.payload, {
@@ -162,8 +176,8 @@ Return ONLY a valid JSON object with this exact schema:
             metadata: {
                 method: 'label_decode',
                 ingredientsFound: parsed.ingredients.length,
-                linkedCount: 0, // Ingredient linking disabled
-                unmatchedCount: parsed.ingredients.length,
+                linkedCount: linkResult.linkedIds.length,
+                unmatchedCount: linkResult.unmatched.length,
                 flaggedToxins,
                 unclear: parsed.unclear,
             },
@@ -174,8 +188,8 @@ Return ONLY a valid JSON object with this exact schema:
             success: true,
             rawText: parsed.rawText,
             ingredients: decodedIngredients,
-            linkedCount: 0, // Ingredient linking disabled
-            unmatchedCount: parsed.ingredients.length,
+            linkedCount: linkResult.linkedIds.length,
+            unmatchedCount: linkResult.unmatched.length,
             flaggedToxins,
             autoVerdict,
             productId: updatedProductId,
@@ -144,7 +144,7 @@ const googleOAuthCallback: Endpoint = {
     handler: async (req) => {
         // SECURITY: Rate limit OAuth callbacks to prevent brute force attacks
         const rateLimitKey = getRateLimitKey(req as unknown as Request)
-        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN)
+        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN, req)
         if (!rateLimit.allowed) {
             return Response.redirect(`${FRONTEND_URL}/login?error=rate_limited`)
         }
@@ -329,7 +329,7 @@ const appleOAuthCallback: Endpoint = {
     handler: async (req) => {
         // SECURITY: Rate limit OAuth callbacks to prevent brute force attacks
         const rateLimitKey = getRateLimitKey(req as unknown as Request)
-        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN)
+        const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.LOGIN, req)
         if (!rateLimit.allowed) {
             return Response.redirect(`${FRONTEND_URL}/login?error=rate_limited`)
         }
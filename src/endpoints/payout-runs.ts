@@ -0,0 +1,302 @@
+/**
+ * Referral Payout Run Endpoints
+ *
+ * Batch processing for referral payouts (utilities/payout-runs):
+ * - Create: Batch a period's pending payouts for one provider into a run
+ * - Export: Download the run's PayPal Payouts CSV, Stripe Connect transfer
+ *   JSON or ACH CSV
+ * - Reconcile: Import the provider's result file and settle payouts
+ * - Cancel: Return an unreconciled run's payouts to pending
+ * - Tax report: Per-referrer totals paid in a year, flagged for 1099 filing
+ *
+ * Admin only, like referral payouts.
+ */
+
+import type { Endpoint, PayloadRequest } from 'payload'
+import type { PayoutRun } from '../payload-types'
+import { requireAdmin } from '../access/roleAccess'
+import {
+    validationError,
+    notFoundError,
+    internalError,
+    conflictError,
+} from '../utilities/api-response'
+import {
+    buildPaymentFile,
+    cancelPayoutRun,
+    createPayoutRun,
+    reconcilePayoutRun,
+    referrerYearTotals,
+    runItems,
+    TAX_REPORTING_THRESHOLD,
+    type PayoutProvider,
+} from '../utilities/payout-runs'
+
+const PROVIDERS: PayoutProvider[] = ['paypal', 'stripe', 'ach']
+const PERIOD_PATTERN = /^\d{4}(-\d{2})?$/
+const MAX_RESULT_FILE_LENGTH = 10 * 1024 * 1024
+
+async function findRun(req: PayloadRequest): Promise<PayoutRun | null> {
+    const runId = Number((req.routeParams as Record<string, string>)?.runId)
+    if (!runId) return null
+    return req.payload.findByID({
+        collection: 'payout-runs',
+        id: runId,
+        depth: 0,
+        overrideAccess: true,
+    }).catch(() => null)
+}
+
+function csvCell(value: string | number | boolean): string {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Create Payout Run
+ * POST /api/referral-payout-runs
+ *
+ * Body: { period: "2026" | "2026-01", provider: "paypal" | "stripe" | "ach",
+ *         minimumAmount?: number (default 25), dryRun?: boolean }
+ */
+export const payoutRunCreateHandler: Endpoint = {
+    path: '/referral-payout-runs',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const body = await req.json?.().catch(() => ({})) || {}
+            const { period, provider, minimumAmount, dryRun } = body
+
+            if (typeof period !== 'string' || !PERIOD_PATTERN.test(period)) {
+                return validationError('period must be "YYYY" or "YYYY-MM"')
+            }
+            if (!PROVIDERS.includes(provider)) {
+                return validationError(`provider must be one of: ${PROVIDERS.join(', ')}`)
+            }
+            if (minimumAmount !== undefined && (typeof minimumAmount !== 'number' || minimumAmount < 0)) {
+                return validationError('minimumAmount must be a non-negative number')
+            }
+
+            const { run, plan } = await createPayoutRun(req.payload, {
+                period,
+                provider,
+                minimumAmount,
+                dryRun: Boolean(dryRun),
+            }, req)
+
+            return Response.json({
+                success: true,
+                dryRun: Boolean(dryRun),
+                runId: run?.id ?? null,
+                ...plan,
+            })
+        } catch (error) {
+            console.error('[PayoutRuns] Create error:', error)
+            return internalError('Failed to create payout run')
+        }
+    },
+}
+
+/**
+ * Export Payment File
+ * GET /api/referral-payout-runs/:runId/export
+ */
+export const payoutRunExportHandler: Endpoint = {
+    path: '/referral-payout-runs/:runId/export',
+    method: 'get',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const run = await findRun(req)
+            if (!run) return notFoundError('Payout run')
+            if (run.status === 'cancelled') {
+                return conflictError('Payout run is cancelled')
+            }
+
+            // Only items still awaiting payment, so a re-export can't double pay
+            const items = runItems({
+                ...run,
+                items: run.items?.filter(item => (item.status || 'pending') === 'pending'),
+            })
+            if (items.length === 0) {
+                return conflictError('Payout run has no pending items to export')
+            }
+
+            const file = buildPaymentFile(run.provider, run, items)
+            return new Response(file.body, {
+                headers: {
+                    'Content-Type': file.contentType,
+                    'Content-Disposition': `attachment; filename="${file.filename}"`,
+                },
+            })
+        } catch (error) {
+            console.error('[PayoutRuns] Export error:', error)
+            return internalError('Failed to export payout run')
+        }
+    },
+}
+
+/**
+ * Reconcile Provider Results
+ * POST /api/referral-payout-runs/:runId/reconcile
+ *
+ * Body: { content: string } - PayPal Payouts report CSV, Stripe transfers
+ * JSON, or ACH result CSV with item ids matching the exported file
+ */
+export const payoutRunReconcileHandler: Endpoint = {
+    path: '/referral-payout-runs/:runId/reconcile',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const run = await findRun(req)
+            if (!run) return notFoundError('Payout run')
+            if (run.status === 'cancelled') {
+                return conflictError('Payout run is cancelled')
+            }
+
+            const body = await req.json?.().catch(() => ({})) || {}
+            const { content } = body
+            if (typeof content !== 'string' || !content.trim()) {
+                return validationError('content is required')
+            }
+            if (content.length > MAX_RESULT_FILE_LENGTH) {
+                return validationError('Result file too large (max 10MB)')
+            }
+
+            let result: Awaited<ReturnType<typeof reconcilePayoutRun>>
+            try {
+                result = await reconcilePayoutRun(req.payload, run, content, req)
+            } catch (error) {
+                if (error instanceof Error && /result file/i.test(error.message)) {
+                    return validationError(error.message)
+                }
+                throw error
+            }
+
+            return Response.json({
+                success: true,
+                runId: run.id,
+                status: result.run.status,
+                ...result.summary,
+            })
+        } catch (error) {
+            console.error('[PayoutRuns] Reconcile error:', error)
+            return internalError('Failed to reconcile payout run')
+        }
+    },
+}
+
+/**
+ * Cancel Payout Run
+ * POST /api/referral-payout-runs/:runId/cancel
+ */
+export const payoutRunCancelHandler: Endpoint = {
+    path: '/referral-payout-runs/:runId/cancel',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const run = await findRun(req)
+            if (!run) return notFoundError('Payout run')
+            if (run.status === 'cancelled') {
+                return conflictError('Payout run is already cancelled')
+            }
+            if ((run.items || []).some(item => item.status && item.status !== 'pending')) {
+                return conflictError('Runs with reconciled items cannot be cancelled')
+            }
+
+            const updated = await cancelPayoutRun(req.payload, run, req)
+            return Response.json({ success: true, runId: updated.id, status: updated.status })
+        } catch (error) {
+            console.error('[PayoutRuns] Cancel error:', error)
+            return internalError('Failed to cancel payout run')
+        }
+    },
+}
+
+/**
+ * 1099 Tax Report
+ * GET /api/referral-payout-runs/tax-report?year=2026&format=json|csv
+ *
+ * Every referrer paid in the year with their total and W-9 status;
+ * requires1099 is set at $600+.
+ */
+export const payoutTaxReportHandler: Endpoint = {
+    path: '/referral-payout-runs/tax-report',
+    method: 'get',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const url = new URL(req.url || '', 'http://localhost')
+            const year = parseInt(url.searchParams.get('year') || String(new Date().getUTCFullYear()))
+            if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+                return validationError('year must be a four-digit year')
+            }
+            const format = url.searchParams.get('format') || 'json'
+
+            const totals = await referrerYearTotals(req.payload, year, undefined, req)
+            const referrers = [...totals]
+                .filter(([, referrer]) => referrer.payouts > 0)
+                .map(([referrerId, referrer]) => ({
+                    referrerId,
+                    email: referrer.email,
+                    totalPaid: referrer.total,
+                    payouts: referrer.payouts,
+                    w9Collected: referrer.w9Collected,
+                    requires1099: referrer.total >= TAX_REPORTING_THRESHOLD,
+                }))
+                .sort((a, b) => b.totalPaid - a.totalPaid)
+
+            if (format === 'csv') {
+                const header = ['referrer_id', 'email', 'total_paid', 'payouts', 'w9_collected', 'requires_1099']
+                const lines = referrers.map(referrer => [
+                    referrer.referrerId,
+                    referrer.email,
+                    referrer.totalPaid.toFixed(2),
+                    referrer.payouts,
+                    referrer.w9Collected,
+                    referrer.requires1099,
+                ].map(csvCell).join(','))
+                return new Response([header.join(','), ...lines].join('\n') + '\n', {
+                    headers: {
+                        'Content-Type': 'text/csv',
+                        'Content-Disposition': `attachment; filename="referral-1099-${year}.csv"`,
+                    },
+                })
+            }
+
+            return Response.json({
+                success: true,
+                year,
+                threshold: TAX_REPORTING_THRESHOLD,
+                requires1099: referrers.filter(referrer => referrer.requires1099).length,
+                missingW9: referrers.filter(referrer => referrer.requires1099 && !referrer.w9Collected).length,
+                referrers,
+            })
+        } catch (error) {
+            console.error('[PayoutRuns] Tax report error:', error)
+            return internalError('Failed to build tax report')
+        }
+    },
+}
+
+// Export all handlers
+export const payoutRunEndpoints = [
+    payoutTaxReportHandler,
+    payoutRunCreateHandler,
+    payoutRunExportHandler,
+    payoutRunReconcileHandler,
+    payoutRunCancelHandler,
+]
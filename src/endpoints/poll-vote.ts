@@ -26,9 +26,9 @@ interface VoteRequest {
 export const pollVoteHandler: PayloadHandler = async (req) => {
   // Rate limiting - 20 votes per minute per IP/user (using Vercel KV)
   const rateLimitKey = getRateLimitKey(req as unknown as Request, (req.user as { id?: number })?.id)
-  const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION)
+  const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION, req)
   if (!rateLimit.allowed) {
-    return rateLimitResponse(rateLimit.resetAt)
+    return rateLimitResponse(rateLimit)
   }
 
   try {
@@ -1,5 +1,5 @@
 import type { PayloadHandler, PayloadRequest } from 'payload'
-import { applyLiabilityShield, isPremiumUser } from '../access/liabilityShield'
+import { canViewShieldedProduct, getShieldViewer, isPremiumUser } from '../access/liabilityShield'
 
 /**
  * Find Safe Alternative Endpoint
@@ -407,36 +407,8 @@ export const productAlternativesHandler: PayloadHandler = async (req: PayloadReq
             const archetypes = classifyArchetypes(topAlternatives)
 
             // Check unlocked products for the user/device
-            let unlockedProductIds: Set<string> = new Set()
-
-            if (req.user) {
-                const userData = req.user as { unlockedProducts?: number[] }
-                unlockedProductIds = new Set((userData.unlockedProducts || []).map(String))
-            }
-
-            // Also check device fingerprint unlocks
-            if (fingerprintHash) {
-                const fpResult = await req.payload.find({
-                    collection: 'device-fingerprints' as 'users',
-                    where: { fingerprintHash: { equals: fingerprintHash } },
-                    limit: 1,
-                })
-
-                if (fpResult.docs.length > 0) {
-                    const fpId = (fpResult.docs[0] as { id: number }).id
-                    const unlockResult = await req.payload.find({
-                        collection: 'product-unlocks' as 'users',
-                        where: { deviceFingerprint: { equals: fpId } },
-                        limit: 100,
-                    })
-
-                    for (const unlock of unlockResult.docs) {
-                        const productRef = (unlock as { product?: { id: number } | number }).product
-                        const productId = typeof productRef === 'object' ? productRef?.id : productRef
-                        if (productId) unlockedProductIds.add(String(productId))
-                    }
-                }
-            }
+            const viewer = await getShieldViewer(req, { fingerprintHash })
+            const { unlockedProductIds } = viewer
 
             // Mark locked status for each archetype
             // Premium users: nothing is locked
@@ -468,7 +440,7 @@ export const productAlternativesHandler: PayloadHandler = async (req: PayloadReq
                     name: (sourceProduct as { name: string }).name,
                     verdict: sourceVerdict,
                     harmfulIngredientCount: sourceHarmfulCount,
-                    isShielded: sourceVerdict === 'avoid' && !isPremium,
+                    isShielded: !canViewShieldedProduct(sourceProduct, viewer),
                 },
                 isPremium,
                 totalCandidates: alternativeCandidates.totalDocs,
@@ -6,6 +6,7 @@
  */
 
 import type { PayloadHandler } from 'payload'
+import { canViewShieldedProduct, getShieldViewer, SHIELDED_VERDICT_REASON } from '../access/liabilityShield'
 
 interface ProductFeedItem {
     id: string
@@ -44,6 +45,9 @@ export const productFeedHandler: PayloadHandler = async (req) => {
             sort: '-createdAt', // Newest first
         })
 
+        // Liability Shield: no product copy for FLAGGED products the viewer hasn't unlocked
+        const viewer = await getShieldViewer(req)
+
         // Map to feed items
         const feedItems: ProductFeedItem[] = products.docs.map((product: any) => {
             // Get first image
@@ -67,7 +71,9 @@ export const productFeedHandler: PayloadHandler = async (req) => {
                 summary = 'Contains harmful ingredients'
             }
 
-            if (product.shortDescription) {
+            if (!canViewShieldedProduct(product, viewer)) {
+                summary = SHIELDED_VERDICT_REASON
+            } else if (product.shortDescription) {
                 summary = product.shortDescription
             }
 
@@ -1,4 +1,5 @@
 import type { PayloadRequest } from 'payload'
+import { canViewShieldedProduct, getShieldViewer, SHIELDED_VERDICT_REASON } from '../access/liabilityShield'
 
 /**
  * Product Report API Endpoint
@@ -112,6 +113,9 @@ interface ProductReportResponse {
     healthSummary?: string
     quickVerdict?: string
 
+    /** Liability Shield applied: FLAGGED product, viewer has no premium or unlock */
+    isShielded?: boolean
+
     categoryScores?: Array<{
         category: string
         score: number
@@ -302,6 +306,7 @@ export const productReportHandler = async (req: PayloadRequest): Promise<Respons
                   imageUrl?: string
                   overallScore?: number
                   summary?: string
+                  verdict?: string
                   category?: { name: string } | string
                   updatedAt?: string
               })
@@ -366,6 +371,11 @@ export const productReportHandler = async (req: PayloadRequest): Promise<Respons
                 }
             }
 
+            // Liability Shield: no analysis copy or ingredients for FLAGGED products
+            // the viewer hasn't unlocked
+            const isShielded = !canViewShieldedProduct(internalProduct, await getShieldViewer(req))
+            const summary = isShielded ? SHIELDED_VERDICT_REASON : internalProduct.summary
+
             // Prefer OFF data for product info, fallback to our data
             const response: ProductReportResponse = {
                 source: offProduct ? 'complete' : 'internal',
@@ -374,13 +384,14 @@ export const productReportHandler = async (req: PayloadRequest): Promise<Respons
                 brand: offProduct?.brands || internalProduct.brand || 'Unknown Brand',
                 imageUrl: offProduct?.image_front_url || offProduct?.image_url || internalProduct.imageUrl,
                 category: offProduct?.categories?.split(',')[0]?.trim() || categoryName,
-                ingredients: offProduct?.ingredients_text,
+                ingredients: isShielded ? undefined : offProduct?.ingredients_text,
 
                 // Our proprietary health analysis
                 overallScore,
                 overallGrade,
-                healthSummary: internalProduct.summary || '',
+                healthSummary: summary || '',
                 quickVerdict: getVerdictFromGrade(overallGrade),
+                ...(isShielded && { isShielded: true }),
 
                 categoryScores: [
                     {
@@ -388,7 +399,7 @@ export const productReportHandler = async (req: PayloadRequest): Promise<Respons
                         score: overallScore,
                         grade: overallGrade,
                         label: 'Overall Health Score',
-                        summary: internalProduct.summary || 'Based on lab analysis',
+                        summary: summary || 'Based on lab analysis',
                         factors: [],
                     },
                 ],
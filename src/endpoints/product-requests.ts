@@ -131,9 +131,9 @@ export const productRequestsCreateHandler: PayloadHandler = async (req: PayloadR
     // Rate limiting - 20 requests per minute
     const user = req.user as AuthenticatedUser | undefined
     const rateLimitKey = getRateLimitKey(req as unknown as Request, user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     // Require authentication
@@ -218,9 +218,9 @@ export const productRequestVoteHandler: PayloadHandler = async (req: PayloadRequ
     // Rate limiting - 20 votes per minute
     const user = req.user as AuthenticatedUser | undefined
     const rateLimitKey = getRateLimitKey(req as unknown as Request, user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     // Require authentication
@@ -158,7 +158,7 @@ async function checkVoteRateLimit(
     const minuteKey = `vote:minute:${fingerprint}`
     const minuteResult = await checkRateLimitAsync(minuteKey, RateLimits.VOTING)
     if (!minuteResult.allowed) {
-        return rateLimitResponse(minuteResult.resetAt)
+        return rateLimitResponse(minuteResult)
     }
 
     // Check 3: Per-hour rate limit (100 votes per hour)
@@ -30,6 +30,10 @@
  *               fingerprintHash:
  *                 type: string
  *                 description: Device fingerprint for linking
+ *               timezone:
+ *                 type: string
+ *                 description: IANA timezone of the device, for local-time campaigns and quiet hours
+ *                 example: "America/Chicago"
  *     responses:
  *       200:
  *         description: Token registered/updated
@@ -131,6 +135,7 @@
  */
 
 import type { PayloadRequest } from 'payload'
+import { isValidTimezone } from '../utilities/campaign-schedule'
 
 /**
  * POST /api/push-tokens/register
@@ -146,6 +151,8 @@ export const pushTokenRegisterHandler = async (req: PayloadRequest): Promise<Res
     }
 
     const { token, platform = 'ios', fingerprintHash } = body
+    // Unknown zones are dropped; campaigns fall back to their default zone
+    const timezone = isValidTimezone(body.timezone) ? body.timezone : undefined
 
     // Validate token format (Expo push token)
     if (!token.startsWith('ExponentPushToken[') && !token.startsWith('ExpoPushToken[')) {
@@ -167,6 +174,7 @@ export const pushTokenRegisterHandler = async (req: PayloadRequest): Promise<Res
         data: {
           fingerprintHash: fingerprintHash || existing.docs[0].fingerprintHash,
           platform,
+          timezone: timezone || existing.docs[0].timezone,
           isActive: true,
           failureCount: 0,
           lastActiveAt: new Date().toISOString(),
@@ -187,6 +195,7 @@ export const pushTokenRegisterHandler = async (req: PayloadRequest): Promise<Res
         token,
         platform,
         fingerprintHash,
+        timezone,
         isActive: true,
         failureCount: 0,
         productSubscriptions: [],
@@ -1,13 +1,23 @@
 import type { PayloadHandler, PayloadRequest, Payload } from 'payload'
 import { createAuditLog } from '../collections/AuditLog'
-import { findPotentialDuplicates } from '../utilities/fuzzy-match'
+import { enqueueJob, inlineJob, jobAcceptedResponse, type JobContext } from '../utilities/job-queue'
+import {
+    findRecallMatches,
+    loadBrandNames,
+    type RecallIdentifiers,
+    type RecallInfo,
+    type RecallMatchSignal,
+    type ScoredRecallMatch,
+} from '../utilities/recall-matching'
 
 /**
  * Recall Watchdog Endpoint
  * POST /api/recall/check
  *
  * Checks FDA and CPSC recall databases for products in our catalog.
- * Can be triggered manually or via cron job.
+ * Can be triggered manually or via cron job. Likely matches are queued in
+ * recall-matches for review (utilities/recall-matching); confirming one
+ * flags the product and alerts users who saved it.
  *
  * Data Sources:
  * - FDA Food Recalls: https://api.fda.gov/food/enforcement.json
@@ -15,31 +25,20 @@ import { findPotentialDuplicates } from '../utilities/fuzzy-match'
  * - CPSC Recalls: https://www.saferproducts.gov/RestWebServices/
  */
 
-interface RecallInfo {
-    source: 'fda_food' | 'fda_drug' | 'cpsc'
-    recallNumber: string
-    productDescription: string
-    recallingFirm: string
-    reason: string
-    classification?: string
-    status: string
-    recallDate: string
-    url?: string
-}
-
 interface MatchedProduct {
     productId: number
     productName: string
-    matchScore: number
-    recall: RecallInfo
-    action: 'flagged' | 'already_flagged' | 'error'
+    confidence: number
+    signals: RecallMatchSignal[]
+    recallNumber: string
+    action: 'queued' | 'already_queued' | 'error'
 }
 
 interface WatchdogResult {
     success: boolean
     recallsChecked: number
     productsMatched: number
-    productsFlagged: number
+    matchesQueued: number
     matches: MatchedProduct[]
     errors: string[]
 }
@@ -66,6 +65,7 @@ async function fetchFDAFoodRecalls(): Promise<RecallInfo[]> {
             source: 'fda_food' as const,
             recallNumber: recall.recall_number || recall.event_id || 'unknown',
             productDescription: recall.product_description || '',
+            codeInfo: [recall.code_info, recall.more_code_info].filter(Boolean).join('\n'),
             recallingFirm: recall.recalling_firm || '',
             reason: recall.reason_for_recall || '',
             classification: recall.classification,
@@ -101,6 +101,7 @@ async function fetchFDADrugRecalls(): Promise<RecallInfo[]> {
             source: 'fda_drug' as const,
             recallNumber: recall.recall_number || recall.event_id || 'unknown',
             productDescription: recall.product_description || '',
+            codeInfo: [recall.code_info, recall.more_code_info].filter(Boolean).join('\n'),
             recallingFirm: recall.recalling_firm || '',
             reason: recall.reason_for_recall || '',
             classification: recall.classification,
@@ -114,235 +115,158 @@ async function fetchFDADrugRecalls(): Promise<RecallInfo[]> {
     }
 }
 
-// Match recalls against our product catalog
-async function matchRecallToProducts(
-    recall: RecallInfo,
-    payload: Payload
-): Promise<MatchedProduct[]> {
-    const matches: MatchedProduct[] = []
-
-    // Extract potential product name and brand from recall description
-    const description = recall.productDescription.toLowerCase()
-    const brand = recall.recallingFirm
-
-    // Try fuzzy matching against our products
-    try {
-        const potentialMatches = await findPotentialDuplicates(
-            { name: recall.productDescription, brand },
-            payload,
-            { threshold: 0.7, limit: 5 }
-        )
-
-        for (const match of potentialMatches) {
-            matches.push({
-                productId: match.id,
-                productName: match.name,
-                matchScore: match.score,
-                recall,
-                action: 'flagged',
-            })
-        }
-    } catch (error) {
-        console.error('Error matching recall:', error)
-    }
-
-    return matches
-}
-
-// Flag a product with recall information
-async function flagProductWithRecall(
-    productId: number,
+// Queue a match for review unless this recall/product pair is already queued
+async function queueRecallMatch(
     recall: RecallInfo,
+    match: ScoredRecallMatch,
+    identifiers: RecallIdentifiers,
     payload: Payload
-): Promise<'flagged' | 'already_flagged' | 'error'> {
+): Promise<'queued' | 'already_queued' | 'error'> {
     try {
-        // Get current product state
-        const product = await payload.findByID({
-            collection: 'products',
-            id: productId,
-        }) as { verdict?: string; conflicts?: { detected?: string[] } }
-
-        // Check if already flagged for this recall
-        const existingConflicts = product.conflicts?.detected || []
-        const alreadyFlagged = existingConflicts.some(c =>
-            c.includes(recall.recallNumber) || c.includes('RECALL')
-        )
-
-        if (alreadyFlagged) {
-            return 'already_flagged'
-        }
-
-        // Add recall warning to conflicts
-        const recallWarning = `RECALL ALERT [${recall.recallNumber}]: ${recall.reason} (${recall.recallingFirm})`
+        const existing = await payload.count({
+            collection: 'recall-matches',
+            where: {
+                and: [
+                    { recallNumber: { equals: recall.recallNumber } },
+                    { product: { equals: match.product.id } },
+                ],
+            },
+            overrideAccess: true,
+        })
+        if (existing.totalDocs > 0) return 'already_queued'
 
-        await payload.update({
-            collection: 'products',
-            id: productId,
+        const recallDate = recall.recallDate.match(/^(\d{4})(\d{2})(\d{2})$/)
+        await payload.create({
+            collection: 'recall-matches',
             data: {
-                verdict: 'avoid',
-                verdictOverride: true,
-                verdictOverrideReason: `FDA/CPSC Recall: ${recall.reason}`,
-                freshnessStatus: 'needs_review',
-                conflicts: {
-                    detected: [...existingConflicts, recallWarning],
-                    lastChecked: new Date().toISOString(),
-                },
-            } as Record<string, unknown>,
+                product: match.product.id,
+                brand: match.product.brandId ?? undefined,
+                status: 'pending_review',
+                confidence: match.confidence,
+                signals: match.signals,
+                recallNumber: recall.recallNumber,
+                recallSource: recall.source,
+                classification: recall.classification,
+                recallDate: recallDate ? `${recallDate[1]}-${recallDate[2]}-${recallDate[3]}` : undefined,
+                recallingFirm: recall.recallingFirm,
+                reason: recall.reason,
+                productDescription: recall.productDescription,
+                codeInfo: recall.codeInfo,
+                recallUrl: recall.url,
+                extracted: { ...identifiers, brandSimilarity: match.brandSimilarity, nameSimilarity: match.nameSimilarity },
+            },
+            overrideAccess: true,
         })
-
-        return 'flagged'
+        return 'queued'
     } catch (error) {
-        console.error('Failed to flag product:', error)
+        console.error('Failed to queue recall match:', error)
         return 'error'
     }
 }
 
-export const recallWatchdogHandler: PayloadHandler = async (req: PayloadRequest) => {
-    // Verify authentication (cron jobs use bearer token)
-    const authHeader = req.headers.get('authorization')
-    const cronSecret = process.env.CRON_SECRET
-
-    const isAuthenticated = req.user ||
-        (cronSecret && authHeader === `Bearer ${cronSecret}`)
-
-    if (!isAuthenticated) {
-        return Response.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
+/**
+ * Check recent recalls against the catalog and queue likely matches for review.
+ * Runs as the 'recall-watchdog' job (manual trigger and daily cron).
+ */
+export async function runRecallWatchdog(payload: Payload, job: JobContext = inlineJob): Promise<WatchdogResult> {
     const result: WatchdogResult = {
         success: true,
         recallsChecked: 0,
         productsMatched: 0,
-        productsFlagged: 0,
+        matchesQueued: 0,
         matches: [],
         errors: [],
     }
 
-    try {
-        // Fetch recalls from all sources in parallel
-        const [fdaFoodRecalls, fdaDrugRecalls] = await Promise.all([
-            fetchFDAFoodRecalls(),
-            fetchFDADrugRecalls(),
-        ])
+    // Fetch recalls from all sources in parallel
+    const [fdaFoodRecalls, fdaDrugRecalls] = await Promise.all([
+        fetchFDAFoodRecalls(),
+        fetchFDADrugRecalls(),
+    ])
+
+    const allRecalls = [...fdaFoodRecalls, ...fdaDrugRecalls]
+    result.recallsChecked = allRecalls.length
 
-        const allRecalls = [...fdaFoodRecalls, ...fdaDrugRecalls]
-        result.recallsChecked = allRecalls.length
+    console.log(`Recall Watchdog: Checking ${allRecalls.length} recalls`)
 
-        console.log(`Recall Watchdog: Checking ${allRecalls.length} recalls`)
+    const brands = await loadBrandNames(payload)
 
-        // Process each recall
-        for (const recall of allRecalls) {
-            try {
-                const matches = await matchRecallToProducts(recall, req.payload)
+    // Process each recall
+    for (const [index, recall] of allRecalls.entries()) {
+        await job.progress(index, allRecalls.length, `Checking recall ${recall.recallNumber}`)
+        if (job.isCancelled()) break
 
-                for (const match of matches) {
-                    // Flag the product
-                    const action = await flagProductWithRecall(
-                        match.productId,
-                        recall,
-                        req.payload
-                    )
+        try {
+            const { identifiers, matches } = await findRecallMatches(payload, recall, brands)
 
-                    match.action = action
+            for (const match of matches) {
+                const action = await queueRecallMatch(recall, match, identifiers, payload)
+                if (action === 'queued') result.matchesQueued++
+
+                result.matches.push({
+                    productId: match.product.id,
+                    productName: match.product.name,
+                    confidence: match.confidence,
+                    signals: match.signals,
+                    recallNumber: recall.recallNumber,
+                    action,
+                })
+            }
 
-                    if (action === 'flagged') {
-                        result.productsFlagged++
+            result.productsMatched += matches.length
+        } catch (recallError) {
+            const errorMsg = recallError instanceof Error ? recallError.message : 'Unknown error'
+            result.errors.push(`Error processing recall ${recall.recallNumber}: ${errorMsg}`)
+        }
+    }
 
-                        // Create audit log
-                        await createAuditLog(req.payload, {
-                            action: 'conflict_detected',
-                            sourceType: 'system',
-                            sourceId: recall.recallNumber,
-                            sourceUrl: recall.url,
-                            targetCollection: 'products',
-                            targetId: match.productId,
-                            targetName: match.productName,
-                            metadata: {
-                                recallSource: recall.source,
-                                recallReason: recall.reason,
-                                recallingFirm: recall.recallingFirm,
-                                matchScore: match.matchScore,
-                                classification: recall.classification,
-                            },
-                        })
-                    }
+    // Log summary
+    console.log(`Recall Watchdog Complete: ${result.recallsChecked} recalls checked, ${result.productsMatched} products matched, ${result.matchesQueued} queued for review`)
+    await job.progress(allRecalls.length, allRecalls.length, `${result.matchesQueued} matches queued for review`)
+
+    // Create summary audit log
+    await createAuditLog(payload, {
+        action: 'freshness_check',
+        sourceType: 'system',
+        metadata: {
+            type: 'recall_watchdog',
+            recallsChecked: result.recallsChecked,
+            productsMatched: result.productsMatched,
+            matchesQueued: result.matchesQueued,
+            sources: ['fda_food', 'fda_drug'],
+        },
+    })
+
+    return result
+}
 
-                    result.matches.push(match)
-                }
+/**
+ * Queue a recall check (admin user or cron bearer token)
+ */
+export const recallWatchdogHandler: PayloadHandler = async (req: PayloadRequest) => {
+    // Verify authentication (cron jobs use bearer token)
+    const authHeader = req.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
 
-                result.productsMatched += matches.length
-            } catch (recallError) {
-                const errorMsg = recallError instanceof Error ? recallError.message : 'Unknown error'
-                result.errors.push(`Error processing recall ${recall.recallNumber}: ${errorMsg}`)
-            }
-        }
+    const isAuthenticated = req.user ||
+        (cronSecret && authHeader === `Bearer ${cronSecret}`)
 
-        // Log summary
-        console.log(`Recall Watchdog Complete: ${result.recallsChecked} recalls checked, ${result.productsMatched} products matched, ${result.productsFlagged} flagged`)
+    if (!isAuthenticated) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
 
-        // Create summary audit log
-        await createAuditLog(req.payload, {
-            action: 'freshness_check',
-            sourceType: 'system',
-            metadata: {
-                type: 'recall_watchdog',
-                recallsChecked: result.recallsChecked,
-                productsMatched: result.productsMatched,
-                productsFlagged: result.productsFlagged,
-                sources: ['fda_food', 'fda_drug'],
-            },
+    try {
+        const job = await enqueueJob(req.payload, 'recall-watchdog', {}, {
+            req,
+            requestedBy: (req.user as { id?: number } | null)?.id,
+            unique: true,
         })
-
-        return Response.json(result)
+        return jobAcceptedResponse(job, 'recall-watchdog')
     } catch (error) {
         console.error('Recall Watchdog error:', error)
         return Response.json({
-            ...result,
             success: false,
             error: error instanceof Error ? error.message : 'Watchdog failed',
         }, { status: 500 })
     }
 }
-
-/**
- * Cron job wrapper - call this from cron-jobs.ts
- */
-export async function runRecallWatchdog(payload: Payload): Promise<WatchdogResult> {
-    const result: WatchdogResult = {
-        success: true,
-        recallsChecked: 0,
-        productsMatched: 0,
-        productsFlagged: 0,
-        matches: [],
-        errors: [],
-    }
-
-    try {
-        const [fdaFoodRecalls, fdaDrugRecalls] = await Promise.all([
-            fetchFDAFoodRecalls(),
-            fetchFDADrugRecalls(),
-        ])
-
-        const allRecalls = [...fdaFoodRecalls, ...fdaDrugRecalls]
-        result.recallsChecked = allRecalls.length
-
-        for (const recall of allRecalls) {
-            const matches = await matchRecallToProducts(recall, payload)
-
-            for (const match of matches) {
-                const action = await flagProductWithRecall(match.productId, recall, payload)
-                match.action = action
-                if (action === 'flagged') result.productsFlagged++
-                result.matches.push(match)
-            }
-
-            result.productsMatched += matches.length
-        }
-
-        return result
-    } catch (error) {
-        result.success = false
-        result.errors.push(error instanceof Error ? error.message : 'Unknown error')
-        return result
-    }
-}
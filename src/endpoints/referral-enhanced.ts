@@ -10,6 +10,8 @@
  */
 
 import type { PayloadHandler, PayloadRequest } from 'payload'
+import type { Referral } from '../payload-types'
+import { assessReferralFraud, clientIpOf } from '../utilities/referral-fraud'
 // Note: atomicCommissionAccrual is used in revenuecat-webhook.ts for commission accrual
 // This file primarily does reads and tier calculations, not concurrent updates
 
@@ -464,6 +466,7 @@ export const referralAttributeHandler: PayloadHandler = async (req: PayloadReque
                     referredDeviceId,
                     status: 'pending',
                     source: source || 'mobile',
+                    attributionIp: clientIpOf(req.headers),
                 },
             })
 
@@ -496,6 +499,7 @@ export const referralAttributeHandler: PayloadHandler = async (req: PayloadReque
  *
  * Convert a pending referral to active when the referred user subscribes.
  * Called from RevenueCat webhook or subscription confirmation flow.
+ * The converted referral is fraud-scored; high-risk ones are held for review.
  */
 export const referralConvertHandler: PayloadHandler = async (req: PayloadRequest) => {
     if (req.method !== 'POST') {
@@ -572,7 +576,7 @@ export const referralConvertHandler: PayloadHandler = async (req: PayloadRequest
         const nextCommissionDate = new Date(now)
         nextCommissionDate.setFullYear(nextCommissionDate.getFullYear() + 1)
 
-        await req.payload.update({
+        const activated = await req.payload.update({
             collection: 'referrals',
             id: referral.id,
             data: {
@@ -584,6 +588,12 @@ export const referralConvertHandler: PayloadHandler = async (req: PayloadRequest
                 referredEmail: referredEmail || undefined,
                 yearsActive: 1,
             } as any,
+        }) as Referral
+
+        // Fraud check - high-risk referrals are held before any commission accrues
+        const fraud = await assessReferralFraud(req.payload, activated).catch((error) => {
+            console.error(`[Referral Convert] Fraud check failed for referral ${referral.id}:`, error)
+            return null
         })
 
         // Check for milestone achievements
@@ -600,6 +610,7 @@ export const referralConvertHandler: PayloadHandler = async (req: PayloadRequest
             status: 'active',
             tier,
             commissionRate,
+            heldForReview: fraud?.held ?? false,
             newMilestones: newMilestones.map((m) => ({
                 id: m.id,
                 name: m.name,
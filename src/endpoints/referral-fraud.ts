@@ -0,0 +1,256 @@
+/**
+ * Referral Fraud Review Endpoints
+ *
+ * Review queue for referrals scored by utilities/referral-fraud:
+ * - Queue: Held (or flagged, approved, denied) referrals with their signals
+ *   and held payouts
+ * - Rescore: Re-run scoring on one referral
+ * - Approve / Deny: Release held payouts to "pending", or cancel them and
+ *   mark the referral as fraud (applied by the Referrals fraud review hook)
+ *
+ * Admin only, like referral payouts.
+ */
+
+import type { Endpoint, PayloadRequest, Where } from 'payload'
+import type { Referral, ReferralPayout } from '../payload-types'
+import { requireAdmin } from '../access/roleAccess'
+import {
+    validationError,
+    notFoundError,
+    internalError,
+    conflictError,
+} from '../utilities/api-response'
+import { assessReferralFraud } from '../utilities/referral-fraud'
+
+const QUEUE_STATUSES = ['held', 'flagged', 'approved', 'denied'] as const
+type QueueStatus = typeof QUEUE_STATUSES[number]
+
+function queueWhere(status: QueueStatus): Where {
+    if (status === 'flagged') {
+        // Scored medium risk, not held and not reviewed
+        return {
+            and: [
+                { 'fraud.riskLevel': { equals: 'medium' } },
+                {
+                    or: [
+                        { 'fraud.reviewStatus': { equals: 'none' } },
+                        { 'fraud.reviewStatus': { exists: false } },
+                    ],
+                },
+            ],
+        }
+    }
+    return { 'fraud.reviewStatus': { equals: status } }
+}
+
+async function findReferral(req: PayloadRequest): Promise<Referral | null> {
+    const referralId = Number((req.routeParams as Record<string, string>)?.referralId)
+    if (!referralId) return null
+    return req.payload.findByID({
+        collection: 'referrals',
+        id: referralId,
+        depth: 0,
+        overrideAccess: true,
+    }).catch(() => null)
+}
+
+function serializeReferral(referral: Referral, heldPayouts: ReferralPayout[]) {
+    return {
+        id: referral.id,
+        referralCode: referral.referralCode,
+        referrerId: referral.referrerId,
+        referredDeviceId: referral.referredDeviceId,
+        referredEmail: referral.referredEmail,
+        status: referral.status,
+        firstSubscriptionDate: referral.firstSubscriptionDate,
+        cancelledAt: referral.cancelledAt,
+        refundedAt: referral.refundedAt,
+        fraud: {
+            score: referral.fraud?.score ?? null,
+            riskLevel: referral.fraud?.riskLevel ?? null,
+            reviewStatus: referral.fraud?.reviewStatus || 'none',
+            signals: referral.fraud?.signals ?? [],
+            checkedAt: referral.fraud?.checkedAt,
+            reviewNotes: referral.fraud?.reviewNotes,
+            reviewedAt: referral.fraud?.reviewedAt,
+        },
+        heldPayouts: heldPayouts.map(payout => ({
+            id: payout.id,
+            amount: payout.amount,
+            period: payout.period,
+        })),
+        heldAmount: heldPayouts.reduce((sum, payout) => sum + (payout.amount || 0), 0),
+    }
+}
+
+async function findHeldPayouts(req: PayloadRequest, referralIds: number[]): Promise<Map<number, ReferralPayout[]>> {
+    const byReferral = new Map<number, ReferralPayout[]>()
+    if (referralIds.length === 0) return byReferral
+    const { docs } = await req.payload.find({
+        collection: 'referral-payouts',
+        where: {
+            and: [
+                { heldReferral: { in: referralIds } },
+                { status: { equals: 'held' } },
+            ],
+        },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+    })
+    for (const payout of docs) {
+        const referralId = typeof payout.heldReferral === 'object' ? payout.heldReferral?.id : payout.heldReferral
+        if (!referralId) continue
+        byReferral.set(referralId, [...(byReferral.get(referralId) || []), payout])
+    }
+    return byReferral
+}
+
+/**
+ * Review Queue
+ * GET /api/referral-fraud/queue
+ *
+ * Query: ?status=held|flagged|approved|denied (default held)&limit=50&page=1
+ */
+export const referralFraudQueueHandler: Endpoint = {
+    path: '/referral-fraud/queue',
+    method: 'get',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const url = new URL(req.url || '', 'http://localhost')
+            const status = (url.searchParams.get('status') || 'held') as QueueStatus
+            if (!QUEUE_STATUSES.includes(status)) {
+                return validationError(`status must be one of: ${QUEUE_STATUSES.join(', ')}`)
+            }
+            const limit = Math.min(parseInt(url.searchParams.get('limit') || '50') || 50, 200)
+            const page = Math.max(parseInt(url.searchParams.get('page') || '1') || 1, 1)
+
+            const result = await req.payload.find({
+                collection: 'referrals',
+                where: queueWhere(status),
+                sort: '-fraud.score',
+                limit,
+                page,
+                depth: 0,
+                overrideAccess: true,
+            })
+            const heldPayouts = await findHeldPayouts(req, result.docs.map(doc => doc.id))
+
+            return Response.json({
+                success: true,
+                status,
+                referrals: result.docs.map(doc => serializeReferral(doc, heldPayouts.get(doc.id) || [])),
+                pagination: {
+                    page: result.page,
+                    totalPages: result.totalPages,
+                    totalDocs: result.totalDocs,
+                },
+            })
+        } catch (error) {
+            console.error('[ReferralFraud] Queue error:', error)
+            return internalError('Failed to load review queue')
+        }
+    },
+}
+
+/**
+ * Rescore Referral
+ * POST /api/referral-fraud/:referralId/rescore
+ */
+export const referralFraudRescoreHandler: Endpoint = {
+    path: '/referral-fraud/:referralId/rescore',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const referral = await findReferral(req)
+            if (!referral) return notFoundError('Referral')
+
+            const assessment = await assessReferralFraud(req.payload, referral, req)
+            return Response.json({ success: true, referralId: referral.id, ...assessment })
+        } catch (error) {
+            console.error('[ReferralFraud] Rescore error:', error)
+            return internalError('Failed to rescore referral')
+        }
+    },
+}
+
+/**
+ * Approve / Deny Referral
+ * POST /api/referral-fraud/:referralId/approve
+ * POST /api/referral-fraud/:referralId/deny
+ *
+ * Body: { notes?: string }
+ */
+function createReviewHandler(decision: 'approved' | 'denied'): Endpoint {
+    return {
+        path: `/referral-fraud/:referralId/${decision === 'approved' ? 'approve' : 'deny'}`,
+        method: 'post',
+        handler: async (req) => {
+            const denied = requireAdmin(req)
+            if (denied) return denied
+
+            try {
+                const referral = await findReferral(req)
+                if (!referral) return notFoundError('Referral')
+
+                const current = referral.fraud?.reviewStatus || 'none'
+                if (current === decision) {
+                    return conflictError(`Referral is already ${decision}`)
+                }
+                if (current === 'denied') {
+                    return conflictError('Denied referrals cannot be reopened')
+                }
+
+                const body = await req.json?.().catch(() => ({})) || {}
+                const notes = typeof body.notes === 'string' ? body.notes.trim() : ''
+
+                const heldPayouts = (await findHeldPayouts(req, [referral.id])).get(referral.id) || []
+                const updated = await req.payload.update({
+                    collection: 'referrals',
+                    id: referral.id,
+                    data: {
+                        fraud: {
+                            reviewStatus: decision,
+                            ...(notes && { reviewNotes: notes }),
+                        },
+                    },
+                    depth: 0,
+                    overrideAccess: true,
+                    req,
+                })
+
+                return Response.json({
+                    success: true,
+                    referralId: referral.id,
+                    reviewStatus: decision,
+                    referralStatus: updated.status,
+                    payouts: {
+                        ids: heldPayouts.map(payout => payout.id),
+                        status: decision === 'approved' ? 'pending' : 'cancelled',
+                        amount: heldPayouts.reduce((sum, payout) => sum + (payout.amount || 0), 0),
+                    },
+                })
+            } catch (error) {
+                console.error(`[ReferralFraud] Review (${decision}) error:`, error)
+                return internalError('Failed to review referral')
+            }
+        },
+    }
+}
+
+export const referralFraudApproveHandler = createReviewHandler('approved')
+export const referralFraudDenyHandler = createReviewHandler('denied')
+
+// Export all handlers
+export const referralFraudEndpoints = [
+    referralFraudQueueHandler,
+    referralFraudRescoreHandler,
+    referralFraudApproveHandler,
+    referralFraudDenyHandler,
+]
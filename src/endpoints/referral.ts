@@ -12,6 +12,7 @@
 import type { Endpoint } from 'payload'
 import { trackServer, flushServer } from '../lib/analytics/rudderstack-server'
 import { atomicIncrement } from '../utilities/atomic-operations'
+import { clientIpOf } from '../utilities/referral-fraud'
 
 interface ValidateRequest {
     code: string
@@ -157,6 +158,7 @@ export const registerReferral: Endpoint = {
                         referredDeviceId: body.referredDeviceId,
                         referredUserId: body.referredUserId || null,
                         status: 'pending',
+                        attributionIp: clientIpOf(req.headers),
                     },
                 })
             } catch (createError: any) {
@@ -0,0 +1,56 @@
+import type { PayloadHandler, PayloadRequest } from 'payload'
+import { isStaffEditor } from '../access/roleAccess'
+import { buildImpactReport } from '../utilities/regulatory-feeds'
+
+/**
+ * Regulatory Impact Report Endpoint
+ * GET /api/regulatory/impact
+ *
+ * Lists, for each regulatory change recorded in the window, the published
+ * products that currently contain each of its substances.
+ *
+ * Query:
+ * - since: ISO date (default: 30 days ago)
+ * - affectedOnly: 'true' to drop changes with no affected products
+ *
+ * Requires a staff admin or product_editor.
+ */
+
+const DEFAULT_WINDOW_DAYS = 30
+
+export const regulatoryImpactHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!isStaffEditor(req.user)) {
+        return Response.json({ error: 'Editor access required' }, { status: 403 })
+    }
+
+    const sinceParam = req.searchParams?.get('since')
+    const since = sinceParam ? new Date(sinceParam) : new Date(Date.now() - DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    if (isNaN(since.getTime())) {
+        return Response.json({ error: 'since must be an ISO date' }, { status: 400 })
+    }
+
+    try {
+        const report = await buildImpactReport(req.payload, since)
+        const changes = req.searchParams?.get('affectedOnly') === 'true'
+            ? report.filter(change => change.substances.some(s => s.products.length > 0))
+            : report
+        const productIds = new Set(changes.flatMap(change => change.substances.flatMap(s => s.products.map(p => p.id))))
+
+        return Response.json({
+            success: true,
+            since: since.toISOString(),
+            summary: {
+                changes: changes.length,
+                substancesInCatalog: changes.reduce((sum, c) => sum + c.substances.filter(s => s.ingredientId !== null).length, 0),
+                affectedProducts: productIds.size,
+            },
+            changes,
+        })
+    } catch (error) {
+        console.error('[Regulatory Impact] Error:', error)
+        return Response.json(
+            { error: error instanceof Error ? error.message : 'Impact report failed' },
+            { status: 500 }
+        )
+    }
+}
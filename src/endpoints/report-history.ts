@@ -0,0 +1,132 @@
+import type { PayloadHandler, PayloadRequest } from 'payload'
+import { canViewShieldedProduct, getShieldViewer } from '../access/liabilityShield'
+import { isStaffEditor } from '../access/roleAccess'
+import {
+    buildChangelog,
+    diffSnapshots,
+    findVersion,
+    publicSnapshot,
+    redactChanges,
+    type ReportVersion,
+} from '../utilities/report-versions'
+
+/**
+ * Report History Endpoints
+ *
+ * GET /api/report-history/:productId
+ *   Public "what changed in this report" timeline for the mobile app,
+ *   newest version first, with plain-language change lines.
+ *
+ * GET /api/report-history/:productId/diff?from=1&to=3
+ *   Structured field-level diff between two versions. `to` defaults to the
+ *   latest version and `from` to the version before `to`.
+ *
+ * Only published products are visible to the public. Staff editors and
+ * admins get the full diff including internal change reasons and hidden
+ * detections; everyone else gets the public view, with the Liability Shield
+ * applied to flagged products the viewer hasn't unlocked.
+ */
+
+interface HistoryProduct {
+    id: number
+    name?: string | null
+    status?: string | null
+    verdict?: string | null
+    reportVersions?: ReportVersion[] | null
+}
+
+async function loadProduct(req: PayloadRequest, isEditor: boolean): Promise<HistoryProduct | Response> {
+    const productId = (req.routeParams as Record<string, string>)?.productId
+    if (!productId || !/^\d+$/.test(productId)) {
+        return Response.json({ error: 'Valid product ID required' }, { status: 400 })
+    }
+
+    let product: HistoryProduct
+    try {
+        product = (await req.payload.findByID({
+            collection: 'products',
+            id: Number(productId),
+            depth: 0,
+            overrideAccess: true,
+        })) as unknown as HistoryProduct
+    } catch {
+        return Response.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    if (product.status !== 'published' && !isEditor) {
+        return Response.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    return product
+}
+
+async function isShieldedFor(req: PayloadRequest, product: HistoryProduct): Promise<boolean> {
+    return !canViewShieldedProduct(product, await getShieldViewer(req))
+}
+
+export const reportChangelogHandler: PayloadHandler = async (req: PayloadRequest) => {
+    try {
+        const product = await loadProduct(req, isStaffEditor(req.user))
+        if (product instanceof Response) return product
+
+        const shielded = await isShieldedFor(req, product)
+        const versions = product.reportVersions || []
+
+        return Response.json({
+            productId: product.id,
+            productName: product.name,
+            totalVersions: versions.length,
+            isShielded: shielded,
+            versions: buildChangelog(versions, { shielded }),
+        })
+    } catch (error) {
+        console.error('[Report History] Changelog error:', error)
+        return Response.json({ error: 'Failed to load report history' }, { status: 500 })
+    }
+}
+
+export const reportVersionDiffHandler: PayloadHandler = async (req: PayloadRequest) => {
+    try {
+        const isEditor = isStaffEditor(req.user)
+        const product = await loadProduct(req, isEditor)
+        if (product instanceof Response) return product
+
+        const versions = product.reportVersions || []
+        const toParam = req.searchParams?.get('to')
+        const fromParam = req.searchParams?.get('from')
+
+        const to = findVersion(versions, toParam ? Number(toParam) : undefined)
+        if (!to) {
+            return Response.json({ error: 'Version not found', versions: versions.length }, { status: 404 })
+        }
+
+        const from = findVersion(versions, fromParam ? Number(fromParam) : to.versionNumber - 1)
+        if (fromParam && !from) {
+            return Response.json({ error: `Version ${fromParam} not found` }, { status: 404 })
+        }
+
+        if (isEditor) {
+            return Response.json({
+                productId: product.id,
+                from: from ? { versionNumber: from.versionNumber, publishedAt: from.publishedAt, changeReason: from.changeReason } : null,
+                to: { versionNumber: to.versionNumber, publishedAt: to.publishedAt, changeReason: to.changeReason },
+                disputeReference: to.disputeReference || null,
+                changes: diffSnapshots(from?.snapshot, to.snapshot),
+            })
+        }
+
+        const shielded = await isShieldedFor(req, product)
+        const changes = diffSnapshots(from ? publicSnapshot(from.snapshot) : undefined, publicSnapshot(to.snapshot))
+
+        return Response.json({
+            productId: product.id,
+            from: from ? { versionNumber: from.versionNumber, publishedAt: from.publishedAt } : null,
+            to: { versionNumber: to.versionNumber, publishedAt: to.publishedAt },
+            isShielded: shielded,
+            changes: redactChanges(changes, shielded),
+        })
+    } catch (error) {
+        console.error('[Report History] Diff error:', error)
+        return Response.json({ error: 'Failed to diff report versions' }, { status: 500 })
+    }
+}
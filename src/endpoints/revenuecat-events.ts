@@ -0,0 +1,151 @@
+/**
+ * RevenueCat Event Ledger Endpoints
+ *
+ * Admin tools for the revenuecat-events ledger (utilities/revenuecat-events):
+ * - Replay one: Re-run a single event by its RevenueCat event id, whatever
+ *   its status
+ * - Replay: Re-run matching events oldest first - by default the failed and
+ *   unmatched ones, e.g. after a user has been linked or a bug fixed
+ *
+ * Replays go through the same processing as webhooks: commission accrual
+ * is keyed to the subscription anniversary and events older than one already
+ * applied don't change status, so re-running a processed event is safe.
+ *
+ * Admin only.
+ */
+
+import type { Endpoint } from 'payload'
+import { requireAdmin } from '../access/roleAccess'
+import {
+    validationError,
+    notFoundError,
+    internalError,
+} from '../utilities/api-response'
+import {
+    replayRevenueCatEvents,
+    runLedgerEntry,
+    type LedgerRunResult,
+    type LedgerStatus,
+} from '../utilities/revenuecat-events'
+
+const LEDGER_STATUSES: LedgerStatus[] = ['received', 'processed', 'unmatched', 'skipped', 'failed']
+const MAX_REPLAY = 500
+
+function serializeResult(result: LedgerRunResult) {
+    return {
+        id: result.entry.id,
+        eventId: result.entry.eventId,
+        type: result.entry.type,
+        appUserId: result.entry.appUserId,
+        eventAt: result.entry.eventAt,
+        status: result.status,
+        attempts: result.entry.attempts,
+        outcome: result.outcome ?? null,
+        error: result.error ?? null,
+    }
+}
+
+function isDate(value: unknown): value is string {
+    return typeof value === 'string' && !isNaN(Date.parse(value))
+}
+
+/**
+ * Replay One Event
+ * POST /api/revenuecat-ledger/:eventId/replay
+ */
+export const revenuecatReplayEventHandler: Endpoint = {
+    path: '/revenuecat-ledger/:eventId/replay',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const eventId = (req.routeParams as Record<string, string>)?.eventId
+            if (!eventId) return validationError('eventId is required')
+
+            const { docs } = await req.payload.find({
+                collection: 'revenuecat-events',
+                where: { eventId: { equals: decodeURIComponent(eventId) } },
+                limit: 1,
+                depth: 0,
+                overrideAccess: true,
+            })
+            if (!docs[0]) return notFoundError('RevenueCat event')
+
+            const result = await runLedgerEntry(req.payload, docs[0], req)
+            console.log(`[RevenueCat Ledger] Replayed ${docs[0].eventId}: ${result.status}`)
+
+            return Response.json({ success: result.status !== 'failed', event: serializeResult(result) })
+        } catch (error) {
+            console.error('[RevenueCat Ledger] Replay error:', error)
+            return internalError('Failed to replay event')
+        }
+    },
+}
+
+/**
+ * Replay Events
+ * POST /api/revenuecat-ledger/replay
+ *
+ * Body: {
+ *   status?: Array<'received' | 'processed' | 'unmatched' | 'skipped' | 'failed'>
+ *     (default failed + unmatched + received entries stuck for over 5 minutes),
+ *   appUserId?: string, type?: string, since?: ISO date, until?: ISO date,
+ *   limit?: number (default 100, max 500)
+ * }
+ */
+export const revenuecatReplayHandler: Endpoint = {
+    path: '/revenuecat-ledger/replay',
+    method: 'post',
+    handler: async (req) => {
+        const denied = requireAdmin(req)
+        if (denied) return denied
+
+        try {
+            const body = await req.json?.().catch(() => ({})) || {}
+            const { status, appUserId, type, since, until, limit } = body
+
+            if (status !== undefined && (!Array.isArray(status) || status.some((s: unknown) => !LEDGER_STATUSES.includes(s as LedgerStatus)))) {
+                return validationError(`status must be an array of: ${LEDGER_STATUSES.join(', ')}`)
+            }
+            if ((since !== undefined && !isDate(since)) || (until !== undefined && !isDate(until))) {
+                return validationError('since and until must be ISO dates')
+            }
+            if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+                return validationError('limit must be a positive integer')
+            }
+
+            const results = await replayRevenueCatEvents(req.payload, {
+                status,
+                appUserId: typeof appUserId === 'string' ? appUserId : undefined,
+                type: typeof type === 'string' ? type : undefined,
+                since,
+                until,
+                limit: Math.min(limit ?? 100, MAX_REPLAY),
+            }, req)
+
+            const counts = results.reduce<Record<string, number>>((acc, result) => {
+                acc[result.status] = (acc[result.status] || 0) + 1
+                return acc
+            }, {})
+            console.log(`[RevenueCat Ledger] Replayed ${results.length} event(s):`, counts)
+
+            return Response.json({
+                success: true,
+                replayed: results.length,
+                counts,
+                events: results.map(serializeResult),
+            })
+        } catch (error) {
+            console.error('[RevenueCat Ledger] Replay error:', error)
+            return internalError('Failed to replay events')
+        }
+    },
+}
+
+// Export all handlers
+export const revenuecatLedgerEndpoints = [
+    revenuecatReplayHandler,
+    revenuecatReplayEventHandler,
+]
@@ -2,10 +2,18 @@
  * RevenueCat Webhook Handler
  *
  * Handles subscription lifecycle events from RevenueCat.
- * Updates referral status when:
+ * Events are recorded in the revenuecat-events ledger by event id and applied
+ * once (utilities/revenuecat-events), shared with /api/webhooks/revenuecat:
+ * - Users: subscriptionStatus and memberState
  * - New subscription → Mark referral as 'active', set commission dates
  * - Renewal → Accrue commission, extend next commission date
- * - Cancellation → Mark referral as 'churned'
+ * - Cancellation → Mark referral as 'churned', record cancel / refund timing
+ * - Refund → Reverse unpaid commission
+ * - Transfer → Move the subscription and referral to the new app user
+ *
+ * Every referral is fraud-scored when it converts and again before commission
+ * accrues; high-risk referrals get a "held" payout instead
+ * (utilities/referral-fraud).
  *
  * Commission: $25/year per active referred subscriber
  * Timing: Annual payouts on subscription anniversary
@@ -23,10 +31,16 @@
  *       **Supported Events:**
  *       - `INITIAL_PURCHASE` - New subscription started
  *       - `RENEWAL` - Subscription renewed
- *       - `CANCELLATION` - Subscription cancelled
+ *       - `CANCELLATION` - Subscription cancelled (refunded if `cancel_reason` is `CUSTOMER_SUPPORT`)
  *       - `UNCANCELLATION` - Cancellation reversed
  *       - `EXPIRATION` - Subscription expired
  *       - `BILLING_ISSUE` - Payment failed
+ *       - `PRODUCT_CHANGE` - Product changed, still subscribed
+ *       - `SUBSCRIPTION_PAUSED` - Pause scheduled (expires when it starts)
+ *       - `TRANSFER` - Purchases moved to another app user
+ *       - `NON_RENEWING_PURCHASE`, `SUBSCRIPTION_EXTENDED`, `TEMPORARY_ENTITLEMENT_GRANT`, `REFUND_REVERSED`
+ *
+ *       Events already in the ledger are acknowledged with `duplicate: true`.
  *
  *       **Referral Commission:**
  *       - $25/year per active referred subscriber
@@ -55,7 +69,10 @@
  *                 properties:
  *                   type:
  *                     type: string
- *                     enum: [INITIAL_PURCHASE, RENEWAL, CANCELLATION, UNCANCELLATION, EXPIRATION, BILLING_ISSUE, PRODUCT_CHANGE]
+ *                     enum: [INITIAL_PURCHASE, RENEWAL, CANCELLATION, UNCANCELLATION, EXPIRATION, BILLING_ISSUE, PRODUCT_CHANGE, SUBSCRIPTION_PAUSED, TRANSFER, NON_RENEWING_PURCHASE, SUBSCRIPTION_EXTENDED, TEMPORARY_ENTITLEMENT_GRANT, REFUND_REVERSED]
+ *                   id:
+ *                     type: string
+ *                     description: RevenueCat event ID (ledger key)
  *                   app_user_id:
  *                     type: string
  *                     description: RevenueCat subscriber ID
@@ -78,6 +95,11 @@
  *                 success:
  *                   type: boolean
  *                   example: true
+ *                 status:
+ *                   type: string
+ *                   enum: [processed, unmatched, skipped, received]
+ *                 duplicate:
+ *                   type: boolean
  *       400:
  *         description: Invalid webhook payload
  *       401:
@@ -87,42 +109,11 @@
  */
 
 import type { Endpoint } from 'payload'
-import { trackServer, flushServer } from '../lib/analytics/rudderstack-server'
-import { atomicCommissionAccrual, atomicIncrement } from '../utilities/atomic-operations'
-
-// RevenueCat webhook event types
-type RevenueCatEventType =
-    | 'INITIAL_PURCHASE'
-    | 'RENEWAL'
-    | 'CANCELLATION'
-    | 'UNCANCELLATION'
-    | 'NON_RENEWING_PURCHASE'
-    | 'SUBSCRIPTION_PAUSED'
-    | 'EXPIRATION'
-    | 'BILLING_ISSUE'
-    | 'PRODUCT_CHANGE'
-    | 'TRANSFER'
-
-interface RevenueCatEvent {
-    type: RevenueCatEventType
-    app_user_id: string
-    subscriber_id?: string
-    product_id?: string
-    price?: number
-    currency?: string
-    expiration_at_ms?: number
-    purchased_at_ms?: number
-    event_timestamp_ms: number
-    original_app_user_id?: string
-    aliases?: string[]
-}
-
-interface RevenueCatWebhookPayload {
-    api_version: string
-    event: RevenueCatEvent
-}
-
-const COMMISSION_AMOUNT = 25.00 // $25/year per referral
+import {
+    eventSubscriberId,
+    receiveRevenueCatEvent,
+    type RevenueCatWebhookPayload,
+} from '../utilities/revenuecat-events'
 
 // RevenueCat shared secret for webhook verification
 // Set this in RevenueCat Dashboard → Integrations → Webhooks → Authorization Header
@@ -155,14 +146,16 @@ export const revenuecatWebhookHandler: Endpoint = {
                 console.warn('[RevenueCat Webhook] No REVENUECAT_WEBHOOK_SECRET configured - skipping auth (development only)')
             }
 
-            const body = (typeof req.body === 'object' && req.body !== null ? req.body : {}) as RevenueCatWebhookPayload
+            const body = (typeof req.body === 'object' && req.body !== null && 'event' in req.body
+                ? req.body
+                : await req.json?.().catch(() => null)) as RevenueCatWebhookPayload | null
 
             if (!body?.event) {
                 return Response.json({ error: 'Invalid webhook payload' }, { status: 400 })
             }
 
             const event = body.event
-            const subscriberId = event.app_user_id || event.subscriber_id
+            const subscriberId = eventSubscriberId(event)
 
             if (!subscriberId) {
                 return Response.json({ error: 'Missing subscriber ID' }, { status: 400 })
@@ -170,67 +163,17 @@ export const revenuecatWebhookHandler: Endpoint = {
 
             console.log(`[RevenueCat Webhook] ${event.type} for ${subscriberId}`)
 
-            switch (event.type) {
-                case 'INITIAL_PURCHASE':
-                    await handleNewSubscription(payload, subscriberId, event)
-                    // Track in RudderStack
-                    trackServer('Subscription Started', {
-                        subscriber_id: subscriberId,
-                        product_id: event.product_id,
-                        price: event.price,
-                        currency: event.currency,
-                        source: 'revenuecat',
-                    }, { anonymousId: subscriberId })
-                    break
-
-                case 'RENEWAL':
-                    await handleRenewal(payload, subscriberId, event)
-                    // Track in RudderStack
-                    trackServer('Subscription Renewed', {
-                        subscriber_id: subscriberId,
-                        product_id: event.product_id,
-                        price: event.price,
-                        currency: event.currency,
-                        source: 'revenuecat',
-                    }, { anonymousId: subscriberId })
-                    break
-
-                case 'CANCELLATION':
-                case 'EXPIRATION':
-                    await handleCancellation(payload, subscriberId, event)
-                    // Track in RudderStack
-                    trackServer('Subscription Cancelled', {
-                        subscriber_id: subscriberId,
-                        event_type: event.type,
-                        source: 'revenuecat',
-                    }, { anonymousId: subscriberId })
-                    break
-
-                case 'UNCANCELLATION':
-                    await handleReactivation(payload, subscriberId, event)
-                    // Track in RudderStack
-                    trackServer('Subscription Reactivated', {
-                        subscriber_id: subscriberId,
-                        source: 'revenuecat',
-                    }, { anonymousId: subscriberId })
-                    break
-
-                case 'BILLING_ISSUE':
-                    // Track billing issue
-                    trackServer('Payment Failed', {
-                        subscriber_id: subscriberId,
-                        source: 'revenuecat',
-                    }, { anonymousId: subscriberId })
-                    break
-
-                default:
-                    console.log(`[RevenueCat Webhook] Unhandled event type: ${event.type}`)
+            const result = await receiveRevenueCatEvent(payload, event, req)
+            if (result.status === 'failed') {
+                // RevenueCat retries non-2xx responses; the ledger keeps the error for replay
+                return Response.json({ error: 'Internal server error' }, { status: 500 })
             }
 
-            // Flush events before responding
-            await flushServer()
-
-            return Response.json({ success: true })
+            return Response.json({
+                success: true,
+                status: result.status,
+                duplicate: result.duplicate,
+            })
         } catch (error) {
             console.error('[RevenueCat Webhook] Error:', error)
             return Response.json({ error: 'Internal server error' }, { status: 500 })
@@ -238,238 +181,4 @@ export const revenuecatWebhookHandler: Endpoint = {
     },
 }
 
-/**
- * Handle new subscription - activate referral if exists
- */
-async function handleNewSubscription(
-    payload: any,
-    subscriberId: string,
-    event: RevenueCatEvent
-) {
-    // Find referral by subscriber ID or app_user_id
-    const referrals = await payload.find({
-        collection: 'referrals',
-        where: {
-            or: [
-                { referredDeviceId: { equals: subscriberId } },
-                { revenuecatSubscriberId: { equals: subscriberId } },
-            ],
-        },
-        limit: 1,
-    })
-
-    if (referrals.docs.length === 0) {
-        console.log(`[RevenueCat Webhook] No referral found for ${subscriberId}`)
-        return
-    }
-
-    const referral = referrals.docs[0]
-    const now = new Date()
-    const nextYear = new Date(now)
-    nextYear.setFullYear(nextYear.getFullYear() + 1)
-
-    // Update referral to active status
-    await payload.update({
-        collection: 'referrals',
-        id: referral.id,
-        data: {
-            status: 'active',
-            revenuecatSubscriberId: subscriberId,
-            firstSubscriptionDate: now.toISOString(),
-            lastRenewalDate: now.toISOString(),
-            nextCommissionDate: nextYear.toISOString(),
-            yearsActive: 1,
-        },
-    })
-
-    console.log(`[RevenueCat Webhook] Activated referral ${referral.id} for ${subscriberId}`)
-}
-
-/**
- * Handle subscription renewal - accrue commission
- *
- * Race Condition Fix:
- * - Multiple renewal webhooks can arrive simultaneously for different subscribers
- *   referencing the same referrer
- * - Previously: read totalCommissionPaid -> add COMMISSION_AMOUNT -> write
- * - If two renewals interleaved, one commission would be lost
- * - Now: uses atomicIncrement for totalCommissionPaid and atomicCommissionAccrual
- *   for payout records with retry logic
- */
-async function handleRenewal(
-    payload: any,
-    subscriberId: string,
-    event: RevenueCatEvent
-) {
-    // Find active referral for this subscriber
-    const referrals = await payload.find({
-        collection: 'referrals',
-        where: {
-            revenuecatSubscriberId: { equals: subscriberId },
-            status: { equals: 'active' },
-        },
-        limit: 1,
-    })
-
-    if (referrals.docs.length === 0) {
-        console.log(`[RevenueCat Webhook] No active referral for ${subscriberId}`)
-        return
-    }
-
-    const referral = referrals.docs[0]
-    const now = new Date()
-    const nextYear = new Date(now)
-    nextYear.setFullYear(nextYear.getFullYear() + 1)
-
-    // Check if we should accrue commission (subscription anniversary passed)
-    const nextCommissionDate = referral.nextCommissionDate ? new Date(referral.nextCommissionDate) : null
-
-    if (nextCommissionDate && now >= nextCommissionDate) {
-        // Use atomic increment for commission total to prevent race conditions
-        // This is critical when multiple renewals happen simultaneously
-        try {
-            const newTotalPaid = await atomicIncrement(
-                payload,
-                'referrals',
-                referral.id,
-                'totalCommissionPaid',
-                COMMISSION_AMOUNT
-            )
-
-            // Also increment years active atomically
-            await atomicIncrement(
-                payload,
-                'referrals',
-                referral.id,
-                'yearsActive',
-                1
-            )
-
-            // Update dates (these are less susceptible to race conditions
-            // since they're just setting to current time)
-            await payload.update({
-                collection: 'referrals',
-                id: referral.id,
-                data: {
-                    lastRenewalDate: now.toISOString(),
-                    nextCommissionDate: nextYear.toISOString(),
-                },
-            })
-
-            // Use atomic commission accrual for payout records
-            // This prevents duplicate entries and lost commissions
-            await atomicCommissionAccrual(
-                payload,
-                {
-                    referrerId: referral.referrerId,
-                    referrerEmail: referral.referrerEmail || 'pending@collection.com',
-                    amount: COMMISSION_AMOUNT,
-                    period: new Date().getFullYear().toString(),
-                    referralBreakdownEntry: {
-                        referralId: String(referral.id),
-                        referredEmail: referral.referredEmail,
-                        amount: COMMISSION_AMOUNT,
-                        anniversaryDate: now.toISOString(),
-                    },
-                }
-            )
-
-            console.log(`[RevenueCat Webhook] Accrued $${COMMISSION_AMOUNT} commission for referral ${referral.id} (total: $${newTotalPaid})`)
-        } catch (error) {
-            console.error(`[RevenueCat Webhook] Failed to accrue commission for referral ${referral.id}:`, error)
-            throw error
-        }
-    } else {
-        // Just update renewal date
-        await payload.update({
-            collection: 'referrals',
-            id: referral.id,
-            data: {
-                lastRenewalDate: now.toISOString(),
-            },
-        })
-    }
-}
-
-/**
- * Handle subscription cancellation - mark referral as churned
- */
-async function handleCancellation(
-    payload: any,
-    subscriberId: string,
-    event: RevenueCatEvent
-) {
-    const referrals = await payload.find({
-        collection: 'referrals',
-        where: {
-            revenuecatSubscriberId: { equals: subscriberId },
-            status: { equals: 'active' },
-        },
-        limit: 1,
-    })
-
-    if (referrals.docs.length === 0) {
-        return
-    }
-
-    const referral = referrals.docs[0]
-
-    await payload.update({
-        collection: 'referrals',
-        id: referral.id,
-        data: {
-            status: 'churned',
-        },
-    })
-
-    console.log(`[RevenueCat Webhook] Churned referral ${referral.id}`)
-}
-
-/**
- * Handle subscription reactivation - mark referral as active again
- */
-async function handleReactivation(
-    payload: any,
-    subscriberId: string,
-    event: RevenueCatEvent
-) {
-    const referrals = await payload.find({
-        collection: 'referrals',
-        where: {
-            revenuecatSubscriberId: { equals: subscriberId },
-            status: { equals: 'churned' },
-        },
-        limit: 1,
-    })
-
-    if (referrals.docs.length === 0) {
-        return
-    }
-
-    const referral = referrals.docs[0]
-
-    await payload.update({
-        collection: 'referrals',
-        id: referral.id,
-        data: {
-            status: 'active',
-        },
-    })
-
-    console.log(`[RevenueCat Webhook] Reactivated referral ${referral.id}`)
-}
-
-/**
- * Legacy accrueCommission function - DEPRECATED
- *
- * This function has been replaced by atomicCommissionAccrual from
- * utilities/atomic-operations.ts which provides:
- * - Retry logic for concurrent updates
- * - Duplicate prevention for referral breakdown entries
- * - Atomic read-modify-write cycle
- *
- * Keeping this comment for reference on the old implementation pattern
- * that was susceptible to race conditions.
- */
-
 export default revenuecatWebhookHandler
@@ -11,6 +11,7 @@
 import type { PayloadHandler, PayloadRequest } from 'payload'
 import { lookupBarcode, saveProductFromLookup, BarcodeProduct } from '../utilities/barcode-lookup'
 import { createAuditLog } from '../collections/AuditLog'
+import { canViewShieldedProduct, getShieldViewer } from '../access/liabilityShield'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import {
     validationError,
@@ -119,6 +120,13 @@ export const scannerLookupHandler: PayloadHandler = async (req: PayloadRequest)
                 localProductId = saved.id
             }
 
+            // Liability Shield: no ingredients for FLAGGED products the viewer hasn't unlocked
+            const viewer = await getShieldViewer(req, { fingerprintHash })
+            const isShielded = !canViewShieldedProduct(
+                { id: localProductId, verdict: result.product.verdict },
+                viewer
+            )
+
             return Response.json({
                 found: true,
                 product: {
@@ -128,10 +136,12 @@ export const scannerLookupHandler: PayloadHandler = async (req: PayloadRequest)
                     brand: result.product.brand,
                     description: result.product.description,
                     imageUrl: result.product.imageUrl,
-                    ingredients: result.product.ingredients,
+                    ingredients: isShielded ? undefined : result.product.ingredients,
+                    verdict: result.product.verdict,
                     categories: result.product.categories,
                     source: result.product.source,
                     confidence: result.product.confidence,
+                    ...(isShielded && { isShielded: true }),
                 },
             })
         }
@@ -1,39 +1,11 @@
-import type { PayloadHandler, PayloadRequest } from 'payload'
-
-interface SegmentRule {
-    field: string
-    operator: 'gt' | 'lt' | 'eq' | 'gte' | 'lte' | 'neq' | 'contains'
-    value: string
-}
-
-interface UserSegment {
-    id: number
-    name: string
-    slug: string
-    rules: SegmentRule[]
-    ruleLogic: 'all' | 'any'
-    syncToStatsig: boolean
-    statsigGateName?: string
-    statsigPropertyName?: string
-    syncToRevenueCat: boolean
-    revenueCatAttribute?: string
-    isActive: boolean
-    priority: number
-}
-
-interface UserMetrics {
-    scan_count?: number
-    days_since_install?: number
-    subscription_status?: 'free' | 'trial' | 'active' | 'expired' | 'cancelled'
-    last_active_days?: number
-    streak_days?: number
-    badge_count?: number
-    referral_count?: number
-    platform?: 'ios' | 'android'
-    app_version?: string
-    products_viewed?: number
-    votes_cast?: number
-}
+import type { PayloadHandler, PayloadRequest, Where } from 'payload'
+import {
+    evaluateSegmentRules,
+    getFingerprintSegments,
+    getMetricsForFingerprint,
+    type UserMetrics,
+    type UserSegment,
+} from '../utilities/segment-engine'
 
 interface SyncAction {
     service: 'statsig' | 'revenuecat'
@@ -43,63 +15,32 @@ interface SyncAction {
 }
 
 /**
- * Evaluate a single rule against user metrics
+ * Statsig/RevenueCat updates for a device in the given segments
  */
-function evaluateRule(rule: SegmentRule, metrics: UserMetrics): boolean {
-    const fieldValue = metrics[rule.field as keyof UserMetrics]
-    const ruleValue = rule.value
-
-    // Handle missing metrics
-    if (fieldValue === undefined || fieldValue === null) {
-        return false
-    }
-
-    // Convert values for comparison
-    const numericField = typeof fieldValue === 'number' ? fieldValue : parseFloat(String(fieldValue))
-    const numericRule = parseFloat(ruleValue)
+function buildSyncActions(segments: UserSegment[]): SyncAction[] {
+    const syncActions: SyncAction[] = []
+    for (const segment of segments) {
+        // Add Statsig sync action
+        if (segment.syncToStatsig) {
+            syncActions.push({
+                service: 'statsig',
+                action: 'set_property',
+                name: segment.statsigPropertyName || `segment_${segment.slug}`,
+                value: true,
+            })
+        }
 
-    switch (rule.operator) {
-        case 'gt':
-            return !isNaN(numericField) && !isNaN(numericRule) && numericField > numericRule
-        case 'lt':
-            return !isNaN(numericField) && !isNaN(numericRule) && numericField < numericRule
-        case 'gte':
-            return !isNaN(numericField) && !isNaN(numericRule) && numericField >= numericRule
-        case 'lte':
-            return !isNaN(numericField) && !isNaN(numericRule) && numericField <= numericRule
-        case 'eq':
-            // Support both numeric and string equality
-            if (!isNaN(numericField) && !isNaN(numericRule)) {
-                return numericField === numericRule
-            }
-            return String(fieldValue).toLowerCase() === ruleValue.toLowerCase()
-        case 'neq':
-            if (!isNaN(numericField) && !isNaN(numericRule)) {
-                return numericField !== numericRule
-            }
-            return String(fieldValue).toLowerCase() !== ruleValue.toLowerCase()
-        case 'contains':
-            return String(fieldValue).toLowerCase().includes(ruleValue.toLowerCase())
-        default:
-            return false
+        // Add RevenueCat sync action
+        if (segment.syncToRevenueCat && segment.revenueCatAttribute) {
+            syncActions.push({
+                service: 'revenuecat',
+                action: 'set_attribute',
+                name: segment.revenueCatAttribute,
+                value: 'true',
+            })
+        }
     }
-}
-
-/**
- * Evaluate if a user belongs to a segment
- */
-function evaluateSegment(segment: UserSegment, metrics: UserMetrics): boolean {
-    if (!segment.rules || segment.rules.length === 0) {
-        return false
-    }
-
-    if (segment.ruleLogic === 'any') {
-        // OR logic - any rule must match
-        return segment.rules.some((rule) => evaluateRule(rule, metrics))
-    }
-
-    // AND logic (default) - all rules must match
-    return segment.rules.every((rule) => evaluateRule(rule, metrics))
+    return syncActions
 }
 
 /**
@@ -108,10 +49,14 @@ function evaluateSegment(segment: UserSegment, metrics: UserMetrics): boolean {
  * Evaluate a user against all active segments.
  * Returns matched segments and sync actions for external services.
  *
+ * Metrics are derived server-side from the fingerprint (see
+ * utilities/segment-engine); metrics in the body override them, which is
+ * how the app supplies streak_days, badge_count and app_version.
+ *
  * Request body:
  * {
- *   fingerprintHash: string,
- *   metrics: {
+ *   fingerprintHash?: string,
+ *   metrics?: {
  *     scan_count: number,
  *     days_since_install: number,
  *     subscription_status: string,
@@ -131,52 +76,35 @@ export const segmentsEvaluateHandler: PayloadHandler = async (req: PayloadReques
         const body = await req.json?.()
         const { fingerprintHash, metrics } = body || {}
 
-        if (!metrics || typeof metrics !== 'object') {
+        if ((!metrics || typeof metrics !== 'object') && !fingerprintHash) {
             return Response.json({
                 success: false,
-                error: 'metrics object is required',
+                error: 'metrics object or fingerprintHash is required',
             }, { status: 400 })
         }
 
+        const serverMetrics = typeof fingerprintHash === 'string'
+            ? await getMetricsForFingerprint(req.payload, fingerprintHash)
+            : null
+        const effectiveMetrics: UserMetrics = {
+            ...serverMetrics,
+            ...(metrics && typeof metrics === 'object' ? metrics as UserMetrics : {}),
+        }
+
         // Fetch all active segments
         const { docs: segments } = await req.payload.find({
-            collection: 'user-segments' as any,
+            collection: 'user-segments',
             where: { isActive: { equals: true } },
             sort: '-priority',
             limit: 100,
         })
 
-        const matchedSegments: string[] = []
-        const syncActions: SyncAction[] = []
-
         // Evaluate each segment
-        for (const segment of segments as unknown as UserSegment[]) {
-            const isMatch = evaluateSegment(segment, metrics as UserMetrics)
-
-            if (isMatch) {
-                matchedSegments.push(segment.slug)
-
-                // Add Statsig sync action
-                if (segment.syncToStatsig) {
-                    syncActions.push({
-                        service: 'statsig',
-                        action: 'set_property',
-                        name: segment.statsigPropertyName || `segment_${segment.slug}`,
-                        value: true,
-                    })
-                }
-
-                // Add RevenueCat sync action
-                if (segment.syncToRevenueCat && segment.revenueCatAttribute) {
-                    syncActions.push({
-                        service: 'revenuecat',
-                        action: 'set_attribute',
-                        name: segment.revenueCatAttribute,
-                        value: 'true',
-                    })
-                }
-            }
-        }
+        const matched = (segments as unknown as UserSegment[]).filter((segment) =>
+            evaluateSegmentRules(segment.rules, effectiveMetrics, segment.ruleLogic)
+        )
+        const matchedSegments = matched.map((segment) => segment.slug)
+        const syncActions = buildSyncActions(matched)
 
         return Response.json({
             success: true,
@@ -202,7 +130,7 @@ export const segmentsEvaluateHandler: PayloadHandler = async (req: PayloadReques
 export const segmentsListHandler: PayloadHandler = async (req: PayloadRequest) => {
     try {
         const { docs: segments, totalDocs } = await req.payload.find({
-            collection: 'user-segments' as any,
+            collection: 'user-segments',
             where: { isActive: { equals: true } },
             sort: '-priority',
             limit: 100,
@@ -220,6 +148,7 @@ export const segmentsListHandler: PayloadHandler = async (req: PayloadRequest) =
                 syncToStatsig: s.syncToStatsig,
                 syncToRevenueCat: s.syncToRevenueCat,
                 priority: s.priority,
+                size: s.estimatedSize ?? null,
             })),
             total: totalDocs,
         })
@@ -232,6 +161,96 @@ export const segmentsListHandler: PayloadHandler = async (req: PayloadRequest) =
     }
 }
 
+/**
+ * GET /api/segments/membership?fingerprintHash=...
+ *
+ * Segments a device is in right now, from the materialized membership
+ * table, with the Statsig/RevenueCat sync actions the app should apply.
+ */
+export const segmentsMembershipHandler: PayloadHandler = async (req: PayloadRequest) => {
+    try {
+        const url = new URL(req.url || '', 'http://localhost')
+        const fingerprintHash = url.searchParams.get('fingerprintHash')
+
+        if (!fingerprintHash) {
+            return Response.json({
+                success: false,
+                error: 'fingerprintHash is required',
+            }, { status: 400 })
+        }
+
+        const segments = await getFingerprintSegments(req.payload, fingerprintHash)
+
+        return Response.json({
+            success: true,
+            fingerprintHash,
+            segments: segments.map((segment) => segment.slug),
+            syncActions: buildSyncActions(segments),
+        })
+    } catch (error) {
+        console.error('[Segments Membership] Error:', error)
+        return Response.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to get membership',
+        }, { status: 500 })
+    }
+}
+
+/**
+ * GET /api/segments/events?since=ISO&segment=slug&limit=500
+ *
+ * Membership changes (entered/exited) in creation order, for syncing to
+ * external services. Requires the backend API key (x-api-key) or an admin
+ * session.
+ */
+export const segmentsEventsHandler: PayloadHandler = async (req: PayloadRequest) => {
+    const apiKey = req.headers.get('x-api-key')
+    const isBackend = !!apiKey && apiKey === process.env.PAYLOAD_API_SECRET
+    if (!isBackend && (req.user as { role?: string } | null)?.role !== 'admin') {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const url = new URL(req.url || '', 'http://localhost')
+        const since = url.searchParams.get('since')
+        const slug = url.searchParams.get('segment')
+        const limit = Math.min(Number(url.searchParams.get('limit')) || 500, 1000)
+
+        const and: Where[] = []
+        if (since) and.push({ createdAt: { greater_than: since } })
+        if (slug) and.push({ 'segment.slug': { equals: slug } })
+
+        const { docs } = await req.payload.find({
+            collection: 'segment-events',
+            where: { and },
+            sort: 'createdAt',
+            limit,
+            depth: 1,
+            overrideAccess: true,
+        })
+
+        return Response.json({
+            success: true,
+            events: docs.map((event) => ({
+                id: event.id,
+                segment: typeof event.segment === 'object' ? event.segment.slug : event.segment,
+                change: event.change,
+                fingerprintHash: event.fingerprintHash,
+                userId: typeof event.user === 'object' ? event.user?.id ?? null : event.user ?? null,
+                createdAt: event.createdAt,
+            })),
+            // Pass as ?since= to continue
+            next: docs.length === limit ? docs[docs.length - 1].createdAt : null,
+        })
+    } catch (error) {
+        console.error('[Segments Events] Error:', error)
+        return Response.json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to list events',
+        }, { status: 500 })
+    }
+}
+
 /**
  * GET /api/segments/:slug
  *
@@ -250,7 +269,7 @@ export const segmentsGetHandler: PayloadHandler = async (req: PayloadRequest) =>
         }
 
         const { docs: segments } = await req.payload.find({
-            collection: 'user-segments' as any,
+            collection: 'user-segments',
             where: { slug: { equals: slug } },
             limit: 1,
         })
@@ -72,9 +72,9 @@ export const seoGenerateHandler: PayloadHandler = async (req: PayloadRequest) =>
 
     // Rate limiting (using Vercel KV for serverless)
     const rateLimitKey = getRateLimitKey(req as unknown as Request, req.user?.id)
-    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION)
+    const rateLimit = await checkRateLimitAsync(rateLimitKey, RateLimits.CONTENT_GENERATION, req)
     if (!rateLimit.allowed) {
-        return rateLimitResponse(rateLimit.resetAt)
+        return rateLimitResponse(rateLimit)
     }
 
     if (!process.env.GEMINI_API_KEY) {
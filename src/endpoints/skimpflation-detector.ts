@@ -1,6 +1,13 @@
 import type { PayloadHandler, PayloadRequest, Payload } from 'payload'
+import type { PriceHistory } from '../payload-types'
 import { createAuditLog } from '../collections/AuditLog'
-import { normalizeSizeToOz, runGlobalAnomalyDetection, analyzeProductPriceHistory } from '../utilities/anomaly-detection'
+import {
+    countIngredients,
+    normalizeSizeToOz,
+    runGlobalAnomalyDetection,
+    analyzeProductPriceHistory,
+} from '../utilities/anomaly-detection'
+import { detectRetailer, scrapeListing, type ScrapedListing } from '../utilities/retailer-adapters'
 
 /**
  * Skimpflation Detector Endpoint
@@ -10,7 +17,7 @@ import { normalizeSizeToOz, runGlobalAnomalyDetection, analyzeProductPriceHistor
  * Can be triggered manually or via cron job.
  *
  * Operations:
- * - scrape: Capture current prices for products
+ * - scrape: Capture current prices for products (utilities/retailer-adapters)
  * - analyze: Run anomaly detection on price history
  * - report: Generate skimpflation report
  */
@@ -20,7 +27,11 @@ interface ScrapeResult {
     productName: string
     retailer: string
     price?: number
+    salePrice?: number
     size?: string
+    unitCount?: number
+    source?: ScrapedListing['source']
+    warnings?: string[]
     success: boolean
     error?: string
 }
@@ -34,71 +45,6 @@ interface DetectorResult {
     errors: string[]
 }
 
-// Simple price extraction from product page (mock for now - would use Playwright in production)
-async function scrapeProductPrice(
-    productUrl: string,
-    retailer: string
-): Promise<{
-    price?: number
-    salePrice?: number
-    size?: string
-    inStock?: boolean
-    error?: string
-}> {
-    try {
-        // In production, this would use Playwright or a scraping service
-        // For now, we'll use a simple fetch to get page content
-        const response = await fetch(productUrl, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (compatible; ProductReportBot/1.0)',
-            },
-        })
-
-        if (!response.ok) {
-            return { error: `HTTP ${response.status}` }
-        }
-
-        const html = await response.text()
-
-        // Simple regex patterns for common price formats
-        // In production, this would be retailer-specific parsing
-        let price: number | undefined
-        let size: string | undefined
-
-        // Try to find price patterns
-        const pricePatterns = [
-            /\$(\d+\.\d{2})/,
-            /price["\s:]+\$?(\d+\.\d{2})/i,
-            /data-price="(\d+\.\d{2})"/i,
-        ]
-
-        for (const pattern of pricePatterns) {
-            const match = html.match(pattern)
-            if (match) {
-                price = parseFloat(match[1])
-                break
-            }
-        }
-
-        // Try to find size patterns
-        const sizePatterns = [
-            /(\d+(?:\.\d+)?\s*(?:oz|fl\.?\s*oz|ml|l|lb|g|kg))/i,
-        ]
-
-        for (const pattern of sizePatterns) {
-            const match = html.match(pattern)
-            if (match) {
-                size = match[1]
-                break
-            }
-        }
-
-        return { price, size }
-    } catch (error) {
-        return { error: error instanceof Error ? error.message : 'Scrape failed' }
-    }
-}
-
 // Scrape prices for products with URLs
 async function scrapeProductPrices(
     payload: Payload,
@@ -143,53 +89,61 @@ async function scrapeProductPrices(
             if (!url) continue
 
             // Detect retailer from URL or use provided name
-            let detectedRetailer = link.retailer?.toLowerCase() || 'unknown'
-            if (detectedRetailer === 'unknown') {
-                if (url.includes('amazon.com')) detectedRetailer = 'amazon'
-                else if (url.includes('walmart.com')) detectedRetailer = 'walmart'
-                else if (url.includes('target.com')) detectedRetailer = 'target'
-                else if (url.includes('costco.com')) detectedRetailer = 'costco'
-            }
+            const detectedRetailer = link.retailer?.toLowerCase() || detectRetailer(url) || 'unknown'
 
             if (retailer && detectedRetailer !== retailer.toLowerCase()) {
                 continue // Skip if retailer filter doesn't match
             }
 
-            // Scrape the price
-            const scrapeResult = await scrapeProductPrice(url, detectedRetailer)
+            let listing: ScrapedListing | null = null
+            let scrapeError: string | undefined
+            try {
+                listing = await scrapeListing(url, detectedRetailer)
+            } catch (error) {
+                scrapeError = error instanceof Error ? error.message : 'Scrape failed'
+            }
 
-            if (scrapeResult.price) {
+            if (listing?.price) {
                 // Store in price history
-                const sizeNormalized = scrapeResult.size ? normalizeSizeToOz(scrapeResult.size) : undefined
+                const sizeNormalized = listing.size ? normalizeSizeToOz(listing.size) : null
+                const effectivePrice = listing.salePrice ?? listing.price
+                const totalOz = sizeNormalized ? sizeNormalized * (listing.unitCount || 1) : null
 
-                // Count ingredients for skimpflation tracking
-                const ingredientCount = productData.ingredientsRaw
-                    ? productData.ingredientsRaw.split(',').length
-                    : undefined
+                // Prefer the retailer's ingredient panel; fall back to ours
+                const ingredientsSnapshot = listing.ingredients || productData.ingredientsRaw
 
                 try {
-                    await (payload.create as Function)({
+                    await payload.create({
                         collection: 'price-history',
                         data: {
                             product: productData.id,
-                            price: scrapeResult.price,
-                            salePrice: scrapeResult.salePrice,
-                            size: scrapeResult.size,
-                            sizeNormalized,
-                            retailer: detectedRetailer,
+                            price: listing.price,
+                            salePrice: listing.salePrice ?? undefined,
+                            pricePerUnit: totalOz ? Math.round((effectivePrice / totalOz) * 1000) / 1000 : undefined,
+                            size: listing.size ?? undefined,
+                            sizeNormalized: sizeNormalized ?? undefined,
+                            unitCount: listing.unitCount ?? undefined,
+                            retailer: detectedRetailer as PriceHistory['retailer'],
                             sourceUrl: url,
+                            extractedFrom: listing.source ?? undefined,
                             capturedAt: new Date().toISOString(),
-                            ingredientsSnapshot: productData.ingredientsRaw,
-                            ingredientCount,
+                            ingredientsSnapshot,
+                            ingredientsSource: listing.ingredients ? 'retailer' : 'product',
+                            ingredientCount: ingredientsSnapshot ? countIngredients(ingredientsSnapshot) : undefined,
                         },
+                        overrideAccess: true,
                     })
 
                     results.push({
                         productId: productData.id,
                         productName: productData.name,
                         retailer: detectedRetailer,
-                        price: scrapeResult.price,
-                        size: scrapeResult.size,
+                        price: listing.price,
+                        salePrice: listing.salePrice ?? undefined,
+                        size: listing.size ?? undefined,
+                        unitCount: listing.unitCount ?? undefined,
+                        source: listing.source,
+                        warnings: listing.warnings,
                         success: true,
                     })
                 } catch (error) {
@@ -207,7 +161,7 @@ async function scrapeProductPrices(
                     productName: productData.name,
                     retailer: detectedRetailer,
                     success: false,
-                    error: scrapeResult.error || 'Could not extract price',
+                    error: scrapeError || listing?.warnings.join('; ') || 'Could not extract price',
                 })
             }
 
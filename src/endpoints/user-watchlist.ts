@@ -1,70 +1,236 @@
-import type { PayloadHandler } from 'payload'
-import { goneError } from '../utilities/api-response'
+import type { PayloadHandler, PayloadRequest } from 'payload'
+import { canViewShieldedProduct, getShieldViewer } from '../access/liabilityShield'
+
+// Maximum number of ingredients a user can watch
+const MAX_WATCHLIST_SIZE = 200
+
+interface WatchlistItem {
+    ingredientId: number
+    ingredientName: string
+    reason?: string
+    dateAdded: string
+}
 
 /**
  * User Ingredient Watchlist Endpoints
  *
- * NOTE: Disabled - Ingredients collection has been archived.
- * All endpoints return 410 Gone status.
+ * Personal "avoid list" of registry ingredients, stored on Users.ingredientWatchlist.
  *
  * @openapi
- * /user/watchlist:
+ * /users/me/watchlist:
  *   get:
- *     summary: Get user's ingredient watchlist (DISABLED)
- *     description: |
- *       This feature has been disabled. The Ingredients collection has been archived.
- *       All requests will receive a 410 Gone status.
+ *     summary: Get user's ingredient watchlist
  *     tags: [User, Watchlist]
- *     deprecated: true
  *     responses:
- *       410:
- *         description: Feature has been disabled
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 error:
- *                   type: string
- *                   example: "Ingredient watchlist feature has been disabled"
+ *       200:
+ *         description: Watchlist entries
+ *       401:
+ *         description: Login required
  *   post:
- *     summary: Add ingredient to watchlist (DISABLED)
- *     description: |
- *       This feature has been disabled. The Ingredients collection has been archived.
- *       All requests will receive a 410 Gone status.
+ *     summary: Add ingredient to watchlist
  *     tags: [User, Watchlist]
- *     deprecated: true
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [ingredientId]
+ *             properties:
+ *               ingredientId:
+ *                 type: integer
+ *               reason:
+ *                 type: string
  *     responses:
- *       410:
- *         description: Feature has been disabled
+ *       201:
+ *         description: Ingredient added
+ *       404:
+ *         description: Ingredient not found
+ *       409:
+ *         description: Already on watchlist
  *   delete:
- *     summary: Remove ingredient from watchlist (DISABLED)
- *     description: |
- *       This feature has been disabled. The Ingredients collection has been archived.
- *       All requests will receive a 410 Gone status.
+ *     summary: Remove ingredient from watchlist
  *     tags: [User, Watchlist]
- *     deprecated: true
  *     responses:
- *       410:
- *         description: Feature has been disabled
+ *       200:
+ *         description: Ingredient removed
+ *       404:
+ *         description: Ingredient not on watchlist
  *
  * @openapi
- * /user/watchlist/check-conflicts:
+ * /users/me/watchlist/check:
  *   post:
- *     summary: Check product for watchlist conflicts (DISABLED)
+ *     summary: Check a product for watchlist conflicts
  *     description: |
- *       This feature has been disabled. The Ingredients collection has been archived.
- *       All requests will receive a 410 Gone status.
+ *       Returns watchlist ingredients linked to the product.
+ *       Ingredient data for FLAGGED products is only returned to premium users.
  *     tags: [User, Watchlist]
- *     deprecated: true
  *     responses:
- *       410:
- *         description: Feature has been disabled
+ *       200:
+ *         description: Conflicts found (may be empty)
  */
 
-const disabledResponse = () => goneError('Ingredient watchlist feature has been disabled')
+function parseId(value: unknown): number | null {
+    const id = typeof value === 'string' ? parseInt(value, 10) : value
+    return typeof id === 'number' && !isNaN(id) ? id : null
+}
+
+async function getWatchlist(req: PayloadRequest): Promise<WatchlistItem[]> {
+    const user = await req.payload.findByID({
+        collection: 'users',
+        id: req.user!.id,
+        depth: 0,
+    })
+    const watchlist = (user as { ingredientWatchlist?: unknown }).ingredientWatchlist
+    return Array.isArray(watchlist) ? (watchlist as WatchlistItem[]) : []
+}
+
+async function saveWatchlist(req: PayloadRequest, watchlist: WatchlistItem[]): Promise<void> {
+    await req.payload.update({
+        collection: 'users',
+        id: req.user!.id,
+        data: { ingredientWatchlist: watchlist },
+    })
+}
+
+export const userWatchlistGetHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Login required' }, { status: 401 })
+    }
+
+    try {
+        const watchlist = await getWatchlist(req)
+        return Response.json({ watchlist, count: watchlist.length })
+    } catch (error) {
+        console.error('Get watchlist error:', error)
+        return Response.json({ error: 'Failed to fetch watchlist' }, { status: 500 })
+    }
+}
+
+export const userWatchlistAddHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Login required' }, { status: 401 })
+    }
+
+    try {
+        const body = await req.json?.()
+        const ingredientId = parseId(body?.ingredientId)
+        if (ingredientId === null) {
+            return Response.json({ error: 'ingredientId is required' }, { status: 400 })
+        }
+
+        const watchlist = await getWatchlist(req)
+        if (watchlist.length >= MAX_WATCHLIST_SIZE) {
+            return Response.json(
+                { error: `Maximum ${MAX_WATCHLIST_SIZE} ingredients can be watched` },
+                { status: 400 }
+            )
+        }
+        if (watchlist.some(item => item.ingredientId === ingredientId)) {
+            return Response.json({ error: 'Ingredient already on watchlist' }, { status: 409 })
+        }
+
+        let ingredientName: string
+        try {
+            const ingredient = await req.payload.findByID({
+                collection: 'ingredients',
+                id: ingredientId,
+                depth: 0,
+            })
+            ingredientName = ingredient.name
+        } catch {
+            return Response.json({ error: 'Ingredient not found' }, { status: 404 })
+        }
+
+        const reason = typeof body?.reason === 'string' ? body.reason.trim().slice(0, 200) : ''
+        const updated: WatchlistItem[] = [
+            ...watchlist,
+            {
+                ingredientId,
+                ingredientName,
+                ...(reason && { reason }),
+                dateAdded: new Date().toISOString(),
+            },
+        ]
+        await saveWatchlist(req, updated)
+
+        return Response.json({ success: true, watchlist: updated, added: ingredientId }, { status: 201 })
+    } catch (error) {
+        console.error('Add watchlist error:', error)
+        return Response.json({ error: 'Failed to add ingredient' }, { status: 500 })
+    }
+}
+
+export const userWatchlistRemoveHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Login required' }, { status: 401 })
+    }
+
+    try {
+        const body = await req.json?.()
+        const ingredientId = parseId(body?.ingredientId)
+        if (ingredientId === null) {
+            return Response.json({ error: 'ingredientId is required' }, { status: 400 })
+        }
+
+        const watchlist = await getWatchlist(req)
+        if (!watchlist.some(item => item.ingredientId === ingredientId)) {
+            return Response.json({ error: 'Ingredient not on watchlist' }, { status: 404 })
+        }
+
+        const updated = watchlist.filter(item => item.ingredientId !== ingredientId)
+        await saveWatchlist(req, updated)
+
+        return Response.json({ success: true, watchlist: updated, removed: ingredientId })
+    } catch (error) {
+        console.error('Remove watchlist error:', error)
+        return Response.json({ error: 'Failed to remove ingredient' }, { status: 500 })
+    }
+}
+
+export const checkWatchlistConflictsHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Login required' }, { status: 401 })
+    }
+
+    try {
+        const body = await req.json?.()
+        const productId = parseId(body?.productId)
+        if (productId === null) {
+            return Response.json({ error: 'productId is required' }, { status: 400 })
+        }
+
+        const watchlist = await getWatchlist(req)
+        if (watchlist.length === 0) {
+            return Response.json({ conflicts: [] })
+        }
+
+        let product: { id: number; verdict?: string | null; ingredientsList?: Array<number | { id: number }> | null }
+        try {
+            product = await req.payload.findByID({
+                collection: 'products',
+                id: productId,
+                depth: 0,
+                overrideAccess: true,
+            })
+        } catch {
+            return Response.json({ error: 'Product not found' }, { status: 404 })
+        }
+
+        // Liability Shield: ingredient data on FLAGGED products is premium-only (or unlocked)
+        if (!canViewShieldedProduct(product, await getShieldViewer(req))) {
+            return Response.json({ conflicts: [], isShielded: true })
+        }
+
+        const productIngredientIds = new Set(
+            (product.ingredientsList || []).map(ing => (typeof ing === 'object' ? ing.id : ing))
+        )
+        const conflicts = watchlist
+            .filter(item => productIngredientIds.has(item.ingredientId))
+            .map(({ ingredientId, ingredientName, reason }) => ({ ingredientId, ingredientName, reason }))
 
-export const userWatchlistGetHandler: PayloadHandler = async () => disabledResponse()
-export const userWatchlistAddHandler: PayloadHandler = async () => disabledResponse()
-export const userWatchlistRemoveHandler: PayloadHandler = async () => disabledResponse()
-export const checkWatchlistConflictsHandler: PayloadHandler = async () => disabledResponse()
+        return Response.json({ conflicts })
+    } catch (error) {
+        console.error('Check watchlist error:', error)
+        return Response.json({ error: 'Failed to check watchlist' }, { status: 500 })
+    }
+}
@@ -0,0 +1,82 @@
+import type { PayloadHandler, PayloadRequest } from 'payload'
+import { isStaffEditor } from '../access/roleAccess'
+import {
+    simulateVerdictRules,
+    simulationToCsv,
+    validateDraftRule,
+    type SimulationOptions,
+} from '../utilities/verdict-simulator'
+
+/**
+ * Verdict Rule Simulation Endpoint
+ * POST /api/verdict-simulator
+ *
+ * Dry-runs a draft VerdictRule and/or a priority re-ordering across the catalog
+ * and returns the verdict changes it would cause. Nothing is saved and rule
+ * appliedCount is not touched.
+ *
+ * Body:
+ * - draftRule: { name, conditionType, action, ...condition fields } (optional, id = edit existing rule)
+ * - priorityOverrides: { [ruleId]: priority } (optional)
+ * - disabledRuleIds: number[] (optional)
+ * - category: number (optional)
+ * - format: 'json' | 'csv' (default json; also accepted as ?format=csv)
+ *
+ * Requires a staff admin or product_editor.
+ */
+
+const MAX_SIMULATION_PRODUCTS = 20000
+
+export const verdictRuleSimulateHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!isStaffEditor(req.user)) {
+        return Response.json({ error: 'Editor access required' }, { status: 403 })
+    }
+
+    try {
+        const body = (await req.json?.()) || {}
+        const format = body.format || req.searchParams?.get('format') || 'json'
+
+        const options: SimulationOptions = {
+            draftRule: body.draftRule,
+            priorityOverrides: body.priorityOverrides,
+            disabledRuleIds: Array.isArray(body.disabledRuleIds) ? body.disabledRuleIds : undefined,
+            category: typeof body.category === 'number' ? body.category : undefined,
+            maxProducts: Math.min(Number(body.maxProducts) || MAX_SIMULATION_PRODUCTS, MAX_SIMULATION_PRODUCTS),
+        }
+
+        if (!options.draftRule && !options.priorityOverrides && !options.disabledRuleIds) {
+            return Response.json(
+                { error: 'Provide draftRule, priorityOverrides or disabledRuleIds to simulate' },
+                { status: 400 }
+            )
+        }
+
+        if (options.draftRule) {
+            const validationError = validateDraftRule(options.draftRule)
+            if (validationError) {
+                return Response.json({ error: validationError }, { status: 400 })
+            }
+        }
+
+        const result = await simulateVerdictRules(req.payload, options)
+
+        if (format === 'csv') {
+            const filename = `verdict-rule-simulation-${new Date().toISOString().slice(0, 10)}.csv`
+            return new Response(simulationToCsv(result), {
+                status: 200,
+                headers: {
+                    'Content-Type': 'text/csv',
+                    'Content-Disposition': `attachment; filename="${filename}"`,
+                },
+            })
+        }
+
+        return Response.json({ success: true, ...result })
+    } catch (error) {
+        console.error('[Verdict Rule Simulate] Error:', error)
+        return Response.json(
+            { error: error instanceof Error ? error.message : 'Simulation failed' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,5 +1,6 @@
-import type { PayloadHandler } from 'payload'
+import type { Payload, PayloadHandler } from 'payload'
 import type { PayloadRequest } from 'payload'
+import { enqueueJob, inlineJob, jobAcceptedResponse, type JobContext } from '../utilities/job-queue'
 
 interface YouTubeVideo {
     id: string
@@ -62,169 +63,200 @@ function getShortsPlaylistId(channelId: string): string | null {
     return null
 }
 
-export const youtubeSyncHandler: PayloadHandler = async (req: PayloadRequest) => {
-    try {
-        const { payload } = req
+interface YouTubeSyncConfig {
+    apiKey: string
+    shortsPlaylistId: string
+    maxVideosToSync: number
+}
 
-        // Get YouTube settings
-        const settings = await payload.findGlobal({
-            slug: 'youtube-settings',
-        })
+/**
+ * Read and validate the youtube-settings global
+ */
+async function getSyncConfig(payload: Payload): Promise<YouTubeSyncConfig | { error: string }> {
+    const settings = await payload.findGlobal({
+        slug: 'youtube-settings',
+    })
 
-        const { channelId, apiKey, maxVideosToSync = 50 } = settings as {
-            channelId?: string
-            apiKey?: string
-            maxVideosToSync?: number
-        }
+    const { channelId, apiKey, maxVideosToSync = 50 } = settings as {
+        channelId?: string
+        apiKey?: string
+        maxVideosToSync?: number
+    }
 
-        if (!channelId || !apiKey) {
-            return Response.json(
-                { error: 'YouTube channel ID and API key are required. Configure in CMS Settings.' },
-                { status: 400 }
-            )
-        }
+    if (!channelId || !apiKey) {
+        return { error: 'YouTube channel ID and API key are required. Configure in CMS Settings.' }
+    }
 
-        // Get the Shorts playlist ID from the channel ID
-        const shortsPlaylistId = getShortsPlaylistId(channelId)
+    // Get the Shorts playlist ID from the channel ID
+    const shortsPlaylistId = getShortsPlaylistId(channelId)
 
-        if (!shortsPlaylistId) {
-            return Response.json(
-                { error: 'Invalid channel ID format. Must start with "UC".' },
-                { status: 400 }
-            )
-        }
+    if (!shortsPlaylistId) {
+        return { error: 'Invalid channel ID format. Must start with "UC".' }
+    }
 
-        console.log(`[YouTube Sync] Fetching Shorts from playlist: ${shortsPlaylistId}`)
-
-        // Fetch videos from the Shorts playlist (UUSH...)
-        const playlistUrl = new URL('https://www.googleapis.com/youtube/v3/playlistItems')
-        playlistUrl.searchParams.set('key', apiKey)
-        playlistUrl.searchParams.set('playlistId', shortsPlaylistId)
-        playlistUrl.searchParams.set('part', 'snippet')
-        playlistUrl.searchParams.set('maxResults', String(Math.min(maxVideosToSync, 50)))
-
-        const playlistResponse = await fetch(playlistUrl.toString())
-
-        if (!playlistResponse.ok) {
-            const error = await playlistResponse.json()
-            console.error('[YouTube Sync] Playlist API error:', error)
-
-            // If Shorts playlist doesn't exist, fall back to search
-            if (error.error?.code === 404) {
-                await payload.updateGlobal({
-                    slug: 'youtube-settings',
-                    data: {
-                        lastSyncAt: new Date().toISOString(),
-                        lastSyncStatus: 'No Shorts playlist found for this channel',
-                    },
-                })
-                return Response.json({
-                    error: 'No Shorts playlist found. This channel may not have any Shorts.',
-                    imported: 0
-                }, { status: 404 })
-            }
+    return { apiKey, shortsPlaylistId, maxVideosToSync }
+}
 
-            await payload.updateGlobal({
-                slug: 'youtube-settings',
-                data: {
-                    lastSyncAt: new Date().toISOString(),
-                    lastSyncStatus: `Error: ${error.error?.message || 'API request failed'}`,
-                },
-            })
-            return Response.json({ error: error.error?.message || 'YouTube API error' }, { status: 500 })
-        }
+async function setSyncStatus(payload: Payload, lastSyncStatus: string): Promise<void> {
+    await payload.updateGlobal({
+        slug: 'youtube-settings',
+        data: {
+            lastSyncAt: new Date().toISOString(),
+            lastSyncStatus,
+        },
+    })
+}
 
-        const playlistData: YouTubePlaylistResponse = await playlistResponse.json()
+/**
+ * Import the channel's Shorts into the videos collection. Runs as the
+ * 'youtube-sync' job.
+ */
+export async function runYouTubeSync(payload: Payload, job: JobContext = inlineJob) {
+    const config = await getSyncConfig(payload)
+    if ('error' in config) {
+        throw new Error(config.error)
+    }
+    const { apiKey, shortsPlaylistId, maxVideosToSync } = config
 
-        if (!playlistData.items || playlistData.items.length === 0) {
-            await payload.updateGlobal({
-                slug: 'youtube-settings',
-                data: {
-                    lastSyncAt: new Date().toISOString(),
-                    lastSyncStatus: 'No Shorts found in channel',
-                },
-            })
-            return Response.json({ message: 'No Shorts found', imported: 0 })
+    console.log(`[YouTube Sync] Fetching Shorts from playlist: ${shortsPlaylistId}`)
+
+    // Fetch videos from the Shorts playlist (UUSH...)
+    const playlistUrl = new URL('https://www.googleapis.com/youtube/v3/playlistItems')
+    playlistUrl.searchParams.set('key', apiKey)
+    playlistUrl.searchParams.set('playlistId', shortsPlaylistId)
+    playlistUrl.searchParams.set('part', 'snippet')
+    playlistUrl.searchParams.set('maxResults', String(Math.min(maxVideosToSync, 50)))
+
+    const playlistResponse = await fetch(playlistUrl.toString())
+
+    if (!playlistResponse.ok) {
+        const error = await playlistResponse.json()
+        console.error('[YouTube Sync] Playlist API error:', error)
+
+        // If Shorts playlist doesn't exist there is nothing to retry
+        if (error.error?.code === 404) {
+            await setSyncStatus(payload, 'No Shorts playlist found for this channel')
+            return {
+                imported: 0,
+                updated: 0,
+                message: 'No Shorts playlist found. This channel may not have any Shorts.',
+            }
         }
 
-        console.log(`[YouTube Sync] Found ${playlistData.items.length} Shorts`)
+        await setSyncStatus(payload, `Error: ${error.error?.message || 'API request failed'}`)
+        throw new Error(error.error?.message || 'YouTube API error')
+    }
+
+    const playlistData: YouTubePlaylistResponse = await playlistResponse.json()
+
+    if (!playlistData.items || playlistData.items.length === 0) {
+        await setSyncStatus(payload, 'No Shorts found in channel')
+        return { imported: 0, updated: 0, message: 'No Shorts found' }
+    }
 
-        const videoIds = playlistData.items.map(item => item.snippet.resourceId.videoId).join(',')
+    console.log(`[YouTube Sync] Found ${playlistData.items.length} Shorts`)
 
-        // Get video details (including duration)
-        const detailsUrl = new URL('https://www.googleapis.com/youtube/v3/videos')
-        detailsUrl.searchParams.set('key', apiKey)
-        detailsUrl.searchParams.set('id', videoIds)
-        detailsUrl.searchParams.set('part', 'snippet,contentDetails')
+    const videoIds = playlistData.items.map(item => item.snippet.resourceId.videoId).join(',')
 
-        const detailsResponse = await fetch(detailsUrl.toString())
-        const detailsData: YouTubeVideoDetailsResponse = await detailsResponse.json()
+    // Get video details (including duration)
+    const detailsUrl = new URL('https://www.googleapis.com/youtube/v3/videos')
+    detailsUrl.searchParams.set('key', apiKey)
+    detailsUrl.searchParams.set('id', videoIds)
+    detailsUrl.searchParams.set('part', 'snippet,contentDetails')
 
-        let imported = 0
-        let updated = 0
+    const detailsResponse = await fetch(detailsUrl.toString())
+    const detailsData: YouTubeVideoDetailsResponse = await detailsResponse.json()
 
-        for (const video of detailsData.items) {
-            const duration = video.contentDetails ? parseDuration(video.contentDetails.duration) : 0
+    let imported = 0
+    let updated = 0
+
+    for (const [index, video] of detailsData.items.entries()) {
+        await job.progress(index, detailsData.items.length, video.snippet.title)
+        if (job.isCancelled()) break
+
+        const duration = video.contentDetails ? parseDuration(video.contentDetails.duration) : 0
+
+        // Check if video already exists
+        const existing = await payload.find({
+            collection: 'videos',
+            where: {
+                youtubeVideoId: { equals: video.id },
+            },
+            limit: 1,
+        })
 
-            // Check if video already exists
-            const existing = await payload.find({
+        if (existing.docs.length > 0) {
+            // Update existing video - mark as Short
+            await payload.update({
+                collection: 'videos',
+                id: existing.docs[0].id,
+                data: {
+                    title: video.snippet.title,
+                    description: video.snippet.description,
+                    thumbnailUrl: video.snippet.thumbnails.maxres?.url || video.snippet.thumbnails.high?.url,
+                    duration,
+                    videoType: 'short', // From Shorts playlist = definitely a Short
+                    youtubeImportedAt: new Date().toISOString(),
+                },
+            })
+            updated++
+        } else {
+            // Create new video
+            await payload.create({
                 collection: 'videos',
-                where: {
-                    youtubeVideoId: { equals: video.id },
+                data: {
+                    title: video.snippet.title,
+                    youtubeVideoId: video.id,
+                    description: video.snippet.description,
+                    thumbnailUrl: video.snippet.thumbnails.maxres?.url || video.snippet.thumbnails.high?.url,
+                    duration,
+                    videoType: 'short', // From Shorts playlist = definitely a Short
+                    status: 'published',
+                    isAutoImported: true,
+                    youtubeImportedAt: new Date().toISOString(),
                 },
-                limit: 1,
             })
+            imported++
+        }
+    }
 
-            if (existing.docs.length > 0) {
-                // Update existing video - mark as Short
-                await payload.update({
-                    collection: 'videos',
-                    id: existing.docs[0].id,
-                    data: {
-                        title: video.snippet.title,
-                        description: video.snippet.description,
-                        thumbnailUrl: video.snippet.thumbnails.maxres?.url || video.snippet.thumbnails.high?.url,
-                        duration,
-                        videoType: 'short', // From Shorts playlist = definitely a Short
-                        youtubeImportedAt: new Date().toISOString(),
-                    },
-                })
-                updated++
-            } else {
-                // Create new video
-                await payload.create({
-                    collection: 'videos',
-                    data: {
-                        title: video.snippet.title,
-                        youtubeVideoId: video.id,
-                        description: video.snippet.description,
-                        thumbnailUrl: video.snippet.thumbnails.maxres?.url || video.snippet.thumbnails.high?.url,
-                        duration,
-                        videoType: 'short', // From Shorts playlist = definitely a Short
-                        status: 'published',
-                        isAutoImported: true,
-                        youtubeImportedAt: new Date().toISOString(),
-                    },
-                })
-                imported++
-            }
+    // Update sync status
+    await setSyncStatus(payload, `Success: ${imported} Shorts imported, ${updated} updated`)
+    await job.progress(detailsData.items.length, detailsData.items.length)
+
+    return {
+        imported,
+        updated,
+        message: `Synced ${imported} new Shorts, updated ${updated} existing`,
+    }
+}
+
+/**
+ * YouTube Sync Endpoint
+ * POST /api/youtube/sync
+ *
+ * Checks the YouTube settings and queues a 'youtube-sync' job.
+ */
+export const youtubeSyncHandler: PayloadHandler = async (req: PayloadRequest) => {
+    if (!req.user) {
+        return Response.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    try {
+        const { payload } = req
+
+        const config = await getSyncConfig(payload)
+        if ('error' in config) {
+            return Response.json({ error: config.error }, { status: 400 })
         }
 
-        // Update sync status
-        await payload.updateGlobal({
-            slug: 'youtube-settings',
-            data: {
-                lastSyncAt: new Date().toISOString(),
-                lastSyncStatus: `Success: ${imported} Shorts imported, ${updated} updated`,
-            },
+        const job = await enqueueJob(payload, 'youtube-sync', {}, {
+            req,
+            requestedBy: (req.user as { id?: number })?.id,
+            unique: true,
         })
 
-        return Response.json({
-            success: true,
-            imported,
-            updated,
-            message: `Synced ${imported} new Shorts, updated ${updated} existing`,
-        })
+        return jobAcceptedResponse(job, 'youtube-sync')
     } catch (error) {
         console.error('YouTube sync error:', error)
         return Response.json(
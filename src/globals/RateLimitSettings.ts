@@ -0,0 +1,141 @@
+import type { GlobalConfig } from 'payload'
+import { isAdmin } from '../access/roleAccess'
+import { createGlobalAuditHook } from '../hooks/auditLog'
+import { clearRateLimitSettingsCache } from '../utilities/rate-limiter'
+
+const STORE_OPTIONS = [
+    { label: 'Vercel KV', value: 'kv' },
+    { label: 'Redis', value: 'redis' },
+    { label: 'Postgres', value: 'postgres' },
+    { label: 'In-memory (single instance only)', value: 'memory' },
+]
+
+/**
+ * Rate Limit Settings Global
+ *
+ * Per-route rate limit policy table. Rows override the code defaults in
+ * RateLimits (by policy name) or apply to matching routes directly.
+ * Instances pick up changes within a minute; no deploy needed.
+ */
+export const RateLimitSettings: GlobalConfig = {
+    slug: 'rate-limit-settings',
+    label: 'Rate Limits',
+    admin: {
+        group: 'Settings',
+        description: 'Tune API rate limits per route without a deploy',
+    },
+    access: {
+        read: isAdmin,
+        update: isAdmin,
+    },
+    hooks: {
+        afterChange: [
+            createGlobalAuditHook('rate-limit-settings'),
+            () => clearRateLimitSettingsCache(),
+        ],
+    },
+    fields: [
+        {
+            name: 'defaultStore',
+            type: 'select',
+            options: STORE_OPTIONS,
+            admin: {
+                description: 'Store for policies that do not name one. Empty uses the RATE_LIMIT_STORE env var (Vercel KV if unset).',
+            },
+        },
+        {
+            name: 'policies',
+            type: 'array',
+            labels: {
+                singular: 'Policy',
+                plural: 'Policies',
+            },
+            admin: {
+                description: 'Route matches are checked first (top to bottom), then policy names. Empty fields keep the code default.',
+            },
+            fields: [
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'name',
+                            type: 'text',
+                            required: true,
+                            admin: {
+                                width: '50%',
+                                description: 'Built-in policy to override (e.g. LOGIN, AI_ANALYSIS) or a label for a route policy',
+                            },
+                        },
+                        {
+                            name: 'enabled',
+                            type: 'checkbox',
+                            defaultValue: true,
+                            admin: {
+                                width: '50%',
+                                description: 'Disabled rows are ignored and the code default applies',
+                            },
+                        },
+                    ],
+                },
+                {
+                    name: 'routes',
+                    type: 'textarea',
+                    admin: {
+                        description: 'One route per line, optionally prefixed with a method: "POST /api/evidence/verify", "/api/mobile/*", "/api/products/:id/vote"',
+                    },
+                },
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'algorithm',
+                            type: 'select',
+                            options: [
+                                { label: 'Sliding Window', value: 'sliding_window' },
+                                { label: 'Token Bucket', value: 'token_bucket' },
+                                { label: 'Fixed Window', value: 'fixed_window' },
+                            ],
+                            admin: { width: '33%' },
+                        },
+                        {
+                            name: 'maxRequests',
+                            type: 'number',
+                            min: 1,
+                            admin: {
+                                width: '33%',
+                                description: 'Requests per window (token bucket: refill rate)',
+                            },
+                        },
+                        {
+                            name: 'windowSeconds',
+                            type: 'number',
+                            min: 1,
+                            admin: { width: '33%' },
+                        },
+                    ],
+                },
+                {
+                    type: 'row',
+                    fields: [
+                        {
+                            name: 'burst',
+                            type: 'number',
+                            min: 1,
+                            admin: {
+                                width: '50%',
+                                description: 'Token bucket capacity (defaults to max requests)',
+                                condition: (_, siblingData) => siblingData?.algorithm === 'token_bucket',
+                            },
+                        },
+                        {
+                            name: 'store',
+                            type: 'select',
+                            options: STORE_OPTIONS,
+                            admin: { width: '50%' },
+                        },
+                    ],
+                },
+            ],
+        },
+    ],
+}
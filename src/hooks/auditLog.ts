@@ -3,95 +3,14 @@ import type {
     CollectionAfterDeleteHook,
     GlobalAfterChangeHook,
     PayloadRequest,
-    Payload,
 } from 'payload'
-
-/**
- * Calculate the differences between two objects
- * Returns an array of { field, oldValue, newValue }
- */
-function calculateChanges(
-    oldDoc: Record<string, unknown> | null | undefined,
-    newDoc: Record<string, unknown>,
-    fieldsToIgnore: string[] = ['updatedAt', 'createdAt', '_status', 'version']
-): Array<{ field: string; oldValue: unknown; newValue: unknown }> {
-    const changes: Array<{ field: string; oldValue: unknown; newValue: unknown }> = []
-
-    if (!oldDoc) {
-        // For create operations, just note the new values for key fields
-        const keyFields = ['name', 'title', 'slug', 'email', 'status', 'isActive']
-        for (const key of keyFields) {
-            if (newDoc[key] !== undefined) {
-                changes.push({
-                    field: key,
-                    oldValue: null,
-                    newValue: newDoc[key],
-                })
-            }
-        }
-        return changes
-    }
-
-    // Compare all keys
-    const allKeys = new Set([...Object.keys(oldDoc), ...Object.keys(newDoc)])
-
-    for (const key of allKeys) {
-        if (fieldsToIgnore.includes(key)) continue
-
-        const oldValue = oldDoc[key]
-        const newValue = newDoc[key]
-
-        // Skip if values are the same (simple comparison)
-        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue
-
-        // Truncate large values for readability
-        const truncate = (val: unknown): unknown => {
-            if (typeof val === 'string' && val.length > 200) {
-                return val.substring(0, 200) + '...'
-            }
-            if (Array.isArray(val) && val.length > 10) {
-                return `[Array of ${val.length} items]`
-            }
-            if (typeof val === 'object' && val !== null) {
-                const str = JSON.stringify(val)
-                if (str.length > 200) {
-                    return '[Complex Object]'
-                }
-            }
-            return val
-        }
-
-        changes.push({
-            field: key,
-            oldValue: truncate(oldValue),
-            newValue: truncate(newValue),
-        })
-    }
-
-    return changes
-}
-
-/**
- * Generate a human-readable summary of changes
- */
-function generateSummary(
-    action: string,
-    changes: Array<{ field: string; oldValue: unknown; newValue: unknown }>
-): string {
-    if (action === 'create') {
-        return 'Created new document'
-    }
-    if (action === 'delete') {
-        return 'Deleted document'
-    }
-    if (changes.length === 0) {
-        return 'No significant changes detected'
-    }
-    if (changes.length <= 3) {
-        return `Updated: ${changes.map((c) => c.field).join(', ')}`
-    }
-    return `Updated ${changes.length} fields`
-}
+import type { AuditLog } from '../payload-types'
+import {
+    documentTitleOf,
+    snapshotChanges,
+    summarizeChange,
+    type AuditSnapshot,
+} from '../utilities/audit-trail'
 
 /**
  * Extract IP address from request
@@ -115,8 +34,7 @@ function getUserAgent(req: PayloadRequest): string | undefined {
  * Collections to exclude from audit logging
  */
 const EXCLUDED_COLLECTIONS = [
-    'admin-audit-logs', // Don't audit the admin audit log itself
-    'audit-log', // Don't audit the system audit log
+    'audit-log', // Don't audit the audit log itself
     'payload-locked-documents',
     'payload-preferences',
     'payload-migrations',
@@ -125,32 +43,58 @@ const EXCLUDED_COLLECTIONS = [
 ]
 
 /**
- * Create audit log entry - bypasses TypeScript strict checking
- * Types will be fully available after build regenerates payload-types.ts
+ * The admin user behind a change, or null if it shouldn't be logged.
+ * Reverts record their own entry (utilities/audit-trail), so their writes
+ * are skipped here.
+ */
+function auditedAdmin(req: PayloadRequest): { id?: number; email?: string } | null {
+    if (req.context?.auditRevertOf) return null
+
+    // Only log actions by authenticated admin users
+    const user = req.user as { id?: number; email?: string; role?: string; collection?: string } | null
+    if (!user || user.role !== 'admin' || (user.collection && user.collection !== 'users')) {
+        return null
+    }
+    return user
+}
+
+/**
+ * Write an admin change to the unified audit log. Bulk operations (e.g.
+ * admin-purge) tag their writes with context.auditOperation.
  */
-async function createAdminAuditLog(
-    payload: Payload,
+async function recordAdminChange(
+    req: PayloadRequest,
+    user: { id?: number; email?: string },
     data: {
-        action: string
-        collection: string
-        documentId?: string
-        documentTitle?: string
-        adminUser?: string | number
-        adminEmail: string
-        changes?: unknown
-        summary?: string
-        ipAddress?: string
-        userAgent?: string
-        timestamp: string
+        action: 'create' | 'update' | 'delete' | 'settings_change'
+        targetType: 'collection' | 'global'
+        targetCollection: string
+        targetId?: number
+        targetName?: string
+        snapshot: AuditSnapshot
     }
 ): Promise<void> {
+    const { snapshot, ...target } = data
+    const operation = typeof req.context?.auditOperation === 'string' ? req.context.auditOperation : undefined
     try {
-        // Use dynamic access to bypass strict type checking
-        // The collection exists but types haven't been regenerated yet
-        const createFn = payload.create.bind(payload)
-        await createFn({
-            collection: 'admin-audit-logs' as any,
-            data: data as any,
+        await req.payload.create({
+            collection: 'audit-log',
+            data: {
+                ...target,
+                action: data.action as AuditLog['action'],
+                sourceType: 'manual',
+                summary: summarizeChange(data.action, Object.keys(snapshot.after), data.targetName),
+                before: snapshot.before,
+                after: snapshot.after,
+                performedBy: user.id,
+                actorEmail: user.email?.toLowerCase(),
+                ipAddress: getIpAddress(req),
+                userAgent: getUserAgent(req),
+                operation,
+                success: true,
+            },
+            overrideAccess: true,
+            req,
         })
     } catch (error) {
         console.error('[AuditLog] Failed to create audit log entry:', error)
@@ -158,7 +102,7 @@ async function createAdminAuditLog(
 }
 
 /**
- * Create an afterChange hook that logs to admin-audit-logs collection
+ * Create an afterChange hook that logs admin changes to the audit log
  */
 export const createAuditLogHook = (collectionSlug: string): CollectionAfterChangeHook => {
     return async ({ doc, previousDoc, operation, req }) => {
@@ -167,38 +111,27 @@ export const createAuditLogHook = (collectionSlug: string): CollectionAfterChang
             return doc
         }
 
-        // Only log actions by authenticated admin users
-        const user = req.user as { id?: string | number; email?: string; role?: string } | null
-        if (!user || user.role !== 'admin') {
+        const user = auditedAdmin(req)
+        if (!user) {
             return doc
         }
 
-        const changes = calculateChanges(
-            previousDoc as Record<string, unknown> | undefined,
-            doc as Record<string, unknown>
-        )
-
-        // Get document title for easier identification
         const docRecord = doc as Record<string, unknown>
-        const documentTitle =
-            (docRecord.name as string) ||
-            (docRecord.title as string) ||
-            (docRecord.slug as string) ||
-            (docRecord.email as string) ||
-            undefined
+        const snapshot = snapshotChanges(
+            operation === 'create' ? null : previousDoc as Record<string, unknown> | undefined,
+            docRecord
+        )
+        if (!snapshot) {
+            return doc
+        }
 
-        await createAdminAuditLog(req.payload, {
+        await recordAdminChange(req, user, {
             action: operation,
-            collection: collectionSlug,
-            documentId: String(docRecord.id),
-            documentTitle,
-            adminUser: user.id,
-            adminEmail: user.email || 'unknown',
-            changes,
-            summary: generateSummary(operation, changes),
-            ipAddress: getIpAddress(req),
-            userAgent: getUserAgent(req),
-            timestamp: new Date().toISOString(),
+            targetType: 'collection',
+            targetCollection: collectionSlug,
+            targetId: Number(docRecord.id) || undefined,
+            targetName: documentTitleOf(docRecord),
+            snapshot,
         })
 
         return doc
@@ -206,7 +139,8 @@ export const createAuditLogHook = (collectionSlug: string): CollectionAfterChang
 }
 
 /**
- * Create an afterDelete hook that logs deletions to admin-audit-logs
+ * Create an afterDelete hook that logs deletions to the audit log. The whole
+ * document is kept so the deletion can be reverted.
  */
 export const createAuditDeleteHook = (collectionSlug: string): CollectionAfterDeleteHook => {
     return async ({ doc, req }) => {
@@ -215,32 +149,19 @@ export const createAuditDeleteHook = (collectionSlug: string): CollectionAfterDe
             return doc
         }
 
-        // Only log actions by authenticated admin users
-        const user = req.user as { id?: string | number; email?: string; role?: string } | null
-        if (!user || user.role !== 'admin') {
+        const user = auditedAdmin(req)
+        if (!user) {
             return doc
         }
 
         const docRecord = doc as Record<string, unknown>
-        const documentTitle =
-            (docRecord.name as string) ||
-            (docRecord.title as string) ||
-            (docRecord.slug as string) ||
-            (docRecord.email as string) ||
-            undefined
-
-        await createAdminAuditLog(req.payload, {
+        await recordAdminChange(req, user, {
             action: 'delete',
-            collection: collectionSlug,
-            documentId: String(docRecord.id),
-            documentTitle,
-            adminUser: user.id,
-            adminEmail: user.email || 'unknown',
-            changes: [],
-            summary: `Deleted: ${documentTitle || docRecord.id}`,
-            ipAddress: getIpAddress(req),
-            userAgent: getUserAgent(req),
-            timestamp: new Date().toISOString(),
+            targetType: 'collection',
+            targetCollection: collectionSlug,
+            targetId: Number(docRecord.id) || undefined,
+            targetName: documentTitleOf(docRecord) || String(docRecord.id),
+            snapshot: snapshotChanges(docRecord, null) as AuditSnapshot,
         })
 
         return doc
@@ -252,34 +173,26 @@ export const createAuditDeleteHook = (collectionSlug: string): CollectionAfterDe
  */
 export const createGlobalAuditHook = (globalSlug: string): GlobalAfterChangeHook => {
     return async ({ doc, previousDoc, req }) => {
-        // Only log actions by authenticated admin users
-        const user = req.user as { id?: string | number; email?: string; role?: string } | null
-        if (!user || user.role !== 'admin') {
+        const user = auditedAdmin(req)
+        if (!user) {
             return doc
         }
 
-        const changes = calculateChanges(
-            previousDoc as Record<string, unknown> | undefined,
+        // Skip if no actual changes
+        const snapshot = snapshotChanges(
+            previousDoc as Record<string, unknown> | undefined ?? {},
             doc as Record<string, unknown>
         )
-
-        // Skip if no actual changes
-        if (changes.length === 0) {
+        if (!snapshot) {
             return doc
         }
 
-        await createAdminAuditLog(req.payload, {
+        await recordAdminChange(req, user, {
             action: 'settings_change',
-            collection: globalSlug,
-            documentId: globalSlug,
-            documentTitle: globalSlug,
-            adminUser: user.id,
-            adminEmail: user.email || 'unknown',
-            changes,
-            summary: generateSummary('update', changes),
-            ipAddress: getIpAddress(req),
-            userAgent: getUserAgent(req),
-            timestamp: new Date().toISOString(),
+            targetType: 'global',
+            targetCollection: globalSlug,
+            targetName: globalSlug,
+            snapshot,
         })
 
         return doc
@@ -0,0 +1,22 @@
+import { readFile } from 'fs/promises'
+import type { CollectionBeforeChangeHook } from 'payload'
+import { sha256Hex } from '../utilities/evidence-chain'
+
+/**
+ * Store the SHA-256 of an uploaded file on the upload document. Runs on
+ * create and on file replacement; the hash is never accepted from the client.
+ */
+export const hashUploadedFile: CollectionBeforeChangeHook = async ({ data, originalDoc, req }) => {
+  const file = req.file
+  if (!file) {
+    // resolveMediaHash backfills files uploaded before hashing existed
+    const sha256 = req.context?.mediaHashBackfill ? data.sha256 : originalDoc?.sha256
+    return { ...data, sha256: sha256 ?? null }
+  }
+
+  const contents = file.data?.length ? file.data : file.tempFilePath ? await readFile(file.tempFilePath) : null
+  return {
+    ...data,
+    sha256: contents ? sha256Hex(contents) : null,
+  }
+}
@@ -0,0 +1,95 @@
+import type { CollectionAfterChangeHook, PayloadRequest } from 'payload'
+import { enqueueJob } from '../utilities/job-queue'
+import {
+    refreshSegmentMemberships,
+    refreshSegmentsForHashes,
+    refreshSegmentsForUser,
+    withSavepoint,
+} from '../utilities/segment-engine'
+
+/**
+ * Segment Membership Hooks
+ *
+ * Keep segment-memberships current when the records segment metrics are
+ * derived from change. Each hook re-evaluates only the devices affected,
+ * inside the triggering request's transaction. A failed refresh is logged
+ * and left to the daily full refresh; it never fails the write.
+ */
+
+const relationId = (value: unknown): number | null => {
+    if (value && typeof value === 'object' && 'id' in value) return Number((value as { id: unknown }).id)
+    return typeof value === 'number' || typeof value === 'string' ? Number(value) : null
+}
+
+async function safely(label: string, req: PayloadRequest, refresh: () => Promise<unknown>): Promise<void> {
+    try {
+        await withSavepoint(req.payload, req, refresh)
+    } catch (error) {
+        console.error(`[Segments] ${label} refresh failed:`, error)
+    }
+}
+
+/**
+ * device-fingerprints: behaviorMetrics, first/last seen, referrals or the linked user changed
+ */
+export const refreshSegmentsOnFingerprintChange: CollectionAfterChangeHook = async ({ doc, req }) => {
+    await safely('Fingerprint', req, () =>
+        refreshSegmentMemberships(req.payload, { fingerprintIds: [doc.id], req })
+    )
+    return doc
+}
+
+/**
+ * users: subscription status is the only segment metric on the account
+ */
+export const refreshSegmentsOnUserChange: CollectionAfterChangeHook = async ({ doc, previousDoc, operation, req }) => {
+    if (operation === 'update' && previousDoc?.subscriptionStatus !== doc.subscriptionStatus) {
+        await safely('User', req, () => refreshSegmentsForUser(req.payload, doc.id, req))
+    }
+    return doc
+}
+
+/**
+ * product-unlocks: products viewed, for the unlocking device and the account's other devices
+ */
+export const refreshSegmentsOnUnlock: CollectionAfterChangeHook = async ({ doc, operation, req }) => {
+    if (operation !== 'create') return doc
+
+    const fingerprintId = relationId(doc.deviceFingerprint)
+    const userId = relationId(doc.user)
+    await safely('Unlock', req, async () => {
+        if (userId) await refreshSegmentsForUser(req.payload, userId, req)
+        if (fingerprintId) await refreshSegmentMemberships(req.payload, { fingerprintIds: [fingerprintId], req })
+    })
+    return doc
+}
+
+/**
+ * product-votes: votes cast, for fingerprints newly added to voterFingerprints
+ */
+export const refreshSegmentsOnVote: CollectionAfterChangeHook = async ({ doc, previousDoc, req }) => {
+    const before = new Set<string>(Array.isArray(previousDoc?.voterFingerprints) ? previousDoc.voterFingerprints : [])
+    const added = (Array.isArray(doc.voterFingerprints) ? doc.voterFingerprints as unknown[] : [])
+        .filter((hash): hash is string => typeof hash === 'string' && !before.has(hash))
+
+    if (added.length > 0) {
+        await safely('Vote', req, () => refreshSegmentsForHashes(req.payload, added, req))
+    }
+    return doc
+}
+
+/**
+ * user-segments: re-evaluate everyone against a new or edited segment.
+ * Queued, as it touches every device.
+ */
+export const queueSegmentRefresh: CollectionAfterChangeHook = async ({ doc, previousDoc, operation, req }) => {
+    const changed = operation === 'create'
+        || JSON.stringify(previousDoc?.rules) !== JSON.stringify(doc.rules)
+        || previousDoc?.ruleLogic !== doc.ruleLogic
+        || previousDoc?.isActive !== doc.isActive
+
+    if (changed) {
+        await safely('Segment', req, () => enqueueJob(req.payload, 'segment-refresh', { segmentIds: [doc.id] }, { req }))
+    }
+    return doc
+}
@@ -0,0 +1,80 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+import { evaluateVerdictRules, recordRuleApplications } from '../utilities/smart-automation'
+
+/**
+ * Verdict Rules Hook (products)
+ *
+ * Evaluates active VerdictRules, stores the auto-verdict and applies it
+ * unless an editor has overridden the verdict. Rules read the saved product
+ * merged with the incoming data, since `data` only holds the fields sent with
+ * the update. Updates that touch none of the fields rules read (lab imports,
+ * dispute and recall flags) are left alone so they don't re-apply verdicts or
+ * count towards rule statistics.
+ */
+
+const RULE_INPUT_FIELDS = [
+    'ingredientsList',
+    'category',
+    'verdict',
+    'verdictOverride',
+    'brand',
+    'priceRange',
+    'freshnessStatus',
+    'detectionResults',
+    'status',
+]
+
+const relationId = (value: unknown): number | undefined => {
+    if (value && typeof value === 'object' && 'id' in value) return Number((value as { id: unknown }).id)
+    return typeof value === 'number' ? value : undefined
+}
+
+export const applyVerdictRules: CollectionBeforeChangeHook = async ({ data, originalDoc, operation, req }) => {
+    if (!data) return data
+    if (operation === 'update' && !RULE_INPUT_FIELDS.some(field => field in data)) return data
+
+    const product = { ...originalDoc, ...data }
+
+    try {
+        const ruleResult = await evaluateVerdictRules(
+            {
+                ingredientsList: Array.isArray(product.ingredientsList)
+                    ? product.ingredientsList.map(relationId).filter((id: number | undefined): id is number => id !== undefined)
+                    : undefined,
+                category: relationId(product.category),
+                verdict: product.verdict,
+                brand: product.brand,
+                priceRange: product.priceRange,
+                freshnessStatus: product.freshnessStatus,
+                detections: product.detectionResults?.detections,
+            },
+            req.payload
+        )
+
+        // Record which rules (and which sub-clauses of condition trees) matched
+        const matchedRules = ruleResult.evaluations.filter(e => e.matched)
+        data.autoVerdict = ruleResult.suggestedVerdict ?? null
+        data.ruleApplied = matchedRules.length > 0
+            ? matchedRules
+                .map(e => (e.explanation ? `${e.ruleName}: ${e.explanation}` : e.ruleName))
+                .join('; ')
+            : null
+
+        // Apply the rule verdict unless an editor has overridden it
+        if (ruleResult.suggestedVerdict && !product.verdictOverride) {
+            data.verdict = ruleResult.suggestedVerdict
+        }
+
+        if (ruleResult.shouldBlock && data.status === 'published') {
+            throw new Error(
+                `Cannot publish: ${ruleResult.warnings.join('. ') || 'blocked by verdict rule'}`
+            )
+        }
+
+        await recordRuleApplications(req.payload, matchedRules)
+    } catch (error) {
+        if (error instanceof Error && error.message.startsWith('Cannot publish')) throw error
+        console.error('Verdict rule evaluation failed:', error)
+    }
+    return data
+}
@@ -0,0 +1,130 @@
+import type { CollectionConfig, TaskConfig } from 'payload'
+import { runBatchEnrich } from '../endpoints/batch-enrich'
+import { runBackgroundRemovalBatch } from '../endpoints/background-remove'
+import { runImageInternalize } from '../endpoints/image-internalize'
+import { runRecallWatchdog } from '../endpoints/recall-watchdog'
+import { runYouTubeSync } from '../endpoints/youtube-sync'
+import { runBrandReportDelivery } from '../utilities/brand-reports'
+import { runCampaignSendJob, type CampaignSendJobParams } from '../utilities/campaign-scheduler'
+import { runEmbedProducts } from '../utilities/embeddings'
+import { runSegmentRefresh } from '../utilities/segment-engine'
+import {
+    JOB_TASKS,
+    runDurableTask,
+    type DurableTaskOptions,
+    type DurableTaskRunner,
+    type JobTaskSlug,
+} from '../utilities/job-queue'
+
+/**
+ * Job Queue Tasks
+ *
+ * Payload task definitions for work that used to run inside HTTP handlers.
+ * Each task takes { params } as input and delegates to the same run* function
+ * the endpoint used to call directly; see utilities/job-queue for the retry,
+ * dead-letter, progress and cancellation behaviour.
+ */
+
+function defineDurableTask(
+    slug: JobTaskSlug,
+    run: DurableTaskRunner,
+    options?: DurableTaskOptions
+): TaskConfig<{ input: { params?: Record<string, unknown> }; output: { cancelled?: boolean } }> {
+    return {
+        slug,
+        label: JOB_TASKS[slug],
+        inputSchema: [{ name: 'params', type: 'json' }],
+        outputSchema: [{ name: 'cancelled', type: 'checkbox' }],
+        // Retries happen inside runDurableTask (withRetry)
+        retries: 0,
+        handler: async ({ input, job, req }) => {
+            const result = await runDurableTask(req, job.id, input.params || {}, run, options)
+            return {
+                output: { cancelled: (result as { cancelled?: boolean } | undefined)?.cancelled === true },
+            }
+        },
+    }
+}
+
+export const queueTasks = [
+    defineDurableTask('batch-enrich', (payload, params, job) => runBatchEnrich(payload, params, job)),
+    defineDurableTask('background-remove-batch', (payload, params, job) =>
+        runBackgroundRemovalBatch(payload, params as { productIds: number[]; force?: boolean }, job)
+    ),
+    defineDurableTask('image-internalize', (payload, params, job) => runImageInternalize(payload, params, job)),
+    defineDurableTask('youtube-sync', (payload, _params, job) => runYouTubeSync(payload, job)),
+    defineDurableTask('embed-products', (payload, params, job) => runEmbedProducts(payload, params, job)),
+    defineDurableTask('recall-watchdog', (payload, _params, job) => runRecallWatchdog(payload, job), {
+        // FDA endpoints rate limit aggressively; back off longer between attempts
+        initialDelayMs: 10000,
+    }),
+    defineDurableTask('campaign-send', (payload, params, job) =>
+        runCampaignSendJob(payload, params as unknown as CampaignSendJobParams, job), {
+        // A retry re-sends to everyone not yet reached; keep it to one
+        maxRetries: 1,
+    }),
+    defineDurableTask('segment-refresh', (payload, params, job) => runSegmentRefresh(payload, params, job)),
+    // Delivered recipients are recorded per issue, so a retry only sends the rest
+    defineDurableTask('brand-reports', (payload, params, job) => runBrandReportDelivery(payload, params, job)),
+]
+
+/**
+ * Show payload-jobs in the admin and add the fields the job monitor reads
+ */
+export function jobsCollectionOverrides({ defaultJobsCollection }: { defaultJobsCollection: CollectionConfig }): CollectionConfig {
+    return {
+        ...defaultJobsCollection,
+        admin: {
+            ...defaultJobsCollection.admin,
+            hidden: ({ user }) => (user as { role?: string } | null)?.role !== 'admin',
+            group: 'System',
+            defaultColumns: ['taskSlug', 'processing', 'completedAt', 'hasError', 'createdAt'],
+        },
+        fields: [
+            ...defaultJobsCollection.fields,
+            {
+                name: 'progress',
+                type: 'group',
+                admin: { readOnly: true },
+                fields: [
+                    { name: 'completed', type: 'number' },
+                    { name: 'total', type: 'number' },
+                    { name: 'message', type: 'text' },
+                ],
+            },
+            {
+                name: 'deadLetter',
+                type: 'group',
+                admin: {
+                    readOnly: true,
+                    description: 'Set when every retry failed. Re-queue from the job monitor.',
+                },
+                fields: [
+                    { name: 'deadLettered', type: 'checkbox', index: true },
+                    { name: 'reason', type: 'textarea' },
+                    { name: 'attempts', type: 'number' },
+                    { name: 'at', type: 'date' },
+                ],
+            },
+            {
+                name: 'result',
+                type: 'json',
+                admin: { readOnly: true },
+            },
+            {
+                name: 'requestedBy',
+                type: 'relationship',
+                relationTo: 'users',
+                admin: { readOnly: true },
+            },
+            {
+                name: 'retryOf',
+                type: 'number',
+                admin: {
+                    readOnly: true,
+                    description: 'Job this one re-queued',
+                },
+            },
+        ],
+    }
+}
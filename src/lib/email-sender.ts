@@ -2,13 +2,22 @@
  * Email Sender with A/B Testing
  * 
  * Sends emails using Resend with:
- * - A/B testing for subject lines
+ * - Multi-variant experiments (subject, preheader, headline, body, CTA)
  * - Open/click tracking
  * - Template variable substitution
+ * - Audience segments (bulk sends only reach segment members)
  */
 
 import { Resend } from 'resend';
 import { Payload } from 'payload';
+import {
+    applyVariant,
+    assignVariant,
+    getExperimentArms,
+    isExperimentRunning,
+    type ExperimentTemplate,
+} from '../utilities/email-experiments';
+import { getSegmentMemberEmails } from '../utilities/segment-engine';
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -16,21 +25,10 @@ interface SendEmailOptions {
     to: string;
     templateId: string;
     variables?: Record<string, string>;
-    abTest?: {
-        enabled: boolean;
-        variantId: 'a' | 'b';
-    };
 }
 
-interface EmailTemplate {
-    id: string;
-    subject: string;
-    subjectVariantB?: string;
-    preheader?: string;
-    headline?: string;
+interface EmailTemplate extends ExperimentTemplate {
     body: any;
-    ctaText?: string;
-    ctaUrl?: string;
 }
 
 /**
@@ -68,6 +66,7 @@ function richTextToHtml(body: any): string {
  */
 function generateEmailHtml(template: EmailTemplate, variables: Record<string, string>): string {
     const bodyHtml = substituteVariables(richTextToHtml(template.body), variables);
+    const preheader = template.preheader ? substituteVariables(template.preheader, variables) : '';
     const headline = template.headline ? substituteVariables(template.headline, variables) : '';
     const ctaText = template.ctaText ? substituteVariables(template.ctaText, variables) : '';
     const ctaUrl = template.ctaUrl ? substituteVariables(template.ctaUrl, variables) : '';
@@ -81,6 +80,7 @@ function generateEmailHtml(template: EmailTemplate, variables: Record<string, st
   <title>${headline}</title>
 </head>
 <body style="margin: 0; padding: 0; background-color: #f5f5f7; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;">
+  ${preheader ? `<div style="display: none; max-height: 0; overflow: hidden;">${preheader}</div>` : ''}
   <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #f5f5f7; padding: 40px 20px;">
     <tr>
       <td align="center">
@@ -149,22 +149,14 @@ export async function sendEmail(
             return { success: false, error: 'Template not found' };
         }
 
-        const template = templateDoc as unknown as EmailTemplate;
         const variables = options.variables || {};
 
-        // Determine subject (A/B test if enabled)
-        let subject = template.subject;
-        let isVariantB = false;
+        // Running experiments assign every send an arm at random
+        const arms = getExperimentArms(templateDoc as unknown as EmailTemplate);
+        const arm = isExperimentRunning(templateDoc as unknown as EmailTemplate) ? assignVariant(arms) : arms[0];
+        const template = applyVariant(templateDoc as unknown as EmailTemplate, arm);
 
-        if (options.abTest?.enabled && template.subjectVariantB) {
-            // 50/50 split or use specified variant
-            if (options.abTest.variantId === 'b') {
-                subject = template.subjectVariantB;
-                isVariantB = true;
-            }
-        }
-
-        subject = substituteVariables(subject, variables);
+        const subject = substituteVariables(template.subject, variables);
 
         // Generate HTML
         const html = generateEmailHtml(template, variables);
@@ -177,7 +169,7 @@ export async function sendEmail(
             html: html,
             headers: {
                 'X-Template-Id': options.templateId,
-                'X-AB-Variant': isVariantB ? 'B' : 'A',
+                'X-AB-Variant': arm.key,
             },
         });
 
@@ -193,7 +185,7 @@ export async function sendEmail(
                 template: options.templateId,
                 recipient: options.to,
                 subject: subject,
-                abVariant: isVariantB ? 'B' : 'A',
+                abVariant: arm.key,
                 messageId: data?.id,
                 sentAt: new Date().toISOString(),
                 status: 'sent',
@@ -227,28 +219,37 @@ export async function sendEmail(
 }
 
 /**
- * Send email to multiple recipients
+ * Send email to multiple recipients.
+ * Recipients outside the template's audience segments are skipped.
  */
 export async function sendBulkEmail(
     payload: Payload,
     templateId: string,
-    recipients: Array<{ email: string; variables: Record<string, string> }>,
-    abTestEnabled = false
-): Promise<{ sent: number; failed: number }> {
+    recipients: Array<{ email: string; variables: Record<string, string> }>
+): Promise<{ sent: number; failed: number; skipped: number }> {
     let sent = 0;
     let failed = 0;
+    const total = recipients.length;
+
+    const template = await payload.findByID({
+        collection: 'email-templates',
+        id: templateId,
+        depth: 0,
+    }).catch(() => null);
+    const segmentIds = (template?.audienceSegments || [])
+        .map((segment) => (typeof segment === 'object' ? segment.id : segment));
+    if (segmentIds.length > 0) {
+        const members = await getSegmentMemberEmails(payload, segmentIds);
+        recipients = recipients.filter((recipient) => members.has(recipient.email.toLowerCase()));
+    }
 
     for (let i = 0; i < recipients.length; i++) {
         const recipient = recipients[i];
 
-        // A/B test: alternate between variants
-        const abVariant = abTestEnabled ? (i % 2 === 0 ? 'a' : 'b') as 'a' | 'b' : 'a';
-
         const result = await sendEmail(payload, {
             to: recipient.email,
             templateId,
             variables: recipient.variables,
-            abTest: abTestEnabled ? { enabled: true, variantId: abVariant } : undefined,
         });
 
         if (result.success) {
@@ -263,5 +264,5 @@ export async function sendBulkEmail(
         }
     }
 
-    return { sent, failed };
+    return { sent, failed, skipped: total - recipients.length };
 }
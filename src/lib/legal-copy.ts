@@ -52,6 +52,27 @@ export const MANUFACTURER_REPLY = {
   /** Confirmation message */
   CONFIRMATION:
     'We review all manufacturer disputes within 14 business days and will contact you with our findings.',
+  /** Templated responses by dispute status - use with formatManufacturerReply() */
+  RESPONSES: {
+    ACKNOWLEDGEMENT:
+      'We received dispute {referenceNumber} regarding {productName} on {submittedDate}. We review all manufacturer disputes within 14 business days and will respond by {slaDeadline}.',
+    UNDER_REVIEW:
+      'Dispute {referenceNumber} is under review. Our team is examining the methodology, sample records and data you raised.',
+    AWAITING_LAB:
+      'Dispute {referenceNumber} has been referred for laboratory re-verification. We will contact you when results are available.',
+    AWAITING_MANUFACTURER:
+      'To continue reviewing dispute {referenceNumber}, we need additional information from you. Please reply with the requested documentation.',
+    RESOLVED_UPDATED:
+      'Following our review of dispute {referenceNumber}, we have updated the published report for {productName}. {updateDescription}',
+    RESOLVED_NO_CHANGE:
+      'Following our review of dispute {referenceNumber}, we found that the published report for {productName} accurately reflects the screening results for the tested sample. No change has been made.',
+    RESOLVED_RETESTED:
+      'Following our review of dispute {referenceNumber}, {productName} was retested. The published report reflects the retest results.',
+    CLOSED_INSUFFICIENT:
+      'Dispute {referenceNumber} has been closed because we did not receive enough information to evaluate it. You may submit a new dispute with supporting documentation.',
+    CLOSED_NO_RESPONSE:
+      'Dispute {referenceNumber} has been closed because we did not receive a response to our request for information. You may submit a new dispute at any time.',
+  },
 } as const;
 
 // ============================================================================
@@ -314,6 +335,23 @@ export function formatDetection(
   return result;
 }
 
+/**
+ * Format a manufacturer reply template. Missing values are removed rather than
+ * left as placeholders.
+ */
+export function formatManufacturerReply(
+  template: string,
+  values: Record<string, string | number | null | undefined>
+): string {
+  return template
+    .replace(/\{(\w+)\}/g, (_, key: string) => {
+      const value = values[key];
+      return value === undefined || value === null ? '' : String(value);
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
 /**
  * Format batch disclaimer with sample ID
  */
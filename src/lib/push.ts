@@ -7,6 +7,8 @@
  * - Results Ready: "🔬 Results are in" - when a product's testing is complete
  * - Testing Started: "🧪 Testing started" - when product enters lab
  * - Trending: "🔥 Your case is trending" - when a product gains velocity
+ * - Reformulation: "⚠️ Ingredients changed" - when a saved product's formula changes
+ * - Recall: "🚨 Recall alert" - when a confirmed recall covers a saved product
  */
 
 const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send'
@@ -36,6 +38,7 @@ export interface ExpoPushReceipt {
     status: 'ok' | 'error'
     message?: string
     details?: {
+        // DeviceNotRegistered, MessageTooBig, MessageRateExceeded, MismatchSenderId, InvalidCredentials
         error?: string
     }
 }
@@ -104,22 +107,34 @@ export async function sendPushNotificationBatch(
 
 /**
  * Check push receipts (to verify delivery)
- * Call this ~15 minutes after sending to check delivery status
+ * Call this ~15 minutes after sending to check delivery status.
+ * Receipts not ready yet (or older than a day) are missing from the result.
  */
 export async function getPushReceipts(receiptIds: string[]): Promise<Record<string, ExpoPushReceipt>> {
     if (receiptIds.length === 0) return {}
 
-    const response = await fetch('https://exp.host/--/api/v2/push/getReceipts', {
-        method: 'POST',
-        headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ ids: receiptIds }),
-    })
+    const receipts: Record<string, ExpoPushReceipt> = {}
 
-    const result = await response.json()
-    return result.data || {}
+    // Expo limits to 1000 receipt IDs per request
+    for (let i = 0; i < receiptIds.length; i += 1000) {
+        const response = await fetch('https://exp.host/--/api/v2/push/getReceipts', {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ ids: receiptIds.slice(i, i + 1000) }),
+        })
+
+        if (!response.ok) {
+            throw new Error(`Expo getReceipts failed: ${response.status}`)
+        }
+
+        const result = await response.json()
+        Object.assign(receipts, result.data || {})
+    }
+
+    return receipts
 }
 
 // ===== My Cases Notification Templates =====
@@ -196,6 +211,56 @@ export function createTrendingNotification(
     }
 }
 
+/**
+ * Reformulation notification
+ * Sent when a saved product's ingredients change in a way that needs a retest
+ */
+export function createReformulationNotification(
+    token: string,
+    productName: string,
+    changeSummary: string,
+    productId: string,
+    barcode?: string | null
+): ExpoPushMessage {
+    return {
+        to: token,
+        title: '⚠️ Ingredients changed',
+        body: `${productName} has a new formula (${changeSummary}). We're retesting it.`,
+        sound: 'default',
+        priority: 'high',
+        data: {
+            type: 'reformulation',
+            productId,
+            barcode,
+        },
+    }
+}
+
+/**
+ * Recall notification
+ * Sent when a confirmed recall covers a saved product
+ */
+export function createRecallNotification(
+    token: string,
+    productName: string,
+    reason: string,
+    productId: string,
+    barcode?: string | null
+): ExpoPushMessage {
+    return {
+        to: token,
+        title: '🚨 Recall alert',
+        body: `${productName} has been recalled: ${reason}`,
+        sound: 'default',
+        priority: 'high',
+        data: {
+            type: 'recall',
+            productId,
+            barcode,
+        },
+    }
+}
+
 // Win-back notification variants for A/B testing
 const WINBACK_VARIANTS = [
     {
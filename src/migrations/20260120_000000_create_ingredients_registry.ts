@@ -0,0 +1,194 @@
+/**
+ * Database Migration - Restore Ingredients Registry
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_ingredients_category: [
+        'artificial_colors',
+        'artificial_sweeteners',
+        'preservatives',
+        'emulsifiers',
+        'heavy_metals',
+        'pesticides',
+        'vitamins_minerals',
+        'proteins',
+        'fats_oils',
+        'sugars',
+        'fibers',
+        'other',
+    ],
+    enum_ingredients_verdict: ['safe', 'caution', 'flagged', 'unknown'],
+    enum_ingredients_hazard_classifications_hazard: [
+        'carcinogen',
+        'possible_carcinogen',
+        'endocrine_disruptor',
+        'reproductive_toxicant',
+        'developmental_toxicant',
+        'neurotoxicant',
+        'allergen',
+        'heavy_metal',
+        'irritant',
+        'other',
+    ],
+    enum_ingredients_hazard_classifications_authority: ['iarc', 'ghs', 'prop65', 'echa', 'epa', 'ntp', 'other'],
+    enum_ingredients_jurisdiction_status_jurisdiction: ['us', 'us_ca', 'eu', 'uk', 'ca', 'anz', 'jp'],
+    enum_ingredients_jurisdiction_status_status: [
+        'approved',
+        'restricted',
+        'warning_required',
+        'banned',
+        'under_review',
+    ],
+}
+
+/**
+ * Re-create the ingredients collection (dropped in 20260105_000000_remove_ingredients)
+ * as a registry with synonyms, identifiers, hazards and jurisdiction status, and
+ * restore the product / verdict rule relationships to it.
+ *
+ * An older enum_ingredients_verdict (safe/caution/avoid/unknown) may survive from the
+ * original collection, so enum values are added individually rather than assumed.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating ingredients registry...')
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = '${typeName}') THEN
+                    CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+                END IF;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        for (const value of values) {
+            await db.execute(sql.raw(`ALTER TYPE "public"."${typeName}" ADD VALUE IF NOT EXISTS '${value}'`))
+        }
+    }
+
+    // Main table
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "ingredients" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "name" varchar NOT NULL,
+            "slug" varchar,
+            "cas_number" varchar,
+            "e_number" varchar,
+            "category" "enum_ingredients_category",
+            "verdict" "enum_ingredients_verdict" DEFAULT 'unknown' NOT NULL,
+            "risk_weight" numeric DEFAULT 0,
+            "reason" varchar,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+
+    // Array tables
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "ingredients_synonyms" (
+            "_order" integer NOT NULL,
+            "_parent_id" integer NOT NULL,
+            "id" varchar PRIMARY KEY NOT NULL,
+            "synonym" varchar NOT NULL
+        );
+    `)
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "ingredients_hazard_classifications" (
+            "_order" integer NOT NULL,
+            "_parent_id" integer NOT NULL,
+            "id" varchar PRIMARY KEY NOT NULL,
+            "hazard" "enum_ingredients_hazard_classifications_hazard" NOT NULL,
+            "authority" "enum_ingredients_hazard_classifications_authority",
+            "reference" varchar
+        );
+    `)
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "ingredients_jurisdiction_status" (
+            "_order" integer NOT NULL,
+            "_parent_id" integer NOT NULL,
+            "id" varchar PRIMARY KEY NOT NULL,
+            "jurisdiction" "enum_ingredients_jurisdiction_status_jurisdiction" NOT NULL,
+            "status" "enum_ingredients_jurisdiction_status_status" NOT NULL,
+            "effective_date" timestamp(3) with time zone,
+            "limit" varchar,
+            "reference" varchar
+        );
+    `)
+
+    for (const table of ['ingredients_synonyms', 'ingredients_hazard_classifications', 'ingredients_jurisdiction_status']) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "${table}"
+                ADD CONSTRAINT "${table}_parent_id_fk"
+                FOREIGN KEY ("_parent_id") REFERENCES "public"."ingredients"("id") ON DELETE cascade ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`CREATE INDEX IF NOT EXISTS "${table}_order_idx" ON "${table}" USING btree ("_order");`))
+        await db.execute(sql.raw(`CREATE INDEX IF NOT EXISTS "${table}_parent_id_idx" ON "${table}" USING btree ("_parent_id");`))
+    }
+
+    // Indexes
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS "ingredients_name_idx" ON "ingredients" USING btree ("name");`)
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS "ingredients_slug_idx" ON "ingredients" USING btree ("slug");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "ingredients_cas_number_idx" ON "ingredients" USING btree ("cas_number");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "ingredients_e_number_idx" ON "ingredients" USING btree ("e_number");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "ingredients_verdict_idx" ON "ingredients" USING btree ("verdict");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "ingredients_updated_at_idx" ON "ingredients" USING btree ("updated_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "ingredients_created_at_idx" ON "ingredients" USING btree ("created_at");`)
+
+    // Product ingredient fields
+    await db.execute(sql`
+        ALTER TABLE "products"
+        ADD COLUMN IF NOT EXISTS "ingredients_raw" varchar,
+        ADD COLUMN IF NOT EXISTS "unmatched_ingredients" jsonb;
+    `)
+
+    // Relationship columns: products.ingredientsList, verdict-rules.ingredientCondition, locked documents
+    for (const table of ['products_rels', 'verdict_rules_rels', 'payload_locked_documents_rels']) {
+        await db.execute(sql.raw(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "ingredients_id" integer;`))
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "${table}"
+                ADD CONSTRAINT "${table}_ingredients_fk"
+                FOREIGN KEY ("ingredients_id") REFERENCES "public"."ingredients"("id") ON DELETE cascade ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`CREATE INDEX IF NOT EXISTS "${table}_ingredients_id_idx" ON "${table}" USING btree ("ingredients_id");`))
+    }
+
+    console.log('[Migration] Ingredients registry created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back ingredients registry...')
+
+    for (const table of ['products_rels', 'verdict_rules_rels', 'payload_locked_documents_rels']) {
+        await db.execute(sql.raw(`ALTER TABLE "${table}" DROP CONSTRAINT IF EXISTS "${table}_ingredients_fk";`))
+        await db.execute(sql.raw(`DROP INDEX IF EXISTS "${table}_ingredients_id_idx";`))
+        await db.execute(sql.raw(`ALTER TABLE "${table}" DROP COLUMN IF EXISTS "ingredients_id";`))
+    }
+
+    await db.execute(sql`
+        ALTER TABLE "products"
+        DROP COLUMN IF EXISTS "ingredients_raw",
+        DROP COLUMN IF EXISTS "unmatched_ingredients";
+    `)
+
+    await db.execute(sql`DROP TABLE IF EXISTS "ingredients_jurisdiction_status" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "ingredients_hazard_classifications" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "ingredients_synonyms" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "ingredients" CASCADE;`)
+
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+
+    console.log('[Migration] Ingredients registry rollback completed')
+}
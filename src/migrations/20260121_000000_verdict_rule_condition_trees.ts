@@ -0,0 +1,40 @@
+/**
+ * Database Migration - VerdictRules Condition Trees
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+/**
+ * Add the 'condition_tree' condition type and the JSON column holding
+ * AND / OR / NOT condition trees on verdict_rules.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding verdict rule condition trees...')
+
+    await db.execute(sql`ALTER TYPE "enum_verdict_rules_condition_type" ADD VALUE IF NOT EXISTS 'condition_tree'`)
+
+    await db.execute(sql`
+        ALTER TABLE "verdict_rules"
+        ADD COLUMN IF NOT EXISTS "condition_tree" jsonb;
+    `)
+
+    console.log('[Migration] Verdict rule condition trees added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Removing verdict rule condition trees...')
+
+    // Note: Cannot remove enum values in PostgreSQL; move tree rules back to category_match and deactivate them
+    await db.execute(sql`
+        UPDATE "verdict_rules"
+        SET "condition_type" = 'category_match', "is_active" = false
+        WHERE "condition_type" = 'condition_tree';
+    `)
+
+    await db.execute(sql`
+        ALTER TABLE "verdict_rules"
+        DROP COLUMN IF EXISTS "condition_tree";
+    `)
+
+    console.log('[Migration] Verdict rule condition trees removed')
+}
@@ -0,0 +1,33 @@
+/**
+ * Database Migration - Report Version Diffs
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+/**
+ * Store the field-level diff and the originating dispute on each
+ * products.reportVersions entry.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding report version diff columns...')
+
+    await db.execute(sql`
+        ALTER TABLE "products_report_versions"
+        ADD COLUMN IF NOT EXISTS "changes" jsonb,
+        ADD COLUMN IF NOT EXISTS "dispute_reference" varchar;
+    `)
+
+    console.log('[Migration] Report version diff columns added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Removing report version diff columns...')
+
+    await db.execute(sql`
+        ALTER TABLE "products_report_versions"
+        DROP COLUMN IF EXISTS "changes",
+        DROP COLUMN IF EXISTS "dispute_reference";
+    `)
+
+    console.log('[Migration] Report version diff columns removed')
+}
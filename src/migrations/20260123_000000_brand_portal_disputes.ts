@@ -0,0 +1,53 @@
+/**
+ * Database Migration - Brand Portal Disputes
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const RELATIONS = [
+    { column: 'brand_id', references: 'brands', index: 'manufacturer_disputes_brand_idx' },
+    { column: 'submitted_by_id', references: 'brand_users', index: 'manufacturer_disputes_submitted_by_idx' },
+]
+
+/**
+ * Link manufacturer disputes to the brand and Brand Portal user that filed them.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding Brand Portal dispute columns...')
+
+    for (const { column, references, index } of RELATIONS) {
+        await db.execute(sql.raw(`
+            ALTER TABLE "manufacturer_disputes"
+            ADD COLUMN IF NOT EXISTS "${column}" integer;
+        `))
+
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "manufacturer_disputes"
+                ADD CONSTRAINT "manufacturer_disputes_${column}_${references}_id_fk"
+                FOREIGN KEY ("${column}") REFERENCES "public"."${references}"("id") ON DELETE set null ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+
+        await db.execute(sql.raw(`
+            CREATE INDEX IF NOT EXISTS "${index}" ON "manufacturer_disputes" USING btree ("${column}");
+        `))
+    }
+
+    console.log('[Migration] Brand Portal dispute columns added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Removing Brand Portal dispute columns...')
+
+    for (const { column } of RELATIONS) {
+        await db.execute(sql.raw(`
+            ALTER TABLE "manufacturer_disputes"
+            DROP COLUMN IF EXISTS "${column}";
+        `))
+    }
+
+    console.log('[Migration] Brand Portal dispute columns removed')
+}
@@ -0,0 +1,111 @@
+/**
+ * Database Migration - Lab Data Imports
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_lab_imports_status: ['pending_review', 'applied', 'rejected'],
+    enum_lab_imports_format: ['vendor_csv', 'mzml'],
+}
+
+const RELATIONS = [
+    { column: 'product_id', references: 'products' },
+    { column: 'uploaded_by_id', references: 'users' },
+    { column: 'reviewed_by_id', references: 'users' },
+]
+
+/**
+ * Create the lab_imports staging table for instrument exports awaiting review.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating lab imports...')
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "lab_imports" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "product_id" integer NOT NULL,
+            "status" "enum_lab_imports_status" DEFAULT 'pending_review' NOT NULL,
+            "format" "enum_lab_imports_format" NOT NULL,
+            "file_name" varchar,
+            "instrument" varchar,
+            "sample_name" varchar,
+            "acquired_at" timestamp(3) with time zone,
+            "lab_name" varchar,
+            "peak_count" numeric,
+            "detection_count" numeric,
+            "not_detected_count" numeric,
+            "detections" jsonb,
+            "unmatched_peaks" jsonb,
+            "warnings" jsonb,
+            "review_notes" varchar,
+            "uploaded_by_id" integer,
+            "reviewed_by_id" integer,
+            "reviewed_at" timestamp(3) with time zone,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+
+    for (const { column, references } of RELATIONS) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "lab_imports"
+                ADD CONSTRAINT "lab_imports_${column}_${references}_id_fk"
+                FOREIGN KEY ("${column}") REFERENCES "public"."${references}"("id") ON DELETE set null ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`
+            CREATE INDEX IF NOT EXISTS "lab_imports_${column.replace(/_id$/, '')}_idx" ON "lab_imports" USING btree ("${column}");
+        `))
+    }
+
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "lab_imports_updated_at_idx" ON "lab_imports" USING btree ("updated_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "lab_imports_created_at_idx" ON "lab_imports" USING btree ("created_at");`)
+
+    // Document locking
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "lab_imports_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_locked_documents_rels"
+            ADD CONSTRAINT "payload_locked_documents_rels_lab_imports_fk"
+            FOREIGN KEY ("lab_imports_id") REFERENCES "public"."lab_imports"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_locked_documents_rels_lab_imports_id_idx"
+        ON "payload_locked_documents_rels" USING btree ("lab_imports_id");
+    `)
+
+    console.log('[Migration] Lab imports created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back lab imports...')
+
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_lab_imports_fk";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "payload_locked_documents_rels_lab_imports_id_idx";`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "lab_imports_id";`)
+
+    await db.execute(sql`DROP TABLE IF EXISTS "lab_imports" CASCADE;`)
+
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+
+    console.log('[Migration] Lab imports rollback completed')
+}
@@ -0,0 +1,60 @@
+/**
+ * Database Migration - Evidence Hash Chain
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const VERSION_COLUMNS = ['lab_report_hash', 'chain_of_custody_hash', 'previous_hash', 'hash']
+
+/**
+ * Store upload hashes on media, the chain-of-custody document hash on products,
+ * and the evidence hashes plus hash-chain links on each report version.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding evidence hash chain columns...')
+
+    await db.execute(sql`ALTER TABLE "media" ADD COLUMN IF NOT EXISTS "sha256" varchar;`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "media_sha256_idx" ON "media" USING btree ("sha256");`)
+
+    await db.execute(sql`
+        ALTER TABLE "products"
+        ADD COLUMN IF NOT EXISTS "evidence_locker_lab_chain_of_custody_hash" varchar;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "products_evidence_locker_evidence_locker_lab_report_hash_idx"
+        ON "products" USING btree ("evidence_locker_lab_report_hash");
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "products_evidence_locker_evidence_locker_lab_chain_of__1_idx"
+        ON "products" USING btree ("evidence_locker_lab_chain_of_custody_hash");
+    `)
+
+    for (const column of VERSION_COLUMNS) {
+        await db.execute(sql.raw(`
+            ALTER TABLE "products_report_versions"
+            ADD COLUMN IF NOT EXISTS "${column}" varchar;
+        `))
+    }
+
+    console.log('[Migration] Evidence hash chain columns added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Removing evidence hash chain columns...')
+
+    for (const column of VERSION_COLUMNS) {
+        await db.execute(sql.raw(`
+            ALTER TABLE "products_report_versions"
+            DROP COLUMN IF EXISTS "${column}";
+        `))
+    }
+
+    await db.execute(sql`DROP INDEX IF EXISTS "products_evidence_locker_evidence_locker_lab_chain_of__1_idx";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "products_evidence_locker_evidence_locker_lab_report_hash_idx";`)
+    await db.execute(sql`ALTER TABLE "products" DROP COLUMN IF EXISTS "evidence_locker_lab_chain_of_custody_hash";`)
+
+    await db.execute(sql`DROP INDEX IF EXISTS "media_sha256_idx";`)
+    await db.execute(sql`ALTER TABLE "media" DROP COLUMN IF EXISTS "sha256";`)
+
+    console.log('[Migration] Evidence hash chain columns removed')
+}
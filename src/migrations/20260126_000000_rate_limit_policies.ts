@@ -0,0 +1,101 @@
+/**
+ * Database Migration - Rate Limit Policies
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Array<[string, string[]]> = [
+    ['enum_rate_limit_settings_default_store', ['kv', 'redis', 'postgres', 'memory']],
+    ['enum_rate_limit_settings_policies_store', ['kv', 'redis', 'postgres', 'memory']],
+    ['enum_rate_limit_settings_policies_algorithm', ['sliding_window', 'token_bucket', 'fixed_window']],
+]
+
+/**
+ * Create the rate-limit-settings global (per-route policy table) and the
+ * rate_limit_counters table used by the Postgres rate limit store.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating rate limit policy tables...')
+
+    for (const [name, values] of ENUMS) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${name}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "rate_limit_settings" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "default_store" "enum_rate_limit_settings_default_store",
+            "updated_at" timestamp(3) with time zone,
+            "created_at" timestamp(3) with time zone
+        );
+    `)
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "rate_limit_settings_policies" (
+            "_order" integer NOT NULL,
+            "_parent_id" integer NOT NULL,
+            "id" varchar PRIMARY KEY NOT NULL,
+            "name" varchar NOT NULL,
+            "enabled" boolean DEFAULT true,
+            "routes" varchar,
+            "algorithm" "enum_rate_limit_settings_policies_algorithm",
+            "max_requests" numeric,
+            "window_seconds" numeric,
+            "burst" numeric,
+            "store" "enum_rate_limit_settings_policies_store"
+        );
+    `)
+
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "rate_limit_settings_policies"
+            ADD CONSTRAINT "rate_limit_settings_policies_parent_id_fk"
+            FOREIGN KEY ("_parent_id") REFERENCES "public"."rate_limit_settings"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "rate_limit_settings_policies_order_idx"
+        ON "rate_limit_settings_policies" USING btree ("_order");
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "rate_limit_settings_policies_parent_id_idx"
+        ON "rate_limit_settings_policies" USING btree ("_parent_id");
+    `)
+
+    // Counters for RATE_LIMIT_STORE=postgres (not a Payload collection)
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "rate_limit_counters" (
+            "key" varchar PRIMARY KEY NOT NULL,
+            "value" double precision NOT NULL DEFAULT 0,
+            "expires_at" timestamp(3) with time zone NOT NULL
+        );
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "rate_limit_counters_expires_at_idx"
+        ON "rate_limit_counters" USING btree ("expires_at");
+    `)
+
+    console.log('[Migration] Rate limit policy tables created')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Dropping rate limit policy tables...')
+
+    await db.execute(sql`DROP TABLE IF EXISTS "rate_limit_counters" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "rate_limit_settings_policies" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "rate_limit_settings" CASCADE;`)
+
+    for (const [name] of ENUMS) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${name}";`))
+    }
+
+    console.log('[Migration] Rate limit policy tables dropped')
+}
@@ -0,0 +1,93 @@
+/**
+ * Database Migration - Durable Job Queue
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const TASK_SLUGS = [
+    'batch-enrich',
+    'background-remove-batch',
+    'image-internalize',
+    'youtube-sync',
+    'embed-products',
+    'recall-watchdog',
+]
+
+const TASK_SLUG_ENUMS = ['enum_payload_jobs_task_slug', 'enum_payload_jobs_log_task_slug']
+
+/**
+ * Register the queue tasks on payload_jobs and add the progress,
+ * dead-letter, result and requester columns read by the job monitor.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding durable job queue columns...')
+
+    for (const enumName of TASK_SLUG_ENUMS) {
+        for (const slug of TASK_SLUGS) {
+            await db.execute(sql.raw(`ALTER TYPE "public"."${enumName}" ADD VALUE IF NOT EXISTS '${slug}';`))
+        }
+    }
+
+    await db.execute(sql`
+        ALTER TABLE "payload_jobs"
+            ADD COLUMN IF NOT EXISTS "progress_completed" numeric,
+            ADD COLUMN IF NOT EXISTS "progress_total" numeric,
+            ADD COLUMN IF NOT EXISTS "progress_message" varchar,
+            ADD COLUMN IF NOT EXISTS "dead_letter_dead_lettered" boolean,
+            ADD COLUMN IF NOT EXISTS "dead_letter_reason" varchar,
+            ADD COLUMN IF NOT EXISTS "dead_letter_attempts" numeric,
+            ADD COLUMN IF NOT EXISTS "dead_letter_at" timestamp(3) with time zone,
+            ADD COLUMN IF NOT EXISTS "result" jsonb,
+            ADD COLUMN IF NOT EXISTS "requested_by_id" integer,
+            ADD COLUMN IF NOT EXISTS "retry_of" numeric;
+    `)
+
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_jobs"
+            ADD CONSTRAINT "payload_jobs_requested_by_id_users_id_fk"
+            FOREIGN KEY ("requested_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_jobs_dead_letter_dead_letter_dead_lettered_idx"
+        ON "payload_jobs" USING btree ("dead_letter_dead_lettered");
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_jobs_requested_by_idx"
+        ON "payload_jobs" USING btree ("requested_by_id");
+    `)
+
+    console.log('[Migration] Durable job queue columns added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Removing durable job queue columns...')
+
+    await db.execute(sql`
+        ALTER TABLE "payload_jobs" DROP CONSTRAINT IF EXISTS "payload_jobs_requested_by_id_users_id_fk";
+    `)
+    await db.execute(sql`
+        ALTER TABLE "payload_jobs"
+            DROP COLUMN IF EXISTS "progress_completed",
+            DROP COLUMN IF EXISTS "progress_total",
+            DROP COLUMN IF EXISTS "progress_message",
+            DROP COLUMN IF EXISTS "dead_letter_dead_lettered",
+            DROP COLUMN IF EXISTS "dead_letter_reason",
+            DROP COLUMN IF EXISTS "dead_letter_attempts",
+            DROP COLUMN IF EXISTS "dead_letter_at",
+            DROP COLUMN IF EXISTS "result",
+            DROP COLUMN IF EXISTS "requested_by_id",
+            DROP COLUMN IF EXISTS "retry_of";
+    `)
+
+    // Postgres cannot drop enum values; remove queued rows for the tasks instead
+    await db.execute(sql.raw(`
+        DELETE FROM "payload_jobs"
+        WHERE "task_slug"::text IN (${TASK_SLUGS.map(s => `'${s}'`).join(', ')});
+    `))
+
+    console.log('[Migration] Durable job queue columns removed')
+}
@@ -0,0 +1,70 @@
+/**
+ * Database Migration - Hybrid Search
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+/**
+ * Keyword side of hybrid search (utilities/hybrid-search):
+ * 1. pg_trgm for typo-tolerant name/brand matching and similar-query clicks
+ * 2. products.search_vector, a generated tsvector weighted
+ *    name/brand (A) > summary (B) > verdict reason (C)
+ * 3. GIN indexes for the tsvector and trigram lookups
+ * 4. search_queries indexes for click aggregation by query
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding hybrid search indexes...')
+
+    await db.execute(sql`
+        CREATE EXTENSION IF NOT EXISTS pg_trgm;
+    `)
+
+    await db.execute(sql`
+        ALTER TABLE "products"
+        ADD COLUMN IF NOT EXISTS "search_vector" tsvector
+        GENERATED ALWAYS AS (
+            setweight(to_tsvector('english', coalesce("name", '') || ' ' || coalesce("brand", '')), 'A') ||
+            setweight(to_tsvector('english', coalesce("summary", '')), 'B') ||
+            setweight(to_tsvector('english', coalesce("verdict_reason", '')), 'C')
+        ) STORED;
+    `)
+
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_products_search_vector"
+        ON "products" USING gin ("search_vector");
+    `)
+
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_products_name_brand_trgm"
+        ON "products" USING gin (("name" || ' ' || "brand") gin_trgm_ops);
+    `)
+
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_search_queries_query_lower"
+        ON "search_queries" (lower(trim("query")))
+        WHERE "clicked_result" = true;
+    `)
+
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "idx_search_queries_query_trgm"
+        ON "search_queries" USING gin (lower("query") gin_trgm_ops)
+        WHERE "clicked_result" = true;
+    `)
+
+    console.log('[Migration] Hybrid search indexes created')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    await db.execute(sql`
+        DROP INDEX IF EXISTS "idx_search_queries_query_trgm";
+        DROP INDEX IF EXISTS "idx_search_queries_query_lower";
+        DROP INDEX IF EXISTS "idx_products_name_brand_trgm";
+        DROP INDEX IF EXISTS "idx_products_search_vector";
+    `)
+
+    await db.execute(sql`
+        ALTER TABLE "products" DROP COLUMN IF EXISTS "search_vector";
+    `)
+
+    // pg_trgm is left installed; other queries may rely on it
+}
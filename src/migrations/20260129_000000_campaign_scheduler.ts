@@ -0,0 +1,46 @@
+/**
+ * Database Migration - Push Campaign Scheduler
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const TASK_SLUG_ENUMS = ['enum_payload_jobs_task_slug', 'enum_payload_jobs_log_task_slug']
+
+/**
+ * Device timezone on push tokens (local-time campaigns and quiet hours),
+ * the campaign-send queue task, and an index for the per-campaign send
+ * history the scheduler reads every tick.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding campaign scheduler columns...')
+
+    for (const enumName of TASK_SLUG_ENUMS) {
+        await db.execute(sql.raw(`ALTER TYPE "public"."${enumName}" ADD VALUE IF NOT EXISTS 'campaign-send';`))
+    }
+
+    await db.execute(sql`
+        ALTER TABLE "push_tokens" ADD COLUMN IF NOT EXISTS "timezone" varchar;
+    `)
+
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "notification_sends_campaign_sent_at_idx"
+        ON "notification_sends" USING btree ("campaign_id", "sent_at");
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "notification_campaigns_next_scheduled_at_idx"
+        ON "notification_campaigns" USING btree ("next_scheduled_at");
+    `)
+
+    console.log('[Migration] Campaign scheduler columns added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    await db.execute(sql`
+        DROP INDEX IF EXISTS "notification_campaigns_next_scheduled_at_idx";
+        DROP INDEX IF EXISTS "notification_sends_campaign_sent_at_idx";
+    `)
+    await db.execute(sql`
+        ALTER TABLE "push_tokens" DROP COLUMN IF EXISTS "timezone";
+    `)
+    // Enum values can't be dropped in Postgres; 'campaign-send' stays
+}
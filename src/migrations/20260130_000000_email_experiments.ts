@@ -0,0 +1,112 @@
+/**
+ * Database Migration - Email Experiments
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const EXTRA_VARIANT_KEYS = ['C', 'D', 'E', 'F']
+
+/**
+ * N-variant email tests: variants array and experiment settings on
+ * email_templates, variant keys C-F on email_sends.ab_variant and the
+ * template winner, and an index for the per-template result query.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding email experiment columns...')
+
+    for (const enumName of ['enum_email_sends_ab_variant', 'enum_email_templates_stats_ab_test_winner']) {
+        for (const key of EXTRA_VARIANT_KEYS) {
+            await db.execute(sql.raw(`ALTER TYPE "public"."${enumName}" ADD VALUE IF NOT EXISTS '${key}';`))
+        }
+    }
+
+    await db.execute(sql`
+        DO $$ BEGIN
+            CREATE TYPE "public"."enum_email_templates_variants_key" AS ENUM('B', 'C', 'D', 'E', 'F');
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            CREATE TYPE "public"."enum_email_templates_experiment_metric" AS ENUM('open', 'click');
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "email_templates_variants" (
+            "_order" integer NOT NULL,
+            "_parent_id" integer NOT NULL,
+            "id" varchar PRIMARY KEY NOT NULL,
+            "key" "enum_email_templates_variants_key" NOT NULL,
+            "weight" numeric DEFAULT 1,
+            "subject" varchar,
+            "preheader" varchar,
+            "headline" varchar,
+            "body" jsonb,
+            "cta_text" varchar,
+            "cta_url" varchar
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "email_templates_variants"
+            ADD CONSTRAINT "email_templates_variants_parent_id_fk"
+            FOREIGN KEY ("_parent_id") REFERENCES "email_templates"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "email_templates_variants_order_idx"
+        ON "email_templates_variants" USING btree ("_order");
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "email_templates_variants_parent_id_idx"
+        ON "email_templates_variants" USING btree ("_parent_id");
+    `)
+
+    await db.execute(sql`
+        ALTER TABLE "email_templates"
+            ADD COLUMN IF NOT EXISTS "experiment_metric" "enum_email_templates_experiment_metric" DEFAULT 'open',
+            ADD COLUMN IF NOT EXISTS "experiment_confidence_level" numeric DEFAULT 95,
+            ADD COLUMN IF NOT EXISTS "experiment_control_weight" numeric DEFAULT 1,
+            ADD COLUMN IF NOT EXISTS "experiment_holdout_hours" numeric DEFAULT 48,
+            ADD COLUMN IF NOT EXISTS "experiment_min_sample_size" numeric DEFAULT 100,
+            ADD COLUMN IF NOT EXISTS "experiment_auto_promote" boolean DEFAULT true,
+            ADD COLUMN IF NOT EXISTS "experiment_started_at" timestamp(3) with time zone,
+            ADD COLUMN IF NOT EXISTS "experiment_concluded_at" timestamp(3) with time zone;
+    `)
+
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "email_sends_template_sent_at_idx"
+        ON "email_sends" USING btree ("template_id", "sent_at");
+    `)
+
+    console.log('[Migration] Email experiment columns added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    await db.execute(sql`
+        DROP INDEX IF EXISTS "email_sends_template_sent_at_idx";
+    `)
+    await db.execute(sql`
+        ALTER TABLE "email_templates"
+            DROP COLUMN IF EXISTS "experiment_metric",
+            DROP COLUMN IF EXISTS "experiment_confidence_level",
+            DROP COLUMN IF EXISTS "experiment_control_weight",
+            DROP COLUMN IF EXISTS "experiment_holdout_hours",
+            DROP COLUMN IF EXISTS "experiment_min_sample_size",
+            DROP COLUMN IF EXISTS "experiment_auto_promote",
+            DROP COLUMN IF EXISTS "experiment_started_at",
+            DROP COLUMN IF EXISTS "experiment_concluded_at";
+    `)
+    await db.execute(sql`
+        DROP TABLE IF EXISTS "email_templates_variants" CASCADE;
+        DROP TYPE IF EXISTS "public"."enum_email_templates_variants_key";
+        DROP TYPE IF EXISTS "public"."enum_email_templates_experiment_metric";
+    `)
+    // Enum values can't be dropped in Postgres; variant keys C-F stay
+}
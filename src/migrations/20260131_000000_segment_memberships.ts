@@ -0,0 +1,170 @@
+/**
+ * Database Migration - Segment Memberships
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const TASK_SLUG_ENUMS = ['enum_payload_jobs_task_slug', 'enum_payload_jobs_log_task_slug']
+
+const TABLES = ['segment_memberships', 'segment_events']
+
+const RELATIONS = [
+    { table: 'segment_memberships', column: 'segment_id', references: 'user_segments', onDelete: 'cascade' },
+    { table: 'segment_memberships', column: 'fingerprint_id', references: 'device_fingerprints', onDelete: 'cascade' },
+    { table: 'segment_memberships', column: 'user_id', references: 'users', onDelete: 'set null' },
+    { table: 'segment_events', column: 'segment_id', references: 'user_segments', onDelete: 'cascade' },
+    { table: 'segment_events', column: 'fingerprint_id', references: 'device_fingerprints', onDelete: 'set null' },
+    { table: 'segment_events', column: 'user_id', references: 'users', onDelete: 'set null' },
+]
+
+/**
+ * Materialized segment membership (one row per segment and device), the
+ * entered/exited event log synced to RevenueCat, email template audience
+ * segments, and the segment-refresh queue task.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating segment memberships...')
+
+    for (const enumName of TASK_SLUG_ENUMS) {
+        await db.execute(sql.raw(`ALTER TYPE "public"."${enumName}" ADD VALUE IF NOT EXISTS 'segment-refresh';`))
+    }
+
+    await db.execute(sql`
+        DO $$ BEGIN
+            CREATE TYPE "public"."enum_segment_events_change" AS ENUM('entered', 'exited');
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "segment_memberships" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "segment_id" integer NOT NULL,
+            "fingerprint_id" integer NOT NULL,
+            "fingerprint_hash" varchar NOT NULL,
+            "user_id" integer,
+            "entered_at" timestamp(3) with time zone NOT NULL,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "segment_events" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "segment_id" integer NOT NULL,
+            "change" "enum_segment_events_change" NOT NULL,
+            "fingerprint_id" integer,
+            "fingerprint_hash" varchar,
+            "user_id" integer,
+            "synced_at" timestamp(3) with time zone,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+
+    for (const { table, column, references, onDelete } of RELATIONS) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "${table}"
+                ADD CONSTRAINT "${table}_${column}_${references}_id_fk"
+                FOREIGN KEY ("${column}") REFERENCES "public"."${references}"("id") ON DELETE ${onDelete} ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`
+            CREATE INDEX IF NOT EXISTS "${table}_${column.replace(/_id$/, '')}_idx" ON "${table}" USING btree ("${column}");
+        `))
+    }
+
+    for (const table of TABLES) {
+        await db.execute(sql.raw(`CREATE INDEX IF NOT EXISTS "${table}_fingerprint_hash_idx" ON "${table}" USING btree ("fingerprint_hash");`))
+        await db.execute(sql.raw(`CREATE INDEX IF NOT EXISTS "${table}_updated_at_idx" ON "${table}" USING btree ("updated_at");`))
+        await db.execute(sql.raw(`CREATE INDEX IF NOT EXISTS "${table}_created_at_idx" ON "${table}" USING btree ("created_at");`))
+    }
+
+    // One row per segment and device; the engine's inserts rely on it
+    await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS "segment_fingerprint_idx"
+        ON "segment_memberships" USING btree ("segment_id", "fingerprint_id");
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "segment_events_synced_at_idx"
+        ON "segment_events" USING btree ("synced_at");
+    `)
+
+    // Email template audience (hasMany relationship)
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "email_templates_rels" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "order" integer,
+            "parent_id" integer NOT NULL,
+            "path" varchar NOT NULL,
+            "user_segments_id" integer
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "email_templates_rels"
+            ADD CONSTRAINT "email_templates_rels_parent_fk"
+            FOREIGN KEY ("parent_id") REFERENCES "public"."email_templates"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "email_templates_rels"
+            ADD CONSTRAINT "email_templates_rels_user_segments_fk"
+            FOREIGN KEY ("user_segments_id") REFERENCES "public"."user_segments"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "email_templates_rels_order_idx" ON "email_templates_rels" USING btree ("order");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "email_templates_rels_parent_idx" ON "email_templates_rels" USING btree ("parent_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "email_templates_rels_path_idx" ON "email_templates_rels" USING btree ("path");`)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "email_templates_rels_user_segments_id_idx"
+        ON "email_templates_rels" USING btree ("user_segments_id");
+    `)
+
+    // Document locking
+    for (const table of TABLES) {
+        await db.execute(sql.raw(`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "${table}_id" integer;`))
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "payload_locked_documents_rels"
+                ADD CONSTRAINT "payload_locked_documents_rels_${table}_fk"
+                FOREIGN KEY ("${table}_id") REFERENCES "public"."${table}"("id") ON DELETE cascade ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`
+            CREATE INDEX IF NOT EXISTS "payload_locked_documents_rels_${table}_id_idx"
+            ON "payload_locked_documents_rels" USING btree ("${table}_id");
+        `))
+    }
+
+    console.log('[Migration] Segment memberships created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back segment memberships...')
+
+    for (const table of TABLES) {
+        await db.execute(sql.raw(`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_${table}_fk";`))
+        await db.execute(sql.raw(`DROP INDEX IF EXISTS "payload_locked_documents_rels_${table}_id_idx";`))
+        await db.execute(sql.raw(`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "${table}_id";`))
+    }
+
+    await db.execute(sql`DROP TABLE IF EXISTS "email_templates_rels" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "segment_events" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "segment_memberships" CASCADE;`)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_segment_events_change";`)
+
+    // Enum values can't be dropped in Postgres; 'segment-refresh' stays
+    console.log('[Migration] Segment memberships rollback completed')
+}
@@ -0,0 +1,50 @@
+/**
+ * Database Migration - Retailer Price Adapters
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_price_history_extracted_from: ['embedded_state', 'json_ld', 'microdata', 'html'],
+    enum_price_history_ingredients_source: ['retailer', 'product'],
+}
+
+/**
+ * iHerb as a price-history retailer, plus where each scraped price and
+ * ingredient snapshot came from.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding retailer adapter columns...')
+
+    await db.execute(sql`ALTER TYPE "public"."enum_price_history_retailer" ADD VALUE IF NOT EXISTS 'iherb' BEFORE 'manual';`)
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+
+    await db.execute(sql`
+        ALTER TABLE "price_history"
+            ADD COLUMN IF NOT EXISTS "extracted_from" "enum_price_history_extracted_from",
+            ADD COLUMN IF NOT EXISTS "ingredients_source" "enum_price_history_ingredients_source";
+    `)
+
+    console.log('[Migration] Retailer adapter columns added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    await db.execute(sql`
+        ALTER TABLE "price_history"
+            DROP COLUMN IF EXISTS "extracted_from",
+            DROP COLUMN IF EXISTS "ingredients_source";
+    `)
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+    // Enum values can't be dropped in Postgres; 'iherb' stays
+}
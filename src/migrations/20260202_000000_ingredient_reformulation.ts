@@ -0,0 +1,32 @@
+/**
+ * Database Migration - Ingredient Reformulation
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+/**
+ * 'reformulation' price-history anomalies, plus the retest request they set
+ * on products.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding reformulation tracking...')
+
+    await db.execute(sql`ALTER TYPE "public"."enum_price_history_anomaly_type" ADD VALUE IF NOT EXISTS 'reformulation';`)
+
+    await db.execute(sql`
+        ALTER TABLE "products"
+            ADD COLUMN IF NOT EXISTS "retest_requested_at" timestamp(3) with time zone,
+            ADD COLUMN IF NOT EXISTS "retest_reason" varchar;
+    `)
+
+    console.log('[Migration] Reformulation tracking added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    await db.execute(sql`
+        ALTER TABLE "products"
+            DROP COLUMN IF EXISTS "retest_requested_at",
+            DROP COLUMN IF EXISTS "retest_reason";
+    `)
+    // Enum values can't be dropped in Postgres; 'reformulation' stays
+}
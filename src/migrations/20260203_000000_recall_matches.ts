@@ -0,0 +1,136 @@
+/**
+ * Database Migration - Recall Matches
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_recall_matches_status: ['pending_review', 'confirmed', 'rejected'],
+    enum_recall_matches_recall_source: ['fda_food', 'fda_drug', 'cpsc'],
+    enum_recall_matches_signals: ['upc', 'lot', 'date_range', 'brand', 'product_name'],
+}
+
+const RELATIONS = [
+    { column: 'product_id', references: 'products' },
+    { column: 'brand_id', references: 'brands' },
+    { column: 'reviewed_by_id', references: 'users' },
+]
+
+/**
+ * Create the recall_matches review queue for the recall watchdog.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating recall matches...')
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "recall_matches" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "product_id" integer NOT NULL,
+            "brand_id" integer,
+            "status" "enum_recall_matches_status" DEFAULT 'pending_review' NOT NULL,
+            "confidence" numeric,
+            "recall_number" varchar NOT NULL,
+            "recall_source" "enum_recall_matches_recall_source" NOT NULL,
+            "classification" varchar,
+            "recall_date" timestamp(3) with time zone,
+            "recalling_firm" varchar,
+            "reason" varchar,
+            "product_description" varchar,
+            "code_info" varchar,
+            "recall_url" varchar,
+            "extracted" jsonb,
+            "review_notes" varchar,
+            "alerts_sent" jsonb,
+            "reviewed_by_id" integer,
+            "reviewed_at" timestamp(3) with time zone,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "recall_matches_signals" (
+            "order" integer NOT NULL,
+            "parent_id" integer NOT NULL,
+            "value" "enum_recall_matches_signals",
+            "id" serial PRIMARY KEY NOT NULL
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "recall_matches_signals"
+            ADD CONSTRAINT "recall_matches_signals_parent_fk"
+            FOREIGN KEY ("parent_id") REFERENCES "public"."recall_matches"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "recall_matches_signals_order_idx" ON "recall_matches_signals" USING btree ("order");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "recall_matches_signals_parent_idx" ON "recall_matches_signals" USING btree ("parent_id");`)
+
+    for (const { column, references } of RELATIONS) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "recall_matches"
+                ADD CONSTRAINT "recall_matches_${column}_${references}_id_fk"
+                FOREIGN KEY ("${column}") REFERENCES "public"."${references}"("id") ON DELETE set null ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`
+            CREATE INDEX IF NOT EXISTS "recall_matches_${column.replace(/_id$/, '')}_idx" ON "recall_matches" USING btree ("${column}");
+        `))
+    }
+
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "recall_matches_status_idx" ON "recall_matches" USING btree ("status");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "recall_matches_recall_number_idx" ON "recall_matches" USING btree ("recall_number");`)
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS "recallNumber_product_idx" ON "recall_matches" USING btree ("recall_number", "product_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "recall_matches_updated_at_idx" ON "recall_matches" USING btree ("updated_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "recall_matches_created_at_idx" ON "recall_matches" USING btree ("created_at");`)
+
+    // Document locking
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "recall_matches_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_locked_documents_rels"
+            ADD CONSTRAINT "payload_locked_documents_rels_recall_matches_fk"
+            FOREIGN KEY ("recall_matches_id") REFERENCES "public"."recall_matches"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_locked_documents_rels_recall_matches_id_idx"
+        ON "payload_locked_documents_rels" USING btree ("recall_matches_id");
+    `)
+
+    console.log('[Migration] Recall matches created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back recall matches...')
+
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_recall_matches_fk";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "payload_locked_documents_rels_recall_matches_id_idx";`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "recall_matches_id";`)
+
+    await db.execute(sql`DROP TABLE IF EXISTS "recall_matches_signals" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "recall_matches" CASCADE;`)
+
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+
+    console.log('[Migration] Recall matches rollback completed')
+}
@@ -0,0 +1,62 @@
+/**
+ * Database Migration - Regulatory Feed Parsers
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+/**
+ * Links regulatory-change substances to ingredients, adds the affected
+ * products relationship and indexes referenceId for de-duplication.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding regulatory substance and product links...')
+
+    await db.execute(sql`
+        ALTER TABLE "regulatory_changes_affected_substances"
+            ADD COLUMN IF NOT EXISTS "ingredient_id" integer;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "regulatory_changes_affected_substances"
+            ADD CONSTRAINT "regulatory_changes_affected_substances_ingredient_id_ingredients_id_fk"
+            FOREIGN KEY ("ingredient_id") REFERENCES "public"."ingredients"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "regulatory_changes_affected_substances_ingredient_idx" ON "regulatory_changes_affected_substances" USING btree ("ingredient_id");`)
+
+    await db.execute(sql`
+        ALTER TABLE "regulatory_changes_rels"
+            ADD COLUMN IF NOT EXISTS "products_id" integer;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "regulatory_changes_rels"
+            ADD CONSTRAINT "regulatory_changes_rels_products_fk"
+            FOREIGN KEY ("products_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "regulatory_changes_rels_products_id_idx" ON "regulatory_changes_rels" USING btree ("products_id");`)
+
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "regulatory_changes_reference_id_idx" ON "regulatory_changes" USING btree ("reference_id");`)
+
+    console.log('[Migration] Regulatory substance and product links added')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    await db.execute(sql`DROP INDEX IF EXISTS "regulatory_changes_reference_id_idx";`)
+    await db.execute(sql`DELETE FROM "regulatory_changes_rels" WHERE "path" = 'affectedProducts';`)
+    await db.execute(sql`
+        ALTER TABLE "regulatory_changes_rels"
+            DROP CONSTRAINT IF EXISTS "regulatory_changes_rels_products_fk",
+            DROP COLUMN IF EXISTS "products_id";
+    `)
+    await db.execute(sql`
+        ALTER TABLE "regulatory_changes_affected_substances"
+            DROP CONSTRAINT IF EXISTS "regulatory_changes_affected_substances_ingredient_id_ingredients_id_fk",
+            DROP COLUMN IF EXISTS "ingredient_id";
+    `)
+}
@@ -0,0 +1,169 @@
+/**
+ * Database Migration - Brand Team Management & API Keys
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_brand_api_keys_tier: ['free', 'starter', 'pro', 'enterprise'],
+    enum_brand_api_keys_status: ['active', 'revoked'],
+}
+
+const RELATIONS = [
+    { table: 'brand_users', column: 'invited_by_id', references: 'brand_users' },
+    { table: 'brand_users', column: 'access_revoked_by_id', references: 'brand_users' },
+    { table: 'brand_api_keys', column: 'owner_id', references: 'brand_users' },
+    { table: 'brand_api_keys', column: 'replaced_by_id', references: 'brand_api_keys' },
+    { table: 'brand_api_keys', column: 'revoked_by_id', references: 'brand_users' },
+]
+
+/**
+ * Team invitation / revocation columns on brand_users and the
+ * brand_api_keys table with its brand scope.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating brand team management and API keys...')
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+    await db.execute(sql`ALTER TYPE "public"."enum_brand_users_verification_method" ADD VALUE IF NOT EXISTS 'team_invite';`)
+
+    await db.execute(sql`
+        ALTER TABLE "brand_users"
+            ADD COLUMN IF NOT EXISTS "invited_by_id" integer,
+            ADD COLUMN IF NOT EXISTS "invite_token_hash" varchar,
+            ADD COLUMN IF NOT EXISTS "invite_expires_at" timestamp(3) with time zone,
+            ADD COLUMN IF NOT EXISTS "access_revoked_at" timestamp(3) with time zone,
+            ADD COLUMN IF NOT EXISTS "access_revoked_by_id" integer;
+    `)
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "brand_api_keys" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "name" varchar NOT NULL,
+            "key_prefix" varchar NOT NULL,
+            "key_hash" varchar NOT NULL,
+            "owner_id" integer NOT NULL,
+            "tier" "enum_brand_api_keys_tier" NOT NULL,
+            "status" "enum_brand_api_keys_status" DEFAULT 'active' NOT NULL,
+            "expires_at" timestamp(3) with time zone,
+            "replaced_by_id" integer,
+            "revoked_at" timestamp(3) with time zone,
+            "revoked_by_id" integer,
+            "monthly_quota" numeric DEFAULT 100000,
+            "usage_period" varchar,
+            "period_usage" numeric DEFAULT 0,
+            "usage_count" numeric DEFAULT 0,
+            "endpoint_usage" jsonb,
+            "last_used_at" timestamp(3) with time zone,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "brand_api_keys_rels" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "order" integer,
+            "parent_id" integer NOT NULL,
+            "path" varchar NOT NULL,
+            "brands_id" integer
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "brand_api_keys_rels"
+            ADD CONSTRAINT "brand_api_keys_rels_parent_fk"
+            FOREIGN KEY ("parent_id") REFERENCES "public"."brand_api_keys"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "brand_api_keys_rels"
+            ADD CONSTRAINT "brand_api_keys_rels_brands_fk"
+            FOREIGN KEY ("brands_id") REFERENCES "public"."brands"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_api_keys_rels_order_idx" ON "brand_api_keys_rels" USING btree ("order");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_api_keys_rels_parent_idx" ON "brand_api_keys_rels" USING btree ("parent_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_api_keys_rels_path_idx" ON "brand_api_keys_rels" USING btree ("path");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_api_keys_rels_brands_id_idx" ON "brand_api_keys_rels" USING btree ("brands_id");`)
+
+    for (const { table, column, references } of RELATIONS) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "${table}"
+                ADD CONSTRAINT "${table}_${column}_${references}_id_fk"
+                FOREIGN KEY ("${column}") REFERENCES "public"."${references}"("id") ON DELETE set null ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`
+            CREATE INDEX IF NOT EXISTS "${table}_${column.replace(/_id$/, '')}_idx" ON "${table}" USING btree ("${column}");
+        `))
+    }
+
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS "brand_api_keys_key_hash_idx" ON "brand_api_keys" USING btree ("key_hash");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_api_keys_status_idx" ON "brand_api_keys" USING btree ("status");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_api_keys_updated_at_idx" ON "brand_api_keys" USING btree ("updated_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_api_keys_created_at_idx" ON "brand_api_keys" USING btree ("created_at");`)
+
+    // Document locking
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "brand_api_keys_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_locked_documents_rels"
+            ADD CONSTRAINT "payload_locked_documents_rels_brand_api_keys_fk"
+            FOREIGN KEY ("brand_api_keys_id") REFERENCES "public"."brand_api_keys"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_locked_documents_rels_brand_api_keys_id_idx"
+        ON "payload_locked_documents_rels" USING btree ("brand_api_keys_id");
+    `)
+
+    console.log('[Migration] Brand team management and API keys created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back brand team management and API keys...')
+
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_brand_api_keys_fk";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "payload_locked_documents_rels_brand_api_keys_id_idx";`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "brand_api_keys_id";`)
+
+    await db.execute(sql`DROP TABLE IF EXISTS "brand_api_keys_rels" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "brand_api_keys" CASCADE;`)
+
+    await db.execute(sql`
+        ALTER TABLE "brand_users"
+            DROP CONSTRAINT IF EXISTS "brand_users_invited_by_id_brand_users_id_fk",
+            DROP CONSTRAINT IF EXISTS "brand_users_access_revoked_by_id_brand_users_id_fk",
+            DROP COLUMN IF EXISTS "invited_by_id",
+            DROP COLUMN IF EXISTS "invite_token_hash",
+            DROP COLUMN IF EXISTS "invite_expires_at",
+            DROP COLUMN IF EXISTS "access_revoked_at",
+            DROP COLUMN IF EXISTS "access_revoked_by_id";
+    `)
+
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+    // Enum values can't be dropped in Postgres; 'team_invite' stays
+
+    console.log('[Migration] Brand team management and API keys rollback completed')
+}
@@ -0,0 +1,127 @@
+/**
+ * Database Migration - Brand Benchmark Reports
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const TASK_SLUG_ENUMS = ['enum_payload_jobs_task_slug', 'enum_payload_jobs_log_task_slug']
+
+/**
+ * Archive of weekly brand benchmark reports and the brand-reports
+ * queue task.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating brand reports...')
+
+    await db.execute(sql`
+        DO $$ BEGIN
+            CREATE TYPE "public"."enum_brand_reports_edition" AS ENUM('standard', 'competitive');
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+
+    for (const enumName of TASK_SLUG_ENUMS) {
+        await db.execute(sql.raw(`ALTER TYPE "public"."${enumName}" ADD VALUE IF NOT EXISTS 'brand-reports';`))
+    }
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "brand_reports" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "brand_id" integer NOT NULL,
+            "brand_name" varchar,
+            "edition" "enum_brand_reports_edition" DEFAULT 'standard' NOT NULL,
+            "issue_number" numeric,
+            "period_start" timestamp(3) with time zone NOT NULL,
+            "period_end" timestamp(3) with time zone NOT NULL,
+            "report" jsonb NOT NULL,
+            "delivered_at" timestamp(3) with time zone,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "brand_reports"
+            ADD CONSTRAINT "brand_reports_brand_id_brands_id_fk"
+            FOREIGN KEY ("brand_id") REFERENCES "public"."brands"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_brand_idx" ON "brand_reports" USING btree ("brand_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_period_start_idx" ON "brand_reports" USING btree ("period_start");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_updated_at_idx" ON "brand_reports" USING btree ("updated_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_created_at_idx" ON "brand_reports" USING btree ("created_at");`)
+    // One issue per brand, period and edition
+    await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS "brand_reports_brand_period_start_edition_idx"
+        ON "brand_reports" USING btree ("brand_id", "period_start", "edition");
+    `)
+
+    // deliveredTo (hasMany brand-users)
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "brand_reports_rels" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "order" integer,
+            "parent_id" integer NOT NULL,
+            "path" varchar NOT NULL,
+            "brand_users_id" integer
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "brand_reports_rels"
+            ADD CONSTRAINT "brand_reports_rels_parent_fk"
+            FOREIGN KEY ("parent_id") REFERENCES "public"."brand_reports"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "brand_reports_rels"
+            ADD CONSTRAINT "brand_reports_rels_brand_users_fk"
+            FOREIGN KEY ("brand_users_id") REFERENCES "public"."brand_users"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_rels_order_idx" ON "brand_reports_rels" USING btree ("order");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_rels_parent_idx" ON "brand_reports_rels" USING btree ("parent_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_rels_path_idx" ON "brand_reports_rels" USING btree ("path");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "brand_reports_rels_brand_users_id_idx" ON "brand_reports_rels" USING btree ("brand_users_id");`)
+
+    // Document locking
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "brand_reports_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_locked_documents_rels"
+            ADD CONSTRAINT "payload_locked_documents_rels_brand_reports_fk"
+            FOREIGN KEY ("brand_reports_id") REFERENCES "public"."brand_reports"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_locked_documents_rels_brand_reports_id_idx"
+        ON "payload_locked_documents_rels" USING btree ("brand_reports_id");
+    `)
+
+    console.log('[Migration] Brand reports created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back brand reports...')
+
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_brand_reports_fk";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "payload_locked_documents_rels_brand_reports_id_idx";`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "brand_reports_id";`)
+
+    await db.execute(sql`DROP TABLE IF EXISTS "brand_reports_rels" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "brand_reports" CASCADE;`)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_brand_reports_edition";`)
+    // Enum values can't be dropped in Postgres; 'brand-reports' stays
+
+    console.log('[Migration] Brand reports rollback completed')
+}
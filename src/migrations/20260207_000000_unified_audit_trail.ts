@@ -0,0 +1,266 @@
+/**
+ * Database Migration - Unified Audit Trail
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const AUDIT_LOG_ACTIONS = [
+    'ai_product_created', 'ai_ingredient_parsed', 'ai_verdict_set', 'rule_applied',
+    'ingredient_cascade', 'manual_override', 'product_merged', 'category_created',
+    'image_enriched', 'poll_closed', 'article_generated', 'conflict_detected',
+    'freshness_check', 'ai_draft_created', 'error',
+    'subscription_started', 'subscription_renewed', 'subscription_cancelled',
+    'subscription_paused', 'billing_issue', 'trial_started', 'trial_converted',
+    'sentry_issue_created', 'sentry_issue_resolved', 'sentry_spike_alert',
+    'sentry_regression_alert', 'sentry_critical_alert', 'cron_execution',
+]
+
+const ADMIN_ACTIONS = ['create', 'update', 'delete', 'settings_change', 'bulk_operation', 'login', 'logout']
+
+const TARGET_COLLECTIONS = [
+    'products', 'ingredients', 'categories', 'videos', 'articles', 'investigation-polls', 'user-submissions',
+]
+
+function enumValues(values: string[]): string {
+    return values.map(value => `'${value}'`).join(', ')
+}
+
+/**
+ * Rebuild enum_audit_log_action with the given values. Values added with
+ * ALTER TYPE ... ADD VALUE can't be used in the same transaction, and the
+ * copy below needs them.
+ */
+async function rebuildActionEnum(db: MigrateUpArgs['db'], values: string[]): Promise<void> {
+    await db.execute(sql`ALTER TABLE "audit_log" ALTER COLUMN "action" TYPE varchar USING "action"::text;`)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_audit_log_action";`)
+    await db.execute(sql.raw(`CREATE TYPE "public"."enum_audit_log_action" AS ENUM(${enumValues(values)});`))
+    await db.execute(sql`
+        ALTER TABLE "audit_log"
+        ALTER COLUMN "action" TYPE "public"."enum_audit_log_action" USING "action"::"public"."enum_audit_log_action";
+    `)
+}
+
+/**
+ * Make audit-log the single audit model: admin change fields, revert links,
+ * and the rows of the old admin_audit_logs table (whose values were
+ * truncated, so they're flagged legacy and can't be reverted).
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Unifying audit trail...')
+
+    await rebuildActionEnum(db, [...AUDIT_LOG_ACTIONS, ...ADMIN_ACTIONS])
+
+    // Any collection or global can be a target now
+    await db.execute(sql`
+        ALTER TABLE "audit_log"
+        ALTER COLUMN "target_collection" TYPE varchar USING "target_collection"::text;
+    `)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_audit_log_target_collection";`)
+
+    await db.execute(sql`
+        DO $$ BEGIN
+            CREATE TYPE "public"."enum_audit_log_target_type" AS ENUM('collection', 'global');
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+
+    await db.execute(sql`
+        ALTER TABLE "audit_log"
+        ADD COLUMN IF NOT EXISTS "summary" varchar,
+        ADD COLUMN IF NOT EXISTS "target_type" "enum_audit_log_target_type" DEFAULT 'collection',
+        ADD COLUMN IF NOT EXISTS "actor_email" varchar,
+        ADD COLUMN IF NOT EXISTS "ip_address" varchar,
+        ADD COLUMN IF NOT EXISTS "user_agent" varchar,
+        ADD COLUMN IF NOT EXISTS "operation" varchar,
+        ADD COLUMN IF NOT EXISTS "revert_of_id" integer;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "audit_log"
+            ADD CONSTRAINT "audit_log_revert_of_id_audit_log_id_fk"
+            FOREIGN KEY ("revert_of_id") REFERENCES "public"."audit_log"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "audit_log_action_idx" ON "audit_log" USING btree ("action");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "audit_log_target_collection_idx" ON "audit_log" USING btree ("target_collection");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "audit_log_target_id_idx" ON "audit_log" USING btree ("target_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "audit_log_actor_email_idx" ON "audit_log" USING btree ("actor_email");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "audit_log_operation_idx" ON "audit_log" USING btree ("operation");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "audit_log_revert_of_idx" ON "audit_log" USING btree ("revert_of_id");`)
+
+    // Move the old admin audit log across: changes [{ field, oldValue, newValue }]
+    // become before / after maps
+    await db.execute(sql`
+        DO $$ BEGIN
+            IF to_regclass('public.admin_audit_logs') IS NOT NULL THEN
+                INSERT INTO "audit_log" (
+                    "action", "summary", "source_type", "target_type", "target_collection", "target_id",
+                    "target_name", "before", "after", "metadata", "performed_by_id", "actor_email",
+                    "ip_address", "user_agent", "success", "retryable", "retry_count", "updated_at", "created_at"
+                )
+                SELECT
+                    l."action"::text::"enum_audit_log_action",
+                    l."summary",
+                    'manual',
+                    CASE WHEN l."action" = 'settings_change' THEN 'global' ELSE 'collection' END::"enum_audit_log_target_type",
+                    l."collection",
+                    CASE WHEN l."document_id" ~ '^[0-9]+$' THEN l."document_id"::numeric END,
+                    l."document_title",
+                    (SELECT jsonb_object_agg(c->>'field', c->'oldValue')
+                        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(l."changes") = 'array' THEN l."changes" ELSE '[]'::jsonb END) c
+                        WHERE c->>'field' IS NOT NULL),
+                    (SELECT jsonb_object_agg(c->>'field', c->'newValue')
+                        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(l."changes") = 'array' THEN l."changes" ELSE '[]'::jsonb END) c
+                        WHERE c->>'field' IS NOT NULL),
+                    jsonb_build_object('legacy', true, 'adminAuditLogId', l."id", 'documentId', l."document_id"),
+                    l."admin_user_id",
+                    lower(l."admin_email"),
+                    l."ip_address",
+                    l."user_agent",
+                    true,
+                    false,
+                    0,
+                    l."updated_at",
+                    l."timestamp"
+                FROM "admin_audit_logs" l;
+            END IF;
+        END $$;
+    `)
+
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_admin_audit_logs_fk";`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "admin_audit_logs_id";`)
+    await db.execute(sql`DROP TABLE IF EXISTS "admin_audit_logs" CASCADE;`)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_admin_audit_logs_action";`)
+
+    console.log('[Migration] Unified audit trail ready')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back unified audit trail...')
+
+    await db.execute(sql`
+        DO $$ BEGIN
+            CREATE TYPE "public"."enum_admin_audit_logs_action" AS ENUM(
+                'create', 'update', 'delete', 'login', 'logout', 'settings_change', 'bulk_operation'
+            );
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "admin_audit_logs" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "action" "enum_admin_audit_logs_action" NOT NULL,
+            "collection" varchar NOT NULL,
+            "document_id" varchar,
+            "document_title" varchar,
+            "admin_user_id" integer,
+            "admin_email" varchar NOT NULL,
+            "changes" jsonb,
+            "summary" varchar,
+            "ip_address" varchar,
+            "user_agent" varchar,
+            "timestamp" timestamp(3) with time zone NOT NULL DEFAULT now(),
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "admin_audit_logs"
+            ADD CONSTRAINT "admin_audit_logs_admin_user_id_users_id_fk"
+            FOREIGN KEY ("admin_user_id") REFERENCES "users"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "admin_audit_logs_action_idx" ON "admin_audit_logs" USING btree ("action");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "admin_audit_logs_collection_idx" ON "admin_audit_logs" USING btree ("collection");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "admin_audit_logs_admin_email_idx" ON "admin_audit_logs" USING btree ("admin_email");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "admin_audit_logs_timestamp_idx" ON "admin_audit_logs" USING btree ("timestamp");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "admin_audit_logs_document_id_idx" ON "admin_audit_logs" USING btree ("document_id");`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "admin_audit_logs_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_locked_documents_rels"
+            ADD CONSTRAINT "payload_locked_documents_rels_admin_audit_logs_fk"
+            FOREIGN KEY ("admin_audit_logs_id") REFERENCES "admin_audit_logs"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+
+    // Admin changes go back to admin_audit_logs (values truncated as before)
+    await db.execute(sql.raw(`
+        INSERT INTO "admin_audit_logs" (
+            "action", "collection", "document_id", "document_title", "admin_user_id", "admin_email",
+            "changes", "summary", "ip_address", "user_agent", "timestamp", "updated_at", "created_at"
+        )
+        SELECT
+            a."action"::text::"enum_admin_audit_logs_action",
+            coalesce(a."target_collection", 'unknown'),
+            coalesce(a."metadata"->>'documentId', a."target_id"::text, a."target_collection"),
+            a."target_name",
+            a."performed_by_id",
+            coalesce(a."actor_email", 'unknown'),
+            (SELECT coalesce(jsonb_agg(jsonb_build_object(
+                    'field', f,
+                    'oldValue', CASE WHEN length(coalesce(a."before"->f, 'null')::text) > 200 THEN '"[Complex Object]"'::jsonb ELSE a."before"->f END,
+                    'newValue', CASE WHEN length(coalesce(a."after"->f, 'null')::text) > 200 THEN '"[Complex Object]"'::jsonb ELSE a."after"->f END
+                )), '[]'::jsonb)
+                FROM (
+                    SELECT jsonb_object_keys(coalesce(a."before", '{}'::jsonb)) AS f
+                    UNION
+                    SELECT jsonb_object_keys(coalesce(a."after", '{}'::jsonb))
+                ) fields),
+            a."summary",
+            a."ip_address",
+            a."user_agent",
+            a."created_at",
+            a."updated_at",
+            a."created_at"
+        FROM "audit_log" a
+        WHERE a."action"::text IN (${enumValues(ADMIN_ACTIONS)});
+    `))
+    await db.execute(sql.raw(`DELETE FROM "audit_log" WHERE "action"::text IN (${enumValues(ADMIN_ACTIONS)});`))
+
+    await db.execute(sql`ALTER TABLE "audit_log" DROP CONSTRAINT IF EXISTS "audit_log_revert_of_id_audit_log_id_fk";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "audit_log_action_idx";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "audit_log_target_collection_idx";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "audit_log_target_id_idx";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "audit_log_actor_email_idx";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "audit_log_operation_idx";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "audit_log_revert_of_idx";`)
+    await db.execute(sql`
+        ALTER TABLE "audit_log"
+        DROP COLUMN IF EXISTS "summary",
+        DROP COLUMN IF EXISTS "target_type",
+        DROP COLUMN IF EXISTS "actor_email",
+        DROP COLUMN IF EXISTS "ip_address",
+        DROP COLUMN IF EXISTS "user_agent",
+        DROP COLUMN IF EXISTS "operation",
+        DROP COLUMN IF EXISTS "revert_of_id";
+    `)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_audit_log_target_type";`)
+
+    await db.execute(sql.raw(`
+        DO $$ BEGIN
+            CREATE TYPE "public"."enum_audit_log_target_collection" AS ENUM(${enumValues(TARGET_COLLECTIONS)});
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `))
+    await db.execute(sql.raw(`
+        ALTER TABLE "audit_log"
+        ALTER COLUMN "target_collection" TYPE "public"."enum_audit_log_target_collection"
+        USING (CASE WHEN "target_collection" IN (${enumValues(TARGET_COLLECTIONS)}) THEN "target_collection" END)::"public"."enum_audit_log_target_collection";
+    `))
+
+    await rebuildActionEnum(db, AUDIT_LOG_ACTIONS)
+
+    console.log('[Migration] Unified audit trail rollback completed')
+}
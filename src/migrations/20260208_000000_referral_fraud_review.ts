@@ -0,0 +1,125 @@
+/**
+ * Database Migration - Referral Fraud Review
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_referrals_fraud_risk_level: ['low', 'medium', 'high'],
+    enum_referrals_fraud_review_status: ['none', 'held', 'approved', 'denied'],
+}
+
+const PAYOUT_STATUSES = ['pending', 'processing', 'paid', 'failed', 'cancelled']
+
+/**
+ * Fraud scores and review state on referrals, the IPs and RevenueCat timing
+ * they're scored from, and "held" payouts linked to the referral under review.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Adding referral fraud review...')
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+
+    await db.execute(sql`
+        ALTER TABLE "referrals"
+        ADD COLUMN IF NOT EXISTS "cancelled_at" timestamp(3) with time zone,
+        ADD COLUMN IF NOT EXISTS "refunded_at" timestamp(3) with time zone,
+        ADD COLUMN IF NOT EXISTS "fraud_score" numeric,
+        ADD COLUMN IF NOT EXISTS "fraud_risk_level" "enum_referrals_fraud_risk_level",
+        ADD COLUMN IF NOT EXISTS "fraud_review_status" "enum_referrals_fraud_review_status" DEFAULT 'none',
+        ADD COLUMN IF NOT EXISTS "fraud_signals" jsonb,
+        ADD COLUMN IF NOT EXISTS "fraud_checked_at" timestamp(3) with time zone,
+        ADD COLUMN IF NOT EXISTS "fraud_review_notes" varchar,
+        ADD COLUMN IF NOT EXISTS "fraud_reviewed_by_id" integer,
+        ADD COLUMN IF NOT EXISTS "fraud_reviewed_at" timestamp(3) with time zone,
+        ADD COLUMN IF NOT EXISTS "attribution_ip" varchar;
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "referrals"
+            ADD CONSTRAINT "referrals_fraud_reviewed_by_id_users_id_fk"
+            FOREIGN KEY ("fraud_reviewed_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "referrals_fraud_fraud_review_status_idx" ON "referrals" USING btree ("fraud_review_status");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "referrals_fraud_fraud_reviewed_by_idx" ON "referrals" USING btree ("fraud_reviewed_by_id");`)
+
+    await db.execute(sql`ALTER TABLE "device_fingerprints" ADD COLUMN IF NOT EXISTS "last_ip_address" varchar;`)
+
+    await db.execute(sql`ALTER TYPE "public"."enum_referral_payouts_status" ADD VALUE IF NOT EXISTS 'held' BEFORE 'processing';`)
+    await db.execute(sql`ALTER TABLE "referral_payouts" ADD COLUMN IF NOT EXISTS "held_referral_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "referral_payouts"
+            ADD CONSTRAINT "referral_payouts_held_referral_id_referrals_id_fk"
+            FOREIGN KEY ("held_referral_id") REFERENCES "public"."referrals"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "referral_payouts_held_referral_idx" ON "referral_payouts" USING btree ("held_referral_id");`)
+
+    console.log('[Migration] Referral fraud review ready')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Removing referral fraud review...')
+
+    // Postgres can't drop an enum value: rebuild the type, cancelling payouts
+    // still held so they aren't paid unreviewed
+    await db.execute(sql`ALTER TABLE "referral_payouts" ALTER COLUMN "status" DROP DEFAULT;`)
+    await db.execute(sql`ALTER TABLE "referral_payouts" ALTER COLUMN "status" TYPE varchar USING "status"::text;`)
+    await db.execute(sql`
+        UPDATE "referral_payouts"
+        SET "status" = 'cancelled',
+            "notes" = concat_ws(E'\n', "notes", 'Cancelled: fraud review removed while held')
+        WHERE "status" = 'held';
+    `)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_referral_payouts_status";`)
+    await db.execute(sql.raw(`CREATE TYPE "public"."enum_referral_payouts_status" AS ENUM(${PAYOUT_STATUSES.map(v => `'${v}'`).join(', ')});`))
+    await db.execute(sql`
+        ALTER TABLE "referral_payouts"
+        ALTER COLUMN "status" TYPE "public"."enum_referral_payouts_status" USING "status"::"public"."enum_referral_payouts_status";
+    `)
+    await db.execute(sql`ALTER TABLE "referral_payouts" ALTER COLUMN "status" SET DEFAULT 'pending';`)
+
+    await db.execute(sql`DROP INDEX IF EXISTS "referral_payouts_held_referral_idx";`)
+    await db.execute(sql`ALTER TABLE "referral_payouts" DROP CONSTRAINT IF EXISTS "referral_payouts_held_referral_id_referrals_id_fk";`)
+    await db.execute(sql`ALTER TABLE "referral_payouts" DROP COLUMN IF EXISTS "held_referral_id";`)
+
+    await db.execute(sql`ALTER TABLE "device_fingerprints" DROP COLUMN IF EXISTS "last_ip_address";`)
+
+    await db.execute(sql`DROP INDEX IF EXISTS "referrals_fraud_fraud_review_status_idx";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "referrals_fraud_fraud_reviewed_by_idx";`)
+    await db.execute(sql`ALTER TABLE "referrals" DROP CONSTRAINT IF EXISTS "referrals_fraud_reviewed_by_id_users_id_fk";`)
+    await db.execute(sql`
+        ALTER TABLE "referrals"
+        DROP COLUMN IF EXISTS "cancelled_at",
+        DROP COLUMN IF EXISTS "refunded_at",
+        DROP COLUMN IF EXISTS "fraud_score",
+        DROP COLUMN IF EXISTS "fraud_risk_level",
+        DROP COLUMN IF EXISTS "fraud_review_status",
+        DROP COLUMN IF EXISTS "fraud_signals",
+        DROP COLUMN IF EXISTS "fraud_checked_at",
+        DROP COLUMN IF EXISTS "fraud_review_notes",
+        DROP COLUMN IF EXISTS "fraud_reviewed_by_id",
+        DROP COLUMN IF EXISTS "fraud_reviewed_at",
+        DROP COLUMN IF EXISTS "attribution_ip";
+    `)
+
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+
+    console.log('[Migration] Referral fraud review removed')
+}
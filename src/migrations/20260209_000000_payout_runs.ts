@@ -0,0 +1,164 @@
+/**
+ * Database Migration - Referral Payout Runs
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_payout_runs_provider: ['paypal', 'stripe', 'ach'],
+    enum_payout_runs_status: ['ready', 'partially_reconciled', 'reconciled', 'cancelled'],
+    enum_payout_runs_items_status: ['pending', 'paid', 'failed'],
+}
+
+const PAYMENT_METHODS = ['paypal', 'venmo', 'credit', 'check']
+
+/**
+ * Create payout_runs (batches exported to PayPal / Stripe / ACH), link
+ * referral payouts to their run, and add the Stripe and ACH payment methods.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating payout runs...')
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "payout_runs" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "period" varchar NOT NULL,
+            "provider" "enum_payout_runs_provider" NOT NULL,
+            "status" "enum_payout_runs_status" DEFAULT 'ready' NOT NULL,
+            "minimum_amount" numeric DEFAULT 25,
+            "item_count" numeric DEFAULT 0,
+            "payout_count" numeric DEFAULT 0,
+            "total_amount" numeric DEFAULT 0,
+            "skipped" jsonb,
+            "reconciled_at" timestamp(3) with time zone,
+            "last_reconciliation" jsonb,
+            "created_by_id" integer,
+            "notes" varchar,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payout_runs"
+            ADD CONSTRAINT "payout_runs_created_by_id_users_id_fk"
+            FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "payout_runs_period_idx" ON "payout_runs" USING btree ("period");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "payout_runs_status_idx" ON "payout_runs" USING btree ("status");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "payout_runs_created_by_idx" ON "payout_runs" USING btree ("created_by_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "payout_runs_updated_at_idx" ON "payout_runs" USING btree ("updated_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "payout_runs_created_at_idx" ON "payout_runs" USING btree ("created_at");`)
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "payout_runs_items" (
+            "_order" integer NOT NULL,
+            "_parent_id" integer NOT NULL,
+            "id" varchar PRIMARY KEY NOT NULL,
+            "item_id" varchar NOT NULL,
+            "referrer_id" varchar NOT NULL,
+            "referrer_email" varchar NOT NULL,
+            "payment_method" varchar NOT NULL,
+            "destination" varchar NOT NULL,
+            "amount" numeric NOT NULL,
+            "payout_ids" jsonb,
+            "status" "enum_payout_runs_items_status" DEFAULT 'pending',
+            "transaction_id" varchar,
+            "error" varchar
+        );
+    `)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payout_runs_items"
+            ADD CONSTRAINT "payout_runs_items_parent_id_fk"
+            FOREIGN KEY ("_parent_id") REFERENCES "public"."payout_runs"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "payout_runs_items_order_idx" ON "payout_runs_items" USING btree ("_order");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "payout_runs_items_parent_id_idx" ON "payout_runs_items" USING btree ("_parent_id");`)
+
+    // Referral payouts: Stripe / ACH methods and the run they were batched into
+    await db.execute(sql`ALTER TYPE "public"."enum_referral_payouts_payment_method" ADD VALUE IF NOT EXISTS 'stripe' BEFORE 'credit';`)
+    await db.execute(sql`ALTER TYPE "public"."enum_referral_payouts_payment_method" ADD VALUE IF NOT EXISTS 'ach' BEFORE 'credit';`)
+    await db.execute(sql`ALTER TABLE "referral_payouts" ADD COLUMN IF NOT EXISTS "payout_run_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "referral_payouts"
+            ADD CONSTRAINT "referral_payouts_payout_run_id_payout_runs_id_fk"
+            FOREIGN KEY ("payout_run_id") REFERENCES "public"."payout_runs"("id") ON DELETE set null ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "referral_payouts_payout_run_idx" ON "referral_payouts" USING btree ("payout_run_id");`)
+
+    // Document locking
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "payout_runs_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_locked_documents_rels"
+            ADD CONSTRAINT "payload_locked_documents_rels_payout_runs_fk"
+            FOREIGN KEY ("payout_runs_id") REFERENCES "public"."payout_runs"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_locked_documents_rels_payout_runs_id_idx"
+        ON "payload_locked_documents_rels" USING btree ("payout_runs_id");
+    `)
+
+    console.log('[Migration] Payout runs created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back payout runs...')
+
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_payout_runs_fk";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "payload_locked_documents_rels_payout_runs_id_idx";`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "payout_runs_id";`)
+
+    await db.execute(sql`DROP INDEX IF EXISTS "referral_payouts_payout_run_idx";`)
+    await db.execute(sql`ALTER TABLE "referral_payouts" DROP CONSTRAINT IF EXISTS "referral_payouts_payout_run_id_payout_runs_id_fk";`)
+    await db.execute(sql`ALTER TABLE "referral_payouts" DROP COLUMN IF EXISTS "payout_run_id";`)
+
+    // Postgres can't drop an enum value: rebuild the type, moving Stripe / ACH
+    // payouts to "check" so they're paid manually
+    await db.execute(sql`ALTER TABLE "referral_payouts" ALTER COLUMN "payment_method" TYPE varchar USING "payment_method"::text;`)
+    await db.execute(sql`
+        UPDATE "referral_payouts"
+        SET "notes" = concat_ws(E'\n', "notes", 'Payment method ' || "payment_method" || ' removed: pay by check'),
+            "payment_method" = 'check'
+        WHERE "payment_method" IN ('stripe', 'ach');
+    `)
+    await db.execute(sql`DROP TYPE IF EXISTS "public"."enum_referral_payouts_payment_method";`)
+    await db.execute(sql.raw(`CREATE TYPE "public"."enum_referral_payouts_payment_method" AS ENUM(${PAYMENT_METHODS.map(v => `'${v}'`).join(', ')});`))
+    await db.execute(sql`
+        ALTER TABLE "referral_payouts"
+        ALTER COLUMN "payment_method" TYPE "public"."enum_referral_payouts_payment_method" USING "payment_method"::"public"."enum_referral_payouts_payment_method";
+    `)
+
+    await db.execute(sql`DROP TABLE IF EXISTS "payout_runs_items" CASCADE;`)
+    await db.execute(sql`DROP TABLE IF EXISTS "payout_runs" CASCADE;`)
+
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+
+    console.log('[Migration] Payout runs rollback completed')
+}
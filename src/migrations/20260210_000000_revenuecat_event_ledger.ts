@@ -0,0 +1,111 @@
+/**
+ * Database Migration - RevenueCat Event Ledger
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const ENUMS: Record<string, string[]> = {
+    enum_revenuecat_events_status: ['received', 'processed', 'unmatched', 'skipped', 'failed'],
+}
+
+const RELATIONS = [
+    { column: 'user_id', references: 'users' },
+    { column: 'referral_id', references: 'referrals' },
+]
+
+/**
+ * Create the revenuecat_events ledger: one row per RevenueCat event id, for
+ * idempotent webhook processing and replay.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Creating RevenueCat event ledger...')
+
+    for (const [typeName, values] of Object.entries(ENUMS)) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                CREATE TYPE "public"."${typeName}" AS ENUM(${values.map(v => `'${v}'`).join(', ')});
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+    }
+
+    await db.execute(sql`
+        CREATE TABLE IF NOT EXISTS "revenuecat_events" (
+            "id" serial PRIMARY KEY NOT NULL,
+            "event_id" varchar NOT NULL,
+            "type" varchar NOT NULL,
+            "app_user_id" varchar,
+            "environment" varchar,
+            "event_at" timestamp(3) with time zone,
+            "status" "enum_revenuecat_events_status" DEFAULT 'received' NOT NULL,
+            "attempts" numeric DEFAULT 0,
+            "processed_at" timestamp(3) with time zone,
+            "error" varchar,
+            "user_id" integer,
+            "referral_id" integer,
+            "outcome" jsonb,
+            "event" jsonb NOT NULL,
+            "updated_at" timestamp(3) with time zone DEFAULT now() NOT NULL,
+            "created_at" timestamp(3) with time zone DEFAULT now() NOT NULL
+        );
+    `)
+
+    for (const { column, references } of RELATIONS) {
+        await db.execute(sql.raw(`
+            DO $$ BEGIN
+                ALTER TABLE "revenuecat_events"
+                ADD CONSTRAINT "revenuecat_events_${column}_${references}_id_fk"
+                FOREIGN KEY ("${column}") REFERENCES "public"."${references}"("id") ON DELETE set null ON UPDATE no action;
+            EXCEPTION
+                WHEN duplicate_object THEN null;
+            END $$;
+        `))
+        await db.execute(sql.raw(`
+            CREATE INDEX IF NOT EXISTS "revenuecat_events_${column.replace(/_id$/, '')}_idx" ON "revenuecat_events" USING btree ("${column}");
+        `))
+    }
+
+    // Event id is the idempotency key
+    await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS "revenuecat_events_event_id_idx" ON "revenuecat_events" USING btree ("event_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "revenuecat_events_type_idx" ON "revenuecat_events" USING btree ("type");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "revenuecat_events_app_user_id_idx" ON "revenuecat_events" USING btree ("app_user_id");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "revenuecat_events_event_at_idx" ON "revenuecat_events" USING btree ("event_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "revenuecat_events_status_idx" ON "revenuecat_events" USING btree ("status");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "revenuecat_events_updated_at_idx" ON "revenuecat_events" USING btree ("updated_at");`)
+    await db.execute(sql`CREATE INDEX IF NOT EXISTS "revenuecat_events_created_at_idx" ON "revenuecat_events" USING btree ("created_at");`)
+
+    // Document locking
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" ADD COLUMN IF NOT EXISTS "revenuecat_events_id" integer;`)
+    await db.execute(sql`
+        DO $$ BEGIN
+            ALTER TABLE "payload_locked_documents_rels"
+            ADD CONSTRAINT "payload_locked_documents_rels_revenuecat_events_fk"
+            FOREIGN KEY ("revenuecat_events_id") REFERENCES "public"."revenuecat_events"("id") ON DELETE cascade ON UPDATE no action;
+        EXCEPTION
+            WHEN duplicate_object THEN null;
+        END $$;
+    `)
+    await db.execute(sql`
+        CREATE INDEX IF NOT EXISTS "payload_locked_documents_rels_revenuecat_events_id_idx"
+        ON "payload_locked_documents_rels" USING btree ("revenuecat_events_id");
+    `)
+
+    console.log('[Migration] RevenueCat event ledger created successfully!')
+}
+
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Rolling back RevenueCat event ledger...')
+
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP CONSTRAINT IF EXISTS "payload_locked_documents_rels_revenuecat_events_fk";`)
+    await db.execute(sql`DROP INDEX IF EXISTS "payload_locked_documents_rels_revenuecat_events_id_idx";`)
+    await db.execute(sql`ALTER TABLE "payload_locked_documents_rels" DROP COLUMN IF EXISTS "revenuecat_events_id";`)
+
+    await db.execute(sql`DROP TABLE IF EXISTS "revenuecat_events" CASCADE;`)
+
+    for (const typeName of Object.keys(ENUMS)) {
+        await db.execute(sql.raw(`DROP TYPE IF EXISTS "public"."${typeName}";`))
+    }
+
+    console.log('[Migration] RevenueCat event ledger rollback completed')
+}
@@ -0,0 +1,83 @@
+/**
+ * Database Migration - Seed Ingredient Risk Weights
+ * @see /MIGRATIONS.md for defensive SQL patterns and utilities
+ */
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-vercel-postgres'
+
+const SEED_REASON = 'Risk signal carried over from the original risk prediction weights'
+
+/**
+ * Ingredient risk signals that risk prediction used to hard-code
+ * (INGREDIENT_RISK_SIGNALS in utilities/risk-prediction) before it read
+ * riskWeight from the Ingredients registry
+ */
+const RISK_WEIGHTS: Array<{ name: string; category: string; riskWeight: number }> = [
+    { name: 'Artificial Colors', category: 'artificial_colors', riskWeight: 25 },
+    { name: 'Red 40', category: 'artificial_colors', riskWeight: 30 },
+    { name: 'Yellow 5', category: 'artificial_colors', riskWeight: 28 },
+    { name: 'Yellow 6', category: 'artificial_colors', riskWeight: 28 },
+    { name: 'Blue 1', category: 'artificial_colors', riskWeight: 25 },
+    { name: 'Titanium Dioxide', category: 'artificial_colors', riskWeight: 30 },
+    { name: 'BHT', category: 'preservatives', riskWeight: 20 },
+    { name: 'BHA', category: 'preservatives', riskWeight: 20 },
+    { name: 'Propylparaben', category: 'preservatives', riskWeight: 25 },
+    { name: 'Sodium Nitrite', category: 'preservatives', riskWeight: 22 },
+    { name: 'High Fructose Corn Syrup', category: 'sugars', riskWeight: 15 },
+    { name: 'Aspartame', category: 'artificial_sweeteners', riskWeight: 18 },
+    { name: 'Sucralose', category: 'artificial_sweeteners', riskWeight: 15 },
+    { name: 'Carrageenan', category: 'emulsifiers', riskWeight: 20 },
+    { name: 'Potassium Bromate', category: 'other', riskWeight: 35 },
+    { name: 'Azodicarbonamide', category: 'other', riskWeight: 30 },
+]
+
+/**
+ * Write the original risk weights into the ingredients registry.
+ *
+ * Ingredients already in the registry (by name or synonym) only get a weight
+ * if they have none, so researcher-set weights are kept. Missing ones are
+ * created with verdict "unknown", so seeding doesn't change any verdicts.
+ */
+export async function up({ db }: MigrateUpArgs): Promise<void> {
+    console.log('[Migration] Seeding ingredient risk weights...')
+
+    for (const { name, category, riskWeight } of RISK_WEIGHTS) {
+        const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '')
+        const matches = sql`
+            lower("name") = lower(${name})
+            OR "id" IN (SELECT "_parent_id" FROM "ingredients_synonyms" WHERE lower("synonym") = lower(${name}))
+        `
+
+        await db.execute(sql`
+            UPDATE "ingredients"
+            SET "risk_weight" = ${riskWeight}, "updated_at" = now()
+            WHERE (${matches}) AND COALESCE("risk_weight", 0) = 0
+        `)
+
+        await db.execute(sql`
+            INSERT INTO "ingredients" ("name", "slug", "category", "verdict", "risk_weight", "reason", "updated_at", "created_at")
+            SELECT ${name}, ${slug}, ${category}::"enum_ingredients_category", 'unknown', ${riskWeight}, ${SEED_REASON}, now(), now()
+            WHERE NOT EXISTS (SELECT 1 FROM "ingredients" WHERE ${matches})
+            ON CONFLICT DO NOTHING
+        `)
+    }
+
+    console.log(`[Migration] Seeded risk weights for ${RISK_WEIGHTS.length} ingredients`)
+}
+
+/**
+ * Remove the ingredients this migration created. Weights written onto
+ * existing ingredients are left in place, since they can't be told apart
+ * from ones set later.
+ */
+export async function down({ db }: MigrateDownArgs): Promise<void> {
+    console.log('[Migration] Removing seeded ingredient risk weights...')
+
+    for (const { name } of RISK_WEIGHTS) {
+        await db.execute(sql`
+            DELETE FROM "ingredients"
+            WHERE "name" = ${name} AND "reason" = ${SEED_REASON}
+        `)
+    }
+
+    console.log('[Migration] Seeded ingredients removed')
+}
@@ -83,6 +83,29 @@ import * as migration_20260110_110000_audit_fixes from './20260110_110000_audit_
 import * as migration_20260112_000000_add_daubert_defense_fields from './20260112_000000_add_daubert_defense_fields';
 import * as migration_20260112_010000_fix_locked_docs_feature_flag_cache from './20260112_010000_fix_locked_docs_feature_flag_cache';
 import * as migration_20260119_000000_legal_verdict_avoid_to_flagged from './20260119_000000_legal_verdict_avoid_to_flagged';
+import * as migration_20260120_000000_create_ingredients_registry from './20260120_000000_create_ingredients_registry';
+import * as migration_20260121_000000_verdict_rule_condition_trees from './20260121_000000_verdict_rule_condition_trees';
+import * as migration_20260122_000000_report_version_diffs from './20260122_000000_report_version_diffs';
+import * as migration_20260123_000000_brand_portal_disputes from './20260123_000000_brand_portal_disputes';
+import * as migration_20260124_000000_create_lab_imports from './20260124_000000_create_lab_imports';
+import * as migration_20260125_000000_evidence_hash_chain from './20260125_000000_evidence_hash_chain';
+import * as migration_20260126_000000_rate_limit_policies from './20260126_000000_rate_limit_policies';
+import * as migration_20260127_000000_durable_job_queue from './20260127_000000_durable_job_queue';
+import * as migration_20260128_000000_hybrid_search from './20260128_000000_hybrid_search';
+import * as migration_20260129_000000_campaign_scheduler from './20260129_000000_campaign_scheduler';
+import * as migration_20260130_000000_email_experiments from './20260130_000000_email_experiments';
+import * as migration_20260131_000000_segment_memberships from './20260131_000000_segment_memberships';
+import * as migration_20260201_000000_retailer_price_adapters from './20260201_000000_retailer_price_adapters';
+import * as migration_20260202_000000_ingredient_reformulation from './20260202_000000_ingredient_reformulation';
+import * as migration_20260203_000000_recall_matches from './20260203_000000_recall_matches';
+import * as migration_20260204_000000_regulatory_feed_parsers from './20260204_000000_regulatory_feed_parsers';
+import * as migration_20260205_000000_brand_team_api_keys from './20260205_000000_brand_team_api_keys';
+import * as migration_20260206_000000_brand_reports from './20260206_000000_brand_reports';
+import * as migration_20260207_000000_unified_audit_trail from './20260207_000000_unified_audit_trail';
+import * as migration_20260208_000000_referral_fraud_review from './20260208_000000_referral_fraud_review';
+import * as migration_20260209_000000_payout_runs from './20260209_000000_payout_runs';
+import * as migration_20260210_000000_revenuecat_event_ledger from './20260210_000000_revenuecat_event_ledger';
+import * as migration_20260211_000000_seed_ingredient_risk_weights from './20260211_000000_seed_ingredient_risk_weights';
 
 export const migrations = [
   {
@@ -505,6 +528,119 @@ export const migrations = [
     down: migration_20260119_000000_legal_verdict_avoid_to_flagged.down,
     name: '20260119_000000_legal_verdict_avoid_to_flagged'
   },
+  {
+    up: migration_20260120_000000_create_ingredients_registry.up,
+    down: migration_20260120_000000_create_ingredients_registry.down,
+    name: '20260120_000000_create_ingredients_registry'
+  },
+  {
+    up: migration_20260121_000000_verdict_rule_condition_trees.up,
+    down: migration_20260121_000000_verdict_rule_condition_trees.down,
+    name: '20260121_000000_verdict_rule_condition_trees'
+  },
+  {
+    up: migration_20260122_000000_report_version_diffs.up,
+    down: migration_20260122_000000_report_version_diffs.down,
+    name: '20260122_000000_report_version_diffs'
+  },
+  {
+    up: migration_20260123_000000_brand_portal_disputes.up,
+    down: migration_20260123_000000_brand_portal_disputes.down,
+    name: '20260123_000000_brand_portal_disputes'
+  },
+  {
+    up: migration_20260124_000000_create_lab_imports.up,
+    down: migration_20260124_000000_create_lab_imports.down,
+    name: '20260124_000000_create_lab_imports'
+  },
+  {
+    up: migration_20260125_000000_evidence_hash_chain.up,
+    down: migration_20260125_000000_evidence_hash_chain.down,
+    name: '20260125_000000_evidence_hash_chain'
+  },
+  {
+    up: migration_20260126_000000_rate_limit_policies.up,
+    down: migration_20260126_000000_rate_limit_policies.down,
+    name: '20260126_000000_rate_limit_policies'
+  },
+  {
+    up: migration_20260127_000000_durable_job_queue.up,
+    down: migration_20260127_000000_durable_job_queue.down,
+    name: '20260127_000000_durable_job_queue'
+  },
+  {
+    up: migration_20260128_000000_hybrid_search.up,
+    down: migration_20260128_000000_hybrid_search.down,
+    name: '20260128_000000_hybrid_search'
+  },
+  {
+    up: migration_20260129_000000_campaign_scheduler.up,
+    down: migration_20260129_000000_campaign_scheduler.down,
+    name: '20260129_000000_campaign_scheduler'
+  },
+  {
+    up: migration_20260130_000000_email_experiments.up,
+    down: migration_20260130_000000_email_experiments.down,
+    name: '20260130_000000_email_experiments'
+  },
+  {
+    up: migration_20260131_000000_segment_memberships.up,
+    down: migration_20260131_000000_segment_memberships.down,
+    name: '20260131_000000_segment_memberships'
+  },
+  {
+    up: migration_20260201_000000_retailer_price_adapters.up,
+    down: migration_20260201_000000_retailer_price_adapters.down,
+    name: '20260201_000000_retailer_price_adapters'
+  },
+  {
+    up: migration_20260202_000000_ingredient_reformulation.up,
+    down: migration_20260202_000000_ingredient_reformulation.down,
+    name: '20260202_000000_ingredient_reformulation'
+  },
+  {
+    up: migration_20260203_000000_recall_matches.up,
+    down: migration_20260203_000000_recall_matches.down,
+    name: '20260203_000000_recall_matches'
+  },
+  {
+    up: migration_20260204_000000_regulatory_feed_parsers.up,
+    down: migration_20260204_000000_regulatory_feed_parsers.down,
+    name: '20260204_000000_regulatory_feed_parsers'
+  },
+  {
+    up: migration_20260205_000000_brand_team_api_keys.up,
+    down: migration_20260205_000000_brand_team_api_keys.down,
+    name: '20260205_000000_brand_team_api_keys'
+  },
+  {
+    up: migration_20260206_000000_brand_reports.up,
+    down: migration_20260206_000000_brand_reports.down,
+    name: '20260206_000000_brand_reports'
+  },
+  {
+    up: migration_20260207_000000_unified_audit_trail.up,
+    down: migration_20260207_000000_unified_audit_trail.down,
+    name: '20260207_000000_unified_audit_trail'
+  },
+  {
+    up: migration_20260208_000000_referral_fraud_review.up,
+    down: migration_20260208_000000_referral_fraud_review.down,
+    name: '20260208_000000_referral_fraud_review'
+  },
+  {
+    up: migration_20260209_000000_payout_runs.up,
+    down: migration_20260209_000000_payout_runs.down,
+    name: '20260209_000000_payout_runs'
+  },
+  {
+    up: migration_20260210_000000_revenuecat_event_ledger.up,
+    down: migration_20260210_000000_revenuecat_event_ledger.down,
+    name: '20260210_000000_revenuecat_event_ledger'
+  },
+  {
+    up: migration_20260211_000000_seed_ingredient_risk_weights.up,
+    down: migration_20260211_000000_seed_ingredient_risk_weights.down,
+    name: '20260211_000000_seed_ingredient_risk_weights'
+  },
 ];
-
-
@@ -77,12 +77,14 @@ export interface Config {
     categories: Category;
     'investigation-polls': InvestigationPoll;
     'sponsored-test-requests': SponsoredTestRequest;
+    ingredients: Ingredient;
+    'lab-imports': LabImport;
     'verdict-rules': VerdictRule;
     'audit-log': AuditLog;
-    'admin-audit-logs': AdminAuditLog;
     users: User;
     'price-history': PriceHistory;
     brands: Brand;
+    'recall-matches': RecallMatch;
     'regulatory-changes': RegulatoryChange;
     'user-submissions': UserSubmission;
     'device-fingerprints': DeviceFingerprint;
@@ -94,6 +96,7 @@ export interface Config {
     feedback: Feedback;
     referrals: Referral;
     'referral-payouts': ReferralPayout;
+    'payout-runs': PayoutRun;
     'generated-content': GeneratedContent;
     'daily-discoveries': DailyDiscovery;
     'email-templates': EmailTemplate;
@@ -105,9 +108,14 @@ export interface Config {
     'market-intelligence': MarketIntelligence;
     'brand-analytics': BrandAnalytic;
     'brand-users': BrandUser;
+    'brand-api-keys': BrandApiKey;
+    'brand-reports': BrandReport;
     'search-queries': SearchQuery;
     'paywall-variants': PaywallVariant;
     'user-segments': UserSegment;
+    'segment-memberships': SegmentMembership;
+    'segment-events': SegmentEvent;
+    'revenuecat-events': RevenuecatEvent;
     'feature-flag-cache': FeatureFlagCache;
     'manufacturer-disputes': ManufacturerDispute;
     redirects: Redirect;
@@ -136,12 +144,14 @@ export interface Config {
     categories: CategoriesSelect<false> | CategoriesSelect<true>;
     'investigation-polls': InvestigationPollsSelect<false> | InvestigationPollsSelect<true>;
     'sponsored-test-requests': SponsoredTestRequestsSelect<false> | SponsoredTestRequestsSelect<true>;
+    ingredients: IngredientsSelect<false> | IngredientsSelect<true>;
+    'lab-imports': LabImportsSelect<false> | LabImportsSelect<true>;
     'verdict-rules': VerdictRulesSelect<false> | VerdictRulesSelect<true>;
     'audit-log': AuditLogSelect<false> | AuditLogSelect<true>;
-    'admin-audit-logs': AdminAuditLogsSelect<false> | AdminAuditLogsSelect<true>;
     users: UsersSelect<false> | UsersSelect<true>;
     'price-history': PriceHistorySelect<false> | PriceHistorySelect<true>;
     brands: BrandsSelect<false> | BrandsSelect<true>;
+    'recall-matches': RecallMatchesSelect<false> | RecallMatchesSelect<true>;
     'regulatory-changes': RegulatoryChangesSelect<false> | RegulatoryChangesSelect<true>;
     'user-submissions': UserSubmissionsSelect<false> | UserSubmissionsSelect<true>;
     'device-fingerprints': DeviceFingerprintsSelect<false> | DeviceFingerprintsSelect<true>;
@@ -153,6 +163,7 @@ export interface Config {
     feedback: FeedbackSelect<false> | FeedbackSelect<true>;
     referrals: ReferralsSelect<false> | ReferralsSelect<true>;
     'referral-payouts': ReferralPayoutsSelect<false> | ReferralPayoutsSelect<true>;
+    'payout-runs': PayoutRunsSelect<false> | PayoutRunsSelect<true>;
     'generated-content': GeneratedContentSelect<false> | GeneratedContentSelect<true>;
     'daily-discoveries': DailyDiscoveriesSelect<false> | DailyDiscoveriesSelect<true>;
     'email-templates': EmailTemplatesSelect<false> | EmailTemplatesSelect<true>;
@@ -164,9 +175,14 @@ export interface Config {
     'market-intelligence': MarketIntelligenceSelect<false> | MarketIntelligenceSelect<true>;
     'brand-analytics': BrandAnalyticsSelect<false> | BrandAnalyticsSelect<true>;
     'brand-users': BrandUsersSelect<false> | BrandUsersSelect<true>;
+    'brand-api-keys': BrandApiKeysSelect<false> | BrandApiKeysSelect<true>;
+    'brand-reports': BrandReportsSelect<false> | BrandReportsSelect<true>;
     'search-queries': SearchQueriesSelect<false> | SearchQueriesSelect<true>;
     'paywall-variants': PaywallVariantsSelect<false> | PaywallVariantsSelect<true>;
     'user-segments': UserSegmentsSelect<false> | UserSegmentsSelect<true>;
+    'segment-memberships': SegmentMembershipsSelect<false> | SegmentMembershipsSelect<true>;
+    'segment-events': SegmentEventsSelect<false> | SegmentEventsSelect<true>;
+    'revenuecat-events': RevenuecatEventsSelect<false> | RevenuecatEventsSelect<true>;
     'feature-flag-cache': FeatureFlagCacheSelect<false> | FeatureFlagCacheSelect<true>;
     'manufacturer-disputes': ManufacturerDisputesSelect<false> | ManufacturerDisputesSelect<true>;
     redirects: RedirectsSelect<false> | RedirectsSelect<true>;
@@ -189,6 +205,7 @@ export interface Config {
     'youtube-settings': YoutubeSetting;
     'site-settings': SiteSetting;
     'paywall-settings': PaywallSetting;
+    'rate-limit-settings': RateLimitSetting;
   };
   globalsSelect: {
     header: HeaderSelect<false> | HeaderSelect<true>;
@@ -196,6 +213,7 @@ export interface Config {
     'youtube-settings': YoutubeSettingsSelect<false> | YoutubeSettingsSelect<true>;
     'site-settings': SiteSettingsSelect<false> | SiteSettingsSelect<true>;
     'paywall-settings': PaywallSettingsSelect<false> | PaywallSettingsSelect<true>;
+    'rate-limit-settings': RateLimitSettingsSelect<false> | RateLimitSettingsSelect<true>;
   };
   locale: null;
   user:
@@ -207,6 +225,15 @@ export interface Config {
       });
   jobs: {
     tasks: {
+      'batch-enrich': TaskBatchEnrich;
+      'background-remove-batch': TaskBackgroundRemoveBatch;
+      'image-internalize': TaskImageInternalize;
+      'youtube-sync': TaskYoutubeSync;
+      'embed-products': TaskEmbedProducts;
+      'recall-watchdog': TaskRecallWatchdog;
+      'campaign-send': TaskCampaignSend;
+      'segment-refresh': TaskSegmentRefresh;
+      'brand-reports': TaskBrandReports;
       schedulePublish: TaskSchedulePublish;
       inline: {
         input: unknown;
@@ -393,6 +420,10 @@ export interface Media {
     };
     [k: string]: unknown;
   } | null;
+  /**
+   * Hash of the uploaded file, used to verify lab evidence
+   */
+  sha256?: string | null;
   folder?: (number | null) | FolderInterface;
   updatedAt: string;
   createdAt: string;
@@ -657,9 +688,29 @@ export interface Product {
   verdictOverriddenBy?: (number | null) | User;
   verdictOverriddenAt?: string | null;
   /**
-   * Name of VerdictRule(s) that set the verdict
+   * VerdictRule(s) that set the verdict, with the condition clauses that matched
    */
   ruleApplied?: string | null;
+  /**
+   * Ingredient panel as printed on the label. Parsed and linked to the Ingredients registry on save.
+   */
+  ingredientsRaw?: string | null;
+  /**
+   * Registry ingredients linked from the raw text (used by VerdictRules and risk prediction)
+   */
+  ingredientsList?: (number | Ingredient)[] | null;
+  /**
+   * Label names with no registry match. Add them as ingredients or synonyms.
+   */
+  unmatchedIngredients?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
   /**
    * Universal Product Code for barcode scanning
    */
@@ -746,6 +797,10 @@ export interface Product {
      * Signed document tracking sample from logistics to lab technician.
      */
     labChainOfCustody?: (number | null) | Media;
+    /**
+     * Auto-generated hash of the chain of custody document.
+     */
+    labChainOfCustodyHash?: string | null;
   };
   /**
    * REQUIRED for AVOID verdicts. Must be authorized source to defeat counterfeit defense.
@@ -855,6 +910,32 @@ export interface Product {
          * Why this version was created (e.g., "Manufacturer dispute", "New test data")
          */
         changeReason?: string | null;
+        /**
+         * Field-level diff against the previous version
+         */
+        changes?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        /**
+         * Manufacturer dispute that led to this version (e.g., DIS-2026-ABC123)
+         */
+        disputeReference?: string | null;
+        /**
+         * SHA-256 of the COA this version was published with
+         */
+        labReportHash?: string | null;
+        chainOfCustodyHash?: string | null;
+        previousHash?: string | null;
+        /**
+         * Seals this version and links it to the previous one
+         */
+        hash?: string | null;
         id?: string | null;
       }[]
     | null;
@@ -874,6 +955,11 @@ export interface Product {
    * Auto-calculated from last tested date
    */
   freshnessStatus?: ('fresh' | 'needs_review' | 'stale') | null;
+  /**
+   * Set when a hazardous reformulation is detected. Keeps freshness at Needs Review until a newer test date.
+   */
+  retestRequestedAt?: string | null;
+  retestReason?: string | null;
   status?: ('ai_draft' | 'draft' | 'testing' | 'writing' | 'review' | 'published') | null;
   /**
    * Auto-set when verdict is AVOID. Lab data hidden from non-premium users.
@@ -1409,6 +1495,10 @@ export interface DeviceFingerprint {
     | number
     | boolean
     | null;
+  /**
+   * IP address of the last registration (referral fraud scoring)
+   */
+  lastIpAddress?: string | null;
   /**
    * Total unlocks across all time (for abuse detection)
    */
@@ -1481,6 +1571,110 @@ export interface DeviceFingerprint {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Ingredient registry with synonyms, identifiers, hazards and regulatory status
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "ingredients".
+ */
+export interface Ingredient {
+  id: number;
+  /**
+   * Canonical ingredient name (e.g., "Titanium Dioxide")
+   */
+  name: string;
+  /**
+   * Auto-generated from name if empty
+   */
+  slug?: string | null;
+  /**
+   * Alternative names as they appear on labels (e.g., "E171", "CI 77891")
+   */
+  synonyms?:
+    | {
+        synonym: string;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * e.g., 13463-67-7
+   */
+  casNumber?: string | null;
+  /**
+   * EU food additive code (e.g., E171)
+   */
+  eNumber?: string | null;
+  category?:
+    | (
+        | 'artificial_colors'
+        | 'artificial_sweeteners'
+        | 'preservatives'
+        | 'emulsifiers'
+        | 'heavy_metals'
+        | 'pesticides'
+        | 'vitamins_minerals'
+        | 'proteins'
+        | 'fats_oils'
+        | 'sugars'
+        | 'fibers'
+        | 'other'
+      )
+    | null;
+  /**
+   * Used by "Ingredient Verdict" rules and conflict detection
+   */
+  verdict: 'safe' | 'caution' | 'flagged' | 'unknown';
+  /**
+   * Contribution to product risk prediction (0-50). 0 = no risk signal.
+   */
+  riskWeight?: number | null;
+  /**
+   * Summary of the evidence behind this assessment
+   */
+  reason?: string | null;
+  /**
+   * Hazard classifications from recognized authorities
+   */
+  hazardClassifications?:
+    | {
+        hazard:
+          | 'carcinogen'
+          | 'possible_carcinogen'
+          | 'endocrine_disruptor'
+          | 'reproductive_toxicant'
+          | 'developmental_toxicant'
+          | 'neurotoxicant'
+          | 'allergen'
+          | 'heavy_metal'
+          | 'irritant'
+          | 'other';
+        authority?: ('iarc' | 'ghs' | 'prop65' | 'echa' | 'epa' | 'ntp' | 'other') | null;
+        /**
+         * Classification code or citation (e.g., "IARC Group 2B", "H351")
+         */
+        reference?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  jurisdictionStatus?:
+    | {
+        jurisdiction: 'us' | 'us_ca' | 'eu' | 'uk' | 'ca' | 'anz' | 'jp';
+        status: 'approved' | 'restricted' | 'warning_required' | 'banned' | 'under_review';
+        effectiveDate?: string | null;
+        /**
+         * Permitted level, if restricted (e.g., "0.5 ppm")
+         */
+        limit?: string | null;
+        /**
+         * Regulation or notice (e.g., "Regulation (EU) 2022/63")
+         */
+        reference?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "videos".
@@ -2403,6 +2597,83 @@ export interface SponsoredTestRequest {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Instrument data imports awaiting review before they are applied to products
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "lab-imports".
+ */
+export interface LabImport {
+  id: number;
+  product: number | Product;
+  /**
+   * Set to Applied to merge the detections into the product
+   */
+  status: 'pending_review' | 'applied' | 'rejected';
+  format: 'vendor_csv' | 'mzml';
+  fileName?: string | null;
+  instrument?: string | null;
+  sampleName?: string | null;
+  /**
+   * Becomes the product test date when applied
+   */
+  acquiredAt?: string | null;
+  /**
+   * Testing laboratory (copied to the product when applied)
+   */
+  labName?: string | null;
+  /**
+   * Identified peaks in the export
+   */
+  peakCount?: number | null;
+  /**
+   * Proposed detections
+   */
+  detectionCount?: number | null;
+  /**
+   * Targets reported below LOD
+   */
+  notDetectedCount?: number | null;
+  /**
+   * Proposed detectionResults entries. Edit before applying if needed.
+   */
+  detections?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Peaks not found in the ingredient registry
+   */
+  unmatchedPeaks?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  warnings?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  reviewNotes?: string | null;
+  uploadedBy?: (number | null) | User;
+  reviewedBy?: (number | null) | User;
+  reviewedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * Automated rules for product verdicts
  *
@@ -2422,7 +2693,16 @@ export interface VerdictRule {
   /**
    * What triggers this rule
    */
-  conditionType: 'contains_ingredient' | 'missing_ingredient' | 'ingredient_verdict' | 'category_match';
+  conditionType:
+    | 'contains_ingredient'
+    | 'missing_ingredient'
+    | 'ingredient_verdict'
+    | 'category_match'
+    | 'condition_tree';
+  /**
+   * Registry ingredients to look for (any match triggers the rule)
+   */
+  ingredientCondition?: (number | Ingredient)[] | null;
   /**
    * Match based on ingredient verdicts
    */
@@ -2431,6 +2711,18 @@ export interface VerdictRule {
    * Apply only to these categories
    */
   categoryCondition?: (number | Category)[] | null;
+  /**
+   * Nested { "op": "and" | "or", "children": [...] }, { "op": "not", "child": {...} } or predicates: contains_ingredient, missing_ingredient, ingredient_verdict, category, detection, price_range, brand_trust_score, brand_recall, freshness
+   */
+  conditionTree?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
   /**
    * What happens when rule matches
    */
@@ -2452,7 +2744,7 @@ export interface VerdictRule {
   createdAt: string;
 }
 /**
- * Immutable audit trail of all AI and system actions
+ * Immutable audit trail of all AI, system and admin actions
  *
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "audit-log".
@@ -2487,7 +2779,18 @@ export interface AuditLog {
     | 'sentry_spike_alert'
     | 'sentry_regression_alert'
     | 'sentry_critical_alert'
-    | 'cron_execution';
+    | 'cron_execution'
+    | 'create'
+    | 'update'
+    | 'delete'
+    | 'settings_change'
+    | 'bulk_operation'
+    | 'login'
+    | 'logout';
+  /**
+   * Human-readable summary of the change
+   */
+  summary?: string | null;
   sourceType?:
     | ('youtube' | 'tiktok' | 'amazon' | 'web_url' | 'barcode' | 'manual' | 'system' | 'rule' | 'revenuecat' | 'sentry')
     | null;
@@ -2496,16 +2799,18 @@ export interface AuditLog {
    */
   sourceId?: string | null;
   sourceUrl?: string | null;
-  targetCollection?:
-    | ('products' | 'ingredients' | 'categories' | 'videos' | 'articles' | 'investigation-polls' | 'user-submissions')
-    | null;
+  targetType?: ('collection' | 'global') | null;
+  /**
+   * Collection (or global) slug, e.g. products
+   */
+  targetCollection?: string | null;
   targetId?: number | null;
   /**
    * Human-readable name for quick reference
    */
   targetName?: string | null;
   /**
-   * State before the action (for updates)
+   * State before the action (for admin changes: prior values of the changed fields)
    */
   before?:
     | {
@@ -2552,6 +2857,20 @@ export interface AuditLog {
    * User who triggered this action (null for system)
    */
   performedBy?: (number | null) | User;
+  /**
+   * Kept if the user is later deleted
+   */
+  actorEmail?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  /**
+   * Bulk operation this change was part of (e.g. an admin-purge run)
+   */
+  operation?: string | null;
+  /**
+   * The audit entry this change reverted
+   */
+  revertOf?: (number | null) | AuditLog;
   success?: boolean | null;
   errorMessage?: string | null;
   /**
@@ -2585,69 +2904,6 @@ export interface AuditLog {
   updatedAt: string;
   createdAt: string;
 }
-/**
- * Track all admin actions for security and compliance
- *
- * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "admin-audit-logs".
- */
-export interface AdminAuditLog {
-  id: number;
-  /**
-   * Type of action performed
-   */
-  action: 'create' | 'update' | 'delete' | 'login' | 'logout' | 'settings_change' | 'bulk_operation';
-  /**
-   * Collection or global that was affected
-   */
-  collection: string;
-  /**
-   * ID of the document that was affected
-   */
-  documentId?: string | null;
-  /**
-   * Title/name of the document for easy identification
-   */
-  documentTitle?: string | null;
-  /**
-   * User who performed the action
-   */
-  adminUser?: (number | null) | User;
-  /**
-   * Email of the admin who performed the action
-   */
-  adminEmail: string;
-  /**
-   * Array of field changes: [{ field, oldValue, newValue }]
-   */
-  changes?:
-    | {
-        [k: string]: unknown;
-      }
-    | unknown[]
-    | string
-    | number
-    | boolean
-    | null;
-  /**
-   * Human-readable summary of changes
-   */
-  summary?: string | null;
-  /**
-   * IP address of the request
-   */
-  ipAddress?: string | null;
-  /**
-   * Browser/client user agent
-   */
-  userAgent?: string | null;
-  /**
-   * When the action occurred
-   */
-  timestamp: string;
-  updatedAt: string;
-  createdAt: string;
-}
 /**
  * Historical price and size data for shrinkflation/skimpflation detection
  *
@@ -2684,16 +2940,24 @@ export interface PriceHistory {
    * Number of units in package (for multipacks)
    */
   unitCount?: number | null;
-  retailer: 'amazon' | 'walmart' | 'target' | 'costco' | 'kroger' | 'whole_foods' | 'instacart' | 'manual';
+  retailer: 'amazon' | 'walmart' | 'target' | 'costco' | 'kroger' | 'whole_foods' | 'instacart' | 'iherb' | 'manual';
   /**
    * URL where price was captured
    */
   sourceUrl?: string | null;
+  /**
+   * Where the scraper read the price from
+   */
+  extractedFrom?: ('embedded_state' | 'json_ld' | 'microdata' | 'html') | null;
   capturedAt: string;
   /**
    * Ingredient list at time of capture (for skimpflation detection)
    */
   ingredientsSnapshot?: string | null;
+  /**
+   * Ingredient counts are only compared between snapshots from the same source
+   */
+  ingredientsSource?: ('retailer' | 'product') | null;
   /**
    * Number of ingredients at capture time
    */
@@ -2702,7 +2966,7 @@ export interface PriceHistory {
    * System detected an anomaly in this record
    */
   anomalyDetected?: boolean | null;
-  anomalyType?: ('price_increase' | 'shrinkflation' | 'skimpflation' | 'double_whammy') | null;
+  anomalyType?: ('price_increase' | 'shrinkflation' | 'skimpflation' | 'double_whammy' | 'reformulation') | null;
   /**
    * Detailed anomaly analysis data
    */
@@ -2843,6 +3107,70 @@ export interface Brand {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Recalls matched to catalog products, awaiting review
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "recall-matches".
+ */
+export interface RecallMatch {
+  id: number;
+  product: number | Product;
+  /**
+   * Brand whose recall history is updated on confirmation
+   */
+  brand?: (number | null) | Brand;
+  /**
+   * Set to Confirmed to flag the product and alert users who saved it
+   */
+  status: 'pending_review' | 'confirmed' | 'rejected';
+  confidence?: number | null;
+  /**
+   * What matched between the recall and the product
+   */
+  signals?: ('upc' | 'lot' | 'date_range' | 'brand' | 'product_name')[] | null;
+  recallNumber: string;
+  recallSource: 'fda_food' | 'fda_drug' | 'cpsc';
+  classification?: string | null;
+  recallDate?: string | null;
+  recallingFirm?: string | null;
+  reason?: string | null;
+  productDescription?: string | null;
+  /**
+   * Lot, UPC and date codes listed in the recall
+   */
+  codeInfo?: string | null;
+  recallUrl?: string | null;
+  /**
+   * UPCs, lot numbers and date ranges extracted from the recall
+   */
+  extracted?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  reviewNotes?: string | null;
+  /**
+   * Push notifications and emails sent on confirmation
+   */
+  alertsSent?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  reviewedBy?: (number | null) | User;
+  reviewedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * Regulatory updates that affect ingredients or products
  *
@@ -2893,15 +3221,23 @@ export interface RegulatoryChange {
    */
   affectedCategories?: (number | Category)[] | null;
   /**
-   * Substances mentioned that may not be in our ingredient database yet
+   * Substances named in the document, linked to the ingredient registry when they resolve
    */
   affectedSubstances?:
     | {
         name: string;
         casNumber?: string | null;
+        /**
+         * Leave empty when the substance is not in our ingredient database yet
+         */
+        ingredient?: (number | null) | Ingredient;
         id?: string | null;
       }[]
     | null;
+  /**
+   * Published products containing an affected substance when the change was recorded
+   */
+  affectedProducts?: (number | Product)[] | null;
   /**
    * Plain-language summary of the regulatory change
    */
@@ -3200,6 +3536,10 @@ export interface PushToken {
    * Last time the user opened the app (for win-back targeting)
    */
   lastActiveAt?: string | null;
+  /**
+   * IANA timezone reported by the device (e.g. "America/Chicago"); used for local-time campaigns and quiet hours
+   */
+  timezone?: string | null;
   /**
    * Last time a win-back notification was sent (for cooldown)
    */
@@ -3324,6 +3664,14 @@ export interface Referral {
    * Most recent subscription renewal date
    */
   lastRenewalDate?: string | null;
+  /**
+   * When the referred subscriber cancelled (from RevenueCat)
+   */
+  cancelledAt?: string | null;
+  /**
+   * When the referred subscriber was refunded (from RevenueCat)
+   */
+  refundedAt?: string | null;
   /**
    * Next date commission should be accrued (subscription anniversary)
    */
@@ -3340,7 +3688,38 @@ export interface Referral {
    * RevenueCat subscriber ID for webhook matching
    */
   revenuecatSubscriberId?: string | null;
+  /**
+   * Fraud score from linked fingerprints, IPs, emails and refund timing
+   */
+  fraud?: {
+    /**
+     * Fraud likelihood (0-100)
+     */
+    score?: number | null;
+    riskLevel?: ('low' | 'medium' | 'high') | null;
+    reviewStatus?: ('none' | 'held' | 'approved' | 'denied') | null;
+    /**
+     * Signals behind the score, with their weights
+     */
+    signals?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+    checkedAt?: string | null;
+    reviewNotes?: string | null;
+    reviewedBy?: (number | null) | User;
+    reviewedAt?: string | null;
+  };
   source?: ('mobile' | 'web' | 'link') | null;
+  /**
+   * IP address the referral was attributed from
+   */
+  attributionIp?: string | null;
   /**
    * Internal notes about this referral
    */
@@ -3376,12 +3755,20 @@ export interface ReferralPayout {
    * Period this payout covers (e.g., "2026-01" or "2026")
    */
   period: string;
-  status: 'pending' | 'processing' | 'paid' | 'failed' | 'cancelled';
-  paymentMethod: 'paypal' | 'venmo' | 'credit' | 'check';
+  status: 'pending' | 'held' | 'processing' | 'paid' | 'failed' | 'cancelled';
+  /**
+   * Referral whose fraud review this payout is waiting on
+   */
+  heldReferral?: (number | null) | Referral;
+  paymentMethod: 'paypal' | 'venmo' | 'stripe' | 'ach' | 'credit' | 'check';
   /**
-   * PayPal email, Venmo handle, or other payment details
+   * PayPal email, Venmo handle, Stripe account id (acct_...), ACH account reference, or other payment details
    */
   paymentDetails?: string | null;
+  /**
+   * Payout run this payout was batched into
+   */
+  payoutRun?: (number | null) | PayoutRun;
   /**
    * When the payout was processed
    */
@@ -3417,6 +3804,89 @@ export interface ReferralPayout {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Referral payout batches exported to payment providers
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payout-runs".
+ */
+export interface PayoutRun {
+  id: number;
+  /**
+   * Payout period batched (e.g., "2026-01" or "2026" - annual runs include monthly payouts)
+   */
+  period: string;
+  provider: 'paypal' | 'stripe' | 'ach';
+  status: 'ready' | 'partially_reconciled' | 'reconciled' | 'cancelled';
+  /**
+   * Referrers owed less than this (USD) are skipped and carried over
+   */
+  minimumAmount?: number | null;
+  itemCount?: number | null;
+  payoutCount?: number | null;
+  /**
+   * USD
+   */
+  totalAmount?: number | null;
+  /**
+   * Payments in this run. itemId is the reference id sent to the provider.
+   */
+  items?:
+    | {
+        itemId: string;
+        referrerId: string;
+        referrerEmail: string;
+        paymentMethod: string;
+        destination: string;
+        amount: number;
+        /**
+         * Referral payouts this item pays
+         */
+        payoutIds?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        status?: ('pending' | 'paid' | 'failed') | null;
+        transactionId?: string | null;
+        error?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  /**
+   * Payouts left pending: below_minimum, missing_payment_details or w9_required
+   */
+  skipped?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  reconciledAt?: string | null;
+  /**
+   * Result of the last imported provider file (paid, failed, unmatched, mismatched items)
+   */
+  lastReconciliation?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  createdBy?: (number | null) | User;
+  notes?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * AI-generated content awaiting your approval
  *
@@ -3645,12 +4115,16 @@ export interface EmailTemplate {
         | 'saved_product_updated'
       )
     | null;
+  /**
+   * Only send to users with a device in any of these segments. Leave empty for everyone the sequence targets.
+   */
+  audienceSegments?: (number | UserSegment)[] | null;
   /**
    * Email subject line (supports {{variables}} like {{userName}})
    */
   subject: string;
   /**
-   * A/B test: alternate subject line (50% of recipients)
+   * Legacy A/B test: alternate subject line, used when no variants are set on the Experiment tab
    */
   subjectVariantB?: string | null;
   /**
@@ -3708,6 +4182,61 @@ export interface EmailTemplate {
      */
     includeStats?: boolean | null;
   };
+  /**
+   * Challengers. Leave a field empty to send variant A's value
+   */
+  variants?:
+    | {
+        key: 'B' | 'C' | 'D' | 'E' | 'F';
+        /**
+         * Share of traffic relative to the other arms
+         */
+        weight?: number | null;
+        subject?: string | null;
+        preheader?: string | null;
+        headline?: string | null;
+        body?: {
+          root: {
+            type: string;
+            children: {
+              type: any;
+              version: number;
+              [k: string]: unknown;
+            }[];
+            direction: ('ltr' | 'rtl') | null;
+            format: 'left' | 'start' | 'center' | 'right' | 'end' | 'justify' | '';
+            indent: number;
+            version: number;
+          };
+          [k: string]: unknown;
+        } | null;
+        ctaText?: string | null;
+        ctaUrl?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  experiment?: {
+    metric?: ('open' | 'click') | null;
+    /**
+     * Percent; split across challengers (Bonferroni)
+     */
+    confidenceLevel?: number | null;
+    /**
+     * Traffic share of variant A
+     */
+    controlWeight?: number | null;
+    /**
+     * Hours to collect data before the result is evaluated
+     */
+    holdoutHours?: number | null;
+    /**
+     * Sends each variant needs before evaluation
+     */
+    minSampleSize?: number | null;
+    autoPromote?: boolean | null;
+    startedAt?: string | null;
+    concludedAt?: string | null;
+  };
   stats?: {
     sent?: number | null;
     opened?: number | null;
@@ -3726,9 +4255,9 @@ export interface EmailTemplate {
      */
     unsubscribeRate?: string | null;
     /**
-     * A/B test result (auto-calculated after 100+ sends)
+     * Experiment result (set after the holdout period once every variant has enough sends)
      */
-    abTestWinner?: ('pending' | 'A' | 'B' | 'tie') | null;
+    abTestWinner?: ('pending' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'tie') | null;
   };
   /**
    * Internal notes about this template (not sent to users)
@@ -3748,14 +4277,14 @@ export interface EmailSend {
   template: number | EmailTemplate;
   recipient: string;
   /**
-   * The actual subject line sent (after A/B variant selection)
+   * The actual subject line sent (after experiment variant selection)
    */
   subject: string;
   status?: ('sent' | 'delivered' | 'opened' | 'clicked' | 'bounced' | 'complained') | null;
   /**
-   * Which subject line variant was sent
+   * Experiment variant that was sent
    */
-  abVariant?: ('A' | 'B') | null;
+  abVariant?: ('A' | 'B' | 'C' | 'D' | 'E' | 'F') | null;
   /**
    * Resend message ID for tracking
    */
@@ -4160,7 +4689,7 @@ export interface UserSegment {
    */
   description?: string | null;
   /**
-   * Rules that define segment membership. All rules must match (AND logic).
+   * Rules that define segment membership. Streak Days, Badge Count and App Version are only reported by the app, so server-side membership never matches them.
    */
   rules: {
     /**
@@ -4221,7 +4750,7 @@ export interface UserSegment {
    */
   priority?: number | null;
   /**
-   * Estimated number of users in this segment (auto-updated)
+   * Devices currently in this segment (auto-updated)
    */
   estimatedSize?: number | null;
   /**
@@ -4632,11 +5161,22 @@ export interface BrandUser {
   /**
    * How this user was verified
    */
-  verificationMethod?: ('email_domain' | 'linkedin' | 'phone' | 'documentation' | 'manual') | null;
+  verificationMethod?: ('email_domain' | 'linkedin' | 'phone' | 'documentation' | 'manual' | 'team_invite') | null;
   /**
    * Notes about the verification process
    */
   verificationNotes?: string | null;
+  /**
+   * Team member who sent the invitation
+   */
+  invitedBy?: (number | null) | BrandUser;
+  inviteTokenHash?: string | null;
+  inviteExpiresAt?: string | null;
+  /**
+   * Portal and API access revoked - login is blocked while set
+   */
+  accessRevokedAt?: string | null;
+  accessRevokedBy?: (number | null) | BrandUser;
   subscription: 'free' | 'starter' | 'pro' | 'enterprise';
   /**
    * When the paid subscription started
@@ -4726,6 +5266,112 @@ export interface BrandUser {
     | null;
   password?: string | null;
 }
+/**
+ * Hashed API keys for programmatic brand portal access
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "brand-api-keys".
+ */
+export interface BrandApiKey {
+  id: number;
+  /**
+   * What this key is used for (e.g., "BI warehouse sync")
+   */
+  name: string;
+  /**
+   * First characters of the key, for identification
+   */
+  keyPrefix: string;
+  keyHash: string;
+  /**
+   * Brand user who issued the key - it acts with their access
+   */
+  owner: number | BrandUser;
+  /**
+   * Brands this key can read
+   */
+  brands: (number | Brand)[];
+  /**
+   * Issuer tier when created - the key never exceeds it
+   */
+  tier: 'free' | 'starter' | 'pro' | 'enterprise';
+  status: 'active' | 'revoked';
+  /**
+   * Set on the old key when it is rotated (grace period)
+   */
+  expiresAt?: string | null;
+  replacedBy?: (number | null) | BrandApiKey;
+  revokedAt?: string | null;
+  revokedBy?: (number | null) | BrandUser;
+  /**
+   * Requests allowed per calendar month
+   */
+  monthlyQuota?: number | null;
+  /**
+   * Month the counters below cover (YYYY-MM)
+   */
+  usagePeriod?: string | null;
+  periodUsage?: number | null;
+  /**
+   * All-time requests
+   */
+  usageCount?: number | null;
+  /**
+   * Requests per endpoint this month
+   */
+  endpointUsage?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  lastUsedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Archived brand benchmark reports (weekly digest)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "brand-reports".
+ */
+export interface BrandReport {
+  id: number;
+  brand: number | Brand;
+  /**
+   * Brand name (denormalized for the archive list)
+   */
+  brandName?: string | null;
+  /**
+   * Competitive adds the competitor comparison
+   */
+  edition: 'standard' | 'competitive';
+  issueNumber?: number | null;
+  periodStart: string;
+  periodEnd: string;
+  /**
+   * Report data as generated - PDF and HTML are rendered from this
+   */
+  report:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Brand users this issue was emailed to
+   */
+  deliveredTo?: (number | BrandUser)[] | null;
+  deliveredAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * Logged search queries for analytics
  *
@@ -4872,6 +5518,97 @@ export interface PaywallVariant {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Devices currently in each segment (maintained automatically)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "segment-memberships".
+ */
+export interface SegmentMembership {
+  id: number;
+  segment: number | UserSegment;
+  fingerprint: number | DeviceFingerprint;
+  fingerprintHash: string;
+  /**
+   * Account linked to the device when it entered
+   */
+  user?: (number | null) | User;
+  enteredAt: string;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Segment entries and exits (maintained automatically)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "segment-events".
+ */
+export interface SegmentEvent {
+  id: number;
+  segment: number | UserSegment;
+  change: 'entered' | 'exited';
+  fingerprint?: (number | null) | DeviceFingerprint;
+  fingerprintHash?: string | null;
+  user?: (number | null) | User;
+  /**
+   * When the change was pushed to RevenueCat (or found to have nothing to push)
+   */
+  syncedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * RevenueCat webhook events and how they were applied (maintained automatically)
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "revenuecat-events".
+ */
+export interface RevenuecatEvent {
+  id: number;
+  /**
+   * RevenueCat event id
+   */
+  eventId: string;
+  type: string;
+  appUserId?: string | null;
+  environment?: string | null;
+  /**
+   * event_timestamp_ms
+   */
+  eventAt?: string | null;
+  status: 'received' | 'processed' | 'unmatched' | 'skipped' | 'failed';
+  attempts?: number | null;
+  processedAt?: string | null;
+  error?: string | null;
+  user?: (number | null) | User;
+  referral?: (number | null) | Referral;
+  /**
+   * What the last run changed: subscription status, member state, referral actions
+   */
+  outcome?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Raw RevenueCat event, re-run on replay
+   */
+  event:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * Feature flags from Statsig. Toggle isEnabled or change rollout % to update in Statsig.
  *
@@ -5014,6 +5751,14 @@ export interface ManufacturerDispute {
    * Phone number
    */
   contactPhone: string;
+  /**
+   * Brand the dispute was filed for (Brand Portal submissions)
+   */
+  brand?: (number | null) | Brand;
+  /**
+   * Brand Portal user who submitted the dispute
+   */
+  submittedBy?: (number | null) | BrandUser;
   /**
    * Has the corporate email domain been verified?
    */
@@ -5097,13 +5842,17 @@ export interface ManufacturerDispute {
    */
   labReviewDate?: string | null;
   /**
-   * Was the published report updated as a result?
+   * Was the published report updated as a result? Links this dispute to the product report version history.
    */
   reportUpdated?: boolean | null;
   /**
    * What was changed in the report?
    */
   updateDescription?: string | null;
+  /**
+   * Approved template for the current status (from legal copy). Adapt into the official response.
+   */
+  suggestedResponse?: string | null;
   /**
    * Our official response to the manufacturer
    */
@@ -5330,7 +6079,18 @@ export interface PayloadJob {
     | {
         executedAt: string;
         completedAt: string;
-        taskSlug: 'inline' | 'schedulePublish';
+        taskSlug:
+          | 'inline'
+          | 'batch-enrich'
+          | 'background-remove-batch'
+          | 'image-internalize'
+          | 'youtube-sync'
+          | 'embed-products'
+          | 'recall-watchdog'
+          | 'campaign-send'
+          | 'segment-refresh'
+          | 'brand-reports'
+          | 'schedulePublish';
         taskID: string;
         input?:
           | {
@@ -5363,21 +6123,63 @@ export interface PayloadJob {
         id?: string | null;
       }[]
     | null;
-  taskSlug?: ('inline' | 'schedulePublish') | null;
+  taskSlug?:
+    | (
+        | 'inline'
+        | 'batch-enrich'
+        | 'background-remove-batch'
+        | 'image-internalize'
+        | 'youtube-sync'
+        | 'embed-products'
+        | 'recall-watchdog'
+        | 'campaign-send'
+        | 'segment-refresh'
+        | 'brand-reports'
+        | 'schedulePublish'
+      )
+    | null;
   queue?: string | null;
   waitUntil?: string | null;
   processing?: boolean | null;
-  updatedAt: string;
-  createdAt: string;
-}
-/**
- * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "payload-locked-documents".
- */
-export interface PayloadLockedDocument {
-  id: number;
-  document?:
-    | ({
+  progress?: {
+    completed?: number | null;
+    total?: number | null;
+    message?: string | null;
+  };
+  /**
+   * Set when every retry failed. Re-queue from the job monitor.
+   */
+  deadLetter?: {
+    deadLettered?: boolean | null;
+    reason?: string | null;
+    attempts?: number | null;
+    at?: string | null;
+  };
+  result?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  requestedBy?: (number | null) | User;
+  /**
+   * Job this one re-queued
+   */
+  retryOf?: number | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-locked-documents".
+ */
+export interface PayloadLockedDocument {
+  id: number;
+  document?:
+    | ({
         relationTo: 'pages';
         value: number | Page;
       } | null)
@@ -5413,6 +6215,14 @@ export interface PayloadLockedDocument {
         relationTo: 'sponsored-test-requests';
         value: number | SponsoredTestRequest;
       } | null)
+    | ({
+        relationTo: 'ingredients';
+        value: number | Ingredient;
+      } | null)
+    | ({
+        relationTo: 'lab-imports';
+        value: number | LabImport;
+      } | null)
     | ({
         relationTo: 'verdict-rules';
         value: number | VerdictRule;
@@ -5421,10 +6231,6 @@ export interface PayloadLockedDocument {
         relationTo: 'audit-log';
         value: number | AuditLog;
       } | null)
-    | ({
-        relationTo: 'admin-audit-logs';
-        value: number | AdminAuditLog;
-      } | null)
     | ({
         relationTo: 'users';
         value: number | User;
@@ -5437,6 +6243,10 @@ export interface PayloadLockedDocument {
         relationTo: 'brands';
         value: number | Brand;
       } | null)
+    | ({
+        relationTo: 'recall-matches';
+        value: number | RecallMatch;
+      } | null)
     | ({
         relationTo: 'regulatory-changes';
         value: number | RegulatoryChange;
@@ -5481,6 +6291,10 @@ export interface PayloadLockedDocument {
         relationTo: 'referral-payouts';
         value: number | ReferralPayout;
       } | null)
+    | ({
+        relationTo: 'payout-runs';
+        value: number | PayoutRun;
+      } | null)
     | ({
         relationTo: 'generated-content';
         value: number | GeneratedContent;
@@ -5525,6 +6339,14 @@ export interface PayloadLockedDocument {
         relationTo: 'brand-users';
         value: number | BrandUser;
       } | null)
+    | ({
+        relationTo: 'brand-api-keys';
+        value: number | BrandApiKey;
+      } | null)
+    | ({
+        relationTo: 'brand-reports';
+        value: number | BrandReport;
+      } | null)
     | ({
         relationTo: 'search-queries';
         value: number | SearchQuery;
@@ -5537,6 +6359,18 @@ export interface PayloadLockedDocument {
         relationTo: 'user-segments';
         value: number | UserSegment;
       } | null)
+    | ({
+        relationTo: 'segment-memberships';
+        value: number | SegmentMembership;
+      } | null)
+    | ({
+        relationTo: 'segment-events';
+        value: number | SegmentEvent;
+      } | null)
+    | ({
+        relationTo: 'revenuecat-events';
+        value: number | RevenuecatEvent;
+      } | null)
     | ({
         relationTo: 'feature-flag-cache';
         value: number | FeatureFlagCache;
@@ -5826,6 +6660,9 @@ export interface ProductsSelect<T extends boolean = true> {
   verdictOverriddenBy?: T;
   verdictOverriddenAt?: T;
   ruleApplied?: T;
+  ingredientsRaw?: T;
+  ingredientsList?: T;
+  unmatchedIngredients?: T;
   upc?: T;
   amazonAsin?: T;
   amazonLinkStatus?: T;
@@ -5851,6 +6688,7 @@ export interface ProductsSelect<T extends boolean = true> {
         labReportOriginal?: T;
         labReportHash?: T;
         labChainOfCustody?: T;
+        labChainOfCustodyHash?: T;
       };
   retailerType?: T;
   purchaseReceipt?: T;
@@ -5917,10 +6755,18 @@ export interface ProductsSelect<T extends boolean = true> {
         publishedAt?: T;
         snapshot?: T;
         changeReason?: T;
+        changes?: T;
+        disputeReference?: T;
+        labReportHash?: T;
+        chainOfCustodyHash?: T;
+        previousHash?: T;
+        hash?: T;
         id?: T;
       };
   conflicts?: T;
   freshnessStatus?: T;
+  retestRequestedAt?: T;
+  retestReason?: T;
   status?: T;
   hasRestrictedLabData?: T;
   priceRange?: T;
@@ -6123,6 +6969,7 @@ export interface VideosSelect<T extends boolean = true> {
 export interface MediaSelect<T extends boolean = true> {
   alt?: T;
   caption?: T;
+  sha256?: T;
   folder?: T;
   updatedAt?: T;
   createdAt?: T;
@@ -6314,6 +7161,72 @@ export interface SponsoredTestRequestsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "ingredients_select".
+ */
+export interface IngredientsSelect<T extends boolean = true> {
+  name?: T;
+  slug?: T;
+  synonyms?:
+    | T
+    | {
+        synonym?: T;
+        id?: T;
+      };
+  casNumber?: T;
+  eNumber?: T;
+  category?: T;
+  verdict?: T;
+  riskWeight?: T;
+  reason?: T;
+  hazardClassifications?:
+    | T
+    | {
+        hazard?: T;
+        authority?: T;
+        reference?: T;
+        id?: T;
+      };
+  jurisdictionStatus?:
+    | T
+    | {
+        jurisdiction?: T;
+        status?: T;
+        effectiveDate?: T;
+        limit?: T;
+        reference?: T;
+        id?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "lab-imports_select".
+ */
+export interface LabImportsSelect<T extends boolean = true> {
+  product?: T;
+  status?: T;
+  format?: T;
+  fileName?: T;
+  instrument?: T;
+  sampleName?: T;
+  acquiredAt?: T;
+  labName?: T;
+  peakCount?: T;
+  detectionCount?: T;
+  notDetectedCount?: T;
+  detections?: T;
+  unmatchedPeaks?: T;
+  warnings?: T;
+  reviewNotes?: T;
+  uploadedBy?: T;
+  reviewedBy?: T;
+  reviewedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "verdict-rules_select".
@@ -6322,8 +7235,10 @@ export interface VerdictRulesSelect<T extends boolean = true> {
   name?: T;
   description?: T;
   conditionType?: T;
+  ingredientCondition?: T;
   ingredientVerdictCondition?: T;
   categoryCondition?: T;
+  conditionTree?: T;
   action?: T;
   warningMessage?: T;
   isActive?: T;
@@ -6338,9 +7253,11 @@ export interface VerdictRulesSelect<T extends boolean = true> {
  */
 export interface AuditLogSelect<T extends boolean = true> {
   action?: T;
+  summary?: T;
   sourceType?: T;
   sourceId?: T;
   sourceUrl?: T;
+  targetType?: T;
   targetCollection?: T;
   targetId?: T;
   targetName?: T;
@@ -6350,6 +7267,11 @@ export interface AuditLogSelect<T extends boolean = true> {
   aiModel?: T;
   confidence?: T;
   performedBy?: T;
+  actorEmail?: T;
+  ipAddress?: T;
+  userAgent?: T;
+  operation?: T;
+  revertOf?: T;
   success?: T;
   errorMessage?: T;
   retryable?: T;
@@ -6360,25 +7282,6 @@ export interface AuditLogSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
-/**
- * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "admin-audit-logs_select".
- */
-export interface AdminAuditLogsSelect<T extends boolean = true> {
-  action?: T;
-  collection?: T;
-  documentId?: T;
-  documentTitle?: T;
-  adminUser?: T;
-  adminEmail?: T;
-  changes?: T;
-  summary?: T;
-  ipAddress?: T;
-  userAgent?: T;
-  timestamp?: T;
-  updatedAt?: T;
-  createdAt?: T;
-}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "users_select".
@@ -6457,8 +7360,10 @@ export interface PriceHistorySelect<T extends boolean = true> {
   unitCount?: T;
   retailer?: T;
   sourceUrl?: T;
+  extractedFrom?: T;
   capturedAt?: T;
   ingredientsSnapshot?: T;
+  ingredientsSource?: T;
   ingredientCount?: T;
   anomalyDetected?: T;
   anomalyType?: T;
@@ -6523,6 +7428,33 @@ export interface BrandsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "recall-matches_select".
+ */
+export interface RecallMatchesSelect<T extends boolean = true> {
+  product?: T;
+  brand?: T;
+  status?: T;
+  confidence?: T;
+  signals?: T;
+  recallNumber?: T;
+  recallSource?: T;
+  classification?: T;
+  recallDate?: T;
+  recallingFirm?: T;
+  reason?: T;
+  productDescription?: T;
+  codeInfo?: T;
+  recallUrl?: T;
+  extracted?: T;
+  reviewNotes?: T;
+  alertsSent?: T;
+  reviewedBy?: T;
+  reviewedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "regulatory-changes_select".
@@ -6543,8 +7475,10 @@ export interface RegulatoryChangesSelect<T extends boolean = true> {
     | {
         name?: T;
         casNumber?: T;
+        ingredient?: T;
         id?: T;
       };
+  affectedProducts?: T;
   summary?: T;
   impact?: T;
   recommendedAction?: T;
@@ -6617,6 +7551,7 @@ export interface DeviceFingerprintsSelect<T extends boolean = true> {
   suspiciousActivity?: T;
   suspiciousScore?: T;
   emailsUsed?: T;
+  lastIpAddress?: T;
   totalUnlocks?: T;
   referralCode?: T;
   referredBy?: T;
@@ -6767,6 +7702,7 @@ export interface PushTokensSelect<T extends boolean = true> {
   isActive?: T;
   lastUsed?: T;
   lastActiveAt?: T;
+  timezone?: T;
   lastWinbackNotification?: T;
   failureCount?: T;
   productSubscriptions?:
@@ -6814,11 +7750,26 @@ export interface ReferralsSelect<T extends boolean = true> {
   status?: T;
   firstSubscriptionDate?: T;
   lastRenewalDate?: T;
+  cancelledAt?: T;
+  refundedAt?: T;
   nextCommissionDate?: T;
   totalCommissionPaid?: T;
   yearsActive?: T;
   revenuecatSubscriberId?: T;
+  fraud?:
+    | T
+    | {
+        score?: T;
+        riskLevel?: T;
+        reviewStatus?: T;
+        signals?: T;
+        checkedAt?: T;
+        reviewNotes?: T;
+        reviewedBy?: T;
+        reviewedAt?: T;
+      };
   source?: T;
+  attributionIp?: T;
   notes?: T;
   updatedAt?: T;
   createdAt?: T;
@@ -6834,8 +7785,10 @@ export interface ReferralPayoutsSelect<T extends boolean = true> {
   referralCount?: T;
   period?: T;
   status?: T;
+  heldReferral?: T;
   paymentMethod?: T;
   paymentDetails?: T;
+  payoutRun?: T;
   processedAt?: T;
   transactionId?: T;
   w9Collected?: T;
@@ -6853,6 +7806,41 @@ export interface ReferralPayoutsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payout-runs_select".
+ */
+export interface PayoutRunsSelect<T extends boolean = true> {
+  period?: T;
+  provider?: T;
+  status?: T;
+  minimumAmount?: T;
+  itemCount?: T;
+  payoutCount?: T;
+  totalAmount?: T;
+  items?:
+    | T
+    | {
+        itemId?: T;
+        referrerId?: T;
+        referrerEmail?: T;
+        paymentMethod?: T;
+        destination?: T;
+        amount?: T;
+        payoutIds?: T;
+        status?: T;
+        transactionId?: T;
+        error?: T;
+        id?: T;
+      };
+  skipped?: T;
+  reconciledAt?: T;
+  lastReconciliation?: T;
+  createdBy?: T;
+  notes?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "generated-content_select".
@@ -6968,6 +7956,7 @@ export interface EmailTemplatesSelect<T extends boolean = true> {
   sequence?: T;
   dayInSequence?: T;
   triggerEvent?: T;
+  audienceSegments?: T;
   subject?: T;
   subjectVariantB?: T;
   preheader?: T;
@@ -6989,6 +7978,31 @@ export interface EmailTemplatesSelect<T extends boolean = true> {
         productCardCount?: T;
         includeStats?: T;
       };
+  variants?:
+    | T
+    | {
+        key?: T;
+        weight?: T;
+        subject?: T;
+        preheader?: T;
+        headline?: T;
+        body?: T;
+        ctaText?: T;
+        ctaUrl?: T;
+        id?: T;
+      };
+  experiment?:
+    | T
+    | {
+        metric?: T;
+        confidenceLevel?: T;
+        controlWeight?: T;
+        holdoutHours?: T;
+        minSampleSize?: T;
+        autoPromote?: T;
+        startedAt?: T;
+        concludedAt?: T;
+      };
   stats?:
     | T
     | {
@@ -7286,6 +8300,11 @@ export interface BrandUsersSelect<T extends boolean = true> {
   verifiedBy?: T;
   verificationMethod?: T;
   verificationNotes?: T;
+  invitedBy?: T;
+  inviteTokenHash?: T;
+  inviteExpiresAt?: T;
+  accessRevokedAt?: T;
+  accessRevokedBy?: T;
   subscription?: T;
   subscriptionStartDate?: T;
   subscriptionEndDate?: T;
@@ -7327,6 +8346,48 @@ export interface BrandUsersSelect<T extends boolean = true> {
         expiresAt?: T;
       };
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "brand-api-keys_select".
+ */
+export interface BrandApiKeysSelect<T extends boolean = true> {
+  name?: T;
+  keyPrefix?: T;
+  keyHash?: T;
+  owner?: T;
+  brands?: T;
+  tier?: T;
+  status?: T;
+  expiresAt?: T;
+  replacedBy?: T;
+  revokedAt?: T;
+  revokedBy?: T;
+  monthlyQuota?: T;
+  usagePeriod?: T;
+  periodUsage?: T;
+  usageCount?: T;
+  endpointUsage?: T;
+  lastUsedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "brand-reports_select".
+ */
+export interface BrandReportsSelect<T extends boolean = true> {
+  brand?: T;
+  brandName?: T;
+  edition?: T;
+  issueNumber?: T;
+  periodStart?: T;
+  periodEnd?: T;
+  report?: T;
+  deliveredTo?: T;
+  deliveredAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "search-queries_select".
@@ -7406,6 +8467,54 @@ export interface UserSegmentsSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "segment-memberships_select".
+ */
+export interface SegmentMembershipsSelect<T extends boolean = true> {
+  segment?: T;
+  fingerprint?: T;
+  fingerprintHash?: T;
+  user?: T;
+  enteredAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "segment-events_select".
+ */
+export interface SegmentEventsSelect<T extends boolean = true> {
+  segment?: T;
+  change?: T;
+  fingerprint?: T;
+  fingerprintHash?: T;
+  user?: T;
+  syncedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "revenuecat-events_select".
+ */
+export interface RevenuecatEventsSelect<T extends boolean = true> {
+  eventId?: T;
+  type?: T;
+  appUserId?: T;
+  environment?: T;
+  eventAt?: T;
+  status?: T;
+  attempts?: T;
+  processedAt?: T;
+  error?: T;
+  user?: T;
+  referral?: T;
+  outcome?: T;
+  event?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "feature-flag-cache_select".
@@ -7445,6 +8554,8 @@ export interface ManufacturerDisputesSelect<T extends boolean = true> {
   contactTitle?: T;
   contactEmail?: T;
   contactPhone?: T;
+  brand?: T;
+  submittedBy?: T;
   emailDomainVerified?: T;
   product?: T;
   productReference?: T;
@@ -7465,6 +8576,7 @@ export interface ManufacturerDisputesSelect<T extends boolean = true> {
   labReviewDate?: T;
   reportUpdated?: T;
   updateDescription?: T;
+  suggestedResponse?: T;
   responseToManufacturer?: T;
   responseDate?: T;
   responseSentBy?: T;
@@ -7715,6 +8827,24 @@ export interface PayloadJobsSelect<T extends boolean = true> {
   queue?: T;
   waitUntil?: T;
   processing?: T;
+  progress?:
+    | T
+    | {
+        completed?: T;
+        total?: T;
+        message?: T;
+      };
+  deadLetter?:
+    | T
+    | {
+        deadLettered?: T;
+        reason?: T;
+        attempts?: T;
+        at?: T;
+      };
+  result?: T;
+  requestedBy?: T;
+  retryOf?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -7985,6 +9115,52 @@ export interface PaywallSetting {
   updatedAt?: string | null;
   createdAt?: string | null;
 }
+/**
+ * Tune API rate limits per route without a deploy
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rate-limit-settings".
+ */
+export interface RateLimitSetting {
+  id: number;
+  /**
+   * Store for policies that do not name one. Empty uses the RATE_LIMIT_STORE env var (Vercel KV if unset).
+   */
+  defaultStore?: ('kv' | 'redis' | 'postgres' | 'memory') | null;
+  /**
+   * Route matches are checked first (top to bottom), then policy names. Empty fields keep the code default.
+   */
+  policies?:
+    | {
+        /**
+         * Built-in policy to override (e.g. LOGIN, AI_ANALYSIS) or a label for a route policy
+         */
+        name: string;
+        /**
+         * Disabled rows are ignored and the code default applies
+         */
+        enabled?: boolean | null;
+        /**
+         * One route per line, optionally prefixed with a method: "POST /api/evidence/verify", "/api/mobile/*", "/api/products/:id/vote"
+         */
+        routes?: string | null;
+        algorithm?: ('sliding_window' | 'token_bucket' | 'fixed_window') | null;
+        /**
+         * Requests per window (token bucket: refill rate)
+         */
+        maxRequests?: number | null;
+        windowSeconds?: number | null;
+        /**
+         * Token bucket capacity (defaults to max requests)
+         */
+        burst?: number | null;
+        store?: ('kv' | 'redis' | 'postgres' | 'memory') | null;
+        id?: string | null;
+      }[]
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "header_select".
@@ -8104,6 +9280,209 @@ export interface PaywallSettingsSelect<T extends boolean = true> {
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rate-limit-settings_select".
+ */
+export interface RateLimitSettingsSelect<T extends boolean = true> {
+  defaultStore?: T;
+  policies?:
+    | T
+    | {
+        name?: T;
+        enabled?: T;
+        routes?: T;
+        algorithm?: T;
+        maxRequests?: T;
+        windowSeconds?: T;
+        burst?: T;
+        store?: T;
+        id?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskBatch-enrich".
+ */
+export interface TaskBatchEnrich {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskBackground-remove-batch".
+ */
+export interface TaskBackgroundRemoveBatch {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskImage-internalize".
+ */
+export interface TaskImageInternalize {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskYoutube-sync".
+ */
+export interface TaskYoutubeSync {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskEmbed-products".
+ */
+export interface TaskEmbedProducts {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskRecall-watchdog".
+ */
+export interface TaskRecallWatchdog {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskCampaign-send".
+ */
+export interface TaskCampaignSend {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSegment-refresh".
+ */
+export interface TaskSegmentRefresh {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskBrand-reports".
+ */
+export interface TaskBrandReports {
+  input: {
+    params?:
+      | {
+          [k: string]: unknown;
+        }
+      | unknown[]
+      | string
+      | number
+      | boolean
+      | null;
+  };
+  output: {
+    cancelled?: boolean | null;
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "TaskSchedulePublish".
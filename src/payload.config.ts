@@ -16,7 +16,9 @@ import { Articles } from './collections/Articles'
 import { Videos } from './collections/Videos'
 import { InvestigationPolls } from './collections/InvestigationPolls'
 import { SponsoredTestRequests } from './collections/SponsoredTestRequests'
-// import { Ingredients } from './collections/Ingredients' // REMOVED - Liability Shield
+import { Ingredients } from './collections/Ingredients'
+import { LabImports } from './collections/LabImports'
+import { RecallMatches } from './collections/RecallMatches'
 import { VerdictRules } from './collections/VerdictRules'
 import { AuditLog } from './collections/AuditLog'
 import { Users } from './collections/Users'
@@ -33,6 +35,7 @@ import { PushTokens } from './collections/PushTokens'
 import { Feedback } from './collections/Feedback'
 import { Referrals } from './collections/Referrals'
 import { ReferralPayouts } from './collections/ReferralPayouts'
+import { PayoutRuns } from './collections/PayoutRuns'
 import { GeneratedContent } from './collections/GeneratedContent'
 import { DailyDiscoveries } from './collections/DailyDiscoveries'
 import { EmailTemplates } from './collections/EmailTemplates'
@@ -42,10 +45,14 @@ import { ContributorProfiles } from './collections/ContributorProfiles'
 import { MarketIntelligence } from './collections/MarketIntelligence'
 import { BrandAnalytics } from './collections/BrandAnalytics'
 import { BrandUsers } from './collections/BrandUsers'
+import { BrandApiKeys } from './collections/BrandApiKeys'
+import { BrandReports } from './collections/BrandReports'
 import { SearchQueries } from './collections/SearchQueries'
-import { AdminAuditLogs } from './collections/AuditLogs'
 import { PaywallVariants } from './collections/PaywallVariants'
 import { UserSegments } from './collections/UserSegments'
+import { SegmentMemberships } from './collections/SegmentMemberships'
+import { SegmentEvents } from './collections/SegmentEvents'
+import { RevenueCatEvents } from './collections/RevenueCatEvents'
 import { NotificationCampaigns } from './collections/NotificationCampaigns'
 import { NotificationSends } from './collections/NotificationSends'
 import { FeatureFlagCache } from './collections/FeatureFlagCache'
@@ -83,6 +90,7 @@ import { labelDecodeHandler } from './endpoints/label-decode'
 import { recallWatchdogHandler } from './endpoints/recall-watchdog'
 import { skimpflationDetectorHandler } from './endpoints/skimpflation-detector'
 import { regulatoryMonitorHandler } from './endpoints/regulatory-monitor'
+import { regulatoryImpactHandler } from './endpoints/regulatory-impact'
 import { crowdsourceSubmitHandler, crowdsourceLeaderboardHandler } from './endpoints/crowdsource-submit'
 import { contentAmplifyHandler } from './endpoints/content-amplify'
 import { brandTrustHandler, brandSyncHandler } from './endpoints/brand-trust'
@@ -116,6 +124,7 @@ import { voteSubmissionHandler } from './endpoints/vote-submission'
 import { feedbackHandler } from './endpoints/feedback'
 import { behaviorUpdateHandler } from './endpoints/behavior-update'
 import { revenuecatWebhookHandler } from './endpoints/revenuecat-webhook'
+import { revenuecatLedgerEndpoints } from './endpoints/revenuecat-events'
 import { referralEndpoints } from './endpoints/referral'
 import { businessAnalyticsEndpoint } from './endpoints/business-analytics'
 import { businessAnalyticsExportEndpoint } from './endpoints/business-analytics/export'
@@ -133,6 +142,7 @@ import { emailPreferencesEndpoint, emailPreferencesUpdateEndpoint, emailPreferen
 import { emailTemplatePreviewEndpoint } from './endpoints/email-template-preview'
 import { emailTemplateTestEndpoint } from './endpoints/email-template-test'
 import { emailAnalyticsEndpoint } from './endpoints/email-analytics'
+import { emailABResultsEndpoint } from './endpoints/email-experiments'
 import { mixpanelDashboardEndpoint } from './endpoints/mixpanel-dashboard'
 import { statsigExperimentsHandler } from './endpoints/statsig-experiments'
 import { statsigGatesHandler } from './endpoints/statsig-gates'
@@ -140,27 +150,42 @@ import { userAnalyticsHandler } from './endpoints/user-analytics'
 import { productEngagementAnalyticsHandler } from './endpoints/product-engagement-analytics'
 import { contentModerationHandler } from './endpoints/content-moderation'
 import { cacheStatusHandler } from './endpoints/cache-status'
+import { verdictRuleSimulateHandler } from './endpoints/verdict-rule-simulate'
+import { reportChangelogHandler, reportVersionDiffHandler } from './endpoints/report-history'
+import { labDataImportHandler } from './endpoints/lab-data-import'
+import { evidenceVerifyHandler, evidenceChainHandler } from './endpoints/evidence-verify'
 import { mobileHealthHandler } from './endpoints/mobile-health'
 import { mobileConfigHandler } from './endpoints/mobile-config'
 import { mobileAnalyticsHandler } from './endpoints/mobile-analytics'
 import { mobileErrorsHandler } from './endpoints/mobile-errors'
 import { brandAuthEndpoints } from './endpoints/brand-auth'
 import { brandDashboardEndpoints } from './endpoints/brand-dashboard'
+import { brandTeamEndpoints } from './endpoints/brand-team'
+import { brandApiKeyEndpoints } from './endpoints/brand-api-keys'
+import { brandReportEndpoints } from './endpoints/brand-reports'
+import { brandDisputeEndpoints } from './endpoints/brand-disputes'
 import { brandSubscriptionEndpoints } from './endpoints/brand-subscription'
+import { auditTrailEndpoints } from './endpoints/audit-trail'
 import { apiDocsHandler } from './endpoints/api-docs'
 import { apiStatusEndpoint } from './endpoints/api-status'
 import { searchAutocompleteHandler } from './endpoints/search-autocomplete'
+import { hybridSearchHandler, searchClickHandler } from './endpoints/hybrid-search'
 import { searchAnalyticsEndpoint, logSearchQueryEndpoint } from './endpoints/search-analytics'
 import { paywallConfigHandler, paywallVariantsHandler } from './endpoints/paywall-config'
-import { segmentsEvaluateHandler, segmentsListHandler, segmentsGetHandler } from './endpoints/segments'
-import { campaignSendHandler, campaignStatsHandler, campaignTriggerHandler } from './endpoints/notification-campaign'
+import { segmentsEvaluateHandler, segmentsListHandler, segmentsGetHandler, segmentsMembershipHandler, segmentsEventsHandler } from './endpoints/segments'
+import { campaignFunnelHandler, campaignSendHandler, campaignStatsHandler, campaignTriggerHandler } from './endpoints/notification-campaign'
 import { featureFlagsDashboardHandler, featureFlagsToggleHandler, featureFlagsRolloutHandler, featureFlagsGetGateHandler, featureFlagsClearCacheHandler } from './endpoints/feature-flags'
+import { referralFraudEndpoints } from './endpoints/referral-fraud'
+import { payoutRunEndpoints } from './endpoints/payout-runs'
 import { referralEnhancedStatsHandler, referralLeaderboardHandler, referralMilestonesHandler, referralHistoryHandler, referralAttributeHandler, referralConvertHandler, referralApplyRewardHandler } from './endpoints/referral-enhanced'
 import { adminAnalyticsHandler, adminAnalyticsTimeSeriesHandler, adminAnalyticsTopContentHandler, adminAnalyticsFunnelHandler, adminAnalyticsExportHandler, adminAnalyticsRevenueHandler } from './endpoints/admin-analytics'
 import { featureFlagsSyncHandler } from './endpoints/feature-flags'
 import { YouTubeSettings } from './globals/YouTubeSettings'
 import { SiteSettings } from './globals/SiteSettings'
 import { PaywallSettings } from './globals/PaywallSettings'
+import { RateLimitSettings } from './globals/RateLimitSettings'
+import { jobsListHandler, jobStatusHandler, jobCancelHandler, jobRetryHandler } from './endpoints/jobs'
+import { queueTasks, jobsCollectionOverrides } from './jobs/queue-tasks'
 
 const filename = fileURLToPath(import.meta.url)
 const dirname = path.dirname(filename)
@@ -256,6 +281,10 @@ export default buildConfig({
           Component: '@/components/CacheStatusDashboard',
           path: '/cache-status',
         },
+        'verdict-simulator': {
+          Component: '@/components/VerdictRuleSimulator',
+          path: '/verdict-simulator',
+        },
         'contributor-leaderboard': {
           Component: '@/components/ContributorLeaderboard',
           path: '/contributor-leaderboard',
@@ -336,7 +365,7 @@ export default buildConfig({
     // Always include migrations for production builds
     prodMigrations: migrations,
   }),
-  collections: [Pages, Posts, Products, Articles, Videos, Media, Categories, InvestigationPolls, SponsoredTestRequests, VerdictRules, AuditLog, AdminAuditLogs, Users, PriceHistory, Brands, RegulatoryChanges, UserSubmissions, DeviceFingerprints, ProductUnlocks, TrendingNews, ProductVotes, BountyCategories, PushTokens, Feedback, Referrals, ReferralPayouts, GeneratedContent, DailyDiscoveries, EmailTemplates, EmailSends, NotificationTemplates, NotificationCampaigns, NotificationSends, ContributorProfiles, MarketIntelligence, BrandAnalytics, BrandUsers, SearchQueries, PaywallVariants, UserSegments, FeatureFlagCache, ManufacturerDisputes, WaitlistSignups],
+  collections: [Pages, Posts, Products, Articles, Videos, Media, Categories, InvestigationPolls, SponsoredTestRequests, Ingredients, LabImports, VerdictRules, AuditLog, Users, PriceHistory, Brands, RecallMatches, RegulatoryChanges, UserSubmissions, DeviceFingerprints, ProductUnlocks, TrendingNews, ProductVotes, BountyCategories, PushTokens, Feedback, Referrals, ReferralPayouts, PayoutRuns, GeneratedContent, DailyDiscoveries, EmailTemplates, EmailSends, NotificationTemplates, NotificationCampaigns, NotificationSends, ContributorProfiles, MarketIntelligence, BrandAnalytics, BrandUsers, BrandApiKeys, BrandReports, SearchQueries, PaywallVariants, UserSegments, SegmentMemberships, SegmentEvents, RevenueCatEvents, FeatureFlagCache, ManufacturerDisputes, WaitlistSignups],
   cors: [
     // Main website
     'https://www.theproductreport.org',
@@ -350,7 +379,7 @@ export default buildConfig({
     process.env.NODE_ENV === 'development' ? 'http://localhost:3001' : '',
     process.env.NODE_ENV === 'development' ? 'http://localhost:3002' : '', // Brand portal dev
   ].filter(Boolean) as string[],
-  globals: [Header, Footer, YouTubeSettings, SiteSettings, PaywallSettings],
+  globals: [Header, Footer, YouTubeSettings, SiteSettings, PaywallSettings, RateLimitSettings],
   endpoints: [
     ...oauthEndpoints,
     {
@@ -537,6 +566,11 @@ export default buildConfig({
       method: 'post',
       handler: regulatoryMonitorHandler,
     },
+    {
+      path: '/regulatory/impact',
+      method: 'get',
+      handler: regulatoryImpactHandler,
+    },
     {
       path: '/crowdsource/submit',
       method: 'post',
@@ -748,6 +782,16 @@ export default buildConfig({
       method: 'get',
       handler: segmentsListHandler,
     },
+    {
+      path: '/segments/membership',
+      method: 'get',
+      handler: segmentsMembershipHandler,
+    },
+    {
+      path: '/segments/events',
+      method: 'get',
+      handler: segmentsEventsHandler,
+    },
     {
       path: '/segments/:slug',
       method: 'get',
@@ -764,6 +808,11 @@ export default buildConfig({
       method: 'get',
       handler: campaignStatsHandler,
     },
+    {
+      path: '/campaigns/funnel',
+      method: 'get',
+      handler: campaignFunnelHandler,
+    },
     {
       path: '/campaigns/trigger',
       method: 'post',
@@ -897,8 +946,10 @@ export default buildConfig({
       method: 'post',
       handler: behaviorUpdateHandler,
     },
-    // RevenueCat Webhook - Subscription lifecycle for referral commissions
+    // RevenueCat Webhook - Subscription lifecycle for users and referral commissions
     revenuecatWebhookHandler,
+    // RevenueCat event ledger (replay failed / unmatched events)
+    ...revenuecatLedgerEndpoints,
     // Referral System Endpoints
     ...referralEndpoints,
     // Enhanced Referral Program (Multi-tier, Milestones, Leaderboard)
@@ -938,6 +989,10 @@ export default buildConfig({
       method: 'post',
       handler: referralApplyRewardHandler,
     },
+    // Referral Fraud Review (queue, approve / deny held payouts)
+    ...referralFraudEndpoints,
+    // Referral Payout Runs (batch, export to PayPal / Stripe / ACH, reconcile, 1099 report)
+    ...payoutRunEndpoints,
     // Business Analytics Dashboard
     businessAnalyticsEndpoint,
     businessAnalyticsExportEndpoint,
@@ -982,6 +1037,7 @@ export default buildConfig({
     emailTemplatePreviewEndpoint,
     emailTemplateTestEndpoint,
     emailAnalyticsEndpoint,
+    emailABResultsEndpoint,
     // Mixpanel Analytics Dashboard
     mixpanelDashboardEndpoint,
     // Statsig Experiments Dashboard
@@ -1057,6 +1113,40 @@ export default buildConfig({
       method: 'delete',
       handler: cacheStatusHandler,
     },
+    // Verdict Rule Simulator (dry run, JSON or CSV)
+    {
+      path: '/verdict-simulator',
+      method: 'post',
+      handler: verdictRuleSimulateHandler,
+    },
+    // Report Version History (public changelog + field-level diffs)
+    {
+      path: '/report-history/:productId',
+      method: 'get',
+      handler: reportChangelogHandler,
+    },
+    {
+      path: '/report-history/:productId/diff',
+      method: 'get',
+      handler: reportVersionDiffHandler,
+    },
+    // Lab Data Import (instrument CSV / mzML -> reviewable detections)
+    {
+      path: '/lab-data/import',
+      method: 'post',
+      handler: labDataImportHandler,
+    },
+    // Evidence Verification (public: document hash lookup + report hash chain)
+    {
+      path: '/evidence/verify',
+      method: 'post',
+      handler: evidenceVerifyHandler,
+    },
+    {
+      path: '/evidence/chain/:productId',
+      method: 'get',
+      handler: evidenceChainHandler,
+    },
     // Mobile App Endpoints
     {
       path: '/mobile/health',
@@ -1082,8 +1172,17 @@ export default buildConfig({
     ...brandAuthEndpoints,
     // Brand Portal Dashboard
     ...brandDashboardEndpoints,
+    // Brand Portal Team & API Keys
+    ...brandTeamEndpoints,
+    ...brandApiKeyEndpoints,
+    // Brand Portal Benchmark Reports
+    ...brandReportEndpoints,
+    // Brand Portal Disputes (Right of Reply)
+    ...brandDisputeEndpoints,
     // Brand Portal Subscription
     ...brandSubscriptionEndpoints,
+    // Audit Trail (timeline & revert)
+    ...auditTrailEndpoints,
     // API Documentation
     {
       path: '/docs',
@@ -1096,6 +1195,22 @@ export default buildConfig({
       method: 'get',
       handler: searchAutocompleteHandler,
     },
+    // Hybrid Search (keyword + semantic, facets, click feedback)
+    {
+      path: '/search/hybrid',
+      method: 'get',
+      handler: hybridSearchHandler,
+    },
+    {
+      path: '/search/hybrid',
+      method: 'post',
+      handler: hybridSearchHandler,
+    },
+    {
+      path: '/search/click',
+      method: 'post',
+      handler: searchClickHandler,
+    },
     // API Status
     apiStatusEndpoint,
     // Search Analytics
@@ -1133,6 +1248,27 @@ export default buildConfig({
       method: 'get',
       handler: adminAnalyticsRevenueHandler,
     },
+    // Job Queue (monitor, status polling, cancel, dead-letter retry)
+    {
+      path: '/jobs',
+      method: 'get',
+      handler: jobsListHandler,
+    },
+    {
+      path: '/jobs/:id',
+      method: 'get',
+      handler: jobStatusHandler,
+    },
+    {
+      path: '/jobs/:id/cancel',
+      method: 'post',
+      handler: jobCancelHandler,
+    },
+    {
+      path: '/jobs/:id/retry',
+      method: 'post',
+      handler: jobRetryHandler,
+    },
   ],
   plugins: [
     ...plugins,
@@ -1156,16 +1292,21 @@ export default buildConfig({
   jobs: {
     access: {
       run: ({ req }: { req: PayloadRequest }): boolean => {
-        // Allow logged in users to execute this endpoint (default)
-        if (req.user) return true
+        // Site admins only - tasks include heavy jobs (enrichment, syncs,
+        // campaign sends). A brand portal 'admin' is not a site admin.
+        const user = req.user as { collection?: string; role?: string } | null
+        if (user?.collection === 'users' && user.role === 'admin') return true
 
-        // If there is no logged in user, then check
-        // for the Vercel Cron secret to be present as an
-        // Authorization header:
-        const authHeader = req.headers.get('authorization')
-        return authHeader === `Bearer ${process.env.CRON_SECRET}`
+        // Otherwise the Vercel Cron secret must be set and sent as an
+        // Authorization header
+        const cronSecret = process.env.CRON_SECRET
+        if (!cronSecret) return false
+        return req.headers.get('authorization') === `Bearer ${cronSecret}`
       },
     },
-    tasks: [],
+    tasks: queueTasks,
+    // Keep finished jobs so admin UIs can read results; pruned by the cleanup cron
+    deleteJobOnComplete: false,
+    jobsCollectionOverrides,
   },
 })
@@ -19,7 +19,9 @@ interface PriceRecord {
     pricePerUnit?: number
     size?: string
     sizeNormalized?: number
+    unitCount?: number
     ingredientsSnapshot?: string
+    ingredientsSource?: 'retailer' | 'product' | null
     ingredientCount?: number
     capturedAt: string
     retailer: string
@@ -53,6 +55,49 @@ const THRESHOLDS = {
     INGREDIENT_DECREASE_HIGH: 3, // 3+ ingredients removed
 }
 
+/**
+ * Package quantity of both records on a common basis: size × unit count when
+ * both know their unit count, size alone otherwise, unit count alone when
+ * neither has a size (100 → 90 capsules)
+ */
+function comparableQuantities(previous: PriceRecord, current: PriceRecord): [number, number] | null {
+    const previousCount = previous.unitCount || 0
+    const currentCount = current.unitCount || 0
+    const bothCounted = previousCount > 0 && currentCount > 0
+    if (previous.sizeNormalized && current.sizeNormalized) {
+        return bothCounted
+            ? [previous.sizeNormalized * previousCount, current.sizeNormalized * currentCount]
+            : [previous.sizeNormalized, current.sizeNormalized]
+    }
+    if (bothCounted && !previous.sizeNormalized && !current.sizeNormalized) {
+        return [previousCount, currentCount]
+    }
+    return null
+}
+
+/**
+ * Number of ingredients in a panel. Only top-level commas/semicolons count,
+ * so "Fish gelatin softgel (fish gelatin, glycerin)" is one ingredient.
+ */
+export function countIngredients(panel: string): number {
+    let depth = 0
+    let count = 0
+    let current = ''
+    for (const char of panel) {
+        if ('([{'.includes(char)) depth++
+        else if (')]}'.includes(char)) depth = Math.max(0, depth - 1)
+
+        if (depth === 0 && (char === ',' || char === ';')) {
+            if (current.trim()) count++
+            current = ''
+        } else {
+            current += char
+        }
+    }
+    if (current.replace(/[.\s]/g, '')) count++
+    return count
+}
+
 /**
  * Compare two price records to detect anomalies
  */
@@ -77,18 +122,24 @@ export function detectAnomaly(
     result.details.currentPrice = current.price
     result.details.priceChangePercent = Math.round(priceChangePercent * 10) / 10
 
-    // Calculate size change (if normalized sizes available)
+    // Calculate size change (if comparable quantities available)
     let sizeChangePercent = 0
-    if (previous.sizeNormalized && current.sizeNormalized && previous.sizeNormalized > 0) {
-        sizeChangePercent = ((current.sizeNormalized - previous.sizeNormalized) / previous.sizeNormalized) * 100
-        result.details.previousSize = previous.sizeNormalized
-        result.details.currentSize = current.sizeNormalized
+    const quantities = comparableQuantities(previous, current)
+    if (quantities && quantities[0] > 0) {
+        const [previousSize, currentSize] = quantities
+        sizeChangePercent = ((currentSize - previousSize) / previousSize) * 100
+        result.details.previousSize = previousSize
+        result.details.currentSize = currentSize
         result.details.sizeChangePercent = Math.round(sizeChangePercent * 10) / 10
     }
 
-    // Calculate ingredient change
-    const ingredientsDiff = (previous.ingredientCount || 0) - (current.ingredientCount || 0)
-    if (previous.ingredientCount && current.ingredientCount) {
+    // Calculate ingredient change (a retailer panel and our own record
+    // list ingredients differently, so only like is compared with like)
+    const sameIngredientSource = (previous.ingredientsSource || null) === (current.ingredientsSource || null)
+    const ingredientsDiff = sameIngredientSource
+        ? (previous.ingredientCount || 0) - (current.ingredientCount || 0)
+        : 0
+    if (sameIngredientSource && previous.ingredientCount && current.ingredientCount) {
         result.details.previousIngredientCount = previous.ingredientCount
         result.details.currentIngredientCount = current.ingredientCount
         result.details.ingredientsDiff = ingredientsDiff
@@ -167,10 +218,13 @@ export async function analyzeProductPriceHistory(
     const records = history.docs as unknown as PriceRecord[]
     const anomalies: Array<AnomalyResult & { date: string; recordId: number }> = []
 
-    // Compare each record to the previous one
-    for (let i = 1; i < records.length; i++) {
-        const previous = records[i - 1]
-        const current = records[i]
+    // Compare each record to the previous one from the same retailer
+    const previousByRetailer = new Map<string, PriceRecord>()
+    for (const current of records) {
+        const previous = previousByRetailer.get(current.retailer)
+        previousByRetailer.set(current.retailer, current)
+        if (!previous) continue
+
         const result = detectAnomaly(previous, current)
 
         if (result.detected) {
@@ -0,0 +1,528 @@
+/**
+ * Audit Trail
+ *
+ * Helpers for the unified audit-log collection:
+ * - Snapshots: the changed fields of an admin change, with full values
+ * - Diffs: field-level before / after for any entry
+ * - Timeline: filters by document, actor, action, operation and date
+ * - Revert: restore the prior values of a change through Payload, recorded
+ *   as its own audit entry (linked via revertOf)
+ *
+ * Entries migrated from the old admin audit log only kept truncated values,
+ * so they can be viewed but not reverted. Deleted documents are recreated
+ * under a new id, so they're only restored when nothing else points at them
+ * and no password is needed.
+ */
+
+import type { CollectionSlug, Field, GlobalSlug, PayloadRequest, SanitizedCollectionConfig, Where } from 'payload'
+import type { AuditLog } from '../payload-types'
+
+export interface AuditFieldChange {
+    field: string
+    before: unknown
+    after: unknown
+    kind: 'added' | 'removed' | 'changed'
+}
+
+export interface AuditSnapshot {
+    before: Record<string, unknown>
+    after: Record<string, unknown>
+}
+
+/** Admin change actions that can be reverted */
+export const REVERTIBLE_ACTIONS = ['create', 'update', 'delete', 'settings_change'] as const
+
+/** Bookkeeping fields that never count as a change */
+const IGNORED_FIELDS = ['id', 'updatedAt', 'createdAt', '_status', 'version']
+
+/** On create, only these fields are recorded (the document itself is the record) */
+const CREATE_SUMMARY_FIELDS = ['name', 'title', 'slug', 'email', 'status', 'isActive']
+
+// ============================================
+// SNAPSHOTS & DIFFS
+// ============================================
+
+/**
+ * A populated relationship or upload, as opposed to an array row or group
+ */
+function isPopulatedDoc(value: Record<string, unknown>): boolean {
+    return (typeof value.id === 'number' || typeof value.id === 'string')
+        && 'createdAt' in value && 'updatedAt' in value
+}
+
+/**
+ * Normalize a field value for storage and comparison: populated documents
+ * become their ids, so depth doesn't show up as a change
+ */
+export function toAuditValue(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString()
+    if (Array.isArray(value)) return value.map(toAuditValue)
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>
+        if (isPopulatedDoc(record)) return record.id
+        return Object.fromEntries(Object.entries(record).map(([key, v]) => [key, toAuditValue(v)]))
+    }
+    return value
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * The changed top-level fields between two versions of a document, with
+ * full values on both sides. Returns null when nothing changed.
+ *
+ * - Create (no previous): the identifying fields of the new document
+ * - Delete (no next): the whole previous document, so it can be restored
+ */
+export function snapshotChanges(
+    previous: Record<string, unknown> | null | undefined,
+    next: Record<string, unknown> | null | undefined
+): AuditSnapshot | null {
+    const before: Record<string, unknown> = {}
+    const after: Record<string, unknown> = {}
+
+    if (!previous && next) {
+        for (const field of CREATE_SUMMARY_FIELDS) {
+            if (next[field] !== undefined) after[field] = toAuditValue(next[field])
+        }
+        return { before, after }
+    }
+
+    if (previous && !next) {
+        for (const [field, value] of Object.entries(previous)) {
+            if (field !== 'id') before[field] = toAuditValue(value)
+        }
+        return { before, after }
+    }
+
+    if (!previous || !next) return null
+
+    for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+        if (IGNORED_FIELDS.includes(field)) continue
+        const oldValue = toAuditValue(previous[field])
+        const newValue = toAuditValue(next[field])
+        if (sameValue(oldValue, newValue)) continue
+        before[field] = oldValue ?? null
+        after[field] = newValue ?? null
+    }
+
+    return Object.keys(after).length > 0 ? { before, after } : null
+}
+
+/**
+ * Field-level diff of an audit entry's before / after
+ */
+export function diffAuditEntry(entry: { before?: unknown; after?: unknown }): AuditFieldChange[] {
+    const before = (entry.before && typeof entry.before === 'object' ? entry.before : {}) as Record<string, unknown>
+    const after = (entry.after && typeof entry.after === 'object' ? entry.after : {}) as Record<string, unknown>
+
+    const changes: AuditFieldChange[] = []
+    for (const field of new Set([...Object.keys(before), ...Object.keys(after)])) {
+        const hasBefore = field in before && before[field] !== null
+        const hasAfter = field in after && after[field] !== null
+        if (hasBefore && hasAfter && sameValue(before[field], after[field])) continue
+        changes.push({
+            field,
+            before: before[field] ?? null,
+            after: after[field] ?? null,
+            kind: !hasBefore ? 'added' : !hasAfter ? 'removed' : 'changed',
+        })
+    }
+    return changes
+}
+
+/**
+ * Human-readable summary of an admin change
+ */
+export function summarizeChange(action: string, fields: string[], title?: string): string {
+    if (action === 'create') return `Created ${title || 'document'}`
+    if (action === 'delete') return `Deleted ${title || 'document'}`
+    if (fields.length === 0) return 'No significant changes detected'
+    if (fields.length <= 3) return `Updated: ${fields.join(', ')}`
+    return `Updated ${fields.length} fields`
+}
+
+/**
+ * Title of a document for the timeline
+ */
+export function documentTitleOf(doc: Record<string, unknown> | null | undefined): string | undefined {
+    if (!doc) return undefined
+    for (const field of ['name', 'title', 'slug', 'email']) {
+        if (typeof doc[field] === 'string' && doc[field]) return doc[field] as string
+    }
+    return undefined
+}
+
+// ============================================
+// TIMELINE
+// ============================================
+
+export interface AuditTimelineFilters {
+    collection?: string
+    documentId?: number
+    /** User id, email, or 'system' for entries without a user */
+    actor?: string
+    actions?: string[]
+    operation?: string
+    from?: string
+    to?: string
+}
+
+function parseDate(value: string | null): string | undefined {
+    if (!value) return undefined
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Read timeline filters from query params:
+ * ?collection=products&documentId=12&actor=jane@example.com&action=update,delete&from=2026-01-01&to=2026-01-31&operation=...
+ */
+export function parseAuditTimelineQuery(params: URLSearchParams): AuditTimelineFilters {
+    const filters: AuditTimelineFilters = {}
+
+    const collection = params.get('collection')?.trim()
+    if (collection) filters.collection = collection
+
+    const documentId = Number(params.get('documentId'))
+    if (Number.isInteger(documentId) && documentId > 0) filters.documentId = documentId
+
+    const actor = params.get('actor')?.trim()
+    if (actor) filters.actor = actor
+
+    const actions = params.getAll('action')
+        .flatMap(value => value.split(','))
+        .map(value => value.trim())
+        .filter(Boolean)
+    if (actions.length > 0) filters.actions = [...new Set(actions)]
+
+    const operation = params.get('operation')?.trim()
+    if (operation) filters.operation = operation
+
+    const from = parseDate(params.get('from'))
+    if (from) filters.from = from
+
+    // A bare date includes the whole day
+    const toParam = params.get('to')
+    const to = parseDate(toParam)
+    if (to) {
+        filters.to = toParam && /^\d{4}-\d{2}-\d{2}$/.test(toParam)
+            ? new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000 - 1).toISOString()
+            : to
+    }
+
+    return filters
+}
+
+export function buildAuditTimelineWhere(filters: AuditTimelineFilters): Where {
+    const conditions: Where[] = []
+
+    if (filters.collection) conditions.push({ targetCollection: { equals: filters.collection } })
+    if (filters.documentId) conditions.push({ targetId: { equals: filters.documentId } })
+
+    if (filters.actor === 'system') {
+        conditions.push({ performedBy: { exists: false } })
+    } else if (filters.actor && /^\d+$/.test(filters.actor)) {
+        conditions.push({ performedBy: { equals: Number(filters.actor) } })
+    } else if (filters.actor) {
+        conditions.push({ actorEmail: { equals: filters.actor.toLowerCase() } })
+    }
+
+    if (filters.actions?.length === 1) conditions.push({ action: { equals: filters.actions[0] } })
+    if (filters.actions && filters.actions.length > 1) conditions.push({ action: { in: filters.actions } })
+    if (filters.operation) conditions.push({ operation: { equals: filters.operation } })
+    if (filters.from) conditions.push({ createdAt: { greater_than_equal: filters.from } })
+    if (filters.to) conditions.push({ createdAt: { less_than_equal: filters.to } })
+
+    return conditions.length > 0 ? { and: conditions } : {}
+}
+
+// ============================================
+// REVERT
+// ============================================
+
+export type RevertPlan =
+    | { kind: 'update'; collection: string; id: number; data: Record<string, unknown> }
+    | { kind: 'restore'; collection: string; data: Record<string, unknown> }
+    | { kind: 'delete'; collection: string; id: number }
+    | { kind: 'global'; slug: string; data: Record<string, unknown> }
+
+export type RevertFailure = {
+    ok: false
+    status: number
+    code: 'NOT_REVERTIBLE' | 'DOCUMENT_GONE' | 'DOCUMENT_EXISTS' | 'CONFLICT' | 'ALREADY_REVERTED' | 'NOT_FOUND'
+    error: string
+    conflicts?: AuditFieldChange[]
+}
+
+type AuditEntry = Pick<AuditLog, 'id' | 'action' | 'targetType' | 'targetCollection' | 'targetId' | 'before' | 'after' | 'metadata' | 'success'>
+
+/** The collection configs restores are checked against (payload.config.collections) */
+export type RevertCollections = Array<Pick<SanitizedCollectionConfig, 'slug' | 'auth' | 'fields'>>
+
+function relatesTo(fields: Field[], slug: string): boolean {
+    return fields.some(field => {
+        if (field.type === 'relationship' || field.type === 'upload') {
+            const relationTo = Array.isArray(field.relationTo) ? field.relationTo : [field.relationTo]
+            if ((relationTo as string[]).includes(slug)) return true
+        }
+        if ('fields' in field && relatesTo(field.fields, slug)) return true
+        if (field.type === 'tabs') return field.tabs.some(tab => relatesTo(tab.fields, slug))
+        if (field.type === 'blocks') return field.blocks.some(block => relatesTo(block.fields, slug))
+        return false
+    })
+}
+
+/**
+ * Why a deleted document can't be restored faithfully. A restore gets a new
+ * id, so collections other documents relate to are refused (Payload's own
+ * collections, which relate to everything, aside), as are auth collections,
+ * whose password hashes aren't in the snapshot.
+ */
+function restoreBlocker(slug: string, collections: RevertCollections): string | null {
+    if (collections.find(collection => collection.slug === slug)?.auth) {
+        return 'Deleted accounts cannot be restored - their password is not kept'
+    }
+    const referencedBy = collections
+        .filter(collection => !collection.slug.startsWith('payload-') && relatesTo(collection.fields, slug))
+        .map(collection => collection.slug)
+    if (referencedBy.length > 0) {
+        return `A restored document gets a new id, which ${referencedBy.join(', ')} would no longer point at`
+    }
+    return null
+}
+
+/**
+ * Why an entry can't be reverted, or null if it can
+ */
+export function revertBlocker(entry: AuditEntry, collections: RevertCollections): string | null {
+    if (!(REVERTIBLE_ACTIONS as readonly string[]).includes(entry.action)) {
+        return `${entry.action} entries cannot be reverted`
+    }
+    if (entry.success === false) return 'Failed actions cannot be reverted'
+    if (!entry.targetCollection) return 'Entry has no target'
+    if ((entry.metadata as { legacy?: boolean } | null)?.legacy) {
+        return 'Entries from the old admin audit log only kept truncated values'
+    }
+    if (entry.action !== 'create' && (!entry.before || typeof entry.before !== 'object')) {
+        return 'Entry has no prior values'
+    }
+    if (entry.targetType !== 'global' && !entry.targetId) return 'Entry has no target document'
+    if (entry.action === 'delete') return restoreBlocker(entry.targetCollection, collections)
+    return null
+}
+
+/**
+ * Work out how to undo an entry, given the target's current state (null if
+ * it no longer exists). Updates are refused when a field has changed again
+ * since, unless forced.
+ */
+export function planRevert(
+    entry: AuditEntry,
+    current: Record<string, unknown> | null,
+    collections: RevertCollections,
+    options: { force?: boolean } = {}
+): { ok: true; plan: RevertPlan } | RevertFailure {
+    const blocker = revertBlocker(entry, collections)
+    if (blocker) return { ok: false, status: 400, code: 'NOT_REVERTIBLE', error: blocker }
+
+    const collection = entry.targetCollection as string
+    const id = entry.targetId as number
+    const before = (entry.before || {}) as Record<string, unknown>
+
+    if (entry.action === 'create') {
+        if (!current) return { ok: false, status: 409, code: 'DOCUMENT_GONE', error: 'The created document no longer exists' }
+        return { ok: true, plan: { kind: 'delete', collection, id } }
+    }
+
+    if (entry.action === 'delete') {
+        if (current) return { ok: false, status: 409, code: 'DOCUMENT_EXISTS', error: 'The deleted document still exists' }
+        // Recreated under a new id; timestamps are the new document's own
+        const data = Object.fromEntries(Object.entries(before).filter(([field]) => !['id', 'createdAt', 'updatedAt'].includes(field)))
+        return { ok: true, plan: { kind: 'restore', collection, data } }
+    }
+
+    if (!current) return { ok: false, status: 409, code: 'DOCUMENT_GONE', error: 'The document no longer exists' }
+
+    // update / settings_change: fields changed again since can't be silently overwritten
+    const after = (entry.after || {}) as Record<string, unknown>
+    const conflicts = Object.keys(before)
+        .filter(field => !sameValue(toAuditValue(current[field]), after[field]))
+        .map((field): AuditFieldChange => ({
+            field,
+            before: after[field] ?? null,
+            after: toAuditValue(current[field]) ?? null,
+            kind: 'changed',
+        }))
+    if (conflicts.length > 0 && !options.force) {
+        return {
+            ok: false,
+            status: 409,
+            code: 'CONFLICT',
+            error: `Changed again since: ${conflicts.map(c => c.field).join(', ')}. Revert with force to overwrite.`,
+            conflicts,
+        }
+    }
+
+    return entry.targetType === 'global'
+        ? { ok: true, plan: { kind: 'global', slug: collection, data: before } }
+        : { ok: true, plan: { kind: 'update', collection, id, data: before } }
+}
+
+export interface RevertResult {
+    ok: true
+    revertEntryId: number
+    kind: RevertPlan['kind']
+    documentId: number | null
+}
+
+async function loadCurrent(req: PayloadRequest, entry: AuditEntry): Promise<Record<string, unknown> | null> {
+    if (entry.targetType === 'global') {
+        return await req.payload.findGlobal({
+            slug: entry.targetCollection as GlobalSlug,
+            depth: 0,
+            overrideAccess: true,
+        }) as unknown as Record<string, unknown>
+    }
+    return await req.payload.findByID({
+        collection: entry.targetCollection as CollectionSlug,
+        id: entry.targetId as number,
+        depth: 0,
+        overrideAccess: true,
+    }).catch(() => null) as Record<string, unknown> | null
+}
+
+/**
+ * Revert an audit entry through Payload (so hooks and validation run) and
+ * record the revert as its own entry. The audit hooks stay quiet for the
+ * write itself (context.auditRevertOf) so it isn't logged twice.
+ */
+export async function revertAuditEntry(
+    req: PayloadRequest,
+    entryId: number,
+    options: { force?: boolean } = {}
+): Promise<RevertResult | RevertFailure> {
+    const { payload } = req
+    const entry = await payload.findByID({
+        collection: 'audit-log',
+        id: entryId,
+        depth: 0,
+        overrideAccess: true,
+    }).catch(() => null)
+    if (!entry) return { ok: false, status: 404, code: 'NOT_FOUND', error: 'Audit entry not found' }
+
+    const blocker = revertBlocker(entry, payload.config.collections)
+    if (blocker) return { ok: false, status: 400, code: 'NOT_REVERTIBLE', error: blocker }
+
+    if (!options.force) {
+        const { totalDocs } = await payload.count({
+            collection: 'audit-log',
+            where: { revertOf: { equals: entry.id } },
+            overrideAccess: true,
+        })
+        if (totalDocs > 0) {
+            return { ok: false, status: 409, code: 'ALREADY_REVERTED', error: 'This change has already been reverted' }
+        }
+    }
+
+    const current = await loadCurrent(req, entry)
+    const planned = planRevert(entry, current, payload.config.collections, options)
+    if (!planned.ok) return planned
+    const { plan } = planned
+
+    const context = { auditRevertOf: entry.id }
+    let documentId: number | null = null
+    let snapshot: AuditSnapshot
+    let action: string
+    let title = documentTitleOf(current)
+
+    if (plan.kind === 'update') {
+        await payload.update({
+            collection: plan.collection as CollectionSlug,
+            id: plan.id,
+            data: plan.data,
+            depth: 0,
+            overrideAccess: true,
+            req,
+            context,
+        })
+        documentId = plan.id
+        action = 'update'
+        snapshot = {
+            before: Object.fromEntries(Object.keys(plan.data).map(field => [field, toAuditValue(current?.[field]) ?? null])),
+            after: plan.data,
+        }
+    } else if (plan.kind === 'global') {
+        await payload.updateGlobal({
+            slug: plan.slug as GlobalSlug,
+            data: plan.data,
+            depth: 0,
+            overrideAccess: true,
+            req,
+            context,
+        })
+        action = 'settings_change'
+        title = plan.slug
+        snapshot = {
+            before: Object.fromEntries(Object.keys(plan.data).map(field => [field, toAuditValue(current?.[field]) ?? null])),
+            after: plan.data,
+        }
+    } else if (plan.kind === 'delete') {
+        await payload.delete({
+            collection: plan.collection as CollectionSlug,
+            id: plan.id,
+            overrideAccess: true,
+            req,
+            context,
+        })
+        documentId = plan.id
+        action = 'delete'
+        snapshot = snapshotChanges(current, null) as AuditSnapshot
+    } else {
+        const restored = await payload.create({
+            collection: plan.collection as CollectionSlug,
+            data: plan.data,
+            depth: 0,
+            overrideAccess: true,
+            req,
+            context,
+        }) as unknown as Record<string, unknown>
+        documentId = restored.id as number
+        action = 'create'
+        title = documentTitleOf(plan.data)
+        snapshot = snapshotChanges(null, restored) as AuditSnapshot
+    }
+
+    const user = req.user as { id?: number; email?: string } | null
+    const revertEntry = await payload.create({
+        collection: 'audit-log',
+        data: {
+            action: action as AuditLog['action'],
+            sourceType: 'manual',
+            targetType: entry.targetType || 'collection',
+            targetCollection: entry.targetCollection,
+            targetId: documentId,
+            targetName: title,
+            summary: `Reverted #${entry.id}: ${summarizeChange(action, Object.keys(snapshot.after), title)}`,
+            before: snapshot.before,
+            after: snapshot.after,
+            metadata: {
+                revertedAction: entry.action,
+                forced: !!options.force,
+                ...(plan.kind === 'restore' && { originalId: entry.targetId }),
+            },
+            performedBy: user?.id,
+            actorEmail: user?.email,
+            revertOf: entry.id,
+            success: true,
+        },
+        overrideAccess: true,
+        req,
+    })
+
+    console.log(`[AuditTrail] ${user?.email || 'system'} reverted #${entry.id} (${plan.kind} ${entry.targetCollection}${documentId ? ` ${documentId}` : ''})`)
+
+    return { ok: true, revertEntryId: revertEntry.id, kind: plan.kind, documentId }
+}
@@ -19,6 +19,8 @@ export interface BarcodeProduct {
     description?: string
     imageUrl?: string
     ingredients?: string
+    /** Our verdict - local products only */
+    verdict?: string
     nutritionFacts?: {
         servingSize?: string
         calories?: number
@@ -128,6 +130,7 @@ async function lookupLocal(barcode: string, payload: Payload): Promise<BarcodeRe
                 brand?: string
                 description?: string
                 ingredientsRaw?: string
+                verdict?: string
                 upc?: string
                 image?: { url?: string } | number
             }
@@ -140,6 +143,7 @@ async function lookupLocal(barcode: string, payload: Payload): Promise<BarcodeRe
                     brand: product.brand,
                     description: product.description,
                     ingredients: product.ingredientsRaw,
+                    verdict: product.verdict,
                     imageUrl: typeof product.image === 'object' ? product.image?.url : undefined,
                     source: 'local',
                     confidence: 1.0,
@@ -0,0 +1,264 @@
+import crypto from 'crypto'
+import type { Payload, PayloadRequest } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import type { BrandApiKey, BrandUser } from '../payload-types'
+
+/**
+ * Brand Portal Access
+ *
+ * Shared rules for the Brand Intelligence Portal:
+ * - subscription tier -> feature flags (also applied by the BrandUsers hook)
+ * - team role hierarchy: who may invite, re-role or revoke whom
+ * - API keys: generation, hashing, header parsing, authentication and
+ *   per-key monthly metering
+ *
+ * API keys are stored as SHA-256 hashes with a short display prefix. A key
+ * is scoped to the brands chosen when it was issued and to the issuer's tier
+ * at that time - it never gains features when the issuer upgrades, and loses
+ * them when the issuer downgrades or has their portal access revoked.
+ */
+
+// ============================================
+// TIERS & FEATURES
+// ============================================
+
+export type BrandTier = BrandUser['subscription']
+export type BrandRole = BrandUser['role']
+
+export interface BrandFeatures {
+    canViewCompetitors: boolean
+    canExportData: boolean
+    canAccessApi: boolean
+    canViewDemandSignals: boolean
+    canManageTeam: boolean
+}
+
+const TIER_ORDER: BrandTier[] = ['free', 'starter', 'pro', 'enterprise']
+
+/** Monthly API request allowance for new keys (admins can raise it per key) */
+export const DEFAULT_MONTHLY_API_QUOTA = 100000
+
+export function featuresForTier(tier: BrandTier, role: BrandRole | null | undefined): BrandFeatures {
+    const proOrAbove = tier === 'pro' || tier === 'enterprise'
+    return {
+        canViewCompetitors: proOrAbove,
+        canExportData: proOrAbove,
+        canAccessApi: tier === 'enterprise',
+        canViewDemandSignals: proOrAbove,
+        canManageTeam: role === 'owner' || role === 'admin',
+    }
+}
+
+/**
+ * The lower of two tiers - a key issued on Pro stays Pro after an upgrade.
+ */
+export function lowerTier(a: BrandTier, b: BrandTier): BrandTier {
+    return TIER_ORDER.indexOf(a) <= TIER_ORDER.indexOf(b) ? a : b
+}
+
+// ============================================
+// TEAM ROLES
+// ============================================
+
+const ROLE_RANK: Record<BrandRole, number> = {
+    owner: 3,
+    admin: 2,
+    analyst: 1,
+    viewer: 0,
+}
+
+export const BRAND_ROLES = Object.keys(ROLE_RANK) as BrandRole[]
+
+export function isBrandRole(value: unknown): value is BrandRole {
+    return typeof value === 'string' && value in ROLE_RANK
+}
+
+/**
+ * Whether `actor` may give a team member `newRole`. Owners manage everyone;
+ * admins manage analysts and viewers and may grant up to admin. Pass null
+ * for `currentRole` when inviting.
+ */
+export function canAssignRole(actor: BrandRole, currentRole: BrandRole | null, newRole: BrandRole): boolean {
+    if (actor === 'owner') return true
+    if (actor !== 'admin') return false
+    if (currentRole && ROLE_RANK[currentRole] >= ROLE_RANK[actor]) return false
+    return ROLE_RANK[newRole] <= ROLE_RANK[actor]
+}
+
+/**
+ * Whether `actor` may revoke a member with `targetRole`.
+ */
+export function canRevokeMember(actor: BrandRole, targetRole: BrandRole): boolean {
+    if (actor === 'owner') return true
+    return actor === 'admin' && ROLE_RANK[targetRole] < ROLE_RANK[actor]
+}
+
+// ============================================
+// PORTAL PRINCIPALS
+// ============================================
+
+/**
+ * The caller of a brand portal endpoint - a signed-in brand user, or the
+ * issuer of an API key narrowed to the key's brands and tier.
+ */
+export interface BrandPrincipal {
+    id: number
+    brand: number
+    additionalBrands: number[]
+    role: BrandRole
+    subscription: BrandTier
+    features: BrandFeatures
+    isVerified: boolean
+    apiKeyId?: number
+}
+
+export function relationId(value: number | { id: number } | null | undefined): number | null {
+    if (value === null || value === undefined) return null
+    return typeof value === 'object' ? value.id : value
+}
+
+/** Every brand id the user can see */
+export function brandIdsOf(user: Pick<BrandUser, 'brand' | 'additionalBrands'>): number[] {
+    const ids = [relationId(user.brand), ...(user.additionalBrands || []).map(relationId)]
+    return [...new Set(ids.filter((id): id is number => id !== null))]
+}
+
+/**
+ * The signed-in brand user, when verified and not revoked.
+ */
+export function getBrandSessionUser(req: PayloadRequest): BrandUser | null {
+    const user = req.user as (BrandUser & { collection?: string }) | null | undefined
+    if (!user || user.collection !== 'brand-users') return null
+    if (!user.isVerified || user.accessRevokedAt) return null
+    return user
+}
+
+// ============================================
+// API KEYS
+// ============================================
+
+const KEY_PREFIX = 'tprb_'
+const KEY_PATTERN = /^tprb_[A-Za-z0-9_-]{40,}$/
+const DISPLAY_PREFIX_LENGTH = 13
+
+export interface GeneratedApiKey {
+    /** Shown to the user once, never stored */
+    key: string
+    keyHash: string
+    keyPrefix: string
+}
+
+export function hashApiKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export function generateApiKey(): GeneratedApiKey {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+    return { key, keyHash: hashApiKey(key), keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH) }
+}
+
+/**
+ * Read a brand API key from `X-API-Key` or `Authorization: Bearer`.
+ */
+export function readApiKey(headers: Headers): string | null {
+    const header = headers.get('x-api-key')?.trim()
+        || headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1]
+    return header && KEY_PATTERN.test(header) ? header : null
+}
+
+export interface ApiKeyAuthResult {
+    principal?: BrandPrincipal
+    error?: string
+    status?: number
+}
+
+/** Monthly usage period key, e.g. "2026-02" */
+export function usagePeriod(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 7)
+}
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Record<string, unknown>[] }>
+
+function getExecute(payload: Payload): Execute {
+    const adapter = payload.db as unknown as { drizzle: { execute: Execute } }
+    return adapter.drizzle.execute.bind(adapter.drizzle)
+}
+
+/**
+ * Count one request against a key, per endpoint and month. Returns false
+ * when the key has used its monthly quota (the request is not counted).
+ */
+export async function recordApiKeyUsage(payload: Payload, keyId: number, endpoint: string): Promise<boolean> {
+    const period = usagePeriod()
+    const { rows } = await getExecute(payload)(sql`
+        UPDATE "brand_api_keys" SET
+            "usage_count" = COALESCE("usage_count", 0) + 1,
+            "period_usage" = CASE WHEN "usage_period" = ${period} THEN COALESCE("period_usage", 0) + 1 ELSE 1 END,
+            "endpoint_usage" = jsonb_set(
+                CASE WHEN "usage_period" = ${period} THEN COALESCE("endpoint_usage", '{}'::jsonb) ELSE '{}'::jsonb END,
+                ARRAY[${endpoint}],
+                to_jsonb(CASE WHEN "usage_period" = ${period} THEN COALESCE(("endpoint_usage" ->> ${endpoint})::int, 0) ELSE 0 END + 1)
+            ),
+            "usage_period" = ${period},
+            "last_used_at" = now()
+        WHERE "id" = ${keyId}
+            AND (CASE WHEN "usage_period" = ${period} THEN COALESCE("period_usage", 0) ELSE 0 END) < COALESCE("monthly_quota", ${DEFAULT_MONTHLY_API_QUOTA})
+        RETURNING "id"
+    `)
+    return rows.length > 0
+}
+
+/**
+ * Resolve an API key to the principal it acts as. Fails when the key is
+ * unknown, revoked or expired, or when its issuer lost API access.
+ */
+export async function authenticateApiKey(payload: Payload, key: string): Promise<ApiKeyAuthResult> {
+    const { docs } = await payload.find({
+        collection: 'brand-api-keys',
+        where: { keyHash: { equals: hashApiKey(key) } },
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+    })
+    const apiKey = docs[0] as BrandApiKey | undefined
+    if (!apiKey || apiKey.status !== 'active') {
+        return { error: 'Invalid API key', status: 401 }
+    }
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+        return { error: 'API key expired', status: 401 }
+    }
+
+    const ownerId = relationId(apiKey.owner)
+    const owner = ownerId === null
+        ? null
+        : await payload.findByID({ collection: 'brand-users', id: ownerId, depth: 0, overrideAccess: true }).catch(() => null)
+    if (!owner || !owner.isVerified || owner.accessRevokedAt) {
+        return { error: 'API key owner no longer has portal access', status: 403 }
+    }
+
+    const tier = lowerTier(apiKey.tier, owner.subscription)
+    const features = featuresForTier(tier, owner.role)
+    if (!features.canAccessApi) {
+        return { error: 'API access requires an Enterprise subscription', status: 403 }
+    }
+
+    // Brands the owner can still see, within the key's scope
+    const ownerBrands = brandIdsOf(owner)
+    const brands = (apiKey.brands || []).map(relationId).filter((id): id is number => id !== null && ownerBrands.includes(id))
+    if (brands.length === 0) {
+        return { error: 'API key has no accessible brands', status: 403 }
+    }
+
+    return {
+        principal: {
+            id: owner.id,
+            brand: brands[0],
+            additionalBrands: brands.slice(1),
+            role: owner.role,
+            subscription: tier,
+            features: { ...features, canManageTeam: false },
+            isVerified: true,
+            apiKeyId: apiKey.id,
+        },
+    }
+}
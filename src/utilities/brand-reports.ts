@@ -0,0 +1,769 @@
+import type { Payload } from 'payload'
+import type { BrandUser } from '../payload-types'
+import { brandIdsOf, relationId } from './brand-access'
+import { escapeHtml } from './escape-html'
+import { inlineJob, type JobContext } from './job-queue'
+import {
+    A4_HEIGHT,
+    A4_WIDTH,
+    createPdfPage,
+    fitPdfText,
+    pdfLine,
+    pdfPolyline,
+    pdfRect,
+    pdfText,
+    pdfTextWidth,
+    renderPdf,
+    type PdfColor,
+    type PdfPage,
+} from './pdf-document'
+
+/**
+ * Brand Benchmark Reports
+ *
+ * Periodic competitive report for Brand Portal customers, built from the
+ * daily BrandAnalytics snapshots:
+ * - trust score trend (vs the last snapshot before the period)
+ * - category rank movement
+ * - competitor comparison in the brand's primary category (Pro+ only)
+ * - top-scanned products
+ *
+ * Each issue is archived in brand-reports with the report data frozen at
+ * generation time; the PDF and HTML are rendered from that data, so a
+ * downloaded back issue always matches what was emailed. Delivery runs as the
+ * 'brand-reports' queue task and emails every verified brand user with
+ * notifications.weeklyDigest on.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/** 'competitive' adds the competitor comparison (canViewCompetitors) */
+export type BrandReportEdition = 'standard' | 'competitive'
+
+export interface BrandReportPeriod {
+    /** First day, YYYY-MM-DD */
+    start: string
+    /** Last day (inclusive), YYYY-MM-DD */
+    end: string
+    label: string
+}
+
+/** The BrandAnalytics fields a report reads */
+export interface BrandSnapshot {
+    date: string
+    scanCount?: number | null
+    trustScore?: number | null
+    trustGrade?: string | null
+    categoryRank?: number | null
+    overallRank?: number | null
+    verdictBreakdown?: {
+        recommendCount?: number | null
+        cautionCount?: number | null
+        avoidCount?: number | null
+    } | null
+    topScannedProducts?: unknown
+}
+
+export interface BrandReportCompetitor {
+    name: string
+    avgScore: number
+    productCount: number
+    isSelf: boolean
+}
+
+export interface CompetitorBenchmark {
+    category: string
+    /** The brand's position among the listed brands (1 = best) */
+    rank: number
+    entries: BrandReportCompetitor[]
+}
+
+export interface BrandReportProduct {
+    productId: number | null
+    name: string
+    scanCount: number
+}
+
+export interface BrandReportData {
+    brand: { id: number; name: string }
+    edition: BrandReportEdition
+    period: BrandReportPeriod
+    trustScore: {
+        current: number | null
+        previous: number | null
+        change: number | null
+        grade: string | null
+        trend: Array<{ date: string; score: number }>
+    }
+    categoryRank: {
+        current: number | null
+        previous: number | null
+        /** Positive = moved up */
+        change: number | null
+        overall: number | null
+    }
+    scans: {
+        total: number
+        previousTotal: number
+        /** vs the previous period of the same length, null without data */
+        changePercent: number | null
+    }
+    verdicts: { recommend: number; caution: number; avoid: number }
+    topProducts: BrandReportProduct[]
+    competitors: CompetitorBenchmark | null
+    generatedAt: string
+}
+
+export interface BrandReportInput {
+    brand: { id: number; name: string; trustScore?: number | null; trustGrade?: string | null }
+    edition: BrandReportEdition
+    period: BrandReportPeriod
+    /** Snapshots inside the period */
+    snapshots: BrandSnapshot[]
+    /** Snapshots for the same length of time before it */
+    previousSnapshots: BrandSnapshot[]
+    competitors?: CompetitorBenchmark | null
+    generatedAt?: Date
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const TOP_PRODUCTS = 5
+const MAX_COMPETITORS = 8
+
+// ============================================
+// PERIOD & SUMMARY
+// ============================================
+
+function isoDay(date: Date): string {
+    return date.toISOString().slice(0, 10)
+}
+
+function formatDay(day: string): string {
+    return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+        timeZone: 'UTC',
+    })
+}
+
+/**
+ * The `days` full UTC days ending the day before `asOf`
+ */
+export function reportPeriod(asOf: Date = new Date(), days = 7): BrandReportPeriod {
+    const endMs = Date.UTC(asOf.getUTCFullYear(), asOf.getUTCMonth(), asOf.getUTCDate()) - DAY_MS
+    const start = isoDay(new Date(endMs - (days - 1) * DAY_MS))
+    const end = isoDay(new Date(endMs))
+    return { start, end, label: `${formatDay(start)} - ${formatDay(end)}` }
+}
+
+function byDate(a: BrandSnapshot, b: BrandSnapshot): number {
+    return a.date.localeCompare(b.date)
+}
+
+/** Rank 0 is the aggregation cron's "not calculated" placeholder */
+function knownRank(rank: number | null | undefined): number | null {
+    return typeof rank === 'number' && rank > 0 ? rank : null
+}
+
+function sumScans(snapshots: BrandSnapshot[]): number {
+    return snapshots.reduce((sum, s) => sum + (s.scanCount || 0), 0)
+}
+
+/**
+ * Add up each snapshot's top-scanned list into the period's top products
+ */
+export function aggregateTopProducts(snapshots: BrandSnapshot[], limit = TOP_PRODUCTS): BrandReportProduct[] {
+    const totals = new Map<string, BrandReportProduct>()
+    for (const snapshot of snapshots) {
+        const list = Array.isArray(snapshot.topScannedProducts) ? snapshot.topScannedProducts : []
+        for (const entry of list as Array<Record<string, unknown>>) {
+            const productId = typeof entry?.productId === 'number' ? entry.productId : Number(entry?.productId) || null
+            const name = typeof entry?.name === 'string' ? entry.name : ''
+            if (!productId && !name) continue
+            const key = productId ? `id:${productId}` : `name:${name.toLowerCase()}`
+            const existing = totals.get(key) || { productId, name, scanCount: 0 }
+            existing.scanCount += Number(entry.scanCount) || 0
+            if (!existing.name && name) existing.name = name
+            totals.set(key, existing)
+        }
+    }
+    return [...totals.values()]
+        .sort((a, b) => b.scanCount - a.scanCount || a.name.localeCompare(b.name))
+        .slice(0, limit)
+}
+
+/**
+ * Summarize a period of snapshots into report data
+ */
+export function buildBrandReportData(input: BrandReportInput): BrandReportData {
+    const snapshots = [...input.snapshots].sort(byDate)
+    const previous = [...input.previousSnapshots].sort(byDate)
+    const latest = snapshots[snapshots.length - 1]
+
+    const trend = snapshots
+        .filter(s => typeof s.trustScore === 'number')
+        .map(s => ({ date: s.date, score: s.trustScore as number }))
+    const currentTrust = trend.length > 0 ? trend[trend.length - 1].score : input.brand.trustScore ?? null
+    const baselineTrust = [...previous].reverse().find(s => typeof s.trustScore === 'number')?.trustScore
+        ?? (trend.length > 1 ? trend[0].score : null)
+
+    const ranked = snapshots.filter(s => knownRank(s.categoryRank) !== null)
+    const currentRank = knownRank(ranked[ranked.length - 1]?.categoryRank)
+    const previousRank = knownRank([...previous].reverse().find(s => knownRank(s.categoryRank) !== null)?.categoryRank)
+        ?? (ranked.length > 1 ? knownRank(ranked[0].categoryRank) : null)
+
+    const total = sumScans(snapshots)
+    const previousTotal = sumScans(previous)
+
+    return {
+        brand: { id: input.brand.id, name: input.brand.name },
+        edition: input.edition,
+        period: input.period,
+        trustScore: {
+            current: currentTrust,
+            previous: baselineTrust,
+            change: currentTrust !== null && baselineTrust !== null ? currentTrust - baselineTrust : null,
+            grade: latest?.trustGrade ?? input.brand.trustGrade ?? null,
+            trend,
+        },
+        categoryRank: {
+            current: currentRank,
+            previous: previousRank,
+            change: currentRank !== null && previousRank !== null ? previousRank - currentRank : null,
+            overall: knownRank(latest?.overallRank),
+        },
+        scans: {
+            total,
+            previousTotal,
+            changePercent: previousTotal > 0 ? Math.round(((total - previousTotal) / previousTotal) * 100) : null,
+        },
+        verdicts: {
+            recommend: latest?.verdictBreakdown?.recommendCount || 0,
+            caution: latest?.verdictBreakdown?.cautionCount || 0,
+            avoid: latest?.verdictBreakdown?.avoidCount || 0,
+        },
+        topProducts: aggregateTopProducts(snapshots),
+        competitors: input.edition === 'competitive' ? input.competitors ?? null : null,
+        generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+    }
+}
+
+// ============================================
+// RENDERING
+// ============================================
+
+function signed(value: number | null, suffix = ''): string {
+    if (value === null) return 'n/a'
+    if (value === 0) return `no change`
+    return `${value > 0 ? '+' : ''}${value}${suffix}`
+}
+
+function rankMovement(change: number | null): string {
+    if (change === null) return 'n/a'
+    if (change === 0) return 'no change'
+    return change > 0 ? `up ${change}` : `down ${-change}`
+}
+
+export function reportTitle(report: BrandReportData): string {
+    return `${report.brand.name} Benchmark Report`
+}
+
+export function reportFileName(report: BrandReportData, extension: 'pdf' | 'html'): string {
+    const slug = report.brand.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'brand'
+    return `${slug}-benchmark-${report.period.end}.${extension}`
+}
+
+/** Inline SVG trust score line, 0-100 scale */
+function trendSvg(trend: Array<{ date: string; score: number }>): string {
+    if (trend.length < 2) return '<p style="color:#86868b;font-size:13px;">Not enough snapshots for a trend yet.</p>'
+    const width = 520
+    const height = 120
+    const points = trend.map((t, i) => {
+        const x = (i / (trend.length - 1)) * width
+        const y = height - (Math.max(0, Math.min(100, t.score)) / 100) * height
+        return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Trust score trend">` +
+        `<rect width="${width}" height="${height}" fill="#f5f5f7"/>` +
+        `<polyline points="${points.join(' ')}" fill="none" stroke="#0071e3" stroke-width="2"/></svg>`
+}
+
+/**
+ * Self-contained HTML (inline styles) - used as the email body and for
+ * archive downloads
+ */
+export function renderBrandReportHtml(report: BrandReportData): string {
+    const metric = (label: string, value: string, detail: string) =>
+        `<td style="padding:12px;background:#f5f5f7;border-radius:8px;width:33%;">` +
+        `<div style="font-size:12px;color:#86868b;">${escapeHtml(label)}</div>` +
+        `<div style="font-size:24px;font-weight:600;">${escapeHtml(value)}</div>` +
+        `<div style="font-size:12px;color:#515154;">${escapeHtml(detail)}</div></td>`
+
+    const { trustScore, categoryRank, scans } = report
+    const rows = (items: string[][]) => items
+        .map(cells => `<tr>${cells.map(c => `<td style="padding:6px 8px;border-bottom:1px solid #e5e5ea;">${c}</td>`).join('')}</tr>`)
+        .join('')
+
+    const products = report.topProducts.length > 0
+        ? `<table style="width:100%;border-collapse:collapse;font-size:13px;">${rows(
+            report.topProducts.map((p, i) => [String(i + 1), escapeHtml(p.name || `Product ${p.productId}`), p.scanCount.toLocaleString('en-US')])
+        )}</table>`
+        : '<p style="color:#86868b;font-size:13px;">No scans recorded this period.</p>'
+
+    let competitors = ''
+    if (report.edition === 'competitive') {
+        competitors = `<h2 style="font-size:17px;margin:28px 0 8px;">Competitor Comparison</h2>` + (report.competitors
+            ? `<p style="font-size:13px;color:#515154;">${escapeHtml(report.competitors.category)} - you rank #${report.competitors.rank} of ${report.competitors.entries.length}</p>` +
+              `<table style="width:100%;border-collapse:collapse;font-size:13px;">${rows(report.competitors.entries.map((c, i) => [
+                  String(i + 1),
+                  c.isSelf ? `<strong>${escapeHtml(c.name)} (you)</strong>` : escapeHtml(c.name),
+                  String(c.avgScore),
+                  `${c.productCount} products`,
+              ]))}</table>`
+            : '<p style="color:#86868b;font-size:13px;">No category data available for competitor analysis.</p>')
+    }
+
+    return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(reportTitle(report))}</title></head>
+<body style="margin:0;padding:24px;background:#ffffff;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;color:#1d1d1f;">
+  <div style="max-width:600px;margin:0 auto;">
+    <h1 style="font-size:22px;margin:0;">${escapeHtml(reportTitle(report))}</h1>
+    <p style="font-size:13px;color:#86868b;margin:4px 0 20px;">${escapeHtml(report.period.label)}</p>
+    <table style="width:100%;border-spacing:8px;margin:0 -8px;"><tr>
+      ${metric('Trust score', trustScore.current === null ? 'n/a' : `${trustScore.current}${trustScore.grade ? ` (${trustScore.grade})` : ''}`, signed(trustScore.change))}
+      ${metric('Category rank', categoryRank.current === null ? 'n/a' : `#${categoryRank.current}`, rankMovement(categoryRank.change))}
+      ${metric('Scans', scans.total.toLocaleString('en-US'), signed(scans.changePercent, '%'))}
+    </tr></table>
+    <h2 style="font-size:17px;margin:28px 0 8px;">Trust Score Trend</h2>
+    ${trendSvg(trustScore.trend)}
+    <p style="font-size:13px;color:#515154;">Verdicts: ${report.verdicts.recommend} recommend, ${report.verdicts.caution} caution, ${report.verdicts.avoid} avoid</p>
+    ${competitors}
+    <h2 style="font-size:17px;margin:28px 0 8px;">Top Scanned Products</h2>
+    ${products}
+    <p style="font-size:12px;color:#86868b;margin-top:32px;">Generated ${escapeHtml(new Date(report.generatedAt).toUTCString())}. Past reports are available in the Brand Portal. Turn off the weekly digest in your portal notification settings to stop these emails.</p>
+  </div>
+</body>
+</html>`
+}
+
+const INK: PdfColor = [0.11, 0.11, 0.12]
+const MUTED: PdfColor = [0.53, 0.53, 0.55]
+const PANEL: PdfColor = [0.96, 0.96, 0.97]
+const ACCENT: PdfColor = [0, 0.44, 0.89]
+const RULE: PdfColor = [0.9, 0.9, 0.92]
+
+const MARGIN = 48
+
+/**
+ * A4 PDF rendering of the same report
+ */
+export function renderBrandReportPdf(report: BrandReportData): Buffer {
+    const pages: PdfPage[] = []
+    let page = createPdfPage()
+    pages.push(page)
+    let y = A4_HEIGHT - MARGIN
+    const contentWidth = A4_WIDTH - MARGIN * 2
+
+    const ensureSpace = (height: number) => {
+        if (y - height >= MARGIN) return
+        page = createPdfPage()
+        pages.push(page)
+        y = A4_HEIGHT - MARGIN
+    }
+    const heading = (text: string) => {
+        ensureSpace(40)
+        y -= 28
+        pdfText(page, MARGIN, y, text, { size: 13, bold: true, color: INK })
+        y -= 8
+    }
+    const note = (text: string) => {
+        ensureSpace(18)
+        y -= 14
+        pdfText(page, MARGIN, y, text, { size: 9, color: MUTED })
+    }
+    const table = (rows: string[][], columns: number[]) => {
+        for (const cells of rows) {
+            ensureSpace(18)
+            y -= 16
+            let x = MARGIN
+            cells.forEach((cell, i) => {
+                const width = columns[i]
+                const last = i === cells.length - 1
+                const text = fitPdfText(cell, 10, width - 6)
+                pdfText(page, last ? x + width - pdfTextWidth(text, 10) : x, y, text, { size: 10, color: INK })
+                x += width
+            })
+            pdfLine(page, MARGIN, y - 5, MARGIN + contentWidth, y - 5, { color: RULE, width: 0.5 })
+        }
+    }
+
+    // Title
+    y -= 6
+    pdfText(page, MARGIN, y, fitPdfText(reportTitle(report), 20, contentWidth), { size: 20, bold: true, color: INK })
+    y -= 18
+    pdfText(page, MARGIN, y, report.period.label, { size: 10, color: MUTED })
+
+    // Headline metrics
+    const { trustScore, categoryRank, scans } = report
+    const metrics: Array<[string, string, string]> = [
+        ['Trust score', trustScore.current === null ? 'n/a' : `${trustScore.current}${trustScore.grade ? ` (${trustScore.grade})` : ''}`, signed(trustScore.change)],
+        ['Category rank', categoryRank.current === null ? 'n/a' : `#${categoryRank.current}`, rankMovement(categoryRank.change)],
+        ['Scans', scans.total.toLocaleString('en-US'), signed(scans.changePercent, '%')],
+    ]
+    y -= 78
+    const boxWidth = (contentWidth - 16) / 3
+    metrics.forEach(([label, value, detail], i) => {
+        const x = MARGIN + i * (boxWidth + 8)
+        pdfRect(page, x, y, boxWidth, 62, PANEL)
+        pdfText(page, x + 10, y + 46, label, { size: 9, color: MUTED })
+        pdfText(page, x + 10, y + 24, value, { size: 18, bold: true, color: INK })
+        pdfText(page, x + 10, y + 9, detail, { size: 9, color: INK })
+    })
+
+    // Trust score trend
+    heading('Trust Score Trend')
+    if (trustScore.trend.length >= 2) {
+        const chartHeight = 110
+        ensureSpace(chartHeight + 24)
+        y -= chartHeight + 6
+        pdfRect(page, MARGIN, y, contentWidth, chartHeight, PANEL)
+        for (const gridline of [0, 50, 100]) {
+            const gy = y + (gridline / 100) * chartHeight
+            pdfLine(page, MARGIN, gy, MARGIN + contentWidth, gy, { color: RULE, width: 0.5 })
+            pdfText(page, MARGIN + contentWidth + 4, gy - 3, String(gridline), { size: 7, color: MUTED })
+        }
+        const points = trustScore.trend.map((t, i): [number, number] => [
+            MARGIN + (i / (trustScore.trend.length - 1)) * contentWidth,
+            y + (Math.max(0, Math.min(100, t.score)) / 100) * chartHeight,
+        ])
+        pdfPolyline(page, points, { color: ACCENT, width: 1.5 })
+        y -= 4
+        note(`${formatDay(trustScore.trend[0].date)} - ${formatDay(trustScore.trend[trustScore.trend.length - 1].date)}`)
+    } else {
+        note('Not enough snapshots for a trend yet.')
+    }
+    note(`Verdicts: ${report.verdicts.recommend} recommend, ${report.verdicts.caution} caution, ${report.verdicts.avoid} avoid`)
+
+    // Competitor comparison
+    if (report.edition === 'competitive') {
+        heading('Competitor Comparison')
+        if (report.competitors) {
+            note(`${report.competitors.category} - you rank #${report.competitors.rank} of ${report.competitors.entries.length}`)
+            const top = Math.max(...report.competitors.entries.map(c => c.avgScore), 1)
+            for (const entry of report.competitors.entries) {
+                ensureSpace(20)
+                y -= 18
+                const label = fitPdfText(entry.isSelf ? `${entry.name} (you)` : entry.name, 10, 150)
+                pdfText(page, MARGIN, y, label, { size: 10, bold: entry.isSelf, color: INK })
+                const barWidth = ((contentWidth - 200) * entry.avgScore) / top
+                pdfRect(page, MARGIN + 160, y - 2, Math.max(barWidth, 1), 10, entry.isSelf ? ACCENT : RULE)
+                const score = String(entry.avgScore)
+                pdfText(page, MARGIN + contentWidth - pdfTextWidth(score, 10), y, score, { size: 10, color: INK })
+            }
+        } else {
+            note('No category data available for competitor analysis.')
+        }
+    }
+
+    // Top products
+    heading('Top Scanned Products')
+    if (report.topProducts.length > 0) {
+        table(
+            report.topProducts.map((p, i) => [String(i + 1), p.name || `Product ${p.productId}`, p.scanCount.toLocaleString('en-US')]),
+            [24, contentWidth - 104, 80]
+        )
+    } else {
+        note('No scans recorded this period.')
+    }
+
+    y -= 12
+    note(`Generated ${new Date(report.generatedAt).toUTCString()}`)
+
+    return renderPdf(pages, {
+        title: `${reportTitle(report)} - ${report.period.label}`,
+        author: 'The Product Report',
+        createdAt: new Date(report.generatedAt),
+    })
+}
+
+// ============================================
+// DATA LOADING
+// ============================================
+
+interface ProductRow {
+    brand?: string | null
+    score?: number | null
+    categories?: Array<number | { id: number; title?: string | null }> | null
+}
+
+async function loadSnapshots(payload: Payload, brandId: number, start: string, end: string): Promise<BrandSnapshot[]> {
+    const { docs } = await payload.find({
+        collection: 'brand-analytics',
+        where: {
+            and: [
+                { brand: { equals: brandId } },
+                { date: { greater_than_equal: start } },
+                { date: { less_than: isoDay(new Date(Date.parse(`${end}T00:00:00Z`) + DAY_MS)) } },
+            ],
+        },
+        sort: 'date',
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+    })
+    return (docs as unknown as BrandSnapshot[]).map(s => ({ ...s, date: s.date.slice(0, 10) }))
+}
+
+/**
+ * Brands competing in the brand's primary category, ranked by average
+ * product score (same basis as GET /api/brand/:brandId/competitors)
+ */
+export async function loadCompetitorBenchmark(
+    payload: Payload,
+    brand: { name: string; trustScore?: number | null }
+): Promise<CompetitorBenchmark | null> {
+    const own = await payload.find({
+        collection: 'products',
+        where: { brand: { equals: brand.name } },
+        limit: 50,
+        depth: 1,
+        overrideAccess: true,
+    })
+
+    const categoryCounts = new Map<number, { id: number; title: string; count: number }>()
+    for (const product of own.docs as unknown as ProductRow[]) {
+        for (const cat of product.categories || []) {
+            const id = typeof cat === 'object' ? cat.id : cat
+            const entry = categoryCounts.get(id) || { id, title: (typeof cat === 'object' && cat.title) || 'Unknown', count: 0 }
+            entry.count++
+            categoryCounts.set(id, entry)
+        }
+    }
+    const primary = [...categoryCounts.values()].sort((a, b) => b.count - a.count)[0]
+    if (!primary) return null
+
+    const { docs } = await payload.find({
+        collection: 'products',
+        where: {
+            and: [
+                { categories: { contains: primary.id } },
+                { brand: { not_equals: brand.name } },
+            ],
+        },
+        limit: 200,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    const totals = new Map<string, { score: number; count: number }>()
+    for (const product of docs as unknown as ProductRow[]) {
+        if (!product.brand) continue
+        const entry = totals.get(product.brand) || { score: 0, count: 0 }
+        entry.score += product.score || 0
+        entry.count++
+        totals.set(product.brand, entry)
+    }
+
+    const entries: BrandReportCompetitor[] = [
+        { name: brand.name, avgScore: brand.trustScore || 0, productCount: own.totalDocs, isSelf: true },
+        ...[...totals.entries()]
+            .map(([name, t]) => ({ name, avgScore: Math.round(t.score / t.count), productCount: t.count, isSelf: false }))
+            .sort((a, b) => b.avgScore - a.avgScore)
+            .slice(0, MAX_COMPETITORS),
+    ].sort((a, b) => b.avgScore - a.avgScore || Number(b.isSelf) - Number(a.isSelf))
+
+    return {
+        category: primary.title,
+        rank: entries.findIndex(e => e.isSelf) + 1,
+        entries,
+    }
+}
+
+// ============================================
+// ARCHIVE & DELIVERY
+// ============================================
+
+export interface ArchivedBrandReport {
+    id: number
+    brand: number | { id: number }
+    edition: BrandReportEdition
+    issueNumber?: number | null
+    periodStart: string
+    periodEnd: string
+    report: BrandReportData
+    deliveredTo?: Array<number | { id: number }> | null
+    deliveredAt?: string | null
+    createdAt?: string
+}
+
+/**
+ * The archived issue for a brand, period and edition - generated on first
+ * request and reused afterwards so re-runs never produce a second issue
+ */
+export async function getOrCreateBrandReport(
+    payload: Payload,
+    brandId: number,
+    edition: BrandReportEdition,
+    period: BrandReportPeriod = reportPeriod()
+): Promise<ArchivedBrandReport> {
+    const { docs } = await payload.find({
+        collection: 'brand-reports',
+        where: {
+            and: [
+                { brand: { equals: brandId } },
+                { edition: { equals: edition } },
+                { periodStart: { equals: period.start } },
+            ],
+        },
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+    })
+    if (docs[0]) return docs[0] as unknown as ArchivedBrandReport
+
+    const brand = await payload.findByID({ collection: 'brands', id: brandId, depth: 0, overrideAccess: true })
+    const days = Math.round((Date.parse(`${period.end}T00:00:00Z`) - Date.parse(`${period.start}T00:00:00Z`)) / DAY_MS) + 1
+    const previousEnd = isoDay(new Date(Date.parse(`${period.start}T00:00:00Z`) - DAY_MS))
+    const previousStart = isoDay(new Date(Date.parse(`${previousEnd}T00:00:00Z`) - (days - 1) * DAY_MS))
+
+    const [snapshots, previousSnapshots, competitors] = await Promise.all([
+        loadSnapshots(payload, brandId, period.start, period.end),
+        loadSnapshots(payload, brandId, previousStart, previousEnd),
+        edition === 'competitive' ? loadCompetitorBenchmark(payload, brand) : Promise.resolve(null),
+    ])
+
+    const report = buildBrandReportData({ brand, edition, period, snapshots, previousSnapshots, competitors })
+
+    const { totalDocs: previousIssues } = await payload.count({
+        collection: 'brand-reports',
+        where: {
+            and: [
+                { brand: { equals: brandId } },
+                { edition: { equals: edition } },
+            ],
+        },
+        overrideAccess: true,
+    })
+
+    const created = await payload.create({
+        collection: 'brand-reports',
+        data: {
+            brand: brandId,
+            brandName: brand.name,
+            edition,
+            issueNumber: previousIssues + 1,
+            periodStart: period.start,
+            periodEnd: period.end,
+            report: report as unknown as Record<string, unknown>,
+        },
+        overrideAccess: true,
+    })
+    return created as unknown as ArchivedBrandReport
+}
+
+export interface BrandReportDeliveryResult {
+    recipients: number
+    reports: number
+    sent: number
+    skipped: number
+    failed: number
+}
+
+/**
+ * Generate this period's reports and email them to every verified brand
+ * user with the weekly digest on. Recipients already in a report's
+ * deliveredTo are skipped, so a retried run only sends what is missing.
+ */
+export async function runBrandReportDelivery(
+    payload: Payload,
+    params: { asOf?: unknown } = {},
+    job: JobContext = inlineJob
+): Promise<BrandReportDeliveryResult> {
+    const asOf = typeof params.asOf === 'string' && !Number.isNaN(Date.parse(params.asOf)) ? new Date(params.asOf) : new Date()
+    const period = reportPeriod(asOf)
+    const result: BrandReportDeliveryResult = { recipients: 0, reports: 0, sent: 0, skipped: 0, failed: 0 }
+
+    const { docs: users } = await payload.find({
+        collection: 'brand-users',
+        where: {
+            and: [
+                { isVerified: { equals: true } },
+                { 'notifications.weeklyDigest': { equals: true } },
+                { accessRevokedAt: { exists: false } },
+            ],
+        },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    // One issue per brand and edition, shared by its recipients
+    const deliveries = new Map<string, { brandId: number; edition: BrandReportEdition; users: BrandUser[] }>()
+    for (const user of users as BrandUser[]) {
+        const edition: BrandReportEdition = user.features?.canViewCompetitors ? 'competitive' : 'standard'
+        for (const brandId of brandIdsOf(user)) {
+            const key = `${brandId}:${edition}`
+            const entry = deliveries.get(key) || { brandId, edition, users: [] }
+            entry.users.push(user)
+            deliveries.set(key, entry)
+        }
+    }
+    result.recipients = users.length
+
+    let completed = 0
+    for (const { brandId, edition, users: recipients } of deliveries.values()) {
+        if (job.isCancelled()) break
+
+        try {
+            const archived = await getOrCreateBrandReport(payload, brandId, edition, period)
+            result.reports++
+
+            const delivered = new Set((archived.deliveredTo || []).map(relationId))
+            const pending = recipients.filter(u => !delivered.has(u.id))
+            result.skipped += recipients.length - pending.length
+
+            if (pending.length > 0) {
+                const html = renderBrandReportHtml(archived.report)
+                const pdf = renderBrandReportPdf(archived.report)
+                for (const user of pending) {
+                    try {
+                        await payload.sendEmail({
+                            to: user.email,
+                            subject: `${reportTitle(archived.report)}: ${archived.report.period.label}`,
+                            html,
+                            attachments: [{ filename: reportFileName(archived.report, 'pdf'), content: pdf }],
+                        })
+                        delivered.add(user.id)
+                        result.sent++
+                    } catch (error) {
+                        console.error(`[BrandReports] Failed to email report ${archived.id} to user ${user.id}:`, error)
+                        result.failed++
+                    }
+                }
+
+                await payload.update({
+                    collection: 'brand-reports',
+                    id: archived.id,
+                    data: {
+                        deliveredTo: [...delivered].filter((id): id is number => id !== null),
+                        deliveredAt: new Date().toISOString(),
+                    },
+                    overrideAccess: true,
+                })
+            }
+        } catch (error) {
+            console.error(`[BrandReports] Failed to generate ${edition} report for brand ${brandId}:`, error)
+            result.failed += recipients.length
+        }
+
+        completed++
+        await job.progress(completed, deliveries.size, `Brand ${brandId} (${edition})`)
+    }
+
+    console.log(`[BrandReports] ${period.label}: ${result.reports} reports, ${result.sent} sent, ${result.skipped} already delivered, ${result.failed} failed`)
+    return result
+}
@@ -0,0 +1,447 @@
+import type { Payload, Where } from 'payload'
+import { sendPushNotificationBatch, type ExpoPushMessage } from '../lib/push'
+import { isQuietHours, quietHoursEnd, resolveRecipientTimezone } from './campaign-schedule'
+import { enqueueJob } from './job-queue'
+import { getSegmentFingerprintHashes } from './segment-engine'
+
+/**
+ * Campaign Delivery
+ *
+ * Shared by on-demand sends (POST /api/campaigns/send), delayed event
+ * triggers and the recurring scheduler:
+ * - resolveCampaignRecipients: campaign targeting -> active push tokens,
+ *   segments resolved from segment-memberships
+ * - gateRecipients: quiet hours, per-user cooldown and maxPerHour
+ * - sendCampaignToTokens: Expo send + notification-sends records
+ * - queueDeferredSends: re-queue recipients held back by quiet hours or
+ *   the hourly cap as delayed campaign-send jobs
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface NotificationTemplate {
+    id: number
+    type: string
+    variants: Array<{
+        variantId: string
+        title: string
+        body: string
+        emoji?: string
+        weight: number
+        action?: string
+        actionData?: unknown
+    }>
+    schedule?: {
+        enabled: boolean
+        cooldownHours?: number
+    }
+}
+
+export interface NotificationCampaign {
+    id: number
+    name: string
+    type: 'scheduled' | 'triggered' | 'recurring'
+    status: string
+    template: NotificationTemplate | number
+    scheduledFor?: string | null
+    recurringSchedule?: {
+        frequency?: 'daily' | 'weekly' | 'biweekly' | 'monthly' | null
+        daysOfWeek?: string[] | null
+        hour?: number | null
+        minute?: number | null
+        timezone?: string | null
+        endDate?: string | null
+    } | null
+    triggerConfig?: {
+        triggerEvent?: string | null
+        triggerDelay?: number | null
+    } | null
+    targeting: {
+        targetAll: boolean
+        segments?: Array<{ id: number; slug: string }> | number[]
+        segmentLogic: 'any' | 'all'
+        excludeSegments?: Array<{ id: number; slug: string }> | number[]
+        platforms?: string[]
+    }
+    rateLimiting?: {
+        maxPerHour?: number | null
+        cooldownHours?: number | null
+        respectQuietHours?: boolean | null
+    }
+    abTesting?: {
+        enabled?: boolean
+        statsigExperiment?: string
+        variantWeights?: Record<string, number>
+    }
+    sentCount: number
+    deliveredCount: number
+    failedCount: number
+    lastSentAt?: string | null
+    nextScheduledAt?: string | null
+    analyticsTag?: string
+    createdAt: string
+}
+
+export interface PushToken {
+    id: number
+    token: string
+    fingerprintHash: string
+    platform: 'ios' | 'android'
+    isActive: boolean
+    timezone?: string | null
+    lastUsed?: string
+}
+
+/** Earlier sends of one campaign, used for dedupe, cooldown and the hourly cap */
+export interface DeliveryHistory {
+    tokenLastSent: Map<number, Date>
+    userLastSent: Map<string, Date>
+    sentLastHour: number
+}
+
+export interface DeferredRecipient {
+    token: PushToken
+    until: Date
+    reason: 'quiet_hours' | 'rate_limit'
+}
+
+export interface GateResult {
+    deliver: PushToken[]
+    deferred: DeferredRecipient[]
+    skipped: { alreadySent: number; cooldown: number }
+}
+
+// Scheduler ticks are 15 minutes apart, so a daily send can land a few
+// minutes "early" relative to yesterday's; don't let that trip a 24h cooldown
+const COOLDOWN_TOLERANCE_MS = 15 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+
+// ============================================
+// TARGETING
+// ============================================
+
+/**
+ * Select a variant using weighted random selection
+ */
+export function selectWeightedVariant(
+    variants: NotificationTemplate['variants'],
+    overrideWeights?: Record<string, number>
+): NotificationTemplate['variants'][0] | null {
+    if (!variants || variants.length === 0) return null
+    if (variants.length === 1) return variants[0]
+
+    // Apply override weights if provided
+    const weights = variants.map((v) => ({
+        variant: v,
+        weight: overrideWeights?.[v.variantId] ?? v.weight ?? 1,
+    }))
+
+    const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0)
+    if (totalWeight === 0) return variants[0]
+
+    let random = Math.random() * totalWeight
+    for (const w of weights) {
+        random -= w.weight
+        if (random <= 0) return w.variant
+    }
+
+    return variants[0]
+}
+
+function relationIds(values: Array<{ id: number } | number> | undefined): number[] {
+    return (values || []).map((s) => (typeof s === 'number' ? s : s.id))
+}
+
+/**
+ * Active push tokens a campaign should reach.
+ *
+ * With `tokenIds` (deferred sends) the tokens were already targeted and are
+ * only re-checked for being active. With `fingerprintHash` (event triggers)
+ * only that user's devices are considered; platform and exclusion segments
+ * still apply.
+ */
+export async function resolveCampaignRecipients(
+    payload: Payload,
+    campaign: NotificationCampaign,
+    options: { limit?: number; fingerprintHash?: string; tokenIds?: number[] } = {}
+): Promise<PushToken[]> {
+    const and: Where[] = [{ isActive: { equals: true } }]
+    if (options.tokenIds) {
+        if (options.tokenIds.length === 0) return []
+        and.push({ id: { in: options.tokenIds } })
+    } else if (campaign.targeting?.platforms && campaign.targeting.platforms.length > 0) {
+        and.push({ platform: { in: campaign.targeting.platforms } })
+    }
+    if (options.fingerprintHash) {
+        and.push({ fingerprintHash: { equals: options.fingerprintHash } })
+    }
+
+    const { docs } = await payload.find({
+        collection: 'push-tokens',
+        where: { and },
+        limit: options.limit || 10000,
+        depth: 0,
+    })
+
+    let targetTokens = docs as unknown as PushToken[]
+    if (options.tokenIds) return targetTokens
+
+    // Apply segment targeting (if not targeting all, and not a single-user trigger)
+    const segmentIds = relationIds(campaign.targeting?.segments)
+    if (!options.fingerprintHash && !campaign.targeting?.targetAll && segmentIds.length > 0) {
+        const members = await getSegmentFingerprintHashes(payload, segmentIds, campaign.targeting.segmentLogic)
+        targetTokens = targetTokens.filter((token) => members.has(token.fingerprintHash))
+    }
+
+    // Apply exclusion segments
+    const excludeIds = relationIds(campaign.targeting?.excludeSegments)
+    if (excludeIds.length > 0) {
+        const excluded = await getSegmentFingerprintHashes(payload, excludeIds, 'any')
+        targetTokens = targetTokens.filter((token) => !excluded.has(token.fingerprintHash))
+    }
+
+    return targetTokens
+}
+
+// ============================================
+// GATING
+// ============================================
+
+/**
+ * Sends of this campaign since `since`
+ */
+export async function loadDeliveryHistory(
+    payload: Payload,
+    campaignId: number,
+    since: Date,
+    now: Date = new Date()
+): Promise<DeliveryHistory> {
+    const { docs } = await payload.find({
+        collection: 'notification-sends',
+        where: {
+            and: [
+                { campaign: { equals: campaignId } },
+                { sentAt: { greater_than_equal: since.toISOString() } },
+            ],
+        },
+        limit: 10000,
+        depth: 0,
+        select: { pushToken: true, fingerprintHash: true, sentAt: true },
+        overrideAccess: true,
+    })
+
+    const history: DeliveryHistory = { tokenLastSent: new Map(), userLastSent: new Map(), sentLastHour: 0 }
+    const hourAgo = now.getTime() - HOUR_MS
+    for (const send of docs as unknown as Array<{ pushToken: number | { id: number }; fingerprintHash?: string | null; sentAt?: string | null }>) {
+        if (!send.sentAt) continue
+        const sentAt = new Date(send.sentAt)
+        const tokenId = typeof send.pushToken === 'object' ? send.pushToken.id : send.pushToken
+        const tokenLast = history.tokenLastSent.get(tokenId)
+        if (!tokenLast || tokenLast < sentAt) history.tokenLastSent.set(tokenId, sentAt)
+        if (send.fingerprintHash) {
+            const userLast = history.userLastSent.get(send.fingerprintHash)
+            if (!userLast || userLast < sentAt) history.userLastSent.set(send.fingerprintHash, sentAt)
+        }
+        if (sentAt.getTime() > hourAgo) history.sentLastHour++
+    }
+    return history
+}
+
+/**
+ * Decide who gets the campaign now.
+ *
+ * - alreadySent: the token already received this occurrence
+ * - cooldown: the user received this campaign within cooldownHours of the
+ *   occurrence (or of now, for unscheduled sends); dropped, not deferred
+ * - quiet hours: deferred to 8am recipient time
+ * - maxPerHour: recipients over the hourly budget are deferred an hour
+ */
+export function gateRecipients(
+    tokens: PushToken[],
+    campaign: Pick<NotificationCampaign, 'rateLimiting'>,
+    history: DeliveryHistory,
+    now: Date,
+    occurrenceFor?: (token: PushToken) => Date | null
+): GateResult {
+    const result: GateResult = { deliver: [], deferred: [], skipped: { alreadySent: 0, cooldown: 0 } }
+    const limits = campaign.rateLimiting || {}
+    const cooldownMs = Math.max(0, (limits.cooldownHours ?? 24) * HOUR_MS - COOLDOWN_TOLERANCE_MS)
+    let budget = limits.maxPerHour && limits.maxPerHour > 0
+        ? Math.max(0, limits.maxPerHour - history.sentLastHour)
+        : Infinity
+
+    for (const token of tokens) {
+        const occurrence = occurrenceFor?.(token) ?? null
+        const tokenLast = history.tokenLastSent.get(token.id)
+        if (occurrence && tokenLast && tokenLast >= occurrence) {
+            result.skipped.alreadySent++
+            continue
+        }
+
+        const userLast = history.userLastSent.get(token.fingerprintHash)
+        const reference = occurrence || now
+        if (userLast && cooldownMs > 0 && reference.getTime() - userLast.getTime() < cooldownMs) {
+            result.skipped.cooldown++
+            continue
+        }
+
+        const timezone = resolveRecipientTimezone(null, token.timezone)
+        if (limits.respectQuietHours !== false && isQuietHours(now, timezone)) {
+            result.deferred.push({ token, until: quietHoursEnd(now, timezone), reason: 'quiet_hours' })
+            continue
+        }
+
+        if (budget <= 0) {
+            result.deferred.push({ token, until: new Date(now.getTime() + HOUR_MS), reason: 'rate_limit' })
+            continue
+        }
+
+        budget--
+        result.deliver.push(token)
+    }
+
+    return result
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+/**
+ * Send the campaign template to tokens, record each send and bump the
+ * campaign's counters and lastSentAt
+ */
+export async function sendCampaignToTokens(
+    payload: Payload,
+    campaign: NotificationCampaign,
+    template: NotificationTemplate,
+    tokens: PushToken[]
+): Promise<{ sent: number; failed: number }> {
+    if (tokens.length === 0) return { sent: 0, failed: 0 }
+
+    const messages: ExpoPushMessage[] = []
+    const sendRecords: Array<{
+        token: PushToken
+        variant: NotificationTemplate['variants'][0]
+        message: ExpoPushMessage
+    }> = []
+
+    for (const token of tokens) {
+        const variant = selectWeightedVariant(
+            template.variants,
+            campaign.abTesting?.enabled ? campaign.abTesting.variantWeights : undefined
+        )
+        if (!variant) continue
+
+        const title = variant.emoji ? `${variant.emoji} ${variant.title}` : variant.title
+        const message: ExpoPushMessage = {
+            to: token.token,
+            title,
+            body: variant.body,
+            sound: 'default',
+            priority: 'high',
+            data: {
+                campaignId: campaign.id,
+                variantId: variant.variantId,
+                action: variant.action,
+                ...(variant.actionData as Record<string, unknown> || {}),
+            },
+        }
+
+        messages.push(message)
+        sendRecords.push({ token, variant, message })
+    }
+
+    const tickets = await sendPushNotificationBatch(messages)
+
+    let sent = 0
+    let failed = 0
+    for (let i = 0; i < tickets.length; i++) {
+        const ticket = tickets[i]
+        const record = sendRecords[i]
+
+        // Receipts (utilities/push-receipts) later confirm or fail 'sent'
+        const status = ticket.status === 'ok'
+            ? 'sent'
+            : ticket.details?.error === 'DeviceNotRegistered' ? 'invalid_token' : 'failed'
+        if (ticket.status === 'ok') sent++
+        else failed++
+
+        await payload.create({
+            collection: 'notification-sends',
+            data: {
+                campaign: campaign.id,
+                template: template.id,
+                pushToken: record.token.id,
+                fingerprintHash: record.token.fingerprintHash,
+                variant: record.variant.variantId,
+                title: record.message.title,
+                body: record.message.body,
+                data: record.message.data,
+                status,
+                expoTicketId: ticket.id,
+                errorMessage: ticket.message,
+                errorCode: ticket.details?.error,
+                sentAt: new Date().toISOString(),
+                platform: record.token.platform,
+                analyticsTag: campaign.analyticsTag,
+                statsigExperiment: campaign.abTesting?.statsigExperiment,
+            },
+            overrideAccess: true,
+        })
+
+        // Handle invalid tokens
+        if (ticket.details?.error === 'DeviceNotRegistered') {
+            await payload.update({
+                collection: 'push-tokens',
+                id: record.token.id,
+                data: { isActive: false },
+                overrideAccess: true,
+            })
+        }
+    }
+
+    // Re-read counters so concurrent sends (scheduler + deferred jobs) add up
+    const current = await payload.findByID({
+        collection: 'notification-campaigns',
+        id: campaign.id,
+        depth: 0,
+        overrideAccess: true,
+    })
+    await payload.update({
+        collection: 'notification-campaigns',
+        id: campaign.id,
+        data: {
+            sentCount: (current.sentCount || 0) + sent,
+            failedCount: (current.failedCount || 0) + failed,
+            lastSentAt: new Date().toISOString(),
+        },
+        overrideAccess: true,
+    })
+
+    return { sent, failed }
+}
+
+/**
+ * Queue held-back recipients as delayed campaign-send jobs, one per
+ * release time (rounded up to the quarter hour)
+ */
+export async function queueDeferredSends(
+    payload: Payload,
+    campaignId: number,
+    deferred: DeferredRecipient[]
+): Promise<number> {
+    const quarter = 15 * 60 * 1000
+    const groups = new Map<number, number[]>()
+    for (const { token, until } of deferred) {
+        const at = Math.ceil(until.getTime() / quarter) * quarter
+        groups.set(at, [...(groups.get(at) || []), token.id])
+    }
+
+    for (const [at, tokenIds] of groups) {
+        await enqueueJob(payload, 'campaign-send', { campaignId, tokenIds }, { waitUntil: new Date(at) })
+    }
+    return groups.size
+}
@@ -0,0 +1,263 @@
+/**
+ * Campaign Schedule Math
+ *
+ * Timezone-aware expansion of NotificationCampaigns.recurringSchedule into
+ * send instants, plus the quiet-hours window. Pure functions only; the
+ * scheduler (utilities/campaign-scheduler) decides what to do with them.
+ *
+ * Times are computed with Intl so IANA zones and DST transitions work
+ * without a date library: a local wall-clock time is converted to UTC by
+ * measuring the zone's offset at that instant.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RecurringFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly'
+
+export interface RecurringSchedule {
+    frequency?: RecurringFrequency | null
+    /** '0' (Sunday) to '6' (Saturday); weekly only */
+    daysOfWeek?: string[] | null
+    hour?: number | null
+    minute?: number | null
+    /** IANA zone, or 'user_local' for the recipient's own zone */
+    timezone?: string | null
+    endDate?: string | null
+}
+
+export interface ZonedParts {
+    year: number
+    month: number
+    day: number
+    hour: number
+    minute: number
+    second: number
+    /** 0 = Sunday */
+    weekday: number
+}
+
+/** Zone used when neither the campaign nor the device gives one */
+export const DEFAULT_CAMPAIGN_TIMEZONE = 'America/New_York'
+
+/** No pushes from 10pm to 8am recipient time */
+export const QUIET_HOURS = { start: 22, end: 8 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Longest gap between occurrences is a month; search a little past two
+const MAX_SEARCH_DAYS = 62
+
+// ============================================
+// TIMEZONES
+// ============================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone)
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+            weekday: 'short',
+        })
+        formatters.set(timeZone, formatter)
+    }
+    return formatter
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export function isValidTimezone(timeZone: unknown): timeZone is string {
+    if (typeof timeZone !== 'string' || !timeZone || timeZone.length > 64) return false
+    try {
+        getFormatter(timeZone)
+        return true
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Wall-clock parts of an instant in a zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+    const parts: Record<string, string> = {}
+    for (const part of getFormatter(timeZone).formatToParts(date)) {
+        parts[part.type] = part.value
+    }
+    return {
+        year: Number(parts.year),
+        month: Number(parts.month),
+        day: Number(parts.day),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute),
+        second: Number(parts.second),
+        weekday: WEEKDAYS.indexOf(parts.weekday),
+    }
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+    const p = getZonedParts(date, timeZone)
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
+
+/**
+ * The instant a local wall-clock time happens in a zone. Times skipped by
+ * a DST jump resolve to the same wall time after the jump.
+ */
+export function zonedTimeToUtc(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    timeZone: string
+): Date {
+    const wall = Date.UTC(year, month - 1, day, hour, minute)
+    let instant = wall - offsetMs(new Date(wall), timeZone)
+    // Re-measure at the candidate; differs only across a DST change
+    const corrected = wall - offsetMs(new Date(instant), timeZone)
+    if (corrected !== instant) instant = corrected
+    return new Date(instant)
+}
+
+/**
+ * Zone for a recipient: the campaign's own zone, or the device zone for
+ * 'user_local' campaigns
+ */
+export function resolveRecipientTimezone(campaignTimezone: string | null | undefined, deviceTimezone?: string | null): string {
+    if (campaignTimezone && campaignTimezone !== 'user_local' && isValidTimezone(campaignTimezone)) {
+        return campaignTimezone
+    }
+    return isValidTimezone(deviceTimezone) ? deviceTimezone : DEFAULT_CAMPAIGN_TIMEZONE
+}
+
+// ============================================
+// RECURRENCE
+// ============================================
+
+function dayNumber(year: number, month: number, day: number): number {
+    return Math.round(Date.UTC(year, month - 1, day) / DAY_MS)
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Whether a local calendar day is a send day. The anchor (scheduledFor,
+ * or the campaign's creation) sets the weekday for weekly campaigns
+ * without days, the fortnight phase for biweekly and the day of month.
+ */
+function isSendDay(
+    schedule: RecurringSchedule,
+    local: { year: number; month: number; day: number; weekday: number },
+    anchor: ZonedParts
+): boolean {
+    switch (schedule.frequency || 'daily') {
+        case 'daily':
+            return true
+        case 'weekly': {
+            const days = (schedule.daysOfWeek || []).map(Number).filter(d => d >= 0 && d <= 6)
+            return days.length > 0 ? days.includes(local.weekday) : local.weekday === anchor.weekday
+        }
+        case 'biweekly': {
+            const diff = dayNumber(local.year, local.month, local.day) - dayNumber(anchor.year, anchor.month, anchor.day)
+            return ((diff % 14) + 14) % 14 === 0
+        }
+        case 'monthly': {
+            // Anchored on the 31st means the last day of shorter months
+            return local.day === Math.min(anchor.day, daysInMonth(local.year, local.month))
+        }
+        default:
+            return false
+    }
+}
+
+function localDay(year: number, month: number, day: number) {
+    const date = new Date(Date.UTC(year, month - 1, day))
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate(), weekday: date.getUTCDay() }
+}
+
+function occurrenceOn(schedule: RecurringSchedule, day: { year: number; month: number; day: number }, timeZone: string): Date {
+    return zonedTimeToUtc(day.year, day.month, day.day, schedule.hour ?? 9, schedule.minute ?? 0, timeZone)
+}
+
+/**
+ * Most recent send instant at or before `now`, or null when the schedule
+ * has not started yet or ended before it
+ */
+export function previousOccurrence(
+    schedule: RecurringSchedule,
+    timeZone: string,
+    now: Date,
+    anchor: Date
+): Date | null {
+    const end = schedule.endDate ? new Date(schedule.endDate) : null
+    const anchorParts = getZonedParts(anchor, timeZone)
+    const today = getZonedParts(now, timeZone)
+
+    for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+        const day = localDay(today.year, today.month, today.day - offset)
+        if (!isSendDay(schedule, day, anchorParts)) continue
+        const at = occurrenceOn(schedule, day, timeZone)
+        if (at > now) continue
+        if (at < anchor) return null
+        if (end && at > end) continue
+        return at
+    }
+    return null
+}
+
+/**
+ * First send instant strictly after `now`, or null once the schedule ends
+ */
+export function nextOccurrence(
+    schedule: RecurringSchedule,
+    timeZone: string,
+    now: Date,
+    anchor: Date
+): Date | null {
+    const end = schedule.endDate ? new Date(schedule.endDate) : null
+    const anchorParts = getZonedParts(anchor, timeZone)
+    const start = now < anchor ? anchor : now
+    const today = getZonedParts(start, timeZone)
+
+    for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+        const day = localDay(today.year, today.month, today.day + offset)
+        if (!isSendDay(schedule, day, anchorParts)) continue
+        const at = occurrenceOn(schedule, day, timeZone)
+        if (at <= now || at < anchor) continue
+        if (end && at > end) return null
+        return at
+    }
+    return null
+}
+
+// ============================================
+// QUIET HOURS
+// ============================================
+
+export function isQuietHours(now: Date, timeZone: string): boolean {
+    const { hour } = getZonedParts(now, timeZone)
+    return hour >= QUIET_HOURS.start || hour < QUIET_HOURS.end
+}
+
+/**
+ * When quiet hours end for a recipient (now, if they are not in them)
+ */
+export function quietHoursEnd(now: Date, timeZone: string): Date {
+    if (!isQuietHours(now, timeZone)) return now
+    const local = getZonedParts(now, timeZone)
+    const day = localDay(local.year, local.month, local.hour >= QUIET_HOURS.start ? local.day + 1 : local.day)
+    return zonedTimeToUtc(day.year, day.month, day.day, QUIET_HOURS.end, 0, timeZone)
+}
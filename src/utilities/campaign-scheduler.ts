@@ -0,0 +1,291 @@
+import type { Payload } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import {
+    gateRecipients,
+    loadDeliveryHistory,
+    queueDeferredSends,
+    resolveCampaignRecipients,
+    sendCampaignToTokens,
+    type NotificationCampaign,
+    type NotificationTemplate,
+    type PushToken,
+} from './campaign-delivery'
+import {
+    DEFAULT_CAMPAIGN_TIMEZONE,
+    nextOccurrence,
+    previousOccurrence,
+    resolveRecipientTimezone,
+} from './campaign-schedule'
+import { inlineJob, type JobContext } from './job-queue'
+
+/**
+ * Push Campaign Scheduler
+ *
+ * Runs every 15 minutes (/api/cron/campaign-scheduler) over campaigns in
+ * status "scheduled" (and one-time campaigns still "sending"):
+ * - One-time campaigns go out at scheduledFor
+ * - Recurring campaigns are expanded into send instants in the campaign
+ *   timezone, or in each recipient's own zone for "user_local"
+ *
+ * A recipient stays due for SEND_GRACE_HOURS after their send instant, so
+ * people held back by quiet hours or maxPerHour are picked up by a later
+ * tick. notification-sends is the record of who already got an occurrence.
+ *
+ * Event-triggered campaigns don't go through the scheduler: the trigger
+ * endpoint queues a delayed campaign-send job (runCampaignSendJob).
+ */
+
+/** How long after their send instant a recipient can still be sent to */
+export const SEND_GRACE_HOURS = 12
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface SchedulerResult {
+    campaignsChecked: number
+    campaignsSent: number
+    sent: number
+    failed: number
+    deferred: number
+    skipped: number
+    completed: number
+    errors: string[]
+}
+
+export interface CampaignSendJobParams {
+    campaignId: number
+    fingerprintHash?: string
+    tokenIds?: number[]
+    triggerEvent?: string
+}
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Array<Record<string, unknown>> }>
+
+async function loadTemplate(payload: Payload, campaign: NotificationCampaign): Promise<NotificationTemplate | null> {
+    if (campaign.template && typeof campaign.template === 'object') return campaign.template
+    if (!campaign.template) return null
+    const template = await payload.findByID({
+        collection: 'notification-templates',
+        id: campaign.template,
+        depth: 0,
+        overrideAccess: true,
+    }).catch(() => null)
+    return template as unknown as NotificationTemplate | null
+}
+
+/**
+ * Zones the campaign's recipients live in. Only needed for user_local
+ * campaigns; devices that never reported a zone count as the default.
+ */
+async function recipientTimezones(payload: Payload): Promise<string[]> {
+    const execute = (payload.db as unknown as { drizzle: { execute: Execute } }).drizzle.execute.bind(
+        (payload.db as unknown as { drizzle: unknown }).drizzle
+    )
+    const result = await execute(sql`
+        SELECT DISTINCT "timezone" FROM "push_tokens" WHERE "is_active" = true
+    `)
+    const zones = new Set(result.rows.map(row => resolveRecipientTimezone(null, row.timezone as string | null)))
+    if (zones.size === 0) zones.add(DEFAULT_CAMPAIGN_TIMEZONE)
+    return [...zones]
+}
+
+async function updateCampaign(payload: Payload, id: number, data: Record<string, unknown>): Promise<void> {
+    await payload.update({
+        collection: 'notification-campaigns',
+        id,
+        data,
+        overrideAccess: true,
+    })
+}
+
+/**
+ * Send instants for this tick: per-zone occurrence that is due now, and
+ * when the campaign next becomes due
+ */
+export function planCampaignOccurrences(
+    campaign: Pick<NotificationCampaign, 'type' | 'scheduledFor' | 'recurringSchedule' | 'createdAt'>,
+    zones: string[],
+    now: Date
+): { due: Map<string, Date>; next: Date | null; finished: boolean } {
+    const due = new Map<string, Date>()
+    const graceMs = SEND_GRACE_HOURS * HOUR_MS
+
+    if (campaign.type === 'scheduled') {
+        if (!campaign.scheduledFor) return { due, next: null, finished: false }
+        const at = new Date(campaign.scheduledFor)
+        if (at > now) return { due, next: at, finished: false }
+        const expired = now.getTime() - at.getTime() > graceMs
+        if (!expired) {
+            for (const zone of zones) due.set(zone, at)
+        }
+        return { due, next: null, finished: expired }
+    }
+
+    const schedule = campaign.recurringSchedule || {}
+    const anchor = new Date(campaign.scheduledFor || campaign.createdAt)
+    let next: Date | null = null
+    for (const zone of zones) {
+        const previous = previousOccurrence(schedule, zone, now, anchor)
+        if (previous && now.getTime() - previous.getTime() <= graceMs) {
+            due.set(zone, previous)
+        }
+        const upcoming = nextOccurrence(schedule, zone, now, anchor)
+        if (upcoming && (!next || upcoming < next)) next = upcoming
+    }
+    return { due, next, finished: !next && due.size === 0 }
+}
+
+async function processCampaign(payload: Payload, campaign: NotificationCampaign, now: Date, result: SchedulerResult) {
+    const campaignTimezone = campaign.type === 'recurring'
+        ? campaign.recurringSchedule?.timezone || DEFAULT_CAMPAIGN_TIMEZONE
+        : null
+    const userLocal = campaignTimezone === 'user_local'
+    const zones = userLocal
+        ? await recipientTimezones(payload)
+        : [resolveRecipientTimezone(campaignTimezone)]
+
+    const plan = planCampaignOccurrences(campaign, zones, now)
+    const nextScheduledAt = plan.next ? plan.next.toISOString() : null
+
+    if (plan.finished) {
+        await updateCampaign(payload, campaign.id, { status: 'sent', nextScheduledAt: null })
+        result.completed++
+        return
+    }
+    if (plan.due.size === 0) {
+        if (campaign.nextScheduledAt !== nextScheduledAt) {
+            await updateCampaign(payload, campaign.id, { nextScheduledAt })
+        }
+        return
+    }
+
+    const template = await loadTemplate(payload, campaign)
+    if (!template) {
+        result.errors.push(`Campaign ${campaign.id}: template not found`)
+        return
+    }
+
+    const zoneOf = (token: PushToken) => userLocal
+        ? resolveRecipientTimezone(null, token.timezone)
+        : zones[0]
+    const recipients = (await resolveCampaignRecipients(payload, campaign))
+        .filter(token => plan.due.has(zoneOf(token)))
+
+    const cooldownHours = campaign.rateLimiting?.cooldownHours ?? 24
+    // Back far enough to see the earliest due occurrence and its cooldown
+    const since = new Date(now.getTime() - (SEND_GRACE_HOURS + cooldownHours) * HOUR_MS)
+    const history = await loadDeliveryHistory(payload, campaign.id, since, now)
+    const gate = gateRecipients(recipients, campaign, history, now, token => plan.due.get(zoneOf(token)) || null)
+
+    const { sent, failed } = await sendCampaignToTokens(payload, campaign, template, gate.deliver)
+    result.sent += sent
+    result.failed += failed
+    result.deferred += gate.deferred.length
+    result.skipped += gate.skipped.alreadySent + gate.skipped.cooldown
+    if (gate.deliver.length > 0) result.campaignsSent++
+
+    if (campaign.type === 'scheduled') {
+        // Done once nobody is waiting on quiet hours or the hourly cap
+        const status = gate.deferred.length === 0 ? 'sent' : 'sending'
+        if (status === 'sent') result.completed++
+        await updateCampaign(payload, campaign.id, { status, nextScheduledAt: null })
+    } else if (campaign.nextScheduledAt !== nextScheduledAt) {
+        await updateCampaign(payload, campaign.id, { nextScheduledAt })
+    }
+
+    if (sent + failed > 0 || gate.deferred.length > 0) {
+        console.log(
+            `[Campaign Scheduler] ${campaign.name}: ${sent} sent, ${failed} failed, ` +
+            `${gate.deferred.length} deferred, ${gate.skipped.cooldown} in cooldown`
+        )
+    }
+}
+
+/**
+ * One scheduler tick over all active scheduled and recurring campaigns
+ */
+export async function runCampaignScheduler(payload: Payload, now: Date = new Date()): Promise<SchedulerResult> {
+    const result: SchedulerResult = {
+        campaignsChecked: 0,
+        campaignsSent: 0,
+        sent: 0,
+        failed: 0,
+        deferred: 0,
+        skipped: 0,
+        completed: 0,
+        errors: [],
+    }
+
+    const { docs } = await payload.find({
+        collection: 'notification-campaigns',
+        where: {
+            or: [
+                { and: [{ status: { equals: 'scheduled' } }, { type: { in: ['scheduled', 'recurring'] } }] },
+                { and: [{ status: { equals: 'sending' } }, { type: { equals: 'scheduled' } }] },
+            ],
+        },
+        limit: 100,
+        depth: 1,
+        overrideAccess: true,
+    })
+
+    for (const campaign of docs as unknown as NotificationCampaign[]) {
+        result.campaignsChecked++
+        try {
+            await processCampaign(payload, campaign, now, result)
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            console.error(`[Campaign Scheduler] Campaign ${campaign.id} failed:`, message)
+            result.errors.push(`Campaign ${campaign.id}: ${message}`)
+        }
+    }
+
+    return result
+}
+
+/**
+ * campaign-send job: a delayed event trigger, or recipients deferred by
+ * quiet hours or the hourly cap. Anyone still held back is queued again.
+ */
+export async function runCampaignSendJob(
+    payload: Payload,
+    params: CampaignSendJobParams,
+    job: JobContext = inlineJob
+): Promise<{ sent: number; failed: number; deferred: number; skipped: number; reason?: string }> {
+    const campaign = await payload.findByID({
+        collection: 'notification-campaigns',
+        id: params.campaignId,
+        depth: 1,
+        overrideAccess: true,
+    }).catch(() => null) as unknown as NotificationCampaign | null
+
+    if (!campaign) {
+        return { sent: 0, failed: 0, deferred: 0, skipped: 0, reason: 'Campaign not found' }
+    }
+    if (campaign.status === 'paused' || campaign.status === 'cancelled' || campaign.status === 'draft') {
+        return { sent: 0, failed: 0, deferred: 0, skipped: 0, reason: `Campaign is ${campaign.status}` }
+    }
+
+    const template = await loadTemplate(payload, campaign)
+    if (!template) {
+        throw new Error(`Template not found for campaign ${campaign.id}`)
+    }
+
+    const now = new Date()
+    const recipients = await resolveCampaignRecipients(payload, campaign, {
+        fingerprintHash: params.fingerprintHash,
+        tokenIds: params.tokenIds,
+    })
+    await job.progress(0, recipients.length, `Sending ${campaign.name}`)
+
+    const cooldownHours = campaign.rateLimiting?.cooldownHours ?? 24
+    const history = await loadDeliveryHistory(payload, campaign.id, new Date(now.getTime() - (cooldownHours + 1) * HOUR_MS), now)
+    const gate = gateRecipients(recipients, campaign, history, now)
+
+    const { sent, failed } = await sendCampaignToTokens(payload, campaign, template, gate.deliver)
+    if (gate.deferred.length > 0) {
+        await queueDeferredSends(payload, campaign.id, gate.deferred)
+    }
+    await job.progress(recipients.length, recipients.length)
+
+    return { sent, failed, deferred: gate.deferred.length, skipped: gate.skipped.cooldown }
+}
@@ -0,0 +1,301 @@
+import type { Payload } from 'payload'
+import { MANUFACTURER_REPLY, formatManufacturerReply } from '../lib/legal-copy'
+import { escapeHtml } from './escape-html'
+
+/**
+ * Manufacturer Dispute SLA Engine
+ *
+ * Disputes must be answered within 14 business days (MANUFACTURER_REPLY.CONFIRMATION).
+ * The engine runs on a schedule and, for every open dispute:
+ * - flags the dispute once its deadline has passed (slaBreached)
+ * - escalates priority as the deadline approaches (high) and when breached (urgent)
+ * - records each escalation in the dispute's embedded auditLog
+ * - emails the assignee (or admins, when unassigned) about the escalation
+ *
+ * Priority is never lowered and each escalation is recorded once, so repeated
+ * runs are safe.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DisputePriority = 'low' | 'normal' | 'high' | 'urgent'
+
+export type SlaState = 'on_track' | 'at_risk' | 'breached' | 'closed'
+
+export interface SlaDispute {
+    id: number
+    referenceNumber: string
+    status: string
+    priority?: DisputePriority | null
+    slaDeadline?: string | null
+    slaBreached?: boolean | null
+    companyName?: string | null
+    disputeType?: string | null
+    assignedTo?: number | { id: number; email?: string | null } | null
+    auditLog?: Array<{ timestamp?: string | null; action?: string | null; notes?: string | null }> | null
+}
+
+export interface SlaAssessment {
+    state: SlaState
+    /** Hours until the deadline (negative once overdue), null without a deadline */
+    hoursRemaining: number | null
+    /** Priority the dispute should have; never lower than its current priority */
+    priority: DisputePriority
+    /** Whether the dispute needs updating (newly breached or escalated) */
+    changed: boolean
+    newlyBreached: boolean
+}
+
+export interface SlaRunResult {
+    checked: number
+    breached: number
+    escalated: number
+    notified: number
+    errors: number
+}
+
+export type ReplyTemplateKey = keyof typeof MANUFACTURER_REPLY.RESPONSES
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SLA_BUSINESS_DAYS = 14
+
+/** Disputes due within this many hours are escalated to high priority */
+export const SLA_AT_RISK_HOURS = 48
+
+const PRIORITY_ORDER: DisputePriority[] = ['low', 'normal', 'high', 'urgent']
+
+const STATUS_TEMPLATES: Record<string, ReplyTemplateKey> = {
+    pending: 'ACKNOWLEDGEMENT',
+    investigating: 'UNDER_REVIEW',
+    awaiting_lab: 'AWAITING_LAB',
+    awaiting_manufacturer: 'AWAITING_MANUFACTURER',
+    resolved_updated: 'RESOLVED_UPDATED',
+    resolved_no_change: 'RESOLVED_NO_CHANGE',
+    resolved_retested: 'RESOLVED_RETESTED',
+    closed_insufficient: 'CLOSED_INSUFFICIENT',
+    closed_no_response: 'CLOSED_NO_RESPONSE',
+}
+
+const CLOSED_STATUSES = Object.keys(STATUS_TEMPLATES).filter(status => !isDisputeOpen(status))
+
+const PAGE_SIZE = 100
+const HOUR_MS = 60 * 60 * 1000
+
+// ============================================
+// SLA RULES
+// ============================================
+
+/**
+ * Add business days (Mon-Fri) to a date.
+ */
+export function addBusinessDays(from: Date, days: number): Date {
+    const result = new Date(from)
+    let added = 0
+    while (added < days) {
+        result.setDate(result.getDate() + 1)
+        const day = result.getDay()
+        if (day !== 0 && day !== 6) added++
+    }
+    return result
+}
+
+/**
+ * Whether a dispute status still needs a response.
+ */
+export function isDisputeOpen(status: string | null | undefined): boolean {
+    return !status?.startsWith('resolved_') && !status?.startsWith('closed_')
+}
+
+function maxPriority(a: DisputePriority, b: DisputePriority): DisputePriority {
+    return PRIORITY_ORDER.indexOf(a) >= PRIORITY_ORDER.indexOf(b) ? a : b
+}
+
+/**
+ * Assess a dispute against its SLA deadline.
+ */
+export function assessDisputeSla(dispute: SlaDispute, now: Date = new Date()): SlaAssessment {
+    const current = dispute.priority || 'normal'
+
+    if (!isDisputeOpen(dispute.status)) {
+        return { state: 'closed', hoursRemaining: null, priority: current, changed: false, newlyBreached: false }
+    }
+    if (!dispute.slaDeadline) {
+        return { state: 'on_track', hoursRemaining: null, priority: current, changed: false, newlyBreached: false }
+    }
+
+    const msRemaining = new Date(dispute.slaDeadline).getTime() - now.getTime()
+    const hoursRemaining = Math.round(msRemaining / HOUR_MS)
+    const state: SlaState = msRemaining < 0 ? 'breached' : msRemaining <= SLA_AT_RISK_HOURS * HOUR_MS ? 'at_risk' : 'on_track'
+
+    const target = state === 'breached' ? 'urgent' : state === 'at_risk' ? 'high' : current
+    const priority = maxPriority(current, target)
+    const newlyBreached = state === 'breached' && !dispute.slaBreached
+
+    return { state, hoursRemaining, priority, changed: newlyBreached || priority !== current, newlyBreached }
+}
+
+// ============================================
+// TEMPLATED RESPONSES
+// ============================================
+
+/**
+ * Reply template for a dispute status.
+ */
+export function getReplyTemplateKey(status: string): ReplyTemplateKey {
+    return STATUS_TEMPLATES[status] || 'UNDER_REVIEW'
+}
+
+function formatDate(value: string | null | undefined): string | undefined {
+    return value ? new Date(value).toISOString().slice(0, 10) : undefined
+}
+
+/**
+ * Render the templated manufacturer reply for a dispute's current status.
+ */
+export function buildManufacturerReply(
+    dispute: {
+        referenceNumber: string
+        status: string
+        submittedAt?: string | null
+        slaDeadline?: string | null
+        updateDescription?: string | null
+    },
+    productName?: string | null
+): string {
+    const template = MANUFACTURER_REPLY.RESPONSES[getReplyTemplateKey(dispute.status)]
+    return formatManufacturerReply(template, {
+        referenceNumber: dispute.referenceNumber,
+        productName: productName || 'your product',
+        submittedDate: formatDate(dispute.submittedAt),
+        slaDeadline: formatDate(dispute.slaDeadline),
+        updateDescription: dispute.updateDescription,
+    })
+}
+
+// ============================================
+// ENGINE
+// ============================================
+
+function describeEscalation(dispute: SlaDispute, assessment: SlaAssessment): string {
+    if (assessment.newlyBreached) {
+        return `SLA deadline passed ${Math.abs(assessment.hoursRemaining || 0)}h ago; priority ${dispute.priority || 'normal'} -> ${assessment.priority}`
+    }
+    return `SLA deadline in ${assessment.hoursRemaining}h; priority ${dispute.priority || 'normal'} -> ${assessment.priority}`
+}
+
+async function getEscalationRecipients(payload: Payload, dispute: SlaDispute): Promise<string[]> {
+    const assigneeId = typeof dispute.assignedTo === 'object' ? dispute.assignedTo?.id : dispute.assignedTo
+    if (assigneeId) {
+        try {
+            const assignee = await payload.findByID({ collection: 'users', id: assigneeId, depth: 0 })
+            if (assignee?.email) return [assignee.email]
+        } catch {
+            // Assignee was removed - fall back to admins
+        }
+    }
+
+    const admins = await payload.find({
+        collection: 'users',
+        where: { role: { equals: 'admin' } },
+        limit: 10,
+        depth: 0,
+    })
+    return admins.docs.map(admin => admin.email).filter((email): email is string => !!email)
+}
+
+async function notifyEscalation(payload: Payload, dispute: SlaDispute, assessment: SlaAssessment): Promise<boolean> {
+    const recipients = await getEscalationRecipients(payload, dispute)
+    if (recipients.length === 0) return false
+
+    const heading = assessment.state === 'breached' ? 'SLA breached' : 'SLA deadline approaching'
+    const adminUrl = `${process.env.NEXT_PUBLIC_SERVER_URL || ''}/admin/collections/manufacturer-disputes/${dispute.id}`
+
+    await payload.sendEmail({
+        to: recipients.join(','),
+        subject: `[Dispute ${assessment.priority.toUpperCase()}] ${dispute.referenceNumber}: ${heading}`,
+        html: `
+            <h2>${heading}: ${dispute.referenceNumber}</h2>
+            <p><strong>Company:</strong> ${escapeHtml(dispute.companyName || 'Unknown')}</p>
+            <p><strong>Dispute type:</strong> ${dispute.disputeType || 'other'}</p>
+            <p><strong>Status:</strong> ${dispute.status}</p>
+            <p><strong>Deadline:</strong> ${dispute.slaDeadline}</p>
+            <p><strong>Priority:</strong> ${assessment.priority}</p>
+            <p><a href="${adminUrl}">Open dispute</a></p>
+        `,
+    })
+    return true
+}
+
+/**
+ * Check every open dispute against its SLA, escalate and notify.
+ */
+export async function runDisputeSlaEngine(payload: Payload, now: Date = new Date()): Promise<SlaRunResult> {
+    const result: SlaRunResult = { checked: 0, breached: 0, escalated: 0, notified: 0, errors: 0 }
+    const due: Array<{ dispute: SlaDispute; assessment: SlaAssessment }> = []
+    let page = 1
+
+    // Collect first, then update, so page boundaries don't shift under us
+    while (true) {
+        const batch = await payload.find({
+            collection: 'manufacturer-disputes',
+            where: { status: { not_in: CLOSED_STATUSES } },
+            sort: 'slaDeadline',
+            limit: PAGE_SIZE,
+            page,
+            depth: 0,
+            overrideAccess: true,
+        })
+
+        for (const dispute of batch.docs as unknown as SlaDispute[]) {
+            result.checked++
+            const assessment = assessDisputeSla(dispute, now)
+            if (assessment.changed) due.push({ dispute, assessment })
+        }
+
+        if (!batch.hasNextPage) break
+        page++
+    }
+
+    for (const { dispute, assessment } of due) {
+        try {
+            const notes = describeEscalation(dispute, assessment)
+            await payload.update({
+                collection: 'manufacturer-disputes',
+                id: dispute.id,
+                data: {
+                    slaBreached: assessment.state === 'breached' || !!dispute.slaBreached,
+                    priority: assessment.priority,
+                    auditLog: [
+                        ...(dispute.auditLog || []),
+                        {
+                            timestamp: now.toISOString(),
+                            action: assessment.newlyBreached ? 'sla_breached' : 'sla_escalated',
+                            notes,
+                        },
+                    ],
+                },
+                overrideAccess: true,
+            })
+
+            if (assessment.newlyBreached) result.breached++
+            if (assessment.priority !== (dispute.priority || 'normal')) result.escalated++
+            console.log(`[Dispute SLA] ${dispute.referenceNumber}: ${notes}`)
+
+            try {
+                if (await notifyEscalation(payload, dispute, assessment)) result.notified++
+            } catch (emailError) {
+                console.error(`[Dispute SLA] Failed to notify for ${dispute.referenceNumber}:`, emailError)
+            }
+        } catch (error) {
+            result.errors++
+            console.error(`[Dispute SLA] Failed to escalate ${dispute.referenceNumber}:`, error)
+        }
+    }
+
+    return result
+}
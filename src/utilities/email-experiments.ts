@@ -0,0 +1,505 @@
+import type { Payload } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+
+/**
+ * Email Experiments
+ *
+ * N-variant tests on EmailTemplates. Variant A is the template's own
+ * content (control); `variants` adds up to five challengers (B-F) that can
+ * override subject, preheader, headline, body and CTA. While a template is
+ * in status "ab_testing" every send is randomly assigned an arm by weight
+ * and the arm is stored on EmailSends.abVariant.
+ *
+ * Results come from the open/click events the Resend webhook writes onto
+ * email-sends. Each challenger is compared with control using a pooled
+ * two-proportion z-test, Bonferroni-corrected for the number of
+ * challengers. The test is fixed-horizon: it is evaluated once, after the
+ * holdout period and once every arm has minSampleSize sends, so repeated
+ * looks at the data can't inflate the false-positive rate.
+ *
+ * The hourly /api/cron/email-experiments job records the winner in
+ * stats.abTestWinner and (with autoPromote) copies the winning content
+ * onto the template.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export const EMAIL_VARIANT_KEYS = ['A', 'B', 'C', 'D', 'E', 'F'] as const
+
+export type EmailVariantKey = typeof EMAIL_VARIANT_KEYS[number]
+
+export type ExperimentMetric = 'open' | 'click'
+
+/** Fields a challenger may override */
+export interface EmailContent {
+    subject: string
+    preheader?: string | null
+    headline?: string | null
+    body?: unknown
+    ctaText?: string | null
+    ctaUrl?: string | null
+}
+
+export interface EmailVariant extends Partial<EmailContent> {
+    key?: string | null
+    weight?: number | null
+}
+
+export interface ExperimentSettings {
+    metric?: ExperimentMetric | null
+    /** Percent, e.g. 95 */
+    confidenceLevel?: number | null
+    holdoutHours?: number | null
+    minSampleSize?: number | null
+    controlWeight?: number | null
+    autoPromote?: boolean | null
+    startedAt?: string | null
+    concludedAt?: string | null
+}
+
+export interface ExperimentTemplate extends EmailContent {
+    id: number | string
+    status?: string | null
+    subjectVariantB?: string | null
+    variants?: EmailVariant[] | null
+    experiment?: ExperimentSettings | null
+    stats?: Record<string, unknown> | null
+}
+
+export interface ExperimentArm {
+    key: EmailVariantKey
+    weight: number
+    /** Overrides on top of the template content; empty for control */
+    content: Partial<EmailContent>
+}
+
+export interface ArmCounts {
+    key: EmailVariantKey
+    sent: number
+    opened: number
+    clicked: number
+}
+
+export interface Interval {
+    low: number
+    high: number
+}
+
+export interface ArmResult extends ArmCounts {
+    conversions: number
+    rate: number
+    /** Wilson score interval for the rate */
+    interval: Interval
+    /** Challengers only: difference to control (Newcombe interval) and z-test */
+    vsControl?: {
+        difference: number
+        interval: Interval
+        pValue: number
+        significant: boolean
+    }
+}
+
+export interface ExperimentAnalysis {
+    metric: ExperimentMetric
+    confidenceLevel: number
+    /** Per-comparison level after the Bonferroni correction */
+    adjustedConfidenceLevel: number
+    arms: ArmResult[]
+    /** Null until the experiment can be evaluated */
+    winner: EmailVariantKey | 'tie' | null
+    pending?: 'holdout' | 'sample'
+    evaluateAfter: string | null
+}
+
+export interface ExperimentRunResult {
+    checked: number
+    started: number
+    concluded: number
+    promoted: number
+    pending: number
+    errors: string[]
+}
+
+export const EXPERIMENT_DEFAULTS = {
+    metric: 'open' as ExperimentMetric,
+    confidenceLevel: 95,
+    holdoutHours: 48,
+    minSampleSize: 100,
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+function isVariantKey(value: unknown): value is EmailVariantKey {
+    return typeof value === 'string' && (EMAIL_VARIANT_KEYS as readonly string[]).includes(value)
+}
+
+// ============================================
+// ASSIGNMENT
+// ============================================
+
+/**
+ * Arms of a template's experiment, control first. Templates that only
+ * have the legacy subjectVariantB run as a two-arm subject test.
+ */
+export function getExperimentArms(template: Pick<ExperimentTemplate, 'subjectVariantB' | 'variants' | 'experiment'>): ExperimentArm[] {
+    const weightOf = (weight: number | null | undefined) => (typeof weight === 'number' && weight >= 0 ? weight : 1)
+    const arms: ExperimentArm[] = [{ key: 'A', weight: weightOf(template.experiment?.controlWeight), content: {} }]
+
+    for (const variant of template.variants || []) {
+        if (!isVariantKey(variant.key) || arms.some(arm => arm.key === variant.key)) continue
+        const content: Partial<EmailContent> = {}
+        for (const field of ['subject', 'preheader', 'headline', 'ctaText', 'ctaUrl'] as const) {
+            const value = variant[field]
+            if (typeof value === 'string' && value.trim()) content[field] = value
+        }
+        if (variant.body) content.body = variant.body
+        arms.push({ key: variant.key, weight: weightOf(variant.weight), content })
+    }
+
+    if (arms.length === 1 && template.subjectVariantB) {
+        arms.push({ key: 'B', weight: 1, content: { subject: template.subjectVariantB } })
+    }
+    return arms
+}
+
+/**
+ * Whether sends of this template are split between arms
+ */
+export function isExperimentRunning(template: Pick<ExperimentTemplate, 'status' | 'subjectVariantB' | 'variants' | 'experiment'>): boolean {
+    return template.status === 'ab_testing' && getExperimentArms(template).length > 1
+}
+
+/**
+ * Weighted random arm; `random` returns a number in [0, 1)
+ */
+export function assignVariant(arms: ExperimentArm[], random: () => number = Math.random): ExperimentArm {
+    const total = arms.reduce((sum, arm) => sum + arm.weight, 0)
+    if (total <= 0) return arms[0]
+    let point = random() * total
+    for (const arm of arms) {
+        if (arm.weight <= 0) continue
+        if (point < arm.weight) return arm
+        point -= arm.weight
+    }
+    return arms.filter(arm => arm.weight > 0).pop() || arms[0]
+}
+
+/**
+ * Content an arm sends: the template, with the arm's overrides applied
+ */
+export function applyVariant<T extends EmailContent>(template: T, arm: ExperimentArm): T {
+    return { ...template, ...arm.content }
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+/**
+ * Standard normal CDF (Abramowitz & Stegun 7.1.26, error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2
+    const t = 1 / (1 + 0.3275911 * x)
+    const poly = ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t
+    const erf = 1 - poly * Math.exp(-x * x)
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation)
+ */
+export function normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity
+    if (p >= 1) return Infinity
+
+    const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239]
+    const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1]
+    const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+    const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416]
+    const tail = (q: number) =>
+        (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+
+    if (p < 0.02425) return tail(Math.sqrt(-2 * Math.log(p)))
+    if (p > 1 - 0.02425) return -tail(Math.sqrt(-2 * Math.log(1 - p)))
+
+    const q = p - 0.5
+    const r = q * q
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+        (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+/**
+ * Wilson score interval for `successes` out of `trials`
+ */
+export function wilsonInterval(successes: number, trials: number, confidence: number): Interval {
+    if (trials <= 0) return { low: 0, high: 1 }
+    const z = normalQuantile(1 - (1 - confidence) / 2)
+    const p = successes / trials
+    const z2n = (z * z) / trials
+    const center = (p + z2n / 2) / (1 + z2n)
+    const half = (z * Math.sqrt(p * (1 - p) / trials + z2n / (4 * trials))) / (1 + z2n)
+    return { low: Math.max(0, center - half), high: Math.min(1, center + half) }
+}
+
+/**
+ * Two-sided pooled z-test for a difference between two proportions
+ */
+export function twoProportionPValue(successesA: number, trialsA: number, successesB: number, trialsB: number): number {
+    if (trialsA <= 0 || trialsB <= 0) return 1
+    const pooled = (successesA + successesB) / (trialsA + trialsB)
+    const se = Math.sqrt(pooled * (1 - pooled) * (1 / trialsA + 1 / trialsB))
+    if (se === 0) return 1
+    const z = (successesB / trialsB - successesA / trialsA) / se
+    return Math.min(1, 2 * (1 - normalCdf(Math.abs(z))))
+}
+
+/**
+ * Newcombe (hybrid Wilson) interval for rate(B) - rate(A)
+ */
+export function differenceInterval(successesA: number, trialsA: number, successesB: number, trialsB: number, confidence: number): Interval {
+    const pA = trialsA > 0 ? successesA / trialsA : 0
+    const pB = trialsB > 0 ? successesB / trialsB : 0
+    const a = wilsonInterval(successesA, trialsA, confidence)
+    const b = wilsonInterval(successesB, trialsB, confidence)
+    const difference = pB - pA
+    return {
+        low: difference - Math.sqrt((pB - b.low) ** 2 + (a.high - pA) ** 2),
+        high: difference + Math.sqrt((b.high - pB) ** 2 + (pA - a.low) ** 2),
+    }
+}
+
+/**
+ * Rates, intervals and (once the holdout and sample size are met) the
+ * winner. A challenger wins when it beats control significantly (the best
+ * rate if several do); control wins when every challenger is significantly
+ * worse; anything else is a tie and control is kept.
+ */
+export function analyzeExperiment(
+    counts: ArmCounts[],
+    settings: ExperimentSettings,
+    now: Date = new Date()
+): ExperimentAnalysis {
+    const metric = settings.metric || EXPERIMENT_DEFAULTS.metric
+    const confidenceLevel = Math.min(99.9, Math.max(50, settings.confidenceLevel || EXPERIMENT_DEFAULTS.confidenceLevel))
+    const holdoutHours = settings.holdoutHours ?? EXPERIMENT_DEFAULTS.holdoutHours
+    const minSampleSize = settings.minSampleSize ?? EXPERIMENT_DEFAULTS.minSampleSize
+
+    const ordered = [...counts].sort((a, b) => EMAIL_VARIANT_KEYS.indexOf(a.key) - EMAIL_VARIANT_KEYS.indexOf(b.key))
+    const control = ordered.find(arm => arm.key === 'A') || { key: 'A' as const, sent: 0, opened: 0, clicked: 0 }
+    const challengers = ordered.filter(arm => arm.key !== 'A')
+
+    const alpha = 1 - confidenceLevel / 100
+    const adjustedAlpha = alpha / Math.max(1, challengers.length)
+    const conversionsOf = (arm: ArmCounts) => (metric === 'click' ? arm.clicked : arm.opened)
+    const controlConversions = conversionsOf(control)
+
+    const describe = (arm: ArmCounts): ArmResult => {
+        const conversions = conversionsOf(arm)
+        return {
+            ...arm,
+            conversions,
+            rate: arm.sent > 0 ? conversions / arm.sent : 0,
+            interval: wilsonInterval(conversions, arm.sent, 1 - alpha),
+        }
+    }
+
+    const arms: ArmResult[] = [describe(control)]
+    for (const arm of challengers) {
+        const result = describe(arm)
+        const pValue = twoProportionPValue(controlConversions, control.sent, result.conversions, arm.sent)
+        result.vsControl = {
+            difference: result.rate - arms[0].rate,
+            interval: differenceInterval(controlConversions, control.sent, result.conversions, arm.sent, 1 - adjustedAlpha),
+            pValue,
+            significant: pValue < adjustedAlpha,
+        }
+        arms.push(result)
+    }
+
+    const startedAt = settings.startedAt ? new Date(settings.startedAt) : null
+    const evaluateAfter = startedAt ? new Date(startedAt.getTime() + holdoutHours * HOUR_MS) : null
+    const analysis: ExperimentAnalysis = {
+        metric,
+        confidenceLevel,
+        adjustedConfidenceLevel: Math.round((1 - adjustedAlpha) * 10000) / 100,
+        arms,
+        winner: null,
+        evaluateAfter: evaluateAfter ? evaluateAfter.toISOString() : null,
+    }
+
+    if (challengers.length === 0 || !evaluateAfter || now < evaluateAfter) {
+        analysis.pending = 'holdout'
+        return analysis
+    }
+    if (arms.some(arm => arm.sent < minSampleSize)) {
+        analysis.pending = 'sample'
+        return analysis
+    }
+
+    const better = arms.filter(arm => arm.vsControl?.significant && arm.vsControl.difference > 0)
+    if (better.length > 0) {
+        analysis.winner = better.reduce((best, arm) => (arm.rate > best.rate ? arm : best)).key
+    } else if (arms.slice(1).every(arm => arm.vsControl?.significant && arm.vsControl.difference < 0)) {
+        analysis.winner = 'A'
+    } else {
+        analysis.winner = 'tie'
+    }
+    return analysis
+}
+
+// ============================================
+// DATA
+// ============================================
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Array<Record<string, unknown>> }>
+
+/**
+ * Sends, opens and clicks per arm since the experiment started. Bounced
+ * sends can never convert and are left out; a click counts as an open
+ * since opens go unreported when the client blocks images.
+ */
+export async function loadExperimentCounts(
+    payload: Payload,
+    templateId: number | string,
+    options: { since: Date; until?: Date | null; keys?: EmailVariantKey[] }
+): Promise<ArmCounts[]> {
+    const execute = (payload.db as unknown as { drizzle: { execute: Execute } }).drizzle.execute.bind(
+        (payload.db as unknown as { drizzle: unknown }).drizzle
+    )
+    const until = options.until ? options.until.toISOString() : null
+    const result = await execute(sql`
+        SELECT
+            "ab_variant"::text AS "variant",
+            count(*)::int AS "sent",
+            count(*) FILTER (
+                WHERE "opened_at" IS NOT NULL OR "clicked_at" IS NOT NULL OR "status" IN ('opened', 'clicked')
+            )::int AS "opened",
+            count(*) FILTER (WHERE "clicked_at" IS NOT NULL OR "status" = 'clicked')::int AS "clicked"
+        FROM "email_sends"
+        WHERE "template_id" = ${Number(templateId)}
+          AND "sent_at" >= ${options.since.toISOString()}
+          AND (${until}::timestamptz IS NULL OR "sent_at" <= ${until}::timestamptz)
+          AND "status" IS DISTINCT FROM 'bounced'
+        GROUP BY "ab_variant"
+    `)
+
+    const byKey = new Map<EmailVariantKey, ArmCounts>()
+    for (const key of ['A' as const, ...(options.keys || [])]) {
+        byKey.set(key, { key, sent: 0, opened: 0, clicked: 0 })
+    }
+    for (const row of result.rows) {
+        const key = isVariantKey(row.variant) ? row.variant : 'A'
+        const arm = byKey.get(key) || { key, sent: 0, opened: 0, clicked: 0 }
+        arm.sent += Number(row.sent) || 0
+        arm.opened += Number(row.opened) || 0
+        arm.clicked += Number(row.clicked) || 0
+        byKey.set(key, arm)
+    }
+    return [...byKey.values()]
+}
+
+/**
+ * Current results of a template's experiment (running or concluded)
+ */
+export async function getExperimentResults(
+    payload: Payload,
+    template: ExperimentTemplate,
+    now: Date = new Date()
+): Promise<ExperimentAnalysis | null> {
+    const settings = template.experiment || {}
+    if (!settings.startedAt) return null
+    const counts = await loadExperimentCounts(payload, template.id, {
+        since: new Date(settings.startedAt),
+        until: settings.concludedAt ? new Date(settings.concludedAt) : null,
+        keys: getExperimentArms(template).map(arm => arm.key),
+    })
+    return analyzeExperiment(counts, settings, now)
+}
+
+/**
+ * Record the winner, end the experiment and, with autoPromote, make the
+ * winning arm's content the template's own
+ */
+async function concludeExperiment(
+    payload: Payload,
+    template: ExperimentTemplate,
+    winner: EmailVariantKey | 'tie',
+    now: Date
+): Promise<boolean> {
+    const arm = getExperimentArms(template).find(candidate => candidate.key === winner)
+    const promote = winner !== 'A' && winner !== 'tie' && !!arm && template.experiment?.autoPromote !== false
+
+    await payload.update({
+        collection: 'email-templates',
+        id: template.id,
+        data: {
+            ...(promote ? { ...arm.content, variants: [], subjectVariantB: null } : {}),
+            status: 'active',
+            experiment: { ...template.experiment, concludedAt: now.toISOString() },
+            stats: { ...template.stats, abTestWinner: winner },
+        } as Record<string, unknown>,
+        overrideAccess: true,
+    })
+    return promote
+}
+
+/**
+ * One pass over running experiments: start the holdout clock where it
+ * isn't set, evaluate the ones past it and conclude those with a result
+ */
+export async function runEmailExperiments(payload: Payload, now: Date = new Date()): Promise<ExperimentRunResult> {
+    const result: ExperimentRunResult = { checked: 0, started: 0, concluded: 0, promoted: 0, pending: 0, errors: [] }
+
+    const { docs } = await payload.find({
+        collection: 'email-templates',
+        where: { status: { equals: 'ab_testing' } },
+        limit: 100,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    for (const template of docs as unknown as ExperimentTemplate[]) {
+        result.checked++
+        try {
+            if (!isExperimentRunning(template)) continue
+
+            if (!template.experiment?.startedAt) {
+                await payload.update({
+                    collection: 'email-templates',
+                    id: template.id,
+                    data: {
+                        experiment: { ...template.experiment, startedAt: now.toISOString(), concludedAt: null },
+                        stats: { ...template.stats, abTestWinner: 'pending' },
+                    } as Record<string, unknown>,
+                    overrideAccess: true,
+                })
+                result.started++
+                continue
+            }
+
+            const analysis = await getExperimentResults(payload, template, now)
+            if (!analysis?.winner) {
+                result.pending++
+                continue
+            }
+
+            const promoted = await concludeExperiment(payload, template, analysis.winner, now)
+            result.concluded++
+            if (promoted) result.promoted++
+            console.log(
+                `[Email Experiments] Template ${template.id} concluded: ${analysis.winner}` +
+                (promoted ? ' (promoted)' : '')
+            )
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            console.error(`[Email Experiments] Template ${template.id} failed:`, message)
+            result.errors.push(`Template ${template.id}: ${message}`)
+        }
+    }
+
+    return result
+}
@@ -13,6 +13,7 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import type { Payload } from 'payload'
+import { inlineJob, type JobContext } from './job-queue'
 
 // Initialize Gemini client
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '')
@@ -336,6 +337,91 @@ export async function findProductsWithoutEmbeddings(
   })
 }
 
+/**
+ * Load specific published products for embedding
+ */
+export async function findProductsByIds(
+  payload: Payload,
+  productIds: unknown[]
+): Promise<ProductTextInput[]> {
+  const ids = productIds.map(Number).filter((id) => Number.isInteger(id) && id > 0)
+  if (ids.length === 0) return []
+
+  const db = payload.db as {
+    drizzle: {
+      execute: (query: unknown) => Promise<{ rows: unknown[] }>
+    }
+  }
+
+  const result = await db.drizzle.execute(
+    `SELECT
+       p.id,
+       p.name,
+       p.brand,
+       p.summary,
+       p.verdict_reason as "verdictReason",
+       c.name as "category"
+     FROM products p
+     LEFT JOIN categories c ON p.category_id = c.id
+     WHERE p.id IN (${ids.join(',')})
+       AND p.status = 'published'
+       AND p.name IS NOT NULL
+       AND p.brand IS NOT NULL`
+  )
+
+  return (result.rows as unknown[]).map((row: unknown) => {
+    const r = row as {
+      id: number
+      name: string
+      brand: string
+      summary?: string | null
+      verdictReason?: string | null
+      category?: string | null
+    }
+    return {
+      id: r.id,
+      name: r.name,
+      brand: r.brand,
+      summary: r.summary,
+      verdictReason: r.verdictReason,
+      category: r.category,
+    }
+  })
+}
+
+// Products per Gemini batch call when running as a job
+const JOB_CHUNK_SIZE = 10
+
+/**
+ * Embed specific products, or the next batch missing embeddings.
+ * Runs as the 'embed-products' job.
+ */
+export async function runEmbedProducts(
+  payload: Payload,
+  params: { productIds?: unknown[]; batchSize?: number },
+  job: JobContext = inlineJob
+): Promise<{ processed: number; productIds: number[]; stats: Awaited<ReturnType<typeof getEmbeddingStats>> }> {
+  const products = params.productIds?.length
+    ? await findProductsByIds(payload, params.productIds)
+    : await findProductsWithoutEmbeddings(payload, params.batchSize || 50)
+
+  const embedded: number[] = []
+  for (let i = 0; i < products.length; i += JOB_CHUNK_SIZE) {
+    await job.progress(i, products.length, `Embedding products ${i + 1}-${Math.min(i + JOB_CHUNK_SIZE, products.length)}`)
+    if (job.isCancelled()) break
+
+    const results = await embedProducts(payload, products.slice(i, i + JOB_CHUNK_SIZE))
+    embedded.push(...results.map((r) => r.productId))
+  }
+  await job.progress(embedded.length, products.length)
+
+  return {
+    processed: embedded.length,
+    productIds: embedded,
+    stats: await getEmbeddingStats(payload),
+  }
+}
+
 /**
  * Get embedding statistics
  */
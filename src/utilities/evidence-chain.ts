@@ -0,0 +1,290 @@
+import { createHash } from 'crypto'
+import type { Payload } from 'payload'
+import type { ReportVersion } from './report-versions'
+
+/**
+ * Evidence Chain Integrity
+ *
+ * Makes published lab evidence tamper-evident:
+ * - Media uploads are hashed (SHA-256) when the file is received
+ * - Products copy the hashes of their lab report (COA) and chain-of-custody
+ *   document into evidenceLocker
+ * - Every report version records those evidence hashes and is sealed with a
+ *   hash over its content plus the previous version's hash, forming a chain
+ *   where editing any past version breaks every later link
+ *
+ * The version hash covers versionNumber, publishedAt, snapshot, the evidence
+ * hashes and previousHash. changeReason / disputeReference / changes are
+ * annotations (a dispute may be credited to a version after it is published)
+ * and are deliberately not sealed.
+ *
+ * Versions created before sealing existed have no hash; the chain starts at
+ * the first sealed version.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface EvidenceHashes {
+    labReportHash?: string | null
+    chainOfCustodyHash?: string | null
+}
+
+export interface SealedReportVersion extends ReportVersion, EvidenceHashes {
+    previousHash?: string | null
+    hash?: string | null
+}
+
+export interface ChainLinkStatus {
+    versionNumber: number
+    publishedAt: string
+    hash: string | null
+    previousHash: string | null
+    status: 'valid' | 'unsealed' | 'hash_mismatch' | 'broken_link'
+}
+
+export interface ChainVerification {
+    valid: boolean
+    sealedVersions: number
+    unsealedVersions: number
+    /** First version whose hash or link does not verify */
+    brokenAt: number | null
+    links: ChainLinkStatus[]
+}
+
+export type EvidenceDocumentType = 'lab_report' | 'chain_of_custody'
+
+export interface EvidenceMatch {
+    productId: number
+    productName: string
+    productSlug?: string | null
+    documentType: EvidenceDocumentType
+    /** Whether this is the document currently attached to the report */
+    current: boolean
+    /** Report versions that were published with this document */
+    versions: Array<{ versionNumber: number; publishedAt: string; hash: string | null }>
+    /** Whether the product's version hash chain verifies */
+    chainValid: boolean
+}
+
+// ============================================
+// HASHING
+// ============================================
+
+const SHA256_PATTERN = /^[a-f0-9]{64}$/
+
+export function sha256Hex(data: Buffer | Uint8Array | string): string {
+    return createHash('sha256').update(data).digest('hex')
+}
+
+export function isSha256(value: unknown): value is string {
+    return typeof value === 'string' && SHA256_PATTERN.test(value)
+}
+
+/**
+ * JSON with object keys sorted at every level. Snapshots live in jsonb, which
+ * does not preserve key order, so hashes must not depend on it.
+ */
+export function canonicalJson(value: unknown): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null'
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`
+    }
+    const entries = Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+}
+
+/**
+ * Hash of the sealed content of a report version.
+ */
+export function computeVersionHash(version: SealedReportVersion): string {
+    return sha256Hex(canonicalJson({
+        versionNumber: version.versionNumber,
+        publishedAt: new Date(version.publishedAt).toISOString(),
+        snapshot: version.snapshot ?? null,
+        labReportHash: version.labReportHash || null,
+        chainOfCustodyHash: version.chainOfCustodyHash || null,
+        previousHash: version.previousHash || null,
+    }))
+}
+
+/**
+ * Link a new version to the chain and seal it.
+ */
+export function sealVersion<T extends SealedReportVersion>(version: T, previous?: SealedReportVersion | null): T {
+    const linked = { ...version, previousHash: previous?.hash || null }
+    return { ...linked, hash: computeVersionHash(linked) }
+}
+
+/**
+ * Whether the evidence attached to a product differs from what a version was
+ * published with.
+ */
+export function evidenceChanged(version: EvidenceHashes | null | undefined, evidence: EvidenceHashes): boolean {
+    return (version?.labReportHash || null) !== (evidence.labReportHash || null) ||
+        (version?.chainOfCustodyHash || null) !== (evidence.chainOfCustodyHash || null)
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+/**
+ * Recompute every sealed version's hash and check each link to its predecessor.
+ */
+export function verifyHashChain(versions: SealedReportVersion[]): ChainVerification {
+    const sorted = [...versions].sort((a, b) => a.versionNumber - b.versionNumber)
+    const links: ChainLinkStatus[] = []
+    let previous: SealedReportVersion | null = null
+    let brokenAt: number | null = null
+
+    for (const version of sorted) {
+        let status: ChainLinkStatus['status']
+        if (!version.hash) {
+            // Legacy versions are only acceptable before the chain starts
+            status = previous?.hash ? 'broken_link' : 'unsealed'
+        } else if (computeVersionHash(version) !== version.hash) {
+            status = 'hash_mismatch'
+        } else if ((version.previousHash || null) !== (previous?.hash || null)) {
+            status = 'broken_link'
+        } else {
+            status = 'valid'
+        }
+
+        if (brokenAt === null && (status === 'hash_mismatch' || status === 'broken_link')) {
+            brokenAt = version.versionNumber
+        }
+        links.push({
+            versionNumber: version.versionNumber,
+            publishedAt: version.publishedAt,
+            hash: version.hash || null,
+            previousHash: version.previousHash || null,
+            status,
+        })
+        previous = version
+    }
+
+    return {
+        valid: brokenAt === null,
+        sealedVersions: links.filter(l => l.status !== 'unsealed').length,
+        unsealedVersions: links.filter(l => l.status === 'unsealed').length,
+        brokenAt,
+        links,
+    }
+}
+
+// ============================================
+// MEDIA HASHES
+// ============================================
+
+interface HashedMedia {
+    id: number
+    url?: string | null
+    sha256?: string | null
+}
+
+/**
+ * SHA-256 of a media document's file. Files uploaded before hashing existed
+ * are downloaded once and the hash is backfilled.
+ */
+export async function resolveMediaHash(
+    payload: Payload,
+    media: number | HashedMedia | null | undefined
+): Promise<string | null> {
+    if (!media) return null
+
+    let doc = typeof media === 'object' ? media : null
+    if (!doc || (!doc.sha256 && !doc.url)) {
+        const id = typeof media === 'object' ? media.id : media
+        doc = (await payload.findByID({ collection: 'media', id, depth: 0, overrideAccess: true })) as unknown as HashedMedia
+    }
+    if (doc.sha256) return doc.sha256
+    if (!doc.url) return null
+
+    const url = doc.url.startsWith('http') ? doc.url : `${process.env.NEXT_PUBLIC_SERVER_URL || 'http://localhost:3000'}${doc.url}`
+    const response = await fetch(url)
+    if (!response.ok) {
+        throw new Error(`Failed to download media ${doc.id} for hashing: ${response.status}`)
+    }
+    const hash = sha256Hex(Buffer.from(await response.arrayBuffer()))
+
+    await payload.update({
+        collection: 'media',
+        id: doc.id,
+        data: { sha256: hash },
+        context: { mediaHashBackfill: true },
+        overrideAccess: true,
+    })
+    return hash
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+interface EvidenceProduct {
+    id: number
+    name: string
+    slug?: string | null
+    evidenceLocker?: { labReportHash?: string | null; labChainOfCustodyHash?: string | null } | null
+    reportVersions?: SealedReportVersion[] | null
+}
+
+/**
+ * Find published products whose current or past evidence matches a hash.
+ */
+export async function findEvidenceByHash(payload: Payload, hash: string): Promise<EvidenceMatch[]> {
+    const normalized = hash.trim().toLowerCase()
+    const result = await payload.find({
+        collection: 'products',
+        where: {
+            and: [
+                { status: { equals: 'published' } },
+                {
+                    or: [
+                        { 'evidenceLocker.labReportHash': { equals: normalized } },
+                        { 'evidenceLocker.labChainOfCustodyHash': { equals: normalized } },
+                        { 'reportVersions.labReportHash': { equals: normalized } },
+                        { 'reportVersions.chainOfCustodyHash': { equals: normalized } },
+                    ],
+                },
+            ],
+        },
+        limit: 20,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    const matches: EvidenceMatch[] = []
+    for (const product of result.docs as unknown as EvidenceProduct[]) {
+        const versions = product.reportVersions || []
+        const chainValid = verifyHashChain(versions).valid
+        const candidates: Array<{ type: EvidenceDocumentType; current: boolean; key: keyof EvidenceHashes }> = [
+            { type: 'lab_report', current: product.evidenceLocker?.labReportHash === normalized, key: 'labReportHash' },
+            { type: 'chain_of_custody', current: product.evidenceLocker?.labChainOfCustodyHash === normalized, key: 'chainOfCustodyHash' },
+        ]
+
+        for (const { type, current, key } of candidates) {
+            const published = versions
+                .filter(v => v[key] === normalized)
+                .map(v => ({ versionNumber: v.versionNumber, publishedAt: v.publishedAt, hash: v.hash || null }))
+            if (!current && published.length === 0) continue
+            matches.push({
+                productId: product.id,
+                productName: product.name,
+                productSlug: product.slug,
+                documentType: type,
+                current,
+                versions: published,
+                chainValid,
+            })
+        }
+    }
+
+    return matches
+}
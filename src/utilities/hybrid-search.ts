@@ -0,0 +1,445 @@
+import type { Payload } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import { generateEmbedding } from './embeddings'
+
+/**
+ * Hybrid Product Search
+ *
+ * Combines three signals into one ranking:
+ * - Keyword relevance: Postgres full-text (products.search_vector) plus
+ *   trigram word similarity on name/brand so typos still match
+ * - Semantic similarity: pgvector cosine distance over the product embeddings
+ * - Click feedback: which products people picked for the same (or a very
+ *   similar) query in search-queries
+ *
+ * Keyword and vector lists are merged with reciprocal rank fusion, then the
+ * click share for the query is added on top. Facets are computed over the
+ * fused candidate set with disjunctive counts (each facet ignores its own
+ * selection) so the UI can show how many results every option would give.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export const SEARCH_VERDICTS = ['recommend', 'caution', 'flagged', 'avoid'] as const
+export const SEARCH_PRICE_RANGES = ['$', '$$', '$$$', '$$$$'] as const
+
+export type SearchVerdict = typeof SEARCH_VERDICTS[number]
+export type SearchPriceRange = typeof SEARCH_PRICE_RANGES[number]
+
+export interface SearchFilters {
+    verdicts?: SearchVerdict[]
+    categoryIds?: number[]
+    brands?: string[]
+    priceRanges?: SearchPriceRange[]
+    testedOnly?: boolean
+}
+
+export interface SearchCandidate {
+    id: number
+    name: string
+    brand: string
+    verdict: string | null
+    categoryId: number | null
+    categoryName: string | null
+    priceRange: string | null
+    tested: boolean
+    imageUrl: string | null
+    summary: string | null
+    slug: string | null
+}
+
+export interface RankedSignal {
+    id: number
+    score: number
+}
+
+export interface FusionWeights {
+    keyword: number
+    vector: number
+    clicks: number
+    /** RRF damping constant; larger values flatten rank differences */
+    k: number
+}
+
+export interface FusedScore {
+    id: number
+    score: number
+    keywordRank: number | null
+    vectorRank: number | null
+    clicks: number
+}
+
+export interface FacetBucket {
+    value: string
+    label: string
+    count: number
+}
+
+export interface SearchFacets {
+    verdict: FacetBucket[]
+    category: FacetBucket[]
+    brand: FacetBucket[]
+    priceRange: FacetBucket[]
+    tested: { count: number }
+}
+
+export interface HybridSearchOptions {
+    filters?: SearchFilters
+    limit?: number
+    offset?: number
+    excludeIds?: number[]
+    weights?: Partial<FusionWeights>
+}
+
+export interface HybridSearchResult {
+    results: Array<SearchCandidate & {
+        score: number
+        matchedBy: Array<'keyword' | 'semantic' | 'clicks'>
+    }>
+    facets: SearchFacets
+    total: number
+    semantic: boolean
+}
+
+export const DEFAULT_FUSION_WEIGHTS: FusionWeights = {
+    keyword: 1,
+    vector: 1,
+    clicks: 1.5,
+    k: 60,
+}
+
+// Candidates pulled from each signal before fusion and filtering
+const CANDIDATES_PER_SIGNAL = 200
+// Clicks older than this stop influencing ranking
+const CLICK_WINDOW_DAYS = 90
+// Smoothing so a single click does not dominate a query
+const CLICK_PRIOR = 5
+// Past queries at least this similar (trigram) share their clicks
+const SIMILAR_QUERY_THRESHOLD = 0.5
+// Trigram word similarity needed for a fuzzy name/brand match
+const FUZZY_MATCH_THRESHOLD = 0.4
+// Cosine similarity below this is treated as no semantic match
+const MIN_VECTOR_SIMILARITY = 0.3
+
+// ============================================
+// PURE HELPERS
+// ============================================
+
+/**
+ * Normalize a query for click aggregation (case, whitespace, punctuation)
+ */
+export function normalizeSearchQuery(query: string): string {
+    return query
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}\s'-]/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+function toList(value: unknown): unknown[] {
+    if (value === undefined || value === null || value === '') return []
+    if (Array.isArray(value)) return value
+    return String(value).split(',')
+}
+
+/**
+ * Validate filters from a request body or query string. Unknown values are
+ * dropped rather than rejected so stale app versions keep working.
+ */
+export function parseSearchFilters(input: Record<string, unknown> | null | undefined): SearchFilters {
+    if (!input) return {}
+
+    const verdicts = toList(input.verdict ?? input.verdicts)
+        .map(v => String(v).trim().toLowerCase())
+        .filter((v): v is SearchVerdict => (SEARCH_VERDICTS as readonly string[]).includes(v))
+    const categoryIds = toList(input.category ?? input.categoryIds)
+        .map(Number)
+        .filter(id => Number.isInteger(id) && id > 0)
+    const brands = toList(input.brand ?? input.brands)
+        .map(b => String(b).trim())
+        .filter(b => b.length > 0 && b.length <= 200)
+    const priceRanges = toList(input.priceRange ?? input.priceRanges)
+        .map(p => String(p).trim())
+        .filter((p): p is SearchPriceRange => (SEARCH_PRICE_RANGES as readonly string[]).includes(p))
+    const testedOnly = input.testedOnly === true || input.testedOnly === 'true' || input.tested === 'true'
+
+    const filters: SearchFilters = {}
+    if (verdicts.length) filters.verdicts = [...new Set(verdicts)]
+    if (categoryIds.length) filters.categoryIds = [...new Set(categoryIds)]
+    if (brands.length) filters.brands = [...new Set(brands)]
+    if (priceRanges.length) filters.priceRanges = [...new Set(priceRanges)]
+    if (testedOnly) filters.testedOnly = true
+    return filters
+}
+
+type FacetKey = 'verdict' | 'category' | 'brand' | 'priceRange' | 'tested'
+
+function matchesFilters(candidate: SearchCandidate, filters: SearchFilters, ignore?: FacetKey): boolean {
+    if (ignore !== 'verdict' && filters.verdicts?.length) {
+        // Legacy 'avoid' rows are the same verdict as 'flagged'
+        const verdict = candidate.verdict === 'avoid' ? 'flagged' : candidate.verdict
+        const wanted: string[] = filters.verdicts.map(v => v === 'avoid' ? 'flagged' : v)
+        if (!verdict || !wanted.includes(verdict)) return false
+    }
+    if (ignore !== 'category' && filters.categoryIds?.length) {
+        if (!candidate.categoryId || !filters.categoryIds.includes(candidate.categoryId)) return false
+    }
+    if (ignore !== 'brand' && filters.brands?.length) {
+        const brand = candidate.brand.toLowerCase()
+        if (!filters.brands.some(b => b.toLowerCase() === brand)) return false
+    }
+    if (ignore !== 'priceRange' && filters.priceRanges?.length) {
+        if (!candidate.priceRange || !filters.priceRanges.includes(candidate.priceRange as SearchPriceRange)) return false
+    }
+    if (ignore !== 'tested' && filters.testedOnly && !candidate.tested) return false
+    return true
+}
+
+export function applySearchFilters(candidates: SearchCandidate[], filters: SearchFilters): SearchCandidate[] {
+    return candidates.filter(c => matchesFilters(c, filters))
+}
+
+function bucketize(
+    candidates: SearchCandidate[],
+    key: (c: SearchCandidate) => { value: string; label: string } | null,
+    limit?: number
+): FacetBucket[] {
+    const buckets = new Map<string, FacetBucket>()
+    for (const candidate of candidates) {
+        const entry = key(candidate)
+        if (!entry) continue
+        const bucket = buckets.get(entry.value)
+        if (bucket) bucket.count++
+        else buckets.set(entry.value, { ...entry, count: 1 })
+    }
+    const sorted = [...buckets.values()].sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    return limit ? sorted.slice(0, limit) : sorted
+}
+
+/**
+ * Disjunctive facet counts: each facet is counted over candidates matching
+ * every other active filter, so selecting one verdict still shows counts
+ * for the others.
+ */
+export function computeSearchFacets(candidates: SearchCandidate[], filters: SearchFilters): SearchFacets {
+    const except = (facet: FacetKey) => candidates.filter(c => matchesFilters(c, filters, facet))
+
+    return {
+        verdict: bucketize(except('verdict'), c => {
+            if (!c.verdict) return null
+            const verdict = c.verdict === 'avoid' ? 'flagged' : c.verdict
+            return { value: verdict, label: verdict.charAt(0).toUpperCase() + verdict.slice(1) }
+        }),
+        category: bucketize(except('category'), c =>
+            c.categoryId ? { value: String(c.categoryId), label: c.categoryName || `Category ${c.categoryId}` } : null, 20),
+        brand: bucketize(except('brand'), c =>
+            c.brand ? { value: c.brand, label: c.brand } : null, 20),
+        priceRange: bucketize(except('priceRange'), c =>
+            c.priceRange ? { value: c.priceRange, label: c.priceRange } : null)
+            .sort((a, b) => a.value.length - b.value.length),
+        tested: { count: except('tested').filter(c => c.tested).length },
+    }
+}
+
+/**
+ * Reciprocal rank fusion of keyword and vector rankings plus a click boost.
+ *
+ * Each list contributes weight / (k + rank). The click boost is the
+ * product's smoothed share of clicks for the query, scaled so a product
+ * that gets every click is worth about as much as ranking first in one list.
+ */
+export function fuseSearchRankings(
+    keyword: RankedSignal[],
+    vector: RankedSignal[],
+    clicks: Map<number, number>,
+    weights: Partial<FusionWeights> = {}
+): FusedScore[] {
+    const w = { ...DEFAULT_FUSION_WEIGHTS, ...weights }
+    const scores = new Map<number, FusedScore>()
+    const entry = (id: number) => {
+        let score = scores.get(id)
+        if (!score) {
+            score = { id, score: 0, keywordRank: null, vectorRank: null, clicks: 0 }
+            scores.set(id, score)
+        }
+        return score
+    }
+
+    const byScore = (a: RankedSignal, b: RankedSignal) => b.score - a.score
+    ;[...keyword].sort(byScore).forEach((signal, index) => {
+        const score = entry(signal.id)
+        score.keywordRank = index + 1
+        score.score += w.keyword / (w.k + index + 1)
+    })
+    ;[...vector].sort(byScore).forEach((signal, index) => {
+        const score = entry(signal.id)
+        score.vectorRank = index + 1
+        score.score += w.vector / (w.k + index + 1)
+    })
+
+    const totalClicks = [...clicks.values()].reduce((sum, n) => sum + n, 0)
+    for (const [id, count] of clicks) {
+        if (count <= 0) continue
+        const score = entry(id)
+        score.clicks = count
+        score.score += w.clicks * (count / (totalClicks + CLICK_PRIOR)) / (w.k + 1)
+    }
+
+    return [...scores.values()].sort((a, b) => b.score - a.score || a.id - b.id)
+}
+
+// ============================================
+// DATABASE SIGNALS
+// ============================================
+
+type SQL = ReturnType<typeof sql>
+type Execute = (query: SQL) => Promise<{ rows: unknown[] }>
+
+function getExecute(payload: Payload): Execute {
+    return (payload.db as unknown as { drizzle: { execute: Execute } }).drizzle.execute.bind(
+        (payload.db as unknown as { drizzle: unknown }).drizzle
+    )
+}
+
+function idList(ids: number[]): SQL {
+    return sql.join(ids.map(id => sql`${id}`), sql`, `)
+}
+
+/**
+ * Full-text (any term, ranked by coverage) plus fuzzy name/brand matches
+ */
+async function keywordCandidates(execute: Execute, query: string, excludeIds: number[]): Promise<RankedSignal[]> {
+    const exclude = excludeIds.length ? sql`AND p.id NOT IN (${idList(excludeIds)})` : sql``
+    const result = await execute(sql`
+        WITH q AS (
+            SELECT NULLIF(replace(plainto_tsquery('english', ${query})::text, '&', '|'), '')::tsquery AS tsq
+        )
+        SELECT p.id,
+               COALESCE(ts_rank_cd(p.search_vector, q.tsq), 0)
+                 + word_similarity(${query}, p.name || ' ' || p.brand) AS score
+        FROM products p, q
+        WHERE p.status = 'published'
+          AND (
+            (q.tsq IS NOT NULL AND p.search_vector @@ q.tsq)
+            OR word_similarity(${query}, p.name || ' ' || p.brand) >= ${FUZZY_MATCH_THRESHOLD}
+          )
+          ${exclude}
+        ORDER BY score DESC
+        LIMIT ${CANDIDATES_PER_SIGNAL}
+    `)
+    return (result.rows as Array<{ id: number; score: number | string }>).map(r => ({ id: Number(r.id), score: Number(r.score) }))
+}
+
+async function vectorCandidates(execute: Execute, query: string, excludeIds: number[]): Promise<RankedSignal[]> {
+    const embedding = await generateEmbedding(query)
+    const vector = `[${embedding.join(',')}]`
+    const exclude = excludeIds.length ? sql`AND p.id NOT IN (${idList(excludeIds)})` : sql``
+    const result = await execute(sql`
+        SELECT p.id, 1 - (p.embedding <=> ${vector}::vector) AS score
+        FROM products p
+        WHERE p.status = 'published'
+          AND p.embedding IS NOT NULL
+          AND 1 - (p.embedding <=> ${vector}::vector) > ${MIN_VECTOR_SIMILARITY}
+          ${exclude}
+        ORDER BY p.embedding <=> ${vector}::vector
+        LIMIT ${CANDIDATES_PER_SIGNAL}
+    `)
+    return (result.rows as Array<{ id: number; score: number | string }>).map(r => ({ id: Number(r.id), score: Number(r.score) }))
+}
+
+/**
+ * Click counts per product for this query and near-identical past queries
+ * (similar queries count in proportion to their similarity)
+ */
+async function clickCounts(execute: Execute, normalizedQuery: string): Promise<Map<number, number>> {
+    const result = await execute(sql`
+        SELECT clicked_product_id AS id,
+               SUM(CASE WHEN lower(trim(query)) = ${normalizedQuery} THEN 1
+                        ELSE similarity(lower(query), ${normalizedQuery}) END) AS clicks
+        FROM search_queries
+        WHERE clicked_result = true
+          AND clicked_product_id ~ '^[0-9]+$'
+          AND created_at > now() - make_interval(days => ${CLICK_WINDOW_DAYS})
+          AND (lower(trim(query)) = ${normalizedQuery} OR similarity(lower(query), ${normalizedQuery}) >= ${SIMILAR_QUERY_THRESHOLD})
+        GROUP BY clicked_product_id
+        ORDER BY clicks DESC
+        LIMIT 50
+    `)
+    return new Map((result.rows as Array<{ id: string; clicks: number | string }>).map(r => [Number(r.id), Number(r.clicks)]))
+}
+
+async function loadCandidates(execute: Execute, ids: number[]): Promise<SearchCandidate[]> {
+    if (ids.length === 0) return []
+    const result = await execute(sql`
+        SELECT p.id, p.name, p.brand, p.verdict, p.slug, p.summary,
+               p.category_id AS "categoryId", c.name AS "categoryName",
+               p.price_range AS "priceRange",
+               p.image_url AS "imageUrl",
+               (p.testing_info_last_tested_date IS NOT NULL) AS tested
+        FROM products p
+        LEFT JOIN categories c ON c.id = p.category_id
+        WHERE p.id IN (${idList(ids)})
+          AND p.status = 'published'
+    `)
+    return (result.rows as SearchCandidate[]).map(row => ({
+        ...row,
+        id: Number(row.id),
+        categoryId: row.categoryId ? Number(row.categoryId) : null,
+        tested: row.tested === true,
+    }))
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+export async function hybridSearch(
+    payload: Payload,
+    query: string,
+    options: HybridSearchOptions = {}
+): Promise<HybridSearchResult> {
+    const { filters = {}, limit = 20, offset = 0, excludeIds = [], weights } = options
+    const execute = getExecute(payload)
+    const normalized = normalizeSearchQuery(query)
+
+    // Semantic search is optional: without a Gemini key or embeddings the
+    // keyword and click signals still answer the query
+    let semantic = true
+    const [keyword, vector, clicks] = await Promise.all([
+        keywordCandidates(execute, query, excludeIds),
+        vectorCandidates(execute, query, excludeIds).catch((error) => {
+            semantic = false
+            console.warn('[HybridSearch] Semantic signal unavailable:', error instanceof Error ? error.message : error)
+            return [] as RankedSignal[]
+        }),
+        clickCounts(execute, normalized).catch(() => new Map<number, number>()),
+    ])
+
+    for (const id of excludeIds) clicks.delete(id)
+
+    const fused = fuseSearchRankings(keyword, vector, clicks, weights)
+    const candidates = await loadCandidates(execute, fused.map(f => f.id))
+    const byId = new Map(candidates.map(c => [c.id, c]))
+
+    const facets = computeSearchFacets(candidates, filters)
+    const ranked = fused
+        .filter(f => byId.has(f.id) && matchesFilters(byId.get(f.id)!, filters))
+        .map(f => ({
+            ...byId.get(f.id)!,
+            score: Math.round(f.score * 1e6) / 1e6,
+            matchedBy: [
+                ...(f.keywordRank ? ['keyword' as const] : []),
+                ...(f.vectorRank ? ['semantic' as const] : []),
+                ...(f.clicks ? ['clicks' as const] : []),
+            ],
+        }))
+
+    return {
+        results: ranked.slice(offset, offset + limit),
+        facets,
+        total: ranked.length,
+        semantic,
+    }
+}
@@ -0,0 +1,370 @@
+import type { Payload } from 'payload'
+import { levenshteinDistance } from './fuzzy-match'
+
+/**
+ * Ingredient Registry Utilities
+ *
+ * Matching helpers for the Ingredients collection:
+ * - Splitting raw label text into individual ingredient names
+ * - Normalizing names, CAS Registry Numbers and E-numbers
+ * - Building an in-memory lookup index (name, synonyms, CAS, E-number)
+ * - Exact / synonym / identifier / partial / fuzzy matching
+ */
+
+export type IngredientVerdict = 'safe' | 'caution' | 'flagged' | 'unknown'
+
+export interface RegistryIngredient {
+    id: number
+    name: string
+    verdict: IngredientVerdict
+    category?: string | null
+    casNumber?: string | null
+    eNumber?: string | null
+    riskWeight?: number | null
+    synonyms?: Array<{ synonym: string }> | null
+    hazardClassifications?: Array<{
+        hazard: string
+        authority?: string | null
+        reference?: string | null
+    }> | null
+    jurisdictionStatus?: Array<{
+        jurisdiction: string
+        status: string
+        effectiveDate?: string | null
+        limit?: string | null
+        reference?: string | null
+    }> | null
+}
+
+export type IngredientMatchType = 'exact' | 'synonym' | 'cas' | 'e_number' | 'partial' | 'fuzzy'
+
+export interface IngredientMatch {
+    ingredient: RegistryIngredient
+    matchType: IngredientMatchType
+    fuzzyDistance?: number
+}
+
+interface IndexEntry {
+    ingredient: RegistryIngredient
+    via: 'name' | 'synonym'
+}
+
+export interface IngredientIndex {
+    byName: Map<string, IndexEntry>
+    byCas: Map<string, RegistryIngredient>
+    byENumber: Map<string, RegistryIngredient>
+    byId: Map<number, RegistryIngredient>
+}
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+const CAS_PATTERN = /^(\d{2,7})-(\d{2})-(\d)$/
+const E_NUMBER_PATTERN = /^E\s*-?\s*(\d{3,4}[a-z]?(?:\([ivx]+\))?)$/i
+
+/**
+ * Normalize a CAS Registry Number to its canonical dashed form.
+ * Accepts "13463-67-7", "13463 67 7" or "13463677".
+ */
+export function normalizeCasNumber(value: string): string {
+    const trimmed = value.trim()
+    if (CAS_PATTERN.test(trimmed)) return trimmed
+
+    const digits = trimmed.replace(/\D/g, '')
+    if (digits.length < 5 || digits.length > 10) return trimmed
+
+    return `${digits.slice(0, -3)}-${digits.slice(-3, -1)}-${digits.slice(-1)}`
+}
+
+/**
+ * Validate a CAS Registry Number including its check digit.
+ * The check digit is the sum of each digit multiplied by its position
+ * (counted from the right, excluding the check digit) modulo 10.
+ */
+export function isValidCasNumber(value: string): boolean {
+    const match = normalizeCasNumber(value).match(CAS_PATTERN)
+    if (!match) return false
+
+    const body = `${match[1]}${match[2]}`
+    const checkDigit = parseInt(match[3], 10)
+
+    let sum = 0
+    for (let i = 0; i < body.length; i++) {
+        sum += parseInt(body[body.length - 1 - i], 10) * (i + 1)
+    }
+
+    return sum % 10 === checkDigit
+}
+
+/**
+ * Normalize an E-number ("e 171", "E-150a") to canonical form ("E171", "E150a").
+ * Returns the trimmed input unchanged when it is not an E-number.
+ */
+export function normalizeENumber(value: string): string {
+    const match = value.trim().match(E_NUMBER_PATTERN)
+    if (!match) return value.trim()
+    return `E${match[1].toLowerCase()}`
+}
+
+/**
+ * Check whether a label token looks like an E-number.
+ */
+export function isENumber(value: string): boolean {
+    return E_NUMBER_PATTERN.test(value.trim())
+}
+
+/**
+ * Normalize an ingredient name for lookup.
+ * Applied to both registry names and label text so they compare equal.
+ */
+export function normalizeIngredientName(raw: string): string {
+    return raw.toLowerCase().trim()
+        // Remove parenthetical notes and trailing percentages
+        .replace(/\s*\([^)]*\)/g, '')
+        .replace(/\s*\d+(\.\d+)?\s*%$/g, '')
+        // Remove common descriptors
+        .replace(/\b(organic|natural|pure|raw|refined|unrefined|hydrolyzed|hydrogenated|partially|modified)\b/gi, '')
+        // Normalize color/dye names
+        .replace(/\bfd&c\s*/gi, '')
+        .replace(/\bd&c\s*/gi, '')
+        .replace(/\b(red|blue|yellow|green)\s*(?:no\.?)?\s*#?\s*(\d+)/gi, '$1 $2')
+        // Normalize vitamin names
+        .replace(/\bascorbic acid\b/gi, 'vitamin c')
+        .replace(/\btocopherols?\b/gi, 'vitamin e')
+        .replace(/\bretinol\b/gi, 'vitamin a')
+        .replace(/\bthiamine?\b/gi, 'vitamin b1')
+        .replace(/\briboflavin\b/gi, 'vitamin b2')
+        .replace(/\bniacin\b/gi, 'vitamin b3')
+        .replace(/\bpyridoxine?\b/gi, 'vitamin b6')
+        .replace(/\bcobalamin\b/gi, 'vitamin b12')
+        .replace(/\bfolic acid\b/gi, 'folate')
+        // Clean up punctuation and whitespace
+        .replace(/[.:]+$/g, '')
+        .replace(/\s+/g, ' ')
+        .trim()
+}
+
+/**
+ * Split a raw ingredient panel into individual ingredient names.
+ * Nested ingredients ("Sugar (Cane Sugar, Brown Sugar)") are flattened.
+ */
+export function splitIngredientText(rawText: string): string[] {
+    if (!rawText?.trim()) return []
+
+    const processedText = rawText
+        // Drop a leading "Ingredients:" label
+        .replace(/^\s*ingredients?\s*:/i, '')
+        // Normalize common abbreviations
+        .replace(/\bvit\.?\s+/gi, 'vitamin ')
+        .replace(/\bvits\.?\s+/gi, 'vitamins ')
+        // Handle "and/or" patterns
+        .replace(/\band\/or\b/gi, ',')
+        // Handle "contains X% or less of:" patterns
+        .replace(/contains?\s*\d+%?\s*(or less)?\s*(of)?:?/gi, ',')
+        // Remove asterisks and other markers
+        .replace(/[*†‡#]+/g, '')
+        // Normalize whitespace
+        .replace(/\s+/g, ' ')
+
+    // Split on top-level delimiters only, so nested lists stay attached to their parent
+    const topLevel: string[] = []
+    let depth = 0
+    let current = ''
+    for (const char of processedText) {
+        if (char === '(' || char === '[') depth++
+        if ((char === ')' || char === ']') && depth > 0) depth--
+        if ((char === ',' || char === ';') && depth === 0) {
+            topLevel.push(current)
+            current = ''
+            continue
+        }
+        current += char
+    }
+    topLevel.push(current)
+
+    const names = topLevel
+        .map(s => s.trim().replace(/\.$/, ''))
+        .filter(s => s.length > 1)
+        .flatMap(s => {
+            const parenMatch = s.match(/^(.+?)\s*[([]([^)\]]+)[)\]]$/)
+            if (parenMatch) {
+                const main = parenMatch[1].trim()
+                const nested = parenMatch[2]
+                    .split(/[,;]/)
+                    .map(n => n.trim())
+                    .filter(n => n.length > 1)
+                return [main, ...nested]
+            }
+            return [s]
+        })
+
+    return [...new Set(names)]
+}
+
+// ============================================
+// INDEX
+// ============================================
+
+/**
+ * Build a lookup index from registry documents.
+ */
+export function buildIngredientIndex(ingredients: RegistryIngredient[]): IngredientIndex {
+    const index: IngredientIndex = {
+        byName: new Map(),
+        byCas: new Map(),
+        byENumber: new Map(),
+        byId: new Map(),
+    }
+
+    for (const ingredient of ingredients) {
+        index.byId.set(ingredient.id, ingredient)
+
+        const nameKey = normalizeIngredientName(ingredient.name)
+        if (nameKey) {
+            index.byName.set(nameKey, { ingredient, via: 'name' })
+        }
+
+        for (const entry of ingredient.synonyms || []) {
+            if (!entry?.synonym) continue
+            if (isENumber(entry.synonym)) {
+                index.byENumber.set(normalizeENumber(entry.synonym), ingredient)
+                continue
+            }
+            const key = normalizeIngredientName(entry.synonym)
+            // Canonical names win over synonyms shared by several entries
+            if (key && !index.byName.has(key)) {
+                index.byName.set(key, { ingredient, via: 'synonym' })
+            }
+        }
+
+        if (ingredient.casNumber) {
+            index.byCas.set(normalizeCasNumber(ingredient.casNumber), ingredient)
+        }
+        if (ingredient.eNumber) {
+            index.byENumber.set(normalizeENumber(ingredient.eNumber), ingredient)
+        }
+    }
+
+    return index
+}
+
+/**
+ * Match a single label name against the registry index.
+ */
+export function matchIngredient(
+    index: IngredientIndex,
+    rawName: string,
+    options: { enableFuzzy?: boolean; maxDistance?: number } = {}
+): IngredientMatch | null {
+    const { enableFuzzy = true, maxDistance = 2 } = options
+    const trimmed = rawName.trim()
+
+    // Identifier lookups first - they are unambiguous
+    if (isENumber(trimmed)) {
+        const ingredient = index.byENumber.get(normalizeENumber(trimmed))
+        if (ingredient) return { ingredient, matchType: 'e_number' }
+    }
+    const casCandidate = trimmed.match(/\b\d{2,7}-\d{2}-\d\b/)
+    if (casCandidate) {
+        const ingredient = index.byCas.get(casCandidate[0])
+        if (ingredient) return { ingredient, matchType: 'cas' }
+    }
+
+    const normalized = normalizeIngredientName(trimmed)
+    if (normalized.length < 2) return null
+
+    const direct = index.byName.get(normalized)
+    if (direct) {
+        return { ingredient: direct.ingredient, matchType: direct.via === 'name' ? 'exact' : 'synonym' }
+    }
+
+    // Partial: a registry name appearing as whole words inside the label name.
+    // Prefer the longest key so "sodium benzoate" beats "sodium".
+    let partial: IndexEntry | undefined
+    let partialLength = 0
+    for (const [key, entry] of index.byName) {
+        if (key.length < 4 || key.length <= partialLength) continue
+        const pattern = new RegExp(`(^|\\s)${escapeRegExp(key)}(\\s|$)`)
+        if (pattern.test(normalized)) {
+            partial = entry
+            partialLength = key.length
+        }
+    }
+    if (partial) {
+        return { ingredient: partial.ingredient, matchType: 'partial' }
+    }
+
+    if (!enableFuzzy || normalized.length < 4) return null
+
+    let bestDistance = Infinity
+    let best: RegistryIngredient | undefined
+    for (const [key, entry] of index.byName) {
+        if (Math.abs(normalized.length - key.length) > maxDistance) continue
+        const distance = levenshteinDistance(normalized, key)
+        if (distance <= maxDistance && distance < bestDistance) {
+            bestDistance = distance
+            best = entry.ingredient
+        }
+    }
+
+    return best ? { ingredient: best, matchType: 'fuzzy', fuzzyDistance: bestDistance } : null
+}
+
+/**
+ * Reduce ingredient verdicts to the product verdict they imply.
+ * Returns null when no ingredient carries an assessment.
+ */
+export function worstIngredientVerdict(
+    verdicts: Array<IngredientVerdict | string | null | undefined>
+): 'recommend' | 'caution' | 'flagged' | null {
+    let worst: 'recommend' | 'caution' | 'flagged' | null = null
+    for (const verdict of verdicts) {
+        if (verdict === 'flagged') return 'flagged'
+        if (verdict === 'caution') worst = 'caution'
+        else if (verdict === 'safe' && !worst) worst = 'recommend'
+    }
+    return worst
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+// Cache the index to avoid re-reading the registry on every product save
+let cachedIndex: IngredientIndex | null = null
+let cacheExpiry = 0
+const CACHE_TTL = 60000 // 1 minute cache
+
+/**
+ * Load the full registry into a lookup index (cached for one minute).
+ */
+export async function loadIngredientIndex(payload: Payload): Promise<IngredientIndex> {
+    const now = Date.now()
+    if (cachedIndex && cacheExpiry > now) {
+        return cachedIndex
+    }
+
+    const result = await payload.find({
+        collection: 'ingredients',
+        depth: 0,
+        pagination: false,
+        overrideAccess: true,
+    })
+
+    cachedIndex = buildIngredientIndex(result.docs as unknown as RegistryIngredient[])
+    cacheExpiry = now + CACHE_TTL
+    return cachedIndex
+}
+
+/**
+ * Clear the cached index (call after registry changes)
+ */
+export function invalidateIngredientIndex(): void {
+    cachedIndex = null
+    cacheExpiry = 0
+}
@@ -0,0 +1,399 @@
+import type { Payload, PayloadRequest, Where } from 'payload'
+import { withRetry } from './cron-utils'
+
+/**
+ * Durable Job Queue
+ *
+ * Long-running work runs as Payload jobs stored in payload_jobs (Postgres)
+ * instead of inside the HTTP request that asked for it:
+ * - Endpoints enqueue a task and return 202 with the job id; admin UIs poll
+ *   GET /api/jobs/:id for status and progress
+ * - Vercel Cron calls /api/payload-jobs/run every minute to work the queue
+ * - Each run is wrapped in withRetry; when retries are exhausted the job is
+ *   dead-lettered and can be re-queued from the job monitor
+ * - Tasks report progress and stop between items once cancelled
+ *
+ * Payload's own task retries are disabled (retries: 0) so there is exactly
+ * one retry policy and a failed job is always a dead letter.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export const JOB_TASKS = {
+    'batch-enrich': 'Batch Image Enrichment',
+    'background-remove-batch': 'Batch Background Removal',
+    'image-internalize': 'Image Internalization',
+    'youtube-sync': 'YouTube Shorts Sync',
+    'embed-products': 'Product Embeddings',
+    'recall-watchdog': 'Recall Watchdog',
+    'campaign-send': 'Campaign Send',
+    'segment-refresh': 'Segment Refresh',
+    'brand-reports': 'Brand Benchmark Reports',
+} as const
+
+export type JobTaskSlug = keyof typeof JOB_TASKS
+
+export type JobStatus = 'queued' | 'scheduled' | 'running' | 'succeeded' | 'failed' | 'dead_letter' | 'cancelled'
+
+export interface JobProgress {
+    completed: number
+    total: number
+    percent: number
+    message: string | null
+}
+
+/** The payload-jobs fields the queue reads */
+export interface QueuedJobRecord {
+    id: number | string
+    taskSlug?: string | null
+    input?: unknown
+    processing?: boolean | null
+    completedAt?: string | null
+    hasError?: boolean | null
+    error?: unknown
+    waitUntil?: string | null
+    totalTried?: number | null
+    createdAt?: string
+    updatedAt?: string
+    progress?: { completed?: number | null; total?: number | null; message?: string | null } | null
+    deadLetter?: { deadLettered?: boolean | null; reason?: string | null; attempts?: number | null; at?: string | null } | null
+    result?: unknown
+    requestedBy?: number | { id: number; email?: string | null } | null
+    retryOf?: number | null
+}
+
+export interface JobSummary {
+    id: number | string
+    task: string | null
+    label: string
+    status: JobStatus
+    progress: JobProgress
+    attempts: number
+    error: string | null
+    result: unknown
+    requestedBy: number | null
+    retryOf: number | null
+    createdAt: string | null
+    completedAt: string | null
+    updatedAt: string | null
+}
+
+/**
+ * Handed to task implementations so the same code can run inline or queued
+ */
+export interface JobContext {
+    jobId: number | string | null
+    /** Record progress; also picks up cancellation requests */
+    progress(completed: number, total: number, message?: string): Promise<void>
+    /** Whether an admin cancelled the job (checked at the last progress write) */
+    isCancelled(): boolean
+}
+
+/** Context for work run directly in a request (no persistence) */
+export const inlineJob: JobContext = {
+    jobId: null,
+    progress: async () => {},
+    isCancelled: () => false,
+}
+
+// ============================================
+// STATUS
+// ============================================
+
+export function isJobTaskSlug(value: unknown): value is JobTaskSlug {
+    return typeof value === 'string' && value in JOB_TASKS
+}
+
+function isCancelledError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { cancelled?: unknown }).cancelled === true
+}
+
+export function jobErrorMessage(error: unknown): string | null {
+    if (!error) return null
+    if (typeof error === 'string') return error
+    if (isCancelledError(error)) return 'Cancelled'
+    const message = (error as { message?: unknown }).message
+    return typeof message === 'string' ? message : JSON.stringify(error)
+}
+
+export function deriveJobStatus(job: QueuedJobRecord, now: Date = new Date()): JobStatus {
+    if (isCancelledError(job.error)) return 'cancelled'
+    if (job.deadLetter?.deadLettered) return 'dead_letter'
+    if (job.hasError) return 'failed'
+    if (job.completedAt) return 'succeeded'
+    if (job.processing) return 'running'
+    if (job.waitUntil && new Date(job.waitUntil) > now) return 'scheduled'
+    return 'queued'
+}
+
+export function computeJobProgress(progress: QueuedJobRecord['progress'], status?: JobStatus): JobProgress {
+    const total = Math.max(0, progress?.total || 0)
+    const completed = Math.min(Math.max(0, progress?.completed || 0), total || Infinity)
+    const percent = status === 'succeeded'
+        ? 100
+        : total > 0 ? Math.floor((completed / total) * 100) : 0
+    return { completed, total, percent, message: progress?.message || null }
+}
+
+export function summarizeJob(job: QueuedJobRecord, now: Date = new Date()): JobSummary {
+    const status = deriveJobStatus(job, now)
+    const task = job.taskSlug || null
+    return {
+        id: job.id,
+        task,
+        label: isJobTaskSlug(task) ? JOB_TASKS[task] : task || 'Job',
+        status,
+        progress: computeJobProgress(job.progress, status),
+        attempts: job.deadLetter?.attempts || job.totalTried || 0,
+        error: job.deadLetter?.reason || jobErrorMessage(job.error),
+        result: job.result ?? null,
+        requestedBy: typeof job.requestedBy === 'object' && job.requestedBy ? job.requestedBy.id : job.requestedBy ?? null,
+        retryOf: job.retryOf ?? null,
+        createdAt: job.createdAt || null,
+        completedAt: job.completedAt || null,
+        updatedAt: job.updatedAt || null,
+    }
+}
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+const ACTIVE_JOB_WHERE: Where = {
+    and: [
+        { completedAt: { exists: false } },
+        { hasError: { not_equals: true } },
+    ],
+}
+
+export interface EnqueueOptions {
+    req?: PayloadRequest
+    requestedBy?: number | null
+    /** Reuse a queued or running job of the same task instead of adding another */
+    unique?: boolean
+    retryOf?: number | null
+    /** Hold the job until this time (delayed and deferred sends) */
+    waitUntil?: Date
+}
+
+/**
+ * Add a task to the queue. Returns the job id and whether an existing job
+ * was reused.
+ */
+export async function enqueueJob(
+    payload: Payload,
+    task: JobTaskSlug,
+    params: Record<string, unknown>,
+    options: EnqueueOptions = {}
+): Promise<{ id: number | string; existing: boolean }> {
+    if (options.unique) {
+        const active = await payload.find({
+            collection: 'payload-jobs',
+            where: { and: [{ taskSlug: { equals: task } }, ACTIVE_JOB_WHERE] },
+            limit: 1,
+            depth: 0,
+            overrideAccess: true,
+        })
+        if (active.docs[0]) {
+            return { id: active.docs[0].id, existing: true }
+        }
+    }
+
+    const job = await payload.jobs.queue({
+        task,
+        input: { params },
+        overrideAccess: true,
+        req: options.req,
+        waitUntil: options.waitUntil,
+    })
+
+    if (options.requestedBy || options.retryOf) {
+        await payload.update({
+            collection: 'payload-jobs',
+            id: job.id,
+            data: {
+                requestedBy: options.requestedBy || null,
+                retryOf: options.retryOf || null,
+            },
+            depth: 0,
+            overrideAccess: true,
+        })
+    }
+
+    return { id: job.id, existing: false }
+}
+
+/**
+ * 202 response for an enqueued job
+ */
+export function jobAcceptedResponse(job: { id: number | string; existing: boolean }, task: JobTaskSlug): Response {
+    return Response.json(
+        {
+            success: true,
+            queued: true,
+            existing: job.existing,
+            jobId: job.id,
+            task,
+            statusUrl: `/api/jobs/${job.id}`,
+            message: job.existing
+                ? `${JOB_TASKS[task]} is already queued`
+                : `${JOB_TASKS[task]} queued`,
+        },
+        { status: 202 }
+    )
+}
+
+// ============================================
+// TASK RUNTIME
+// ============================================
+
+// Minimum time between progress writes (the last one is always written)
+const PROGRESS_WRITE_INTERVAL_MS = 1000
+
+/**
+ * Job context that persists progress onto the payload-jobs document
+ */
+export function createJobContext(payload: Payload, jobId: number | string): JobContext {
+    let cancelled = false
+    let lastWrite = 0
+
+    return {
+        jobId,
+        async progress(completed, total, message) {
+            const now = Date.now()
+            if (completed < total && now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) return
+            lastWrite = now
+
+            const updated = await payload.update({
+                collection: 'payload-jobs',
+                id: jobId,
+                data: { progress: { completed, total, message: message || null } },
+                depth: 0,
+                overrideAccess: true,
+            })
+            if (isCancelledError((updated as { error?: unknown }).error)) {
+                cancelled = true
+            }
+        },
+        isCancelled: () => cancelled,
+    }
+}
+
+export interface DurableTaskOptions {
+    maxRetries?: number
+    initialDelayMs?: number
+}
+
+export type DurableTaskRunner = (
+    payload: Payload,
+    params: Record<string, unknown>,
+    job: JobContext,
+    req: PayloadRequest
+) => Promise<unknown>
+
+/**
+ * Run a task body under withRetry. Returns the result to store on the job,
+ * or throws after dead-lettering the job once retries are exhausted.
+ */
+export async function runDurableTask(
+    req: PayloadRequest,
+    jobId: number | string,
+    params: Record<string, unknown>,
+    run: DurableTaskRunner,
+    options: DurableTaskOptions = {}
+): Promise<unknown> {
+    const { payload } = req
+    const job = createJobContext(payload, jobId)
+
+    const outcome = await withRetry(
+        async () => {
+            try {
+                return await run(payload, params, job, req)
+            } catch (error) {
+                // A cancelled job is not retried
+                if (job.isCancelled()) return { cancelled: true }
+                throw error
+            }
+        },
+        {
+            maxRetries: options.maxRetries ?? 2,
+            initialDelayMs: options.initialDelayMs ?? 2000,
+            maxDelayMs: 15000,
+            onRetry: (attempt, error, delayMs) => {
+                console.warn(`[Jobs] Job ${jobId} attempt ${attempt} failed (${error.message}), retrying in ${Math.round(delayMs)}ms`)
+            },
+        }
+    )
+
+    if (!outcome.success) {
+        await payload.update({
+            collection: 'payload-jobs',
+            id: jobId,
+            data: {
+                deadLetter: {
+                    deadLettered: true,
+                    reason: outcome.error || 'Unknown error',
+                    attempts: outcome.attempts,
+                    at: new Date().toISOString(),
+                },
+            },
+            depth: 0,
+            overrideAccess: true,
+        })
+        throw new Error(`Dead-lettered after ${outcome.attempts} attempts: ${outcome.error}`)
+    }
+
+    await payload.update({
+        collection: 'payload-jobs',
+        id: jobId,
+        data: { result: outcome.data ?? null },
+        depth: 0,
+        overrideAccess: true,
+    })
+    return outcome.data
+}
+
+// ============================================
+// RETENTION
+// ============================================
+
+/**
+ * Delete finished jobs (deleteJobOnComplete is off so results stay readable).
+ * Dead letters are kept longer so they can still be inspected and retried.
+ */
+export async function pruneFinishedJobs(
+    payload: Payload,
+    { finishedDays = 14, deadLetterDays = 30 } = {}
+): Promise<{ deleted: number }> {
+    const now = Date.now()
+    const finishedBefore = new Date(now - finishedDays * 24 * 60 * 60 * 1000).toISOString()
+    const deadLetterBefore = new Date(now - deadLetterDays * 24 * 60 * 60 * 1000).toISOString()
+
+    const result = await payload.delete({
+        collection: 'payload-jobs',
+        where: {
+            or: [
+                { completedAt: { less_than: finishedBefore } },
+                {
+                    and: [
+                        { hasError: { equals: true } },
+                        { 'deadLetter.deadLettered': { not_equals: true } },
+                        { updatedAt: { less_than: finishedBefore } },
+                    ],
+                },
+                {
+                    and: [
+                        { 'deadLetter.deadLettered': { equals: true } },
+                        { updatedAt: { less_than: deadLetterBefore } },
+                    ],
+                },
+            ],
+        },
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    return { deleted: result.docs.length }
+}
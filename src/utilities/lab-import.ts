@@ -0,0 +1,750 @@
+import type { Payload } from 'payload'
+import { classifyDetection, getDisplayMode } from '../lib/legal-copy'
+import { loadIngredientIndex, matchIngredient, type IngredientIndex } from './ingredient-registry'
+import { parseConcentration } from './verdict-conditions'
+
+/**
+ * Lab Data Import
+ *
+ * Parses LC-MS / GC-MS instrument exports into Products detection entries:
+ * - Vendor CSV / TSV peak tables (MassHunter, TraceFinder, LabSolutions, ChemStation
+ *   style) - column names are matched against a list of known aliases
+ * - mzML files whose spectra / chromatograms carry identification annotations
+ *   (cvParam / userParam), e.g. targeted SRM methods exported with compound names
+ *
+ * Peaks are mapped to compounds through the ingredient registry (CAS first, then
+ * name / synonyms) and scored: matchProbability combines the library match score
+ * with retention-time agreement, and displayMode / detectionType come from
+ * legal-copy so imported data follows the same display rules as hand entry.
+ *
+ * Imports are staged in the lab-imports collection for review; nothing touches
+ * the product until a reviewer approves the import.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type LabImportFormat = 'vendor_csv' | 'mzml'
+
+export interface InstrumentPeak {
+    /** 1-based source row (CSV) or element index (mzML) */
+    source: number
+    name: string | null
+    casNumber: string | null
+    /** Minutes */
+    retentionTime: number | null
+    expectedRetentionTime: number | null
+    concentration: number | null
+    unit: string | null
+    /** Library match score normalized to 0-100 */
+    matchScore: number | null
+    reverseMatchScore: number | null
+    /** Qualifier ion ratios within tolerance */
+    qualifierIonsOk: boolean | null
+    threshold: string | null
+    limitOfDetection: string | null
+    limitOfQuantification: string | null
+    rSquared: number | null
+    calibrationLevels: number | null
+}
+
+export interface ParsedLabFile {
+    format: LabImportFormat
+    instrument: string | null
+    sampleName: string | null
+    acquiredAt: string | null
+    peaks: InstrumentPeak[]
+    /** Rows reported as not detected / below LOD */
+    notDetected: number
+    warnings: string[]
+}
+
+export interface ProposedDetection {
+    compound: string
+    level?: string
+    threshold?: string
+    interpretation?: 'below' | 'at' | 'above'
+    matchProbability?: number
+    displayMode: 'primary' | 'low_confidence' | 'hidden'
+    detectionType: 'standard' | 'fragrance_component' | 'hidden_contaminant'
+    confirmationLevel: 'screening' | 'confirmed' | 'quantified'
+    referenceStandard?: {
+        retentionTimeMatch?: boolean
+        spectrumMatch?: boolean
+    }
+    calibrationData?: {
+        calibrationLevels?: number
+        rSquared?: number
+        limitOfDetection?: string
+        limitOfQuantification?: string
+    }
+}
+
+export interface UnmatchedPeak {
+    source: number
+    name: string | null
+    casNumber: string | null
+    retentionTime: number | null
+    reason: string
+}
+
+export interface MappedDetections {
+    detections: ProposedDetection[]
+    unmatchedPeaks: UnmatchedPeak[]
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Retention time agreement with the reference standard (minutes) */
+export const RT_TOLERANCE_MIN = 0.1
+
+/** Minimum calibration correlation for a quantified result */
+export const MIN_R_SQUARED = 0.995
+
+/** Minimum calibration points for a quantified result */
+export const MIN_CALIBRATION_LEVELS = 5
+
+type PeakField = Exclude<keyof InstrumentPeak, 'source'> | 'rowType'
+
+/**
+ * Column header / annotation aliases, compared after lower-casing and stripping
+ * punctuation ("Ret. Time (min)" -> "ret time min").
+ */
+const FIELD_ALIASES: Record<PeakField, string[]> = {
+    name: ['compound', 'compound name', 'name', 'analyte', 'component', 'component name', 'library hit', 'hit name', 'peak name', 'identification'],
+    casNumber: ['cas', 'cas number', 'cas no', 'cas rn', 'cas registry number'],
+    retentionTime: ['rt', 'rt min', 'ret time', 'ret time min', 'retention time', 'retention time min', 'scan start time', 'apex rt', 'observed rt'],
+    expectedRetentionTime: ['expected rt', 'exp rt', 'ref rt', 'reference rt', 'standard rt', 'expected retention time', 'rt expected'],
+    concentration: ['conc', 'concentration', 'final conc', 'calc conc', 'calculated amt', 'amount', 'result', 'calculated concentration'],
+    unit: ['unit', 'units', 'conc unit', 'concentration unit'],
+    matchScore: ['match', 'match score', 'match factor', 'library match', 'si', 'similarity', 'score', 'probability', 'prob', 'match probability', 'search score'],
+    reverseMatchScore: ['r match', 'rmatch', 'reverse match', 'rsi', 'reverse search score'],
+    qualifierIonsOk: ['qualifier', 'qualifiers', 'qualifier ratio', 'qualifier ratios', 'ion ratio', 'ion ratios', 'qual', 'qual ratio'],
+    threshold: ['threshold', 'limit', 'action level', 'mrl', 'regulatory limit', 'reference threshold'],
+    limitOfDetection: ['lod', 'limit of detection', 'mdl'],
+    limitOfQuantification: ['loq', 'limit of quantification', 'limit of quantitation', 'lloq'],
+    rSquared: ['r2', 'r 2', 'r squared', 'rsquared', 'calibration r2', 'cal r2'],
+    calibrationLevels: ['cal levels', 'calibration levels', 'cal points', 'calibration points', 'levels'],
+    rowType: ['type', 'compound type', 'peak type', 'role'],
+}
+
+const METADATA_ALIASES: Record<'instrument' | 'sampleName' | 'acquiredAt', string[]> = {
+    instrument: ['instrument', 'instrument name', 'instrument model', 'system'],
+    sampleName: ['sample', 'sample name', 'sample id', 'data file', 'datafile', 'file name'],
+    acquiredAt: ['acq date time', 'acquisition date', 'acquired', 'acquisition time', 'injection date', 'date'],
+}
+
+const UNIT_ALIASES: Record<string, string> = {
+    'ppm': 'ppm',
+    'mg/kg': 'ppm',
+    'mg/l': 'ppm',
+    'µg/g': 'ppm',
+    'ug/g': 'ppm',
+    'ppb': 'ppb',
+    'µg/kg': 'ppb',
+    'ug/kg': 'ppb',
+    'ng/g': 'ppb',
+    'µg/l': 'ppb',
+    'ug/l': 'ppb',
+    'ng/ml': 'ppb',
+    'ppt': 'ppt',
+    'ng/kg': 'ppt',
+    'ng/l': 'ppt',
+    'pg/g': 'ppt',
+}
+
+/** Rows that are method QC rather than sample findings */
+const QC_ROW_PATTERN = /\b(istd|internal standard|surrogate|sur|is)\b/i
+
+/** Peaks the software could not identify ("Unknown 7.32", "Unknown Peak 3") */
+const UNKNOWN_PEAK_PATTERN = /^unknown\b/i
+
+const NOT_DETECTED_PATTERN = /^(nd|n\.d\.|not detected|<\s*lod|<\s*loq|<\s*mdl|bdl|below lod)$/i
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+function normalizeKey(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[²]/g, '2')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+}
+
+const ALIAS_LOOKUP = new Map<string, PeakField>(
+    Object.entries(FIELD_ALIASES).flatMap(([field, aliases]) =>
+        aliases.map(alias => [normalizeKey(alias), field as PeakField] as [string, PeakField])
+    )
+)
+
+function fieldForHeader(header: string): PeakField | undefined {
+    return ALIAS_LOOKUP.get(normalizeKey(header))
+}
+
+function metadataKey(label: string): keyof typeof METADATA_ALIASES | undefined {
+    const key = normalizeKey(label)
+    return (Object.keys(METADATA_ALIASES) as Array<keyof typeof METADATA_ALIASES>).find(field =>
+        METADATA_ALIASES[field].includes(key)
+    )
+}
+
+function toNumber(value: string | null | undefined): number | null {
+    if (value === null || value === undefined) return null
+    const cleaned = value.replace(/,/g, '').replace(/%$/, '').trim()
+    if (!cleaned || !/^-?\d*\.?\d+(e-?\d+)?$/i.test(cleaned)) return null
+    return parseFloat(cleaned)
+}
+
+function toText(value: string | null | undefined): string | null {
+    const trimmed = value?.trim()
+    return trimmed ? trimmed : null
+}
+
+/**
+ * Library scores come as 0-1, 0-100 or NIST 0-999; normalize to 0-100.
+ */
+export function normalizeMatchScore(value: number | null): number | null {
+    if (value === null || value < 0) return null
+    if (value <= 1) return Math.round(value * 1000) / 10
+    if (value > 100) return Math.min(100, Math.round(value) / 10)
+    return value
+}
+
+/**
+ * Normalize concentration units to ppm / ppb / ppt where possible.
+ */
+export function normalizeUnit(unit: string | null): string | null {
+    if (!unit) return null
+    const key = unit.trim().toLowerCase().replace('μ', 'µ').replace(/\s+/g, '')
+    return UNIT_ALIASES[key] || unit.trim()
+}
+
+function parseQualifier(value: string | null | undefined): boolean | null {
+    const text = value?.trim().toLowerCase()
+    if (!text) return null
+    if (['pass', 'ok', 'yes', 'true', 'y', '1', 'within'].includes(text)) return true
+    if (['fail', 'no', 'false', 'n', '0', 'outside', 'out'].includes(text)) return false
+    // Numeric deviation in percent - within ±20% passes
+    const deviation = toNumber(text)
+    return deviation === null ? null : Math.abs(deviation) <= 20
+}
+
+/**
+ * Split delimited text into rows, honouring quoted fields. Blank lines are
+ * kept so row indexes line up with file line numbers.
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"'
+                i++
+            } else if (char === '"') {
+                quoted = false
+            } else {
+                field += char
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true
+        } else if (char === delimiter) {
+            row.push(field)
+            field = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ''
+        } else {
+            field += char
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field)
+        rows.push(row)
+    }
+
+    return rows
+}
+
+function detectDelimiter(text: string): string {
+    const sample = text.split(/\r?\n/).slice(0, 20).join('\n')
+    const counts = [',', '\t', ';'].map(d => ({ d, n: sample.split(d).length }))
+    return counts.sort((a, b) => b.n - a.n)[0].d
+}
+
+// ============================================
+// PARSERS
+// ============================================
+
+/**
+ * Detect the export format from file content.
+ */
+export function detectLabFormat(content: string): LabImportFormat {
+    const head = content.slice(0, 2000).trimStart()
+    return head.startsWith('<?xml') || /<(indexedmzML|mzML)\b/.test(head) ? 'mzml' : 'vendor_csv'
+}
+
+function emptyPeak(source: number): InstrumentPeak {
+    return {
+        source,
+        name: null,
+        casNumber: null,
+        retentionTime: null,
+        expectedRetentionTime: null,
+        concentration: null,
+        unit: null,
+        matchScore: null,
+        reverseMatchScore: null,
+        qualifierIonsOk: null,
+        threshold: null,
+        limitOfDetection: null,
+        limitOfQuantification: null,
+        rSquared: null,
+        calibrationLevels: null,
+    }
+}
+
+/**
+ * Fill a peak from field -> raw value pairs. Returns 'qc' for internal
+ * standards / surrogates and 'nd' for not-detected rows.
+ */
+function fillPeak(peak: InstrumentPeak, values: Array<[PeakField, string]>): 'ok' | 'qc' | 'nd' {
+    for (const [field, raw] of values) {
+        switch (field) {
+            case 'rowType':
+                if (QC_ROW_PATTERN.test(raw)) return 'qc'
+                break
+            case 'name':
+                peak.name = toText(raw)
+                break
+            case 'casNumber':
+                peak.casNumber = toText(raw)
+                break
+            case 'retentionTime':
+            case 'expectedRetentionTime':
+            case 'rSquared':
+            case 'calibrationLevels':
+                peak[field] = toNumber(raw)
+                break
+            case 'concentration':
+                if (NOT_DETECTED_PATTERN.test(raw.trim())) return 'nd'
+                peak.concentration = toNumber(raw)
+                break
+            case 'unit':
+                peak.unit = normalizeUnit(toText(raw))
+                break
+            case 'matchScore':
+            case 'reverseMatchScore':
+                peak[field] = normalizeMatchScore(toNumber(raw))
+                break
+            case 'qualifierIonsOk':
+                peak.qualifierIonsOk = parseQualifier(raw)
+                break
+            case 'threshold':
+            case 'limitOfDetection':
+            case 'limitOfQuantification':
+                peak[field] = toText(raw)
+                break
+        }
+    }
+    if (peak.name && /\((istd|is)\)$/i.test(peak.name)) return 'qc'
+    return 'ok'
+}
+
+/**
+ * Parse a vendor CSV / TSV peak table. Metadata lines ("Sample Name,XYZ")
+ * before the header row are picked up; the header is the first row that names
+ * a compound column and at least one other known column.
+ */
+export function parseVendorCsv(content: string): ParsedLabFile {
+    const rows = parseDelimited(content.replace(/^﻿/, ''), detectDelimiter(content))
+    const result: ParsedLabFile = {
+        format: 'vendor_csv',
+        instrument: null,
+        sampleName: null,
+        acquiredAt: null,
+        peaks: [],
+        notDetected: 0,
+        warnings: [],
+    }
+
+    const headerIndex = rows.findIndex(row => {
+        const fields = row.map(fieldForHeader)
+        return fields.includes('name') && fields.filter(Boolean).length >= 2
+    })
+    if (headerIndex === -1) {
+        result.warnings.push('No peak table header found (expected a compound/name column)')
+        return result
+    }
+
+    for (const row of rows.slice(0, headerIndex)) {
+        if (row.every(cell => !cell.trim())) continue
+        const [label, ...rest] = row.length === 1 ? row[0].split(/:\s+/) : row
+        const key = label ? metadataKey(label.replace(/:$/, '')) : undefined
+        const value = toText(rest.join(' '))
+        if (key && value && !result[key]) result[key] = value
+    }
+
+    const columns = rows[headerIndex].map(fieldForHeader)
+    const mapped = columns.filter(Boolean)
+    const unknown = rows[headerIndex].filter((_, i) => !columns[i])
+    if (unknown.length > 0) {
+        result.warnings.push(`Ignored columns: ${unknown.map(c => c.trim()).filter(Boolean).join(', ')}`)
+    }
+    if (!mapped.includes('retentionTime')) result.warnings.push('No retention time column - identities cannot be confirmed')
+
+    rows.slice(headerIndex + 1).forEach((row, offset) => {
+        const source = headerIndex + offset + 2
+        const values = columns
+            .map((field, i) => (field ? [field, row[i] ?? ''] : null))
+            .filter((v): v is [PeakField, string] => v !== null)
+
+        const peak = emptyPeak(source)
+        const outcome = fillPeak(peak, values)
+        if (outcome === 'nd') result.notDetected++
+        if (outcome !== 'ok') return
+        if (!peak.name && !peak.casNumber && peak.retentionTime === null) return
+        result.peaks.push(peak)
+    })
+
+    return result
+}
+
+function xmlAttribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`))
+    return match ? match[1] : null
+}
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+}
+
+/**
+ * Parse the identification annotations of an mzML file. Binary peak arrays are
+ * not decoded - only spectra / chromatograms that carry a compound annotation
+ * become peaks.
+ */
+export function parseMzmlSummary(content: string): ParsedLabFile {
+    const result: ParsedLabFile = {
+        format: 'mzml',
+        instrument: null,
+        sampleName: null,
+        acquiredAt: null,
+        peaks: [],
+        notDetected: 0,
+        warnings: [],
+    }
+
+    const runTag = content.match(/<run\b[^>]*>/)?.[0]
+    result.acquiredAt = runTag ? xmlAttribute(runTag, 'startTimeStamp') : null
+    const sampleTag = content.match(/<sample\b[^>]*>/)?.[0]
+    result.sampleName = sampleTag ? xmlAttribute(sampleTag, 'name') || xmlAttribute(sampleTag, 'id') : null
+    const instrumentBlock = content.match(/<instrumentConfiguration\b[\s\S]*?(?:<componentList|<\/instrumentConfiguration>)/)?.[0]
+    const instrumentParam = instrumentBlock?.match(/<cvParam\b[^>]*>/)?.[0]
+    result.instrument = instrumentParam ? xmlAttribute(instrumentParam, 'name') : null
+
+    const elements = content.match(/<(spectrum|chromatogram)\b[^>]*>[\s\S]*?<\/\1>/g) || []
+    let unannotated = 0
+
+    elements.forEach((element, index) => {
+        const values: Array<[PeakField, string]> = []
+        for (const param of element.match(/<(cvParam|userParam)\b[^>]*>/g) || []) {
+            const name = xmlAttribute(param, 'name')
+            const value = xmlAttribute(param, 'value')
+            const field = name ? fieldForHeader(decodeXml(name)) : undefined
+            if (!field || value === null) continue
+
+            let text = decodeXml(value)
+            // scan start time is usually reported in seconds
+            if (field === 'retentionTime' && /second/i.test(xmlAttribute(param, 'unitName') || '')) {
+                const seconds = toNumber(text)
+                text = seconds === null ? text : String(seconds / 60)
+            }
+            if (field === 'concentration') {
+                const unitName = xmlAttribute(param, 'unitName')
+                if (unitName) values.push(['unit', unitName])
+            }
+            values.push([field, text])
+        }
+
+        const peak = emptyPeak(index + 1)
+        const outcome = fillPeak(peak, values)
+        if (outcome === 'nd') result.notDetected++
+        if (outcome !== 'ok') return
+        if (!peak.name && !peak.casNumber) {
+            unannotated++
+            return
+        }
+        result.peaks.push(peak)
+    })
+
+    if (elements.length === 0) result.warnings.push('No spectra or chromatograms found')
+    if (unannotated > 0) result.warnings.push(`${unannotated} spectra/chromatograms had no compound annotation and were skipped`)
+
+    return result
+}
+
+/**
+ * Parse an instrument export, detecting the format when not given.
+ */
+export function parseLabFile(content: string, format?: LabImportFormat): ParsedLabFile {
+    return (format || detectLabFormat(content)) === 'mzml' ? parseMzmlSummary(content) : parseVendorCsv(content)
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+function retentionTimeDelta(peak: InstrumentPeak): number | null {
+    if (peak.retentionTime === null || peak.expectedRetentionTime === null) return null
+    return Math.abs(peak.retentionTime - peak.expectedRetentionTime)
+}
+
+/**
+ * Match probability (0-100) for a peak identity.
+ *
+ * Library score (forward, blended 70/30 with reverse when both exist) adjusted
+ * by retention-time agreement: +5 within ±0.1 min, -10 within ±0.5 min, -25
+ * beyond. Targeted methods without a library score start from 85 when both
+ * retention time and qualifier ions agree, 60 on retention time alone.
+ */
+export function computeMatchProbability(peak: InstrumentPeak): number | null {
+    const delta = retentionTimeDelta(peak)
+    const rtMatch = delta !== null && delta <= RT_TOLERANCE_MIN
+
+    let score: number | null
+    if (peak.matchScore !== null) {
+        score = peak.reverseMatchScore !== null
+            ? peak.matchScore * 0.7 + peak.reverseMatchScore * 0.3
+            : peak.matchScore
+    } else if (rtMatch) {
+        score = peak.qualifierIonsOk ? 85 : 60
+    } else {
+        return null
+    }
+
+    if (delta !== null) {
+        if (delta <= RT_TOLERANCE_MIN) score += 5
+        else if (delta <= 0.5) score -= 10
+        else score -= 25
+    }
+    if (peak.qualifierIonsOk === false) score -= 15
+
+    return Math.max(0, Math.min(100, Math.round(score)))
+}
+
+/**
+ * Daubert confirmation level supported by the instrument data.
+ */
+export function determineConfirmationLevel(peak: InstrumentPeak): ProposedDetection['confirmationLevel'] {
+    const delta = retentionTimeDelta(peak)
+    const confirmed = delta !== null && delta <= RT_TOLERANCE_MIN && peak.qualifierIonsOk === true
+    if (!confirmed) return 'screening'
+
+    const calibrated = peak.concentration !== null &&
+        peak.rSquared !== null && peak.rSquared >= MIN_R_SQUARED &&
+        (peak.calibrationLevels === null || peak.calibrationLevels >= MIN_CALIBRATION_LEVELS)
+    return calibrated ? 'quantified' : 'confirmed'
+}
+
+function interpret(level: string | undefined, threshold: string | null): ProposedDetection['interpretation'] {
+    const measured = parseConcentration(level)
+    const limit = parseConcentration(threshold)
+    if (measured === null || limit === null) return undefined
+    if (measured > limit) return 'above'
+    if (measured === limit) return 'at'
+    return 'below'
+}
+
+/**
+ * Library names are often inverted ("Benzene, methyl-"); turn them back into
+ * a readable name ("methylbenzene") for registry lookup.
+ */
+export function uninvertLibraryName(name: string): string {
+    const match = name.match(/^([^,]+),\s*([^,]+)-$/)
+    return match ? `${match[2]}${match[1]}`.toLowerCase() : name
+}
+
+function matchCompound(index: IngredientIndex | null, peak: InstrumentPeak): string | null {
+    if (!index) return null
+    for (const candidate of [peak.casNumber, peak.name, peak.name && uninvertLibraryName(peak.name)]) {
+        if (!candidate) continue
+        // Partial matches are too loose for instrument names ("Lead acetate" is not "Lead")
+        const match = matchIngredient(index, candidate, { enableFuzzy: false })
+        if (match && match.matchType !== 'partial') return match.ingredient.name
+    }
+    return null
+}
+
+/**
+ * Turn parsed peaks into proposed Products detections.
+ *
+ * Peaks matched to the ingredient registry use the registry name; named peaks
+ * that aren't in the registry keep the instrument name and are also listed in
+ * unmatchedPeaks so reviewers can extend the registry. Duplicate compounds keep
+ * the highest-probability peak.
+ */
+export function mapPeaksToDetections(
+    peaks: InstrumentPeak[],
+    options: { index?: IngredientIndex | null; packageText?: string } = {}
+): MappedDetections {
+    const byCompound = new Map<string, ProposedDetection>()
+    const unmatchedPeaks: UnmatchedPeak[] = []
+
+    for (const peak of peaks) {
+        const registryName = matchCompound(options.index ?? null, peak)
+        const identified = !!peak.name && !UNKNOWN_PEAK_PATTERN.test(peak.name)
+        const compound = registryName || (identified ? peak.name : null)
+
+        if (!registryName) {
+            unmatchedPeaks.push({
+                source: peak.source,
+                name: peak.name,
+                casNumber: peak.casNumber,
+                retentionTime: peak.retentionTime,
+                reason: identified ? 'Not in ingredient registry' : 'Unidentified peak',
+            })
+        }
+        if (!compound) continue
+
+        const matchProbability = computeMatchProbability(peak)
+        const level = peak.concentration !== null ? `${peak.concentration} ${peak.unit || 'ppb'}`.trim() : undefined
+        const delta = retentionTimeDelta(peak)
+        const confirmationLevel = determineConfirmationLevel(peak)
+
+        const detection: ProposedDetection = {
+            compound,
+            level,
+            threshold: peak.threshold ?? undefined,
+            interpretation: interpret(level, peak.threshold),
+            matchProbability: matchProbability ?? undefined,
+            displayMode: getDisplayMode(matchProbability ?? 0),
+            detectionType: classifyDetection(compound, options.packageText || ''),
+            confirmationLevel,
+        }
+        if (confirmationLevel !== 'screening') {
+            detection.referenceStandard = {
+                retentionTimeMatch: delta !== null && delta <= RT_TOLERANCE_MIN,
+                spectrumMatch: peak.qualifierIonsOk === true,
+            }
+        }
+        if (peak.rSquared !== null || peak.limitOfDetection || peak.limitOfQuantification) {
+            detection.calibrationData = {
+                calibrationLevels: peak.calibrationLevels ?? undefined,
+                rSquared: peak.rSquared ?? undefined,
+                limitOfDetection: peak.limitOfDetection ?? undefined,
+                limitOfQuantification: peak.limitOfQuantification ?? undefined,
+            }
+        }
+
+        const key = compound.toLowerCase()
+        const existing = byCompound.get(key)
+        if (!existing || (detection.matchProbability ?? 0) > (existing.matchProbability ?? 0)) {
+            byCompound.set(key, detection)
+        }
+    }
+
+    return { detections: [...byCompound.values()], unmatchedPeaks }
+}
+
+// ============================================
+// STAGING & APPLY
+// ============================================
+
+export interface StageLabImportOptions {
+    productId: number
+    content: string
+    format?: LabImportFormat
+    fileName?: string
+    labName?: string
+    uploadedBy?: number
+}
+
+export interface LabImportPreview extends MappedDetections {
+    productId: number
+    parsed: ParsedLabFile
+}
+
+/**
+ * Parse an export and map its peaks for a product without saving anything.
+ */
+export async function previewLabImport(
+    payload: Payload,
+    options: Pick<StageLabImportOptions, 'productId' | 'content' | 'format'>
+): Promise<LabImportPreview> {
+    const product = await payload.findByID({
+        collection: 'products',
+        id: options.productId,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    const parsed = parseLabFile(options.content, options.format)
+    const index = await loadIngredientIndex(payload)
+    const mapped = mapPeaksToDetections(parsed.peaks, {
+        index,
+        packageText: product.fullPackageText || '',
+    })
+
+    return { productId: product.id, parsed, ...mapped }
+}
+
+/**
+ * Parse an export and stage it as a lab-imports document awaiting review.
+ */
+export async function stageLabImport(payload: Payload, options: StageLabImportOptions) {
+    const { productId, parsed, detections, unmatchedPeaks } = await previewLabImport(payload, options)
+
+    return payload.create({
+        collection: 'lab-imports',
+        data: {
+            product: productId,
+            status: 'pending_review',
+            format: parsed.format,
+            fileName: options.fileName,
+            labName: options.labName,
+            instrument: parsed.instrument,
+            sampleName: parsed.sampleName,
+            acquiredAt: parsed.acquiredAt && !isNaN(Date.parse(parsed.acquiredAt))
+                ? new Date(parsed.acquiredAt).toISOString()
+                : undefined,
+            peakCount: parsed.peaks.length,
+            detectionCount: detections.length,
+            notDetectedCount: parsed.notDetected,
+            detections,
+            unmatchedPeaks,
+            warnings: parsed.warnings,
+            uploadedBy: options.uploadedBy,
+        },
+        overrideAccess: true,
+    })
+}
+
+/**
+ * Merge approved detections into a product. Imported compounds replace
+ * existing entries for the same compound; other entries are kept.
+ */
+export function mergeDetections<T extends { compound: string }>(
+    existing: T[],
+    imported: ProposedDetection[]
+): Array<T | ProposedDetection> {
+    const importedKeys = new Set(imported.map(d => d.compound.toLowerCase()))
+    return [...existing.filter(d => !importedKeys.has(d.compound?.toLowerCase())), ...imported]
+}
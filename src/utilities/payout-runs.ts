@@ -0,0 +1,770 @@
+import type { Payload, PayloadRequest, Where } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import type { PayoutRun, ReferralPayout } from '../payload-types'
+import { parseDelimited } from './lab-import'
+
+/**
+ * Referral Payout Runs
+ *
+ * Batches approved (status "pending") referral payouts for one period and
+ * payment provider into a payout run:
+ * - payouts are grouped per referrer and destination into one payment item
+ * - items under the minimum stay pending and carry over to the next run
+ * - items that would take a referrer past the 1099 threshold without a W-9
+ *   on file are skipped
+ * - the run's items are exported as a provider payment file: PayPal Payouts
+ *   CSV (PayPal and Venmo), Stripe Connect transfer JSON, or a generic ACH CSV
+ *
+ * Provider result files are reconciled back by item id: paid items mark
+ * their payouts paid (with transactionId and the referrer's ytdTotal), failed
+ * items mark them failed.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PayoutProvider = 'paypal' | 'stripe' | 'ach'
+
+export type PayoutMethod = ReferralPayout['paymentMethod']
+
+export type PayoutSkipReason = 'below_minimum' | 'missing_payment_details' | 'w9_required'
+
+export type PayoutItemStatus = 'pending' | 'paid' | 'failed'
+
+export type PlannablePayout = Pick<
+    ReferralPayout,
+    'id' | 'referrerId' | 'referrerEmail' | 'amount' | 'paymentMethod' | 'paymentDetails' | 'w9Collected'
+>
+
+export interface PayoutRunItem {
+    itemId: string
+    referrerId: string
+    referrerEmail: string
+    paymentMethod: PayoutMethod
+    destination: string
+    amount: number
+    payoutIds: number[]
+}
+
+export interface SkippedPayoutGroup {
+    referrerId: string
+    paymentMethod: PayoutMethod
+    amount: number
+    reason: PayoutSkipReason
+    payoutIds: number[]
+}
+
+export interface PayoutRunPlan {
+    items: PayoutRunItem[]
+    skipped: SkippedPayoutGroup[]
+    totalAmount: number
+    payoutCount: number
+}
+
+export interface PlanOptions {
+    provider: PayoutProvider
+    minimumAmount: number
+    /** Referrer id -> amount already paid this calendar year */
+    ytdPaid: Map<string, number>
+    /** Referrers with a W-9 on file */
+    w9Collected: Set<string>
+    /** Prefix for item ids (unique per run) */
+    itemPrefix: string
+}
+
+export interface PaymentFile {
+    filename: string
+    contentType: string
+    body: string
+}
+
+export interface ProviderResultRow {
+    itemId: string
+    status: PayoutItemStatus
+    transactionId?: string
+    amount?: number
+    error?: string
+}
+
+export interface ReconcileSummary {
+    paid: string[]
+    failed: string[]
+    pending: string[]
+    unmatched: string[]
+    mismatched: Array<{ itemId: string; expected: number; received: number }>
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/** Payment methods each provider pays out */
+export const PROVIDER_METHODS: Record<PayoutProvider, PayoutMethod[]> = {
+    paypal: ['paypal', 'venmo'],
+    stripe: ['stripe'],
+    ach: ['ach'],
+}
+
+/** Minimum payout: $25 (1 active referral) */
+export const DEFAULT_MINIMUM_PAYOUT = 25
+
+/** IRS 1099-NEC reporting threshold per referrer per calendar year */
+export const TAX_REPORTING_THRESHOLD = 600
+
+const CURRENCY = 'USD'
+
+const STRIPE_ACCOUNT_PATTERN = /^acct_[A-Za-z0-9]+$/
+
+// Provider status words, lowercased with spaces / dashes removed
+const PAID_STATUSES = new Set(['success', 'succeeded', 'completed', 'complete', 'paid', 'settled', 'processed'])
+const FAILED_STATUSES = new Set(['failed', 'failure', 'returned', 'refunded', 'reversed', 'denied', 'blocked', 'rejected', 'cancelled', 'canceled'])
+
+// Result file column names per field, normalized like the status words
+const RESULT_COLUMNS = {
+    itemId: ['senderitemid', 'referenceid', 'itemid', 'id'],
+    status: ['status', 'transactionstatus', 'payoutstatus', 'itemstatus'],
+    transactionId: ['transactionid', 'payoutitemid', 'tracenumber', 'trace'],
+    amount: ['amount', 'grossamount'],
+    error: ['error', 'errors', 'reason', 'returnreason', 'failurereason'],
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100
+}
+
+/**
+ * Where a payout is sent: PayPal / Venmo fall back to the referrer's email,
+ * Stripe needs a connected account id, ACH an account reference.
+ * Null when the payout can't be sent.
+ */
+export function payoutDestination(payout: Pick<PlannablePayout, 'paymentMethod' | 'paymentDetails' | 'referrerEmail'>): string | null {
+    const details = payout.paymentDetails?.trim() || ''
+    switch (payout.paymentMethod) {
+        case 'paypal':
+        case 'venmo': {
+            const destination = details || payout.referrerEmail
+            return destination && destination !== 'pending@collection.com' ? destination : null
+        }
+        case 'stripe':
+            return STRIPE_ACCOUNT_PATTERN.test(details) ? details : null
+        case 'ach':
+            return details || null
+        default:
+            return null
+    }
+}
+
+/**
+ * Group payable payouts into run items. Payouts for other providers are left
+ * out; groups that can't be paid yet are returned as skipped.
+ */
+export function planPayoutRun(payouts: PlannablePayout[], options: PlanOptions): PayoutRunPlan {
+    const methods = PROVIDER_METHODS[options.provider]
+    const groups = new Map<string, PlannablePayout[]>()
+    for (const payout of payouts) {
+        if (!methods.includes(payout.paymentMethod)) continue
+        const key = [payout.referrerId, payout.paymentMethod, payoutDestination(payout) ?? ''].join('|')
+        groups.set(key, [...(groups.get(key) || []), payout])
+    }
+
+    const items: PayoutRunItem[] = []
+    const skipped: SkippedPayoutGroup[] = []
+    for (const group of groups.values()) {
+        const [first] = group
+        const amount = roundCents(group.reduce((sum, payout) => sum + (payout.amount || 0), 0))
+        const destination = payoutDestination(first)
+        const payoutIds = group.map(payout => payout.id)
+        const skip = (reason: PayoutSkipReason) => skipped.push({
+            referrerId: first.referrerId,
+            paymentMethod: first.paymentMethod,
+            amount,
+            reason,
+            payoutIds,
+        })
+
+        if (!destination) {
+            skip('missing_payment_details')
+        } else if (amount < options.minimumAmount) {
+            skip('below_minimum')
+        } else if (
+            (options.ytdPaid.get(first.referrerId) || 0) + amount >= TAX_REPORTING_THRESHOLD
+            && !options.w9Collected.has(first.referrerId)
+            && !group.some(payout => payout.w9Collected)
+        ) {
+            skip('w9_required')
+        } else {
+            items.push({
+                itemId: `${options.itemPrefix}-${items.length + 1}`,
+                referrerId: first.referrerId,
+                referrerEmail: first.referrerEmail,
+                paymentMethod: first.paymentMethod,
+                destination,
+                amount,
+                payoutIds,
+            })
+        }
+    }
+
+    return {
+        items,
+        skipped,
+        totalAmount: roundCents(items.reduce((sum, item) => sum + item.amount, 0)),
+        payoutCount: items.reduce((sum, item) => sum + item.payoutIds.length, 0),
+    }
+}
+
+// ============================================
+// PAYMENT FILES
+// ============================================
+
+function csvCell(value: string | number): string {
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function csvLine(values: Array<string | number>): string {
+    return values.map(csvCell).join(',')
+}
+
+/**
+ * Build the provider payment file for a run's items.
+ *
+ * - paypal: PayPal Payouts bulk CSV, no header row - recipient, amount,
+ *   currency, reference id, note, recipient wallet (PayPal / Venmo)
+ * - stripe: Stripe Connect transfer requests (amounts in cents), one per item
+ * - ach: generic ACH CSV with a header row
+ */
+export function buildPaymentFile(
+    provider: PayoutProvider,
+    run: { id: number | string; period: string },
+    items: Array<Pick<PayoutRunItem, 'itemId' | 'referrerId' | 'referrerEmail' | 'paymentMethod' | 'destination' | 'amount' | 'payoutIds'>>
+): PaymentFile {
+    const note = `Referral commission ${run.period}`
+    const basename = `payout-run-${run.id}-${provider}`
+
+    if (provider === 'stripe') {
+        const transfers = items.map(item => ({
+            amount: Math.round(item.amount * 100),
+            currency: CURRENCY.toLowerCase(),
+            destination: item.destination,
+            transfer_group: `payout-run-${run.id}`,
+            description: note,
+            metadata: {
+                payoutRunId: String(run.id),
+                itemId: item.itemId,
+                referrerId: item.referrerId,
+                payoutIds: item.payoutIds.join(','),
+            },
+        }))
+        return {
+            filename: `${basename}.json`,
+            contentType: 'application/json',
+            body: JSON.stringify(transfers, null, 2) + '\n',
+        }
+    }
+
+    if (provider === 'ach') {
+        const lines = [csvLine(['item_id', 'referrer_id', 'payee_email', 'account_reference', 'amount', 'currency', 'memo'])]
+        for (const item of items) {
+            lines.push(csvLine([item.itemId, item.referrerId, item.referrerEmail, item.destination, item.amount.toFixed(2), CURRENCY, note]))
+        }
+        return { filename: `${basename}.csv`, contentType: 'text/csv', body: lines.join('\n') + '\n' }
+    }
+
+    const lines = items.map(item => csvLine([
+        item.destination,
+        item.amount.toFixed(2),
+        CURRENCY,
+        item.itemId,
+        note,
+        item.paymentMethod === 'venmo' ? 'Venmo' : 'PayPal',
+    ]))
+    return { filename: `${basename}.csv`, contentType: 'text/csv', body: lines.join('\n') + '\n' }
+}
+
+// ============================================
+// RESULT FILES
+// ============================================
+
+function normalizeWord(value: string): string {
+    return value.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+export function toItemStatus(value: string | null | undefined): PayoutItemStatus {
+    const word = normalizeWord(value || '')
+    if (PAID_STATUSES.has(word)) return 'paid'
+    if (FAILED_STATUSES.has(word)) return 'failed'
+    return 'pending'
+}
+
+function toAmount(value: string | number | null | undefined): number | undefined {
+    if (typeof value === 'number') return value
+    const amount = parseFloat((value || '').replace(/[^0-9.-]/g, ''))
+    return Number.isFinite(amount) ? amount : undefined
+}
+
+/**
+ * Parse a CSV result file (PayPal Payouts report, bank ACH return file) by
+ * its header row
+ */
+function parseResultCsv(content: string): ProviderResultRow[] {
+    const rows = parseDelimited(content.replace(/^﻿/, ''), ',').filter(row => row.some(cell => cell.trim()))
+    const headerIndex = rows.findIndex(row => row.some(cell => RESULT_COLUMNS.itemId.includes(normalizeWord(cell))))
+    if (headerIndex === -1) {
+        throw new Error('Result file has no item id column (Sender Item ID / Reference ID / item_id)')
+    }
+
+    const header = rows[headerIndex].map(normalizeWord)
+    const column = (names: string[]) => names.map(name => header.indexOf(name)).find(index => index !== -1) ?? -1
+    const columns = {
+        itemId: column(RESULT_COLUMNS.itemId),
+        status: column(RESULT_COLUMNS.status),
+        transactionId: column(RESULT_COLUMNS.transactionId),
+        amount: column(RESULT_COLUMNS.amount),
+        error: column(RESULT_COLUMNS.error),
+    }
+    if (columns.status === -1) {
+        throw new Error('Result file has no status column')
+    }
+
+    const cell = (row: string[], index: number) => (index === -1 ? undefined : row[index]?.trim() || undefined)
+    return rows.slice(headerIndex + 1)
+        .filter(row => cell(row, columns.itemId))
+        .map(row => ({
+            itemId: cell(row, columns.itemId) as string,
+            status: toItemStatus(cell(row, columns.status)),
+            transactionId: cell(row, columns.transactionId),
+            amount: toAmount(cell(row, columns.amount)),
+            error: cell(row, columns.error),
+        }))
+}
+
+interface StripeTransfer {
+    id?: string
+    amount?: number
+    reversed?: boolean
+    metadata?: { itemId?: string }
+    failure_message?: string
+}
+
+/**
+ * Parse Stripe transfers (a list response or an array). Reversed transfers
+ * count as failed.
+ */
+function parseStripeResults(content: string): ProviderResultRow[] {
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(content)
+    } catch {
+        throw new Error('Stripe result file must be JSON')
+    }
+    const transfers = (Array.isArray(parsed) ? parsed : (parsed as { data?: unknown })?.data) as StripeTransfer[] | undefined
+    if (!Array.isArray(transfers)) {
+        throw new Error('Stripe result file must be an array of transfers or a list response')
+    }
+
+    return transfers
+        .filter(transfer => transfer?.metadata?.itemId)
+        .map(transfer => ({
+            itemId: transfer.metadata?.itemId as string,
+            status: transfer.reversed || transfer.failure_message ? 'failed' as const : 'paid' as const,
+            transactionId: transfer.id,
+            amount: typeof transfer.amount === 'number' ? transfer.amount / 100 : undefined,
+            error: transfer.failure_message || (transfer.reversed ? 'Transfer reversed' : undefined),
+        }))
+}
+
+export function parseProviderResults(provider: PayoutProvider, content: string): ProviderResultRow[] {
+    return provider === 'stripe' ? parseStripeResults(content) : parseResultCsv(content)
+}
+
+// ============================================
+// DATABASE
+// ============================================
+
+function yearStart(year: number): string {
+    return new Date(Date.UTC(year, 0, 1)).toISOString()
+}
+
+/**
+ * Amount paid to each referrer in a calendar year (paid payouts by
+ * processedAt), with whether a W-9 is on file
+ */
+export async function referrerYearTotals(
+    payload: Payload,
+    year: number,
+    referrerIds?: string[],
+    req?: PayloadRequest
+): Promise<Map<string, { total: number; email: string; w9Collected: boolean; payouts: number }>> {
+    const where: Where = {
+        and: [
+            { status: { equals: 'paid' } },
+            { processedAt: { greater_than_equal: yearStart(year) } },
+            { processedAt: { less_than: yearStart(year + 1) } },
+            ...(referrerIds ? [{ referrerId: { in: referrerIds } }] : []),
+        ],
+    }
+    const [{ docs: paid }, { docs: w9 }] = await Promise.all([
+        payload.find({ collection: 'referral-payouts', where, pagination: false, depth: 0, overrideAccess: true, req }),
+        payload.find({
+            collection: 'referral-payouts',
+            where: {
+                and: [
+                    { w9Collected: { equals: true } },
+                    ...(referrerIds ? [{ referrerId: { in: referrerIds } }] : []),
+                ],
+            },
+            pagination: false,
+            depth: 0,
+            overrideAccess: true,
+            req,
+        }),
+    ])
+    const w9Referrers = new Set(w9.map(payout => payout.referrerId))
+
+    const totals = new Map<string, { total: number; email: string; w9Collected: boolean; payouts: number }>()
+    for (const payout of paid) {
+        const current = totals.get(payout.referrerId) || {
+            total: 0,
+            email: payout.referrerEmail,
+            w9Collected: w9Referrers.has(payout.referrerId),
+            payouts: 0,
+        }
+        current.total = roundCents(current.total + (payout.amount || 0))
+        current.payouts++
+        totals.set(payout.referrerId, current)
+    }
+    for (const referrerId of w9Referrers) {
+        if (!totals.has(referrerId) && (!referrerIds || referrerIds.includes(referrerId))) {
+            const email = w9.find(payout => payout.referrerId === referrerId)?.referrerEmail || ''
+            totals.set(referrerId, { total: 0, email, w9Collected: true, payouts: 0 })
+        }
+    }
+    return totals
+}
+
+function periodWhere(period: string): Where {
+    // Annual runs ("2026") also take monthly payouts ("2026-01")
+    return /^\d{4}$/.test(period)
+        ? { or: [{ period: { equals: period } }, { period: { like: `${period}-` } }] }
+        : { period: { equals: period } }
+}
+
+export interface CreateRunOptions {
+    period: string
+    provider: PayoutProvider
+    minimumAmount?: number
+    /** Plan only - nothing is saved */
+    dryRun?: boolean
+}
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Array<Record<string, unknown>> }>
+
+/**
+ * Move pending payouts to "processing" in a single conditional UPDATE and
+ * return the ids actually moved. A payout another run claimed first is no
+ * longer pending and is left out.
+ */
+async function claimPendingPayouts(payload: Payload, ids: number[]): Promise<Set<number>> {
+    if (ids.length === 0) return new Set()
+    const execute = (payload.db as unknown as { drizzle: { execute: Execute } }).drizzle.execute.bind(
+        (payload.db as unknown as { drizzle: unknown }).drizzle
+    )
+    const result = await execute(sql`
+        UPDATE "referral_payouts"
+        SET "status" = 'processing', "updated_at" = now()
+        WHERE "id" IN (${sql.join(ids.map(id => sql`${id}`), sql`, `)})
+          AND "status" = 'pending'
+        RETURNING "id"
+    `)
+    return new Set(result.rows.map(row => Number(row.id)))
+}
+
+async function releasePayouts(payload: Payload, ids: number[], req?: PayloadRequest): Promise<void> {
+    for (const id of ids) {
+        await payload.update({
+            collection: 'referral-payouts',
+            id,
+            data: { status: 'pending', payoutRun: null },
+            overrideAccess: true,
+            req,
+        })
+    }
+}
+
+/**
+ * Batch the period's pending payouts for a provider into a payout run. The
+ * batched payouts move to "processing" and link to the run.
+ *
+ * Payouts are claimed with a conditional update before the run is saved, so
+ * runs created at the same time never batch the same payout; the run is
+ * planned from the payouts this call claimed. No run is saved when nothing
+ * qualifies.
+ */
+export async function createPayoutRun(
+    payload: Payload,
+    options: CreateRunOptions,
+    req?: PayloadRequest
+): Promise<{ run: PayoutRun | null; plan: PayoutRunPlan }> {
+    const minimumAmount = options.minimumAmount ?? DEFAULT_MINIMUM_PAYOUT
+    const { docs: payouts } = await payload.find({
+        collection: 'referral-payouts',
+        where: {
+            and: [
+                { status: { equals: 'pending' } },
+                { paymentMethod: { in: PROVIDER_METHODS[options.provider] } },
+                periodWhere(options.period),
+            ],
+        },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+
+    const referrerIds = [...new Set(payouts.map(payout => payout.referrerId))]
+    const yearTotals = referrerIds.length > 0
+        ? await referrerYearTotals(payload, new Date().getUTCFullYear(), referrerIds, req)
+        : new Map()
+    const planOptions = {
+        provider: options.provider,
+        minimumAmount,
+        ytdPaid: new Map([...yearTotals].map(([id, totals]) => [id, totals.total])),
+        w9Collected: new Set([...yearTotals].filter(([, totals]) => totals.w9Collected).map(([id]) => id)),
+    }
+
+    const preview = planPayoutRun(payouts, { ...planOptions, itemPrefix: 'DRYRUN' })
+    if (options.dryRun || preview.items.length === 0) {
+        return { run: null, plan: preview }
+    }
+
+    const claimed = await claimPendingPayouts(payload, preview.items.flatMap(item => item.payoutIds))
+    const claimedPayouts = payouts.filter(payout => claimed.has(payout.id))
+    const claimedPlan = planPayoutRun(claimedPayouts, { ...planOptions, itemPrefix: 'CLAIM' })
+    const planned = new Set(claimedPlan.items.flatMap(item => item.payoutIds))
+    const skipped = [...preview.skipped, ...claimedPlan.skipped]
+    let draftId: number | undefined
+
+    try {
+        // Payouts that no longer make the minimum without the ones another run took
+        await releasePayouts(payload, [...claimed].filter(id => !planned.has(id)), req)
+
+        const plannable = claimedPayouts.filter(payout => planned.has(payout.id))
+        if (plannable.length === 0) {
+            return { run: null, plan: { ...claimedPlan, skipped } }
+        }
+
+        const draft = await payload.create({
+            collection: 'payout-runs',
+            data: {
+                period: options.period,
+                provider: options.provider,
+                status: 'ready',
+                minimumAmount,
+                createdBy: req?.user?.collection === 'users' ? req.user.id : undefined,
+            },
+            overrideAccess: true,
+            req,
+        })
+        draftId = draft.id
+        const plan = { ...planPayoutRun(plannable, { ...planOptions, itemPrefix: `PR${draft.id}` }), skipped }
+
+        for (const item of plan.items) {
+            for (const payoutId of item.payoutIds) {
+                await payload.update({
+                    collection: 'referral-payouts',
+                    id: payoutId,
+                    data: { status: 'processing', payoutRun: draft.id },
+                    overrideAccess: true,
+                    req,
+                })
+            }
+        }
+
+        const run = await payload.update({
+            collection: 'payout-runs',
+            id: draft.id,
+            data: {
+                items: plan.items.map(item => ({ ...item, status: 'pending' as const })),
+                skipped: plan.skipped,
+                itemCount: plan.items.length,
+                payoutCount: plan.payoutCount,
+                totalAmount: plan.totalAmount,
+            },
+            overrideAccess: true,
+            req,
+        })
+
+        console.log(`[PayoutRuns] Run ${run.id}: ${plan.items.length} item(s), $${plan.totalAmount} via ${options.provider} for ${options.period}`)
+        return { run, plan }
+    } catch (error) {
+        // Hand the claimed payouts back so the next run can take them
+        await releasePayouts(payload, [...claimed], req).catch(releaseError =>
+            console.error('[PayoutRuns] Failed to release claimed payouts:', releaseError))
+        // Don't leave an empty run behind looking ready to export
+        if (draftId !== undefined) {
+            await payload.delete({ collection: 'payout-runs', id: draftId, overrideAccess: true, req }).catch(deleteError =>
+                console.error(`[PayoutRuns] Failed to delete draft run ${draftId}:`, deleteError))
+        }
+        throw error
+    }
+}
+
+/**
+ * Items of a stored run in the shape buildPaymentFile takes
+ */
+export function runItems(run: PayoutRun): PayoutRunItem[] {
+    return (run.items || []).map(item => ({
+        itemId: item.itemId,
+        referrerId: item.referrerId,
+        referrerEmail: item.referrerEmail,
+        paymentMethod: item.paymentMethod as PayoutMethod,
+        destination: item.destination,
+        amount: item.amount,
+        payoutIds: Array.isArray(item.payoutIds) ? (item.payoutIds as number[]) : [],
+    }))
+}
+
+/**
+ * Apply a provider result file to a run. Paid items mark their payouts paid
+ * and refresh the referrer's ytdTotal; failed items mark them failed. Items
+ * already settled, unknown ids and amount mismatches are left alone.
+ */
+export async function reconcilePayoutRun(
+    payload: Payload,
+    run: PayoutRun,
+    content: string,
+    req?: PayloadRequest
+): Promise<{ run: PayoutRun; summary: ReconcileSummary }> {
+    const rows = parseProviderResults(run.provider, content)
+    const items = new Map((run.items || []).map(item => [item.itemId, { ...item }]))
+    const summary: ReconcileSummary = { paid: [], failed: [], pending: [], unmatched: [], mismatched: [] }
+    const now = new Date().toISOString()
+    const paidReferrers = new Set<string>()
+
+    for (const row of rows) {
+        const item = items.get(row.itemId)
+        if (!item) {
+            summary.unmatched.push(row.itemId)
+            continue
+        }
+        if (item.status === 'paid' || item.status === 'failed') continue
+        if (row.amount !== undefined && Math.abs(row.amount - item.amount) >= 0.01) {
+            summary.mismatched.push({ itemId: item.itemId, expected: item.amount, received: row.amount })
+            continue
+        }
+        if (row.status === 'pending') {
+            summary.pending.push(item.itemId)
+            continue
+        }
+
+        const payoutIds = Array.isArray(item.payoutIds) ? (item.payoutIds as number[]) : []
+        for (const payoutId of payoutIds) {
+            const payout = await payload.findByID({ collection: 'referral-payouts', id: payoutId, depth: 0, overrideAccess: true, req })
+            const note = `Payout run ${run.id}: ${row.status}${row.error ? ` (${row.error})` : ''}`
+            await payload.update({
+                collection: 'referral-payouts',
+                id: payoutId,
+                data: row.status === 'paid'
+                    ? { status: 'paid', processedAt: now, transactionId: row.transactionId, notes: payout.notes ? `${payout.notes}\n${note}` : note }
+                    : { status: 'failed', notes: payout.notes ? `${payout.notes}\n${note}` : note },
+                overrideAccess: true,
+                req,
+            })
+        }
+
+        item.status = row.status
+        item.transactionId = row.transactionId
+        item.error = row.error
+        summary[row.status].push(item.itemId)
+        if (row.status === 'paid') paidReferrers.add(item.referrerId)
+    }
+
+    // 1099 tracking: ytdTotal on every payout paid to the referrer this year
+    if (paidReferrers.size > 0) {
+        const year = new Date(now).getUTCFullYear()
+        const totals = await referrerYearTotals(payload, year, [...paidReferrers], req)
+        const { docs: paidThisYear } = await payload.find({
+            collection: 'referral-payouts',
+            where: {
+                and: [
+                    { referrerId: { in: [...paidReferrers] } },
+                    { status: { equals: 'paid' } },
+                    { processedAt: { greater_than_equal: yearStart(year) } },
+                ],
+            },
+            pagination: false,
+            depth: 0,
+            overrideAccess: true,
+            req,
+        })
+        for (const payout of paidThisYear) {
+            const ytdTotal = totals.get(payout.referrerId)?.total ?? 0
+            if (payout.ytdTotal === ytdTotal) continue
+            await payload.update({ collection: 'referral-payouts', id: payout.id, data: { ytdTotal }, overrideAccess: true, req })
+        }
+    }
+
+    const allItems = [...items.values()]
+    const settled = allItems.filter(item => item.status === 'paid' || item.status === 'failed').length
+    const updated = await payload.update({
+        collection: 'payout-runs',
+        id: run.id,
+        data: {
+            items: allItems,
+            status: settled === allItems.length ? 'reconciled' : settled > 0 ? 'partially_reconciled' : run.status,
+            reconciledAt: now,
+            lastReconciliation: summary as unknown as Record<string, unknown>,
+        },
+        overrideAccess: true,
+        req,
+    })
+
+    console.log(`[PayoutRuns] Reconciled run ${run.id}: ${summary.paid.length} paid, ${summary.failed.length} failed, ${summary.unmatched.length} unmatched`)
+    return { run: updated, summary }
+}
+
+/**
+ * Cancel a run nothing has been reconciled for; its payouts go back to pending
+ */
+export async function cancelPayoutRun(payload: Payload, run: PayoutRun, req?: PayloadRequest): Promise<PayoutRun> {
+    if ((run.items || []).some(item => item.status !== 'pending')) {
+        throw new Error('Runs with reconciled items cannot be cancelled')
+    }
+
+    const { docs: payouts } = await payload.find({
+        collection: 'referral-payouts',
+        where: {
+            and: [
+                { payoutRun: { equals: run.id } },
+                { status: { equals: 'processing' } },
+            ],
+        },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+    for (const payout of payouts) {
+        await payload.update({
+            collection: 'referral-payouts',
+            id: payout.id,
+            data: { status: 'pending', payoutRun: null },
+            overrideAccess: true,
+            req,
+        })
+    }
+
+    return payload.update({
+        collection: 'payout-runs',
+        id: run.id,
+        data: { status: 'cancelled' },
+        overrideAccess: true,
+        req,
+    })
+}
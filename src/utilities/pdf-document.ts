@@ -0,0 +1,181 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Server-side PDF generation for the reports we email (brand benchmark
+ * reports). Supports what those need and nothing more: A4 pages, text in
+ * the standard Helvetica faces, lines, polylines and filled rectangles.
+ *
+ * Standard fonts need no embedding, so the output stays small and the writer
+ * has no dependencies. Text is WinAnsi (Latin-1); other characters are
+ * replaced with '?'. Coordinates are PDF points from the bottom-left corner.
+ */
+
+export const A4_WIDTH = 595
+export const A4_HEIGHT = 842
+
+/** RGB, each channel 0-1 */
+export type PdfColor = [number, number, number]
+
+export interface PdfPage {
+    ops: string[]
+}
+
+export interface PdfTextOptions {
+    size?: number
+    bold?: boolean
+    color?: PdfColor
+}
+
+export interface PdfStrokeOptions {
+    color?: PdfColor
+    width?: number
+}
+
+export interface PdfDocumentInfo {
+    title?: string
+    author?: string
+    createdAt?: Date
+}
+
+const BLACK: PdfColor = [0, 0, 0]
+
+function num(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, '')
+}
+
+function color(rgb: PdfColor): string {
+    return rgb.map(num).join(' ')
+}
+
+/**
+ * Escape a string for a PDF literal, folding anything outside Latin-1
+ */
+function pdfString(text: string): string {
+    const latin1 = text
+        .replace(/[‘’]/g, '\'')
+        .replace(/[“”]/g, '"')
+        .replace(/[–—]/g, '-')
+        .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+    return `(${latin1.replace(/[\\()]/g, ch => `\\${ch}`)})`
+}
+
+function pdfDate(date: Date): string {
+    return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`
+}
+
+export function createPdfPage(): PdfPage {
+    return { ops: [] }
+}
+
+/**
+ * Approximate width of Helvetica text - good enough to right-align numbers
+ * and truncate labels
+ */
+export function pdfTextWidth(text: string, size: number): number {
+    let units = 0
+    for (const ch of text) {
+        if (/[ilI.,:;'|!]/.test(ch)) units += 0.28
+        else if (/[mwMW]/.test(ch)) units += 0.83
+        else if (/[A-Z0-9]/.test(ch)) units += 0.64
+        else units += 0.52
+    }
+    return units * size
+}
+
+/**
+ * Shorten text to fit a width, ending in "..."
+ */
+export function fitPdfText(text: string, size: number, maxWidth: number): string {
+    if (pdfTextWidth(text, size) <= maxWidth) return text
+    let out = text
+    while (out.length > 1 && pdfTextWidth(`${out}...`, size) > maxWidth) {
+        out = out.slice(0, -1)
+    }
+    return `${out.trimEnd()}...`
+}
+
+export function pdfText(page: PdfPage, x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10
+    page.ops.push(
+        'BT',
+        `${color(options.color ?? BLACK)} rg`,
+        `/${options.bold ? 'F2' : 'F1'} ${num(size)} Tf`,
+        `${num(x)} ${num(y)} Td`,
+        `${pdfString(text)} Tj`,
+        'ET'
+    )
+}
+
+export function pdfLine(page: PdfPage, x1: number, y1: number, x2: number, y2: number, options: PdfStrokeOptions = {}): void {
+    pdfPolyline(page, [[x1, y1], [x2, y2]], options)
+}
+
+export function pdfPolyline(page: PdfPage, points: Array<[number, number]>, options: PdfStrokeOptions = {}): void {
+    if (points.length < 2) return
+    const [first, ...rest] = points
+    page.ops.push(
+        `${color(options.color ?? BLACK)} RG`,
+        `${num(options.width ?? 1)} w`,
+        `${num(first[0])} ${num(first[1])} m`,
+        ...rest.map(([x, y]) => `${num(x)} ${num(y)} l`),
+        'S'
+    )
+}
+
+export function pdfRect(page: PdfPage, x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    page.ops.push(`${color(fill)} rg`, `${num(x)} ${num(y)} ${num(width)} ${num(height)} re`, 'f')
+}
+
+/**
+ * Serialize pages into a PDF file
+ */
+export function renderPdf(pages: PdfPage[], info: PdfDocumentInfo = {}): Buffer {
+    const objects: string[] = []
+    const add = (body: string): number => {
+        objects.push(body)
+        return objects.length
+    }
+
+    const catalogId = add('')
+    const pagesId = add('')
+    const regularFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    const boldFontId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+    const infoId = add([
+        '<<',
+        info.title ? `/Title ${pdfString(info.title)}` : '',
+        info.author ? `/Author ${pdfString(info.author)}` : '',
+        `/CreationDate ${pdfString(pdfDate(info.createdAt ?? new Date()))}`,
+        '>>',
+    ].filter(Boolean).join(' '))
+
+    const pageIds: number[] = []
+    for (const page of pages.length > 0 ? pages : [createPdfPage()]) {
+        const content = page.ops.join('\n')
+        const contentId = add(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`)
+        pageIds.push(add([
+            '<< /Type /Page',
+            `/Parent ${pagesId} 0 R`,
+            `/MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}]`,
+            `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >>`,
+            `/Contents ${contentId} 0 R`,
+            '>>',
+        ].join(' ')))
+    }
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`
+
+    let out = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n'
+    const offsets: number[] = []
+    objects.forEach((body, i) => {
+        offsets.push(Buffer.byteLength(out, 'latin1'))
+        out += `${i + 1} 0 obj\n${body}\nendobj\n`
+    })
+
+    const xrefOffset = Buffer.byteLength(out, 'latin1')
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    out += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+    out += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(out, 'latin1')
+}
@@ -0,0 +1,283 @@
+import type { Payload } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import { getPushReceipts, type ExpoPushReceipt } from '../lib/push'
+
+/**
+ * Push Receipt Reconciliation
+ *
+ * An Expo push ticket only says Expo accepted the message. Whether it
+ * reached Apple/Google is in the receipt, available ~15 minutes later and
+ * kept for 24 hours. The reconciler (/api/cron/push-receipts) fetches
+ * receipts for notification-sends still in status "sent" and:
+ * - moves them to "delivered", "failed" or "invalid_token"
+ * - deactivates push tokens whose receipt says DeviceNotRegistered
+ * - recomputes sentCount/deliveredCount/failedCount on the campaigns
+ *   touched, so dead tokens no longer count as sent
+ */
+
+/** Receipts aren't ready before this */
+export const RECEIPT_DELAY_MINUTES = 15
+
+/** Expo drops receipts after a day */
+export const RECEIPT_WINDOW_HOURS = 24
+
+const BATCH_SIZE = 1000
+const MAX_BATCHES = 10
+
+export interface ReceiptOutcome {
+    status: 'delivered' | 'failed' | 'invalid_token'
+    receiptStatus: 'ok' | 'error'
+    errorCode?: string
+    errorMessage?: string
+    deactivateToken: boolean
+}
+
+export interface ReconcileResult {
+    checked: number
+    delivered: number
+    failed: number
+    invalidTokens: number
+    awaitingReceipt: number
+    tokensDeactivated: number
+    campaignsUpdated: number
+}
+
+export interface DeliveryFunnel {
+    campaignId: number
+    /** Send records created */
+    targeted: number
+    /** Ticket ok: Expo accepted the message */
+    accepted: number
+    /** Receipt ok */
+    delivered: number
+    opened: number
+    /** Accepted, receipt not seen yet (or expired) */
+    awaitingReceipt: number
+    /** Rejected at send time (ticket error) */
+    ticketErrors: number
+    /** Accepted but the receipt reported an error */
+    receiptErrors: number
+    /** Either stage: DeviceNotRegistered */
+    deadTokens: number
+}
+
+interface PendingSend {
+    id: number
+    expoTicketId: string
+    pushToken: number | { id: number }
+    campaign?: number | { id: number } | null
+}
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Array<Record<string, unknown>> }>
+
+function getExecute(payload: Payload): Execute {
+    return (payload.db as unknown as { drizzle: { execute: Execute } }).drizzle.execute.bind(
+        (payload.db as unknown as { drizzle: unknown }).drizzle
+    )
+}
+
+function idList(ids: number[]) {
+    return sql.join(ids.map(id => sql`${id}`), sql`, `)
+}
+
+const idOf = (value: number | { id: number }) => (typeof value === 'object' ? value.id : value)
+
+/**
+ * What a receipt means for the send and its token
+ */
+export function classifyReceipt(receipt: ExpoPushReceipt): ReceiptOutcome {
+    if (receipt.status === 'ok') {
+        return { status: 'delivered', receiptStatus: 'ok', deactivateToken: false }
+    }
+    const errorCode = receipt.details?.error
+    const deadToken = errorCode === 'DeviceNotRegistered'
+    return {
+        status: deadToken ? 'invalid_token' : 'failed',
+        receiptStatus: 'error',
+        errorCode,
+        errorMessage: receipt.message,
+        deactivateToken: deadToken,
+    }
+}
+
+/**
+ * Campaign counters from the send records: everything Expo accepted that
+ * hasn't since failed counts as sent
+ */
+export async function refreshCampaignCounters(payload: Payload, campaignIds: number[]): Promise<number> {
+    if (campaignIds.length === 0) return 0
+    const execute = getExecute(payload)
+
+    const result = await execute(sql`
+        SELECT
+            "campaign_id",
+            count(*) FILTER (WHERE "status" IN ('sent', 'delivered', 'opened'))::int AS "sent",
+            count(*) FILTER (WHERE "status" IN ('delivered', 'opened'))::int AS "delivered",
+            count(*) FILTER (WHERE "status" IN ('failed', 'invalid_token'))::int AS "failed"
+        FROM "notification_sends"
+        WHERE "campaign_id" IN (${idList(campaignIds)})
+        GROUP BY "campaign_id"
+    `)
+
+    for (const row of result.rows) {
+        await payload.update({
+            collection: 'notification-campaigns',
+            id: Number(row.campaign_id),
+            data: {
+                sentCount: Number(row.sent) || 0,
+                deliveredCount: Number(row.delivered) || 0,
+                failedCount: Number(row.failed) || 0,
+            },
+            overrideAccess: true,
+        })
+    }
+    return result.rows.length
+}
+
+/**
+ * Fetch receipts for sends in the receipt window and apply them
+ */
+export async function reconcilePushReceipts(payload: Payload, now: Date = new Date()): Promise<ReconcileResult> {
+    const result: ReconcileResult = {
+        checked: 0,
+        delivered: 0,
+        failed: 0,
+        invalidTokens: 0,
+        awaitingReceipt: 0,
+        tokensDeactivated: 0,
+        campaignsUpdated: 0,
+    }
+
+    const from = new Date(now.getTime() - RECEIPT_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+    const to = new Date(now.getTime() - RECEIPT_DELAY_MINUTES * 60 * 1000).toISOString()
+    const deadTokens = new Set<number>()
+    const campaigns = new Set<number>()
+    let lastId = 0
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+        const { docs } = await payload.find({
+            collection: 'notification-sends',
+            where: {
+                and: [
+                    { status: { equals: 'sent' } },
+                    { expoTicketId: { exists: true } },
+                    { sentAt: { greater_than_equal: from } },
+                    { sentAt: { less_than_equal: to } },
+                    { id: { greater_than: lastId } },
+                ],
+            },
+            sort: 'id',
+            limit: BATCH_SIZE,
+            depth: 0,
+            overrideAccess: true,
+        })
+        if (docs.length === 0) break
+
+        const sends = docs as unknown as PendingSend[]
+        lastId = sends[sends.length - 1].id
+        result.checked += sends.length
+
+        const receipts = await getPushReceipts(sends.map(send => send.expoTicketId))
+        const deliveredIds: number[] = []
+
+        for (const send of sends) {
+            const receipt = receipts[send.expoTicketId]
+            if (!receipt) {
+                result.awaitingReceipt++
+                continue
+            }
+            if (send.campaign) campaigns.add(idOf(send.campaign))
+
+            const outcome = classifyReceipt(receipt)
+            if (outcome.status === 'delivered') {
+                deliveredIds.push(send.id)
+                continue
+            }
+
+            if (outcome.status === 'invalid_token') result.invalidTokens++
+            else result.failed++
+            if (outcome.deactivateToken) deadTokens.add(idOf(send.pushToken))
+
+            await payload.update({
+                collection: 'notification-sends',
+                id: send.id,
+                data: {
+                    status: outcome.status,
+                    expoReceiptStatus: outcome.receiptStatus,
+                    errorCode: outcome.errorCode,
+                    errorMessage: outcome.errorMessage,
+                },
+                overrideAccess: true,
+            })
+        }
+
+        if (deliveredIds.length > 0) {
+            await payload.update({
+                collection: 'notification-sends',
+                where: { id: { in: deliveredIds } },
+                data: {
+                    status: 'delivered',
+                    expoReceiptStatus: 'ok',
+                    deliveredAt: now.toISOString(),
+                },
+                overrideAccess: true,
+            })
+            result.delivered += deliveredIds.length
+        }
+
+        if (sends.length < BATCH_SIZE) break
+    }
+
+    if (deadTokens.size > 0) {
+        await payload.update({
+            collection: 'push-tokens',
+            where: { id: { in: [...deadTokens] } },
+            data: { isActive: false },
+            overrideAccess: true,
+        })
+        result.tokensDeactivated = deadTokens.size
+    }
+
+    result.campaignsUpdated = await refreshCampaignCounters(payload, [...campaigns])
+    return result
+}
+
+/**
+ * Delivery funnel per campaign, from the send records
+ */
+export async function getCampaignFunnels(payload: Payload, campaignIds: number[]): Promise<DeliveryFunnel[]> {
+    if (campaignIds.length === 0) return []
+    const execute = getExecute(payload)
+
+    const result = await execute(sql`
+        SELECT
+            "campaign_id",
+            count(*)::int AS "targeted",
+            count(*) FILTER (WHERE "expo_ticket_id" IS NOT NULL)::int AS "accepted",
+            count(*) FILTER (WHERE "status" IN ('delivered', 'opened'))::int AS "delivered",
+            count(*) FILTER (WHERE "status" = 'opened')::int AS "opened",
+            count(*) FILTER (WHERE "status" = 'sent')::int AS "awaiting_receipt",
+            count(*) FILTER (WHERE "status" IN ('failed', 'invalid_token') AND "expo_ticket_id" IS NULL)::int AS "ticket_errors",
+            count(*) FILTER (WHERE "status" IN ('failed', 'invalid_token') AND "expo_ticket_id" IS NOT NULL)::int AS "receipt_errors",
+            count(*) FILTER (WHERE "status" = 'invalid_token')::int AS "dead_tokens"
+        FROM "notification_sends"
+        WHERE "campaign_id" IN (${idList(campaignIds)})
+        GROUP BY "campaign_id"
+    `)
+
+    const byCampaign = new Map(result.rows.map(row => [Number(row.campaign_id), row]))
+    return campaignIds.map((campaignId) => {
+        const row = byCampaign.get(campaignId) || {}
+        return {
+            campaignId,
+            targeted: Number(row.targeted) || 0,
+            accepted: Number(row.accepted) || 0,
+            delivered: Number(row.delivered) || 0,
+            opened: Number(row.opened) || 0,
+            awaitingReceipt: Number(row.awaiting_receipt) || 0,
+            ticketErrors: Number(row.ticket_errors) || 0,
+            receiptErrors: Number(row.receipt_errors) || 0,
+            deadTokens: Number(row.dead_tokens) || 0,
+        }
+    })
+}
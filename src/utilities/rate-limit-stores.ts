@@ -0,0 +1,234 @@
+/**
+ * Rate Limit Stores
+ *
+ * Counter storage backends for the rate limiter. Every store implements the
+ * same three primitives so any algorithm can run on any backend:
+ * - increment: atomic counter with expiry (fixed / sliding windows)
+ * - get / set: single numeric value with expiry (token bucket state)
+ *
+ * Backends:
+ * - memory:   per-process Map (local development and tests only)
+ * - kv:       Vercel KV over REST (default in production)
+ * - redis:    REDIS_URL via redis-cache.ts
+ * - postgres: rate_limit_counters table in the app database
+ */
+
+import { kv } from '@vercel/kv'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import { cache } from './redis-cache'
+
+export type RateLimitStoreType = 'memory' | 'kv' | 'redis' | 'postgres'
+
+export interface RateLimitStore {
+    readonly type: RateLimitStoreType
+    /** Increment a counter, starting it with the given TTL. Returns the new count. */
+    increment(key: string, ttlMs: number): Promise<number>
+    /** Read a value, or null when missing or expired */
+    get(key: string): Promise<number | null>
+    /** Write a value with a TTL */
+    set(key: string, value: number, ttlMs: number): Promise<void>
+}
+
+// ============================================
+// MEMORY
+// ============================================
+
+interface MemoryEntry {
+    value: number
+    expiresAt: number
+}
+
+/**
+ * In-memory store. On serverless platforms each instance has its own memory,
+ * so this only limits correctly in a single long-running process.
+ */
+export function createMemoryStore(): RateLimitStore {
+    const entries = new Map<string, MemoryEntry>()
+
+    const read = (key: string): MemoryEntry | null => {
+        const entry = entries.get(key)
+        if (!entry) return null
+        if (entry.expiresAt <= Date.now()) {
+            entries.delete(key)
+            return null
+        }
+        return entry
+    }
+
+    return {
+        type: 'memory',
+        async increment(key, ttlMs) {
+            const entry = read(key)
+            if (entry) {
+                entry.value++
+                return entry.value
+            }
+            entries.set(key, { value: 1, expiresAt: Date.now() + ttlMs })
+            return 1
+        },
+        async get(key) {
+            return read(key)?.value ?? null
+        },
+        async set(key, value, ttlMs) {
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+        },
+    }
+}
+
+// ============================================
+// VERCEL KV
+// ============================================
+
+export function createKvStore(): RateLimitStore {
+    return {
+        type: 'kv',
+        async increment(key, ttlMs) {
+            const count = await kv.incr(key)
+            // Set expiry on first request in window
+            if (count === 1) {
+                await kv.pexpire(key, ttlMs)
+            }
+            return count
+        },
+        async get(key) {
+            const value = await kv.get<number | string>(key)
+            return value === null || value === undefined ? null : Number(value)
+        },
+        async set(key, value, ttlMs) {
+            await kv.set(key, value, { px: Math.max(1, Math.ceil(ttlMs)) })
+        },
+    }
+}
+
+// ============================================
+// REDIS
+// ============================================
+
+export function createRedisStore(): RateLimitStore {
+    return {
+        type: 'redis',
+        async increment(key, ttlMs) {
+            const count = await cache.incr(key)
+            if (count === 1) {
+                await cache.expire(key, Math.ceil(ttlMs / 1000))
+            }
+            return count
+        },
+        async get(key) {
+            const value = await cache.get<number>(key)
+            return value === null ? null : Number(value)
+        },
+        async set(key, value, ttlMs) {
+            await cache.set(key, value, Math.max(1, Math.ceil(ttlMs / 1000)))
+        },
+    }
+}
+
+// ============================================
+// POSTGRES
+// ============================================
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Array<Record<string, unknown>> }>
+
+// Expired rows are swept on roughly 1 in this many writes
+const POSTGRES_SWEEP_INTERVAL = 500
+
+/**
+ * Postgres store backed by the rate_limit_counters table. Useful where
+ * neither KV nor Redis is provisioned; every check is one upsert round trip.
+ */
+export function createPostgresStore(getExecute: () => Promise<Execute>): RateLimitStore {
+    const sweep = async (execute: Execute) => {
+        if (Math.floor(Math.random() * POSTGRES_SWEEP_INTERVAL) !== 0) return
+        await execute(sql`DELETE FROM "rate_limit_counters" WHERE "expires_at" < now()`)
+    }
+
+    return {
+        type: 'postgres',
+        async increment(key, ttlMs) {
+            const execute = await getExecute()
+            const expiresAt = new Date(Date.now() + ttlMs).toISOString()
+            const result = await execute(sql`
+                INSERT INTO "rate_limit_counters" ("key", "value", "expires_at")
+                VALUES (${key}, 1, ${expiresAt})
+                ON CONFLICT ("key") DO UPDATE SET
+                    "value" = CASE WHEN "rate_limit_counters"."expires_at" <= now()
+                        THEN 1 ELSE "rate_limit_counters"."value" + 1 END,
+                    "expires_at" = CASE WHEN "rate_limit_counters"."expires_at" <= now()
+                        THEN EXCLUDED."expires_at" ELSE "rate_limit_counters"."expires_at" END
+                RETURNING "value"
+            `)
+            await sweep(execute)
+            return Number(result.rows[0]?.value ?? 1)
+        },
+        async get(key) {
+            const execute = await getExecute()
+            const result = await execute(sql`
+                SELECT "value" FROM "rate_limit_counters"
+                WHERE "key" = ${key} AND "expires_at" > now()
+            `)
+            return result.rows[0] ? Number(result.rows[0].value) : null
+        },
+        async set(key, value, ttlMs) {
+            const execute = await getExecute()
+            const expiresAt = new Date(Date.now() + ttlMs).toISOString()
+            await execute(sql`
+                INSERT INTO "rate_limit_counters" ("key", "value", "expires_at")
+                VALUES (${key}, ${value}, ${expiresAt})
+                ON CONFLICT ("key") DO UPDATE SET "value" = EXCLUDED."value", "expires_at" = EXCLUDED."expires_at"
+            `)
+            await sweep(execute)
+        },
+    }
+}
+
+async function getPayloadExecute(): Promise<Execute> {
+    // Dynamic imports so the limiter can be loaded without a Payload config
+    const { getPayload } = await import('payload')
+    const config = (await import('@payload-config')).default
+    const payload = await getPayload({ config })
+    const { drizzle } = payload.db as unknown as { drizzle: { execute: Execute } }
+    return (query) => drizzle.execute(query)
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+const stores = new Map<RateLimitStoreType, RateLimitStore>()
+
+/**
+ * Shared store instance for a backend
+ */
+export function getRateLimitStore(type: RateLimitStoreType): RateLimitStore {
+    let store = stores.get(type)
+    if (!store) {
+        switch (type) {
+            case 'kv':
+                store = createKvStore()
+                break
+            case 'redis':
+                store = createRedisStore()
+                break
+            case 'postgres':
+                store = createPostgresStore(getPayloadExecute)
+                break
+            default:
+                store = createMemoryStore()
+        }
+        stores.set(type, store)
+    }
+    return store
+}
+
+export function isRateLimitStoreType(value: unknown): value is RateLimitStoreType {
+    return value === 'memory' || value === 'kv' || value === 'redis' || value === 'postgres'
+}
+
+/**
+ * Store used when a policy does not name one: RATE_LIMIT_STORE, else Vercel KV
+ */
+export function getDefaultStoreType(): RateLimitStoreType {
+    const configured = process.env.RATE_LIMIT_STORE
+    return isRateLimitStoreType(configured) ? configured : 'kv'
+}
@@ -1,31 +1,67 @@
 /**
- * Rate limiter with Vercel KV persistence and in-memory fallback
+ * Unified rate limiter
  * Prevents abuse and manages API costs
  *
- * Uses Vercel KV for persistence across serverless function instances
- * Falls back to in-memory when KV is unavailable (local dev only)
+ * Every endpoint goes through checkRateLimitAsync / applyRateLimitAsync:
+ * - Algorithms: sliding window (default), token bucket, fixed window
+ * - Stores: Vercel KV (default), Redis, Postgres or in-memory
+ *   (see rate-limit-stores.ts; RATE_LIMIT_STORE picks the default)
+ * - Policies: RateLimits below are the code defaults; rows in the
+ *   Rate Limit Settings global override them by policy name or by route,
+ *   so limits can be tuned from the admin without a deploy
+ * - Responses carry the standard RateLimit-* headers so clients can back off
  *
- * Why Vercel KV instead of standard Redis?
+ * Why Vercel KV by default instead of standard Redis?
  * - Standard Redis requires persistent TCP connections
  * - Serverless functions are ephemeral - connections don't persist
  * - In-memory rate limits don't work: each request may hit different instance
  * - Vercel KV uses REST API - perfect for serverless
  */
 
-import { kv } from '@vercel/kv'
+import {
+    getDefaultStoreType,
+    getRateLimitStore,
+    isRateLimitStoreType,
+    type RateLimitStore,
+    type RateLimitStoreType,
+} from './rate-limit-stores'
+
+export type { RateLimitStoreType } from './rate-limit-stores'
+
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket' | 'fixed_window'
 
 interface RateLimitEntry {
     count: number
     resetAt: number
 }
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
     maxRequests: number    // Max requests per window
     windowMs: number       // Time window in milliseconds
     identifier?: string    // Custom identifier (defaults to IP/user)
+    algorithm?: RateLimitAlgorithm  // Defaults to sliding_window
+    burst?: number         // Token bucket capacity (defaults to maxRequests)
+    store?: RateLimitStoreType      // Defaults to RATE_LIMIT_STORE / Vercel KV
+    policy?: string        // Policy name, matched against Rate Limit Settings rows
+}
+
+export interface RateLimitResult {
+    allowed: boolean
+    remaining: number
+    resetAt: number
+    limit: number
+    windowMs: number
+    algorithm: RateLimitAlgorithm
+    policy?: string
 }
 
-// In-memory fallback store (used when KV is unavailable)
+/** The parts of a request used to match per-route policies */
+export interface RateLimitRoute {
+    url?: string
+    method?: string
+}
+
+// In-memory store for the synchronous checkRateLimit
 // NOTE: This only works for local development - on Vercel, each request
 // may hit a different serverless instance with its own memory
 const rateLimitStore: Map<string, RateLimitEntry> = new Map()
@@ -42,43 +78,279 @@ if (typeof setInterval !== 'undefined' && process.env.NODE_ENV === 'development'
     }, 5 * 60 * 1000)
 }
 
+// ============================================
+// ALGORITHMS
+// ============================================
+
+async function consumeFixedWindow(
+    store: RateLimitStore,
+    key: string,
+    config: RateLimitConfig,
+    now: number
+): Promise<RateLimitResult> {
+    // Use window-based keys for automatic cleanup
+    const windowNumber = Math.floor(now / config.windowMs)
+    const count = await store.increment(`${key}:${windowNumber}`, config.windowMs + 1000)
+
+    return {
+        allowed: count <= config.maxRequests,
+        remaining: Math.max(0, config.maxRequests - count),
+        resetAt: (windowNumber + 1) * config.windowMs,
+        limit: config.maxRequests,
+        windowMs: config.windowMs,
+        algorithm: 'fixed_window',
+    }
+}
+
 /**
- * Check if a request should be rate limited
- * Uses Vercel KV for persistence, falls back to in-memory
- * @returns Object with allowed status and remaining requests
+ * Sliding window counter: the previous window's count is weighted by how
+ * much of it still overlaps the sliding window. Avoids the double burst a
+ * fixed window allows at its boundary, at the cost of two counters.
  */
-export async function checkRateLimitAsync(
+async function consumeSlidingWindow(
+    store: RateLimitStore,
     key: string,
-    config: RateLimitConfig
-): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
+    config: RateLimitConfig,
+    now: number
+): Promise<RateLimitResult> {
+    const { maxRequests, windowMs } = config
+    const windowNumber = Math.floor(now / windowMs)
+    const windowStart = windowNumber * windowMs
+    const windowEnd = windowStart + windowMs
+
+    // Counters live for two windows so the next window can weight this one
+    const current = await store.increment(`${key}:${windowNumber}`, windowMs * 2 + 1000)
+    const previous = (await store.get(`${key}:${windowNumber - 1}`)) ?? 0
+
+    const elapsed = now - windowStart
+    const estimate = previous * (1 - elapsed / windowMs) + current
+    const allowed = estimate <= maxRequests
+
+    // When the next request would fit again
+    let resetAt = windowEnd
+    if (!allowed) {
+        if (current + 1 > maxRequests) {
+            // Wait for this window's count to decay once it becomes the previous one
+            resetAt = windowEnd + Math.ceil(windowMs * (1 - (maxRequests - 1) / current))
+        } else if (previous > 0) {
+            const fitsAt = windowStart + Math.ceil(windowMs * (1 - (maxRequests - current - 1) / previous))
+            resetAt = Math.min(windowEnd, Math.max(now, fitsAt))
+        }
+    }
+
+    return {
+        allowed,
+        remaining: Math.max(0, Math.floor(maxRequests - estimate)),
+        resetAt,
+        limit: maxRequests,
+        windowMs,
+        algorithm: 'sliding_window',
+    }
+}
+
+/**
+ * Token bucket as GCRA: a single "theoretical arrival time" per key. The
+ * bucket refills at maxRequests per window and holds up to `burst` tokens.
+ * The read and write are separate store calls, so concurrent requests from
+ * one client may occasionally both be admitted.
+ */
+async function consumeTokenBucket(
+    store: RateLimitStore,
+    key: string,
+    config: RateLimitConfig,
+    now: number
+): Promise<RateLimitResult> {
+    const burst = Math.max(1, config.burst ?? config.maxRequests)
+    const interval = config.windowMs / config.maxRequests
+
+    const tat = Math.max((await store.get(key)) ?? now, now)
+    const nextTat = tat + interval
+    const allowAt = nextTat - burst * interval
+
+    // Advertised as `burst` requests per time to refill an empty bucket
+    const base = { limit: burst, windowMs: Math.round(burst * interval), algorithm: 'token_bucket' as const }
+
+    if (now < allowAt) {
+        return { ...base, allowed: false, remaining: 0, resetAt: Math.ceil(allowAt) }
+    }
+
+    await store.set(key, nextTat, nextTat - now)
+    return {
+        ...base,
+        allowed: true,
+        remaining: Math.floor((now - allowAt) / interval),
+        // Bucket is full again
+        resetAt: Math.ceil(nextTat),
+    }
+}
+
+/**
+ * Count one request against a store with the policy's algorithm
+ */
+export async function consumeRateLimit(
+    store: RateLimitStore,
+    key: string,
+    config: RateLimitConfig,
+    now: number = Date.now()
+): Promise<RateLimitResult> {
+    const algorithm = config.algorithm || 'sliding_window'
+    const consume = algorithm === 'token_bucket'
+        ? consumeTokenBucket
+        : algorithm === 'fixed_window'
+            ? consumeFixedWindow
+            : consumeSlidingWindow
+
+    const result = await consume(store, `${key}:${algorithm}`, config, now)
+    return config.policy ? { ...result, policy: config.policy } : result
+}
+
+// ============================================
+// POLICY TABLE
+// ============================================
+
+/** A row of the Rate Limit Settings global */
+export interface RateLimitPolicyRow {
+    name: string
+    routes?: string | null
+    enabled?: boolean | null
+    algorithm?: RateLimitAlgorithm | null
+    maxRequests?: number | null
+    windowSeconds?: number | null
+    burst?: number | null
+    store?: RateLimitStoreType | null
+}
+
+export interface RateLimitSettings {
+    defaultStore?: RateLimitStoreType | null
+    policies?: RateLimitPolicyRow[] | null
+}
+
+// Cache settings to avoid a DB call per request
+let cachedSettings: RateLimitSettings | null = null
+let cacheExpiry = 0
+const SETTINGS_CACHE_TTL = 60000 // 1 minute cache
+
+async function getRateLimitSettings(): Promise<RateLimitSettings> {
     const now = Date.now()
-    const windowSeconds = Math.ceil(config.windowMs / 1000)
-    // Use window-based keys for automatic cleanup
-    const windowNumber = Math.floor(now / config.windowMs)
-    const storeKey = `ratelimit:${key}:${config.identifier || 'default'}:${windowNumber}`
+    if (cachedSettings && cacheExpiry > now) {
+        return cachedSettings
+    }
 
     try {
-        // Increment counter atomically in Vercel KV
-        const count = await kv.incr(storeKey)
+        // Dynamic imports so the limiter can be loaded without a Payload config
+        const { getPayload } = await import('payload')
+        const config = (await import('@payload-config')).default
+        const payload = await getPayload({ config })
+        cachedSettings = (await payload.findGlobal({
+            slug: 'rate-limit-settings',
+            depth: 0,
+            overrideAccess: true,
+        })) as unknown as RateLimitSettings
+    } catch (error) {
+        console.warn('[RateLimiter] Failed to load rate limit settings, using code defaults:', error instanceof Error ? error.message : error)
+        cachedSettings = {}
+    }
 
-        // Set expiry on first request in window
-        if (count === 1) {
-            await kv.expire(storeKey, windowSeconds + 1)
-        }
+    cacheExpiry = now + SETTINGS_CACHE_TTL
+    return cachedSettings
+}
+
+/**
+ * Clear the settings cache (called after Rate Limit Settings is saved)
+ */
+export function clearRateLimitSettingsCache(): void {
+    cachedSettings = null
+    cacheExpiry = 0
+}
 
-        const resetAt = (windowNumber + 1) * config.windowMs
-        const remaining = Math.max(0, config.maxRequests - count)
+/**
+ * Whether a route pattern matches a request. Patterns are a path with an
+ * optional method prefix: "POST /api/evidence/verify", "/api/mobile/*".
+ * `*` matches any characters and `:param` matches one path segment.
+ */
+export function matchesRoutePattern(pattern: string, route: RateLimitRoute): boolean {
+    const parts = pattern.trim().split(/\s+/)
+    if (parts.length === 0 || !parts[0]) return false
 
-        return {
-            allowed: count <= config.maxRequests,
-            remaining,
-            resetAt,
-        }
+    const [method, path] = parts.length > 1 ? [parts[0].toUpperCase(), parts[1]] : [null, parts[0]]
+    if (method && method !== '*' && method !== (route.method || 'GET').toUpperCase()) {
+        return false
+    }
+    if (!route.url) return false
+
+    let pathname: string
+    try {
+        pathname = new URL(route.url, 'http://localhost').pathname
+    } catch {
+        return false
+    }
+
+    const regex = path
+        .split('*')
+        .map(segment => segment
+            .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+            .replace(/:[A-Za-z_][A-Za-z0-9_]*/g, '[^/]+'))
+        .join('.*')
+    return new RegExp(`^${regex}/?$`).test(pathname)
+}
+
+/**
+ * Apply the policy table to a code-defined config. A row matching the
+ * request route wins over a row matching the policy name; fields left
+ * empty on the row keep the code default.
+ */
+export function resolveRateLimitPolicy(
+    config: RateLimitConfig,
+    settings: RateLimitSettings,
+    route?: RateLimitRoute
+): RateLimitConfig {
+    const rows = (settings.policies || []).filter(row => row.enabled !== false)
+    const routeRow = route
+        ? rows.find(row => (row.routes || '').split('\n').some(p => p.trim() && matchesRoutePattern(p, route)))
+        : undefined
+    const row = routeRow || (config.policy ? rows.find(r => r.name === config.policy) : undefined)
+
+    const resolved: RateLimitConfig = { ...config }
+    if (row) {
+        resolved.policy = row.name
+        if (row.algorithm) resolved.algorithm = row.algorithm
+        if (row.maxRequests && row.maxRequests > 0) resolved.maxRequests = row.maxRequests
+        if (row.windowSeconds && row.windowSeconds > 0) resolved.windowMs = row.windowSeconds * 1000
+        if (row.burst && row.burst > 0) resolved.burst = row.burst
+        if (isRateLimitStoreType(row.store)) resolved.store = row.store
+    }
+    if (!resolved.store && isRateLimitStoreType(settings.defaultStore)) {
+        resolved.store = settings.defaultStore
+    }
+    return resolved
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+/**
+ * Check if a request should be rate limited
+ * Pass the request as `route` so per-route policies apply
+ * Falls back to in-memory if the configured store fails
+ * @returns Object with allowed status and remaining requests
+ */
+export async function checkRateLimitAsync(
+    key: string,
+    config: RateLimitConfig,
+    route?: RateLimitRoute
+): Promise<RateLimitResult> {
+    const policy = resolveRateLimitPolicy(config, await getRateLimitSettings(), route)
+    const storeType = policy.store || getDefaultStoreType()
+    // Each policy keeps its own counter, so one route's traffic never uses up another's budget
+    const storeKey = `ratelimit:${key}:${policy.policy || 'custom'}:${policy.identifier || 'default'}`
+
+    try {
+        return await consumeRateLimit(getRateLimitStore(storeType), storeKey, policy)
     } catch (error) {
-        console.error('[RateLimiter] KV error, falling back to in-memory:', error instanceof Error ? error.message : error)
-        // Fall back to synchronous in-memory implementation
+        console.error(`[RateLimiter] ${storeType} store error, falling back to in-memory:`, error instanceof Error ? error.message : error)
         // NOTE: This is only useful for local dev - won't work on serverless
-        return checkRateLimit(key, config)
+        return consumeRateLimit(getRateLimitStore('memory'), storeKey, policy)
     }
 }
 
@@ -98,7 +370,7 @@ export function checkRateLimit(
     config: RateLimitConfig
 ): { allowed: boolean; remaining: number; resetAt: number } {
     const now = Date.now()
-    const storeKey = `${key}:${config.identifier || 'default'}`
+    const storeKey = `${key}:${config.policy || 'custom'}:${config.identifier || 'default'}`
 
     let entry = rateLimitStore.get(storeKey)
 
@@ -130,11 +402,40 @@ export function checkRateLimit(
     }
 }
 
+// ============================================
+// RESPONSES
+// ============================================
+
+/**
+ * Standard RateLimit-* headers (IETF draft-ietf-httpapi-ratelimit-headers)
+ * Reset is in seconds from now
+ */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+    return {
+        'RateLimit-Limit': String(result.limit),
+        'RateLimit-Remaining': String(result.remaining),
+        'RateLimit-Reset': String(Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000))),
+        'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+    }
+}
+
+/**
+ * Add RateLimit-* headers to a successful response
+ */
+export function withRateLimitHeaders(response: Response, result: RateLimitResult): Response {
+    for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+        response.headers.set(name, value)
+    }
+    return response
+}
+
 /**
  * Rate limit response helper
+ * Pass the full result to include the RateLimit-* headers
  */
-export function rateLimitResponse(resetAt: number): Response {
-    const retryAfter = Math.ceil((resetAt - Date.now()) / 1000)
+export function rateLimitResponse(result: number | RateLimitResult): Response {
+    const resetAt = typeof result === 'number' ? result : result.resetAt
+    const retryAfter = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000))
     return Response.json(
         {
             error: 'Rate limit exceeded',
@@ -144,6 +445,7 @@ export function rateLimitResponse(resetAt: number): Response {
         {
             status: 429,
             headers: {
+                ...(typeof result === 'number' ? {} : rateLimitHeaders(result)),
                 'Retry-After': String(retryAfter),
                 'X-RateLimit-Reset': String(resetAt),
             }
@@ -151,10 +453,26 @@ export function rateLimitResponse(resetAt: number): Response {
     )
 }
 
+// ============================================
+// POLICIES
+// ============================================
+
+/**
+ * Name each config after its key so policy table rows can target it
+ */
+function definePolicies<T extends Record<string, RateLimitConfig>>(
+    policies: T
+): { [K in keyof T]: T[K] & { policy: K & string } } {
+    return Object.fromEntries(
+        Object.entries(policies).map(([name, config]) => [name, { ...config, policy: name }])
+    ) as { [K in keyof T]: T[K] & { policy: K & string } }
+}
+
 /**
  * Pre-configured rate limit configs for different endpoint types
+ * (code defaults; override from Rate Limit Settings by policy name)
  */
-export const RateLimits = {
+export const RateLimits = definePolicies({
     // AI analysis endpoints (expensive API calls)
     AI_ANALYSIS: {
         maxRequests: 10,
@@ -292,7 +610,43 @@ export const RateLimits = {
         maxRequests: 1,
         windowMs: 5 * 1000, // 1 vote per 5 seconds per product
     },
-}
+
+    // ═══════════════════════════════════════════════════════════════
+    // BRAND PORTAL RATE LIMITS
+    // ═══════════════════════════════════════════════════════════════
+
+    // Manufacturer dispute submissions (per brand user)
+    DISPUTE_SUBMIT: {
+        maxRequests: 5,
+        windowMs: 60 * 60 * 1000, // 5 disputes per hour
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // PUBLIC VERIFICATION RATE LIMITS
+    // ═══════════════════════════════════════════════════════════════
+
+    // Lab evidence verification (per IP - file uploads are hashed server-side)
+    EVIDENCE_VERIFY: {
+        maxRequests: 20,
+        windowMs: 60 * 1000, // 20 verifications per minute
+    },
+
+    // ═══════════════════════════════════════════════════════════════
+    // SEARCH RATE LIMITS
+    // ═══════════════════════════════════════════════════════════════
+
+    // Hybrid search (embeds the query, so tighter than autocomplete)
+    HYBRID_SEARCH: {
+        maxRequests: 60,
+        windowMs: 60 * 1000, // 60 searches per minute
+    },
+
+    // Search result click feedback
+    SEARCH_CLICK: {
+        maxRequests: 120,
+        windowMs: 60 * 1000, // 120 clicks per minute
+    },
+})
 
 /**
  * Get identifier for rate limiting from request
@@ -347,21 +701,18 @@ export function applyRateLimit(
 }
 
 /**
- * Apply rate limiting with Vercel KV persistence (async)
- * Returns null if allowed, Response if rate limited
+ * Apply rate limiting through the configured store (async)
+ * Returns the 429 response in `limited` when rate limited, and the result so
+ * allowed responses can carry the RateLimit-* headers (withRateLimitHeaders)
  * Recommended for production use - persists across serverless instances
  */
 export async function applyRateLimitAsync(
     req: Request,
     limitConfig: RateLimitConfig,
     identifier?: string
-): Promise<Response | null> {
+): Promise<{ limited: Response | null; result: RateLimitResult }> {
     const key = identifier || getMobileRateLimitKey(req)
-    const result = await checkRateLimitAsync(key, limitConfig)
-
-    if (!result.allowed) {
-        return rateLimitResponse(result.resetAt)
-    }
+    const result = await checkRateLimitAsync(key, limitConfig, req)
 
-    return null
+    return { limited: result.allowed ? null : rateLimitResponse(result), result }
 }
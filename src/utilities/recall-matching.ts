@@ -0,0 +1,505 @@
+import type { Payload, PayloadRequest, Where } from 'payload'
+import type { Brand, Product, RecallMatch } from '../payload-types'
+import { createAuditLog } from '../collections/AuditLog'
+import { normalizeBrandName, normalizeProductName, stringSimilarity } from './fuzzy-match'
+import { notifyProductSavers } from './saved-product-alerts'
+
+/**
+ * Recall Matching Engine
+ *
+ * Matches FDA / CPSC enforcement records to the catalog:
+ * - UPCs, lot numbers and best-by / expiration date ranges are extracted
+ *   from the recall's product description and code info
+ * - candidates come from UPC lookups, brands whose name or alias appears in
+ *   the recall (Brands.aliases) and product-name keywords
+ * - each candidate gets a confidence score from UPC, lot
+ *   (Products.sampleInfo.lotNumber), date range, brand and name similarity
+ *   (fuzzy-match.ts)
+ *
+ * Matches land in recall-matches for review. Confirming one appends the
+ * recall to Brands.recalls, flags the product and requests a retest, and
+ * alerts users who saved it (applyConfirmedRecall).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RecallInfo {
+    source: 'fda_food' | 'fda_drug' | 'cpsc'
+    recallNumber: string
+    productDescription: string
+    /** Lot, UPC and date codes listed by the agency */
+    codeInfo?: string
+    recallingFirm: string
+    reason: string
+    classification?: string
+    status: string
+    recallDate: string
+    url?: string
+}
+
+export interface RecallDateRange {
+    /** ISO dates (YYYY-MM-DD), inclusive */
+    from: string
+    to: string
+}
+
+export interface RecallIdentifiers {
+    /** Normalized to 13-digit GTINs */
+    upcs: string[]
+    /** Uppercase, letters and digits only */
+    lotNumbers: string[]
+    dateRanges: RecallDateRange[]
+}
+
+export type RecallMatchSignal = 'upc' | 'lot' | 'date_range' | 'brand' | 'product_name'
+
+export interface RecallCandidate {
+    id: number
+    name: string
+    brand: string
+    upc?: string | null
+    lotNumber?: string | null
+    expirationDate?: string | null
+    /** Brand name variants from Brands (name and aliases) */
+    brandAliases?: string[]
+    brandId?: number | null
+}
+
+export interface RecallMatchScore {
+    confidence: number
+    signals: RecallMatchSignal[]
+    brandSimilarity: number
+    nameSimilarity: number
+}
+
+export interface ScoredRecallMatch extends RecallMatchScore {
+    product: RecallCandidate
+}
+
+export interface BrandNames {
+    id: number
+    names: string[]
+}
+
+/** Matches below this confidence are not queued for review */
+export const MIN_RECALL_CONFIDENCE = 0.6
+
+const CANDIDATE_LIMIT = 200
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+/**
+ * Normalize a UPC-A / EAN-13 / GTIN-14 to a 13-digit GTIN.
+ * An 11-digit UPC (printed without its check digit) gets one computed.
+ * Returns null for other lengths or a wrong check digit.
+ */
+export function normalizeUpc(value: string): string | null {
+    let digits = value.replace(/\D/g, '')
+    if (digits.length === 11) digits += gtinCheckDigit(digits)
+    if (digits.length === 14 && digits.startsWith('0')) digits = digits.slice(1)
+    if (digits.length === 12) digits = `0${digits}`
+    if (digits.length !== 13) return null
+    return gtinCheckDigit(digits.slice(0, -1)) === digits.slice(-1) ? digits : null
+}
+
+function gtinCheckDigit(body: string): string {
+    let sum = 0
+    for (let i = 0; i < body.length; i++) {
+        const digit = Number(body[body.length - 1 - i])
+        sum += i % 2 === 0 ? digit * 3 : digit
+    }
+    return String((10 - (sum % 10)) % 10)
+}
+
+function normalizeLot(value: string): string {
+    return value.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+const UPC_KEYWORD = /\b(?:upcs?|gtins?|eans?|bar\s?codes?)\b/gi
+const DIGIT_RUN = /\d(?:[ -]?\d){7,16}/g
+
+function extractUpcs(text: string): string[] {
+    const upcs = new Set<string>()
+    for (const keyword of text.matchAll(UPC_KEYWORD)) {
+        const window = text.slice(keyword.index + keyword[0].length).split(/\.\s|\n|\b(?:lots?|exp|best|use|sell)\b/i)[0]
+        for (const [run] of window.matchAll(DIGIT_RUN)) {
+            // "UPC 0 41498 12345 6 12 oz" - take the longest space-separated prefix that is a valid code
+            const groups = run.split(/\s+/)
+            for (let end = groups.length; end > 0; end--) {
+                const upc = normalizeUpc(groups.slice(0, end).join(''))
+                if (upc) {
+                    upcs.add(upc)
+                    break
+                }
+            }
+        }
+    }
+    return [...upcs]
+}
+
+const LOT_KEYWORD = /\b(?:lots?|batch(?:es)?)(?:\s*(?:#|nos?\.?|numbers?|codes?))?\s*[:#]?\s*/gi
+
+function extractLotNumbers(text: string): string[] {
+    const lots = new Set<string>()
+    for (const keyword of text.matchAll(LOT_KEYWORD)) {
+        const rest = text.slice(keyword.index + keyword[0].length)
+        for (const piece of rest.split(/\s*(?:,|;|&|\/|\band\b)\s*/i)) {
+            const words = piece.trim().split(/\s+/)
+            const lot = words[0]?.replace(/[.)]+$/, '') ?? ''
+            if (!/^[A-Z0-9][A-Z0-9-]{2,}$/i.test(lot) || !/\d/.test(lot)) break
+            lots.add(normalizeLot(lot))
+            // Anything after the code ("1234 exp 06/2026") ends the list
+            if (words.length > 1) break
+        }
+    }
+    return [...lots]
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DATE = String.raw`(?:\d{4}-\d{2}-\d{2}|\d{1,2}/\d{1,2}/\d{2,4}|\d{1,2}/\d{4}|(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?\s+(?:\d{1,2},?\s+)?\d{4})`
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|to|through|thru|and)\\s*(${DATE})`, 'gi')
+const DATE_KEYWORD = String.raw`(?:best\s+(?:by|before|if\s+used\s+by)|use\s+by|sell\s+by|exp(?:iration|iry)?\.?(?:\s+dates?)?|bb)`
+const KEYWORD_DATE = new RegExp(`${DATE_KEYWORD}\\s*(?:dates?)?\\s*:?\\s*(${DATE})`, 'gi')
+
+function isoDate(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * Parse one recall date. Month-only dates cover the whole month, so `end`
+ * picks its last day.
+ */
+export function parseRecallDate(value: string, end = false): string | null {
+    const text = value.trim().toLowerCase()
+    let match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+    if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+
+    match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/)
+    if (match) {
+        const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3])
+        return isoDate(year, Number(match[1]), Number(match[2]))
+    }
+
+    match = text.match(/^(\d{1,2})\/(\d{4})$/)
+    if (match) {
+        const [year, month] = [Number(match[2]), Number(match[1])]
+        return isoDate(year, month, end ? lastDayOfMonth(year, month) : 1)
+    }
+
+    match = text.match(/^([a-z]{3})[a-z]*\.?\s+(?:(\d{1,2}),?\s+)?(\d{4})$/)
+    if (match && MONTHS.includes(match[1])) {
+        const [year, month] = [Number(match[3]), MONTHS.indexOf(match[1]) + 1]
+        if (match[2]) return isoDate(year, month, Number(match[2]))
+        return isoDate(year, month, end ? lastDayOfMonth(year, month) : 1)
+    }
+
+    return null
+}
+
+function extractDateRanges(text: string): RecallDateRange[] {
+    const ranges: RecallDateRange[] = []
+    const remaining = text.replace(DATE_RANGE, (_whole, start: string, finish: string) => {
+        const from = parseRecallDate(start)
+        const to = parseRecallDate(finish, true)
+        if (from && to) ranges.push(from <= to ? { from, to } : { from: to, to: from })
+        return ' '
+    })
+    for (const match of remaining.matchAll(KEYWORD_DATE)) {
+        const from = parseRecallDate(match[1])
+        const to = parseRecallDate(match[1], true)
+        if (from && to) ranges.push({ from, to })
+    }
+    return ranges
+}
+
+/**
+ * Pull UPCs, lot numbers and product date ranges out of recall text.
+ */
+export function extractRecallIdentifiers(text: string): RecallIdentifiers {
+    return {
+        upcs: extractUpcs(text),
+        lotNumbers: extractLotNumbers(text),
+        dateRanges: extractDateRanges(text),
+    }
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+function containsWords(haystack: string, needle: string): boolean {
+    if (!needle) return false
+    return ` ${haystack} `.includes(` ${needle} `)
+}
+
+function brandSimilarity(candidate: RecallCandidate, firm: string, description: string): number {
+    const normalizedFirm = normalizeBrandName(firm)
+    const normalizedText = normalizeBrandName(`${firm} ${description}`)
+    let best = 0
+    for (const name of [candidate.brand, ...(candidate.brandAliases || [])]) {
+        const normalized = normalizeBrandName(name || '')
+        if (!normalized) continue
+        if (containsWords(normalizedText, normalized)) return 1
+        best = Math.max(best, stringSimilarity(normalized, normalizedFirm))
+    }
+    return best
+}
+
+/**
+ * Share of the product name's words that appear (allowing typos) in the
+ * recall description. Brand words are left out so they aren't counted twice.
+ */
+function nameSimilarity(candidate: RecallCandidate, description: string): number {
+    const brandWords = new Set(normalizeProductName(candidate.brand || '').split(' '))
+    const words = normalizeProductName(candidate.name).split(' ').filter(w => w.length > 2 && !brandWords.has(w))
+    if (words.length === 0) return 0
+
+    const descriptionWords = normalizeProductName(description).split(' ')
+    const found = words.filter(word =>
+        descriptionWords.some(other => other === word || (word.length > 4 && stringSimilarity(word, other) >= 0.85))
+    )
+    return found.length / words.length
+}
+
+/**
+ * Score how likely a recall covers a catalog product (0-1).
+ *
+ * A UPC match is near-certain on its own. Without one, the score is built
+ * from name and brand similarity and capped below UPC matches; lot numbers
+ * and dates only count once the brand matches, since lot codes are not
+ * unique across manufacturers.
+ */
+export function scoreRecallMatch(
+    recall: Pick<RecallInfo, 'productDescription' | 'recallingFirm'> & { codeInfo?: string },
+    identifiers: RecallIdentifiers,
+    candidate: RecallCandidate
+): RecallMatchScore {
+    const signals: RecallMatchSignal[] = []
+    const brand = brandSimilarity(candidate, recall.recallingFirm, recall.productDescription)
+    const name = nameSimilarity(candidate, recall.productDescription)
+    const brandMatches = brand >= 0.8
+
+    const upc = candidate.upc ? normalizeUpc(candidate.upc) : null
+    if (upc && identifiers.upcs.includes(upc)) signals.push('upc')
+    if (brandMatches) signals.push('brand')
+    if (name >= 0.6) signals.push('product_name')
+
+    const lot = candidate.lotNumber ? normalizeLot(candidate.lotNumber) : ''
+    if (brandMatches && lot && identifiers.lotNumbers.includes(lot)) signals.push('lot')
+
+    const expiration = candidate.expirationDate?.slice(0, 10)
+    if (brandMatches && expiration && identifiers.dateRanges.some(r => expiration >= r.from && expiration <= r.to)) {
+        signals.push('date_range')
+    }
+
+    let confidence: number
+    if (signals.includes('upc')) {
+        confidence = 0.9 + (signals.includes('lot') ? 0.05 : 0) + (brandMatches ? 0.05 : 0)
+    } else {
+        confidence = Math.min(
+            0.9,
+            name * 0.5 + brand * 0.3
+                + (signals.includes('lot') ? 0.15 : 0)
+                + (signals.includes('date_range') ? 0.05 : 0)
+        )
+    }
+
+    return {
+        confidence: Math.round(Math.min(1, confidence) * 100) / 100,
+        signals,
+        brandSimilarity: Math.round(brand * 100) / 100,
+        nameSimilarity: Math.round(name * 100) / 100,
+    }
+}
+
+// ============================================
+// CANDIDATES
+// ============================================
+
+/**
+ * Load every brand's name and aliases (once per watchdog run).
+ */
+export async function loadBrandNames(payload: Payload): Promise<BrandNames[]> {
+    const { docs } = await payload.find({
+        collection: 'brands',
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+        select: { name: true, aliases: true },
+    })
+    return docs.map((brand: Pick<Brand, 'id' | 'name' | 'aliases'>) => ({
+        id: brand.id,
+        names: [brand.name, ...(brand.aliases || []).map(a => a.alias)].filter(Boolean),
+    }))
+}
+
+function findBrand(brands: BrandNames[], productBrand: string): BrandNames | undefined {
+    const normalized = normalizeBrandName(productBrand)
+    return brands.find(b => b.names.some(name => normalizeBrandName(name) === normalized))
+}
+
+/**
+ * Find and score catalog products for one recall, best first.
+ */
+export async function findRecallMatches(
+    payload: Payload,
+    recall: RecallInfo,
+    brands: BrandNames[]
+): Promise<{ identifiers: RecallIdentifiers; matches: ScoredRecallMatch[] }> {
+    const text = `${recall.productDescription}\n${recall.codeInfo || ''}`
+    const identifiers = extractRecallIdentifiers(text)
+    const haystack = normalizeBrandName(`${recall.recallingFirm} ${recall.productDescription}`)
+    const firm = normalizeBrandName(recall.recallingFirm)
+
+    const filters: Where[] = []
+    if (identifiers.upcs.length > 0) {
+        // Products may store the 12-digit UPC-A or the 13-digit EAN
+        const variants = identifiers.upcs.flatMap(upc => upc.startsWith('0') ? [upc, upc.slice(1)] : [upc])
+        filters.push({ upc: { in: variants } })
+    }
+
+    const mentionedBrands = brands.filter(brand => brand.names.some(name => {
+        const normalized = normalizeBrandName(name)
+        return containsWords(haystack, normalized) || stringSimilarity(normalized, firm) >= 0.85
+    }))
+    const brandNames = mentionedBrands.flatMap(b => b.names)
+    if (brandNames.length > 0) filters.push({ brand: { in: brandNames } })
+
+    const terms = normalizeProductName(recall.productDescription).split(' ').filter(w => w.length > 3).slice(0, 3)
+    if (terms.length > 0) filters.push({ or: terms.map(term => ({ name: { contains: term } })) })
+
+    if (filters.length === 0) return { identifiers, matches: [] }
+
+    const { docs } = await payload.find({
+        collection: 'products',
+        where: { or: filters },
+        limit: CANDIDATE_LIMIT,
+        depth: 0,
+        overrideAccess: true,
+        select: { name: true, brand: true, upc: true, sampleInfo: true },
+    })
+
+    const matches: ScoredRecallMatch[] = []
+    for (const product of docs as Array<Pick<Product, 'id' | 'name' | 'brand' | 'upc' | 'sampleInfo'>>) {
+        const brand = findBrand(brands, product.brand)
+        const candidate: RecallCandidate = {
+            id: product.id,
+            name: product.name,
+            brand: product.brand,
+            upc: product.upc,
+            lotNumber: product.sampleInfo?.lotNumber,
+            expirationDate: product.sampleInfo?.expirationDate,
+            brandAliases: brand?.names,
+            brandId: brand?.id ?? null,
+        }
+        const score = scoreRecallMatch(recall, identifiers, candidate)
+        if (score.confidence >= MIN_RECALL_CONFIDENCE) matches.push({ ...score, product: candidate })
+    }
+
+    return { identifiers, matches: matches.sort((a, b) => b.confidence - a.confidence) }
+}
+
+// ============================================
+// CONFIRMATION
+// ============================================
+
+function recallSeverity(classification?: string | null): 'class_i' | 'class_ii' | 'class_iii' | undefined {
+    const numeral = classification?.match(/class\s+(i{1,3})\b/i)?.[1]?.toLowerCase()
+    return numeral ? (`class_${numeral}` as 'class_i' | 'class_ii' | 'class_iii') : undefined
+}
+
+/**
+ * Apply a confirmed match: record the recall on the brand, flag the product
+ * for retest and alert users who saved it. Safe to re-run - the brand entry
+ * and product warning are only added once.
+ */
+export async function applyConfirmedRecall(
+    payload: Payload,
+    match: Pick<RecallMatch, 'product' | 'brand' | 'recallNumber' | 'recallSource' | 'recallingFirm' | 'reason' | 'classification' | 'recallDate' | 'recallUrl' | 'confidence'>,
+    req?: PayloadRequest
+): Promise<{ push: number; email: number }> {
+    const productId = typeof match.product === 'object' ? match.product.id : match.product
+    const brandId = typeof match.brand === 'object' ? match.brand?.id : match.brand
+
+    if (brandId) {
+        const brand = await payload.findByID({ collection: 'brands', id: brandId, depth: 0, overrideAccess: true, req })
+        const recalls = brand.recalls || []
+        if (!recalls.some(r => r.recallNumber === match.recallNumber)) {
+            await payload.update({
+                collection: 'brands',
+                id: brandId,
+                data: {
+                    recalls: [...recalls, {
+                        recallNumber: match.recallNumber,
+                        date: match.recallDate,
+                        reason: match.reason,
+                        severity: recallSeverity(match.classification),
+                        source: match.recallSource === 'cpsc' ? 'cpsc' : 'fda',
+                    }],
+                    recallCount: (brand.recallCount || 0) + 1,
+                },
+                overrideAccess: true,
+                req,
+            })
+        }
+    }
+
+    const product = await payload.findByID({ collection: 'products', id: productId, depth: 0, overrideAccess: true, req })
+    const existingConflicts = (product.conflicts as { detected?: string[] } | null)?.detected || []
+    if (existingConflicts.some(c => c.includes(match.recallNumber))) return { push: 0, email: 0 }
+
+    await payload.update({
+        collection: 'products',
+        id: productId,
+        data: {
+            verdict: 'flagged',
+            verdictOverride: true,
+            verdictOverrideReason: `FDA/CPSC Recall: ${match.reason}`,
+            retestRequestedAt: new Date().toISOString(),
+            retestReason: `Recall ${match.recallNumber}`,
+            conflicts: {
+                detected: [...existingConflicts, `RECALL ALERT [${match.recallNumber}]: ${match.reason} (${match.recallingFirm})`],
+                lastChecked: new Date().toISOString(),
+            },
+        } as Record<string, unknown>,
+        overrideAccess: true,
+        req,
+    })
+
+    await createAuditLog(payload, {
+        action: 'conflict_detected',
+        sourceType: 'system',
+        sourceId: match.recallNumber,
+        sourceUrl: match.recallUrl ?? undefined,
+        targetCollection: 'products',
+        targetId: productId,
+        targetName: product.name,
+        performedBy: (req?.user as { id?: number } | undefined)?.id,
+        metadata: {
+            recallSource: match.recallSource,
+            recallReason: match.reason,
+            recallingFirm: match.recallingFirm,
+            matchConfidence: match.confidence,
+            classification: match.classification,
+        },
+    })
+
+    try {
+        const { createRecallNotification } = await import('../lib/push')
+        return await notifyProductSavers(payload, product, {
+            push: token => createRecallNotification(token, product.name, match.reason || 'Safety recall', String(product.id), product.upc),
+            emailVariables: { change_summary: `Recalled: ${match.reason || match.recallNumber}` },
+        })
+    } catch (error) {
+        console.error(`[RecallMatching] Alerting savers of product ${productId} failed:`, error)
+        return { push: 0, email: 0 }
+    }
+}
@@ -388,6 +388,25 @@ class RedisCache {
         return newValue
     }
 
+    /**
+     * Set the TTL of an existing key (useful after incr, which has no TTL)
+     */
+    async expire(key: string, ttlSeconds: number): Promise<boolean> {
+        try {
+            if (this.isConnected && this.client) {
+                return await this.client.expire(key, ttlSeconds)
+            }
+        } catch (error) {
+            console.error('[RedisCache] Expire error:', error instanceof Error ? error.message : error)
+        }
+
+        // Fallback: re-set the value in memory with the new TTL
+        const current = this.memoryFallback.get(key)
+        if (current === null) return false
+        this.memoryFallback.set(key, current, ttlSeconds)
+        return true
+    }
+
     /**
      * Get cache statistics
      */
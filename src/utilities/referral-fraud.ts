@@ -0,0 +1,539 @@
+import type { Payload, PayloadRequest, Where } from 'payload'
+import type { DeviceFingerprint, Referral } from '../payload-types'
+
+/**
+ * Referral Fraud Scoring
+ *
+ * Scores a referral from signals linking the referrer to the referee:
+ * - fingerprints: banned or abusive devices (DeviceFingerprints.isBanned /
+ *   suspiciousScore), both sides resolving to one device, emails used on both
+ *   devices (DeviceFingerprints.emailsUsed)
+ * - IPs: the attribution IP against the referrer's last IP, a shared /24
+ *   (IPv4) or /48 (IPv6) range, and several of the referrer's referrals
+ *   coming from one range
+ * - emails: one mailbox behind both sides (plus tags, Gmail dots), numbered
+ *   variants of one address, disposable domains
+ * - RevenueCat timing: refunds and cancellations soon after subscribing, on
+ *   this referral and across the referrer's other referrals
+ *
+ * High-risk referrals are held (fraud.reviewStatus "held"): at renewal their
+ * commission goes to a "held" payout instead of atomicCommissionAccrual, and
+ * is released or cancelled when a reviewer approves or denies the referral.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReferralFraudSignalCode =
+    | 'same_device'
+    | 'banned_device'
+    | 'suspicious_device'
+    | 'same_mailbox'
+    | 'shared_email'
+    | 'email_pattern'
+    | 'disposable_email'
+    | 'same_ip'
+    | 'same_ip_range'
+    | 'ip_cluster'
+    | 'refunded'
+    | 'early_cancel'
+    | 'referrer_churn_pattern'
+
+export interface ReferralFraudSignal {
+    code: ReferralFraudSignalCode
+    weight: number
+    detail: string
+}
+
+export type ReferralRiskLevel = 'low' | 'medium' | 'high'
+
+export interface ReferralFraudAssessment {
+    /** 0-100 */
+    score: number
+    riskLevel: ReferralRiskLevel
+    signals: ReferralFraudSignal[]
+    /** Commission should wait for a reviewer */
+    hold: boolean
+}
+
+export type FraudDevice = Pick<
+    DeviceFingerprint,
+    'id' | 'fingerprintHash' | 'isBanned' | 'suspiciousScore' | 'emailsUsed' | 'lastIpAddress' | 'payoutEmail'
+>
+
+export type FraudReferralHistory = Pick<
+    Referral,
+    'id' | 'status' | 'attributionIp' | 'referredEmail' | 'firstSubscriptionDate' | 'cancelledAt' | 'refundedAt'
+>
+
+export interface ReferralFraudEvidence {
+    referral: Pick<
+        Referral,
+        'attributionIp' | 'referrerEmail' | 'referredEmail' | 'firstSubscriptionDate' | 'cancelledAt' | 'refundedAt'
+    >
+    referrer: FraudDevice | null
+    referee: FraudDevice | null
+    /** The referrer's other referrals */
+    siblings: FraudReferralHistory[]
+}
+
+// ============================================
+// THRESHOLDS
+// ============================================
+
+/** Score at which commission is held for review */
+export const FRAUD_HOLD_SCORE = 60
+/** Score at which a referral is flagged in the review queue */
+export const FRAUD_FLAG_SCORE = 30
+
+const SIGNAL_WEIGHTS: Record<ReferralFraudSignalCode, number> = {
+    same_device: 100,
+    banned_device: 50,
+    suspicious_device: 30, // Scaled by the device's suspiciousScore
+    same_mailbox: 50,
+    shared_email: 45,
+    email_pattern: 20,
+    disposable_email: 15,
+    same_ip: 35,
+    same_ip_range: 20,
+    ip_cluster: 20,
+    refunded: 35,
+    early_cancel: 20,
+    referrer_churn_pattern: 25,
+}
+
+// Device abuse scores below this are noise
+const SUSPICIOUS_DEVICE_MIN_SCORE = 50
+// Cancelling within this many days of subscribing counts as early
+const EARLY_CANCEL_DAYS = 7
+// Referrals from one IP range (including this one) that make a cluster
+const IP_CLUSTER_SIZE = 3
+// Converted referrals needed before the referrer's churn pattern counts
+const CHURN_PATTERN_MIN_REFERRALS = 3
+const CHURN_PATTERN_RATIO = 0.5
+
+const GMAIL_DOMAINS = new Set(['gmail.com', 'googlemail.com'])
+
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+    '10minutemail.com',
+    'discard.email',
+    'dispostable.com',
+    'getnada.com',
+    'guerrillamail.com',
+    'mailinator.com',
+    'maildrop.cc',
+    'mintemail.com',
+    'sharklasers.com',
+    'temp-mail.org',
+    'tempmail.com',
+    'throwawaymail.com',
+    'trashmail.com',
+    'yopmail.com',
+])
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/**
+ * Client IP from proxy headers
+ */
+export function clientIpOf(headers: Headers | null | undefined): string | undefined {
+    const forwarded = headers?.get?.('x-forwarded-for')?.split(',')[0]?.trim()
+    return forwarded || headers?.get?.('x-real-ip')?.trim() || undefined
+}
+
+function expandIpv6(ip: string): string[] | null {
+    const [head, tail, ...rest] = ip.split('::')
+    if (rest.length > 0) return null
+    const headGroups = head ? head.split(':') : []
+    const tailGroups = tail ? tail.split(':') : []
+    const missing = 8 - headGroups.length - tailGroups.length
+    if (tail === undefined ? missing !== 0 : missing < 1) return null
+    const groups = [...headGroups, ...Array(Math.max(missing, 0)).fill('0'), ...tailGroups]
+    return groups.every(group => /^[0-9a-f]{1,4}$/i.test(group)) ? groups : null
+}
+
+/**
+ * Network range of an IP: /24 for IPv4, /48 for IPv6. IPv4-mapped IPv6
+ * addresses are treated as IPv4.
+ */
+export function ipRange(ip: string | null | undefined): string | null {
+    const value = ip?.trim().toLowerCase().replace(/^::ffff:(?=\d+\.)/, '')
+    if (!value) return null
+
+    const octets = value.split('.')
+    if (octets.length === 4) {
+        if (!octets.every(octet => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) return null
+        return `${octets.slice(0, 3).map(Number).join('.')}.0/24`
+    }
+
+    const groups = expandIpv6(value)
+    if (!groups) return null
+    return `${groups.slice(0, 3).map(group => parseInt(group, 16).toString(16)).join(':')}::/48`
+}
+
+/**
+ * The mailbox an address delivers to: lowercase, without plus tags, and
+ * without dots for Gmail
+ */
+export function normalizeMailbox(email: string | null | undefined): string | null {
+    const value = email?.trim().toLowerCase()
+    const at = value?.lastIndexOf('@') ?? -1
+    if (!value || at < 1 || at === value.length - 1) return null
+
+    let local = value.slice(0, at).split('+')[0]
+    let domain = value.slice(at + 1)
+    if (GMAIL_DOMAINS.has(domain)) {
+        local = local.replace(/\./g, '')
+        domain = 'gmail.com'
+    }
+    return local ? `${local}@${domain}` : null
+}
+
+/**
+ * Mailbox with trailing digits dropped, so jane1@x and jane22@x share a stem.
+ * Null for addresses without trailing digits.
+ */
+function emailStem(mailbox: string): string | null {
+    const [local, domain] = mailbox.split('@')
+    const stem = local.replace(/[._-]?\d+$/, '')
+    return stem && stem !== local ? `${stem}@${domain}` : null
+}
+
+function emailDomain(mailbox: string): string {
+    return mailbox.slice(mailbox.lastIndexOf('@') + 1)
+}
+
+function deviceMailboxes(device: FraudDevice | null, ...extra: Array<string | null | undefined>): Set<string> {
+    const emails = Array.isArray(device?.emailsUsed) ? device.emailsUsed : []
+    return new Set(
+        [...emails, device?.payoutEmail, ...extra]
+            .map(email => (typeof email === 'string' ? normalizeMailbox(email) : null))
+            .filter((mailbox): mailbox is string => mailbox !== null)
+    )
+}
+
+function daysBetween(from: string | null | undefined, to: string | null | undefined): number | null {
+    if (!from || !to) return null
+    const days = (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000)
+    return Number.isFinite(days) ? days : null
+}
+
+function cancelledEarly(referral: Pick<Referral, 'firstSubscriptionDate' | 'cancelledAt'>): boolean {
+    const days = daysBetween(referral.firstSubscriptionDate, referral.cancelledAt)
+    return days !== null && days >= 0 && days <= EARLY_CANCEL_DAYS
+}
+
+// ============================================
+// SCORING
+// ============================================
+
+export function riskLevelFor(score: number): ReferralRiskLevel {
+    if (score >= FRAUD_HOLD_SCORE) return 'high'
+    if (score >= FRAUD_FLAG_SCORE) return 'medium'
+    return 'low'
+}
+
+/**
+ * Score a referral from its evidence
+ */
+export function scoreReferralFraud(evidence: ReferralFraudEvidence): ReferralFraudAssessment {
+    const { referral, referrer, referee, siblings } = evidence
+    const signals: ReferralFraudSignal[] = []
+    const add = (code: ReferralFraudSignalCode, detail: string, weight = SIGNAL_WEIGHTS[code]) => {
+        signals.push({ code, weight, detail })
+    }
+
+    // Fingerprints
+    if (referrer && referee && referrer.id === referee.id) {
+        add('same_device', 'Referrer and referee resolve to the same device')
+    }
+    const banned = [referrer?.isBanned && 'referrer', referee?.isBanned && 'referee'].filter(Boolean)
+    if (banned.length > 0) {
+        add('banned_device', `Banned ${banned.join(' and ')} device`)
+    }
+    const abuseScore = Math.max(referrer?.suspiciousScore ?? 0, referee?.suspiciousScore ?? 0)
+    if (abuseScore >= SUSPICIOUS_DEVICE_MIN_SCORE) {
+        add('suspicious_device', `Device abuse score ${abuseScore}`,
+            Math.round(SIGNAL_WEIGHTS.suspicious_device * Math.min(abuseScore, 100) / 100))
+    }
+
+    // Emails
+    const referrerMailbox = normalizeMailbox(referral.referrerEmail)
+    const refereeMailbox = normalizeMailbox(referral.referredEmail)
+    const referrerMailboxes = deviceMailboxes(referrer, referral.referrerEmail)
+    const refereeMailboxes = deviceMailboxes(referee, referral.referredEmail)
+    const shared = [...refereeMailboxes].filter(mailbox => referrerMailboxes.has(mailbox))
+
+    if (referrerMailbox && referrerMailbox === refereeMailbox) {
+        add('same_mailbox', 'Referrer and referee emails deliver to the same mailbox')
+    } else if (shared.length > 0) {
+        add('shared_email', `${shared.length} email address(es) used on both sides`)
+    } else if (refereeMailbox) {
+        const stem = emailStem(refereeMailbox)
+        const referrerStems = new Set([...referrerMailboxes].map(emailStem))
+        const siblingsWithStem = stem
+            ? siblings.filter(s => s.referredEmail && emailStem(normalizeMailbox(s.referredEmail) ?? '') === stem).length
+            : 0
+        if (stem && referrerStems.has(stem)) {
+            add('email_pattern', 'Referee email is a numbered variant of the referrer\'s')
+        } else if (siblingsWithStem > 0) {
+            add('email_pattern', `${siblingsWithStem + 1} of the referrer's referees use numbered variants of one address`)
+        }
+    }
+    if (refereeMailbox && DISPOSABLE_EMAIL_DOMAINS.has(emailDomain(refereeMailbox))) {
+        add('disposable_email', `Referee uses a disposable domain (${emailDomain(refereeMailbox)})`)
+    }
+
+    // IPs
+    const refereeIps = [referral.attributionIp, referee?.lastIpAddress].filter((ip): ip is string => Boolean(ip))
+    const referrerIp = referrer?.lastIpAddress
+    const referrerRange = ipRange(referrerIp)
+    if (referrerIp && refereeIps.includes(referrerIp)) {
+        add('same_ip', 'Referee came from the referrer\'s IP address')
+    } else if (referrerRange && refereeIps.some(ip => ipRange(ip) === referrerRange)) {
+        add('same_ip_range', `Referee came from the referrer's network (${referrerRange})`)
+    }
+    const attributionRange = ipRange(referral.attributionIp)
+    if (attributionRange) {
+        const clustered = siblings.filter(s => ipRange(s.attributionIp) === attributionRange).length + 1
+        if (clustered >= IP_CLUSTER_SIZE) {
+            add('ip_cluster', `${clustered} of the referrer's referrals came from ${attributionRange}`)
+        }
+    }
+
+    // RevenueCat timing
+    if (referral.refundedAt) {
+        const days = daysBetween(referral.firstSubscriptionDate, referral.refundedAt)
+        add('refunded', days !== null ? `Refunded ${Math.max(Math.round(days), 0)} day(s) after subscribing` : 'Refunded')
+    } else if (cancelledEarly(referral)) {
+        const days = daysBetween(referral.firstSubscriptionDate, referral.cancelledAt) as number
+        add('early_cancel', `Cancelled ${Math.round(days)} day(s) after subscribing`)
+    }
+    const converted = siblings.filter(s => s.firstSubscriptionDate)
+    const churnedFast = converted.filter(s => s.refundedAt || cancelledEarly(s)).length
+    if (converted.length >= CHURN_PATTERN_MIN_REFERRALS && churnedFast / converted.length >= CHURN_PATTERN_RATIO) {
+        add('referrer_churn_pattern',
+            `${churnedFast} of the referrer's ${converted.length} referred subscribers refunded or cancelled within ${EARLY_CANCEL_DAYS} days`)
+    }
+
+    const score = Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0))
+    return {
+        score,
+        riskLevel: riskLevelFor(score),
+        signals: signals.sort((a, b) => b.weight - a.weight),
+        hold: score >= FRAUD_HOLD_SCORE,
+    }
+}
+
+// ============================================
+// EVIDENCE
+// ============================================
+
+/**
+ * Find a device by numeric id or fingerprint hash (referral ids hold either)
+ */
+async function findDevice(
+    payload: Payload,
+    idOrHash: string | null | undefined,
+    req?: PayloadRequest
+): Promise<FraudDevice | null> {
+    if (!idOrHash) return null
+    const or: Where[] = [{ fingerprintHash: { equals: idOrHash } }]
+    if (/^\d+$/.test(idOrHash)) or.push({ id: { equals: Number(idOrHash) } })
+
+    const { docs } = await payload.find({
+        collection: 'device-fingerprints',
+        where: { or },
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+    return docs[0] ?? null
+}
+
+export async function loadReferralFraudEvidence(
+    payload: Payload,
+    referral: Referral,
+    req?: PayloadRequest
+): Promise<ReferralFraudEvidence> {
+    const [referrer, referee, { docs: siblings }] = await Promise.all([
+        findDevice(payload, referral.referrerId, req),
+        findDevice(payload, referral.referredDeviceId, req),
+        payload.find({
+            collection: 'referrals',
+            where: {
+                and: [
+                    { referrerId: { equals: referral.referrerId } },
+                    { id: { not_equals: referral.id } },
+                ],
+            },
+            limit: 500,
+            depth: 0,
+            overrideAccess: true,
+            req,
+        }),
+    ])
+
+    return { referral, referrer, referee, siblings }
+}
+
+/**
+ * Score a referral and store the result on it. High-risk referrals that
+ * haven't been reviewed are held; a reviewer's decision is kept.
+ */
+export async function assessReferralFraud(
+    payload: Payload,
+    referral: Referral,
+    req?: PayloadRequest
+): Promise<ReferralFraudAssessment & { held: boolean }> {
+    const assessment = scoreReferralFraud(await loadReferralFraudEvidence(payload, referral, req))
+
+    const reviewStatus = referral.fraud?.reviewStatus || 'none'
+    const held = reviewStatus === 'held' || (reviewStatus === 'none' && assessment.hold)
+
+    await payload.update({
+        collection: 'referrals',
+        id: referral.id,
+        data: {
+            fraud: {
+                score: assessment.score,
+                riskLevel: assessment.riskLevel,
+                signals: assessment.signals,
+                checkedAt: new Date().toISOString(),
+                reviewStatus: held ? 'held' : reviewStatus,
+            },
+        },
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+
+    if (held && reviewStatus !== 'held') {
+        console.log(`[ReferralFraud] Holding referral ${referral.id} (score ${assessment.score})`)
+    }
+
+    return { ...assessment, held }
+}
+
+// ============================================
+// HOLDS & REVIEW
+// ============================================
+
+export interface HeldCommission {
+    amount: number
+    period: string
+    anniversaryDate: string
+}
+
+/**
+ * Record commission for a held referral as a "held" payout, one per referral
+ * and period. Stands in for atomicCommissionAccrual until review.
+ */
+export async function holdReferralCommission(
+    payload: Payload,
+    referral: Referral,
+    commission: HeldCommission,
+    req?: PayloadRequest
+): Promise<number> {
+    const { docs: existing } = await payload.find({
+        collection: 'referral-payouts',
+        where: {
+            and: [
+                { heldReferral: { equals: referral.id } },
+                { period: { equals: commission.period } },
+                { status: { equals: 'held' } },
+            ],
+        },
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+    if (existing[0]) return existing[0].id
+
+    const payout = await payload.create({
+        collection: 'referral-payouts',
+        data: {
+            referrerId: referral.referrerId,
+            referrerEmail: referral.referrerEmail || 'pending@collection.com',
+            amount: commission.amount,
+            referralCount: 1,
+            period: commission.period,
+            status: 'held',
+            paymentMethod: 'paypal',
+            heldReferral: referral.id,
+            referralBreakdown: [{
+                referralId: String(referral.id),
+                referredEmail: referral.referredEmail,
+                amount: commission.amount,
+                anniversaryDate: commission.anniversaryDate,
+            }],
+            notes: `Held for fraud review (score ${referral.fraud?.score ?? 'n/a'})`,
+        },
+        overrideAccess: true,
+        req,
+    })
+    return payout.id
+}
+
+/**
+ * Apply a reviewer's decision to the referral's held payouts: approved
+ * payouts move to "pending" and count toward totalCommissionPaid, denied
+ * ones are cancelled, the referral is marked as fraud and the referrer's
+ * device is flagged. Returns the referral fields to change.
+ */
+export async function applyReferralFraudReview(
+    req: PayloadRequest,
+    referral: Pick<Referral, 'id' | 'referrerId' | 'totalCommissionPaid'>,
+    decision: 'approved' | 'denied'
+): Promise<Partial<Pick<Referral, 'status' | 'totalCommissionPaid'>>> {
+    const { payload } = req
+    const { docs: held } = await payload.find({
+        collection: 'referral-payouts',
+        where: {
+            and: [
+                { heldReferral: { equals: referral.id } },
+                { status: { equals: 'held' } },
+            ],
+        },
+        limit: 100,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+
+    const note = `Fraud review ${decision} ${new Date().toISOString().slice(0, 10)}`
+    for (const payout of held) {
+        await payload.update({
+            collection: 'referral-payouts',
+            id: payout.id,
+            data: {
+                status: decision === 'approved' ? 'pending' : 'cancelled',
+                notes: payout.notes ? `${payout.notes}\n${note}` : note,
+            },
+            overrideAccess: true,
+            req,
+        })
+    }
+
+    if (decision === 'approved') {
+        const released = held.reduce((sum, payout) => sum + (payout.amount || 0), 0)
+        return released > 0 ? { totalCommissionPaid: (referral.totalCommissionPaid || 0) + released } : {}
+    }
+
+    const referrer = await findDevice(payload, referral.referrerId, req)
+    if (referrer) {
+        await payload.update({
+            collection: 'device-fingerprints',
+            id: referrer.id,
+            data: { suspiciousActivity: true },
+            overrideAccess: true,
+            req,
+        })
+    }
+    return { status: 'fraud' }
+}
@@ -0,0 +1,355 @@
+import type { Payload, PayloadRequest } from 'payload'
+import type { PriceHistory } from '../payload-types'
+import {
+    loadIngredientIndex,
+    matchIngredient,
+    normalizeIngredientName,
+    splitIngredientText,
+    type IngredientIndex,
+    type RegistryIngredient,
+} from './ingredient-registry'
+import { notifyProductSavers } from './saved-product-alerts'
+
+/**
+ * Ingredient Reformulation Detector
+ *
+ * Diffs the ingredient snapshot of each new price-history capture against the
+ * previous snapshot for the same product, retailer and ingredient source:
+ * - panels are split and normalized (order, synonyms, percentages,
+ *   descriptors) and matched against the ingredient registry
+ * - changes are classified as substitution, removal, addition or reordering
+ * - a change touching a hazard-listed (or flagged) ingredient requests a
+ *   retest on the product - freshnessStatus drops to 'needs_review' until a
+ *   newer test date is entered - and notifies users who saved it
+ *
+ * The diff is stored on the new record as a 'reformulation' anomaly.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type IngredientChangeType = 'substitution' | 'removal' | 'addition' | 'reordering'
+
+export interface ListedIngredient {
+    /** Registry id when matched, otherwise the normalized label name */
+    key: string
+    name: string
+    /** 1-based position on the label */
+    position: number
+    category: string | null
+    hazards: string[]
+}
+
+export interface IngredientChange {
+    type: IngredientChangeType
+    ingredient: string
+    /** Substitutions only: the ingredient that was replaced */
+    replaced?: string
+    fromPosition?: number
+    toPosition?: number
+    hazards: string[]
+}
+
+export interface ReformulationDiff {
+    changes: IngredientChange[]
+    hazardous: boolean
+    summary: string
+}
+
+export interface ReformulationResult extends ReformulationDiff {
+    previousRecordId: number
+    retestRequested: boolean
+    notified: { push: number; email: number }
+}
+
+const HAZARD_LABELS: Record<string, string> = {
+    carcinogen: 'Carcinogen',
+    possible_carcinogen: 'Possible carcinogen',
+    endocrine_disruptor: 'Endocrine disruptor',
+    reproductive_toxicant: 'Reproductive toxicant',
+    developmental_toxicant: 'Developmental toxicant',
+    neurotoxicant: 'Neurotoxicant',
+    allergen: 'Allergen',
+    heavy_metal: 'Heavy metal',
+    irritant: 'Irritant',
+    other: 'Other hazard',
+}
+
+const LEADING_PERCENT = /^\s*(?:less than\s+)?\d+(?:\.\d+)?\s*%\s*(?:of\s+)?/i
+const MAX_SUMMARY_CHANGES = 4
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+function hazardsOf(ingredient: RegistryIngredient): string[] {
+    const hazards = (ingredient.hazardClassifications || []).map(entry => {
+        const label = HAZARD_LABELS[entry.hazard] || entry.hazard
+        return entry.authority ? `${label} (${entry.authority.toUpperCase()})` : label
+    })
+    if (hazards.length === 0 && ingredient.verdict === 'flagged') hazards.push('Flagged ingredient')
+    return [...new Set(hazards)]
+}
+
+/**
+ * Split a label into normalized, de-duplicated ingredients in label order.
+ * Without a registry index, ingredients are keyed by normalized name only.
+ */
+export function listIngredients(text: string, index: IngredientIndex | null): ListedIngredient[] {
+    const listed: ListedIngredient[] = []
+    const seen = new Set<string>()
+
+    for (const raw of splitIngredientText(text)) {
+        const label = raw.replace(LEADING_PERCENT, '').trim()
+        const match = index ? matchIngredient(index, label, { maxDistance: 1 }) : null
+        const key = match ? `registry:${match.ingredient.id}` : normalizeIngredientName(label)
+        if (!key || seen.has(key)) continue
+        seen.add(key)
+
+        listed.push({
+            key,
+            name: match?.ingredient.name ?? label,
+            position: listed.length + 1,
+            category: match?.ingredient.category ?? null,
+            hazards: match ? hazardsOf(match.ingredient) : [],
+        })
+    }
+
+    return listed
+}
+
+// ============================================
+// DIFFING
+// ============================================
+
+function longestCommonSubsequence(a: string[], b: string[]): Set<string> {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+        }
+    }
+
+    const common = new Set<string>()
+    let i = 0
+    let j = 0
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            common.add(a[i])
+            i++
+            j++
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++
+        } else {
+            j++
+        }
+    }
+    return common
+}
+
+function describeChange(change: IngredientChange): string {
+    switch (change.type) {
+        case 'substitution':
+            return `${change.replaced} replaced by ${change.ingredient}`
+        case 'removal':
+            return `removed ${change.ingredient}`
+        case 'addition':
+            return `added ${change.ingredient}`
+        case 'reordering':
+            return `${change.ingredient} moved from #${change.fromPosition} to #${change.toPosition}`
+    }
+}
+
+/**
+ * Summarize changes, hazardous ones first.
+ */
+export function summarizeChanges(changes: IngredientChange[]): string {
+    const ordered = [...changes].sort((a, b) => Number(b.hazards.length > 0) - Number(a.hazards.length > 0))
+    const parts = ordered.slice(0, MAX_SUMMARY_CHANGES).map(describeChange)
+    if (ordered.length > MAX_SUMMARY_CHANGES) parts.push(`${ordered.length - MAX_SUMMARY_CHANGES} more`)
+    const summary = parts.join('; ')
+    return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
+
+/**
+ * Classify the differences between two ingredient lists.
+ *
+ * A removed ingredient paired with an added one from the same registry
+ * category, or in the same label slot, is a substitution. Ingredients on
+ * both labels that fall outside the longest common order moved.
+ */
+export function diffIngredientLists(previous: ListedIngredient[], current: ListedIngredient[]): ReformulationDiff {
+    const previousKeys = new Set(previous.map(i => i.key))
+    const currentKeys = new Set(current.map(i => i.key))
+    const changes: IngredientChange[] = []
+
+    const unpaired = current.filter(i => !previousKeys.has(i.key))
+    for (const gone of previous.filter(i => !currentKeys.has(i.key))) {
+        let slot = gone.category ? unpaired.findIndex(i => i.category === gone.category) : -1
+        if (slot < 0) slot = unpaired.findIndex(i => Math.abs(i.position - gone.position) <= 1)
+
+        if (slot < 0) {
+            changes.push({ type: 'removal', ingredient: gone.name, fromPosition: gone.position, hazards: gone.hazards })
+            continue
+        }
+        const [replacement] = unpaired.splice(slot, 1)
+        changes.push({
+            type: 'substitution',
+            ingredient: replacement.name,
+            replaced: gone.name,
+            fromPosition: gone.position,
+            toPosition: replacement.position,
+            hazards: [...new Set([...gone.hazards, ...replacement.hazards])],
+        })
+    }
+    for (const added of unpaired) {
+        changes.push({ type: 'addition', ingredient: added.name, toPosition: added.position, hazards: added.hazards })
+    }
+
+    const keptBefore = previous.filter(i => currentKeys.has(i.key))
+    const keptNow = current.filter(i => previousKeys.has(i.key))
+    const stable = longestCommonSubsequence(keptBefore.map(i => i.key), keptNow.map(i => i.key))
+    for (const item of keptNow) {
+        if (stable.has(item.key)) continue
+        const before = keptBefore.find(i => i.key === item.key)
+        changes.push({
+            type: 'reordering',
+            ingredient: item.name,
+            fromPosition: before?.position,
+            toPosition: item.position,
+            hazards: item.hazards,
+        })
+    }
+
+    return {
+        changes,
+        hazardous: changes.some(change => change.hazards.length > 0),
+        summary: changes.length > 0 ? summarizeChanges(changes) : '',
+    }
+}
+
+/**
+ * Diff two raw ingredient panels.
+ */
+export function diffIngredientPanels(
+    previousText: string,
+    currentText: string,
+    index: IngredientIndex | null
+): ReformulationDiff {
+    return diffIngredientLists(listIngredients(previousText, index), listIngredients(currentText, index))
+}
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * Request a retest for a product. Savers are only notified when no retest
+ * was already pending, so repeated captures of the same change stay quiet.
+ */
+async function requestRetest(
+    payload: Payload,
+    productId: number,
+    diff: ReformulationDiff,
+    req?: PayloadRequest
+): Promise<{ push: number; email: number }> {
+    const product = await payload.findByID({ collection: 'products', id: productId, depth: 0, overrideAccess: true, req })
+    const lastTested = product.testingInfo?.lastTestedDate
+    const pending = !!product.retestRequestedAt
+        && (!lastTested || new Date(product.retestRequestedAt) > new Date(lastTested))
+
+    await payload.update({
+        collection: 'products',
+        id: productId,
+        data: {
+            retestRequestedAt: new Date().toISOString(),
+            retestReason: `Reformulation: ${diff.summary}`,
+        },
+        overrideAccess: true,
+        req,
+    })
+
+    if (pending) return { push: 0, email: 0 }
+    try {
+        const { createReformulationNotification } = await import('../lib/push')
+        return await notifyProductSavers(payload, product, {
+            push: token => createReformulationNotification(token, product.name, diff.summary, String(product.id), product.upc),
+            emailVariables: { change_summary: diff.summary },
+        })
+    } catch (error) {
+        console.error(`[Reformulation] Notifying savers of product ${productId} failed:`, error)
+        return { push: 0, email: 0 }
+    }
+}
+
+/**
+ * Compare a new price-history capture with the previous snapshot from the
+ * same retailer and source. Returns null when there is nothing to compare
+ * or the ingredients are unchanged.
+ */
+export async function checkReformulation(
+    payload: Payload,
+    record: PriceHistory,
+    req?: PayloadRequest
+): Promise<ReformulationResult | null> {
+    if (!record.ingredientsSnapshot?.trim()) return null
+    const productId = typeof record.product === 'object' ? record.product.id : record.product
+
+    const { docs } = await payload.find({
+        collection: 'price-history',
+        where: {
+            and: [
+                { product: { equals: productId } },
+                { retailer: { equals: record.retailer } },
+                record.ingredientsSource
+                    ? { ingredientsSource: { equals: record.ingredientsSource } }
+                    : { ingredientsSource: { exists: false } },
+                { ingredientsSnapshot: { exists: true } },
+                { capturedAt: { less_than_equal: record.capturedAt } },
+                { id: { not_equals: record.id } },
+            ],
+        },
+        sort: '-capturedAt',
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+    const previous = docs[0]
+    if (!previous?.ingredientsSnapshot) return null
+
+    const index = await loadIngredientIndex(payload)
+    const diff = diffIngredientPanels(previous.ingredientsSnapshot, record.ingredientsSnapshot, index)
+    if (diff.changes.length === 0) return null
+
+    const notified = diff.hazardous
+        ? await requestRetest(payload, productId, diff, req)
+        : { push: 0, email: 0 }
+    const result: ReformulationResult = {
+        ...diff,
+        previousRecordId: previous.id,
+        retestRequested: diff.hazardous,
+        notified,
+    }
+
+    // Price and size anomalies found by the daily scan take precedence
+    if (!record.anomalyDetected) {
+        await payload.update({
+            collection: 'price-history',
+            id: record.id,
+            data: {
+                anomalyDetected: true,
+                anomalyType: 'reformulation',
+                anomalyDetails: { reformulation: result },
+            },
+            overrideAccess: true,
+            req,
+        })
+    }
+
+    console.log(`[Reformulation] Product ${productId} (${record.retailer}): ${diff.summary}${diff.hazardous ? ' - retest requested' : ''}`)
+    return result
+}
@@ -0,0 +1,560 @@
+import type { Payload } from 'payload'
+import type { Product, RegulatoryChange } from '../payload-types'
+import {
+    isENumber,
+    loadIngredientIndex,
+    matchIngredient,
+    normalizeCasNumber,
+    normalizeENumber,
+    normalizeIngredientName,
+    type IngredientIndex,
+} from './ingredient-registry'
+import { parseDelimited } from './lab-import'
+import { decodeHtml, htmlToText } from './retailer-adapters'
+
+/**
+ * Regulatory Feed Parsers
+ *
+ * Turns raw regulatory feeds into regulatory-changes records:
+ * - Federal Register API documents (FDA rules and proposed rules)
+ * - the OEHHA Proposition 65 chemical list (CSV export)
+ * - the EFSA Journal RSS feed
+ *
+ * Each parser is pure (the monitor fetches, tests use saved fixtures).
+ * Substances named in a document are resolved against the ingredient
+ * registry by CAS number, E-number or name, which supplies the CAS number and
+ * links the published products containing them (and their categories).
+ * Updates are de-duplicated by referenceId, within a batch and against
+ * existing records.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RegulatorySource = 'fda' | 'prop65' | 'efsa'
+export type RegulatoryChangeType = RegulatoryChange['changeType']
+
+export interface ParsedSubstance {
+    name: string
+    casNumber: string | null
+    eNumber?: string | null
+}
+
+export interface ParsedRegulatoryUpdate {
+    source: RegulatorySource
+    referenceId: string
+    title: string
+    summary?: string
+    announcedDate?: string
+    effectiveDate?: string
+    url: string
+    changeType: RegulatoryChangeType
+    substances: ParsedSubstance[]
+}
+
+export interface ResolvedSubstance {
+    name: string
+    casNumber: string | null
+    ingredientId: number | null
+}
+
+export interface IngestResult {
+    found: number
+    created: number
+    duplicates: number
+    errors: string[]
+}
+
+export interface ImpactedProduct {
+    id: number
+    name: string
+    brand: string
+    slug?: string | null
+}
+
+export interface ImpactReportEntry {
+    changeId: number
+    referenceId: string | null
+    title: string
+    source: string
+    changeType: RegulatoryChangeType
+    effectiveDate: string | null
+    substances: Array<ResolvedSubstance & { products: ImpactedProduct[] }>
+}
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+const CHANGE_TYPE_PATTERNS: Array<[RegulatoryChangeType, RegExp]> = [
+    ['ban', /\b(?:revok\w*|revocation|prohibit\w*|bann?(?:ed|ing|s)?|no longer (?:authori[sz]e|permit|allow)\w*|withdraw\w*)\b/i],
+    ['limit', /\b(?:tolerances?|maximum (?:residue )?levels?|action levels?|limits? for|MRLs?)\b/i],
+    ['labeling', /\b(?:label(?:l?ing)?|nutrition facts)\b/i],
+    ['approval', /\b(?:listing of color additives?|approv\w*|authori[sz]ation of|petition granted|novel food)\b/i],
+    ['review', /\b(?:re-?evaluation|safety (?:assessment|evaluation)|peer review|request for (?:information|comments?)|scientific opinion)\b/i],
+]
+
+/**
+ * Classify a document from its title and abstract.
+ */
+export function classifyChangeType(text: string, fallback: RegulatoryChangeType): RegulatoryChangeType {
+    for (const [changeType, pattern] of CHANGE_TYPE_PATTERNS) {
+        if (pattern.test(text)) return changeType
+    }
+    return fallback
+}
+
+const NAME_STOP_WORDS = new Set([
+    'a', 'an', 'and', 'as', 'by', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'use', 'uses', 'with',
+    'including', 'containing', 'substance', 'chemical', 'additive',
+])
+
+/** The words naming a substance just before a "(CAS ...)" / "(E 171)" marker */
+function nameBefore(text: string, end: number): string {
+    const words = text.slice(Math.max(0, end - 120), end).replace(/[,;:]\s*$/, '').split(/\s+/).filter(Boolean)
+    const name: string[] = []
+    for (let i = words.length - 1; i >= 0 && name.length < 6; i--) {
+        // A sentence end ("food.") stops the name, an abbreviation ("No.") does not
+        if (NAME_STOP_WORDS.has(words[i].toLowerCase()) || /(?:[;:,]|[a-z]{3,}\.)$/.test(words[i])) break
+        name.unshift(words[i])
+    }
+    return name.join(' ')
+}
+
+const CAS_MENTION = /\(\s*(?:CAS(?:\s*(?:No\.?|Number|RN|Reg\.? No\.?))?\s*:?\s*)?(\d{2,7}-\d{2}-\d)\s*\)/gi
+const E_NUMBER_MENTION = /\(\s*(E\s?\d{3,4}[a-z]?(?:\([ivx]+\))?)\s*\)/gi
+const ACTIVE_SUBSTANCE = /\bactive substances?\s+([a-z][\w-]*(?:\s(?!and\b|in\b|for\b)[a-z][\w-]*)?)/gi
+
+/**
+ * Substances named in document text: "name (CAS No. 123-45-6)",
+ * "name (E 171)" and EFSA's "the active substance X".
+ */
+export function extractSubstanceMentions(text: string): ParsedSubstance[] {
+    const substances: ParsedSubstance[] = []
+    for (const match of text.matchAll(CAS_MENTION)) {
+        const name = nameBefore(text, match.index)
+        if (name) substances.push({ name, casNumber: normalizeCasNumber(match[1]) })
+    }
+    for (const match of text.matchAll(E_NUMBER_MENTION)) {
+        const name = nameBefore(text, match.index)
+        if (name && isENumber(match[1])) substances.push({ name, casNumber: null, eNumber: normalizeENumber(match[1]) })
+    }
+    for (const match of text.matchAll(ACTIVE_SUBSTANCE)) {
+        substances.push({ name: match[1], casNumber: null })
+    }
+    return dedupeSubstances(substances)
+}
+
+function dedupeSubstances<T extends { name: string; casNumber: string | null }>(substances: T[]): T[] {
+    const seen = new Set<string>()
+    return substances.filter(substance => {
+        const key = substance.casNumber || normalizeIngredientName(substance.name)
+        if (!key || seen.has(key)) return false
+        seen.add(key)
+        return true
+    })
+}
+
+function isoDate(value: string | null | undefined): string | undefined {
+    if (!value) return undefined
+    const us = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+    if (us) return `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10)
+}
+
+function slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 60).replace(/^-|-$/g, '')
+}
+
+// ============================================
+// FEDERAL REGISTER
+// ============================================
+
+interface FederalRegisterDocument {
+    document_number?: string
+    title?: string
+    abstract?: string | null
+    type?: string
+    publication_date?: string
+    effective_on?: string | null
+    html_url?: string
+}
+
+const FDA_RELEVANT_TITLE = /\b(?:food|ingredient|additive|color|substance|dietary|infant formula|contaminant)/i
+const FDA_RELEVANT_ABSTRACT = /\b(?:food safety|dietary|food additive|color additive)/i
+
+/**
+ * Subject of an FDA title such as "Listing of Color Additives Exempt From
+ * Certification; Jagua (Genipin-Glycine) Blue" - the part after the last
+ * semicolon, without "Revocation of Authorization for Use of".
+ */
+function federalRegisterSubject(title: string): string | null {
+    const parts = title.split(';')
+    if (parts.length < 2) return null
+    const subject = parts[parts.length - 1]
+        .replace(/^\s*(?:revocation of (?:authorization|uses?|the listing)(?: for (?:the )?use)?(?: of)?|petition for|use of)\s+/i, '')
+        .trim()
+    if (!subject || subject.length > 80 || /\b(?:correction|comment period|extension|availability|withdrawal of|(?:proposed|final|interim final) rule)\b/i.test(subject)) return null
+    return subject
+}
+
+/**
+ * Parse a Federal Register API documents.json response.
+ * Only food / ingredient documents are kept.
+ */
+export function parseFederalRegister(json: unknown): ParsedRegulatoryUpdate[] {
+    const results = ((json as { results?: FederalRegisterDocument[] } | null)?.results) || []
+    const updates: ParsedRegulatoryUpdate[] = []
+
+    for (const doc of results) {
+        const title = doc.title?.trim() || ''
+        const abstract = doc.abstract?.trim() || ''
+        if (!doc.document_number || !title) continue
+        if (!FDA_RELEVANT_TITLE.test(title) && !FDA_RELEVANT_ABSTRACT.test(abstract)) continue
+
+        const text = `${title}. ${abstract}`
+        const substances = extractSubstanceMentions(text)
+        const subject = federalRegisterSubject(title)
+        if (subject && substances.length === 0) substances.push({ name: subject, casNumber: null })
+
+        updates.push({
+            source: 'fda',
+            referenceId: doc.document_number,
+            title,
+            summary: abstract || undefined,
+            announcedDate: isoDate(doc.publication_date),
+            effectiveDate: isoDate(doc.effective_on),
+            url: doc.html_url || `https://www.federalregister.gov/documents/${doc.document_number}`,
+            changeType: classifyChangeType(text, doc.type === 'Proposed Rule' ? 'review' : 'restriction'),
+            substances,
+        })
+    }
+
+    return updates
+}
+
+// ============================================
+// PROPOSITION 65
+// ============================================
+
+const PROP65_LIST_URL = 'https://oehha.ca.gov/proposition-65/proposition-65-list'
+
+function columnIndex(header: string[], pattern: RegExp): number {
+    return header.findIndex(cell => pattern.test(cell))
+}
+
+/**
+ * Parse the OEHHA Prop 65 chemical list CSV. The export starts with title
+ * rows, so the header is located by its "Chemical" and "CAS" columns.
+ * Only chemicals listed on or after `since` are returned.
+ */
+export function parseProp65List(csv: string, since?: Date): ParsedRegulatoryUpdate[] {
+    const rows = parseDelimited(csv.replace(/^﻿/, ''), ',')
+    const headerRow = rows.findIndex(row => row.some(c => /^chemical$/i.test(c.trim())) && row.some(c => /cas/i.test(c)))
+    if (headerRow < 0) return []
+
+    const header = rows[headerRow].map(cell => cell.trim())
+    const col = {
+        chemical: columnIndex(header, /^chemical$/i),
+        toxicity: columnIndex(header, /toxicity/i),
+        mechanism: columnIndex(header, /listing mechanism/i),
+        cas: columnIndex(header, /cas/i),
+        listed: columnIndex(header, /date listed/i),
+    }
+    const sinceDate = since ? since.toISOString().slice(0, 10) : null
+    const updates: ParsedRegulatoryUpdate[] = []
+
+    for (const row of rows.slice(headerRow + 1)) {
+        const chemical = row[col.chemical]?.trim()
+        const listed = isoDate(row[col.listed])
+        if (!chemical || !listed) continue
+        if (sinceDate && listed < sinceDate) continue
+
+        const rawCas = row[col.cas]?.trim() || ''
+        const casNumber = /^\d{2,7}-\d{2}-\d$/.test(rawCas) ? rawCas : null
+        const toxicity = row[col.toxicity]?.trim().toLowerCase()
+        const mechanism = row[col.mechanism]?.trim()
+
+        updates.push({
+            source: 'prop65',
+            referenceId: `prop65-${casNumber || slugify(chemical)}-${listed}`,
+            title: `Prop 65 listing: ${chemical}`,
+            summary: [
+                toxicity ? `Listed as known to the State of California to cause ${toxicity}` : null,
+                mechanism ? `listing mechanism: ${mechanism}` : null,
+            ].filter(Boolean).join('; ') || undefined,
+            announcedDate: listed,
+            effectiveDate: listed,
+            url: PROP65_LIST_URL,
+            changeType: 'warning',
+            substances: [{ name: chemical, casNumber }],
+        })
+    }
+
+    return updates
+}
+
+// ============================================
+// EFSA JOURNAL
+// ============================================
+
+const EFSA_RELEVANT = /\b(?:food|additive|contaminant|pesticide|residue|safety assessment|re-?evaluation|novel food|active substance)/i
+const EFSA_SUBJECT = /^(?:re-?evaluation|safety(?: and efficacy)?|scientific opinion on the safety) of (?:the )?(.+?)(?: \(| as | for | in |$)/i
+
+function rssField(item: string, tag: string): string | null {
+    const match = item.match(new RegExp(`<${tag}[^>]*>(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?</${tag}>`, 'i'))
+    return match ? decodeHtml(match[1]).trim() : null
+}
+
+/**
+ * Parse the EFSA Journal RSS feed. The DOI is the reference id.
+ */
+export function parseEfsaFeed(xml: string): ParsedRegulatoryUpdate[] {
+    const updates: ParsedRegulatoryUpdate[] = []
+
+    for (const [item] of xml.matchAll(/<item\b[\s\S]*?<\/item>/gi)) {
+        const title = rssField(item, 'title')
+        const link = rssField(item, 'link')
+        if (!title || !link || !EFSA_RELEVANT.test(title)) continue
+
+        const identifier = rssField(item, 'dc:identifier') || rssField(item, 'prism:doi') || ''
+        const doi = (identifier.match(/10\.\d{4,}\/\S+/) || link.match(/10\.\d{4,}\/[^?#\s]+/))?.[0]
+        const description = rssField(item, 'description')
+        const summary = description ? htmlToText(description).slice(0, 500) : undefined
+
+        const substances = extractSubstanceMentions(title)
+        const subject = title.match(EFSA_SUBJECT)?.[1]
+        if (substances.length === 0 && subject) substances.push({ name: subject.trim(), casNumber: null })
+
+        updates.push({
+            source: 'efsa',
+            referenceId: doi || link.split('/').pop() || link,
+            title,
+            summary,
+            announcedDate: isoDate(rssField(item, 'pubDate') || rssField(item, 'dc:date')),
+            url: link,
+            changeType: classifyChangeType(title, 'guideline'),
+            substances,
+        })
+    }
+
+    return updates
+}
+
+// ============================================
+// SUBSTANCE RESOLUTION
+// ============================================
+
+/**
+ * Resolve parsed substances to registry ingredients (CAS number first, then
+ * E-number, then exact name or synonym) and add registry ingredients named
+ * anywhere in the title or summary. Unresolved substances are kept by name.
+ */
+export function resolveSubstances(update: ParsedRegulatoryUpdate, index: IngredientIndex): ResolvedSubstance[] {
+    const resolved: ResolvedSubstance[] = []
+
+    for (const substance of update.substances) {
+        const ingredient = (substance.casNumber && index.byCas.get(normalizeCasNumber(substance.casNumber)))
+            || (substance.eNumber && index.byENumber.get(substance.eNumber))
+            || (() => {
+                const match = matchIngredient(index, substance.name, { enableFuzzy: false })
+                return match && match.matchType !== 'partial' ? match.ingredient : null
+            })()
+            || null
+
+        resolved.push({
+            name: substance.name,
+            casNumber: substance.casNumber || ingredient?.casNumber || null,
+            ingredientId: ingredient?.id ?? null,
+        })
+    }
+
+    // Registry names mentioned in passing ("... including titanium dioxide ...")
+    const text = ` ${`${update.title} ${update.summary || ''}`.toLowerCase().replace(/[^a-z0-9&]+/g, ' ')} `
+    const linked = new Set(resolved.map(s => s.ingredientId).filter(Boolean))
+    for (const [key, entry] of index.byName) {
+        if (key.length < 5 || linked.has(entry.ingredient.id)) continue
+        if (!text.includes(` ${key} `)) continue
+        linked.add(entry.ingredient.id)
+        resolved.push({
+            name: entry.ingredient.name,
+            casNumber: entry.ingredient.casNumber || null,
+            ingredientId: entry.ingredient.id,
+        })
+    }
+
+    const byIngredient = new Set<number>()
+    return dedupeSubstances(resolved).filter(substance => {
+        if (substance.ingredientId === null) return true
+        if (byIngredient.has(substance.ingredientId)) return false
+        byIngredient.add(substance.ingredientId)
+        return true
+    })
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+type ProductSummary = Pick<Product, 'id' | 'name' | 'brand' | 'slug' | 'category' | 'ingredientsList'>
+
+async function findPublishedProducts(payload: Payload, ingredientIds: number[]): Promise<ProductSummary[]> {
+    if (ingredientIds.length === 0) return []
+    const { docs } = await payload.find({
+        collection: 'products',
+        where: {
+            and: [
+                { status: { equals: 'published' } },
+                { ingredientsList: { in: ingredientIds } },
+            ],
+        },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+        select: { name: true, brand: true, slug: true, category: true, ingredientsList: true },
+    })
+    return docs as ProductSummary[]
+}
+
+function relationId(value: number | { id: number } | null | undefined): number | null {
+    if (value === null || value === undefined) return null
+    return typeof value === 'object' ? value.id : value
+}
+
+function containsIngredient(product: ProductSummary, ingredientId: number): boolean {
+    return (product.ingredientsList || []).some(entry => relationId(entry) === ingredientId)
+}
+
+/**
+ * Store new updates as pending regulatory-changes, skipping reference ids
+ * that already exist. Each record links its resolved substances, the
+ * published products containing them and those products' categories.
+ */
+export async function ingestRegulatoryUpdates(payload: Payload, updates: ParsedRegulatoryUpdate[]): Promise<IngestResult> {
+    const result: IngestResult = { found: updates.length, created: 0, duplicates: 0, errors: [] }
+
+    const unique = new Map<string, ParsedRegulatoryUpdate>()
+    for (const update of updates) {
+        if (!update.referenceId || unique.has(update.referenceId)) {
+            result.duplicates++
+            continue
+        }
+        unique.set(update.referenceId, update)
+    }
+    if (unique.size === 0) return result
+
+    const { docs: existing } = await payload.find({
+        collection: 'regulatory-changes',
+        where: { referenceId: { in: [...unique.keys()] } },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+        select: { referenceId: true },
+    })
+    for (const doc of existing) {
+        if (doc.referenceId && unique.delete(doc.referenceId)) result.duplicates++
+    }
+    if (unique.size === 0) return result
+
+    const index = await loadIngredientIndex(payload)
+
+    for (const update of unique.values()) {
+        try {
+            const substances = resolveSubstances(update, index)
+            const ingredientIds = substances.map(s => s.ingredientId).filter((id): id is number => id !== null)
+            const products = await findPublishedProducts(payload, ingredientIds)
+            const categories = [...new Set(products.map(p => relationId(p.category)).filter((id): id is number => id !== null))]
+
+            const impact = substances
+                .filter(s => s.ingredientId !== null)
+                .map(s => {
+                    const names = products.filter(p => containsIngredient(p, s.ingredientId as number)).map(p => p.name)
+                    return names.length > 0
+                        ? `${s.name}: ${names.length} published product${names.length === 1 ? '' : 's'} (${names.slice(0, 5).join(', ')}${names.length > 5 ? ', ...' : ''})`
+                        : `${s.name}: no published products`
+                })
+
+            await payload.create({
+                collection: 'regulatory-changes',
+                data: {
+                    title: update.title,
+                    referenceId: update.referenceId,
+                    source: update.source,
+                    sourceUrl: update.url,
+                    changeType: update.changeType,
+                    summary: update.summary,
+                    announcedDate: update.announcedDate,
+                    effectiveDate: update.effectiveDate,
+                    affectedSubstances: substances.map(s => ({
+                        name: s.name,
+                        casNumber: s.casNumber,
+                        ingredient: s.ingredientId,
+                    })),
+                    affectedProducts: products.map(p => p.id),
+                    affectedCategories: categories,
+                    impact: impact.length > 0 ? impact.join('\n') : undefined,
+                    recommendedAction: products.length > 0 ? 'review' : 'monitor',
+                    status: 'pending',
+                    rawData: update as unknown as Record<string, unknown>,
+                },
+                overrideAccess: true,
+            })
+            result.created++
+        } catch (error) {
+            result.errors.push(`Failed to store ${update.referenceId}: ${error instanceof Error ? error.message : 'unknown'}`)
+        }
+    }
+
+    return result
+}
+
+// ============================================
+// IMPACT REPORT
+// ============================================
+
+/**
+ * For each regulatory change recorded since `since`, list the published
+ * products that currently contain each of its substances.
+ */
+export async function buildImpactReport(payload: Payload, since: Date): Promise<ImpactReportEntry[]> {
+    const { docs: changes } = await payload.find({
+        collection: 'regulatory-changes',
+        where: {
+            and: [
+                { createdAt: { greater_than_equal: since.toISOString() } },
+                { status: { not_equals: 'dismissed' } },
+            ],
+        },
+        sort: '-createdAt',
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+    })
+
+    const ingredientIds = [...new Set(changes.flatMap(change =>
+        (change.affectedSubstances || []).map(s => relationId(s.ingredient)).filter((id): id is number => id !== null)
+    ))]
+    const products = await findPublishedProducts(payload, ingredientIds)
+
+    return changes.map(change => ({
+        changeId: change.id,
+        referenceId: change.referenceId ?? null,
+        title: change.title,
+        source: change.source,
+        changeType: change.changeType,
+        effectiveDate: change.effectiveDate ?? null,
+        substances: (change.affectedSubstances || []).map(substance => {
+            const ingredientId = relationId(substance.ingredient)
+            return {
+                name: substance.name,
+                casNumber: substance.casNumber ?? null,
+                ingredientId,
+                products: ingredientId === null ? [] : products
+                    .filter(p => containsIngredient(p, ingredientId))
+                    .map(p => ({ id: p.id, name: p.name, brand: p.brand, slug: p.slug })),
+            }
+        }),
+    }))
+}
@@ -0,0 +1,354 @@
+/**
+ * Report Versions
+ *
+ * Builds the snapshots stored in Products.reportVersions and compares them.
+ * A snapshot records what a reader saw on a published report: verdict,
+ * summary, badges and lab detections. Diffs are field-level so a version
+ * history can show exactly what changed between any two versions - e.g.
+ * after a ManufacturerDispute leads to a corrected report.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SnapshotDetection {
+    compound: string
+    level: string | null
+    threshold: string | null
+    interpretation: string | null
+    confirmationLevel: string | null
+    displayMode: string | null
+}
+
+export interface ReportSnapshot {
+    name: string | null
+    brand: string | null
+    verdict: string | null
+    summary: string | null
+    sampleId: string | null
+    testDate: string | null
+    category: number | null
+    /** Names of the badges that are switched on, sorted */
+    badges: string[]
+    detections: SnapshotDetection[]
+}
+
+export interface ReportVersion {
+    id?: string | null
+    versionNumber: number
+    publishedAt: string
+    snapshot?: unknown
+    changeReason?: string | null
+    /** Field-level diff against the previous version */
+    changes?: unknown
+    /** ManufacturerDisputes reference number, when a dispute led to this version */
+    disputeReference?: string | null
+}
+
+export type FieldChangeType = 'added' | 'removed' | 'changed'
+
+export interface FieldChange {
+    /** e.g. "verdict", "badges.isBestValue", "detections.lead.level" */
+    field: string
+    type: FieldChangeType
+    before?: unknown
+    after?: unknown
+}
+
+export interface ChangelogEntry {
+    versionNumber: number
+    publishedAt: string
+    verdict: string | null
+    reason: string
+    changes: string[]
+}
+
+interface ProductLike {
+    name?: string | null
+    brand?: string | null
+    verdict?: string | null
+    summary?: string | null
+    sampleId?: string | null
+    testDate?: string | null
+    category?: number | { id: number } | null
+    badges?: Record<string, unknown> | null
+    detectionResults?: {
+        detections?: Array<{
+            compound?: string | null
+            level?: string | null
+            threshold?: string | null
+            interpretation?: string | null
+            confirmationLevel?: string | null
+            displayMode?: string | null
+        }> | null
+    } | null
+}
+
+const SCALAR_FIELDS = ['verdict', 'summary', 'name', 'brand', 'sampleId', 'testDate', 'category'] as const
+const DETECTION_FIELDS = ['level', 'threshold', 'interpretation', 'confirmationLevel', 'displayMode'] as const
+
+const FIELD_LABELS: Record<string, string> = {
+    verdict: 'Verdict',
+    summary: 'Summary',
+    name: 'Product name',
+    brand: 'Brand',
+    sampleId: 'Lab sample',
+    testDate: 'Test date',
+    category: 'Category',
+}
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+function toText(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') return null
+    return String(value)
+}
+
+function compoundKey(compound: string): string {
+    return compound.trim().toLowerCase()
+}
+
+function activeBadges(badges: unknown): string[] {
+    if (Array.isArray(badges)) return badges.map(String).sort()
+    if (!badges || typeof badges !== 'object') return []
+    return Object.entries(badges)
+        .filter(([, on]) => on === true)
+        .map(([name]) => name)
+        .sort()
+}
+
+/**
+ * Whether a product has lab data worth versioning.
+ */
+export function hasLabData(product: ProductLike): boolean {
+    return !!product.sampleId || (product.detectionResults?.detections?.length || 0) > 0
+}
+
+/**
+ * Build the snapshot stored for a published version of a product.
+ */
+export function buildReportSnapshot(product: ProductLike): ReportSnapshot {
+    const category = typeof product.category === 'object' ? product.category?.id : product.category
+
+    return {
+        name: toText(product.name),
+        brand: toText(product.brand),
+        verdict: toText(product.verdict),
+        summary: toText(product.summary),
+        sampleId: toText(product.sampleId),
+        testDate: toText(product.testDate),
+        category: category ?? null,
+        badges: activeBadges(product.badges),
+        detections: (product.detectionResults?.detections || [])
+            .filter(d => !!d.compound?.trim())
+            .map(d => ({
+                compound: d.compound!.trim(),
+                level: toText(d.level),
+                threshold: toText(d.threshold),
+                interpretation: toText(d.interpretation),
+                confirmationLevel: toText(d.confirmationLevel),
+                displayMode: toText(d.displayMode),
+            })),
+    }
+}
+
+/**
+ * Read a stored snapshot. Older versions stored badges as the raw group and
+ * had no detections, so missing fields are filled in rather than reported as
+ * changes.
+ */
+export function normalizeSnapshot(snapshot: unknown): ReportSnapshot {
+    const raw = (snapshot && typeof snapshot === 'object' ? snapshot : {}) as Record<string, unknown>
+    return buildReportSnapshot({
+        ...raw,
+        category: raw.category as ProductLike['category'],
+        badges: raw.badges as ProductLike['badges'],
+        detectionResults: { detections: Array.isArray(raw.detections) ? raw.detections : [] },
+    } as ProductLike)
+}
+
+// ============================================
+// DIFFS
+// ============================================
+
+/**
+ * Field-level differences between two snapshots (from -> to).
+ */
+export function diffSnapshots(from: unknown, to: unknown): FieldChange[] {
+    const before = normalizeSnapshot(from)
+    const after = normalizeSnapshot(to)
+    const changes: FieldChange[] = []
+
+    for (const field of SCALAR_FIELDS) {
+        const a = before[field]
+        const b = after[field]
+        if (a === b) continue
+        if (a === null) changes.push({ field, type: 'added', after: b })
+        else if (b === null) changes.push({ field, type: 'removed', before: a })
+        else changes.push({ field, type: 'changed', before: a, after: b })
+    }
+
+    for (const badge of after.badges) {
+        if (!before.badges.includes(badge)) changes.push({ field: `badges.${badge}`, type: 'added', after: true })
+    }
+    for (const badge of before.badges) {
+        if (!after.badges.includes(badge)) changes.push({ field: `badges.${badge}`, type: 'removed', before: true })
+    }
+
+    const previous = new Map(before.detections.map(d => [compoundKey(d.compound), d]))
+    const current = new Map(after.detections.map(d => [compoundKey(d.compound), d]))
+
+    for (const [key, detection] of current) {
+        const old = previous.get(key)
+        if (!old) {
+            changes.push({ field: `detections.${key}`, type: 'added', after: detection })
+            continue
+        }
+        for (const field of DETECTION_FIELDS) {
+            if (old[field] !== detection[field]) {
+                changes.push({ field: `detections.${key}.${field}`, type: 'changed', before: old[field], after: detection[field] })
+            }
+        }
+    }
+    for (const [key, detection] of previous) {
+        if (!current.has(key)) changes.push({ field: `detections.${key}`, type: 'removed', before: detection })
+    }
+
+    return changes
+}
+
+/**
+ * Whether two snapshots show the same report.
+ */
+export function snapshotsEqual(a: unknown, b: unknown): boolean {
+    return diffSnapshots(a, b).length === 0
+}
+
+/**
+ * Find a version by number, or the latest when no number is given.
+ */
+export function findVersion<T extends ReportVersion>(versions: T[], versionNumber?: number | null): T | undefined {
+    if (versionNumber === undefined || versionNumber === null) {
+        return versions.reduce<T | undefined>(
+            (latest, v) => (!latest || v.versionNumber > latest.versionNumber ? v : latest),
+            undefined
+        )
+    }
+    return versions.find(v => v.versionNumber === versionNumber)
+}
+
+// ============================================
+// PUBLIC CHANGELOG
+// ============================================
+
+function badgeLabel(badge: string): string {
+    return badge.replace(/^is/, '').replace(/([a-z])([A-Z])/g, '$1 $2')
+}
+
+function detectionName(field: string, detection: unknown): string {
+    return (detection as SnapshotDetection | undefined)?.compound || field.split('.')[1]
+}
+
+/**
+ * Plain-language description of one change, for the public timeline.
+ */
+export function describeChange(change: FieldChange): string {
+    const [root, , subField] = change.field.split('.')
+
+    if (root === 'badges') {
+        const label = badgeLabel(change.field.slice('badges.'.length))
+        return change.type === 'added' ? `Awarded "${label}" badge` : `"${label}" badge removed`
+    }
+
+    if (root === 'detections') {
+        const name = detectionName(change.field, change.after ?? change.before)
+        if (change.type === 'added') {
+            const level = (change.after as SnapshotDetection).level
+            return level ? `${name} detected at ${level}` : `${name} detected`
+        }
+        if (change.type === 'removed') return `${name} no longer reported`
+        if (subField === 'level') return `${name} level changed from ${change.before ?? 'not reported'} to ${change.after ?? 'not reported'}`
+        if (subField === 'confirmationLevel') return `${name} result upgraded to ${change.after ?? 'screening'}`
+        return `${name} result updated`
+    }
+
+    const label = FIELD_LABELS[root] || root
+    if (root === 'verdict' && change.type === 'changed') {
+        return `Verdict changed from ${change.before} to ${change.after}`
+    }
+    if (root === 'summary' || root === 'category') return `${label} updated`
+    if (change.type === 'added') return `${label} added`
+    if (change.type === 'removed') return `${label} removed`
+    return `${label} updated`
+}
+
+/**
+ * Snapshot as the public sees it: hidden (low-confidence) detections are
+ * never shown, so they are left out before diffing.
+ */
+export function publicSnapshot(snapshot: unknown): ReportSnapshot {
+    const normalized = normalizeSnapshot(snapshot)
+    return { ...normalized, detections: normalized.detections.filter(d => d.displayMode !== 'hidden') }
+}
+
+/**
+ * Remove changes a viewer may not see. Display-mode bookkeeping is internal;
+ * when the product is shielded, summary and detection details collapse to a
+ * single "detections" change.
+ */
+export function redactChanges(changes: FieldChange[], shielded: boolean): FieldChange[] {
+    const visible = changes.filter(change => !change.field.endsWith('.displayMode'))
+    if (!shielded) return visible
+
+    const redacted = visible.filter(c => c.field !== 'summary' && !c.field.startsWith('detections.'))
+    if (visible.some(c => c.field.startsWith('detections.'))) {
+        redacted.push({ field: 'detections', type: 'changed' })
+    }
+    return redacted
+}
+
+/**
+ * Public reason shown for a version. Internal dispute notes stay internal.
+ */
+export function publicChangeReason(version: ReportVersion): string {
+    if (version.disputeReference) return 'Updated following a manufacturer review'
+    if (version.versionNumber === 1) return 'Initial publication'
+    return version.changeReason || 'Report updated'
+}
+
+/**
+ * Internal change reason recorded when a ManufacturerDispute updates a report.
+ */
+export function formatDisputeReason(dispute: { referenceNumber: string; description?: string | null }): string {
+    const description = dispute.description?.trim()
+    return description
+        ? `Manufacturer dispute ${dispute.referenceNumber}: ${description}`
+        : `Manufacturer dispute ${dispute.referenceNumber}`
+}
+
+/**
+ * Build the public "what changed" timeline, newest version first.
+ */
+export function buildChangelog(versions: ReportVersion[], options: { shielded?: boolean } = {}): ChangelogEntry[] {
+    const ordered = [...versions].sort((a, b) => a.versionNumber - b.versionNumber)
+
+    return ordered
+        .map((version, index) => {
+            const snapshot = publicSnapshot(version.snapshot)
+            const changes = index === 0 ? [] : diffSnapshots(publicSnapshot(ordered[index - 1].snapshot), snapshot)
+
+            return {
+                versionNumber: version.versionNumber,
+                publishedAt: version.publishedAt,
+                verdict: snapshot.verdict,
+                reason: publicChangeReason(version),
+                changes: redactChanges(changes, !!options.shielded).map(change =>
+                    change.field === 'detections' ? 'Lab results updated' : describeChange(change)
+                ),
+            }
+        })
+        .reverse()
+}
@@ -0,0 +1,642 @@
+/**
+ * Retailer Price Adapters
+ *
+ * Structured price extraction for the Skimpflation Detector, without a
+ * headless browser. Each retailer adapter reads what the page already ships
+ * in machine-readable form, in order of trust:
+ * - Embedded state (Walmart __NEXT_DATA__, Target __TGT_DATA__, Amazon's
+ *   buying-options price data)
+ * - JSON-LD Product / Offer
+ * - schema.org microdata (itemprop="price")
+ * - Retailer-specific markup as a last resort
+ *
+ * A listing carries the regular price, the sale price when the item is
+ * discounted, package size, unit count and the ingredient panel. Sizes are
+ * canonicalized ("6 Fluid Ounces" -> "6 fl oz") so normalizeSizeToOz can
+ * compare them. Parsers are pure functions over HTML and are tested against
+ * saved pages in tests/unit/fixtures/retailers.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RetailerSlug = 'amazon' | 'walmart' | 'target' | 'iherb'
+
+export type ExtractionSource = 'embedded_state' | 'json_ld' | 'microdata' | 'html'
+
+export interface ScrapedListing {
+    retailer: RetailerSlug | string
+    title: string | null
+    /** Regular (non-sale) price in USD */
+    price: number | null
+    /** Current price, only when below the regular price */
+    salePrice: number | null
+    /** Canonical package size, e.g. "12 fl oz" */
+    size: string | null
+    /** Items per package (multipacks, capsules, bars...) */
+    unitCount: number | null
+    ingredients: string | null
+    inStock: boolean | null
+    /** Where the price was read from */
+    source: ExtractionSource | null
+    warnings: string[]
+}
+
+export interface RetailerAdapter {
+    retailer: RetailerSlug
+    hosts: string[]
+    parse(html: string): ScrapedListing
+}
+
+/** What one extraction layer found; `price` is the current selling price */
+interface PartialListing {
+    source: ExtractionSource
+    title?: string | null
+    price?: number | null
+    listPrice?: number | null
+    size?: string | null
+    unitCount?: number | null
+    ingredients?: string | null
+    inStock?: boolean | null
+    currency?: string | null
+}
+
+type JsonObject = Record<string, unknown>
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const FETCH_TIMEOUT_MS = 15000
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ProductReportBot/1.0; +https://theproductreport.com)'
+
+const MAX_SECTION_LENGTH = 4000
+
+/** Canonical size units, matched longest first */
+const SIZE_UNITS: Array<[RegExp, string]> = [
+    [/^(fl\.?\s*oz\.?|fluid\s+ounces?)$/i, 'fl oz'],
+    [/^(oz\.?|ounces?)$/i, 'oz'],
+    [/^(ml|milliliters?|millilitres?)$/i, 'ml'],
+    [/^(l|liters?|litres?)$/i, 'l'],
+    [/^(lbs?\.?|pounds?)$/i, 'lb'],
+    [/^(kg|kilograms?)$/i, 'kg'],
+    [/^(g|grams?)$/i, 'g'],
+]
+
+const SIZE_PATTERN = /(\d+(?:\.\d+)?)\s*-?\s*(fl\.?\s*oz\.?|fluid\s+ounces?|ounces?|oz\.?|milliliters?|millilitres?|ml|liters?|litres?|lbs?\.?|pounds?|kilograms?|kg|grams?|g|l)(?![a-z])/i
+
+const COUNT_PATTERNS = [
+    /pack\s+of\s+(\d+)/i,
+    /(\d+)\s*-?\s*(?:count|ct|pack|pk)\b/i,
+    /(\d+)\s+(?:[a-z-]+\s+){0,3}(?:capsules|caps|softgels|tablets|gummies|lozenges|packets|sticks|pods|bars|wipes|bags)\b/i,
+]
+
+const INGREDIENT_HEADING = /^(other\s+|inactive\s+)?ingredients:?$/i
+
+// ============================================
+// TEXT HELPERS
+// ============================================
+
+export function decodeHtml(value: string): string {
+    return value
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&amp;/g, '&')
+}
+
+/** Visible text of an HTML fragment, whitespace collapsed */
+export function htmlToText(html: string): string {
+    return decodeHtml(
+        html
+            .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+            .replace(/<[^>]+>/g, ' ')
+    ).replace(/\s+/g, ' ').trim()
+}
+
+function attribute(tag: string, name: string): string | null {
+    const match = tag.match(new RegExp(`\\b${name}=(["'])([\\s\\S]*?)\\1`, 'i'))
+    return match ? decodeHtml(match[2]) : null
+}
+
+function textOrNull(value: unknown): string | null {
+    if (typeof value !== 'string') return null
+    const text = htmlToText(value)
+    return text || null
+}
+
+/**
+ * First price in a value: 4.12, "4.12", "$4.12", "Now $1,299.00".
+ * Null for anything that isn't a positive amount.
+ */
+export function parsePrice(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? Math.round(value * 100) / 100 : null
+    if (typeof value !== 'string') return null
+    const match = value.replace(/,(?=\d{3}\b)/g, '').match(/\d+(?:\.\d+)?/)
+    if (!match) return null
+    const price = parseFloat(match[0])
+    return price > 0 ? Math.round(price * 100) / 100 : null
+}
+
+/**
+ * Package size in canonical units: "6 Fluid Ounces" -> "6 fl oz",
+ * "Cereal - 8.9oz" -> "8.9 oz". Per-unit prices ("$0.09/Fl Oz") have no
+ * amount before the unit and are ignored.
+ */
+export function parseSize(text: string | null | undefined): string | null {
+    if (!text) return null
+    const match = text.match(SIZE_PATTERN)
+    if (!match) return null
+    const unit = SIZE_UNITS.find(([pattern]) => pattern.test(match[2].trim()))?.[1]
+    if (!unit) return null
+    return `${parseFloat(match[1])} ${unit}`
+}
+
+/** Items per package: "(Pack of 8)", "100 Count", "120 Veggie Capsules" */
+export function parseUnitCount(text: string | null | undefined): number | null {
+    if (!text) return null
+    for (const pattern of COUNT_PATTERNS) {
+        const match = text.match(pattern)
+        if (match) {
+            const count = parseInt(match[1], 10)
+            if (count > 0) return count
+        }
+    }
+    return null
+}
+
+function parseAvailability(value: unknown): boolean | null {
+    if (typeof value !== 'string' || !value) return null
+    const normalized = value.toLowerCase().replace(/[^a-z]/g, '')
+    if (/instock|limitedavailability|onlineonly|instoreonly/.test(normalized)) return true
+    if (/outofstock|soldout|discontinued|unavailable/.test(normalized)) return false
+    return null
+}
+
+/** Drop a leading "Ingredients:" label and cap the length */
+function cleanIngredients(text: string | null): string | null {
+    if (!text) return null
+    const cleaned = text.replace(/^(other\s+|inactive\s+)?ingredients\s*:\s*/i, '').trim()
+    return cleaned ? cleaned.slice(0, MAX_SECTION_LENGTH) : null
+}
+
+// ============================================
+// STRUCTURED DATA
+// ============================================
+
+function collectNodes(value: unknown, out: JsonObject[]): void {
+    if (Array.isArray(value)) {
+        for (const item of value) collectNodes(item, out)
+        return
+    }
+    if (value && typeof value === 'object') {
+        out.push(value as JsonObject)
+        const graph = (value as JsonObject)['@graph']
+        if (graph) collectNodes(graph, out)
+    }
+}
+
+/** All JSON-LD nodes on the page, @graph flattened; malformed blocks are skipped */
+export function extractJsonLd(html: string): JsonObject[] {
+    const nodes: JsonObject[] = []
+    const blocks = html.match(/<script\b[^>]*type=["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/gi) || []
+    for (const block of blocks) {
+        const body = block.replace(/^<script\b[^>]*>/i, '').replace(/<\/script>$/i, '').trim()
+        try {
+            collectNodes(JSON.parse(body), nodes)
+        } catch {
+            // Not every retailer ships valid JSON-LD
+        }
+    }
+    return nodes
+}
+
+function hasType(node: JsonObject, type: string): boolean {
+    const value = node['@type']
+    return Array.isArray(value) ? value.includes(type) : value === type
+}
+
+/** Price fields of a JSON-LD Offer / AggregateOffer (first offer wins) */
+function readOffer(offers: unknown): Pick<PartialListing, 'price' | 'listPrice' | 'currency' | 'inStock'> {
+    const offer = (Array.isArray(offers) ? offers[0] : offers) as JsonObject | undefined
+    if (!offer || typeof offer !== 'object') return {}
+
+    let price = parsePrice(offer.price) ?? parsePrice(offer.lowPrice)
+    let listPrice: number | null = null
+    const specs = offer.priceSpecification
+    for (const spec of (Array.isArray(specs) ? specs : specs ? [specs] : []) as JsonObject[]) {
+        const type = String(spec.priceType || '')
+        if (/ListPrice|StrikethroughPrice|MSRP/i.test(type)) listPrice = parsePrice(spec.price)
+        else if (/SalePrice/i.test(type) || price === null) price = parsePrice(spec.price) ?? price
+    }
+
+    return {
+        price,
+        listPrice,
+        currency: typeof offer.priceCurrency === 'string' ? offer.priceCurrency : null,
+        inStock: parseAvailability(offer.availability),
+    }
+}
+
+/** Product and Offer from JSON-LD */
+export function readJsonLdProduct(html: string): PartialListing | null {
+    const product = extractJsonLd(html).find(node => hasType(node, 'Product'))
+    if (!product) return null
+    return {
+        source: 'json_ld',
+        title: textOrNull(product.name),
+        size: typeof product.size === 'string' ? parseSize(product.size) : null,
+        ...readOffer(product.offers),
+    }
+}
+
+function microdataTags(html: string, prop: string): string[] {
+    return html.match(new RegExp(`<[a-z]+\\b[^>]*\\bitemprop=["']${prop}["'][^>]*>`, 'gi')) || []
+}
+
+/** Value of the first itemprop: content / href attribute, else the element text */
+function microdataValue(html: string, prop: string): string | null {
+    const tag = microdataTags(html, prop)[0]
+    if (!tag) return null
+    const fromAttribute = attribute(tag, 'content') ?? attribute(tag, 'href')
+    if (fromAttribute) return fromAttribute
+    const start = html.indexOf(tag) + tag.length
+    const text = htmlToText(html.slice(start, html.indexOf('<', start)))
+    return text || null
+}
+
+/** schema.org microdata (itemprop="price" and friends) */
+export function readMicrodata(html: string): PartialListing | null {
+    const price = parsePrice(microdataValue(html, 'price'))
+    if (price === null) return null
+    return {
+        source: 'microdata',
+        title: microdataValue(html, 'name'),
+        price,
+        currency: microdataValue(html, 'priceCurrency'),
+        inStock: parseAvailability(microdataValue(html, 'availability')),
+    }
+}
+
+// ============================================
+// EMBEDDED STATE
+// ============================================
+
+/** JSON body of <script id="..."> (e.g. __NEXT_DATA__) */
+export function extractScriptJson(html: string, id: string): unknown {
+    const match = html.match(new RegExp(`<script\\b[^>]*\\bid=["']${id}["'][^>]*>([\\s\\S]*?)<\\/script>`, 'i'))
+    if (!match) return null
+    try {
+        return JSON.parse(match[1].trim())
+    } catch {
+        return null
+    }
+}
+
+/** Index just past the object literal starting at `start`, respecting strings */
+function matchBrace(text: string, start: number): number {
+    let depth = 0
+    let quote: string | null = null
+    for (let i = start; i < text.length; i++) {
+        const char = text[i]
+        if (quote) {
+            if (char === '\\') i++
+            else if (char === quote) quote = null
+        } else if (char === '"' || char === "'") {
+            quote = char
+        } else if (char === '{') {
+            depth++
+        } else if (char === '}' && --depth === 0) {
+            return i + 1
+        }
+    }
+    return -1
+}
+
+/**
+ * State assigned to a window global, either as an object literal
+ * (`window.X = {...}`) or as a serialized string (`window.X = JSON.parse("...")`)
+ */
+export function extractAssignedJson(html: string, name: string): unknown {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const assignment = html.match(new RegExp(`${escaped}\\s*=\\s*`))
+    if (!assignment || assignment.index === undefined) return null
+    const start = assignment.index + assignment[0].length
+
+    try {
+        const serialized = html.slice(start).match(/^JSON\.parse\(\s*("(?:[^"\\]|\\.)*")\s*\)/)
+        if (serialized) return JSON.parse(JSON.parse(serialized[1]))
+
+        if (html[start] !== '{') return null
+        const end = matchBrace(html, start)
+        return end > 0 ? JSON.parse(html.slice(start, end)) : null
+    } catch {
+        return null
+    }
+}
+
+/** First object (depth-first) that satisfies the predicate */
+export function findDeep(value: unknown, predicate: (node: JsonObject) => boolean, depth = 0): JsonObject | null {
+    if (!value || typeof value !== 'object' || depth > 40) return null
+    if (!Array.isArray(value) && predicate(value as JsonObject)) return value as JsonObject
+    for (const child of Object.values(value as JsonObject)) {
+        const found = findDeep(child, predicate, depth + 1)
+        if (found) return found
+    }
+    return null
+}
+
+function getPath(value: unknown, path: string): unknown {
+    let current = value
+    for (const key of path.split('.')) {
+        if (!current || typeof current !== 'object') return undefined
+        current = (current as JsonObject)[key]
+    }
+    return current
+}
+
+/** Text following a heading ("Ingredients") up to the next heading or the end of its container */
+export function extractSectionAfterHeading(html: string, heading: RegExp): string | null {
+    const headings = html.matchAll(/<(h[1-6]|strong|b|dt|th)\b[^>]*>([\s\S]*?)<\/\1>/gi)
+    for (const match of headings) {
+        if (!heading.test(htmlToText(match[2]))) continue
+
+        const start = (match.index ?? 0) + match[0].length
+        const tags = /<(\/?)(div|section|td|dd|h[1-6])\b[^>]*>/gi
+        tags.lastIndex = start
+        let depth = 0
+        let end = html.length
+        for (let tag = tags.exec(html); tag; tag = tags.exec(html)) {
+            const closing = tag[1] === '/'
+            const name = tag[2].toLowerCase()
+            if (!closing && /^h[1-6]$/.test(name)) { end = tag.index; break }
+            if (name === 'section' || name === 'td' || name === 'dd') {
+                if (closing) { end = tag.index; break }
+                continue
+            }
+            if (!closing) depth++
+            else if (depth === 0) { end = tag.index; break }
+            else depth--
+        }
+        const text = htmlToText(html.slice(start, Math.min(end, start + MAX_SECTION_LENGTH * 4)))
+        if (text) return text
+    }
+    return null
+}
+
+// ============================================
+// LISTING ASSEMBLY
+// ============================================
+
+/**
+ * Combine extraction layers, most trusted first. The price pair comes from
+ * one layer so a sale price is never compared with another source's list
+ * price; other fields take the first value any layer has.
+ */
+function buildListing(retailer: string, layers: Array<PartialListing | null>): ScrapedListing {
+    const found = layers.filter((layer): layer is PartialListing => layer !== null)
+    const warnings: string[] = []
+    const first = <K extends keyof PartialListing>(key: K): NonNullable<PartialListing[K]> | null => {
+        for (const layer of found) {
+            const value = layer[key]
+            if (value !== null && value !== undefined && value !== '') return value as NonNullable<PartialListing[K]>
+        }
+        return null
+    }
+
+    let priced = found.find(layer => typeof layer.price === 'number') || null
+    if (priced?.currency && priced.currency.toUpperCase() !== 'USD') {
+        warnings.push(`Price is in ${priced.currency}, not USD`)
+        priced = null
+    }
+    if (!priced) warnings.push('No price found')
+
+    const current = priced?.price ?? null
+    const regular = priced?.listPrice && current !== null && priced.listPrice > current ? priced.listPrice : current
+
+    const title = first('title')
+    const size = first('size') ?? parseSize(title)
+    const unitCount = first('unitCount') ?? parseUnitCount(title)
+    if (!size && !unitCount) warnings.push('No package size found')
+
+    const ingredients = cleanIngredients(first('ingredients'))
+    if (!ingredients) warnings.push('No ingredient panel found')
+
+    return {
+        retailer,
+        title,
+        price: regular,
+        salePrice: regular !== null && current !== null && current < regular ? current : null,
+        size,
+        unitCount,
+        ingredients,
+        inStock: first('inStock'),
+        source: priced?.source ?? null,
+        warnings,
+    }
+}
+
+// ============================================
+// RETAILER ADAPTERS
+// ============================================
+
+/** Label/value rows of Amazon's product overview and detail tables */
+function amazonDetails(html: string): Record<string, string> {
+    const details: Record<string, string> = {}
+    const rows = html.match(/<tr\b[^>]*>[\s\S]*?<\/tr>/gi) || []
+    for (const row of rows) {
+        const cells = (row.match(/<t[hd]\b[^>]*>[\s\S]*?<\/t[hd]>/gi) || []).map(htmlToText)
+        if (cells.length >= 2 && cells[0]) details[cells[0].toLowerCase()] = cells[1]
+    }
+    return details
+}
+
+export const amazonAdapter: RetailerAdapter = {
+    retailer: 'amazon',
+    hosts: ['amazon.com', 'amzn.to', 'a.co'],
+    parse(html) {
+        const title = htmlToText(html.match(/<span\b[^>]*id=["']productTitle["'][^>]*>([\s\S]*?)<\/span>/i)?.[1] || '') || null
+        const strikePrice = parsePrice(
+            htmlToText(html.match(/data-a-strike=["']true["'][^>]*>\s*<span class=["']a-offscreen["']>([^<]*)</i)?.[1] || '')
+        )
+        const details = amazonDetails(html)
+        const size = parseSize(details['item volume'] || details['net content volume'] || details['item weight'] || details['size'])
+        const unitCount = parseInt(details['number of items'] || '', 10) || parseUnitCount(details['size']) || null
+        const availability = htmlToText(html.match(/<div\b[^>]*id=["']availability["'][^>]*>([\s\S]*?)<\/div>/i)?.[1] || '')
+        const shared = {
+            title,
+            size,
+            unitCount,
+            ingredients: extractSectionAfterHeading(html, INGREDIENT_HEADING),
+            inStock: availability ? /in stock|left in stock/i.test(availability) : null,
+        }
+
+        // Buy box price data: the price Amazon actually charges for the "New" offer
+        let embedded: PartialListing | null = null
+        const priceData = html.match(/<div\b[^>]*class=["']twister-plus-buying-options-price-data["'][^>]*>([\s\S]*?)<\/div>/i)?.[1]
+        if (priceData) {
+            try {
+                const offer = findDeep(JSON.parse(decodeHtml(priceData)), node =>
+                    typeof node.priceAmount === 'number' && (node.buyingOptionType ?? 'NEW') === 'NEW')
+                if (offer) embedded = { source: 'embedded_state', ...shared, price: parsePrice(offer.priceAmount), listPrice: strikePrice }
+            } catch {
+                // Fall through to the price markup
+            }
+        }
+
+        const priceToPay = html.match(/class=["'][^"']*\bpriceToPay\b[^"']*["'][^>]*>\s*<span class=["']a-offscreen["']>([^<]*)</i)?.[1]
+            || html.match(/<div\b[^>]*id=["']corePrice[^"']*["'][\s\S]*?<span class=["']a-offscreen["']>([^<]*)</i)?.[1]
+        const markup: PartialListing = { source: 'html', ...shared, price: parsePrice(priceToPay), listPrice: strikePrice }
+
+        return buildListing('amazon', [embedded, readJsonLdProduct(html), readMicrodata(html), markup])
+    },
+}
+
+export const walmartAdapter: RetailerAdapter = {
+    retailer: 'walmart',
+    hosts: ['walmart.com'],
+    parse(html) {
+        const data = getPath(extractScriptJson(html, '__NEXT_DATA__'), 'props.pageProps.initialData.data')
+        const product = getPath(data, 'product') as JsonObject | undefined
+
+        let embedded: PartialListing | null = null
+        if (product) {
+            const specs = (getPath(data, 'idml.specifications') || []) as Array<{ name?: string; value?: string }>
+            const spec = (pattern: RegExp) => specs.find(s => s.name && pattern.test(s.name))?.value
+            const multipack = parseInt(spec(/multipack quantity|count per pack/i) || '', 10)
+            const availability = product.availabilityStatus
+
+            embedded = {
+                source: 'embedded_state',
+                title: textOrNull(product.name),
+                price: parsePrice(getPath(product, 'priceInfo.currentPrice.price')),
+                listPrice: parsePrice(getPath(product, 'priceInfo.wasPrice.price')) ?? parsePrice(getPath(product, 'priceInfo.listPrice.price')),
+                currency: (getPath(product, 'priceInfo.currentPrice.currencyUnit') as string | undefined) ?? null,
+                size: parseSize(spec(/^(net content|size|item volume|net weight)$/i)),
+                unitCount: multipack > 1 ? multipack : parseUnitCount(spec(/^(count|total count)$/i)),
+                ingredients: textOrNull(getPath(data, 'idml.ingredients.ingredients.value')),
+                inStock: typeof availability === 'string' ? availability === 'IN_STOCK' : null,
+            }
+        }
+
+        return buildListing('walmart', [embedded, readJsonLdProduct(html), readMicrodata(html)])
+    },
+}
+
+export const targetAdapter: RetailerAdapter = {
+    retailer: 'target',
+    hosts: ['target.com'],
+    parse(html) {
+        const state = extractAssignedJson(html, 'window.__TGT_DATA__')
+        const product = findDeep(state, node =>
+            !!node.price && typeof node.price === 'object' && 'current_retail' in (node.price as JsonObject))
+
+        let embedded: PartialListing | null = null
+        if (product) {
+            const bullets = ((getPath(product, 'item.product_description.bullet_descriptions') || []) as unknown[])
+                .map(textOrNull)
+                .filter((bullet): bullet is string => !!bullet)
+            const bullet = (pattern: RegExp) => bullets.find(b => pattern.test(b))?.replace(/^[^:]*:\s*/, '')
+            const quantity = parseInt(bullet(/^package quantity:/i) || '', 10)
+            const availability = findDeep(product, node => typeof node.availability_status === 'string')?.availability_status
+
+            embedded = {
+                source: 'embedded_state',
+                title: textOrNull(getPath(product, 'item.product_description.title')),
+                price: parsePrice(getPath(product, 'price.current_retail')),
+                listPrice: parsePrice(getPath(product, 'price.reg_retail')),
+                size: parseSize(bullet(/^(net weight|net content|capacity|volume):/i)),
+                unitCount: quantity > 1 ? quantity : null,
+                ingredients: textOrNull(getPath(product, 'item.enrichment.nutrition_facts.ingredients')),
+                inStock: typeof availability === 'string' ? availability === 'IN_STOCK' : null,
+            }
+        }
+
+        return buildListing('target', [embedded, readJsonLdProduct(html), readMicrodata(html)])
+    },
+}
+
+export const iherbAdapter: RetailerAdapter = {
+    retailer: 'iherb',
+    hosts: ['iherb.com'],
+    parse(html) {
+        const specs = html.match(/<ul\b[^>]*id=["']product-specs-list["'][^>]*>([\s\S]*?)<\/ul>/i)?.[1] || ''
+        const spec = (label: RegExp) => (specs.match(/<li\b[^>]*>[\s\S]*?<\/li>/gi) || [])
+            .map(htmlToText)
+            .find(item => label.test(item))
+            ?.replace(/^[^:]*:\s*/, '')
+        const details: Pick<PartialListing, 'unitCount' | 'ingredients'> = {
+            unitCount: parseUnitCount(spec(/^package quantity:/i)),
+            ingredients: extractSectionAfterHeading(html, INGREDIENT_HEADING),
+        }
+
+        const jsonLd = readJsonLdProduct(html)
+        const microdata = readMicrodata(html)
+        return buildListing('iherb', [
+            jsonLd && { ...jsonLd, ...details },
+            microdata && { ...microdata, ...details },
+            { source: 'html', ...details },
+        ])
+    },
+}
+
+export const RETAILER_ADAPTERS: RetailerAdapter[] = [amazonAdapter, walmartAdapter, targetAdapter, iherbAdapter]
+
+/** Retailers without an adapter still get JSON-LD and microdata */
+function parseStructuredListing(retailer: string, html: string): ScrapedListing {
+    return buildListing(retailer, [readJsonLdProduct(html), readMicrodata(html)])
+}
+
+// ============================================
+// ENTRY POINTS
+// ============================================
+
+export function getRetailerAdapter(retailer: string): RetailerAdapter | undefined {
+    return RETAILER_ADAPTERS.find(adapter => adapter.retailer === retailer.toLowerCase())
+}
+
+/** Retailer slug from a product URL's host */
+export function detectRetailer(url: string): string | null {
+    let host: string
+    try {
+        host = new URL(url).hostname.toLowerCase()
+    } catch {
+        return null
+    }
+    const matches = (domain: string) => host === domain || host.endsWith(`.${domain}`)
+    const adapter = RETAILER_ADAPTERS.find(a => a.hosts.some(matches))
+    if (adapter) return adapter.retailer
+    if (matches('costco.com')) return 'costco'
+    if (matches('kroger.com')) return 'kroger'
+    if (matches('wholefoodsmarket.com')) return 'whole_foods'
+    if (matches('instacart.com')) return 'instacart'
+    return null
+}
+
+/** Parse a saved or fetched product page */
+export function parseListing(retailer: string, html: string): ScrapedListing {
+    const adapter = getRetailerAdapter(retailer)
+    return adapter ? adapter.parse(html) : parseStructuredListing(retailer, html)
+}
+
+/** Fetch a product page and parse it with the retailer's adapter */
+export async function scrapeListing(url: string, retailer: string): Promise<ScrapedListing> {
+    const response = await fetch(url, {
+        headers: {
+            'User-Agent': USER_AGENT,
+            'Accept': 'text/html,application/xhtml+xml',
+            'Accept-Language': 'en-US,en;q=0.9',
+        },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    })
+    if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+    }
+    return parseListing(retailer, await response.text())
+}
@@ -0,0 +1,1141 @@
+import type { Payload, PayloadRequest, Where } from 'payload'
+import type { Referral, RevenuecatEvent as RevenueCatLedgerEntry, User } from '../payload-types'
+import { createAuditLog } from '../collections/AuditLog'
+import { trackServer, flushServer } from '../lib/analytics/rudderstack-server'
+import { atomicCommissionAccrual, atomicIncrement } from './atomic-operations'
+import { assessReferralFraud, holdReferralCommission } from './referral-fraud'
+
+/**
+ * RevenueCat Event Processing
+ *
+ * Applies RevenueCat webhook events to users (subscriptionStatus,
+ * memberState) and referrals (activation, commission, churn, refunds), and
+ * keeps the revenuecat-events ledger both webhook routes write through:
+ * - every event is recorded by RevenueCat event id before it's applied, so
+ *   a redelivered event is acknowledged without being applied twice
+ * - events older than one already applied for the same subscriber don't
+ *   change subscription or referral status (RevenueCat doesn't guarantee
+ *   delivery order)
+ * - unmatched and failed events stay in the ledger and can be replayed
+ *
+ * Commission: $25/year per active referred subscriber, accrued on the
+ * renewal after each subscription anniversary. Refunds reverse commission
+ * that hasn't been paid yet; paid or in-flight commission is reported for
+ * clawback.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+/**
+ * RevenueCat webhook event types
+ * See: https://www.revenuecat.com/docs/integrations/webhooks/event-types-and-fields
+ */
+export type RevenueCatEventType =
+    | 'INITIAL_PURCHASE'
+    | 'RENEWAL'
+    | 'CANCELLATION'
+    | 'UNCANCELLATION'
+    | 'NON_RENEWING_PURCHASE'
+    | 'SUBSCRIPTION_PAUSED'
+    | 'EXPIRATION'
+    | 'BILLING_ISSUE'
+    | 'PRODUCT_CHANGE'
+    | 'TRANSFER'
+    | 'SUBSCRIBER_ALIAS'
+    | 'SUBSCRIPTION_EXTENDED'
+    | 'TEMPORARY_ENTITLEMENT_GRANT'
+    | 'REFUND_REVERSED'
+    | 'INVOICE_ISSUANCE'
+    | 'VIRTUAL_CURRENCY_TRANSACTION'
+    | 'TEST'
+
+export interface RevenueCatWebhookEvent {
+    type: RevenueCatEventType
+    id?: string
+    event_timestamp_ms: number
+    app_id?: string
+    app_user_id: string
+    original_app_user_id?: string
+    aliases?: string[]
+    subscriber_id?: string
+    subscriber_attributes?: Record<string, { value: string; updated_at_ms: number }>
+    product_id?: string
+    new_product_id?: string
+    entitlement_id?: string
+    entitlement_ids?: string[]
+    period_type?: 'TRIAL' | 'INTRO' | 'NORMAL' | 'PROMOTIONAL' | 'PREPAID'
+    purchased_at_ms?: number
+    expiration_at_ms?: number
+    environment?: 'SANDBOX' | 'PRODUCTION'
+    store?: string
+    is_trial_conversion?: boolean
+    price?: number
+    currency?: string
+    offer_code?: string
+    /** CANCELLATION only - CUSTOMER_SUPPORT means the purchase was refunded */
+    cancel_reason?: string
+    expiration_reason?: string
+    /** TRANSFER only */
+    transferred_from?: string[]
+    transferred_to?: string[]
+}
+
+export interface RevenueCatWebhookPayload {
+    api_version: string
+    event: RevenueCatWebhookEvent
+}
+
+export type SubscriptionStatus = NonNullable<User['subscriptionStatus']>
+export type MemberState = NonNullable<User['memberState']>
+export type LedgerStatus = RevenueCatLedgerEntry['status']
+
+export interface RefundReversal {
+    /** Unpaid commission removed from payouts */
+    reversed: number
+    payoutIds: number[]
+    /** Paid or processing payouts that include refunded commission */
+    clawbackPayoutIds: number[]
+}
+
+export interface EventOutcome {
+    user?: {
+        id: number
+        previousStatus?: string | null
+        subscriptionStatus?: SubscriptionStatus
+        memberState?: MemberState
+    }
+    /** TRANSFER: users the subscription moved away from */
+    transferredFrom?: number[]
+    referral?: { id: number; actions: string[] }
+    commission?: RefundReversal
+    /** A newer event for this subscriber was already applied */
+    stale?: boolean
+    note?: string
+}
+
+export interface ApplyResult {
+    status: Extract<LedgerStatus, 'processed' | 'unmatched' | 'skipped'>
+    outcome: EventOutcome
+    userId?: number
+    referralId?: number
+}
+
+export interface LedgerRunResult {
+    entry: RevenueCatLedgerEntry
+    status: LedgerStatus
+    outcome?: EventOutcome
+    error?: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const COMMISSION_AMOUNT = 25.00 // $25/year per referral
+
+const REFUND_CANCEL_REASON = 'CUSTOMER_SUPPORT'
+
+/** Events that never change a user or referral */
+const INFORMATIONAL_EVENTS: RevenueCatEventType[] = [
+    'SUBSCRIBER_ALIAS',
+    'INVOICE_ISSUANCE',
+    'VIRTUAL_CURRENCY_TRANSACTION',
+    'TEST',
+]
+
+/** A "received" entry younger than this is still being processed */
+const IN_FLIGHT_MS = 5 * 60 * 1000
+
+/** Refund window slack: commission accrued up to a day before the refunded purchase */
+const REFUND_WINDOW_MS = 24 * 60 * 60 * 1000
+
+// ============================================
+// EVENT MAPPING
+// ============================================
+
+/**
+ * Ledger key: the RevenueCat event id, or a key built from the event for
+ * payloads without one (so redeliveries still match)
+ */
+export function ledgerKey(event: RevenueCatWebhookEvent): string {
+    return event.id || `${event.type}:${eventSubscriberId(event)}:${event.event_timestamp_ms}`
+}
+
+/**
+ * Subscriber the event is about. TRANSFER events identify the recipient.
+ */
+export function eventSubscriberId(event: RevenueCatWebhookEvent): string | undefined {
+    return event.app_user_id || event.subscriber_id || event.transferred_to?.[0]
+}
+
+function eventTime(event: RevenueCatWebhookEvent): Date {
+    return new Date(event.event_timestamp_ms || Date.now())
+}
+
+function appUserIds(event: RevenueCatWebhookEvent): string[] {
+    return [...new Set([event.app_user_id, event.original_app_user_id, event.subscriber_id, ...(event.aliases || [])]
+        .filter((id): id is string => Boolean(id)))]
+}
+
+export function isRefund(event: Pick<RevenueCatWebhookEvent, 'type' | 'cancel_reason'>): boolean {
+    return event.type === 'CANCELLATION' && event.cancel_reason === REFUND_CANCEL_REASON
+}
+
+/**
+ * Subscription status after the event, or null when it doesn't change
+ */
+export function subscriptionStatusFor(event: RevenueCatWebhookEvent, now: number = Date.now()): SubscriptionStatus | null {
+    switch (event.type) {
+        case 'INITIAL_PURCHASE':
+            return event.period_type === 'TRIAL' ? 'trial' : 'premium'
+
+        case 'RENEWAL':
+        case 'UNCANCELLATION':
+        case 'SUBSCRIPTION_EXTENDED':
+        case 'TEMPORARY_ENTITLEMENT_GRANT':
+        case 'PRODUCT_CHANGE': // Still subscribed, the new product starts at renewal
+            return 'premium'
+
+        case 'NON_RENEWING_PURCHASE':
+            // Lifetime unlocks grant an entitlement; consumables don't
+            return event.entitlement_ids?.length || event.entitlement_id ? 'premium' : null
+
+        case 'CANCELLATION':
+            // A refund ends access now; otherwise access runs until EXPIRATION
+            if (isRefund(event)) return 'cancelled'
+            return event.expiration_at_ms && event.expiration_at_ms < now ? 'cancelled' : null
+
+        case 'EXPIRATION':
+            return 'cancelled'
+
+        case 'REFUND_REVERSED':
+            return !event.expiration_at_ms || event.expiration_at_ms > now ? 'premium' : null
+
+        case 'BILLING_ISSUE':      // Grace period - EXPIRATION follows if it isn't resolved
+        case 'SUBSCRIPTION_PAUSED': // Access continues - EXPIRATION is sent when the pause starts
+        default:
+            return null
+    }
+}
+
+/**
+ * One-Shot Engine state for a subscription status: subscribers are members,
+ * lapsed members drop back to "trial" (their free unlock is used up)
+ */
+export function memberStateFor(status: SubscriptionStatus, current: User['memberState']): MemberState | null {
+    if (status === 'premium') return current === 'member' ? null : 'member'
+    if (status === 'cancelled' && current === 'member') return 'trial'
+    return null
+}
+
+/**
+ * Map RevenueCat event to audit log action
+ */
+export function auditActionFor(event: RevenueCatWebhookEvent): string | null {
+    switch (event.type) {
+        case 'INITIAL_PURCHASE':
+            return event.period_type === 'TRIAL' ? 'trial_started' : 'subscription_started'
+        case 'RENEWAL':
+            return event.is_trial_conversion ? 'trial_converted' : 'subscription_renewed'
+        case 'CANCELLATION':
+        case 'EXPIRATION':
+        case 'TRANSFER':
+            return 'subscription_cancelled'
+        case 'BILLING_ISSUE':
+            return 'billing_issue'
+        case 'SUBSCRIPTION_PAUSED':
+            return 'subscription_paused'
+        case 'UNCANCELLATION':
+        case 'SUBSCRIPTION_EXTENDED':
+        case 'NON_RENEWING_PURCHASE':
+        case 'REFUND_REVERSED':
+        case 'PRODUCT_CHANGE':
+            return 'subscription_started' // Reactivation / plan change
+        default:
+            return null
+    }
+}
+
+// ============================================
+// LOOKUPS
+// ============================================
+
+/**
+ * Find user by RevenueCat app_user_id or aliases
+ * The app_user_id could be:
+ * 1. Our Payload user ID (if we called Purchases.logIn(userId))
+ * 2. An anonymous RevenueCat ID (starts with $RCAnonymousID:)
+ * 3. An email address (from subscriber attributes)
+ *
+ * Users found by id or email are linked to the app_user_id for future lookups.
+ */
+export async function findUserForEvent(
+    payload: Payload,
+    event: Pick<RevenueCatWebhookEvent, 'app_user_id' | 'original_app_user_id' | 'aliases' | 'subscriber_id' | 'subscriber_attributes'>,
+    req?: PayloadRequest
+): Promise<User | null> {
+    const possibleIds = appUserIds(event as RevenueCatWebhookEvent)
+    const link = async (user: User) => {
+        if (user.revenuecatUserId || !event.app_user_id) return user
+        return payload.update({
+            collection: 'users',
+            id: user.id,
+            data: { revenuecatUserId: event.app_user_id },
+            overrideAccess: true,
+            req,
+        })
+    }
+
+    // 1. revenuecatUserId
+    if (possibleIds.length > 0) {
+        const { docs } = await payload.find({
+            collection: 'users',
+            where: { revenuecatUserId: { in: possibleIds } },
+            limit: 1,
+            depth: 0,
+            overrideAccess: true,
+            req,
+        })
+        if (docs[0]) return docs[0]
+    }
+
+    // 2. Payload user ID (numeric app_user_id, skipping anonymous IDs)
+    for (const id of possibleIds) {
+        if (id.startsWith('$RCAnonymousID:') || !/^\d+$/.test(id)) continue
+        const user = await payload.findByID({
+            collection: 'users',
+            id: Number(id),
+            depth: 0,
+            overrideAccess: true,
+            req,
+        }).catch(() => null)
+        if (user) return link(user)
+    }
+
+    // 3. Email from subscriber attributes, or an alias that looks like one
+    const emails = [
+        event.subscriber_attributes?.$email?.value,
+        ...possibleIds.filter(id => id.includes('@') && !id.startsWith('$')),
+    ].filter((email): email is string => Boolean(email))
+    for (const email of emails) {
+        const { docs } = await payload.find({
+            collection: 'users',
+            where: { email: { equals: email.toLowerCase() } },
+            limit: 1,
+            depth: 0,
+            overrideAccess: true,
+            req,
+        })
+        if (docs[0]) return link(docs[0])
+    }
+
+    return null
+}
+
+/**
+ * Find the referral for a subscriber: by device / RevenueCat subscriber id,
+ * or by the referred user
+ */
+export async function findReferralForEvent(
+    payload: Payload,
+    subscriberIds: string[],
+    userId?: number,
+    req?: PayloadRequest
+): Promise<Referral | null> {
+    const or: Where[] = []
+    if (subscriberIds.length > 0) {
+        or.push({ referredDeviceId: { in: subscriberIds } }, { revenuecatSubscriberId: { in: subscriberIds } })
+    }
+    if (userId) or.push({ referredUserId: { equals: String(userId) } })
+    if (or.length === 0) return null
+
+    const { docs } = await payload.find({
+        collection: 'referrals',
+        where: { or },
+        sort: '-createdAt',
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+    return docs[0] || null
+}
+
+/**
+ * Whether the ledger already applied a later event for this subscriber
+ */
+async function hasNewerEvent(
+    payload: Payload,
+    event: RevenueCatWebhookEvent,
+    subscriberIds: string[],
+    userId: number | undefined,
+    ledgerId: number | undefined,
+    req?: PayloadRequest
+): Promise<boolean> {
+    const subscriber: Where[] = [
+        ...(subscriberIds.length > 0 ? [{ appUserId: { in: subscriberIds } }] : []),
+        ...(userId ? [{ user: { equals: userId } }] : []),
+    ]
+    if (!event.event_timestamp_ms || subscriber.length === 0) return false
+
+    const { totalDocs } = await payload.count({
+        collection: 'revenuecat-events',
+        where: {
+            and: [
+                { status: { equals: 'processed' } },
+                { eventAt: { greater_than: eventTime(event).toISOString() } },
+                { or: subscriber },
+                ...(ledgerId ? [{ id: { not_equals: ledgerId } }] : []),
+            ],
+        },
+        overrideAccess: true,
+        req,
+    })
+    return totalDocs > 0
+}
+
+// ============================================
+// USERS
+// ============================================
+
+/**
+ * Set a user's subscription status and member state, with an audit entry
+ */
+async function applyUserStatus(
+    payload: Payload,
+    user: User,
+    event: RevenueCatWebhookEvent,
+    status: SubscriptionStatus | null,
+    outcome: EventOutcome,
+    req?: PayloadRequest,
+    auditAction: string | null = auditActionFor(event)
+): Promise<void> {
+    const data: Partial<User> = {}
+    if (status && status !== user.subscriptionStatus) data.subscriptionStatus = status
+    const memberState = status ? memberStateFor(status, user.memberState) : null
+    if (memberState) data.memberState = memberState
+    if (status === 'trial') {
+        if (event.purchased_at_ms) data.trialStartDate = new Date(event.purchased_at_ms).toISOString()
+        if (event.expiration_at_ms) data.trialEndDate = new Date(event.expiration_at_ms).toISOString()
+    }
+
+    outcome.user = {
+        id: user.id,
+        previousStatus: user.subscriptionStatus,
+        ...(data.subscriptionStatus && { subscriptionStatus: data.subscriptionStatus }),
+        ...(memberState && { memberState }),
+    }
+    if (Object.keys(data).length > 0) {
+        await payload.update({ collection: 'users', id: user.id, data, overrideAccess: true, req })
+        console.log(`[RevenueCat] Updated user ${user.id}:`, data)
+    }
+
+    if (auditAction) {
+        await createAuditLog(payload, {
+            action: auditAction,
+            sourceType: 'revenuecat',
+            sourceId: ledgerKey(event),
+            targetCollection: 'users',
+            targetId: user.id,
+            targetName: user.email || user.name || `User ${user.id}`,
+            before: { subscriptionStatus: user.subscriptionStatus, memberState: user.memberState },
+            after: {
+                subscriptionStatus: data.subscriptionStatus || user.subscriptionStatus,
+                memberState: data.memberState || user.memberState,
+            },
+            metadata: {
+                eventType: event.type,
+                productId: event.product_id,
+                newProductId: event.new_product_id,
+                periodType: event.period_type,
+                store: event.store,
+                environment: event.environment,
+                price: event.price,
+                currency: event.currency,
+                offerCode: event.offer_code,
+                cancelReason: event.cancel_reason,
+            },
+            success: true,
+        })
+    }
+}
+
+// ============================================
+// REFERRALS
+// ============================================
+
+/**
+ * First paid subscription: activate the referral and start the commission
+ * year. Churned referrals are reactivated with their original dates.
+ */
+async function activateReferral(
+    payload: Payload,
+    referral: Referral,
+    subscriberId: string,
+    at: Date,
+    actions: string[],
+    req?: PayloadRequest
+): Promise<Referral> {
+    if (referral.status === 'active' || referral.status === 'fraud') return referral
+    if (referral.status === 'churned') return reactivateReferral(payload, referral, actions, req)
+
+    const nextYear = new Date(at)
+    nextYear.setFullYear(nextYear.getFullYear() + 1)
+
+    const activated = await payload.update({
+        collection: 'referrals',
+        id: referral.id,
+        data: {
+            status: 'active',
+            revenuecatSubscriberId: subscriberId,
+            firstSubscriptionDate: at.toISOString(),
+            lastRenewalDate: at.toISOString(),
+            nextCommissionDate: nextYear.toISOString(),
+            yearsActive: 1,
+        },
+        overrideAccess: true,
+        req,
+    })
+    actions.push('activated')
+    console.log(`[RevenueCat] Activated referral ${referral.id} for ${subscriberId}`)
+
+    // Score early so high-risk referrals reach the review queue before their
+    // first anniversary. Renewal re-checks, so a failure here isn't fatal.
+    try {
+        await assessReferralFraud(payload, activated, req)
+    } catch (error) {
+        console.error(`[RevenueCat] Fraud check failed for referral ${referral.id}:`, error)
+    }
+    return activated
+}
+
+/**
+ * Renewal: accrue commission once the subscription anniversary has passed.
+ *
+ * Race Condition Fix:
+ * - Multiple renewal webhooks can arrive simultaneously for different subscribers
+ *   referencing the same referrer
+ * - Uses atomicIncrement for totalCommissionPaid and atomicCommissionAccrual
+ *   for payout records with retry logic
+ *
+ * The anniversary moves forward a year only after the commission is
+ * recorded, and commission already recorded for the referral and period is
+ * not recorded again, so replaying a renewal that failed part-way neither
+ * loses nor doubles it.
+ */
+async function renewReferral(
+    payload: Payload,
+    referral: Referral,
+    at: Date,
+    actions: string[],
+    req?: PayloadRequest
+): Promise<void> {
+    const nextYear = new Date(at)
+    nextYear.setFullYear(nextYear.getFullYear() + 1)
+    const nextCommissionDate = referral.nextCommissionDate ? new Date(referral.nextCommissionDate) : null
+
+    if (!nextCommissionDate || at < nextCommissionDate) {
+        // Just update renewal date
+        await payload.update({
+            collection: 'referrals',
+            id: referral.id,
+            data: { lastRenewalDate: at.toISOString() },
+            overrideAccess: true,
+            req,
+        })
+        actions.push('renewed')
+        return
+    }
+
+    const commission = {
+        amount: COMMISSION_AMOUNT,
+        period: at.getFullYear().toString(),
+        anniversaryDate: at.toISOString(),
+    }
+
+    if (await hasRecordedCommission(payload, referral.id, commission.period, req)) {
+        actions.push('commission_already_recorded')
+    } else {
+        // Fraud check before any commission accrues. Held referrals get a
+        // "held" payout; totalCommissionPaid waits for the reviewer.
+        const { held } = await assessReferralFraud(payload, referral, req)
+
+        if (held) {
+            const payoutId = await holdReferralCommission(payload, referral, commission, req)
+            actions.push('commission_held')
+            console.log(`[RevenueCat] Held $${COMMISSION_AMOUNT} commission for referral ${referral.id} in payout ${payoutId} pending fraud review`)
+        } else {
+            await atomicCommissionAccrual(payload, {
+                referrerId: referral.referrerId,
+                referrerEmail: referral.referrerEmail || 'pending@collection.com',
+                amount: COMMISSION_AMOUNT,
+                period: commission.period,
+                referralBreakdownEntry: {
+                    referralId: String(referral.id),
+                    referredEmail: referral.referredEmail ?? undefined,
+                    amount: COMMISSION_AMOUNT,
+                    anniversaryDate: commission.anniversaryDate,
+                },
+            }, req)
+            const newTotalPaid = await atomicIncrement(payload, 'referrals', referral.id, 'totalCommissionPaid', COMMISSION_AMOUNT, req)
+            actions.push('commission_accrued')
+            console.log(`[RevenueCat] Accrued $${COMMISSION_AMOUNT} commission for referral ${referral.id} (total: $${newTotalPaid})`)
+        }
+    }
+
+    // Advance the anniversary last: until it moves, a replay retries the accrual
+    await atomicIncrement(payload, 'referrals', referral.id, 'yearsActive', 1, req)
+    await payload.update({
+        collection: 'referrals',
+        id: referral.id,
+        data: {
+            lastRenewalDate: at.toISOString(),
+            nextCommissionDate: nextYear.toISOString(),
+        },
+        overrideAccess: true,
+        req,
+    })
+}
+
+/**
+ * Whether a payout (pending, held, processing or paid) already carries this
+ * referral's commission for the period
+ */
+async function hasRecordedCommission(
+    payload: Payload,
+    referralId: number,
+    period: string,
+    req?: PayloadRequest
+): Promise<boolean> {
+    const { totalDocs } = await payload.count({
+        collection: 'referral-payouts',
+        where: {
+            and: [
+                { 'referralBreakdown.referralId': { equals: String(referralId) } },
+                { period: { equals: period } },
+                { status: { not_equals: 'cancelled' } },
+            ],
+        },
+        overrideAccess: true,
+        req,
+    })
+    return totalDocs > 0
+}
+
+/**
+ * Cancellation / expiration: mark the referral churned. Cancel and refund
+ * timing feed fraud scoring for this referral and the referrer's others.
+ */
+async function churnReferral(
+    payload: Payload,
+    referral: Referral,
+    event: RevenueCatWebhookEvent,
+    actions: string[],
+    req?: PayloadRequest
+): Promise<void> {
+    const eventAt = eventTime(event).toISOString()
+    const refunded = isRefund(event)
+    if (referral.status !== 'active' && !refunded) return
+
+    const churned = await payload.update({
+        collection: 'referrals',
+        id: referral.id,
+        data: {
+            ...(referral.status === 'active' && { status: 'churned' as const }),
+            cancelledAt: referral.cancelledAt || eventAt,
+            ...(refunded && { refundedAt: eventAt }),
+        },
+        overrideAccess: true,
+        req,
+    })
+    actions.push(refunded ? 'refunded' : 'churned')
+    console.log(`[RevenueCat] Churned referral ${referral.id}${refunded ? ' (refunded)' : ''}`)
+
+    // Rescore so held referrals show the new timing in the review queue
+    try {
+        await assessReferralFraud(payload, churned, req)
+    } catch (error) {
+        console.error(`[RevenueCat] Fraud check failed for referral ${referral.id}:`, error)
+    }
+}
+
+/**
+ * Uncancellation: mark the referral active again
+ */
+async function reactivateReferral(
+    payload: Payload,
+    referral: Referral,
+    actions: string[],
+    req?: PayloadRequest
+): Promise<Referral> {
+    if (referral.status !== 'churned') return referral
+
+    const reactivated = await payload.update({
+        collection: 'referrals',
+        id: referral.id,
+        data: { status: 'active', cancelledAt: null },
+        overrideAccess: true,
+        req,
+    })
+    actions.push('reactivated')
+    console.log(`[RevenueCat] Reactivated referral ${referral.id}`)
+    return reactivated
+}
+
+/**
+ * Remove a refunded referral's commission accrued since `since` from unpaid
+ * (pending or held) payouts. Payouts left empty are cancelled; paid and
+ * processing payouts are only reported, since that money has gone out.
+ */
+export async function reverseRefundedCommission(
+    payload: Payload,
+    referral: Pick<Referral, 'id'>,
+    since: Date,
+    req?: PayloadRequest
+): Promise<RefundReversal> {
+    const referralId = String(referral.id)
+    const result: RefundReversal = { reversed: 0, payoutIds: [], clawbackPayoutIds: [] }
+
+    const { docs: payouts } = await payload.find({
+        collection: 'referral-payouts',
+        where: {
+            or: [
+                { 'referralBreakdown.referralId': { equals: referralId } },
+                { heldReferral: { equals: referral.id } },
+            ],
+        },
+        pagination: false,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+
+    for (const payout of payouts) {
+        const breakdown = payout.referralBreakdown || []
+        const refunded = breakdown.filter(entry =>
+            entry.referralId === referralId && (!entry.anniversaryDate || new Date(entry.anniversaryDate) >= since))
+        if (refunded.length === 0) continue
+
+        if (payout.status === 'paid' || payout.status === 'processing') {
+            result.clawbackPayoutIds.push(payout.id)
+            continue
+        }
+        if (payout.status !== 'pending' && payout.status !== 'held') continue
+
+        const amount = refunded.reduce((sum, entry) => sum + (entry.amount || 0), 0)
+        const remaining = breakdown.filter(entry => !refunded.includes(entry))
+        const note = `Refund: removed $${amount} commission for referral ${referralId}`
+        await payload.update({
+            collection: 'referral-payouts',
+            id: payout.id,
+            data: remaining.length === 0
+                ? { status: 'cancelled', notes: payout.notes ? `${payout.notes}\n${note}` : note }
+                : {
+                    amount: Math.round((payout.amount - amount) * 100) / 100,
+                    referralCount: Math.max(0, (payout.referralCount || 0) - refunded.length),
+                    referralBreakdown: remaining,
+                    notes: payout.notes ? `${payout.notes}\n${note}` : note,
+                },
+            overrideAccess: true,
+            req,
+        })
+        result.payoutIds.push(payout.id)
+
+        // Held commission never counted toward totalCommissionPaid
+        if (payout.status === 'pending') result.reversed += amount
+    }
+
+    if (result.reversed > 0) {
+        await atomicIncrement(payload, 'referrals', referral.id, 'totalCommissionPaid', -result.reversed, req)
+    }
+    return result
+}
+
+/**
+ * Apply an event to the subscriber's referral
+ */
+async function applyReferralEvent(
+    payload: Payload,
+    referral: Referral,
+    event: RevenueCatWebhookEvent,
+    stale: boolean,
+    outcome: EventOutcome,
+    req?: PayloadRequest
+): Promise<void> {
+    const actions: string[] = []
+    const at = eventTime(event)
+    const subscriberId = eventSubscriberId(event) || referral.referredDeviceId
+
+    // Refunds always reverse unpaid commission, whatever else has happened since
+    if (isRefund(event)) {
+        const since = new Date((event.purchased_at_ms ?? at.getTime()) - REFUND_WINDOW_MS)
+        outcome.commission = await reverseRefundedCommission(payload, referral, since, req)
+        if (outcome.commission.payoutIds.length > 0) actions.push('commission_reversed')
+        if (outcome.commission.clawbackPayoutIds.length > 0) actions.push('clawback_required')
+    }
+
+    if (!stale) {
+        switch (event.type) {
+            case 'INITIAL_PURCHASE':
+                // Trials activate on conversion (the first RENEWAL)
+                if (event.period_type !== 'TRIAL') {
+                    await activateReferral(payload, referral, subscriberId, at, actions, req)
+                }
+                break
+
+            case 'RENEWAL':
+                if (referral.status === 'pending') {
+                    await activateReferral(payload, referral, subscriberId, at, actions, req)
+                } else if (referral.status === 'active' || referral.status === 'churned') {
+                    const current = await reactivateReferral(payload, referral, actions, req)
+                    await renewReferral(payload, current, at, actions, req)
+                }
+                break
+
+            case 'CANCELLATION':
+            case 'EXPIRATION':
+                await churnReferral(payload, referral, event, actions, req)
+                break
+
+            case 'UNCANCELLATION':
+                await reactivateReferral(payload, referral, actions, req)
+                break
+
+            case 'REFUND_REVERSED':
+                if (referral.refundedAt) {
+                    await payload.update({
+                        collection: 'referrals',
+                        id: referral.id,
+                        data: { refundedAt: null },
+                        overrideAccess: true,
+                        req,
+                    })
+                    actions.push('refund_reversed')
+                }
+                if (subscriptionStatusFor(event) === 'premium') {
+                    await reactivateReferral(payload, referral, actions, req)
+                }
+                break
+
+            // PRODUCT_CHANGE, BILLING_ISSUE, SUBSCRIPTION_PAUSED and
+            // extensions don't change a referral: commission follows renewals
+            // and a pause ends in EXPIRATION
+        }
+    }
+
+    outcome.referral = { id: referral.id, actions }
+}
+
+/**
+ * TRANSFER: the subscription moved between app users. Previous owners lose
+ * it, the recipient gains it, and the referral follows the subscription.
+ */
+async function applyTransfer(
+    payload: Payload,
+    event: RevenueCatWebhookEvent,
+    stale: boolean,
+    outcome: EventOutcome,
+    req?: PayloadRequest
+): Promise<{ userId?: number; referralId?: number }> {
+    const from = event.transferred_from || []
+    const to = event.transferred_to || []
+    const asEvent = (id: string) => ({ app_user_id: id, original_app_user_id: id, aliases: [] })
+
+    const recipient = to.length > 0 ? await findUserForEvent(payload, { ...asEvent(to[0]), aliases: to.slice(1) }, req) : null
+    const previousOwners: User[] = []
+    for (const id of from) {
+        const user = await findUserForEvent(payload, asEvent(id), req)
+        if (user && user.id !== recipient?.id && !previousOwners.some(owner => owner.id === user.id)) {
+            previousOwners.push(user)
+        }
+    }
+
+    if (!stale) {
+        for (const owner of previousOwners) {
+            await applyUserStatus(payload, owner, event, 'cancelled', {}, req)
+        }
+        if (recipient) {
+            await applyUserStatus(payload, recipient, event, 'premium', outcome, req, 'subscription_started')
+        }
+    }
+    outcome.transferredFrom = previousOwners.map(owner => owner.id)
+
+    const referral = await findReferralForEvent(payload, from, previousOwners[0]?.id, req)
+    if (referral && to[0] && referral.revenuecatSubscriberId !== to[0]) {
+        await payload.update({
+            collection: 'referrals',
+            id: referral.id,
+            data: { revenuecatSubscriberId: to[0] },
+            overrideAccess: true,
+            req,
+        })
+        outcome.referral = { id: referral.id, actions: ['transferred'] }
+    }
+
+    return { userId: recipient?.id ?? previousOwners[0]?.id, referralId: referral?.id }
+}
+
+// ============================================
+// PROCESSING
+// ============================================
+
+/**
+ * Apply one event to its user and referral
+ */
+export async function applyRevenueCatEvent(
+    payload: Payload,
+    event: RevenueCatWebhookEvent,
+    options: { ledgerId?: number; req?: PayloadRequest } = {}
+): Promise<ApplyResult> {
+    const { req } = options
+
+    if (INFORMATIONAL_EVENTS.includes(event.type)) {
+        return { status: 'skipped', outcome: { note: `${event.type} events don't change subscriptions` } }
+    }
+    // Skip sandbox events in production
+    if (event.environment === 'SANDBOX' && process.env.NODE_ENV === 'production') {
+        return { status: 'skipped', outcome: { note: 'Sandbox event in production' } }
+    }
+
+    const subscriberIds = appUserIds(event)
+    const outcome: EventOutcome = {}
+
+    if (event.type === 'TRANSFER') {
+        const ids = [...(event.transferred_from || []), ...(event.transferred_to || [])]
+        const stale = await hasNewerEvent(payload, event, ids, undefined, options.ledgerId, req)
+        const { userId, referralId } = await applyTransfer(payload, event, stale, outcome, req)
+        if (stale) outcome.stale = true
+        return { status: userId || referralId ? 'processed' : 'unmatched', outcome, userId, referralId }
+    }
+
+    const user = await findUserForEvent(payload, event, req)
+    const referral = await findReferralForEvent(payload, subscriberIds, user?.id, req)
+    if (!user && !referral) {
+        return { status: 'unmatched', outcome: { note: `No user or referral for ${eventSubscriberId(event)}` } }
+    }
+
+    const stale = await hasNewerEvent(payload, event, subscriberIds, user?.id, options.ledgerId, req)
+    if (stale) outcome.stale = true
+
+    if (user && !stale) {
+        await applyUserStatus(payload, user, event, subscriptionStatusFor(event), outcome, req)
+    }
+    if (referral) {
+        await applyReferralEvent(payload, referral, event, stale, outcome, req)
+    }
+
+    return { status: 'processed', outcome, userId: user?.id, referralId: referral?.id }
+}
+
+/**
+ * Track the event in RudderStack (first delivery only, not replays)
+ */
+function trackEvent(event: RevenueCatWebhookEvent): void {
+    const subscriberId = eventSubscriberId(event) || 'unknown'
+    const base = { subscriber_id: subscriberId, source: 'revenuecat' }
+    const revenue = { product_id: event.product_id, price: event.price, currency: event.currency }
+
+    switch (event.type) {
+        case 'INITIAL_PURCHASE':
+            trackServer('Subscription Started', { ...base, ...revenue }, { anonymousId: subscriberId })
+            break
+        case 'RENEWAL':
+            trackServer('Subscription Renewed', { ...base, ...revenue }, { anonymousId: subscriberId })
+            break
+        case 'CANCELLATION':
+        case 'EXPIRATION':
+            trackServer('Subscription Cancelled', { ...base, event_type: event.type, refunded: isRefund(event) }, { anonymousId: subscriberId })
+            break
+        case 'UNCANCELLATION':
+            trackServer('Subscription Reactivated', base, { anonymousId: subscriberId })
+            break
+        case 'BILLING_ISSUE':
+            trackServer('Payment Failed', base, { anonymousId: subscriberId })
+            break
+        case 'PRODUCT_CHANGE':
+            trackServer('Subscription Product Changed', { ...base, ...revenue, new_product_id: event.new_product_id }, { anonymousId: subscriberId })
+            break
+        case 'SUBSCRIPTION_PAUSED':
+            trackServer('Subscription Paused', base, { anonymousId: subscriberId })
+            break
+    }
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+async function findLedgerEntry(payload: Payload, eventId: string, req?: PayloadRequest): Promise<RevenueCatLedgerEntry | null> {
+    const { docs } = await payload.find({
+        collection: 'revenuecat-events',
+        where: { eventId: { equals: eventId } },
+        limit: 1,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+    return docs[0] || null
+}
+
+/**
+ * Whether a redelivery of this entry should be acknowledged without
+ * processing: it was applied (or skipped), or is still being processed
+ */
+export function isSettled(entry: Pick<RevenueCatLedgerEntry, 'status' | 'updatedAt'>, now: number = Date.now()): boolean {
+    if (entry.status === 'processed' || entry.status === 'skipped') return true
+    return entry.status === 'received' && now - new Date(entry.updatedAt).getTime() < IN_FLIGHT_MS
+}
+
+/**
+ * Run a ledger entry's event and store the result on the entry. Failures
+ * are recorded (not thrown) so they can be replayed.
+ */
+export async function runLedgerEntry(
+    payload: Payload,
+    entry: RevenueCatLedgerEntry,
+    req?: PayloadRequest
+): Promise<LedgerRunResult> {
+    const event = entry.event as unknown as RevenueCatWebhookEvent
+    const attempts = (entry.attempts || 0) + 1
+
+    try {
+        const result = await applyRevenueCatEvent(payload, event, { ledgerId: entry.id, req })
+        const updated = await payload.update({
+            collection: 'revenuecat-events',
+            id: entry.id,
+            data: {
+                status: result.status,
+                attempts,
+                processedAt: new Date().toISOString(),
+                error: null,
+                outcome: result.outcome as unknown as Record<string, unknown>,
+                user: result.userId ?? null,
+                referral: result.referralId ?? null,
+            },
+            overrideAccess: true,
+            req,
+        })
+        return { entry: updated, status: result.status, outcome: result.outcome }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        console.error(`[RevenueCat] Failed to process ${event.type} ${entry.eventId}:`, error)
+        const updated = await payload.update({
+            collection: 'revenuecat-events',
+            id: entry.id,
+            data: { status: 'failed', attempts, error: message },
+            overrideAccess: true,
+            req,
+        })
+        return { entry: updated, status: 'failed', error: message }
+    }
+}
+
+/**
+ * Record a webhook event in the ledger and apply it, unless it was already
+ * applied. Duplicate deliveries return the recorded status.
+ */
+export async function receiveRevenueCatEvent(
+    payload: Payload,
+    event: RevenueCatWebhookEvent,
+    req?: PayloadRequest
+): Promise<LedgerRunResult & { duplicate: boolean }> {
+    const eventId = ledgerKey(event)
+    let entry = await findLedgerEntry(payload, eventId, req)
+
+    if (entry && isSettled(entry)) {
+        console.log(`[RevenueCat] Duplicate ${event.type} ${eventId} (${entry.status})`)
+        return { entry, status: entry.status, duplicate: true }
+    }
+
+    if (!entry) {
+        try {
+            entry = await payload.create({
+                collection: 'revenuecat-events',
+                data: {
+                    eventId,
+                    type: event.type,
+                    appUserId: eventSubscriberId(event),
+                    environment: event.environment,
+                    eventAt: eventTime(event).toISOString(),
+                    status: 'received',
+                    attempts: 0,
+                    event: event as unknown as Record<string, unknown>,
+                },
+                overrideAccess: true,
+                req,
+            })
+        } catch (error) {
+            // Unique eventId: a concurrent delivery recorded it first
+            const existing = await findLedgerEntry(payload, eventId, req)
+            if (!existing) throw error
+            return { entry: existing, status: existing.status, duplicate: true }
+        }
+    }
+
+    const result = await runLedgerEntry(payload, entry, req)
+    if (result.status === 'processed') {
+        trackEvent(event)
+        await flushServer()
+    }
+    return { ...result, duplicate: false }
+}
+
+export interface ReplayFilter {
+    status?: LedgerStatus[]
+    appUserId?: string
+    type?: string
+    since?: string
+    until?: string
+    limit?: number
+}
+
+/**
+ * Re-run ledger events, oldest first so lifecycle order is kept. Defaults to
+ * failed and unmatched events, plus received ones no longer in flight (left
+ * behind by a crash mid-processing).
+ */
+export async function replayRevenueCatEvents(
+    payload: Payload,
+    filter: ReplayFilter = {},
+    req?: PayloadRequest
+): Promise<LedgerRunResult[]> {
+    const statusWhere: Where = filter.status?.length
+        ? { status: { in: filter.status } }
+        : {
+            or: [
+                { status: { in: ['failed', 'unmatched'] } },
+                {
+                    and: [
+                        { status: { equals: 'received' } },
+                        { updatedAt: { less_than: new Date(Date.now() - IN_FLIGHT_MS).toISOString() } },
+                    ],
+                },
+            ],
+        }
+    const where: Where = {
+        and: [
+            statusWhere,
+            ...(filter.appUserId ? [{ appUserId: { equals: filter.appUserId } }] : []),
+            ...(filter.type ? [{ type: { equals: filter.type } }] : []),
+            ...(filter.since ? [{ eventAt: { greater_than_equal: filter.since } }] : []),
+            ...(filter.until ? [{ eventAt: { less_than: filter.until } }] : []),
+        ],
+    }
+    const { docs } = await payload.find({
+        collection: 'revenuecat-events',
+        where,
+        sort: 'eventAt',
+        limit: filter.limit ?? 100,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+
+    const results: LedgerRunResult[] = []
+    for (const entry of docs) {
+        results.push(await runLedgerEntry(payload, entry, req))
+    }
+    return results
+}
@@ -1,4 +1,5 @@
 import type { Payload } from 'payload'
+import { loadIngredientIndex, matchIngredient, splitIngredientText, type RegistryIngredient } from './ingredient-registry'
 
 /**
  * Risk Prediction Utility
@@ -7,7 +8,7 @@ import type { Payload } from 'payload'
  * Uses a rule-based scoring system (can be enhanced with ML later).
  *
  * Risk factors considered:
- * - Ingredient profile (known problem ingredients)
+ * - Ingredient profile (verdicts, risk weights and hazards from the Ingredients registry)
  * - Brand history (recall history, trust score)
  * - Product category (some categories higher risk)
  * - Manufacturing signals (imported vs domestic, etc.)
@@ -47,29 +48,31 @@ const CATEGORY_RISK_WEIGHTS: Record<string, number> = {
     'default': 15,
 }
 
-// Ingredient risk signals
-const INGREDIENT_RISK_SIGNALS: Record<string, number> = {
-    'artificial colors': 25,
-    'red 40': 30,
-    'yellow 5': 28,
-    'yellow 6': 28,
-    'blue 1': 25,
-    'titanium dioxide': 30,
-    'bht': 20,
-    'bha': 20,
-    'propylparaben': 25,
-    'sodium nitrite': 22,
-    'high fructose corn syrup': 15,
-    'aspartame': 18,
-    'sucralose': 15,
-    'carrageenan': 20,
-    'potassium bromate': 35,
-    'azodicarbonamide': 30,
-}
-
 // Heavy metals commonly tested
 const HEAVY_METAL_TESTS = ['lead', 'arsenic', 'cadmium', 'mercury']
 
+// Lab panels suggested by registry hazard classifications and ingredient categories
+const HAZARD_TESTS: Record<string, string[]> = {
+    heavy_metal: HEAVY_METAL_TESTS,
+    endocrine_disruptor: ['endocrine disruptors panel'],
+}
+const INGREDIENT_CATEGORY_TESTS: Record<string, string[]> = {
+    artificial_colors: ['artificial colors panel'],
+    pesticides: ['pesticides'],
+    heavy_metals: HEAVY_METAL_TESTS,
+}
+
+/**
+ * Risk contribution of a single registry ingredient.
+ * Uses the researcher-maintained riskWeight, with verdict-based fallbacks.
+ */
+function getIngredientRiskWeight(ingredient: RegistryIngredient): number {
+    if (ingredient.riskWeight) return ingredient.riskWeight
+    if (ingredient.verdict === 'flagged') return 30
+    if (ingredient.verdict === 'caution') return 15
+    return 0
+}
+
 /**
  * Calculate risk prediction for a product
  */
@@ -90,8 +93,8 @@ export async function predictProductRisk(
         name: string
         brand?: string
         category?: { slug?: string; name?: string } | number
-        ingredientsList?: Array<{ id: number; name: string; verdict?: string }>
-        ingredientsRaw?: string
+        ingredientsList?: Array<number | { id: number }> | null
+        ingredientsRaw?: string | null
         source?: string
         sourceUrl?: string
     }
@@ -127,33 +130,45 @@ export async function predictProductRisk(
     // === FACTOR 2: Ingredient Risk ===
     let ingredientRiskScore = 0
     const flaggedIngredients: string[] = []
+    const seenIngredientIds = new Set<number>()
+
+    const scoreIngredient = (ingredient: RegistryIngredient, weight: number) => {
+        if (seenIngredientIds.has(ingredient.id)) return
+        seenIngredientIds.add(ingredient.id)
+
+        const score = getIngredientRiskWeight(ingredient)
+        if (score === 0) return
+
+        ingredientRiskScore += score * weight
+        flaggedIngredients.push(ingredient.name)
+
+        for (const hazard of ingredient.hazardClassifications || []) {
+            recommendedTests.push(...(HAZARD_TESTS[hazard.hazard] || []))
+        }
+        if (ingredient.category) {
+            recommendedTests.push(...(INGREDIENT_CATEGORY_TESTS[ingredient.category] || []))
+        }
+    }
+
+    const index = await loadIngredientIndex(payload)
 
     // Check linked ingredients
     if (product.ingredientsList && Array.isArray(product.ingredientsList)) {
         for (const ing of product.ingredientsList) {
-            if (ing.verdict === 'avoid') {
-                ingredientRiskScore += 30
-                flaggedIngredients.push(ing.name)
-            } else if (ing.verdict === 'caution') {
-                ingredientRiskScore += 15
-            }
+            const ingredient = index.byId.get(typeof ing === 'object' ? ing.id : ing)
+            if (ingredient) scoreIngredient(ingredient, 1)
         }
     }
 
-    // Check raw ingredients text for signals
+    // Check raw ingredients text for registry matches not yet linked
     if (product.ingredientsRaw) {
-        const rawLower = product.ingredientsRaw.toLowerCase()
-        for (const [ingredient, risk] of Object.entries(INGREDIENT_RISK_SIGNALS)) {
-            if (rawLower.includes(ingredient.toLowerCase())) {
-                ingredientRiskScore += risk * 0.5 // Half weight since not verified
-                if (!flaggedIngredients.includes(ingredient)) {
-                    flaggedIngredients.push(ingredient)
-                }
-            }
+        for (const name of splitIngredientText(product.ingredientsRaw)) {
+            const match = matchIngredient(index, name, { enableFuzzy: false })
+            if (match) scoreIngredient(match.ingredient, 0.5) // Half weight since not verified
         }
     }
 
-    ingredientRiskScore = Math.min(ingredientRiskScore, 100)
+    ingredientRiskScore = Math.min(Math.round(ingredientRiskScore), 100)
 
     factors.push({
         name: 'Ingredient Profile',
@@ -164,16 +179,12 @@ export async function predictProductRisk(
             : 'No known problem ingredients detected',
     })
 
-    if (flaggedIngredients.some(i => i.toLowerCase().includes('color') || i.toLowerCase().includes('dye'))) {
-        recommendedTests.push('artificial colors panel')
-    }
-
     // === FACTOR 3: Brand Trust ===
     let brandRiskScore = 50 // Default neutral
     let brandDetails = 'Brand not in database'
 
     if (product.brand) {
-        const brand = await (payload.find as Function)({
+        const brand = await payload.find({
             collection: 'brands',
             where: { name: { equals: product.brand } },
             limit: 1,
@@ -209,7 +220,7 @@ export async function predictProductRisk(
     let communityRiskScore = 0
     let communityDetails = 'No community reports'
 
-    const reactionReports = await (payload.find as Function)({
+    const reactionReports = await payload.find({
         collection: 'user-submissions',
         where: {
             product: { equals: productId },
@@ -0,0 +1,116 @@
+import type { Payload, Where } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import type { ExpoPushMessage } from '../lib/push'
+import type { Product } from '../payload-types'
+
+/**
+ * Saved Product Alerts
+ *
+ * Notifies everyone following a product when something important changes
+ * (reformulation, recall):
+ * - push to the active tokens of devices linked to users who saved the
+ *   product (users.savedProductIds), plus devices subscribed to its barcode
+ * - email through the active 'saved_product_updated' trigger template
+ */
+
+export interface SavedProductAlert {
+    /** Build the push message for one token */
+    push: (token: string) => ExpoPushMessage
+    /** Template variables; first_name, product_name and product_id are added */
+    emailVariables: Record<string, string>
+}
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Record<string, unknown>[] }>
+
+interface DrizzleAdapter {
+    drizzle: { execute: Execute }
+}
+
+function getExecute(payload: Payload): Execute {
+    const adapter = payload.db as unknown as DrizzleAdapter
+    return adapter.drizzle.execute.bind(adapter.drizzle)
+}
+
+/**
+ * Push and email everyone who saved the product.
+ * Returns the number of accepted push tickets and sent emails.
+ */
+export async function notifyProductSavers(
+    payload: Payload,
+    product: Pick<Product, 'id' | 'name' | 'upc'>,
+    alert: SavedProductAlert
+): Promise<{ push: number; email: number }> {
+    const execute = getExecute(payload)
+    const { rows } = await execute(sql`
+        SELECT u."id", u."email", u."name" FROM "users" u
+        WHERE u."saved_product_ids" @> jsonb_build_array(${product.id}::int)
+            OR u."saved_product_ids" @> jsonb_build_array(${String(product.id)}::text)
+    `)
+    const savers = rows as Array<{ id: number; email: string | null; name: string | null }>
+
+    let push = 0
+    const tokenFilters: Where[] = []
+    if (savers.length > 0) {
+        const { docs: devices } = await payload.find({
+            collection: 'device-fingerprints',
+            where: { user: { in: savers.map(u => u.id) } },
+            pagination: false,
+            depth: 0,
+            overrideAccess: true,
+        })
+        const hashes = devices.map(d => d.fingerprintHash).filter(Boolean)
+        if (hashes.length > 0) tokenFilters.push({ fingerprintHash: { in: hashes } })
+    }
+    if (product.upc) tokenFilters.push({ 'productSubscriptions.barcode': { equals: product.upc } })
+
+    if (tokenFilters.length > 0) {
+        const { docs: tokens } = await payload.find({
+            collection: 'push-tokens',
+            where: { and: [{ isActive: { equals: true } }, { or: tokenFilters }] },
+            pagination: false,
+            depth: 0,
+            overrideAccess: true,
+        })
+        if (tokens.length > 0) {
+            const { sendPushNotificationBatch } = await import('../lib/push')
+            const tickets = await sendPushNotificationBatch([...new Set(tokens.map(t => t.token))].map(alert.push))
+            push = tickets.filter(t => t.status === 'ok').length
+        }
+    }
+
+    let email = 0
+    const recipients = savers
+        .filter(u => u.email)
+        .map(u => ({
+            email: u.email as string,
+            variables: {
+                first_name: u.name?.split(' ')[0] || 'there',
+                product_name: product.name,
+                product_id: String(product.id),
+                ...alert.emailVariables,
+            },
+        }))
+    if (recipients.length > 0) {
+        const { docs: templates } = await payload.find({
+            collection: 'email-templates',
+            where: {
+                and: [
+                    { sequence: { equals: 'fomo_trigger' } },
+                    { triggerEvent: { equals: 'saved_product_updated' } },
+                    { status: { in: ['active', 'ab_testing'] } },
+                ],
+            },
+            limit: 1,
+            depth: 0,
+            overrideAccess: true,
+        })
+        if (templates[0]) {
+            const { sendBulkEmail } = await import('../lib/email-sender')
+            email = (await sendBulkEmail(payload, String(templates[0].id), recipients)).sent
+        } else {
+            console.log('[SavedProductAlerts] No active saved_product_updated template, skipping email')
+        }
+    }
+
+    return { push, email }
+}
@@ -0,0 +1,687 @@
+import type { Payload, PayloadRequest } from 'payload'
+import { sql } from '@payloadcms/db-vercel-postgres'
+import { inlineJob, type JobContext } from './job-queue'
+
+/**
+ * Segment Membership Engine
+ *
+ * Derives each device's segment metrics on the server and keeps the
+ * matching memberships in segment-memberships, so campaigns and emails can
+ * target a segment without evaluating rules per recipient:
+ * - metrics come from device-fingerprints (behaviorMetrics, first/last
+ *   seen, referrals), the linked user's subscription, push-tokens
+ *   (platform), product-unlocks and product-votes
+ * - afterChange hooks on those collections recompute the affected devices
+ *   (refreshSegmentsFor*); a segment's rule change queues a
+ *   'segment-refresh' job; a daily full refresh catches time-based drift
+ *   (days since install / last active)
+ * - every entry and exit is written to segment-events, which feed the
+ *   RevenueCat attribute sync and GET /api/segments/events
+ * - user-segments.estimatedSize is the true member count
+ *
+ * Streak days, badge count and app version are only known to the app; rules
+ * on them never match here (they still work in POST /api/segments/evaluate
+ * when the app sends them).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SegmentRule {
+    field: string
+    operator: 'gt' | 'lt' | 'eq' | 'gte' | 'lte' | 'neq' | 'contains'
+    value: string
+}
+
+export interface UserSegment {
+    id: number
+    name?: string
+    slug: string
+    rules: SegmentRule[]
+    ruleLogic: 'all' | 'any'
+    isActive: boolean
+    priority?: number | null
+    estimatedSize?: number | null
+    syncToStatsig?: boolean | null
+    statsigPropertyName?: string | null
+    syncToRevenueCat?: boolean | null
+    revenueCatAttribute?: string | null
+}
+
+export interface UserMetrics {
+    scan_count?: number
+    days_since_install?: number
+    subscription_status?: string
+    last_active_days?: number
+    streak_days?: number
+    badge_count?: number
+    referral_count?: number
+    platform?: string
+    app_version?: string
+    products_viewed?: number
+    votes_cast?: number
+}
+
+/** One device-fingerprints row with the aggregates metrics are derived from */
+export interface FingerprintMetricsRow {
+    id: number
+    fingerprint_hash: string
+    user_id: number | null
+    first_seen_at: string | null
+    last_seen_at: string | null
+    os: string | null
+    total_referrals: number | string | null
+    total_scans: number | string | null
+    vote_count: number | string | null
+    subscription_status: string | null
+    push_platform: string | null
+    unlocked_products: number | string | null
+    voted_products: number | string | null
+}
+
+export interface MembershipChange {
+    segmentId: number
+    fingerprintId: number
+}
+
+export interface RefreshResult {
+    fingerprints: number
+    entered: number
+    exited: number
+    segments: number
+}
+
+export interface SegmentSyncResult {
+    events: number
+    subscribers: number
+    failed: number
+    skipped?: string
+}
+
+type Execute = (query: ReturnType<typeof sql>) => Promise<{ rows: Array<Record<string, unknown>> }>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const FINGERPRINT_BATCH_SIZE = 500
+const SYNC_BATCH_SIZE = 500
+const REVENUECAT_API_BASE = 'https://api.revenuecat.com/v1'
+
+interface DrizzleAdapter {
+    drizzle: { execute: Execute }
+    sessions?: Record<string | number, { db: { execute: Execute } } | undefined>
+}
+
+/**
+ * Raw SQL runner. Hooks pass their req so queries join its transaction and
+ * see the write that triggered them.
+ */
+async function getExecute(payload: Payload, req?: PayloadRequest): Promise<Execute> {
+    const adapter = payload.db as unknown as DrizzleAdapter
+    const transactionID = req?.transactionID ? await req.transactionID : undefined
+    const db = (transactionID !== undefined && adapter.sessions?.[transactionID]?.db) || adapter.drizzle
+    return db.execute.bind(db)
+}
+
+/**
+ * Run `fn` so that a failure inside req's transaction rolls back only its
+ * own statements instead of aborting the caller's write
+ */
+export async function withSavepoint<T>(payload: Payload, req: PayloadRequest | undefined, fn: () => Promise<T>): Promise<T> {
+    const transactionID = req?.transactionID ? await req.transactionID : undefined
+    if (transactionID === undefined) return fn()
+
+    const execute = await getExecute(payload, req)
+    await execute(sql`SAVEPOINT segment_refresh`)
+    try {
+        const result = await fn()
+        await execute(sql`RELEASE SAVEPOINT segment_refresh`)
+        return result
+    } catch (error) {
+        await execute(sql`ROLLBACK TO SAVEPOINT segment_refresh`)
+        throw error
+    }
+}
+
+function idList(ids: Array<number | string>) {
+    return sql.join(ids.map(id => sql`${id}`), sql`, `)
+}
+
+const toNumber = (value: unknown) => (value === null || value === undefined ? 0 : Number(value) || 0)
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Evaluate if user metrics match a segment's rules
+ */
+export function evaluateSegmentRules(rules: SegmentRule[], metrics: UserMetrics, logic: 'all' | 'any'): boolean {
+    if (!rules || rules.length === 0) return false
+
+    const evaluateRule = (rule: SegmentRule): boolean => {
+        const fieldValue = metrics[rule.field as keyof UserMetrics]
+        if (fieldValue === undefined || fieldValue === null) return false
+
+        const numericField = typeof fieldValue === 'number' ? fieldValue : parseFloat(String(fieldValue))
+        const numericRule = parseFloat(rule.value)
+
+        switch (rule.operator) {
+            case 'gt': return !isNaN(numericField) && !isNaN(numericRule) && numericField > numericRule
+            case 'lt': return !isNaN(numericField) && !isNaN(numericRule) && numericField < numericRule
+            case 'gte': return !isNaN(numericField) && !isNaN(numericRule) && numericField >= numericRule
+            case 'lte': return !isNaN(numericField) && !isNaN(numericRule) && numericField <= numericRule
+            case 'eq':
+                if (!isNaN(numericField) && !isNaN(numericRule)) return numericField === numericRule
+                return String(fieldValue).toLowerCase() === rule.value.toLowerCase()
+            case 'neq':
+                if (!isNaN(numericField) && !isNaN(numericRule)) return numericField !== numericRule
+                return String(fieldValue).toLowerCase() !== rule.value.toLowerCase()
+            case 'contains':
+                return String(fieldValue).toLowerCase().includes(rule.value.toLowerCase())
+            default:
+                return false
+        }
+    }
+
+    if (logic === 'any') {
+        return rules.some(evaluateRule)
+    }
+    return rules.every(evaluateRule)
+}
+
+/**
+ * Segment metrics for one device. Users' "premium" is the segments'
+ * "active"; devices without an account are "free".
+ */
+export function deriveUserMetrics(row: FingerprintMetricsRow, now: Date = new Date()): UserMetrics {
+    const daysSince = (value: string | null) =>
+        value ? Math.max(0, Math.floor((now.getTime() - new Date(value).getTime()) / DAY_MS)) : undefined
+
+    const subscription = row.subscription_status || 'free'
+    const os = (row.os || '').toLowerCase()
+    const platform = row.push_platform
+        || (/ios|iphone|ipad/.test(os) ? 'ios' : os.includes('android') ? 'android' : undefined)
+
+    return {
+        scan_count: toNumber(row.total_scans),
+        days_since_install: daysSince(row.first_seen_at),
+        subscription_status: subscription === 'premium' ? 'active' : subscription,
+        last_active_days: daysSince(row.last_seen_at || row.first_seen_at),
+        referral_count: toNumber(row.total_referrals),
+        platform,
+        products_viewed: toNumber(row.unlocked_products),
+        // behaviorMetrics.voteCount is reported by the app; product-votes
+        // only knows votes cast with a fingerprint
+        votes_cast: Math.max(toNumber(row.vote_count), toNumber(row.voted_products)),
+    }
+}
+
+/**
+ * Segments a device belongs to. Inactive segments have no members.
+ */
+export function matchSegments(segments: UserSegment[], metrics: UserMetrics): number[] {
+    return segments
+        .filter(segment => segment.isActive && evaluateSegmentRules(segment.rules, metrics, segment.ruleLogic))
+        .map(segment => segment.id)
+}
+
+/**
+ * Memberships to add and remove so `current` becomes `desired`
+ */
+export function diffMemberships(
+    current: MembershipChange[],
+    desired: MembershipChange[]
+): { entered: MembershipChange[]; exited: MembershipChange[] } {
+    const key = (m: MembershipChange) => `${m.segmentId}:${m.fingerprintId}`
+    const currentKeys = new Set(current.map(key))
+    const desiredKeys = new Set(desired.map(key))
+    return {
+        entered: desired.filter(m => !currentKeys.has(key(m))),
+        exited: current.filter(m => !desiredKeys.has(key(m))),
+    }
+}
+
+// ============================================
+// METRICS
+// ============================================
+
+/**
+ * Metric rows for the given devices
+ */
+export async function loadFingerprintMetrics(
+    payload: Payload,
+    fingerprintIds: number[],
+    req?: PayloadRequest
+): Promise<FingerprintMetricsRow[]> {
+    if (fingerprintIds.length === 0) return []
+    const execute = await getExecute(payload, req)
+
+    const result = await execute(sql`
+        SELECT
+            f."id",
+            f."fingerprint_hash",
+            f."user_id",
+            f."first_seen_at",
+            f."last_seen_at",
+            f."os",
+            f."total_referrals",
+            f."behavior_metrics_total_scans" AS "total_scans",
+            f."behavior_metrics_vote_count" AS "vote_count",
+            u."subscription_status",
+            (
+                SELECT t."platform"::text FROM "push_tokens" t
+                WHERE t."fingerprint_hash" = f."fingerprint_hash"
+                ORDER BY t."is_active" DESC, t."updated_at" DESC
+                LIMIT 1
+            ) AS "push_platform",
+            (
+                SELECT count(DISTINCT pu."product_id")::int FROM "product_unlocks" pu
+                WHERE pu."device_fingerprint_id" = f."id"
+                    OR (f."user_id" IS NOT NULL AND pu."user_id" = f."user_id")
+            ) AS "unlocked_products",
+            (
+                SELECT count(*)::int FROM "product_votes" pv
+                WHERE pv."voter_fingerprints" @> jsonb_build_array(f."fingerprint_hash")
+            ) AS "voted_products"
+        FROM "device_fingerprints" f
+        LEFT JOIN "users" u ON u."id" = f."user_id"
+        WHERE f."id" IN (${idList(fingerprintIds)})
+    `)
+
+    return result.rows as unknown as FingerprintMetricsRow[]
+}
+
+/**
+ * Server-side metrics for one device, or null if the fingerprint is unknown
+ */
+export async function getMetricsForFingerprint(payload: Payload, fingerprintHash: string): Promise<UserMetrics | null> {
+    const ids = await fingerprintIdsByHash(payload, [fingerprintHash])
+    if (ids.length === 0) return null
+    const [row] = await loadFingerprintMetrics(payload, ids.slice(0, 1))
+    return row ? deriveUserMetrics(row) : null
+}
+
+// ============================================
+// MEMBERSHIP
+// ============================================
+
+async function loadSegments(payload: Payload, segmentIds?: number[], req?: PayloadRequest): Promise<UserSegment[]> {
+    const { docs } = await payload.find({
+        collection: 'user-segments',
+        where: segmentIds ? { id: { in: segmentIds } } : {},
+        limit: 500,
+        depth: 0,
+        overrideAccess: true,
+        req,
+    })
+    return docs as unknown as UserSegment[]
+}
+
+async function writeChanges(
+    execute: Execute,
+    rows: FingerprintMetricsRow[],
+    entered: MembershipChange[],
+    exited: MembershipChange[],
+    now: Date
+): Promise<{ entered: number; exited: number }> {
+    const byId = new Map(rows.map(row => [Number(row.id), row]))
+    let enteredCount = 0
+    let exitedCount = 0
+
+    // RETURNING only reports rows this call changed, so two overlapping
+    // refreshes of the same device don't both emit an event
+    if (entered.length > 0) {
+        const inserted = await execute(sql`
+            INSERT INTO "segment_memberships" ("segment_id", "fingerprint_id", "fingerprint_hash", "user_id", "entered_at")
+            VALUES ${sql.join(entered.map(({ segmentId, fingerprintId }) => {
+                const row = byId.get(fingerprintId)
+                return sql`(${segmentId}, ${fingerprintId}, ${row?.fingerprint_hash ?? null}, ${row?.user_id ?? null}, ${now.toISOString()})`
+            }), sql`, `)}
+            ON CONFLICT ("segment_id", "fingerprint_id") DO NOTHING
+            RETURNING "segment_id", "fingerprint_id", "fingerprint_hash", "user_id"
+        `)
+        enteredCount = inserted.rows.length
+        await writeEvents(execute, inserted.rows, 'entered')
+    }
+
+    if (exited.length > 0) {
+        const deleted = await execute(sql`
+            DELETE FROM "segment_memberships"
+            WHERE ("segment_id", "fingerprint_id") IN (${sql.join(
+                exited.map(({ segmentId, fingerprintId }) => sql`(${segmentId}, ${fingerprintId})`),
+                sql`, `
+            )})
+            RETURNING "segment_id", "fingerprint_id", "fingerprint_hash", "user_id"
+        `)
+        exitedCount = deleted.rows.length
+        await writeEvents(execute, deleted.rows, 'exited')
+    }
+
+    return { entered: enteredCount, exited: exitedCount }
+}
+
+async function writeEvents(execute: Execute, rows: Array<Record<string, unknown>>, change: 'entered' | 'exited'): Promise<void> {
+    if (rows.length === 0) return
+    await execute(sql`
+        INSERT INTO "segment_events" ("segment_id", "fingerprint_id", "fingerprint_hash", "user_id", "change")
+        VALUES ${sql.join(rows.map(row =>
+            sql`(${row.segment_id}, ${row.fingerprint_id}, ${row.fingerprint_hash}, ${row.user_id}, ${change})`
+        ), sql`, `)}
+    `)
+}
+
+async function refreshBatch(
+    payload: Payload,
+    segments: UserSegment[],
+    fingerprintIds: number[],
+    now: Date,
+    req?: PayloadRequest
+): Promise<{ entered: number; exited: number }> {
+    if (fingerprintIds.length === 0 || segments.length === 0) return { entered: 0, exited: 0 }
+    const execute = await getExecute(payload, req)
+
+    const rows = await loadFingerprintMetrics(payload, fingerprintIds, req)
+    const desired: MembershipChange[] = []
+    for (const row of rows) {
+        for (const segmentId of matchSegments(segments, deriveUserMetrics(row, now))) {
+            desired.push({ segmentId, fingerprintId: Number(row.id) })
+        }
+    }
+
+    const existing = await execute(sql`
+        SELECT "segment_id", "fingerprint_id" FROM "segment_memberships"
+        WHERE "fingerprint_id" IN (${idList(fingerprintIds)})
+            AND "segment_id" IN (${idList(segments.map(s => s.id))})
+    `)
+    const current = existing.rows.map(row => ({
+        segmentId: Number(row.segment_id),
+        fingerprintId: Number(row.fingerprint_id),
+    }))
+
+    const { entered, exited } = diffMemberships(current, desired)
+    return writeChanges(execute, rows, entered, exited, now)
+}
+
+/**
+ * Recount members into user-segments.estimatedSize
+ */
+export async function updateSegmentSizes(payload: Payload, segmentIds: number[], req?: PayloadRequest): Promise<void> {
+    if (segmentIds.length === 0) return
+    const execute = await getExecute(payload, req)
+
+    // Raw update: a size change isn't an edit worth an audit entry or a refresh
+    await execute(sql`
+        UPDATE "user_segments" s
+        SET "estimated_size" = (
+            SELECT count(*) FROM "segment_memberships" m WHERE m."segment_id" = s."id"
+        )
+        WHERE s."id" IN (${idList(segmentIds)})
+    `)
+}
+
+/**
+ * Recompute memberships.
+ *
+ * With `fingerprintIds` only those devices are re-evaluated (incremental);
+ * with `segmentIds` only those segments. Without either, every device
+ * against every segment.
+ */
+export async function refreshSegmentMemberships(
+    payload: Payload,
+    scope: { fingerprintIds?: number[]; segmentIds?: number[]; req?: PayloadRequest } = {},
+    job: JobContext = inlineJob,
+    now: Date = new Date()
+): Promise<RefreshResult> {
+    const { req } = scope
+    const result: RefreshResult = { fingerprints: 0, entered: 0, exited: 0, segments: 0 }
+    const segments = await loadSegments(payload, scope.segmentIds, req)
+    if (segments.length === 0) return result
+    result.segments = segments.length
+
+    const add = (counts: { entered: number; exited: number }) => {
+        result.entered += counts.entered
+        result.exited += counts.exited
+    }
+
+    if (scope.fingerprintIds) {
+        const ids = [...new Set(scope.fingerprintIds)]
+        for (let i = 0; i < ids.length; i += FINGERPRINT_BATCH_SIZE) {
+            add(await refreshBatch(payload, segments, ids.slice(i, i + FINGERPRINT_BATCH_SIZE), now, req))
+        }
+        result.fingerprints = ids.length
+    } else {
+        const execute = await getExecute(payload, req)
+        const total = toNumber((await execute(sql`SELECT count(*)::int AS "count" FROM "device_fingerprints"`)).rows[0]?.count)
+        let lastId = 0
+
+        while (true) {
+            const page = await execute(sql`
+                SELECT "id" FROM "device_fingerprints"
+                WHERE "id" > ${lastId}
+                ORDER BY "id"
+                LIMIT ${FINGERPRINT_BATCH_SIZE}
+            `)
+            const ids = page.rows.map(row => Number(row.id))
+            if (ids.length === 0) break
+
+            add(await refreshBatch(payload, segments, ids, now, req))
+            result.fingerprints += ids.length
+            lastId = ids[ids.length - 1]
+
+            await job.progress(result.fingerprints, total, `Evaluated ${result.fingerprints} of ${total} devices`)
+            if (job.isCancelled()) break
+        }
+    }
+
+    if (result.entered > 0 || result.exited > 0 || !scope.fingerprintIds) {
+        await updateSegmentSizes(payload, segments.map(s => s.id), req)
+    }
+    return result
+}
+
+async function fingerprintIdsByHash(payload: Payload, hashes: string[], req?: PayloadRequest): Promise<number[]> {
+    if (hashes.length === 0) return []
+    const execute = await getExecute(payload, req)
+    const result = await execute(sql`
+        SELECT "id" FROM "device_fingerprints"
+        WHERE "fingerprint_hash" IN (${sql.join(hashes.map(hash => sql`${hash}`), sql`, `)})
+    `)
+    return result.rows.map(row => Number(row.id))
+}
+
+/**
+ * Incremental refresh for devices identified by fingerprint hash
+ */
+export async function refreshSegmentsForHashes(
+    payload: Payload,
+    hashes: string[],
+    req?: PayloadRequest
+): Promise<RefreshResult | null> {
+    const ids = await fingerprintIdsByHash(payload, hashes, req)
+    return ids.length > 0 ? refreshSegmentMemberships(payload, { fingerprintIds: ids, req }) : null
+}
+
+/**
+ * Incremental refresh for every device linked to a user
+ */
+export async function refreshSegmentsForUser(
+    payload: Payload,
+    userId: number,
+    req?: PayloadRequest
+): Promise<RefreshResult | null> {
+    const execute = await getExecute(payload, req)
+    const result = await execute(sql`SELECT "id" FROM "device_fingerprints" WHERE "user_id" = ${userId}`)
+    const ids = result.rows.map(row => Number(row.id))
+    return ids.length > 0 ? refreshSegmentMemberships(payload, { fingerprintIds: ids, req }) : null
+}
+
+/**
+ * 'segment-refresh' job: a full refresh, or the segments in params.segmentIds
+ */
+export async function runSegmentRefresh(
+    payload: Payload,
+    params: { segmentIds?: unknown[] },
+    job: JobContext = inlineJob
+): Promise<RefreshResult & { sync: SegmentSyncResult }> {
+    const segmentIds = params.segmentIds?.map(Number).filter(id => Number.isFinite(id))
+    const result = await refreshSegmentMemberships(
+        payload,
+        segmentIds?.length ? { segmentIds } : {},
+        job
+    )
+    return { ...result, sync: await syncSegmentEvents(payload) }
+}
+
+// ============================================
+// QUERIES (campaigns, emails)
+// ============================================
+
+/**
+ * Fingerprint hashes in the given segments: in any of them, or in all of
+ * them with `logic: 'all'`
+ */
+export async function getSegmentFingerprintHashes(
+    payload: Payload,
+    segmentIds: number[],
+    logic: 'any' | 'all' = 'any'
+): Promise<Set<string>> {
+    if (segmentIds.length === 0) return new Set()
+    const execute = await getExecute(payload)
+    const ids = [...new Set(segmentIds)]
+
+    const result = await execute(sql`
+        SELECT "fingerprint_hash" FROM "segment_memberships"
+        WHERE "segment_id" IN (${idList(ids)})
+        GROUP BY "fingerprint_hash"
+        HAVING count(DISTINCT "segment_id") >= ${logic === 'all' ? ids.length : 1}
+    `)
+    return new Set(result.rows.map(row => String(row.fingerprint_hash)))
+}
+
+/**
+ * Lower-cased emails of users with a device in any of the given segments
+ */
+export async function getSegmentMemberEmails(payload: Payload, segmentIds: number[]): Promise<Set<string>> {
+    if (segmentIds.length === 0) return new Set()
+    const execute = await getExecute(payload)
+
+    const result = await execute(sql`
+        SELECT DISTINCT lower(u."email") AS "email"
+        FROM "segment_memberships" m
+        JOIN "users" u ON u."id" = m."user_id"
+        WHERE m."segment_id" IN (${idList(segmentIds)})
+    `)
+    return new Set(result.rows.map(row => String(row.email)))
+}
+
+/**
+ * Segments a device currently belongs to, highest priority first
+ */
+export async function getFingerprintSegments(payload: Payload, fingerprintHash: string): Promise<UserSegment[]> {
+    const execute = await getExecute(payload)
+    const result = await execute(sql`
+        SELECT DISTINCT "segment_id" FROM "segment_memberships" WHERE "fingerprint_hash" = ${fingerprintHash}
+    `)
+    const ids = result.rows.map(row => Number(row.segment_id))
+    if (ids.length === 0) return []
+
+    const { docs } = await payload.find({
+        collection: 'user-segments',
+        where: { and: [{ id: { in: ids } }, { isActive: { equals: true } }] },
+        sort: '-priority',
+        limit: ids.length,
+        depth: 0,
+        overrideAccess: true,
+    })
+    return docs as unknown as UserSegment[]
+}
+
+// ============================================
+// EXTERNAL SYNC
+// ============================================
+
+/**
+ * Push membership changes to RevenueCat subscriber attributes.
+ *
+ * Events for segments with syncToRevenueCat and a user with a RevenueCat id
+ * set (entered) or clear (exited) the segment's attribute; the rest are
+ * marked synced with nothing to send. Statsig properties are set by the app
+ * from GET /api/segments/membership.
+ */
+export async function syncSegmentEvents(payload: Payload, now: Date = new Date()): Promise<SegmentSyncResult> {
+    const result: SegmentSyncResult = { events: 0, subscribers: 0, failed: 0 }
+    const apiKey = process.env.REVENUECAT_API_KEY
+    if (!apiKey) {
+        result.skipped = 'REVENUECAT_API_KEY not configured'
+        return result
+    }
+    const execute = await getExecute(payload)
+
+    const pending = await execute(sql`
+        SELECT e."id", e."segment_id", e."change", s."revenue_cat_attribute", u."revenuecat_user_id"
+        FROM "segment_events" e
+        JOIN "user_segments" s ON s."id" = e."segment_id"
+        LEFT JOIN "users" u ON u."id" = e."user_id"
+        WHERE e."synced_at" IS NULL
+        ORDER BY e."id"
+        LIMIT ${SYNC_BATCH_SIZE}
+    `)
+    if (pending.rows.length === 0) return result
+
+    // Latest change per subscriber and attribute wins
+    const attributesBySubscriber = new Map<string, Record<string, { value: string; updated_at_ms: number }>>()
+    const eventsBySubscriber = new Map<string, number[]>()
+    const segmentsBySubscriber = new Map<string, Set<number>>()
+    const nothingToSend: number[] = []
+
+    for (const row of pending.rows) {
+        const subscriber = row.revenuecat_user_id as string | null
+        const attribute = row.revenue_cat_attribute as string | null
+        if (!subscriber || !attribute) {
+            nothingToSend.push(Number(row.id))
+            continue
+        }
+        const attributes = attributesBySubscriber.get(subscriber) || {}
+        attributes[attribute] = { value: row.change === 'entered' ? 'true' : '', updated_at_ms: now.getTime() }
+        attributesBySubscriber.set(subscriber, attributes)
+        eventsBySubscriber.set(subscriber, [...(eventsBySubscriber.get(subscriber) || []), Number(row.id)])
+        segmentsBySubscriber.set(subscriber, (segmentsBySubscriber.get(subscriber) || new Set()).add(Number(row.segment_id)))
+    }
+
+    const synced = [...nothingToSend]
+    const syncedSegments = new Set<number>()
+    for (const [subscriber, attributes] of attributesBySubscriber) {
+        try {
+            const response = await fetch(`${REVENUECAT_API_BASE}/subscribers/${encodeURIComponent(subscriber)}/attributes`, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiKey}`,
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({ attributes }),
+            })
+            if (!response.ok) throw new Error(`RevenueCat API error: ${response.status}`)
+            synced.push(...(eventsBySubscriber.get(subscriber) || []))
+            segmentsBySubscriber.get(subscriber)?.forEach(id => syncedSegments.add(id))
+            result.subscribers++
+        } catch (error) {
+            console.error(`[Segments] RevenueCat sync failed for ${subscriber}:`, error)
+            result.failed++
+        }
+    }
+
+    if (synced.length > 0) {
+        await execute(sql`
+            UPDATE "segment_events" SET "synced_at" = ${now.toISOString()}
+            WHERE "id" IN (${idList(synced)})
+        `)
+    }
+    if (syncedSegments.size > 0) {
+        await execute(sql`
+            UPDATE "user_segments" SET "last_synced_at" = ${now.toISOString()}
+            WHERE "id" IN (${idList([...syncedSegments])})
+        `)
+    }
+    result.events = synced.length
+    return result
+}
@@ -1,15 +1,28 @@
-// @ts-nocheck - File needs refactoring after Ingredients collection removal
 import type { Payload } from 'payload'
-import { levenshteinDistance } from './fuzzy-match'
 import { getThresholds } from './get-thresholds'
 import { createAuditLog } from '../collections/AuditLog'
+import { atomicIncrement } from './atomic-operations'
+import {
+    loadIngredientIndex,
+    matchIngredient,
+    splitIngredientText,
+    worstIngredientVerdict,
+    type IngredientMatchType,
+} from './ingredient-registry'
+import {
+    evaluateConditionTree,
+    treeUsesBrand,
+    type ClauseResult,
+    type ConditionContext,
+    type ConditionNode,
+} from './verdict-conditions'
 
 /**
  * Smart Automation Utilities
  *
  * Core functions for:
- * - Auto-parsing ingredients from raw text
- * - Evaluating VerdictRules
+ * - Auto-parsing ingredients from raw text and linking them to the registry
+ * - Evaluating VerdictRules (single conditions and AND/OR/NOT condition trees)
  * - Detecting conflicts
  * - Creating/linking categories hierarchically
  * - Fuzzy ingredient matching with Levenshtein distance
@@ -22,28 +35,27 @@ import { createAuditLog } from '../collections/AuditLog'
 interface ParsedIngredient {
     name: string
     matched: boolean
-    matchType?: 'exact' | 'alias' | 'partial' | 'fuzzy'
-    matchedName?: string // The ingredient name we matched to
+    matchType?: IngredientMatchType
+    matchedName?: string // The registry ingredient we matched to
     ingredientId?: number
     verdict?: string
-    aliases?: string[]
     fuzzyDistance?: number // Levenshtein distance if fuzzy matched
 }
 
 interface ParseResult {
     linkedIds: number[]
     unmatched: string[]
-    autoVerdict: 'recommend' | 'caution' | 'avoid' | null
+    autoVerdict: 'recommend' | 'caution' | 'flagged' | null
     parsedIngredients: ParsedIngredient[]
 }
 
 /**
- * Parse raw ingredients text and match to existing ingredients
- * NOTE: Ingredient matching disabled - Ingredients collection archived
+ * Parse raw ingredients text and match each name against the Ingredients registry
+ * (canonical name, synonyms, CAS number, E-number, then partial and fuzzy matching).
  */
 export async function parseAndLinkIngredients(
     rawText: string,
-    _payload: Payload
+    payload: Payload
 ): Promise<ParseResult> {
     const result: ParseResult = {
         linkedIds: [],
@@ -52,347 +64,260 @@ export async function parseAndLinkIngredients(
         parsedIngredients: [],
     }
 
-    if (!rawText?.trim()) {
+    const rawNames = splitIngredientText(rawText)
+    if (rawNames.length === 0) {
         return result
     }
 
-    // Ingredient matching disabled - just parse names without linking
-    const names = rawText
-        .split(/[,;]/)
-        .map(s => s.trim())
-        .filter(s => s.length > 1)
-
-    result.unmatched = names
-    result.parsedIngredients = names.map(name => ({
-        name,
-        matched: false,
-    }))
-
-    return result
-
-    // NOTE: All code below is disabled - Ingredients collection archived
-    /* eslint-disable @typescript-eslint/no-unreachable */
-    if (false) {
-        // Original code kept for reference but never executes
-
-    // Pre-process text for better parsing
-    let processedText = rawText
-        // Normalize common abbreviations
-        .replace(/\bvit\.?\s*/gi, 'vitamin ')
-        .replace(/\bvits\.?\s*/gi, 'vitamins ')
-        .replace(/\bmg\b/gi, '')
-        .replace(/\bg\b/gi, '')
-        // Handle "and/or" patterns
-        .replace(/\band\/or\b/gi, ',')
-        .replace(/\bor\b/gi, ',')
-        // Handle "contains X% or less of:" patterns
-        .replace(/contains?\s*\d+%?\s*(or less)?\s*(of)?:?/gi, '')
-        // Remove asterisks and other markers
-        .replace(/[*†‡#]+/g, '')
-        // Normalize whitespace
-        .replace(/\s+/g, ' ')
-
-    // Split by common delimiters (comma, semicolon, period followed by capital)
-    const rawNames = processedText
-        .split(/[,;]|(?<=\.)\s+(?=[A-Z])/)
-        .map(s => s.trim())
-        .filter(s => s.length > 1)
-        // Flatten parenthetical ingredients like "Sugar (Cane Sugar, Brown Sugar)"
-        .flatMap(s => {
-            // Check if has nested ingredients in parentheses
-            const parenMatch = s.match(/^(.+?)\s*\(([^)]+)\)$/)
-            if (parenMatch) {
-                const main = parenMatch[1].trim()
-                const nested = parenMatch[2].split(/[,;]/).map(n => n.trim()).filter(n => n.length > 1)
-                // Return main ingredient plus any nested ones
-                return [main, ...nested]
-            }
-            return [s]
-        })
-
-    // Fetch thresholds for fuzzy matching
-    const thresholds = await getThresholds(payload)
-
-    // Fetch all ingredients with aliases for matching
-    const allIngredients = await payload.find({
-        collection: 'ingredients',
-        limit: 2000,
-    })
-
-    const ingredientMap = new Map<string, { id: number; verdict: string; name: string; isAlias: boolean }>()
-
-    // Build lookup map with name and aliases
-    for (const ing of allIngredients.docs) {
-        const ingData = ing as {
-            id: number
-            name: string
-            verdict: string
-            aliases?: Array<{ alias: string }>
-        }
-
-        // Add main name
-        ingredientMap.set(ingData.name.toLowerCase(), {
-            id: ingData.id,
-            verdict: ingData.verdict,
-            name: ingData.name,
-            isAlias: false,
-        })
-
-        // Add aliases
-        if (ingData.aliases?.length) {
-            for (const alias of ingData.aliases) {
-                if (alias.alias) {
-                    ingredientMap.set(alias.alias.toLowerCase(), {
-                        id: ingData.id,
-                        verdict: ingData.verdict,
-                        name: ingData.name,
-                        isAlias: true,
-                    })
-                }
-            }
-        }
-    }
+    const [thresholds, index] = await Promise.all([
+        getThresholds(payload),
+        loadIngredientIndex(payload),
+    ])
 
     // Track fuzzy matches for audit logging
     const fuzzyMatches: Array<{ input: string; matchedTo: string; distance: number }> = []
-
-    // Match each raw ingredient
-    let worstVerdict: 'recommend' | 'caution' | 'avoid' = 'recommend'
+    const matchedVerdicts: string[] = []
 
     for (const rawName of rawNames) {
-        // Comprehensive normalization
-        let normalized = rawName.toLowerCase().trim()
-            // Remove common suffixes like percentages, parenthetical notes
-            .replace(/\s*\([^)]*\)/g, '')
-            .replace(/\s*\d+\.?\d*%?$/g, '')
-            // Remove common descriptors
-            .replace(/\b(organic|natural|pure|raw|refined|unrefined|hydrolyzed|hydrogenated|partially|modified)\b/gi, '')
-            // Normalize color/dye names
-            .replace(/\b(red|blue|yellow|green)\s*#?\s*(\d+)/gi, '$1 $2')
-            .replace(/\bfd&c\s*/gi, '')
-            .replace(/\bd&c\s*/gi, '')
-            // Normalize vitamin names
-            .replace(/\bascorbic acid\b/gi, 'vitamin c')
-            .replace(/\btocopherol\b/gi, 'vitamin e')
-            .replace(/\bretinol\b/gi, 'vitamin a')
-            .replace(/\bthiamine?\b/gi, 'vitamin b1')
-            .replace(/\briboflavin\b/gi, 'vitamin b2')
-            .replace(/\bniacin\b/gi, 'vitamin b3')
-            .replace(/\bpyridoxine?\b/gi, 'vitamin b6')
-            .replace(/\bcobalamin\b/gi, 'vitamin b12')
-            .replace(/\bfolic acid\b/gi, 'folate')
-            // Clean up whitespace
-            .replace(/\s+/g, ' ')
-            .trim()
-
-        // Skip if too short after normalization
-        if (normalized.length < 2) continue
-
-        // Try exact match
-        let match = ingredientMap.get(normalized)
-        let matchType: 'exact' | 'alias' | 'partial' | 'fuzzy' = 'exact'
-        let fuzzyDistance: number | undefined
-
-        if (match) {
-            matchType = match.isAlias ? 'alias' : 'exact'
-        }
+        const match = matchIngredient(index, rawName, {
+            enableFuzzy: thresholds.enableFuzzyMatching,
+            maxDistance: thresholds.fuzzyMatchThreshold,
+        })
 
-        // Try partial match if no exact
         if (!match) {
-            for (const [key, value] of ingredientMap) {
-                if (normalized.includes(key) || key.includes(normalized)) {
-                    match = value
-                    matchType = 'partial'
-                    break
-                }
-            }
+            result.unmatched.push(rawName)
+            result.parsedIngredients.push({ name: rawName, matched: false })
+            continue
         }
 
-        // Try fuzzy match if no exact/partial and fuzzy matching is enabled
-        if (!match && thresholds.enableFuzzyMatching && normalized.length >= 4) {
-            let bestDistance = Infinity
-            let bestMatch: { id: number; verdict: string; name: string; isAlias: boolean } | undefined = undefined
-
-            for (const [key, value] of ingredientMap) {
-                // Only fuzzy match on main names (not aliases) to reduce noise
-                if (value.isAlias) continue
-
-                // Only consider ingredients of similar length
-                if (Math.abs(normalized.length - key.length) > thresholds.fuzzyMatchThreshold + 2) continue
-
-                const distance = levenshteinDistance(normalized, key)
-                if (distance <= thresholds.fuzzyMatchThreshold && distance < bestDistance) {
-                    bestDistance = distance
-                    bestMatch = value
-                }
-            }
-
-            if (bestMatch) {
-                match = bestMatch
-                matchType = 'fuzzy'
-                fuzzyDistance = bestDistance
-                fuzzyMatches.push({
-                    input: normalized,
-                    matchedTo: bestMatch.name,
-                    distance: bestDistance,
-                })
-            }
-        }
+        result.linkedIds.push(match.ingredient.id)
+        matchedVerdicts.push(match.ingredient.verdict)
+        result.parsedIngredients.push({
+            name: rawName,
+            matched: true,
+            matchType: match.matchType,
+            matchedName: match.ingredient.name,
+            ingredientId: match.ingredient.id,
+            verdict: match.ingredient.verdict,
+            fuzzyDistance: match.fuzzyDistance,
+        })
 
-        if (match) {
-            result.linkedIds.push(match.id)
-            result.parsedIngredients.push({
-                name: rawName,
-                matched: true,
-                matchType,
-                matchedName: match.name,
-                ingredientId: match.id,
-                verdict: match.verdict,
-                fuzzyDistance,
-            })
-
-            // Track worst verdict
-            if (match.verdict === 'avoid') {
-                worstVerdict = 'avoid'
-            } else if (match.verdict === 'caution' && worstVerdict !== 'avoid') {
-                worstVerdict = 'caution'
-            }
-        } else {
-            result.unmatched.push(rawName)
-            result.parsedIngredients.push({
-                name: rawName,
-                matched: false,
+        if (match.matchType === 'fuzzy') {
+            fuzzyMatches.push({
+                input: rawName,
+                matchedTo: match.ingredient.name,
+                distance: match.fuzzyDistance ?? 0,
             })
         }
     }
 
     // Log fuzzy matches to audit log for review
     if (fuzzyMatches.length > 0) {
-        try {
-            await createAuditLog(payload, {
-                action: 'ai_ingredient_parsed',
-                sourceType: 'system',
-                targetCollection: 'ingredients',
-                metadata: {
-                    fuzzyMatchesCount: fuzzyMatches.length,
-                    fuzzyMatches,
-                    threshold: thresholds.fuzzyMatchThreshold,
-                    note: 'Review these fuzzy matches for accuracy',
-                },
-            })
-        } catch {
-            // Non-critical, continue
-        }
+        await createAuditLog(payload, {
+            action: 'ai_ingredient_parsed',
+            sourceType: 'system',
+            targetCollection: 'ingredients',
+            metadata: {
+                fuzzyMatchesCount: fuzzyMatches.length,
+                fuzzyMatches,
+                threshold: thresholds.fuzzyMatchThreshold,
+                note: 'Review these fuzzy matches for accuracy',
+            },
+        })
     }
 
     // Remove duplicates from linkedIds
     result.linkedIds = [...new Set(result.linkedIds)]
-
-    // Set auto verdict if we matched any ingredients
-    if (result.linkedIds.length > 0) {
-        result.autoVerdict = worstVerdict
-    }
-    } // End of if (false) block
-    /* eslint-enable @typescript-eslint/no-unreachable */
+    result.autoVerdict = worstIngredientVerdict(matchedVerdicts)
 
     return result
 }
 
 /**
- * Create missing ingredients as "unknown" verdict
- * NOTE: Disabled - Ingredients collection archived
+ * Create registry entries with an "unknown" verdict for unmatched names,
+ * so researchers can triage them from the Ingredients collection.
  */
 export async function createMissingIngredients(
-    _unmatchedNames: string[],
-    _payload: Payload,
-    _sourceVideoId?: number
+    unmatchedNames: string[],
+    payload: Payload,
+    sourceVideoId?: number
 ): Promise<number[]> {
-    // Ingredients creation disabled - collection archived
-    return []
+    const createdIds: number[] = []
+
+    for (const name of [...new Set(unmatchedNames.map(n => n.trim()).filter(n => n.length > 1))]) {
+        try {
+            const existing = await payload.find({
+                collection: 'ingredients',
+                where: { name: { equals: name } },
+                limit: 1,
+                depth: 0,
+            })
+            if (existing.docs.length > 0) continue
+
+            const created = await payload.create({
+                collection: 'ingredients',
+                data: {
+                    name,
+                    verdict: 'unknown',
+                    reason: sourceVideoId
+                        ? `Auto-created from unmatched label text (video ${sourceVideoId})`
+                        : 'Auto-created from unmatched label text',
+                },
+            })
+            createdIds.push(created.id)
+        } catch (error) {
+            console.error(`[SmartAutomation] Failed to create ingredient "${name}":`, error)
+        }
+    }
+
+    return createdIds
 }
 
 // ============================================
 // VERDICT RULES ENGINE
 // ============================================
 
-interface VerdictRule {
+type RelationshipValue = number | { id: number }
+
+export interface VerdictRule {
     id: number
     name: string
-    conditionType: 'contains_ingredient' | 'missing_ingredient' | 'ingredient_verdict' | 'category_match'
-    ingredientCondition?: number[]
-    ingredientVerdictCondition?: 'avoid' | 'caution' | 'safe_only'
-    categoryCondition?: number[]
-    action: 'set_avoid' | 'set_caution' | 'set_recommend' | 'block_publish' | 'warn_only'
-    warningMessage?: string
+    conditionType: 'contains_ingredient' | 'missing_ingredient' | 'ingredient_verdict' | 'category_match' | 'condition_tree'
+    ingredientCondition?: RelationshipValue[] | null
+    ingredientVerdictCondition?: 'flagged' | 'caution' | 'safe_only' | null
+    categoryCondition?: RelationshipValue[] | null
+    conditionTree?: ConditionNode | null
+    action: 'set_flagged' | 'set_caution' | 'set_recommend' | 'block_publish' | 'warn_only'
+    warningMessage?: string | null
     isActive: boolean
     priority: number
+    appliedCount?: number | null
 }
 
-interface RuleEvaluation {
+export interface RuleEvaluation {
     ruleId: number
     ruleName: string
     matched: boolean
     action: VerdictRule['action']
     message?: string
+    /** Why the rule matched (condition trees: the matching sub-clauses) */
+    explanation?: string
+    /** Leaf clauses of a condition tree with their outcomes */
+    clauses?: ClauseResult[]
 }
 
-/**
- * Evaluate all active VerdictRules against a product
- */
-export async function evaluateVerdictRules(
-    productData: {
-        ingredientsList?: number[]
-        category?: number
-        verdict?: string
-    },
-    payload: Payload
-): Promise<{
+export interface VerdictRulesResult {
     evaluations: RuleEvaluation[]
-    suggestedVerdict?: 'recommend' | 'caution' | 'avoid'
+    suggestedVerdict?: 'recommend' | 'caution' | 'flagged'
     shouldBlock: boolean
     warnings: string[]
-}> {
-    const result = {
-        evaluations: [] as RuleEvaluation[],
-        suggestedVerdict: undefined as 'recommend' | 'caution' | 'avoid' | undefined,
-        shouldBlock: false,
-        warnings: [] as string[],
-    }
+}
+
+function toId(value: RelationshipValue): number {
+    return typeof value === 'object' ? value.id : value
+}
 
-    // Fetch active rules sorted by priority
+/**
+ * Product data needed by rule conditions. Brand and category details are
+ * looked up only when a condition tree needs them.
+ */
+export interface VerdictRuleProductData {
+    ingredientsList?: number[]
+    category?: number
+    verdict?: string
+    brand?: string
+    priceRange?: string | null
+    freshnessStatus?: string | null
+    detections?: ConditionContext['detections']
+}
+
+/**
+ * Category and brand lookups shared across evaluations.
+ * Pass one in when evaluating many products (e.g. simulations) to avoid repeat queries.
+ */
+export interface RuleLookupCache {
+    categories: Map<number, ConditionContext['category']>
+    brands: Map<string, ConditionContext['brand']>
+}
+
+export function createRuleLookupCache(): RuleLookupCache {
+    return { categories: new Map(), brands: new Map() }
+}
+
+/**
+ * Fetch active VerdictRules in evaluation order (highest priority first)
+ */
+export async function loadActiveVerdictRules(payload: Payload): Promise<VerdictRule[]> {
     const rulesResult = await payload.find({
         collection: 'verdict-rules',
         where: { isActive: { equals: true } },
         sort: '-priority',
         limit: 100,
+        depth: 0,
     })
+    return rulesResult.docs as unknown as VerdictRule[]
+}
+
+/**
+ * Evaluate VerdictRules against a product.
+ *
+ * Side-effect free: uses the active rules unless `options.rules` supplies a
+ * (draft or re-ordered) rule set, and never writes to the database.
+ * Call recordRuleApplications() after a real save to update rule statistics.
+ */
+export async function evaluateVerdictRules(
+    productData: VerdictRuleProductData,
+    payload: Payload,
+    options: { rules?: VerdictRule[]; cache?: RuleLookupCache } = {}
+): Promise<VerdictRulesResult> {
+    const result: VerdictRulesResult = {
+        evaluations: [],
+        suggestedVerdict: undefined,
+        shouldBlock: false,
+        warnings: [],
+    }
 
-    if (rulesResult.docs.length === 0) {
+    const rules = options.rules ?? await loadActiveVerdictRules(payload)
+    if (rules.length === 0) {
         return result
     }
 
-    // NOTE: Ingredient verdicts lookup disabled - Ingredients collection archived
+    // Resolve verdicts of linked ingredients from the registry
+    const productIngredients = productData.ingredientsList || []
     const ingredientVerdicts = new Map<number, string>()
+    if (productIngredients.length > 0) {
+        const index = await loadIngredientIndex(payload)
+        for (const id of productIngredients) {
+            const ingredient = index.byId.get(id)
+            if (ingredient) ingredientVerdicts.set(id, ingredient.verdict)
+        }
+    }
+
+    const treeContext = await buildConditionContext(
+        rules,
+        productData,
+        ingredientVerdicts,
+        payload,
+        options.cache ?? createRuleLookupCache()
+    )
 
     // Evaluate each rule
-    for (const ruleDoc of rulesResult.docs) {
-        const rule = ruleDoc as unknown as VerdictRule
+    for (const rule of rules) {
+        const ruleIngredients = (rule.ingredientCondition || []).map(toId)
         let matched = false
+        let explanation: string | undefined
+        let clauses: ClauseResult[] | undefined
 
         switch (rule.conditionType) {
             case 'contains_ingredient':
-                if (rule.ingredientCondition?.length && productData.ingredientsList?.length) {
-                    matched = rule.ingredientCondition.some(id =>
-                        productData.ingredientsList!.includes(id)
-                    )
+                if (ruleIngredients.length && productIngredients.length) {
+                    matched = ruleIngredients.some(id => productIngredients.includes(id))
                 }
                 break
 
             case 'missing_ingredient':
-                if (rule.ingredientCondition?.length) {
-                    matched = !rule.ingredientCondition.some(id =>
-                        productData.ingredientsList?.includes(id)
-                    )
+                if (ruleIngredients.length) {
+                    matched = !ruleIngredients.some(id => productIngredients.includes(id))
                 }
                 break
 
@@ -400,14 +325,14 @@ export async function evaluateVerdictRules(
                 if (rule.ingredientVerdictCondition && ingredientVerdicts.size > 0) {
                     const verdicts = Array.from(ingredientVerdicts.values())
                     switch (rule.ingredientVerdictCondition) {
-                        case 'avoid':
-                            matched = verdicts.includes('avoid')
+                        case 'flagged':
+                            matched = verdicts.includes('flagged')
                             break
                         case 'caution':
                             matched = verdicts.includes('caution')
                             break
                         case 'safe_only':
-                            matched = verdicts.every(v => v === 'safe' || v === 'recommend')
+                            matched = verdicts.every(v => v === 'safe')
                             break
                     }
                 }
@@ -415,7 +340,16 @@ export async function evaluateVerdictRules(
 
             case 'category_match':
                 if (rule.categoryCondition?.length && productData.category) {
-                    matched = rule.categoryCondition.includes(productData.category)
+                    matched = rule.categoryCondition.map(toId).includes(productData.category)
+                }
+                break
+
+            case 'condition_tree':
+                if (rule.conditionTree && treeContext) {
+                    const treeResult = evaluateConditionTree(rule.conditionTree, treeContext)
+                    matched = treeResult.matched
+                    explanation = treeResult.explanation || undefined
+                    clauses = treeResult.clauses
                 }
                 break
         }
@@ -425,17 +359,19 @@ export async function evaluateVerdictRules(
             ruleName: rule.name,
             matched,
             action: rule.action,
-            message: matched ? rule.warningMessage : undefined,
+            message: matched ? rule.warningMessage || undefined : undefined,
+            explanation,
+            clauses,
         })
 
         if (matched) {
             // Apply action
             switch (rule.action) {
-                case 'set_avoid':
-                    result.suggestedVerdict = 'avoid'
+                case 'set_flagged':
+                    result.suggestedVerdict = 'flagged'
                     break
                 case 'set_caution':
-                    if (result.suggestedVerdict !== 'avoid') {
+                    if (result.suggestedVerdict !== 'flagged') {
                         result.suggestedVerdict = 'caution'
                     }
                     break
@@ -456,21 +392,83 @@ export async function evaluateVerdictRules(
                     }
                     break
             }
+        }
+    }
 
-            // Increment applied count on the rule
+    return result
+}
+
+/**
+ * Increment appliedCount on every rule that matched a saved product
+ */
+export async function recordRuleApplications(
+    payload: Payload,
+    evaluations: RuleEvaluation[]
+): Promise<void> {
+    for (const evaluation of evaluations) {
+        if (!evaluation.matched) continue
+        try {
+            await atomicIncrement(payload, 'verdict-rules', evaluation.ruleId, 'appliedCount')
+        } catch {
+            // Non-critical, continue
+        }
+    }
+}
+
+/**
+ * Resolve the data condition trees evaluate against.
+ * Returns null when no rule uses a condition tree.
+ */
+async function buildConditionContext(
+    rules: VerdictRule[],
+    productData: VerdictRuleProductData,
+    ingredientVerdicts: Map<number, string>,
+    payload: Payload,
+    cache: RuleLookupCache
+): Promise<ConditionContext | null> {
+    const trees = rules
+        .filter(rule => rule.conditionType === 'condition_tree' && rule.conditionTree)
+        .map(rule => rule.conditionTree as ConditionNode)
+    if (trees.length === 0) return null
+
+    const context: ConditionContext = {
+        ingredientIds: productData.ingredientsList || [],
+        ingredientVerdicts: Array.from(ingredientVerdicts.values()),
+        detections: productData.detections,
+        priceRange: productData.priceRange,
+        freshnessStatus: productData.freshnessStatus,
+    }
+
+    if (productData.category) {
+        if (!cache.categories.has(productData.category)) {
             try {
-                await payload.update({
-                    collection: 'verdict-rules',
-                    id: rule.id,
-                    data: { appliedCount: ((ruleDoc as { appliedCount?: number }).appliedCount || 0) + 1 },
+                const category = await payload.findByID({
+                    collection: 'categories',
+                    id: productData.category,
+                    depth: 0,
                 })
+                cache.categories.set(productData.category, { id: category.id, slug: category.slug })
             } catch {
-                // Non-critical, continue
+                cache.categories.set(productData.category, { id: productData.category })
             }
         }
+        context.category = cache.categories.get(productData.category)
     }
 
-    return result
+    if (productData.brand && trees.some(treeUsesBrand)) {
+        if (!cache.brands.has(productData.brand)) {
+            const brands = await payload.find({
+                collection: 'brands',
+                where: { name: { equals: productData.brand } },
+                limit: 1,
+                depth: 0,
+            })
+            cache.brands.set(productData.brand, brands.docs[0] || null)
+        }
+        context.brand = cache.brands.get(productData.brand)
+    }
+
+    return context
 }
 
 // ============================================
@@ -573,94 +571,60 @@ export interface ConflictResult {
 }
 
 /**
- * Detect conflicts between product verdict and its ingredients/rules
+ * Detect conflicts between product verdict and its linked ingredients
  */
 export async function detectConflicts(
-    _productData: {
+    productData: {
         verdict?: string
         ingredientsList?: number[]
         verdictOverride?: boolean
         category?: number
     },
-    _payload: Payload
+    payload: Payload
 ): Promise<ConflictResult> {
-    // NOTE: Conflict detection disabled - Ingredients collection archived
-    // Always return no conflicts
-    return {
+    const result: ConflictResult = {
         hasConflicts: false,
         conflicts: [],
         canSave: true,
     }
 
-    // Dead code below - kept for reference
-    /* eslint-disable @typescript-eslint/no-unreachable */
-    const result: ConflictResult = {
-        hasConflicts: false,
-        conflicts: [],
-        canSave: true,
+    if (productData.verdict !== 'recommend' || !productData.ingredientsList?.length) {
+        return result
     }
 
-    const avoidIngredients: string[] = []
+    const index = await loadIngredientIndex(payload)
+    const flaggedIngredients: string[] = []
     const cautionIngredients: string[] = []
 
-    // Check for verdict mismatches
-    if (productData.verdict === 'recommend') {
-        if (avoidIngredients.length > 0) {
-            result.hasConflicts = true
-            result.conflicts.push({
-                type: 'ingredient_verdict_mismatch',
-                severity: 'error',
-                message: `Cannot RECOMMEND product with AVOID ingredients: ${avoidIngredients.join(', ')}`,
-                details: { avoidIngredients },
-            })
+    for (const id of productData.ingredientsList) {
+        const ingredient = index.byId.get(id)
+        if (ingredient?.verdict === 'flagged') flaggedIngredients.push(ingredient.name)
+        else if (ingredient?.verdict === 'caution') cautionIngredients.push(ingredient.name)
+    }
 
-            // Block save unless override is set
-            if (!productData.verdictOverride) {
-                result.canSave = false
-            }
-        }
+    if (flaggedIngredients.length > 0) {
+        result.hasConflicts = true
+        result.conflicts.push({
+            type: 'ingredient_verdict_mismatch',
+            severity: 'error',
+            message: `Cannot RECOMMEND product with FLAGGED ingredients: ${flaggedIngredients.join(', ')}`,
+            details: { flaggedIngredients },
+        })
 
-        if (cautionIngredients.length > 0) {
-            result.hasConflicts = true
-            result.conflicts.push({
-                type: 'ingredient_verdict_mismatch',
-                severity: 'warning',
-                message: `Product contains CAUTION ingredients: ${cautionIngredients.join(', ')}`,
-                details: { cautionIngredients },
-            })
+        // Block save unless override is set
+        if (!productData.verdictOverride) {
+            result.canSave = false
         }
     }
 
-    // Check category-specific warnings
-    if (productData.category) {
-        const category = await payload.findByID({
-            collection: 'categories',
-            id: productData.category,
+    if (cautionIngredients.length > 0) {
+        result.hasConflicts = true
+        result.conflicts.push({
+            type: 'ingredient_verdict_mismatch',
+            severity: 'warning',
+            message: `Product contains CAUTION ingredients: ${cautionIngredients.join(', ')}`,
+            details: { cautionIngredients },
         })
-
-        if (category) {
-            const catData = category as {
-                harmfulIngredients?: Array<{ ingredient: string; reason?: string }>
-            }
-
-            if (catData.harmfulIngredients?.length) {
-                for (const harmful of catData.harmfulIngredients) {
-                    // Check if any product ingredient matches harmful ingredient name
-                    for (const ing of ingredients.docs) {
-                        const ingData = ing as { name: string }
-                        if (ingData.name.toLowerCase().includes(harmful.ingredient.toLowerCase())) {
-                            result.hasConflicts = true
-                            result.conflicts.push({
-                                type: 'category_warning',
-                                severity: 'warning',
-                                message: `Contains "${harmful.ingredient}" - ${harmful.reason || 'flagged as harmful for this category'}`,
-                                details: { ingredient: harmful.ingredient, reason: harmful.reason },
-                            })
-                        }
-                    }
-                }
-            }
-        }
     }
 
     return result
@@ -0,0 +1,390 @@
+/**
+ * Verdict Rule Condition Trees
+ *
+ * Composable AND / OR / NOT conditions for VerdictRules with `conditionType: 'condition_tree'`.
+ * A tree is stored as JSON on the rule, e.g.
+ *
+ *   { "op": "or", "children": [
+ *       { "op": "and", "children": [
+ *           { "type": "category", "categories": ["baby-food"] },
+ *           { "type": "detection", "compound": "lead", "operator": "gt", "value": 10, "unit": "ppb" }
+ *       ] },
+ *       { "type": "brand_recall", "withinMonths": 12 }
+ *   ] }
+ *
+ * Evaluation is pure: callers resolve the product, category and brand data up front
+ * and get back which clauses matched, so the verdict can be explained.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq'
+
+export type ConditionPredicate =
+    | { type: 'contains_ingredient'; ingredients: number[] }
+    | { type: 'missing_ingredient'; ingredients: number[] }
+    | { type: 'ingredient_verdict'; verdict: 'flagged' | 'caution' | 'safe_only' }
+    | { type: 'category'; categories: Array<number | string> }
+    | {
+        type: 'detection'
+        compound: string
+        operator?: ComparisonOperator
+        value?: number
+        unit?: ConcentrationUnit
+        interpretation?: 'below' | 'at' | 'above' | 'none'
+    }
+    | { type: 'price_range'; ranges: string[] }
+    | { type: 'brand_trust_score'; operator: ComparisonOperator; value: number }
+    | { type: 'brand_recall'; withinMonths: number; severity?: Array<'class_i' | 'class_ii' | 'class_iii'> }
+    | { type: 'freshness'; statuses: Array<'fresh' | 'needs_review' | 'stale'> }
+
+export type ConditionNode =
+    | { op: 'and' | 'or'; children: ConditionNode[] }
+    | { op: 'not'; child: ConditionNode }
+    | ConditionPredicate
+
+export interface ConditionContext {
+    ingredientIds: number[]
+    ingredientVerdicts: string[]
+    category?: { id: number; slug?: string | null } | null
+    detections?: Array<{
+        compound: string
+        level?: string | null
+        interpretation?: string | null
+    }> | null
+    priceRange?: string | null
+    freshnessStatus?: string | null
+    brand?: {
+        trustScore?: number | null
+        recalls?: Array<{ date?: string | null; severity?: string | null }> | null
+    } | null
+    now?: Date
+}
+
+export interface ClauseResult {
+    path: string
+    description: string
+    matched: boolean
+}
+
+export interface ConditionResult {
+    matched: boolean
+    /** Every leaf predicate that was evaluated, with its outcome */
+    clauses: ClauseResult[]
+    /** Human-readable description of the matching branch (empty when not matched) */
+    explanation: string
+}
+
+// ============================================
+// CONCENTRATIONS
+// ============================================
+
+export type ConcentrationUnit = 'ppm' | 'ppb' | 'ppt'
+
+// Multipliers to parts-per-billion
+const UNIT_TO_PPB: Record<string, number> = {
+    'ppm': 1000,
+    'mg/kg': 1000,
+    'mg/l': 1000,
+    'µg/g': 1000,
+    'ug/g': 1000,
+    'ppb': 1,
+    'µg/kg': 1,
+    'ug/kg': 1,
+    'µg/l': 1,
+    'ug/l': 1,
+    'ppt': 0.001,
+    'ng/kg': 0.001,
+    'ng/l': 0.001,
+}
+
+// Non-detects: "<5 ppb", "< LOQ", "ND", "n.d.", "not detected"
+const NON_DETECT = /^\s*(<|nd\b|n\.d\.|not detected)/
+
+/**
+ * Parse a free-text detection level ("2.3 ppm", "45 ppb") into ppb.
+ * Non-detects ("<1 µg/kg", "ND") are below any threshold and read as 0.
+ * Returns null when no number or unit can be found.
+ */
+export function parseConcentration(level: string | null | undefined): number | null {
+    if (!level) return null
+    // Greek mu (U+03BC) is often typed for the micro sign (U+00B5)
+    const text = level.toLowerCase().replace(/μ/g, 'µ').replace(/,/g, '')
+    if (NON_DETECT.test(text)) return 0
+    const match = text.match(/(\d+(?:\.\d+)?)\s*([a-zµ]+(?:\/[a-z]+)?)/)
+    if (!match) return null
+    const multiplier = UNIT_TO_PPB[match[2]]
+    if (multiplier === undefined) return null
+    return parseFloat(match[1]) * multiplier
+}
+
+function compare(actual: number, operator: ComparisonOperator, expected: number): boolean {
+    switch (operator) {
+        case 'gt': return actual > expected
+        case 'gte': return actual >= expected
+        case 'lt': return actual < expected
+        case 'lte': return actual <= expected
+        case 'eq': return actual === expected
+        case 'neq': return actual !== expected
+    }
+}
+
+const OPERATOR_SYMBOLS: Record<ComparisonOperator, string> = {
+    gt: '>',
+    gte: '≥',
+    lt: '<',
+    lte: '≤',
+    eq: '=',
+    neq: '≠',
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+const PREDICATE_TYPES = new Set([
+    'contains_ingredient',
+    'missing_ingredient',
+    'ingredient_verdict',
+    'category',
+    'detection',
+    'price_range',
+    'brand_trust_score',
+    'brand_recall',
+    'freshness',
+])
+
+const MAX_TREE_DEPTH = 8
+
+/**
+ * Validate a condition tree. Returns true or an error message (Payload validate convention).
+ */
+export function validateConditionTree(tree: unknown, path = 'root', depth = 0): true | string {
+    if (depth > MAX_TREE_DEPTH) return `${path}: tree is nested more than ${MAX_TREE_DEPTH} levels`
+    if (!tree || typeof tree !== 'object' || Array.isArray(tree)) return `${path}: expected an object`
+
+    const node = tree as Record<string, unknown>
+
+    if (node.op === 'and' || node.op === 'or') {
+        if (!Array.isArray(node.children) || node.children.length === 0) {
+            return `${path}: "${node.op}" needs a non-empty "children" array`
+        }
+        for (let i = 0; i < node.children.length; i++) {
+            const result = validateConditionTree(node.children[i], `${path}.${node.op}[${i}]`, depth + 1)
+            if (result !== true) return result
+        }
+        return true
+    }
+    if (node.op === 'not') {
+        return validateConditionTree(node.child, `${path}.not`, depth + 1)
+    }
+    if (node.op !== undefined) return `${path}: unknown operator "${String(node.op)}"`
+
+    if (typeof node.type !== 'string' || !PREDICATE_TYPES.has(node.type)) {
+        return `${path}: unknown predicate type "${String(node.type)}"`
+    }
+
+    switch (node.type) {
+        case 'contains_ingredient':
+        case 'missing_ingredient':
+            if (!Array.isArray(node.ingredients) || node.ingredients.length === 0 ||
+                !node.ingredients.every(id => typeof id === 'number')) {
+                return `${path}: "ingredients" must be a non-empty array of ingredient IDs`
+            }
+            break
+        case 'ingredient_verdict':
+            if (!['flagged', 'caution', 'safe_only'].includes(node.verdict as string)) {
+                return `${path}: "verdict" must be flagged, caution or safe_only`
+            }
+            break
+        case 'category':
+            if (!Array.isArray(node.categories) || node.categories.length === 0) {
+                return `${path}: "categories" must list category IDs or slugs`
+            }
+            break
+        case 'detection':
+            if (typeof node.compound !== 'string' || !node.compound.trim()) {
+                return `${path}: "compound" is required`
+            }
+            if (node.operator !== undefined) {
+                if (!((node.operator as string) in OPERATOR_SYMBOLS)) return `${path}: unknown operator "${String(node.operator)}"`
+                if (typeof node.value !== 'number') return `${path}: "value" must be a number`
+                if (node.unit !== undefined && !['ppm', 'ppb', 'ppt'].includes(node.unit as string)) {
+                    return `${path}: "unit" must be ppm, ppb or ppt`
+                }
+            }
+            break
+        case 'price_range':
+            if (!Array.isArray(node.ranges) || node.ranges.length === 0) {
+                return `${path}: "ranges" must list price ranges (e.g. ["$$$", "$$$$"])`
+            }
+            break
+        case 'brand_trust_score':
+            if (!((node.operator as string) in OPERATOR_SYMBOLS) || typeof node.value !== 'number') {
+                return `${path}: "operator" and numeric "value" are required`
+            }
+            break
+        case 'brand_recall':
+            if (typeof node.withinMonths !== 'number' || node.withinMonths <= 0) {
+                return `${path}: "withinMonths" must be a positive number`
+            }
+            break
+        case 'freshness':
+            if (!Array.isArray(node.statuses) || node.statuses.length === 0) {
+                return `${path}: "statuses" must list freshness statuses`
+            }
+            break
+    }
+
+    return true
+}
+
+/**
+ * Whether any predicate in the tree needs brand data (so callers can skip the lookup).
+ */
+export function treeUsesBrand(node: ConditionNode): boolean {
+    if ('op' in node) {
+        return node.op === 'not' ? treeUsesBrand(node.child) : node.children.some(treeUsesBrand)
+    }
+    return node.type === 'brand_trust_score' || node.type === 'brand_recall'
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+function describePredicate(predicate: ConditionPredicate): string {
+    switch (predicate.type) {
+        case 'contains_ingredient':
+            return `contains ingredient ${predicate.ingredients.join('/')}`
+        case 'missing_ingredient':
+            return `missing ingredient ${predicate.ingredients.join('/')}`
+        case 'ingredient_verdict':
+            return predicate.verdict === 'safe_only'
+                ? 'only safe ingredients'
+                : `has ${predicate.verdict} ingredient`
+        case 'category':
+            return `category is ${predicate.categories.join('/')}`
+        case 'detection': {
+            const parts = [predicate.compound]
+            if (predicate.operator && predicate.value !== undefined) {
+                parts.push(`${OPERATOR_SYMBOLS[predicate.operator]} ${predicate.value} ${predicate.unit || 'ppb'}`)
+            } else if (!predicate.interpretation) {
+                parts.push('detected')
+            }
+            if (predicate.interpretation) parts.push(`(${predicate.interpretation} threshold)`)
+            return parts.join(' ')
+        }
+        case 'price_range':
+            return `price range ${predicate.ranges.join('/')}`
+        case 'brand_trust_score':
+            return `brand trust score ${OPERATOR_SYMBOLS[predicate.operator]} ${predicate.value}`
+        case 'brand_recall':
+            return `brand recall in last ${predicate.withinMonths} months`
+        case 'freshness':
+            return `freshness is ${predicate.statuses.join('/')}`
+    }
+}
+
+function evaluatePredicate(predicate: ConditionPredicate, ctx: ConditionContext): boolean {
+    switch (predicate.type) {
+        case 'contains_ingredient':
+            return predicate.ingredients.some(id => ctx.ingredientIds.includes(id))
+
+        case 'missing_ingredient':
+            return !predicate.ingredients.some(id => ctx.ingredientIds.includes(id))
+
+        case 'ingredient_verdict':
+            if (ctx.ingredientVerdicts.length === 0) return false
+            if (predicate.verdict === 'safe_only') return ctx.ingredientVerdicts.every(v => v === 'safe')
+            return ctx.ingredientVerdicts.includes(predicate.verdict)
+
+        case 'category':
+            if (!ctx.category) return false
+            return predicate.categories.some(c =>
+                typeof c === 'number' ? c === ctx.category!.id : c === ctx.category!.slug
+            )
+
+        case 'detection': {
+            const compound = predicate.compound.toLowerCase()
+            const threshold = predicate.operator && predicate.value !== undefined
+                ? predicate.value * UNIT_TO_PPB[predicate.unit || 'ppb']
+                : null
+            return (ctx.detections || []).some(detection => {
+                if (!detection.compound?.toLowerCase().includes(compound)) return false
+                if (predicate.interpretation && detection.interpretation !== predicate.interpretation) return false
+                if (threshold === null) return true
+                const level = parseConcentration(detection.level)
+                return level !== null && compare(level, predicate.operator!, threshold)
+            })
+        }
+
+        case 'price_range':
+            return !!ctx.priceRange && predicate.ranges.includes(ctx.priceRange)
+
+        case 'brand_trust_score':
+            return typeof ctx.brand?.trustScore === 'number' &&
+                compare(ctx.brand.trustScore, predicate.operator, predicate.value)
+
+        case 'brand_recall': {
+            const since = new Date(ctx.now || Date.now())
+            since.setMonth(since.getMonth() - predicate.withinMonths)
+            return (ctx.brand?.recalls || []).some(recall => {
+                if (!recall.date || new Date(recall.date) < since) return false
+                return !predicate.severity?.length || predicate.severity.includes(recall.severity as 'class_i')
+            })
+        }
+
+        case 'freshness':
+            return !!ctx.freshnessStatus && predicate.statuses.includes(ctx.freshnessStatus as 'fresh')
+    }
+}
+
+interface NodeResult {
+    matched: boolean
+    explanation: string
+}
+
+function evaluateNode(node: ConditionNode, ctx: ConditionContext, path: string, clauses: ClauseResult[]): NodeResult {
+    if ('op' in node) {
+        if (node.op === 'not') {
+            const inner = evaluateNode(node.child, ctx, `${path}.not`, clauses)
+            return { matched: !inner.matched, explanation: `NOT ${inner.explanation}` }
+        }
+
+        // Evaluate every child (no short-circuit) so the clause list is complete
+        const results = node.children.map((child, i) => evaluateNode(child, ctx, `${path}.${node.op}[${i}]`, clauses))
+        if (node.op === 'and') {
+            const matched = results.every(r => r.matched)
+            return { matched, explanation: `(${results.map(r => r.explanation).join(' AND ')})` }
+        }
+        const matching = results.filter(r => r.matched)
+        return {
+            matched: matching.length > 0,
+            // Only the branches that actually matched explain an OR
+            explanation: matching.length > 0
+                ? matching.map(r => r.explanation).join(' OR ')
+                : `(${results.map(r => r.explanation).join(' OR ')})`,
+        }
+    }
+
+    const description = describePredicate(node)
+    const matched = evaluatePredicate(node, ctx)
+    clauses.push({ path, description, matched })
+    return { matched, explanation: description }
+}
+
+/**
+ * Evaluate a condition tree against a resolved product context.
+ */
+export function evaluateConditionTree(tree: ConditionNode, ctx: ConditionContext): ConditionResult {
+    const clauses: ClauseResult[] = []
+    const result = evaluateNode(tree, ctx, 'root', clauses)
+    return {
+        matched: result.matched,
+        clauses,
+        explanation: result.matched ? result.explanation : '',
+    }
+}
@@ -0,0 +1,315 @@
+import type { Payload } from 'payload'
+import {
+    createRuleLookupCache,
+    evaluateVerdictRules,
+    loadActiveVerdictRules,
+    type VerdictRule,
+    type VerdictRulesResult,
+} from './smart-automation'
+import { validateConditionTree } from './verdict-conditions'
+
+/**
+ * Verdict Rule Simulator
+ *
+ * Dry-runs a draft rule and/or a changed priority ordering across the catalog
+ * and reports which products would change verdict. Nothing is written: rules are
+ * evaluated with evaluateVerdictRules(), which has no side effects.
+ *
+ * Each product is evaluated twice - against the current active rules (baseline)
+ * and against the simulated rule set - so the diff isolates the impact of the
+ * proposed change rather than rules that simply haven't re-run yet.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DraftVerdictRule = Pick<VerdictRule, 'name' | 'conditionType' | 'action'> &
+    Partial<Omit<VerdictRule, 'name' | 'conditionType' | 'action'>>
+
+export interface SimulationOptions {
+    /** New rule, or an edited copy of an existing rule (matched by id) */
+    draftRule?: DraftVerdictRule
+    /** Rule ID -> priority, to test a re-ordering */
+    priorityOverrides?: Record<string, number>
+    /** Rules to leave out of the simulated set */
+    disabledRuleIds?: number[]
+    /** Restrict to one category */
+    category?: number
+    /** Safety cap on catalog size */
+    maxProducts?: number
+}
+
+export interface VerdictChange {
+    productId: number
+    productName: string
+    brand: string
+    category: string
+    fromVerdict: string
+    toVerdict: string
+    /** Rules (with matched clauses) behind the simulated verdict */
+    rules: string[]
+}
+
+export interface GroupSummary {
+    changed: number
+    transitions: Record<string, number>
+}
+
+export interface SimulationResult {
+    scanned: number
+    changed: number
+    /** Products whose suggested verdict would change but are held by verdictOverride */
+    heldByOverride: number
+    /** Products whose publish would newly be blocked */
+    newlyBlocked: number
+    transitions: Record<string, number>
+    byCategory: Record<string, GroupSummary>
+    byBrand: Record<string, GroupSummary>
+    changes: VerdictChange[]
+    truncated: boolean
+}
+
+interface SimulationProduct {
+    id: number
+    name?: string | null
+    brand?: string | null
+    verdict?: string | null
+    verdictOverride?: boolean | null
+    category?: number | { id: number } | null
+    ingredientsList?: Array<number | { id: number }> | null
+    priceRange?: string | null
+    freshnessStatus?: string | null
+    detectionResults?: {
+        detections?: Array<{ compound: string; level?: string | null; interpretation?: string | null }> | null
+    } | null
+}
+
+const DRAFT_RULE_ID = -1
+const PAGE_SIZE = 200
+const DEFAULT_MAX_PRODUCTS = 5000
+const UNCATEGORIZED = 'Uncategorized'
+
+// ============================================
+// RULE SET
+// ============================================
+
+/**
+ * Validate a draft rule. Returns an error message, or null when valid.
+ */
+export function validateDraftRule(draft: DraftVerdictRule): string | null {
+    if (!draft.name?.trim()) return 'draftRule.name is required'
+    if (!draft.conditionType) return 'draftRule.conditionType is required'
+    if (!draft.action) return 'draftRule.action is required'
+    if (draft.conditionType === 'condition_tree') {
+        const result = validateConditionTree(draft.conditionTree)
+        if (result !== true) return `draftRule.conditionTree: ${result}`
+    }
+    return null
+}
+
+/**
+ * Build the simulated rule set from the active rules, in evaluation order.
+ */
+export function buildSimulatedRuleSet(activeRules: VerdictRule[], options: SimulationOptions): VerdictRule[] {
+    const disabled = new Set(options.disabledRuleIds || [])
+    const draftId = options.draftRule?.id
+
+    const rules = activeRules
+        .filter(rule => !disabled.has(rule.id) && rule.id !== draftId)
+        .map(rule => ({ ...rule }))
+
+    if (options.draftRule) {
+        rules.push({
+            isActive: true,
+            priority: 0,
+            ...options.draftRule,
+            id: draftId ?? DRAFT_RULE_ID,
+        })
+    }
+
+    for (const rule of rules) {
+        const override = options.priorityOverrides?.[String(rule.id)]
+        if (typeof override === 'number') rule.priority = override
+    }
+
+    // Stable sort keeps the database order for equal priorities
+    return rules.sort((a, b) => (b.priority || 0) - (a.priority || 0))
+}
+
+/**
+ * Verdict a product ends up with after rule evaluation (overrides win).
+ */
+function effectiveVerdict(product: SimulationProduct, result: VerdictRulesResult): string {
+    if (product.verdictOverride) return product.verdict || 'recommend'
+    return result.suggestedVerdict || product.verdict || 'recommend'
+}
+
+function describeMatchedRules(result: VerdictRulesResult): string[] {
+    return result.evaluations
+        .filter(e => e.matched)
+        .map(e => (e.explanation ? `${e.ruleName}: ${e.explanation}` : e.ruleName))
+}
+
+// ============================================
+// SUMMARY & EXPORT
+// ============================================
+
+function addTransition(group: GroupSummary, transition: string): void {
+    group.changed++
+    group.transitions[transition] = (group.transitions[transition] || 0) + 1
+}
+
+/**
+ * Group verdict changes by category and brand.
+ */
+export function summarizeChanges(changes: VerdictChange[]): Pick<SimulationResult, 'transitions' | 'byCategory' | 'byBrand'> {
+    const transitions: Record<string, number> = {}
+    const byCategory: Record<string, GroupSummary> = {}
+    const byBrand: Record<string, GroupSummary> = {}
+
+    for (const change of changes) {
+        const transition = `${change.fromVerdict}->${change.toVerdict}`
+        transitions[transition] = (transitions[transition] || 0) + 1
+        addTransition(byCategory[change.category] ??= { changed: 0, transitions: {} }, transition)
+        addTransition(byBrand[change.brand] ??= { changed: 0, transitions: {} }, transition)
+    }
+
+    return { transitions, byCategory, byBrand }
+}
+
+function csvCell(value: string | number): string {
+    // Names come from scraped / AI-drafted data - stop spreadsheets running
+    // them as formulas
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Export simulated verdict changes as CSV (one row per product).
+ */
+export function simulationToCsv(result: Pick<SimulationResult, 'changes'>): string {
+    const lines = ['Product ID,Product,Brand,Category,From Verdict,To Verdict,Rules']
+    for (const change of result.changes) {
+        lines.push([
+            change.productId,
+            change.productName,
+            change.brand,
+            change.category,
+            change.fromVerdict,
+            change.toVerdict,
+            change.rules.join('; '),
+        ].map(csvCell).join(','))
+    }
+    return lines.join('\n') + '\n'
+}
+
+// ============================================
+// SIMULATION
+// ============================================
+
+/**
+ * Run a side-effect-free simulation across the catalog.
+ */
+export async function simulateVerdictRules(
+    payload: Payload,
+    options: SimulationOptions = {}
+): Promise<SimulationResult> {
+    const activeRules = await loadActiveVerdictRules(payload)
+    const simulatedRules = buildSimulatedRuleSet(activeRules, options)
+    const cache = createRuleLookupCache()
+    const maxProducts = options.maxProducts ?? DEFAULT_MAX_PRODUCTS
+
+    const changes: Array<VerdictChange & { categoryId?: number }> = []
+    let scanned = 0
+    let heldByOverride = 0
+    let newlyBlocked = 0
+    let truncated = false
+    let page = 1
+
+    while (true) {
+        const batch = await payload.find({
+            collection: 'products',
+            where: options.category ? { category: { equals: options.category } } : {},
+            sort: 'id',
+            limit: PAGE_SIZE,
+            page,
+            depth: 0,
+            overrideAccess: true,
+        })
+
+        for (const doc of batch.docs as unknown as SimulationProduct[]) {
+            if (scanned >= maxProducts) {
+                truncated = true
+                break
+            }
+            scanned++
+
+            const categoryId = typeof doc.category === 'object' ? doc.category?.id : doc.category
+            const productData = {
+                ingredientsList: (doc.ingredientsList || []).map(ing => (typeof ing === 'object' ? ing.id : ing)),
+                category: categoryId ?? undefined,
+                verdict: doc.verdict ?? undefined,
+                brand: doc.brand ?? undefined,
+                priceRange: doc.priceRange,
+                freshnessStatus: doc.freshnessStatus,
+                detections: doc.detectionResults?.detections,
+            }
+
+            const baseline = await evaluateVerdictRules(productData, payload, { rules: activeRules, cache })
+            const simulated = await evaluateVerdictRules(productData, payload, { rules: simulatedRules, cache })
+
+            if (simulated.shouldBlock && !baseline.shouldBlock) newlyBlocked++
+
+            const fromVerdict = effectiveVerdict(doc, baseline)
+            const toVerdict = effectiveVerdict(doc, simulated)
+            if (fromVerdict === toVerdict) {
+                if (doc.verdictOverride && baseline.suggestedVerdict !== simulated.suggestedVerdict) {
+                    heldByOverride++
+                }
+                continue
+            }
+
+            changes.push({
+                productId: doc.id,
+                productName: doc.name || `Product ${doc.id}`,
+                brand: doc.brand || 'Unknown',
+                category: UNCATEGORIZED,
+                categoryId: categoryId ?? undefined,
+                fromVerdict,
+                toVerdict,
+                rules: describeMatchedRules(simulated),
+            })
+        }
+
+        if (truncated || !batch.hasNextPage) break
+        page++
+    }
+
+    // Resolve category names for grouping
+    const categoryIds = [...new Set(changes.map(c => c.categoryId).filter((id): id is number => !!id))]
+    if (categoryIds.length > 0) {
+        const categories = await payload.find({
+            collection: 'categories',
+            where: { id: { in: categoryIds } },
+            pagination: false,
+            depth: 0,
+        })
+        const names = new Map(categories.docs.map(c => [c.id, c.name]))
+        for (const change of changes) {
+            if (change.categoryId) change.category = names.get(change.categoryId) || UNCATEGORIZED
+        }
+    }
+
+    const cleanChanges: VerdictChange[] = changes.map(({ categoryId: _categoryId, ...change }) => change)
+
+    return {
+        scanned,
+        changed: cleanChanges.length,
+        heldByOverride,
+        newlyBlocked,
+        ...summarizeChanges(cleanChanges),
+        changes: cleanChanges,
+        truncated,
+    }
+}
@@ -0,0 +1,38 @@
+import type { JobStatus, JobSummary } from './job-queue'
+
+/**
+ * Client helper for admin components: poll GET /api/jobs/:id until a queued
+ * job finishes, reporting each update (progress bars, status text).
+ */
+
+const TERMINAL_STATUSES: JobStatus[] = ['succeeded', 'failed', 'dead_letter', 'cancelled']
+
+export function isTerminalJobStatus(status: JobStatus): boolean {
+    return TERMINAL_STATUSES.includes(status)
+}
+
+export async function waitForJob(
+    jobId: number | string,
+    onUpdate?: (job: JobSummary) => void,
+    { intervalMs = 2000, timeoutMs = 30 * 60 * 1000 } = {}
+): Promise<JobSummary> {
+    const deadline = Date.now() + timeoutMs
+
+    while (Date.now() < deadline) {
+        const res = await fetch(`/api/jobs/${jobId}`, { credentials: 'include' })
+        const data = await res.json()
+        if (!res.ok) {
+            throw new Error(data.error || 'Failed to load job status')
+        }
+
+        const job = data.job as JobSummary
+        onUpdate?.(job)
+        if (isTerminalJobStatus(job.status)) {
+            return job
+        }
+
+        await new Promise(resolve => setTimeout(resolve, intervalMs))
+    }
+
+    throw new Error('Timed out waiting for job; it is still visible in the job monitor')
+}
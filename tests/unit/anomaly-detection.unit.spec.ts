@@ -0,0 +1,57 @@
+/**
+ * Unit tests for anomaly detection
+ *
+ * Tests ingredient counting and how detectAnomaly compares package
+ * quantities and ingredient snapshots between two price records.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { countIngredients, detectAnomaly } from '@/utilities/anomaly-detection'
+
+type PriceRecord = Parameters<typeof detectAnomaly>[0]
+
+function record(overrides: Partial<PriceRecord> = {}): PriceRecord {
+  return {
+    id: 1,
+    product: 1,
+    price: 4.99,
+    capturedAt: '2026-01-01T00:00:00.000Z',
+    retailer: 'walmart',
+    ...overrides,
+  }
+}
+
+describe('countIngredients', () => {
+  it('counts top-level ingredients only', () => {
+    expect(countIngredients('Fish oil (anchovy, sardine), fish gelatin softgel (fish gelatin, glycerin), mixed tocopherols.')).toBe(3)
+    expect(countIngredients('Water; Sugar; Salt')).toBe(3)
+    expect(countIngredients('')).toBe(0)
+  })
+})
+
+describe('detectAnomaly', () => {
+  it('compares total quantity when both records know the unit count', () => {
+    const result = detectAnomaly(
+      record({ sizeNormalized: 6, unitCount: 8 }),
+      record({ sizeNormalized: 6, unitCount: 6 })
+    )
+    expect(result).toMatchObject({ type: 'shrinkflation', severity: 'high' })
+    expect(result.details).toMatchObject({ previousSize: 48, currentSize: 36, sizeChangePercent: -25 })
+  })
+
+  it('detects fewer capsules for the same price', () => {
+    const result = detectAnomaly(record({ unitCount: 100 }), record({ unitCount: 90 }))
+    expect(result.type).toBe('shrinkflation')
+  })
+
+  it('ignores a unit count only one record has', () => {
+    const result = detectAnomaly(record({ sizeNormalized: 40 }), record({ sizeNormalized: 40, unitCount: 2 }))
+    expect(result.detected).toBe(false)
+  })
+
+  it('only compares ingredient counts from the same source', () => {
+    const previous = record({ ingredientCount: 12, ingredientsSource: 'product' })
+    expect(detectAnomaly(previous, record({ ingredientCount: 8, ingredientsSource: 'retailer' })).detected).toBe(false)
+    expect(detectAnomaly(previous, record({ ingredientCount: 8, ingredientsSource: 'product' })).type).toBe('skimpflation')
+  })
+})
@@ -0,0 +1,333 @@
+/**
+ * Unit tests for the unified audit trail
+ *
+ * Tests change snapshots and diffs, timeline filters, revert planning
+ * (including conflicts and legacy entries), reverts through a mocked
+ * Payload, and the admin change hooks.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { PayloadRequest } from 'payload'
+import {
+  buildAuditTimelineWhere,
+  diffAuditEntry,
+  parseAuditTimelineQuery,
+  planRevert,
+  revertAuditEntry,
+  revertBlocker,
+  snapshotChanges,
+  toAuditValue,
+  type RevertCollections,
+} from '@/utilities/audit-trail'
+import { createAuditDeleteHook, createAuditLogHook } from '@/hooks/auditLog'
+
+const populatedCategory = { id: 3, name: 'Protein', createdAt: '2026-01-01', updatedAt: '2026-01-02' }
+
+// Votes point at products; nothing points at posts (locked documents aside)
+const COLLECTIONS = [
+  { slug: 'products', fields: [{ name: 'name', type: 'text' }] },
+  {
+    slug: 'product-votes',
+    fields: [{ type: 'tabs', tabs: [{ label: 'Vote', fields: [{ name: 'product', type: 'relationship', relationTo: 'products' }] }] }],
+  },
+  { slug: 'posts', fields: [{ name: 'title', type: 'text' }] },
+  { slug: 'users', auth: { useAPIKey: false }, fields: [{ name: 'email', type: 'email' }] },
+  { slug: 'payload-locked-documents', fields: [{ name: 'document', type: 'relationship', relationTo: ['products', 'posts', 'users'] }] },
+] as unknown as RevertCollections
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 100,
+    action: 'update',
+    targetType: 'collection',
+    targetCollection: 'products',
+    targetId: 12,
+    before: { name: 'Old name', verdict: 'recommend' },
+    after: { name: 'New name', verdict: 'flagged' },
+    metadata: null,
+    success: true,
+    ...overrides,
+  } as Parameters<typeof planRevert>[0]
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined)
+})
+
+describe('snapshots and diffs', () => {
+  it('normalizes populated relationships to ids but keeps array rows', () => {
+    expect(toAuditValue({ category: populatedCategory, pros: [{ id: 'row1', text: 'Good' }] }))
+      .toEqual({ category: 3, pros: [{ id: 'row1', text: 'Good' }] })
+  })
+
+  it('records only changed fields, with full values, ignoring depth and timestamps', () => {
+    const longReview = 'x'.repeat(500)
+    const snapshot = snapshotChanges(
+      { id: 12, name: 'A', category: 3, fullReview: 'short', updatedAt: '1' },
+      { id: 12, name: 'A', category: populatedCategory, fullReview: longReview, updatedAt: '2' }
+    )
+    expect(snapshot).toEqual({ before: { fullReview: 'short' }, after: { fullReview: longReview } })
+    expect(snapshotChanges({ name: 'A' }, { name: 'A' })).toBeNull()
+  })
+
+  it('keeps the whole document on delete and identifying fields on create', () => {
+    expect(snapshotChanges({ id: 12, name: 'A', category: populatedCategory }, null))
+      .toEqual({ before: { name: 'A', category: 3 }, after: {} })
+    expect(snapshotChanges(null, { id: 12, name: 'A', verdict: 'recommend' }))
+      .toEqual({ before: {}, after: { name: 'A' } })
+  })
+
+  it('diffs before / after field by field', () => {
+    expect(diffAuditEntry({ before: { a: 1, b: 'x' }, after: { a: 2, c: true } })).toEqual([
+      { field: 'a', before: 1, after: 2, kind: 'changed' },
+      { field: 'b', before: 'x', after: null, kind: 'removed' },
+      { field: 'c', before: null, after: true, kind: 'added' },
+    ])
+    expect(diffAuditEntry({ before: null, after: undefined })).toEqual([])
+  })
+})
+
+describe('timeline filters', () => {
+  it('parses document, actor, action and date filters', () => {
+    const filters = parseAuditTimelineQuery(new URLSearchParams(
+      'collection=products&documentId=12&actor=Jane@Example.com&action=update,delete&action=update&from=2026-01-01&to=2026-01-31'
+    ))
+    expect(filters).toEqual({
+      collection: 'products',
+      documentId: 12,
+      actor: 'Jane@Example.com',
+      actions: ['update', 'delete'],
+      from: '2026-01-01T00:00:00.000Z',
+      to: '2026-01-31T23:59:59.999Z',
+    })
+    expect(parseAuditTimelineQuery(new URLSearchParams('documentId=abc&from=nope'))).toEqual({})
+  })
+
+  it('builds a where clause per filter', () => {
+    expect(buildAuditTimelineWhere({})).toEqual({})
+    expect(buildAuditTimelineWhere({ actor: 'Jane@Example.com', actions: ['delete'], operation: 'op-1' })).toEqual({
+      and: [
+        { actorEmail: { equals: 'jane@example.com' } },
+        { action: { equals: 'delete' } },
+        { operation: { equals: 'op-1' } },
+      ],
+    })
+    expect(buildAuditTimelineWhere({ actor: '7', actions: ['create', 'update'] })).toEqual({
+      and: [{ performedBy: { equals: 7 } }, { action: { in: ['create', 'update'] } }],
+    })
+    expect(buildAuditTimelineWhere({ actor: 'system' })).toEqual({ and: [{ performedBy: { exists: false } }] })
+  })
+})
+
+describe('planRevert', () => {
+  it('restores prior values when the fields are unchanged since', () => {
+    expect(planRevert(entry(), { id: 12, name: 'New name', verdict: 'flagged' }, COLLECTIONS)).toEqual({
+      ok: true,
+      plan: { kind: 'update', collection: 'products', id: 12, data: { name: 'Old name', verdict: 'recommend' } },
+    })
+  })
+
+  it('refuses to overwrite later changes unless forced', () => {
+    const current = { id: 12, name: 'Newer name', verdict: 'flagged' }
+    const result = planRevert(entry(), current, COLLECTIONS)
+    expect(result).toMatchObject({ ok: false, status: 409, code: 'CONFLICT' })
+    expect(!result.ok && result.conflicts).toEqual([
+      { field: 'name', before: 'New name', after: 'Newer name', kind: 'changed' },
+    ])
+    expect(planRevert(entry(), current, COLLECTIONS, { force: true }).ok).toBe(true)
+  })
+
+  it('deletes created documents and recreates deleted ones', () => {
+    expect(planRevert(entry({ action: 'create', before: {} }), { id: 12 }, COLLECTIONS)).toEqual({
+      ok: true,
+      plan: { kind: 'delete', collection: 'products', id: 12 },
+    })
+    const deleted = entry({ action: 'delete', targetCollection: 'posts', before: { title: 'A', createdAt: 'x', _status: 'draft' }, after: {} })
+    expect(planRevert(deleted, null, COLLECTIONS))
+      .toEqual({ ok: true, plan: { kind: 'restore', collection: 'posts', data: { title: 'A', _status: 'draft' } } })
+    expect(planRevert(entry({ action: 'delete', targetCollection: 'posts' }), { id: 12 }, COLLECTIONS)).toMatchObject({ ok: false, code: 'DOCUMENT_EXISTS' })
+    expect(planRevert(entry(), null, COLLECTIONS)).toMatchObject({ ok: false, code: 'DOCUMENT_GONE' })
+  })
+
+  it('refuses restores that would leave references dangling or lack a password', () => {
+    const deletedProduct = entry({ action: 'delete', before: { name: 'Purged draft' }, after: {} })
+    expect(revertBlocker(deletedProduct, COLLECTIONS)).toBe('A restored document gets a new id, which product-votes would no longer point at')
+    expect(planRevert(deletedProduct, null, COLLECTIONS)).toMatchObject({ ok: false, status: 400, code: 'NOT_REVERTIBLE' })
+
+    const deletedUser = entry({ action: 'delete', targetCollection: 'users', before: { email: 'a@example.com' }, after: {} })
+    expect(revertBlocker(deletedUser, COLLECTIONS)).toBe('Deleted accounts cannot be restored - their password is not kept')
+
+    // Updates to referenced collections are unaffected
+    expect(revertBlocker(entry(), COLLECTIONS)).toBeNull()
+  })
+
+  it('reverts global settings changes', () => {
+    const global = entry({ action: 'settings_change', targetType: 'global', targetCollection: 'site-settings', targetId: null })
+    expect(planRevert(global, { name: 'New name', verdict: 'flagged' }, COLLECTIONS)).toEqual({
+      ok: true,
+      plan: { kind: 'global', slug: 'site-settings', data: { name: 'Old name', verdict: 'recommend' } },
+    })
+  })
+
+  it('refuses system events, failures and legacy entries', () => {
+    expect(planRevert(entry({ action: 'ai_verdict_set' }), {}, COLLECTIONS)).toMatchObject({ ok: false, code: 'NOT_REVERTIBLE' })
+    expect(planRevert(entry({ success: false }), {}, COLLECTIONS)).toMatchObject({ ok: false, code: 'NOT_REVERTIBLE' })
+    expect(planRevert(entry({ metadata: { legacy: true } }), {}, COLLECTIONS)).toMatchObject({ ok: false, code: 'NOT_REVERTIBLE' })
+  })
+})
+
+describe('revertAuditEntry', () => {
+  function createReq(options: { reverted?: boolean; current?: Record<string, unknown> | null; target?: Record<string, unknown> } = {}) {
+    const payload = {
+      config: { collections: COLLECTIONS },
+      findByID: vi.fn(async ({ collection }: { collection: string }) => {
+        if (collection === 'audit-log') return { ...entry(), ...options.target }
+        if (options.current === null) throw new Error('Not found')
+        return options.current ?? { id: 12, name: 'New name', verdict: 'flagged' }
+      }),
+      count: vi.fn(async () => ({ totalDocs: options.reverted ? 1 : 0 })),
+      update: vi.fn(async () => ({})),
+      delete: vi.fn(async () => ({})),
+      create: vi.fn(async ({ collection, data }: { collection: string; data: Record<string, unknown> }) =>
+        collection === 'audit-log' ? { id: 101, ...data } : { id: 55, ...data }),
+    }
+    const req = {
+      payload,
+      user: { id: 1, email: 'admin@example.com', role: 'admin', collection: 'users' },
+      headers: new Headers(),
+      context: {},
+    } as unknown as PayloadRequest
+    return { req, payload }
+  }
+
+  it('updates through Payload and records its own entry', async () => {
+    const { req, payload } = createReq()
+    const result = await revertAuditEntry(req, 100)
+
+    expect(result).toEqual({ ok: true, revertEntryId: 101, kind: 'update', documentId: 12 })
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'products',
+      id: 12,
+      data: { name: 'Old name', verdict: 'recommend' },
+      req,
+      context: { auditRevertOf: 100 },
+    }))
+    expect(payload.create).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'audit-log',
+      data: expect.objectContaining({
+        action: 'update',
+        revertOf: 100,
+        actorEmail: 'admin@example.com',
+        before: { name: 'New name', verdict: 'flagged' },
+        after: { name: 'Old name', verdict: 'recommend' },
+      }),
+    }))
+  })
+
+  it('recreates deleted documents', async () => {
+    const { req, payload } = createReq({
+      current: null,
+      target: { action: 'delete', targetCollection: 'posts', before: { title: 'Purged draft', _status: 'draft' }, after: {} },
+    })
+    const result = await revertAuditEntry(req, 100)
+
+    expect(result).toEqual({ ok: true, revertEntryId: 101, kind: 'restore', documentId: 55 })
+    expect(payload.create).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'posts',
+      data: { title: 'Purged draft', _status: 'draft' },
+    }))
+    expect(payload.create).toHaveBeenLastCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'create', targetId: 55, metadata: expect.objectContaining({ originalId: 12 }) }),
+    }))
+  })
+
+  it('refuses to restore deleted documents other collections point at', async () => {
+    const { req, payload } = createReq({ current: null, target: { action: 'delete', after: {} } })
+
+    expect(await revertAuditEntry(req, 100)).toMatchObject({ ok: false, code: 'NOT_REVERTIBLE' })
+    expect(payload.create).not.toHaveBeenCalled()
+  })
+
+  it('refuses to revert twice unless forced', async () => {
+    const { req, payload } = createReq({ reverted: true })
+    expect(await revertAuditEntry(req, 100)).toMatchObject({ ok: false, code: 'ALREADY_REVERTED' })
+    expect(payload.update).not.toHaveBeenCalled()
+    expect((await revertAuditEntry(req, 100, { force: true })).ok).toBe(true)
+  })
+
+  it('reports conflicts without writing', async () => {
+    const { req, payload } = createReq({ current: { id: 12, name: 'Newer name', verdict: 'flagged' } })
+    expect(await revertAuditEntry(req, 100)).toMatchObject({ ok: false, code: 'CONFLICT', status: 409 })
+    expect(payload.update).not.toHaveBeenCalled()
+    expect(payload.create).not.toHaveBeenCalled()
+  })
+})
+
+describe('admin change hooks', () => {
+  function hookReq(user: Record<string, unknown> | null, context: Record<string, unknown> = {}) {
+    const create = vi.fn(async () => ({ id: 1 }))
+    const req = {
+      payload: { create },
+      user,
+      headers: new Headers({ 'x-forwarded-for': '1.2.3.4, 10.0.0.1', 'user-agent': 'vitest' }),
+      context,
+    } as unknown as PayloadRequest
+    return { req, create }
+  }
+  const admin = { id: 1, email: 'Admin@Example.com', role: 'admin', collection: 'users' }
+  type HookArgs = Parameters<ReturnType<typeof createAuditLogHook>>[0]
+  type DeleteArgs = Parameters<ReturnType<typeof createAuditDeleteHook>>[0]
+
+  it('logs admin updates to the unified audit log with full values', async () => {
+    const { req, create } = hookReq(admin, { auditOperation: 'bulk-1' })
+    await createAuditLogHook('products')({
+      doc: { id: 12, name: 'New', fullReview: 'y'.repeat(400) },
+      previousDoc: { id: 12, name: 'Old', fullReview: 'short' },
+      operation: 'update',
+      req,
+    } as unknown as HookArgs)
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'audit-log',
+      data: expect.objectContaining({
+        action: 'update',
+        targetCollection: 'products',
+        targetId: 12,
+        summary: 'Updated: name, fullReview',
+        before: { name: 'Old', fullReview: 'short' },
+        after: { name: 'New', fullReview: 'y'.repeat(400) },
+        actorEmail: 'admin@example.com',
+        ipAddress: '1.2.3.4',
+        operation: 'bulk-1',
+      }),
+    }))
+  })
+
+  it('keeps the whole document on delete', async () => {
+    const { req, create } = hookReq(admin)
+    await createAuditDeleteHook('products')({
+      doc: { id: 12, name: 'Draft', status: 'ai_draft' },
+      req,
+    } as unknown as DeleteArgs)
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ action: 'delete', before: { name: 'Draft', status: 'ai_draft' } }),
+    }))
+  })
+
+  it('skips non-admins, unchanged saves and revert writes', async () => {
+    const args = { doc: { id: 12, name: 'New' }, previousDoc: { id: 12, name: 'Old' }, operation: 'update' }
+    for (const { req, create } of [
+      hookReq({ id: 2, role: 'user', collection: 'users' }),
+      hookReq({ id: 3, role: 'admin', collection: 'brand-users' }),
+      hookReq(admin, { auditRevertOf: 100 }),
+    ]) {
+      await createAuditLogHook('products')({ ...args, req } as unknown as HookArgs)
+      expect(create).not.toHaveBeenCalled()
+    }
+
+    const { req, create } = hookReq(admin)
+    await createAuditLogHook('products')({ ...args, previousDoc: args.doc, req } as unknown as HookArgs)
+    expect(create).not.toHaveBeenCalled()
+  })
+})
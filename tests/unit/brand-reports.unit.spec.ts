@@ -0,0 +1,209 @@
+/**
+ * Unit tests for brand benchmark reports
+ *
+ * Builds report data from BrandAnalytics-shaped snapshots, renders it to
+ * HTML and PDF (checking the PDF's cross-reference table is valid) and runs
+ * weekly delivery against a mocked Payload.
+ */
+
+import type { Payload } from 'payload'
+import { describe, it, expect, vi } from 'vitest'
+import {
+  aggregateTopProducts,
+  buildBrandReportData,
+  renderBrandReportHtml,
+  renderBrandReportPdf,
+  reportFileName,
+  reportPeriod,
+  runBrandReportDelivery,
+  type BrandReportData,
+  type BrandSnapshot,
+} from '@/utilities/brand-reports'
+
+const period = reportPeriod(new Date('2026-02-09T11:00:00Z'))
+
+const snapshots: BrandSnapshot[] = [
+  {
+    date: '2026-02-02',
+    scanCount: 120,
+    trustScore: 71,
+    trustGrade: 'C',
+    categoryRank: 6,
+    topScannedProducts: [
+      { productId: 1, name: 'Oat Milk', scanCount: 40 },
+      { productId: 2, name: 'Almond Milk', scanCount: 30 },
+    ],
+  },
+  {
+    date: '2026-02-08',
+    scanCount: 180,
+    trustScore: 76,
+    trustGrade: 'B',
+    categoryRank: 4,
+    verdictBreakdown: { recommendCount: 5, cautionCount: 2, avoidCount: 1 },
+    topScannedProducts: [
+      { productId: 2, name: 'Almond Milk', scanCount: 50 },
+      { productId: 3, name: 'Soy Milk <Original>', scanCount: 10 },
+    ],
+  },
+]
+
+const previousSnapshots: BrandSnapshot[] = [
+  { date: '2026-01-30', scanCount: 200, trustScore: 70, categoryRank: 0 },
+]
+
+function buildReport(edition: 'standard' | 'competitive' = 'competitive'): BrandReportData {
+  return buildBrandReportData({
+    brand: { id: 9, name: 'Oatly & Co' },
+    edition,
+    period,
+    snapshots,
+    previousSnapshots,
+    competitors: {
+      category: 'Plant Milk',
+      rank: 2,
+      entries: [
+        { name: 'Silk', avgScore: 82, productCount: 12, isSelf: false },
+        { name: 'Oatly & Co', avgScore: 76, productCount: 8, isSelf: true },
+        { name: 'Califia', avgScore: 64, productCount: 5, isSelf: false },
+      ],
+    },
+    generatedAt: new Date('2026-02-09T11:05:00Z'),
+  })
+}
+
+describe('reportPeriod', () => {
+  it('covers the seven full days before the run', () => {
+    expect(period.start).toBe('2026-02-02')
+    expect(period.end).toBe('2026-02-08')
+    expect(period.label).toBe('Feb 2, 2026 - Feb 8, 2026')
+  })
+})
+
+describe('buildBrandReportData', () => {
+  it('compares trust score against the last snapshot before the period', () => {
+    const report = buildReport()
+    expect(report.trustScore).toMatchObject({ current: 76, previous: 70, change: 6, grade: 'B' })
+    expect(report.trustScore.trend.map(t => t.score)).toEqual([71, 76])
+  })
+
+  it('reports rank movement, ignoring the placeholder rank 0', () => {
+    expect(buildReport().categoryRank).toMatchObject({ current: 4, previous: 6, change: 2 })
+  })
+
+  it('totals scans against the previous period', () => {
+    expect(buildReport().scans).toEqual({ total: 300, previousTotal: 200, changePercent: 50 })
+  })
+
+  it('drops the competitor comparison from the standard edition', () => {
+    expect(buildReport('standard').competitors).toBeNull()
+    expect(buildReport('competitive').competitors?.rank).toBe(2)
+  })
+
+  it('adds up top-scanned products across the period', () => {
+    expect(aggregateTopProducts(snapshots)).toEqual([
+      { productId: 2, name: 'Almond Milk', scanCount: 80 },
+      { productId: 1, name: 'Oat Milk', scanCount: 40 },
+      { productId: 3, name: 'Soy Milk <Original>', scanCount: 10 },
+    ])
+  })
+})
+
+describe('rendering', () => {
+  it('renders escaped, self-contained HTML', () => {
+    const html = renderBrandReportHtml(buildReport())
+    expect(html).toContain('Oatly &amp; Co Benchmark Report')
+    expect(html).toContain('Soy Milk &lt;Original&gt;')
+    expect(html).toContain('Competitor Comparison')
+    expect(html).toContain('<polyline')
+    expect(renderBrandReportHtml(buildReport('standard'))).not.toContain('Competitor Comparison')
+  })
+
+  it('renders a PDF with a valid cross-reference table', () => {
+    const pdf = renderBrandReportPdf(buildReport()).toString('latin1')
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true)
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true)
+    expect(pdf).toContain('(Oatly & Co Benchmark Report) Tj')
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1])
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref')
+
+    const entries = pdf.slice(startxref).match(/^\d{10} 00000 n $/gm) || []
+    expect(entries.length).toBeGreaterThan(5)
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10))
+      expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`)
+    })
+  })
+
+  it('names files after the brand and period end', () => {
+    expect(reportFileName(buildReport(), 'pdf')).toBe('oatly-co-benchmark-2026-02-08.pdf')
+  })
+})
+
+describe('runBrandReportDelivery', () => {
+  function mockPayload(existingReport: Record<string, unknown> | null) {
+    const users = [
+      { id: 1, email: 'pro@brand.test', brand: 9, features: { canViewCompetitors: true } },
+      { id: 2, email: 'free@brand.test', brand: 9, features: { canViewCompetitors: false } },
+    ]
+    const created: Record<string, unknown>[] = []
+    const payload = {
+      find: vi.fn(async ({ collection, where }: { collection: string; where: { and?: Array<Record<string, { equals: unknown }>> } }) => {
+        if (collection === 'brand-users') return { docs: users }
+        if (collection === 'brand-reports') {
+          const edition = where.and?.find(c => 'edition' in c)?.edition.equals
+          return { docs: existingReport && existingReport.edition === edition ? [existingReport] : [] }
+        }
+        return { docs: [], totalDocs: 0 }
+      }),
+      findByID: vi.fn(async () => ({ id: 9, name: 'Oatly & Co', trustScore: 76 })),
+      count: vi.fn(async () => ({ totalDocs: 3 })),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => {
+        const doc = { id: 100 + created.length, ...data }
+        created.push(doc)
+        return doc
+      }),
+      update: vi.fn(async () => ({})),
+      sendEmail: vi.fn(async () => ({})),
+    }
+    return { payload, created }
+  }
+
+  it('archives one issue per edition and emails each recipient their edition', async () => {
+    const { payload, created } = mockPayload(null)
+    const result = await runBrandReportDelivery(payload as unknown as Payload, { asOf: '2026-02-09T11:00:00Z' })
+
+    expect(result).toMatchObject({ recipients: 2, reports: 2, sent: 2, skipped: 0, failed: 0 })
+    expect(created.map(r => r.edition).sort()).toEqual(['competitive', 'standard'])
+    expect(created[0]).toMatchObject({ issueNumber: 4, periodStart: '2026-02-02', periodEnd: '2026-02-08' })
+
+    const emails = payload.sendEmail.mock.calls.map(call => (call as unknown[])[0] as { to: string; html: string; attachments: Array<{ filename: string; content: Buffer }> })
+    const proEmail = emails.find(e => e.to === 'pro@brand.test')
+    const freeEmail = emails.find(e => e.to === 'free@brand.test')
+    expect(proEmail?.html).toContain('Competitor Comparison')
+    expect(freeEmail?.html).not.toContain('Competitor Comparison')
+    expect(proEmail?.attachments[0].filename).toBe('oatly-co-benchmark-2026-02-08.pdf')
+    expect(proEmail?.attachments[0].content.subarray(0, 5).toString()).toBe('%PDF-')
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'brand-reports',
+      data: expect.objectContaining({ deliveredTo: [1] }),
+    }))
+  })
+
+  it('skips recipients an archived issue was already delivered to', async () => {
+    const existing = {
+      id: 50,
+      brand: 9,
+      edition: 'competitive',
+      report: buildReport(),
+      deliveredTo: [1],
+    }
+    const { payload, created } = mockPayload(existing)
+    const result = await runBrandReportDelivery(payload as unknown as Payload, { asOf: '2026-02-09T11:00:00Z' })
+
+    expect(result).toMatchObject({ sent: 1, skipped: 1 })
+    expect(created.map(r => r.edition)).toEqual(['standard'])
+    expect(payload.sendEmail).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for the push campaign scheduler
+ *
+ * Tests timezone-aware recurrence (including DST), quiet hours, recipient
+ * gating (dedupe, cooldown, hourly cap) and per-zone occurrence planning.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  isQuietHours,
+  nextOccurrence,
+  previousOccurrence,
+  quietHoursEnd,
+  zonedTimeToUtc,
+} from '@/utilities/campaign-schedule'
+import { gateRecipients, type DeliveryHistory, type PushToken } from '@/utilities/campaign-delivery'
+import { planCampaignOccurrences } from '@/utilities/campaign-scheduler'
+
+const anchor = new Date('2026-01-01T00:00:00.000Z')
+
+function token(id: number, overrides: Partial<PushToken> = {}): PushToken {
+  return {
+    id,
+    token: `ExponentPushToken[${id}]`,
+    fingerprintHash: `fp-${id}`,
+    platform: 'ios',
+    isActive: true,
+    timezone: 'America/New_York',
+    ...overrides,
+  }
+}
+
+function history(overrides: Partial<DeliveryHistory> = {}): DeliveryHistory {
+  return { tokenLastSent: new Map(), userLastSent: new Map(), sentLastHour: 0, ...overrides }
+}
+
+describe('zoned time conversion', () => {
+  it('converts wall-clock time on both sides of a DST change', () => {
+    expect(zonedTimeToUtc(2026, 3, 7, 9, 0, 'America/New_York').toISOString()).toBe('2026-03-07T14:00:00.000Z')
+    expect(zonedTimeToUtc(2026, 3, 9, 9, 0, 'America/New_York').toISOString()).toBe('2026-03-09T13:00:00.000Z')
+  })
+})
+
+describe('recurrence', () => {
+  const daily = { frequency: 'daily' as const, hour: 9, minute: 30 }
+
+  it('finds the previous and next daily send in the campaign zone', () => {
+    const now = new Date('2026-02-10T16:00:00.000Z') // 11:00 in New York
+    expect(previousOccurrence(daily, 'America/New_York', now, anchor)?.toISOString()).toBe('2026-02-10T14:30:00.000Z')
+    expect(nextOccurrence(daily, 'America/New_York', now, anchor)?.toISOString()).toBe('2026-02-11T14:30:00.000Z')
+  })
+
+  it('only sends weekly campaigns on the chosen days', () => {
+    const weekly = { frequency: 'weekly' as const, daysOfWeek: ['1', '4'], hour: 8, minute: 0 }
+    const now = new Date('2026-02-11T12:00:00.000Z') // Wednesday
+    expect(previousOccurrence(weekly, 'UTC', now, anchor)?.toISOString()).toBe('2026-02-09T08:00:00.000Z')
+    expect(nextOccurrence(weekly, 'UTC', now, anchor)?.toISOString()).toBe('2026-02-12T08:00:00.000Z')
+  })
+
+  it('keeps bi-weekly and monthly campaigns on the anchor phase', () => {
+    const start = new Date('2026-01-31T00:00:00.000Z')
+    const biweekly = { frequency: 'biweekly' as const, hour: 9, minute: 0 }
+    const monthly = { frequency: 'monthly' as const, hour: 9, minute: 0 }
+    const now = new Date('2026-02-20T00:00:00.000Z')
+
+    expect(nextOccurrence(biweekly, 'UTC', now, start)?.toISOString()).toBe('2026-02-28T09:00:00.000Z')
+    // Anchored on the 31st: last day of February
+    expect(nextOccurrence(monthly, 'UTC', now, start)?.toISOString()).toBe('2026-02-28T09:00:00.000Z')
+  })
+
+  it('stops at the end date and never fires before the anchor', () => {
+    const ended = { ...daily, endDate: '2026-02-05T00:00:00.000Z' }
+    expect(nextOccurrence(ended, 'UTC', new Date('2026-02-10T00:00:00.000Z'), anchor)).toBeNull()
+    expect(previousOccurrence(daily, 'UTC', new Date('2026-02-10T08:00:00.000Z'), new Date('2026-02-09T12:00:00.000Z'))).toBeNull()
+  })
+})
+
+describe('quiet hours', () => {
+  it('holds sends between 10pm and 8am recipient time', () => {
+    const now = new Date('2026-02-10T04:00:00.000Z') // 11pm New York, 8pm Los Angeles
+    expect(isQuietHours(now, 'America/New_York')).toBe(true)
+    expect(isQuietHours(now, 'America/Los_Angeles')).toBe(false)
+    expect(quietHoursEnd(now, 'America/New_York').toISOString()).toBe('2026-02-10T13:00:00.000Z')
+  })
+})
+
+describe('recipient gating', () => {
+  const now = new Date('2026-02-10T16:00:00.000Z') // 11am New York
+  const campaign = { rateLimiting: { cooldownHours: 24, respectQuietHours: true } }
+
+  it('skips tokens that already got this occurrence', () => {
+    const occurrence = new Date('2026-02-10T14:30:00.000Z')
+    const result = gateRecipients(
+      [token(1), token(2)],
+      campaign,
+      history({ tokenLastSent: new Map([[1, new Date('2026-02-10T14:31:00.000Z')]]) }),
+      now,
+      () => occurrence
+    )
+    expect(result.deliver.map(t => t.id)).toEqual([2])
+    expect(result.skipped.alreadySent).toBe(1)
+  })
+
+  it('applies the per-user cooldown across devices', () => {
+    const result = gateRecipients(
+      [token(1), token(2, { fingerprintHash: 'fp-1' })],
+      campaign,
+      history({ userLastSent: new Map([['fp-1', new Date('2026-02-10T06:00:00.000Z')]]) }),
+      now
+    )
+    expect(result.deliver).toHaveLength(0)
+    expect(result.skipped.cooldown).toBe(2)
+  })
+
+  it('tolerates a daily send landing a few minutes early', () => {
+    const occurrence = new Date('2026-02-10T14:30:00.000Z')
+    const result = gateRecipients(
+      [token(1)],
+      campaign,
+      history({ userLastSent: new Map([['fp-1', new Date('2026-02-09T14:40:00.000Z')]]) }),
+      now,
+      () => occurrence
+    )
+    expect(result.deliver).toHaveLength(1)
+  })
+
+  it('defers quiet-hours recipients to 8am their time', () => {
+    const result = gateRecipients([token(1, { timezone: 'Asia/Tokyo' })], campaign, history(), now)
+    expect(result.deferred).toEqual([
+      expect.objectContaining({ reason: 'quiet_hours', until: new Date('2026-02-10T23:00:00.000Z') }),
+    ])
+  })
+
+  it('defers recipients over the hourly cap', () => {
+    const result = gateRecipients(
+      [token(1), token(2), token(3)],
+      { rateLimiting: { maxPerHour: 5, cooldownHours: 0 } },
+      history({ sentLastHour: 4 }),
+      now
+    )
+    expect(result.deliver.map(t => t.id)).toEqual([1])
+    expect(result.deferred.map(d => d.reason)).toEqual(['rate_limit', 'rate_limit'])
+  })
+})
+
+describe('occurrence planning', () => {
+  const recurring = {
+    type: 'recurring' as const,
+    scheduledFor: null,
+    createdAt: anchor.toISOString(),
+    recurringSchedule: { frequency: 'daily' as const, hour: 9, minute: 0, timezone: 'user_local' },
+  }
+
+  it('marks each recipient zone due at its own local time', () => {
+    const now = new Date('2026-02-10T15:00:00.000Z') // 10am New York, 7am Los Angeles
+    const plan = planCampaignOccurrences(recurring, ['America/New_York', 'America/Los_Angeles'], now)
+
+    expect(plan.due.get('America/New_York')?.toISOString()).toBe('2026-02-10T14:00:00.000Z')
+    // Los Angeles hasn't reached 9am and yesterday's send is past the grace window
+    expect(plan.due.get('America/Los_Angeles')).toBeUndefined()
+    expect(plan.next?.toISOString()).toBe('2026-02-10T17:00:00.000Z')
+  })
+
+  it('finishes one-time campaigns once the grace window passes', () => {
+    const oneTime = { type: 'scheduled' as const, scheduledFor: '2026-02-10T09:00:00.000Z', createdAt: anchor.toISOString() }
+    expect(planCampaignOccurrences(oneTime, ['UTC'], new Date('2026-02-10T08:00:00.000Z'))).toMatchObject({ finished: false, next: new Date('2026-02-10T09:00:00.000Z') })
+    expect(planCampaignOccurrences(oneTime, ['UTC'], new Date('2026-02-10T10:00:00.000Z')).due.size).toBe(1)
+    expect(planCampaignOccurrences(oneTime, ['UTC'], new Date('2026-02-11T09:00:00.000Z')).finished).toBe(true)
+  })
+})
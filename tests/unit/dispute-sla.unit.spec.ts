@@ -0,0 +1,137 @@
+/**
+ * Unit tests for dispute-sla
+ *
+ * Tests business-day deadlines, SLA escalation rules, templated replies and
+ * escalation emails.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { Payload } from 'payload'
+import {
+  addBusinessDays,
+  assessDisputeSla,
+  buildManufacturerReply,
+  getReplyTemplateKey,
+  isDisputeOpen,
+  runDisputeSlaEngine,
+  type SlaDispute,
+} from '@/utilities/dispute-sla'
+import { formatManufacturerReply } from '@/lib/legal-copy'
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+
+function dispute(overrides: Partial<SlaDispute> = {}): SlaDispute {
+  return {
+    id: 1,
+    referenceNumber: 'DIS-2026-ABC123',
+    status: 'investigating',
+    priority: 'normal',
+    slaDeadline: '2026-03-20T12:00:00Z',
+    slaBreached: false,
+    ...overrides,
+  }
+}
+
+describe('dispute-sla', () => {
+  describe('addBusinessDays', () => {
+    it('skips weekends', () => {
+      // Friday + 1 business day = Monday
+      const result = addBusinessDays(new Date('2026-03-06T12:00:00Z'), 1)
+      expect(result.toISOString().slice(0, 10)).toBe('2026-03-09')
+      expect(addBusinessDays(new Date('2026-03-02T12:00:00Z'), 14).toISOString().slice(0, 10)).toBe('2026-03-20')
+    })
+  })
+
+  describe('isDisputeOpen', () => {
+    it('treats resolved and closed statuses as done', () => {
+      expect(isDisputeOpen('awaiting_lab')).toBe(true)
+      expect(isDisputeOpen('resolved_no_change')).toBe(false)
+      expect(isDisputeOpen('closed_no_response')).toBe(false)
+    })
+  })
+
+  describe('assessDisputeSla', () => {
+    it('leaves disputes with time to spare alone', () => {
+      expect(assessDisputeSla(dispute(), NOW)).toMatchObject({
+        state: 'on_track',
+        hoursRemaining: 240,
+        priority: 'normal',
+        changed: false,
+      })
+    })
+
+    it('escalates to high when the deadline is near', () => {
+      const result = assessDisputeSla(dispute({ slaDeadline: '2026-03-11T12:00:00Z' }), NOW)
+      expect(result).toMatchObject({ state: 'at_risk', priority: 'high', changed: true, newlyBreached: false })
+    })
+
+    it('flags breaches once and escalates to urgent', () => {
+      const overdue = dispute({ slaDeadline: '2026-03-10T11:30:00Z' })
+      expect(assessDisputeSla(overdue, NOW)).toMatchObject({ state: 'breached', priority: 'urgent', newlyBreached: true })
+
+      const alreadyHandled = dispute({ slaDeadline: '2026-03-09T12:00:00Z', slaBreached: true, priority: 'urgent' })
+      expect(assessDisputeSla(alreadyHandled, NOW)).toMatchObject({ state: 'breached', changed: false })
+    })
+
+    it('never lowers priority and ignores closed disputes', () => {
+      expect(assessDisputeSla(dispute({ priority: 'urgent', slaDeadline: '2026-03-11T12:00:00Z' }), NOW).changed).toBe(false)
+      expect(assessDisputeSla(dispute({ status: 'resolved_updated', slaDeadline: '2026-03-01T00:00:00Z' }), NOW)).toMatchObject({
+        state: 'closed',
+        changed: false,
+      })
+    })
+  })
+
+  describe('templated replies', () => {
+    it('maps statuses to legal-copy templates', () => {
+      expect(getReplyTemplateKey('pending')).toBe('ACKNOWLEDGEMENT')
+      expect(getReplyTemplateKey('closed_insufficient')).toBe('CLOSED_INSUFFICIENT')
+    })
+
+    it('fills dispute details into the template', () => {
+      const reply = buildManufacturerReply(
+        {
+          referenceNumber: 'DIS-2026-ABC123',
+          status: 'pending',
+          submittedAt: '2026-03-02T09:00:00Z',
+          slaDeadline: '2026-03-20T09:00:00Z',
+        },
+        'Oat Puffs'
+      )
+      expect(reply).toBe(
+        'We received dispute DIS-2026-ABC123 regarding Oat Puffs on 2026-03-02. We review all manufacturer disputes within 14 business days and will respond by 2026-03-20.'
+      )
+    })
+
+    it('drops missing placeholders cleanly', () => {
+      expect(formatManufacturerReply('Updated {productName}. {updateDescription}', { productName: 'Oat Puffs' })).toBe(
+        'Updated Oat Puffs.'
+      )
+    })
+  })
+
+  describe('runDisputeSlaEngine', () => {
+    it('escapes the company name in escalation emails', async () => {
+      const sendEmail = vi.fn(async () => undefined)
+      const payload = {
+        find: vi.fn(async ({ collection }: { collection: string }) =>
+          collection === 'users'
+            ? { docs: [{ email: 'admin@example.com' }] }
+            : {
+                docs: [dispute({ slaDeadline: '2026-03-09T12:00:00Z', companyName: '<img src=x onerror=alert(1)>' })],
+                hasNextPage: false,
+              }
+        ),
+        update: vi.fn(async () => ({})),
+        sendEmail,
+      } as unknown as Payload
+
+      const result = await runDisputeSlaEngine(payload, NOW)
+
+      expect(result).toMatchObject({ breached: 1, notified: 1 })
+      const { html } = (sendEmail.mock.calls[0] as unknown as [{ html: string }])[0]
+      expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;')
+      expect(html).not.toContain('<img')
+    })
+  })
+})
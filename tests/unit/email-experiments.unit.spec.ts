@@ -0,0 +1,124 @@
+/**
+ * Unit tests for email experiments
+ *
+ * Tests arm construction and weighted assignment, the normal/Wilson/z-test
+ * statistics, and the fixed-horizon winner decision with the Bonferroni
+ * correction.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  analyzeExperiment,
+  applyVariant,
+  assignVariant,
+  getExperimentArms,
+  isExperimentRunning,
+  normalCdf,
+  normalQuantile,
+  twoProportionPValue,
+  wilsonInterval,
+  type ArmCounts,
+} from '@/utilities/email-experiments'
+
+const now = new Date('2026-02-10T12:00:00.000Z')
+const started = { startedAt: '2026-02-07T12:00:00.000Z', holdoutHours: 48, minSampleSize: 100 }
+
+function arm(key: ArmCounts['key'], sent: number, opened: number, clicked = 0): ArmCounts {
+  return { key, sent, opened, clicked }
+}
+
+describe('experiment arms', () => {
+  it('puts control first and skips duplicate or unknown keys', () => {
+    const arms = getExperimentArms({
+      variants: [
+        { key: 'B', subject: 'Shorter subject', headline: '  ' },
+        { key: 'B', subject: 'Duplicate' },
+        { key: 'Z', subject: 'Unknown' },
+        { key: 'C', ctaText: 'See results', weight: 2 },
+      ],
+    })
+    expect(arms.map(a => a.key)).toEqual(['A', 'B', 'C'])
+    expect(arms[1].content).toEqual({ subject: 'Shorter subject' })
+    expect(arms[2].weight).toBe(2)
+  })
+
+  it('runs the legacy subjectVariantB as a two-arm test', () => {
+    const template = { status: 'ab_testing', subjectVariantB: 'Alt subject' }
+    expect(getExperimentArms(template).map(a => a.content.subject)).toEqual([undefined, 'Alt subject'])
+    expect(isExperimentRunning(template)).toBe(true)
+    expect(isExperimentRunning({ ...template, status: 'active' })).toBe(false)
+  })
+
+  it('assigns arms by weight and never picks a zero-weight arm', () => {
+    const arms = getExperimentArms({ experiment: { controlWeight: 1 }, variants: [{ key: 'B', weight: 3 }] })
+    expect(assignVariant(arms, () => 0.2).key).toBe('A')
+    expect(assignVariant(arms, () => 0.5).key).toBe('B')
+
+    const noControl = getExperimentArms({ experiment: { controlWeight: 0 }, variants: [{ key: 'B' }] })
+    expect(assignVariant(noControl, () => 0).key).toBe('B')
+  })
+
+  it('applies only the fields a variant overrides', () => {
+    const template = { subject: 'Control', headline: 'Headline', ctaText: 'Open' }
+    const [, challenger] = getExperimentArms({ variants: [{ key: 'B', subject: 'Challenger' }] })
+    expect(applyVariant(template, challenger)).toEqual({ subject: 'Challenger', headline: 'Headline', ctaText: 'Open' })
+  })
+})
+
+describe('statistics', () => {
+  it('approximates the normal distribution', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.959964, 5)
+    expect(normalQuantile(0.005)).toBeCloseTo(-2.575829, 5)
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 4)
+  })
+
+  it('computes Wilson intervals', () => {
+    const interval = wilsonInterval(50, 100, 0.95)
+    expect(interval.low).toBeCloseTo(0.4038, 3)
+    expect(interval.high).toBeCloseTo(0.5962, 3)
+    expect(wilsonInterval(0, 0, 0.95)).toEqual({ low: 0, high: 1 })
+  })
+
+  it('tests a difference in proportions', () => {
+    const p = twoProportionPValue(100, 1000, 150, 1000)
+    expect(p).toBeGreaterThan(0.0005)
+    expect(p).toBeLessThan(0.001)
+    expect(twoProportionPValue(0, 100, 0, 100)).toBe(1)
+  })
+})
+
+describe('winner decision', () => {
+  it('waits for the holdout and the minimum sample', () => {
+    const counts = [arm('A', 1000, 100), arm('B', 1000, 150)]
+    const early = analyzeExperiment(counts, { ...started, startedAt: '2026-02-10T00:00:00.000Z' }, now)
+    expect(early).toMatchObject({ winner: null, pending: 'holdout', evaluateAfter: '2026-02-12T00:00:00.000Z' })
+
+    const small = analyzeExperiment([arm('A', 1000, 100), arm('B', 80, 20)], started, now)
+    expect(small).toMatchObject({ winner: null, pending: 'sample' })
+  })
+
+  it('picks the challenger that beats control', () => {
+    const result = analyzeExperiment([arm('A', 1000, 100), arm('B', 1000, 150), arm('C', 1000, 105)], started, now)
+    expect(result.winner).toBe('B')
+    expect(result.adjustedConfidenceLevel).toBe(97.5)
+    expect(result.arms[1].vsControl?.interval.low).toBeGreaterThan(0)
+    expect(result.arms[2].vsControl?.significant).toBe(false)
+  })
+
+  it('keeps control when it beats every challenger, and calls a tie otherwise', () => {
+    expect(analyzeExperiment([arm('A', 1000, 150), arm('B', 1000, 100), arm('C', 1000, 95)], started, now).winner).toBe('A')
+    expect(analyzeExperiment([arm('A', 1000, 100), arm('B', 1000, 110)], started, now).winner).toBe('tie')
+  })
+
+  it('corrects for the number of challengers', () => {
+    // p ≈ 0.035: significant alone, not when split across two comparisons
+    expect(analyzeExperiment([arm('A', 1000, 100), arm('B', 1000, 130)], started, now).winner).toBe('B')
+    expect(analyzeExperiment([arm('A', 1000, 100), arm('B', 1000, 130), arm('C', 1000, 100)], started, now).winner).toBe('tie')
+  })
+
+  it('uses clicks when the metric is click rate', () => {
+    const counts = [arm('A', 1000, 300, 20), arm('B', 1000, 300, 60)]
+    expect(analyzeExperiment(counts, { ...started, metric: 'click' }, now).winner).toBe('B')
+    expect(analyzeExperiment(counts, started, now).winner).toBe('tie')
+  })
+})
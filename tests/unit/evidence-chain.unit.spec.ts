@@ -0,0 +1,117 @@
+/**
+ * Unit tests for evidence-chain
+ *
+ * Tests canonical hashing, version sealing and hash chain verification.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  canonicalJson,
+  computeVersionHash,
+  evidenceChanged,
+  isSha256,
+  sealVersion,
+  sha256Hex,
+  verifyHashChain,
+  type SealedReportVersion,
+} from '@/utilities/evidence-chain'
+
+const COA_HASH = sha256Hex('%PDF-1.7 certificate of analysis')
+
+function buildChain(): SealedReportVersion[] {
+  const v1 = sealVersion({
+    versionNumber: 1,
+    publishedAt: '2026-01-12T00:00:00.000Z',
+    snapshot: { verdict: 'recommend', detections: [{ compound: 'Lead', level: '4 ppb' }] },
+    changeReason: 'Initial publication',
+    labReportHash: COA_HASH,
+  })
+  const v2 = sealVersion(
+    {
+      versionNumber: 2,
+      publishedAt: '2026-02-03T00:00:00.000Z',
+      snapshot: { verdict: 'caution', detections: [{ compound: 'Lead', level: '14 ppb' }] },
+      changeReason: 'Content update',
+      labReportHash: COA_HASH,
+    },
+    v1
+  )
+  return [v1, v2]
+}
+
+describe('evidence-chain', () => {
+  describe('hashing', () => {
+    it('produces hex SHA-256 digests', () => {
+      expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+      expect(isSha256(COA_HASH)).toBe(true)
+      expect(isSha256('not-a-hash')).toBe(false)
+    })
+
+    it('ignores key order so jsonb round trips hash the same', () => {
+      expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: null }], c: undefined } })).toBe(
+        '{"a":{"d":[1,{"e":null,"f":2}]},"b":1}'
+      )
+      const [v1] = buildChain()
+      const reordered = { ...v1, snapshot: { detections: [{ level: '4 ppb', compound: 'Lead' }], verdict: 'recommend' } }
+      expect(computeVersionHash(reordered)).toBe(v1.hash)
+    })
+  })
+
+  describe('sealVersion', () => {
+    it('links each version to the previous hash', () => {
+      const [v1, v2] = buildChain()
+
+      expect(v1.previousHash).toBeNull()
+      expect(v2.previousHash).toBe(v1.hash)
+      expect(isSha256(v2.hash)).toBe(true)
+    })
+
+    it('does not seal annotations like the change reason', () => {
+      const [v1] = buildChain()
+      expect(computeVersionHash({ ...v1, changeReason: 'Manufacturer dispute DIS-2026-ABC123' })).toBe(v1.hash)
+    })
+  })
+
+  describe('verifyHashChain', () => {
+    it('accepts an intact chain', () => {
+      const result = verifyHashChain(buildChain())
+      expect(result).toMatchObject({ valid: true, sealedVersions: 2, unsealedVersions: 0, brokenAt: null })
+    })
+
+    it('detects edited snapshots and swapped evidence', () => {
+      const [v1, v2] = buildChain()
+
+      const edited = verifyHashChain([{ ...v1, snapshot: { verdict: 'recommend', detections: [] } }, v2])
+      expect(edited).toMatchObject({ valid: false, brokenAt: 1 })
+      expect(edited.links[0].status).toBe('hash_mismatch')
+
+      const swapped = verifyHashChain([v1, { ...v2, labReportHash: sha256Hex('forged') }])
+      expect(swapped.brokenAt).toBe(2)
+    })
+
+    it('detects a rewritten history with re-sealed versions', () => {
+      const [v1, v2] = buildChain()
+      const forgedV1 = sealVersion({ ...v1, snapshot: { verdict: 'caution' } })
+
+      const result = verifyHashChain([forgedV1, v2])
+      expect(result).toMatchObject({ valid: false, brokenAt: 2 })
+      expect(result.links[1].status).toBe('broken_link')
+    })
+
+    it('allows unsealed legacy versions only before the chain starts', () => {
+      const legacy: SealedReportVersion = { versionNumber: 1, publishedAt: '2025-11-01T00:00:00.000Z', snapshot: {} }
+      const v2 = sealVersion({ versionNumber: 2, publishedAt: '2026-01-12T00:00:00.000Z', snapshot: {} }, legacy)
+
+      expect(verifyHashChain([legacy, v2])).toMatchObject({ valid: true, sealedVersions: 1, unsealedVersions: 1 })
+      expect(verifyHashChain([v2, { ...legacy, versionNumber: 3 }])).toMatchObject({ valid: false, brokenAt: 3 })
+    })
+  })
+
+  describe('evidenceChanged', () => {
+    it('compares lab report and chain of custody hashes', () => {
+      expect(evidenceChanged({ labReportHash: COA_HASH }, { labReportHash: COA_HASH, chainOfCustodyHash: null })).toBe(false)
+      expect(evidenceChanged({ labReportHash: COA_HASH }, { labReportHash: sha256Hex('new COA') })).toBe(true)
+      expect(evidenceChanged(undefined, { chainOfCustodyHash: COA_HASH })).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for hybrid search ranking
+ *
+ * Tests filter parsing, reciprocal rank fusion with the click boost and
+ * disjunctive facet counts.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  applySearchFilters,
+  computeSearchFacets,
+  fuseSearchRankings,
+  normalizeSearchQuery,
+  parseSearchFilters,
+  type SearchCandidate,
+} from '@/utilities/hybrid-search'
+
+function candidate(overrides: Partial<SearchCandidate> & { id: number }): SearchCandidate {
+  return {
+    name: `Product ${overrides.id}`,
+    brand: 'Acme',
+    verdict: 'recommend',
+    categoryId: 1,
+    categoryName: 'Protein',
+    priceRange: '$$',
+    tested: true,
+    imageUrl: null,
+    summary: null,
+    slug: null,
+    ...overrides,
+  }
+}
+
+const candidates = [
+  candidate({ id: 1 }),
+  candidate({ id: 2, verdict: 'caution', brand: 'Bolt', priceRange: '$' }),
+  candidate({ id: 3, verdict: 'avoid', categoryId: 2, categoryName: 'Snacks', tested: false }),
+  candidate({ id: 4, verdict: 'flagged', brand: 'Bolt', categoryId: 2, categoryName: 'Snacks' }),
+]
+
+describe('query and filter parsing', () => {
+  it('normalizes case, punctuation and whitespace', () => {
+    expect(normalizeSearchQuery('  Whey   PROTEIN!! ')).toBe('whey protein')
+  })
+
+  it('accepts comma lists and arrays and drops unknown values', () => {
+    expect(parseSearchFilters({
+      verdict: 'recommend,bogus',
+      category: ['3', 'x', '-1'],
+      brand: 'Acme, Bolt',
+      priceRange: '$$,$$$$$',
+      testedOnly: 'true',
+    })).toEqual({
+      verdicts: ['recommend'],
+      categoryIds: [3],
+      brands: ['Acme', 'Bolt'],
+      priceRanges: ['$$'],
+      testedOnly: true,
+    })
+    expect(parseSearchFilters(null)).toEqual({})
+  })
+})
+
+describe('rank fusion', () => {
+  it('ranks products found by both signals above single-signal matches', () => {
+    const fused = fuseSearchRankings(
+      [{ id: 1, score: 0.9 }, { id: 2, score: 0.5 }],
+      [{ id: 3, score: 0.95 }, { id: 2, score: 0.8 }],
+      new Map()
+    )
+
+    expect(fused[0]).toMatchObject({ id: 2, keywordRank: 2, vectorRank: 2 })
+    expect(fused.map(f => f.id)).toEqual([2, 1, 3])
+  })
+
+  it('lets click history lift a lower-ranked product', () => {
+    const keyword = [{ id: 1, score: 0.9 }, { id: 2, score: 0.8 }]
+    const withoutClicks = fuseSearchRankings(keyword, [], new Map())
+    const withClicks = fuseSearchRankings(keyword, [], new Map([[2, 20]]))
+
+    expect(withoutClicks[0].id).toBe(1)
+    expect(withClicks[0]).toMatchObject({ id: 2, clicks: 20 })
+  })
+
+  it('adds clicked products that neither signal returned', () => {
+    const fused = fuseSearchRankings([], [], new Map([[9, 3]]))
+    expect(fused).toEqual([expect.objectContaining({ id: 9, keywordRank: null, vectorRank: null })])
+  })
+})
+
+describe('facets and filters', () => {
+  it('treats legacy avoid verdicts as flagged', () => {
+    const flagged = applySearchFilters(candidates, { verdicts: ['flagged'] })
+    expect(flagged.map(c => c.id)).toEqual([3, 4])
+  })
+
+  it('counts each facet without its own selection', () => {
+    const facets = computeSearchFacets(candidates, { verdicts: ['recommend'], brands: ['Bolt'] })
+
+    // Verdict counts only respect the brand filter
+    expect(facets.verdict).toEqual([
+      { value: 'caution', label: 'Caution', count: 1 },
+      { value: 'flagged', label: 'Flagged', count: 1 },
+    ])
+    // Brand counts only respect the verdict filter
+    expect(facets.brand).toEqual([{ value: 'Acme', label: 'Acme', count: 1 }])
+    expect(facets.tested.count).toBe(0)
+  })
+
+  it('orders price ranges from cheapest to most expensive', () => {
+    const facets = computeSearchFacets(candidates, {})
+    expect(facets.priceRange.map(b => b.value)).toEqual(['$', '$$'])
+    expect(facets.tested.count).toBe(3)
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for ingredient-registry
+ *
+ * Tests identifier normalization, label splitting and registry matching.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildIngredientIndex,
+  isValidCasNumber,
+  matchIngredient,
+  normalizeCasNumber,
+  normalizeENumber,
+  normalizeIngredientName,
+  splitIngredientText,
+  worstIngredientVerdict,
+  type RegistryIngredient,
+} from '@/utilities/ingredient-registry'
+
+const REGISTRY: RegistryIngredient[] = [
+  {
+    id: 1,
+    name: 'Titanium Dioxide',
+    verdict: 'flagged',
+    casNumber: '13463-67-7',
+    eNumber: 'E171',
+    synonyms: [{ synonym: 'CI 77891' }],
+  },
+  {
+    id: 2,
+    name: 'Sodium Benzoate',
+    verdict: 'caution',
+    synonyms: [{ synonym: 'E211' }],
+  },
+  { id: 3, name: 'Sodium', verdict: 'safe' },
+  { id: 4, name: 'Red 40', verdict: 'caution', synonyms: [{ synonym: 'Allura Red' }] },
+  { id: 5, name: 'Water', verdict: 'safe', casNumber: '7732-18-5' },
+]
+
+describe('ingredient-registry', () => {
+  describe('CAS numbers', () => {
+    it('accepts numbers with a valid check digit', () => {
+      expect(isValidCasNumber('13463-67-7')).toBe(true)
+      expect(isValidCasNumber('7732-18-5')).toBe(true)
+    })
+
+    it('rejects numbers with a bad check digit', () => {
+      expect(isValidCasNumber('13463-67-8')).toBe(false)
+      expect(isValidCasNumber('not-a-cas')).toBe(false)
+    })
+
+    it('normalizes whitespace and missing hyphens', () => {
+      expect(normalizeCasNumber(' 13463 67 7 ')).toBe('13463-67-7')
+      expect(normalizeCasNumber('7732185')).toBe('7732-18-5')
+    })
+  })
+
+  describe('normalizeENumber', () => {
+    it('canonicalizes spacing, hyphens and suffix case', () => {
+      expect(normalizeENumber('e 171')).toBe('E171')
+      expect(normalizeENumber('E-150A')).toBe('E150a')
+    })
+
+    it('leaves non E-numbers untouched', () => {
+      expect(normalizeENumber('Sugar')).toBe('Sugar')
+    })
+  })
+
+  describe('normalizeIngredientName', () => {
+    it('collapses dye naming variants', () => {
+      expect(normalizeIngredientName('FD&C Red No. 40')).toBe('red 40')
+    })
+
+    it('strips descriptors and trailing percentages', () => {
+      expect(normalizeIngredientName('Organic Cane Sugar 2%')).toBe('cane sugar')
+    })
+  })
+
+  describe('splitIngredientText', () => {
+    it('splits on top-level delimiters and flattens nested lists', () => {
+      expect(splitIngredientText('Ingredients: Sugar (Cane Sugar, Brown Sugar), Water; Salt.')).toEqual([
+        'Sugar',
+        'Cane Sugar',
+        'Brown Sugar',
+        'Water',
+        'Salt',
+      ])
+    })
+
+    it('returns an empty list for blank input', () => {
+      expect(splitIngredientText('   ')).toEqual([])
+    })
+  })
+
+  describe('matchIngredient', () => {
+    const index = buildIngredientIndex(REGISTRY)
+
+    it('matches canonical names and synonyms', () => {
+      expect(matchIngredient(index, 'titanium dioxide')).toMatchObject({ matchType: 'exact', ingredient: { id: 1 } })
+      expect(matchIngredient(index, 'CI 77891')).toMatchObject({ matchType: 'synonym', ingredient: { id: 1 } })
+      expect(matchIngredient(index, 'FD&C Red #40')).toMatchObject({ matchType: 'exact', ingredient: { id: 4 } })
+    })
+
+    it('matches E-numbers and CAS numbers', () => {
+      expect(matchIngredient(index, 'e-171')).toMatchObject({ matchType: 'e_number', ingredient: { id: 1 } })
+      expect(matchIngredient(index, 'E211')).toMatchObject({ matchType: 'e_number', ingredient: { id: 2 } })
+      expect(matchIngredient(index, 'CAS 7732-18-5')).toMatchObject({ matchType: 'cas', ingredient: { id: 5 } })
+    })
+
+    it('prefers the longest whole-word partial match', () => {
+      expect(matchIngredient(index, 'Sodium Benzoate (preservative) blend')).toMatchObject({
+        matchType: 'partial',
+        ingredient: { id: 2 },
+      })
+    })
+
+    it('falls back to fuzzy matching only when enabled', () => {
+      expect(matchIngredient(index, 'Titanium Dioxyde')).toMatchObject({
+        matchType: 'fuzzy',
+        fuzzyDistance: 1,
+        ingredient: { id: 1 },
+      })
+      expect(matchIngredient(index, 'Titanium Dioxyde', { enableFuzzy: false })).toBeNull()
+    })
+
+    it('returns null for unknown ingredients', () => {
+      expect(matchIngredient(index, 'Xanthan Gum')).toBeNull()
+    })
+  })
+
+  describe('worstIngredientVerdict', () => {
+    it('maps the worst ingredient verdict to a product verdict', () => {
+      expect(worstIngredientVerdict(['safe', 'caution'])).toBe('caution')
+      expect(worstIngredientVerdict(['safe', 'flagged', 'caution'])).toBe('flagged')
+      expect(worstIngredientVerdict(['safe'])).toBe('recommend')
+      expect(worstIngredientVerdict(['unknown'])).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the durable job queue
+ *
+ * Tests job status derivation, progress summaries and the task runtime:
+ * retries, dead-lettering and cancellation against a fake payload.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { Payload, PayloadRequest } from 'payload'
+import {
+  computeJobProgress,
+  createJobContext,
+  deriveJobStatus,
+  runDurableTask,
+  summarizeJob,
+} from '@/utilities/job-queue'
+
+const now = new Date('2026-01-27T12:00:00.000Z')
+
+function fakeRequest(updateResult: Record<string, unknown> = {}) {
+  const update = vi.fn().mockResolvedValue(updateResult)
+  const payload = { update } as unknown as Payload
+  return { req: { payload } as PayloadRequest, update }
+}
+
+describe('job status', () => {
+  it('derives each status from payload-jobs fields', () => {
+    expect(deriveJobStatus({ id: 1 }, now)).toBe('queued')
+    expect(deriveJobStatus({ id: 1, waitUntil: '2026-01-28T00:00:00.000Z' }, now)).toBe('scheduled')
+    expect(deriveJobStatus({ id: 1, processing: true }, now)).toBe('running')
+    expect(deriveJobStatus({ id: 1, completedAt: '2026-01-27T11:00:00.000Z' }, now)).toBe('succeeded')
+    expect(deriveJobStatus({ id: 1, hasError: true, error: { message: 'boom' } }, now)).toBe('failed')
+    expect(deriveJobStatus({ id: 1, hasError: true, deadLetter: { deadLettered: true } }, now)).toBe('dead_letter')
+  })
+
+  it('reports cancellation over any other state', () => {
+    expect(deriveJobStatus({ id: 1, processing: true, hasError: true, error: { cancelled: true } }, now)).toBe('cancelled')
+  })
+
+  it('clamps progress and completes succeeded jobs', () => {
+    expect(computeJobProgress({ completed: 3, total: 4 })).toMatchObject({ completed: 3, total: 4, percent: 75 })
+    expect(computeJobProgress({ completed: 9, total: 4 })).toMatchObject({ completed: 4, percent: 100 })
+    expect(computeJobProgress(null, 'succeeded')).toMatchObject({ total: 0, percent: 100 })
+  })
+
+  it('summarizes dead letters with their reason and attempts', () => {
+    const summary = summarizeJob({
+      id: 7,
+      taskSlug: 'recall-watchdog',
+      hasError: true,
+      error: { message: 'Dead-lettered after 3 attempts: FDA 503' },
+      deadLetter: { deadLettered: true, reason: 'FDA 503', attempts: 3 },
+      requestedBy: { id: 12 },
+    }, now)
+
+    expect(summary).toMatchObject({
+      label: 'Recall Watchdog',
+      status: 'dead_letter',
+      error: 'FDA 503',
+      attempts: 3,
+      requestedBy: 12,
+    })
+  })
+})
+
+describe('job runtime', () => {
+  it('stores the result of a successful run', async () => {
+    const { req, update } = fakeRequest()
+    const result = await runDurableTask(req, 5, { limit: 2 }, async (_payload, params) => ({ processed: params.limit }))
+
+    expect(result).toEqual({ processed: 2 })
+    expect(update).toHaveBeenLastCalledWith(expect.objectContaining({
+      collection: 'payload-jobs',
+      id: 5,
+      data: { result: { processed: 2 } },
+    }))
+  })
+
+  it('retries and then dead-letters the job', async () => {
+    const { req, update } = fakeRequest()
+    const run = vi.fn().mockRejectedValue(new Error('upstream down'))
+
+    await expect(runDurableTask(req, 5, {}, run, { maxRetries: 1, initialDelayMs: 1 }))
+      .rejects.toThrow('Dead-lettered after 2 attempts: upstream down')
+
+    expect(run).toHaveBeenCalledTimes(2)
+    expect(update).toHaveBeenCalledWith(expect.objectContaining({
+      data: {
+        deadLetter: expect.objectContaining({ deadLettered: true, reason: 'upstream down', attempts: 2 }),
+      },
+    }))
+  })
+
+  it('stops without retrying once the job is cancelled', async () => {
+    const { req } = fakeRequest({ error: { cancelled: true } })
+    const run = vi.fn().mockImplementation(async (_payload, _params, job) => {
+      await job.progress(1, 10)
+      if (job.isCancelled()) throw new Error('aborted')
+      return { processed: 10 }
+    })
+
+    await expect(runDurableTask(req, 5, {}, run, { maxRetries: 2, initialDelayMs: 1 })).resolves.toEqual({ cancelled: true })
+    expect(run).toHaveBeenCalledTimes(1)
+  })
+
+  it('throttles progress writes but always writes completion', async () => {
+    vi.useFakeTimers()
+    const { req, update } = fakeRequest()
+    const job = createJobContext(req.payload, 5)
+
+    await job.progress(1, 3)
+    await job.progress(2, 3)
+    await job.progress(3, 3)
+
+    expect(update).toHaveBeenCalledTimes(2)
+    expect(update).toHaveBeenLastCalledWith(expect.objectContaining({
+      data: { progress: { completed: 3, total: 3, message: null } },
+    }))
+    vi.useRealTimers()
+  })
+})
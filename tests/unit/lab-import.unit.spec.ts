@@ -0,0 +1,209 @@
+/**
+ * Unit tests for lab-import
+ *
+ * Tests instrument export parsing (vendor CSV, mzML), peak scoring and
+ * mapping peaks to detection entries.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  computeMatchProbability,
+  detectLabFormat,
+  determineConfirmationLevel,
+  mapPeaksToDetections,
+  mergeDetections,
+  normalizeMatchScore,
+  parseLabFile,
+  uninvertLibraryName,
+  type InstrumentPeak,
+} from '@/utilities/lab-import'
+import { buildIngredientIndex } from '@/utilities/ingredient-registry'
+
+const MASSHUNTER_CSV = [
+  'Sample Name,Oat Puffs Lot 4471',
+  'Acq. Date-Time,2026-03-02T14:05:00Z',
+  'Instrument,Agilent 6470 LC/MS',
+  ',',
+  'Compound,CAS,Type,RT,Expected RT,Final Conc.,Units,Qualifier,Match Score,R2,Cal Levels,LOD,LOQ,Limit,Comment',
+  'Lead,7439-92-1,Target,3.42,3.40,14.2,ug/kg,Pass,92,0.9991,6,0.5 ppb,1.5 ppb,10 ppb,',
+  '"Benzene, methyl-",108-88-3,Target,5.80,5.45,2.1,ng/g,Fail,71,,,,,,',
+  'Cadmium,7440-43-9,Target,4.01,4.00,ND,ug/kg,,,,,,,,',
+  'd5-Atrazine,,ISTD,6.20,6.20,50,ng/g,Pass,99,,,,,,',
+  'Unknown 7.32,,Target,7.32,,,,,64,,,,,,',
+].join('\n')
+
+const MZML = `<?xml version="1.0" encoding="utf-8"?>
+<mzML xmlns="http://psi.hupo.org/ms/mzml" version="1.1.0">
+  <sampleList count="1"><sample id="S1" name="Oat Puffs Lot 4471"/></sampleList>
+  <instrumentConfigurationList count="1">
+    <instrumentConfiguration id="IC1">
+      <cvParam cvRef="MS" accession="MS:1002523" name="Q Exactive HF" value=""/>
+      <componentList count="0"/>
+    </instrumentConfiguration>
+  </instrumentConfigurationList>
+  <run id="r1" startTimeStamp="2026-03-02T14:05:00Z">
+    <spectrumList count="2">
+      <spectrum index="0" id="scan=101">
+        <cvParam cvRef="MS" accession="MS:1000016" name="scan start time" value="205.2" unitName="second"/>
+        <userParam name="compound" value="Lead"/>
+        <userParam name="expected RT" value="3.40"/>
+        <userParam name="concentration" value="14.2" unitName="ug/kg"/>
+        <userParam name="match score" value="0.92"/>
+        <userParam name="qualifier" value="pass"/>
+      </spectrum>
+      <spectrum index="1" id="scan=102">
+        <cvParam cvRef="MS" accession="MS:1000016" name="scan start time" value="311.0" unitName="second"/>
+      </spectrum>
+    </spectrumList>
+  </run>
+</mzML>`
+
+const INDEX = buildIngredientIndex([
+  { id: 1, name: 'Lead', verdict: 'flagged', casNumber: '7439-92-1' },
+  { id: 2, name: 'Toluene', verdict: 'caution', casNumber: '108-88-3', synonyms: [{ synonym: 'methylbenzene' }] },
+])
+
+function peak(overrides: Partial<InstrumentPeak> = {}): InstrumentPeak {
+  return {
+    source: 1,
+    name: 'Lead',
+    casNumber: null,
+    retentionTime: 3.42,
+    expectedRetentionTime: 3.4,
+    concentration: 14.2,
+    unit: 'ppb',
+    matchScore: 92,
+    reverseMatchScore: null,
+    qualifierIonsOk: true,
+    threshold: null,
+    limitOfDetection: null,
+    limitOfQuantification: null,
+    rSquared: 0.9991,
+    calibrationLevels: 6,
+    ...overrides,
+  }
+}
+
+describe('lab-import', () => {
+  describe('parseLabFile', () => {
+    it('detects the export format', () => {
+      expect(detectLabFormat(MZML)).toBe('mzml')
+      expect(detectLabFormat(MASSHUNTER_CSV)).toBe('vendor_csv')
+    })
+
+    it('reads vendor CSV metadata and peak rows', () => {
+      const parsed = parseLabFile(MASSHUNTER_CSV)
+
+      expect(parsed).toMatchObject({
+        format: 'vendor_csv',
+        sampleName: 'Oat Puffs Lot 4471',
+        instrument: 'Agilent 6470 LC/MS',
+        acquiredAt: '2026-03-02T14:05:00Z',
+        notDetected: 1,
+      })
+      expect(parsed.peaks.map(p => p.name)).toEqual(['Lead', 'Benzene, methyl-', 'Unknown 7.32'])
+      expect(parsed.peaks[0]).toMatchObject({
+        casNumber: '7439-92-1',
+        retentionTime: 3.42,
+        concentration: 14.2,
+        unit: 'ppb',
+        qualifierIonsOk: true,
+        threshold: '10 ppb',
+      })
+      expect(parsed.warnings).toEqual(['Ignored columns: Comment'])
+    })
+
+    it('reads annotated mzML spectra and converts seconds to minutes', () => {
+      const parsed = parseLabFile(MZML)
+
+      expect(parsed).toMatchObject({
+        format: 'mzml',
+        sampleName: 'Oat Puffs Lot 4471',
+        instrument: 'Q Exactive HF',
+        acquiredAt: '2026-03-02T14:05:00Z',
+      })
+      expect(parsed.peaks).toHaveLength(1)
+      expect(parsed.peaks[0]).toMatchObject({ name: 'Lead', matchScore: 92, unit: 'ppb', qualifierIonsOk: true })
+      expect(parsed.peaks[0].retentionTime).toBeCloseTo(3.42)
+      expect(parsed.warnings[0]).toMatch(/1 spectra\/chromatograms had no compound annotation/)
+    })
+
+    it('warns when no peak table is found', () => {
+      expect(parseLabFile('just,some\ntext,here').warnings[0]).toMatch(/No peak table header/)
+    })
+  })
+
+  describe('scoring', () => {
+    it('normalizes 0-1, 0-100 and NIST 0-999 scores', () => {
+      expect(normalizeMatchScore(0.92)).toBe(92)
+      expect(normalizeMatchScore(87)).toBe(87)
+      expect(normalizeMatchScore(912)).toBe(91.2)
+    })
+
+    it('rewards retention time agreement and penalizes drift and failed qualifiers', () => {
+      expect(computeMatchProbability(peak())).toBe(97)
+      expect(computeMatchProbability(peak({ retentionTime: 3.8 }))).toBe(82)
+      expect(computeMatchProbability(peak({ retentionTime: 4.5, qualifierIonsOk: false }))).toBe(52)
+      expect(computeMatchProbability(peak({ matchScore: null }))).toBe(90)
+      expect(computeMatchProbability(peak({ matchScore: null, expectedRetentionTime: null }))).toBeNull()
+    })
+
+    it('requires calibration data for quantified results', () => {
+      expect(determineConfirmationLevel(peak())).toBe('quantified')
+      expect(determineConfirmationLevel(peak({ rSquared: 0.98 }))).toBe('confirmed')
+      expect(determineConfirmationLevel(peak({ qualifierIonsOk: null }))).toBe('screening')
+    })
+  })
+
+  describe('mapPeaksToDetections', () => {
+    const { peaks } = parseLabFile(MASSHUNTER_CSV)
+    const { detections, unmatchedPeaks } = mapPeaksToDetections(peaks, { index: INDEX, packageText: 'Ingredients: oats, sugar' })
+
+    it('maps peaks to registry compounds with legal-copy display rules', () => {
+      expect(detections).toHaveLength(2)
+      expect(detections[0]).toMatchObject({
+        compound: 'Lead',
+        level: '14.2 ppb',
+        threshold: '10 ppb',
+        interpretation: 'above',
+        matchProbability: 97,
+        displayMode: 'primary',
+        detectionType: 'hidden_contaminant',
+        confirmationLevel: 'quantified',
+        referenceStandard: { retentionTimeMatch: true, spectrumMatch: true },
+        calibrationData: { rSquared: 0.9991, calibrationLevels: 6, limitOfDetection: '0.5 ppb' },
+      })
+      expect(detections[1]).toMatchObject({
+        compound: 'Toluene',
+        level: '2.1 ppb',
+        matchProbability: 46,
+        displayMode: 'hidden',
+        confirmationLevel: 'screening',
+      })
+    })
+
+    it('lists unidentified peaks for review', () => {
+      expect(unmatchedPeaks).toEqual([
+        { source: 10, name: 'Unknown 7.32', casNumber: null, retentionTime: 7.32, reason: 'Unidentified peak' },
+      ])
+    })
+
+    it('un-inverts library names', () => {
+      expect(uninvertLibraryName('Benzene, methyl-')).toBe('methylbenzene')
+      expect(uninvertLibraryName('Lead')).toBe('Lead')
+    })
+  })
+
+  describe('mergeDetections', () => {
+    it('replaces existing entries for imported compounds only', () => {
+      const merged = mergeDetections(
+        [
+          { compound: 'lead', level: '4 ppb', confirmationLevel: 'screening' },
+          { compound: 'Arsenic', level: '1 ppb', confirmationLevel: 'confirmed' },
+        ],
+        [{ compound: 'Lead', level: '14.2 ppb', displayMode: 'primary', detectionType: 'standard', confirmationLevel: 'quantified' }]
+      )
+      expect(merged.map(d => `${d.compound} ${d.level}`)).toEqual(['Arsenic 1 ppb', 'Lead 14.2 ppb'])
+    })
+  })
+})
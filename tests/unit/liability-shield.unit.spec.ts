@@ -0,0 +1,330 @@
+/**
+ * Unit tests for the liability shield
+ *
+ * Runs every public product read path (REST / GraphQL hook, field access and
+ * the custom product endpoints) against each kind of viewer, and checks that
+ * no shielded field of a FLAGGED product reaches a viewer without premium
+ * access or an unlock.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import type { PayloadRequest } from 'payload'
+
+vi.mock('@/collections/AuditLog', () => ({
+  createAuditLog: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/utilities/barcode-lookup', () => ({
+  lookupBarcode: vi.fn(),
+  saveProductFromLookup: vi.fn(),
+}))
+
+import {
+  SHIELDED_FIELDS,
+  SHIELDED_VERDICT_REASON,
+  applyLiabilityShield,
+  getShieldViewer,
+  isShieldedVerdict,
+  shieldProductAfterRead,
+  shieldProductsForViewer,
+  shieldedFieldAccess,
+} from '@/access/liabilityShield'
+import { lookupBarcode } from '@/utilities/barcode-lookup'
+import { productFeedHandler } from '@/endpoints/product-feed'
+import { scannerLookupHandler } from '@/endpoints/scanner'
+import { productReportHandler } from '@/endpoints/product-report'
+import { checkWatchlistConflictsHandler } from '@/endpoints/user-watchlist'
+import { Products } from '@/collections/Products'
+
+const FLAGGED_ID = 42
+const CLEAN_ID = 43
+const UPC = '012345678905'
+const API_SECRET = 'frontend-secret'
+
+function product(id: number, verdict: string) {
+  return {
+    id,
+    name: `Product ${id}`,
+    brand: 'Acme',
+    verdict,
+    verdictReason: 'Lead at 4x the limit',
+    upc: UPC,
+    status: 'published',
+    ingredientsList: [7],
+    ingredientsRaw: 'Whey, lead',
+    unmatchedIngredients: ['lead'],
+    pros: [{ text: 'Tastes fine' }],
+    cons: [{ text: 'Heavy metals' }],
+    fullReview: 'Full lab write-up',
+    purchaseLinks: [{ retailer: 'Shop', url: 'https://example.com' }],
+    testingInfo: 'ICP-MS, 3 lots',
+    summary: 'Tested high for lead',
+    shortDescription: 'Tested high for lead',
+    overallScore: 20,
+    autoVerdict: 'flagged',
+    ruleApplied: 'Flag lead: lead > 10 ppb (40 ppb)',
+    reportVersions: [{
+      versionNumber: 1,
+      snapshot: { summary: 'Tested high for lead', detections: [{ compound: 'lead', value: 40 }] },
+      changes: [{ field: 'summary', before: null, after: 'Tested high for lead' }],
+    }],
+  }
+}
+
+type Viewer = {
+  user: Record<string, unknown> | null
+  headers?: Record<string, string>
+  canSee: boolean
+}
+
+const VIEWERS: Record<string, Viewer> = {
+  anonymous: { user: null, canSee: false },
+  free: { user: { id: 7, collection: 'users', role: 'user' }, canSee: false },
+  'brand user': { user: { id: 3, collection: 'brand-users', role: 'admin' }, canSee: false },
+  premium: { user: { id: 8, collection: 'users', role: 'user', memberState: 'member' }, canSee: true },
+  subscriber: { user: { id: 8, collection: 'users', role: 'user', subscriptionStatus: 'premium' }, canSee: true },
+  admin: { user: { id: 1, collection: 'users', role: 'admin' }, canSee: true },
+  editor: { user: { id: 2, collection: 'users', role: 'product_editor' }, canSee: true },
+  'trusted frontend': { user: null, headers: { 'x-api-key': API_SECRET }, canSee: true },
+  'unlocked on user': { user: { id: 7, collection: 'users', role: 'user', unlockedProducts: [FLAGGED_ID] }, canSee: true },
+  'unlock record': { user: { id: 9, collection: 'users', role: 'user' }, canSee: true },
+  'unlocked on device': { user: null, headers: { 'x-fingerprint': 'fp-unlocked' }, canSee: true },
+  'other device': { user: null, headers: { 'x-fingerprint': 'fp-other' }, canSee: false },
+}
+
+type FindArgs = { collection: string; where?: Record<string, { equals?: unknown } | undefined> & { or?: Array<Record<string, { equals: unknown }>> } }
+type HookArgs = Parameters<typeof shieldProductAfterRead>[0]
+type AccessArgs = Parameters<typeof shieldedFieldAccess>[0]
+
+function createPayload() {
+  const products = [product(FLAGGED_ID, 'flagged'), product(CLEAN_ID, 'recommend')]
+  const fingerprints = [{ id: 5, fingerprintHash: 'fp-unlocked' }, { id: 6, fingerprintHash: 'fp-other' }]
+  const unlocks = [
+    { id: 1, user: 9, deviceFingerprint: null, product: FLAGGED_ID },
+    { id: 2, user: null, deviceFingerprint: 5, product: FLAGGED_ID },
+    { id: 3, user: 7, deviceFingerprint: null, product: CLEAN_ID },
+  ]
+
+  const find = vi.fn(async ({ collection, where }: FindArgs) => {
+    let docs: object[] = []
+    if (collection === 'products') {
+      docs = where?.upc ? products.filter(p => p.upc === where.upc?.equals) : products
+    } else if (collection === 'device-fingerprints') {
+      docs = fingerprints.filter(f => f.fingerprintHash === where?.fingerprintHash?.equals)
+    } else if (collection === 'product-unlocks') {
+      const owners = where?.or || []
+      docs = unlocks.filter(u => owners.some(owner =>
+        Object.entries(owner).every(([field, cond]) => (u as Record<string, unknown>)[field] === cond.equals)))
+    }
+    return { docs, totalDocs: docs.length, hasNextPage: false }
+  })
+
+  const findByID = vi.fn(async ({ collection, id }: { collection: string; id: number }) => {
+    if (collection === 'users') {
+      return { id, ingredientWatchlist: [{ ingredientId: 7, ingredientName: 'Lead', reason: 'allergy' }] }
+    }
+    const found = products.find(p => p.id === id)
+    if (!found) throw new Error('Not found')
+    return found
+  })
+
+  return { find, findByID, create: vi.fn(), update: vi.fn() }
+}
+
+function createReq(viewer: Viewer, overrides: Record<string, unknown> = {}): PayloadRequest {
+  return {
+    payload: createPayload(),
+    user: viewer.user,
+    headers: new Headers(viewer.headers),
+    context: {},
+    payloadAPI: 'REST',
+    method: 'GET',
+    url: 'http://localhost/api/products',
+    ...overrides,
+  } as unknown as PayloadRequest
+}
+
+function expectShielded(doc: Record<string, unknown>) {
+  for (const field of SHIELDED_FIELDS) {
+    const value = doc[field]
+    expect(value === null || value === undefined || (Array.isArray(value) && value.length === 0)).toBe(true)
+  }
+  expect(doc.isShielded).toBe(true)
+  expect(doc.verdictReason).toBe(SHIELDED_VERDICT_REASON)
+}
+
+beforeEach(() => {
+  process.env.PAYLOAD_API_SECRET = API_SECRET
+  vi.spyOn(console, 'log').mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe('verdicts', () => {
+  it('shields flagged and the legacy avoid verdict only', () => {
+    expect(isShieldedVerdict('flagged')).toBe(true)
+    expect(isShieldedVerdict('AVOID')).toBe(true)
+    expect(isShieldedVerdict('caution')).toBe(false)
+    expect(isShieldedVerdict('recommend')).toBe(false)
+    expect(isShieldedVerdict(undefined)).toBe(false)
+  })
+
+  it('strips every shielded field from flagged products for non-premium users', () => {
+    expectShielded(applyLiabilityShield(product(FLAGGED_ID, 'flagged'), false))
+    expect(applyLiabilityShield(product(FLAGGED_ID, 'flagged'), true).fullReview).toBe('Full lab write-up')
+    expect(applyLiabilityShield(product(CLEAN_ID, 'recommend'), false).fullReview).toBe('Full lab write-up')
+  })
+})
+
+describe('Products fields', () => {
+  it('guards every shielded field and the auto-verdict with the shield read access', () => {
+    type FieldConfig = { name?: string; access?: { read?: unknown }; fields?: unknown[]; tabs?: Array<{ fields: unknown[] }> }
+    const fields = new Map<string, FieldConfig>()
+    const collect = (list: unknown[]) => {
+      for (const field of list as FieldConfig[]) {
+        if (field.name) fields.set(field.name, field)
+        if (field.fields) collect(field.fields)
+        for (const tab of field.tabs || []) collect(tab.fields)
+      }
+    }
+    collect(Products.fields)
+
+    for (const name of [...SHIELDED_FIELDS, 'autoVerdict']) {
+      expect(fields.get(name)?.access?.read, name).toBeTypeOf('function')
+    }
+    expect(fields.get('ruleApplied')?.access?.read).toBe(shieldedFieldAccess)
+    expect(fields.get('autoVerdict')?.access?.read).toBe(shieldedFieldAccess)
+  })
+})
+
+describe('viewers', () => {
+  it('skips the unlock lookup for full-access viewers', async () => {
+    const req = createReq(VIEWERS.premium)
+    expect((await getShieldViewer(req)).fullAccess).toBe(true)
+    expect(req.payload.find).not.toHaveBeenCalled()
+  })
+
+  it('memoizes the unlock lookup per request', async () => {
+    const req = createReq(VIEWERS['unlocked on device'])
+    await getShieldViewer(req)
+    await getShieldViewer(req)
+    expect(req.payload.find).toHaveBeenCalledTimes(2) // fingerprint + unlocks, once
+  })
+
+  it('prefers an explicit fingerprint over the header', async () => {
+    const viewer = await getShieldViewer(createReq(VIEWERS.anonymous), { fingerprintHash: 'fp-unlocked' })
+    expect(viewer.unlockedProductIds.has(String(FLAGGED_ID))).toBe(true)
+  })
+
+  it('fails closed when the unlock lookup errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const req = createReq(VIEWERS['unlock record'])
+    ;(req.payload.find as ReturnType<typeof vi.fn>).mockRejectedValue(new Error('db down'))
+    const viewer = await getShieldViewer(req)
+    expect(viewer.fullAccess).toBe(false)
+    expect(viewer.unlockedProductIds.size).toBe(0)
+  })
+})
+
+describe.each(Object.entries(VIEWERS))('read paths for %s', (_name, viewer) => {
+  it('REST / GraphQL afterRead hook', async () => {
+    const req = createReq(viewer)
+    const doc = await shieldProductAfterRead({ doc: product(FLAGGED_ID, 'flagged'), req } as unknown as HookArgs)
+    if (viewer.canSee) {
+      expect(doc.fullReview).toBe('Full lab write-up')
+      expect(doc.reportVersions).toHaveLength(1)
+      expect(doc.ruleApplied).toBe('Flag lead: lead > 10 ppb (40 ppb)')
+      expect(doc.isShielded).toBeUndefined()
+    } else {
+      expectShielded(doc)
+    }
+
+    const clean = await shieldProductAfterRead({ doc: product(CLEAN_ID, 'recommend'), req } as unknown as HookArgs)
+    expect(clean.fullReview).toBe('Full lab write-up')
+  })
+
+  it('field read access', async () => {
+    const req = createReq(viewer)
+    expect(await shieldedFieldAccess({ doc: product(FLAGGED_ID, 'flagged'), req } as unknown as AccessArgs)).toBe(viewer.canSee)
+    expect(await shieldedFieldAccess({ doc: product(CLEAN_ID, 'recommend'), req } as unknown as AccessArgs)).toBe(true)
+  })
+
+  it('search results', async () => {
+    const results = shieldProductsForViewer(
+      [product(FLAGGED_ID, 'flagged'), product(CLEAN_ID, 'recommend')],
+      await getShieldViewer(createReq(viewer))
+    )
+    expect(results[0].summary).toBe(viewer.canSee ? 'Tested high for lead' : null)
+    expect(results[1].summary).toBe('Tested high for lead')
+  })
+
+  it('GET /product-feed', async () => {
+    const res = await productFeedHandler(createReq(viewer))
+    const body = await res.json()
+    const flagged = body.products.find((p: { id: number }) => p.id === FLAGGED_ID)
+    const clean = body.products.find((p: { id: number }) => p.id === CLEAN_ID)
+    expect(flagged.summary).toBe(viewer.canSee ? 'Tested high for lead' : SHIELDED_VERDICT_REASON)
+    expect(clean.summary).toBe('Tested high for lead')
+  })
+
+  it('POST /scanner/lookup', async () => {
+    vi.mocked(lookupBarcode).mockResolvedValue({
+      found: true,
+      product: {
+        barcode: UPC,
+        name: 'Product 42',
+        ingredients: 'Whey, lead',
+        verdict: 'flagged',
+        source: 'local',
+        confidence: 1,
+      },
+      localProductId: FLAGGED_ID,
+    })
+    const req = createReq(viewer, { method: 'POST', json: async () => ({ barcode: UPC }) })
+    const body = await (await scannerLookupHandler(req)).json()
+    expect(body.product.ingredients).toBe(viewer.canSee ? 'Whey, lead' : undefined)
+    expect(body.product.isShielded).toBe(viewer.canSee ? undefined : true)
+  })
+
+  it('GET /product-report/:barcode', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({
+      status: 1,
+      product: { product_name: 'Product 42', ingredients_text: 'Whey, lead' },
+    })))
+    const req = createReq(viewer, { url: `http://localhost/api/product-report/${UPC}` })
+    const body = await (await productReportHandler(req)).json()
+    const text = JSON.stringify(body)
+    if (viewer.canSee) {
+      expect(body.healthSummary).toBe('Tested high for lead')
+      expect(body.ingredients).toBe('Whey, lead')
+    } else {
+      expect(body.isShielded).toBe(true)
+      expect(text).not.toContain('Tested high for lead')
+      expect(text).not.toContain('lead,')
+      expect(body.ingredients).toBeUndefined()
+    }
+  })
+
+  it('POST /users/me/watchlist/check', async () => {
+    if (!viewer.user || viewer.user.collection !== 'users') return // login required
+    const req = createReq(viewer, { method: 'POST', json: async () => ({ productId: FLAGGED_ID }) })
+    const body = await (await checkWatchlistConflictsHandler(req)).json()
+    if (viewer.canSee) {
+      expect(body.conflicts).toEqual([{ ingredientId: 7, ingredientName: 'Lead', reason: 'allergy' }])
+    } else {
+      expect(body).toEqual({ conflicts: [], isShielded: true })
+    }
+  })
+})
+
+describe('Local API reads', () => {
+  it('are not shielded by the hook - endpoints shield their own responses', async () => {
+    const req = createReq(VIEWERS.anonymous, { payloadAPI: 'local' })
+    const doc = await shieldProductAfterRead({ doc: product(FLAGGED_ID, 'flagged'), req } as unknown as HookArgs)
+    expect(doc.fullReview).toBe('Full lab write-up')
+    expect(req.payload.find).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,371 @@
+/**
+ * Unit tests for referral payout runs
+ *
+ * Tests batching pending payouts into run items (minimum, payment details,
+ * W-9 threshold), claiming payouts so concurrent runs never share one, the
+ * PayPal / Stripe / ACH payment files, parsing provider result files, and
+ * reconciling results back into payout status and ytdTotal.
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { PayoutRun } from '@/payload-types'
+import {
+  buildPaymentFile,
+  createPayoutRun,
+  parseProviderResults,
+  payoutDestination,
+  planPayoutRun,
+  reconcilePayoutRun,
+  toItemStatus,
+  type PlannablePayout,
+  type PlanOptions,
+} from '@/utilities/payout-runs'
+
+function payout(overrides: Partial<PlannablePayout> = {}): PlannablePayout {
+  return {
+    id: 1,
+    referrerId: 'ref-1',
+    referrerEmail: 'alice@example.com',
+    amount: 25,
+    paymentMethod: 'paypal',
+    paymentDetails: null,
+    w9Collected: false,
+    ...overrides,
+  }
+}
+
+function options(overrides: Partial<PlanOptions> = {}): PlanOptions {
+  return {
+    provider: 'paypal',
+    minimumAmount: 25,
+    ytdPaid: new Map(),
+    w9Collected: new Set(),
+    itemPrefix: 'PR7',
+    ...overrides,
+  }
+}
+
+describe('payoutDestination', () => {
+  it('falls back to the referrer email for PayPal and Venmo', () => {
+    expect(payoutDestination(payout())).toBe('alice@example.com')
+    expect(payoutDestination(payout({ paymentMethod: 'venmo', paymentDetails: '@alice' }))).toBe('@alice')
+    expect(payoutDestination(payout({ referrerEmail: 'pending@collection.com' }))).toBeNull()
+  })
+
+  it('requires a connected account for Stripe and an account reference for ACH', () => {
+    expect(payoutDestination(payout({ paymentMethod: 'stripe', paymentDetails: 'alice@example.com' }))).toBeNull()
+    expect(payoutDestination(payout({ paymentMethod: 'stripe', paymentDetails: 'acct_1AbC' }))).toBe('acct_1AbC')
+    expect(payoutDestination(payout({ paymentMethod: 'ach' }))).toBeNull()
+  })
+})
+
+describe('planPayoutRun', () => {
+  it('groups payouts per referrer and leaves other providers out', () => {
+    const plan = planPayoutRun([
+      payout({ id: 1, amount: 25 }),
+      payout({ id: 2, amount: 25 }),
+      payout({ id: 3, referrerId: 'ref-2', referrerEmail: 'bob@example.com', paymentMethod: 'venmo', paymentDetails: '@bob', amount: 50 }),
+      payout({ id: 4, referrerId: 'ref-3', paymentMethod: 'credit', amount: 100 }),
+    ], options())
+
+    expect(plan.items).toEqual([
+      expect.objectContaining({ itemId: 'PR7-1', referrerId: 'ref-1', amount: 50, payoutIds: [1, 2], destination: 'alice@example.com' }),
+      expect.objectContaining({ itemId: 'PR7-2', referrerId: 'ref-2', amount: 50, payoutIds: [3], paymentMethod: 'venmo' }),
+    ])
+    expect(plan.totalAmount).toBe(100)
+    expect(plan.payoutCount).toBe(3)
+    expect(plan.skipped).toEqual([])
+  })
+
+  it('skips referrers under the minimum or without payment details', () => {
+    const plan = planPayoutRun([
+      payout({ id: 1, amount: 10 }),
+      payout({ id: 2, referrerId: 'ref-2', paymentMethod: 'stripe', paymentDetails: '', amount: 75 }),
+    ], options({ provider: 'stripe' }))
+    expect(plan.items).toEqual([])
+    expect(plan.skipped).toEqual([
+      expect.objectContaining({ referrerId: 'ref-2', reason: 'missing_payment_details', payoutIds: [2] }),
+    ])
+
+    const paypal = planPayoutRun([payout({ id: 1, amount: 10 })], options())
+    expect(paypal.skipped).toEqual([expect.objectContaining({ reason: 'below_minimum', amount: 10 })])
+  })
+
+  it('holds referrers reaching the 1099 threshold until a W-9 is on file', () => {
+    const payouts = [payout({ id: 1, amount: 100 })]
+
+    const blocked = planPayoutRun(payouts, options({ ytdPaid: new Map([['ref-1', 525]]) }))
+    expect(blocked.skipped).toEqual([expect.objectContaining({ reason: 'w9_required' })])
+
+    const collected = planPayoutRun(payouts, options({ ytdPaid: new Map([['ref-1', 525]]), w9Collected: new Set(['ref-1']) }))
+    expect(collected.items).toHaveLength(1)
+
+    const underThreshold = planPayoutRun(payouts, options({ ytdPaid: new Map([['ref-1', 475]]) }))
+    expect(underThreshold.items).toHaveLength(1)
+  })
+
+  it('rounds grouped amounts to cents', () => {
+    const plan = planPayoutRun([payout({ id: 1, amount: 12.1 }), payout({ id: 2, amount: 12.9 }), payout({ id: 3, amount: 0.2 })], options())
+    expect(plan.items[0].amount).toBe(25.2)
+  })
+})
+
+describe('buildPaymentFile', () => {
+  const run = { id: 7, period: '2026' }
+  const item = {
+    itemId: 'PR7-1',
+    referrerId: 'ref-1',
+    referrerEmail: 'alice@example.com',
+    paymentMethod: 'paypal' as const,
+    destination: 'alice@example.com',
+    amount: 50,
+    payoutIds: [1, 2],
+  }
+
+  it('writes PayPal Payouts rows with the recipient wallet', () => {
+    const file = buildPaymentFile('paypal', run, [item, { ...item, itemId: 'PR7-2', paymentMethod: 'venmo', destination: '@bob' }])
+    expect(file.filename).toBe('payout-run-7-paypal.csv')
+    expect(file.body.trim().split('\n')).toEqual([
+      'alice@example.com,50.00,USD,PR7-1,Referral commission 2026,PayPal',
+      '@bob,50.00,USD,PR7-2,Referral commission 2026,Venmo',
+    ])
+  })
+
+  it('writes Stripe transfers in cents with the item id in metadata', () => {
+    const file = buildPaymentFile('stripe', run, [{ ...item, paymentMethod: 'stripe', destination: 'acct_1AbC', amount: 37.5 }])
+    expect(file.contentType).toBe('application/json')
+    expect(JSON.parse(file.body)).toEqual([
+      expect.objectContaining({
+        amount: 3750,
+        currency: 'usd',
+        destination: 'acct_1AbC',
+        transfer_group: 'payout-run-7',
+        metadata: expect.objectContaining({ itemId: 'PR7-1', payoutIds: '1,2' }),
+      }),
+    ])
+  })
+
+  it('writes an ACH CSV with a header row', () => {
+    const file = buildPaymentFile('ach', run, [{ ...item, paymentMethod: 'ach', destination: 'ACCT, 0042' }])
+    expect(file.body.trim().split('\n')).toEqual([
+      'item_id,referrer_id,payee_email,account_reference,amount,currency,memo',
+      'PR7-1,ref-1,alice@example.com,"ACCT, 0042",50.00,USD,Referral commission 2026',
+    ])
+  })
+})
+
+describe('parseProviderResults', () => {
+  it('maps provider status words', () => {
+    expect(toItemStatus('SUCCESS')).toBe('paid')
+    expect(toItemStatus('Returned')).toBe('failed')
+    expect(toItemStatus('UNCLAIMED')).toBe('pending')
+  })
+
+  it('reads PayPal reports by header name', () => {
+    const rows = parseProviderResults('paypal', [
+      'Payout Batch ID,Transaction ID,Sender Item ID,Amount,Transaction Status,Errors',
+      'B1,TX-1,PR7-1,"$50.00",SUCCESS,',
+      'B1,,PR7-2,50.00,FAILED,Receiver unregistered',
+    ].join('\n'))
+    expect(rows).toEqual([
+      { itemId: 'PR7-1', status: 'paid', transactionId: 'TX-1', amount: 50, error: undefined },
+      { itemId: 'PR7-2', status: 'failed', transactionId: undefined, amount: 50, error: 'Receiver unregistered' },
+    ])
+  })
+
+  it('reads ACH results and rejects files without an item id column', () => {
+    const rows = parseProviderResults('ach', 'item_id,status,trace_number,return_reason\nPR7-1,returned,T99,R03 No account')
+    expect(rows[0]).toMatchObject({ itemId: 'PR7-1', status: 'failed', transactionId: 'T99', error: 'R03 No account' })
+    expect(() => parseProviderResults('ach', 'name,status\nalice,paid')).toThrow(/item id column/)
+  })
+
+  it('reads Stripe transfers and treats reversals as failed', () => {
+    const rows = parseProviderResults('stripe', JSON.stringify({
+      data: [
+        { id: 'tr_1', amount: 5000, reversed: false, metadata: { itemId: 'PR7-1' } },
+        { id: 'tr_2', amount: 2500, reversed: true, metadata: { itemId: 'PR7-2' } },
+        { id: 'tr_3', amount: 100, metadata: {} },
+      ],
+    }))
+    expect(rows).toEqual([
+      expect.objectContaining({ itemId: 'PR7-1', status: 'paid', transactionId: 'tr_1', amount: 50 }),
+      expect.objectContaining({ itemId: 'PR7-2', status: 'failed', error: 'Transfer reversed' }),
+    ])
+    expect(() => parseProviderResults('stripe', 'not json')).toThrow(/must be JSON/)
+  })
+})
+
+describe('reconcilePayoutRun', () => {
+  const run = {
+    id: 7,
+    period: '2026',
+    provider: 'paypal',
+    status: 'ready',
+    items: [
+      { itemId: 'PR7-1', referrerId: 'ref-1', referrerEmail: 'a@example.com', paymentMethod: 'paypal', destination: 'a@example.com', amount: 50, payoutIds: [1, 2], status: 'pending' },
+      { itemId: 'PR7-2', referrerId: 'ref-2', referrerEmail: 'b@example.com', paymentMethod: 'paypal', destination: 'b@example.com', amount: 25, payoutIds: [3], status: 'pending' },
+      { itemId: 'PR7-3', referrerId: 'ref-3', referrerEmail: 'c@example.com', paymentMethod: 'paypal', destination: 'c@example.com', amount: 25, payoutIds: [4], status: 'pending' },
+    ],
+  } as unknown as PayoutRun
+
+  function createPayload() {
+    const paid = [
+      { id: 1, referrerId: 'ref-1', referrerEmail: 'a@example.com', amount: 25, ytdTotal: 0 },
+      { id: 2, referrerId: 'ref-1', referrerEmail: 'a@example.com', amount: 25, ytdTotal: 0 },
+      { id: 9, referrerId: 'ref-1', referrerEmail: 'a@example.com', amount: 100, ytdTotal: 100 },
+    ]
+    return {
+      findByID: vi.fn(async ({ id }: { id: number }) => ({ id, notes: null })),
+      find: vi.fn(async ({ where }: { where: { and?: Array<Record<string, unknown>> } }) => ({
+        docs: where.and?.some(clause => 'w9Collected' in clause) ? [] : paid,
+      })),
+      update: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ ...run, ...data })),
+    }
+  }
+
+  it('settles paid and failed items and refreshes ytdTotal', async () => {
+    const payload = createPayload()
+    const content = [
+      'Transaction ID,Sender Item ID,Amount,Status,Errors',
+      'TX-1,PR7-1,50.00,Completed,',
+      ',PR7-2,25.00,Failed,Receiver unregistered',
+      ',PR7-9,25.00,Completed,',
+    ].join('\n')
+
+    const { summary } = await reconcilePayoutRun(payload as never, run, content)
+
+    expect(summary).toMatchObject({ paid: ['PR7-1'], failed: ['PR7-2'], unmatched: ['PR7-9'] })
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'referral-payouts',
+      id: 1,
+      data: expect.objectContaining({ status: 'paid', transactionId: 'TX-1' }),
+    }))
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'referral-payouts',
+      id: 3,
+      data: expect.objectContaining({ status: 'failed', notes: 'Payout run 7: failed (Receiver unregistered)' }),
+    }))
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({ id: 1, data: { ytdTotal: 150 } }))
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({ id: 9, data: { ytdTotal: 150 } }))
+    expect(payload.update).toHaveBeenLastCalledWith(expect.objectContaining({
+      collection: 'payout-runs',
+      data: expect.objectContaining({ status: 'partially_reconciled' }),
+    }))
+  })
+
+  it('leaves items with a mismatched amount unsettled', async () => {
+    const payload = createPayload()
+    const { summary } = await reconcilePayoutRun(
+      payload as never,
+      run,
+      'Sender Item ID,Amount,Status\nPR7-1,45.00,Completed'
+    )
+
+    expect(summary.paid).toEqual([])
+    expect(summary.mismatched).toEqual([{ itemId: 'PR7-1', expected: 50, received: 45 }])
+    expect(payload.update).toHaveBeenCalledTimes(1)
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'payout-runs',
+      data: expect.objectContaining({ status: 'ready' }),
+    }))
+  })
+
+  it('marks the run reconciled once every item is settled', async () => {
+    const payload = createPayload()
+    const settledRun = {
+      ...run,
+      items: run.items?.map((item, index) => (index === 0 ? item : { ...item, status: 'paid' })),
+    } as PayoutRun
+    await reconcilePayoutRun(payload as never, settledRun, 'Sender Item ID,Status\nPR7-1,Completed\nPR7-2,Failed')
+
+    // PR7-2 was already paid and isn't changed by a later report
+    expect(payload.update).not.toHaveBeenCalledWith(expect.objectContaining({ id: 3 }))
+    expect(payload.update).toHaveBeenLastCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'reconciled' }),
+    }))
+  })
+})
+
+describe('createPayoutRun', () => {
+  const pending = [
+    { id: 1, referrerId: 'ref-1', referrerEmail: 'a@example.com', amount: 15, paymentMethod: 'paypal', status: 'pending' },
+    { id: 2, referrerId: 'ref-1', referrerEmail: 'a@example.com', amount: 15, paymentMethod: 'paypal', status: 'pending' },
+    { id: 3, referrerId: 'ref-2', referrerEmail: 'b@example.com', amount: 30, paymentMethod: 'paypal', status: 'pending' },
+  ]
+
+  function createPayload(payouts: object[], claimedIds: number[]) {
+    return {
+      find: vi.fn(async ({ where }: { where: unknown }) => ({
+        docs: JSON.stringify(where).includes('"pending"') ? payouts : [],
+      })),
+      create: vi.fn(async () => ({ id: 8 })),
+      update: vi.fn(async ({ id, data }: { id: number; data: Record<string, unknown> }) => ({ id, ...data })),
+      delete: vi.fn(async ({ id }: { id: number }) => ({ id })),
+      db: {
+        drizzle: {
+          execute: vi.fn(async () => ({ rows: claimedIds.map(id => ({ id })) })),
+        },
+      },
+    }
+  }
+
+  it('plans only the payouts it claimed and releases ones left below the minimum', async () => {
+    // A concurrent run claimed payout 2 first
+    const payload = createPayload(pending, [1, 3])
+
+    const { run, plan } = await createPayoutRun(payload as never, { period: '2026', provider: 'paypal' })
+
+    expect(run?.id).toBe(8)
+    expect(plan.items).toEqual([expect.objectContaining({ itemId: 'PR8-1', referrerId: 'ref-2', payoutIds: [3] })])
+    expect(plan.skipped).toEqual([expect.objectContaining({ referrerId: 'ref-1', reason: 'below_minimum', payoutIds: [1] })])
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      id: 1,
+      data: { status: 'pending', payoutRun: null },
+    }))
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      id: 3,
+      data: { status: 'processing', payoutRun: 8 },
+    }))
+    expect(payload.update).not.toHaveBeenCalledWith(expect.objectContaining({ id: 2 }))
+  })
+
+  it('saves no run when nothing qualifies', async () => {
+    const payload = createPayload([pending[0]], [])
+
+    const { run, plan } = await createPayoutRun(payload as never, { period: '2026', provider: 'paypal' })
+
+    expect(run).toBeNull()
+    expect(plan.items).toEqual([])
+    expect(payload.db.drizzle.execute).not.toHaveBeenCalled()
+    expect(payload.create).not.toHaveBeenCalled()
+  })
+
+  it('saves no run when another run claimed every payout', async () => {
+    const payload = createPayload(pending, [])
+
+    const { run } = await createPayoutRun(payload as never, { period: '2026', provider: 'paypal' })
+
+    expect(run).toBeNull()
+    expect(payload.create).not.toHaveBeenCalled()
+    expect(payload.update).not.toHaveBeenCalled()
+  })
+
+  it('releases the payouts and deletes the draft run when an update fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined)
+    const payload = createPayload(pending, [1, 2, 3])
+    payload.update.mockImplementation(async ({ id, data }) => {
+      if (data.payoutRun === 8 && id === 3) throw new Error('db down')
+      return { id, ...data }
+    })
+
+    await expect(createPayoutRun(payload as never, { period: '2026', provider: 'paypal' })).rejects.toThrow('db down')
+
+    for (const id of [1, 2, 3]) {
+      expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+        id,
+        data: { status: 'pending', payoutRun: null },
+      }))
+    }
+    expect(payload.delete).toHaveBeenCalledWith(expect.objectContaining({ collection: 'payout-runs', id: 8 }))
+  })
+})
@@ -0,0 +1,43 @@
+/**
+ * Unit tests for push receipt reconciliation
+ *
+ * Tests how an Expo receipt maps to a send status and whether the
+ * device token gets deactivated.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { classifyReceipt } from '@/utilities/push-receipts'
+
+describe('classifyReceipt', () => {
+  it('marks an ok receipt delivered', () => {
+    expect(classifyReceipt({ status: 'ok' })).toEqual({
+      status: 'delivered',
+      receiptStatus: 'ok',
+      deactivateToken: false,
+    })
+  })
+
+  it('flags DeviceNotRegistered as a dead token', () => {
+    const outcome = classifyReceipt({
+      status: 'error',
+      message: '"ExponentPushToken[xxx]" is not a registered push notification recipient',
+      details: { error: 'DeviceNotRegistered' },
+    })
+    expect(outcome).toMatchObject({ status: 'invalid_token', errorCode: 'DeviceNotRegistered', deactivateToken: true })
+    expect(outcome.errorMessage).toContain('not a registered')
+  })
+
+  it('fails other errors without touching the token', () => {
+    expect(classifyReceipt({ status: 'error', message: 'Too big', details: { error: 'MessageTooBig' } })).toMatchObject({
+      status: 'failed',
+      receiptStatus: 'error',
+      errorCode: 'MessageTooBig',
+      deactivateToken: false,
+    })
+    expect(classifyReceipt({ status: 'error', message: 'Unknown' })).toMatchObject({
+      status: 'failed',
+      errorCode: undefined,
+      deactivateToken: false,
+    })
+  })
+})
@@ -0,0 +1,252 @@
+/**
+ * Unit tests for the unified rate limiter
+ *
+ * Tests the sliding window, token bucket and fixed window algorithms against
+ * the in-memory store, policy table resolution and RateLimit-* headers on
+ * limited and allowed responses.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+vi.mock('payload', () => ({
+  getPayload: vi.fn(async () => { throw new Error('No database in unit tests') }),
+}))
+
+vi.mock('@payload-config', () => ({ default: {} }))
+
+import {
+  applyRateLimitAsync,
+  checkRateLimitAsync,
+  consumeRateLimit,
+  matchesRoutePattern,
+  rateLimitHeaders,
+  rateLimitResponse,
+  resolveRateLimitPolicy,
+  RateLimits,
+  withRateLimitHeaders,
+  type RateLimitConfig,
+} from '@/utilities/rate-limiter'
+import { createMemoryStore } from '@/utilities/rate-limit-stores'
+
+// Start of a minute so window arithmetic is easy to follow
+const mockNow = 1700000040000
+
+async function consumeMany(config: RateLimitConfig, count: number, key = 'client') {
+  const store = createMemoryStore()
+  const results = []
+  for (let i = 0; i < count; i++) {
+    results.push(await consumeRateLimit(store, key, config))
+  }
+  return { store, results }
+}
+
+describe('rate limiter algorithms', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(mockNow)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  describe('sliding window', () => {
+    const config: RateLimitConfig = { maxRequests: 10, windowMs: 60000 }
+
+    it('allows up to the limit then blocks', async () => {
+      const { results } = await consumeMany(config, 11)
+
+      expect(results.slice(0, 10).every(r => r.allowed)).toBe(true)
+      expect(results[9].remaining).toBe(0)
+      expect(results[10]).toMatchObject({ allowed: false, remaining: 0, limit: 10, algorithm: 'sliding_window' })
+    })
+
+    it('weights the previous window instead of resetting at the boundary', async () => {
+      const { store } = await consumeMany(config, 10)
+
+      // 15s into the next window, 75% of the previous 10 still count
+      vi.setSystemTime(mockNow + 75000)
+      const first = await consumeRateLimit(store, 'client', config)
+      expect(first).toMatchObject({ allowed: true, remaining: 1 })
+      const second = await consumeRateLimit(store, 'client', config)
+      expect(second).toMatchObject({ allowed: true, remaining: 0 })
+
+      const blocked = await consumeRateLimit(store, 'client', config)
+      expect(blocked.allowed).toBe(false)
+      expect(blocked.resetAt).toBeGreaterThan(Date.now())
+      expect(blocked.resetAt).toBeLessThanOrEqual(mockNow + 120000)
+    })
+  })
+
+  describe('token bucket', () => {
+    const config: RateLimitConfig = { maxRequests: 60, windowMs: 60000, burst: 5, algorithm: 'token_bucket' }
+
+    it('admits a burst then refills at the configured rate', async () => {
+      const { store, results } = await consumeMany(config, 6)
+
+      expect(results.slice(0, 5).every(r => r.allowed)).toBe(true)
+      expect(results[0]).toMatchObject({ remaining: 4, limit: 5 })
+      expect(results[5]).toMatchObject({ allowed: false, resetAt: mockNow + 1000 })
+
+      // One token per second
+      vi.setSystemTime(mockNow + 1000)
+      expect((await consumeRateLimit(store, 'client', config)).allowed).toBe(true)
+      expect((await consumeRateLimit(store, 'client', config)).allowed).toBe(false)
+    })
+  })
+
+  describe('fixed window', () => {
+    it('resets at the window boundary', async () => {
+      const config: RateLimitConfig = { maxRequests: 2, windowMs: 60000, algorithm: 'fixed_window' }
+      const { store, results } = await consumeMany(config, 3)
+
+      expect(results.map(r => r.allowed)).toEqual([true, true, false])
+      expect(results[2].resetAt).toBe(mockNow + 60000)
+
+      vi.setSystemTime(mockNow + 60000)
+      expect((await consumeRateLimit(store, 'client', config)).allowed).toBe(true)
+    })
+  })
+
+  it('keeps separate counters per key', async () => {
+    const config: RateLimitConfig = { maxRequests: 1, windowMs: 60000 }
+    const store = createMemoryStore()
+
+    expect((await consumeRateLimit(store, 'a', config)).allowed).toBe(true)
+    expect((await consumeRateLimit(store, 'b', config)).allowed).toBe(true)
+    expect((await consumeRateLimit(store, 'a', config)).allowed).toBe(false)
+  })
+})
+
+describe('rate limit policy table', () => {
+  it('names built-in policies after their key', () => {
+    expect(RateLimits.LOGIN.policy).toBe('LOGIN')
+    expect(RateLimits.EVIDENCE_VERIFY.policy).toBe('EVIDENCE_VERIFY')
+  })
+
+  describe('matchesRoutePattern', () => {
+    const route = { url: 'https://example.com/api/products/42/vote?x=1', method: 'POST' }
+
+    it('matches params, wildcards and methods', () => {
+      expect(matchesRoutePattern('/api/products/:id/vote', route)).toBe(true)
+      expect(matchesRoutePattern('POST /api/products/*', route)).toBe(true)
+      expect(matchesRoutePattern('GET /api/products/*', route)).toBe(false)
+      expect(matchesRoutePattern('/api/products', route)).toBe(false)
+      expect(matchesRoutePattern('/api/evidence/verify', { url: '/api/evidence/verify/' })).toBe(true)
+    })
+  })
+
+  describe('resolveRateLimitPolicy', () => {
+    const settings = {
+      defaultStore: 'redis' as const,
+      policies: [
+        { name: 'Mobile votes', routes: 'POST /api/products/:id/vote', maxRequests: 3, algorithm: 'token_bucket' as const, burst: 6 },
+        { name: 'LOGIN', windowSeconds: 300, store: 'postgres' as const },
+        { name: 'AI_ANALYSIS', maxRequests: 1, enabled: false },
+      ],
+    }
+
+    it('overrides a code default by policy name, keeping empty fields', () => {
+      expect(resolveRateLimitPolicy(RateLimits.LOGIN, settings)).toMatchObject({
+        policy: 'LOGIN',
+        maxRequests: 10,
+        windowMs: 300000,
+        store: 'postgres',
+      })
+    })
+
+    it('prefers a matching route over the policy name', () => {
+      const resolved = resolveRateLimitPolicy(RateLimits.LOGIN, settings, {
+        url: '/api/products/7/vote',
+        method: 'POST',
+      })
+      expect(resolved).toMatchObject({ policy: 'Mobile votes', maxRequests: 3, algorithm: 'token_bucket', burst: 6, store: 'redis' })
+    })
+
+    it('ignores disabled rows', () => {
+      expect(resolveRateLimitPolicy(RateLimits.AI_ANALYSIS, settings)).toMatchObject({ maxRequests: 10, store: 'redis' })
+      expect(resolveRateLimitPolicy(RateLimits.AI_ANALYSIS, {})).toEqual(RateLimits.AI_ANALYSIS)
+    })
+  })
+})
+
+describe('RateLimit headers', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(mockNow)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const result = {
+    allowed: false,
+    remaining: 0,
+    resetAt: mockNow + 12000,
+    limit: 30,
+    windowMs: 60000,
+    algorithm: 'sliding_window' as const,
+  }
+
+  it('reports limit, remaining, reset seconds and policy', () => {
+    expect(rateLimitHeaders(result)).toEqual({
+      'RateLimit-Limit': '30',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '12',
+      'RateLimit-Policy': '30;w=60',
+    })
+  })
+
+  it('adds them to 429 responses alongside the legacy headers', () => {
+    const response = rateLimitResponse(result)
+
+    expect(response.status).toBe(429)
+    expect(response.headers.get('RateLimit-Remaining')).toBe('0')
+    expect(response.headers.get('Retry-After')).toBe('12')
+    expect(response.headers.get('X-RateLimit-Reset')).toBe(String(mockNow + 12000))
+  })
+})
+
+describe('applyRateLimitAsync', () => {
+  beforeEach(() => {
+    vi.stubEnv('RATE_LIMIT_STORE', 'memory')
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  const config: RateLimitConfig = { maxRequests: 2, windowMs: 60000, identifier: 'headers-test' }
+
+  it('returns the result so allowed responses carry the headers', async () => {
+    const req = new Request('http://localhost/api/fingerprint/check', { method: 'POST' })
+    const { limited, result } = await applyRateLimitAsync(req, config, 'device:allowed')
+
+    expect(limited).toBeNull()
+    const response = withRateLimitHeaders(Response.json({ success: true }), result)
+    expect(response.headers.get('RateLimit-Limit')).toBe('2')
+    expect(response.headers.get('RateLimit-Remaining')).toBe('1')
+    expect(response.headers.get('Retry-After')).toBeNull()
+  })
+
+  it('returns a 429 once the limit is used up', async () => {
+    const req = new Request('http://localhost/api/fingerprint/check', { method: 'POST' })
+    await applyRateLimitAsync(req, config, 'device:limited')
+    await applyRateLimitAsync(req, config, 'device:limited')
+    const { limited, result } = await applyRateLimitAsync(req, config, 'device:limited')
+
+    expect(result.allowed).toBe(false)
+    expect(limited?.status).toBe(429)
+  })
+  it('keeps a separate counter per policy for the same client', async () => {
+    const login = { ...config, policy: 'LOGIN' }
+    const search = { ...config, policy: 'SEARCH' }
+    await checkRateLimitAsync('ip:1.2.3.4', search)
+    await checkRateLimitAsync('ip:1.2.3.4', search)
+
+    expect((await checkRateLimitAsync('ip:1.2.3.4', search)).allowed).toBe(false)
+    expect((await checkRateLimitAsync('ip:1.2.3.4', login)).allowed).toBe(true)
+  })
+})
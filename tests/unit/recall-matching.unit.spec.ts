@@ -0,0 +1,94 @@
+/**
+ * Unit tests for recall matching
+ *
+ * Tests UPC / lot / date extraction from FDA enforcement text and how
+ * candidate products are scored against a recall.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  extractRecallIdentifiers,
+  normalizeUpc,
+  parseRecallDate,
+  scoreRecallMatch,
+  type RecallCandidate,
+} from '@/utilities/recall-matching'
+
+const recall = {
+  recallingFirm: 'Sunrise Foods, Inc.',
+  productDescription: 'Sunrise Organic Creamy Peanut Butter, 16 oz glass jar, UPC 0 41498 12345 1',
+  codeInfo: 'Lot #: 23A104, 23A105 and 23B001. Best By dates 01/2026 through 03/2026.',
+}
+
+function candidate(overrides: Partial<RecallCandidate> = {}): RecallCandidate {
+  return {
+    id: 1,
+    name: 'Creamy Peanut Butter',
+    brand: 'Sunrise',
+    ...overrides,
+  }
+}
+
+describe('normalizeUpc', () => {
+  it('normalizes UPC-A, EAN-13 and GTIN-14 to 13 digits', () => {
+    expect(normalizeUpc('041498123451')).toBe('0041498123451')
+    expect(normalizeUpc('0 41498 12345 1')).toBe('0041498123451')
+    expect(normalizeUpc('00041498123451')).toBe('0041498123451')
+  })
+
+  it('adds a missing check digit and rejects a wrong one', () => {
+    expect(normalizeUpc('04149812345')).toBe('0041498123451')
+    expect(normalizeUpc('041498123455')).toBeNull()
+    expect(normalizeUpc('12345')).toBeNull()
+  })
+})
+
+describe('extractRecallIdentifiers', () => {
+  it('reads UPCs, lot lists and best-by ranges', () => {
+    const identifiers = extractRecallIdentifiers(`${recall.productDescription}\n${recall.codeInfo}`)
+    expect(identifiers.upcs).toEqual(['0041498123451'])
+    expect(identifiers.lotNumbers).toEqual(['23A104', '23A105', '23B001'])
+    expect(identifiers.dateRanges).toEqual([{ from: '2026-01-01', to: '2026-03-31' }])
+  })
+
+  it('ignores sizes after a UPC and words after a lot code', () => {
+    const identifiers = extractRecallIdentifiers('UPC: 041498123451 12 oz. Lot 5521 exp 06/15/2026')
+    expect(identifiers.upcs).toEqual(['0041498123451'])
+    expect(identifiers.lotNumbers).toEqual(['5521'])
+    expect(identifiers.dateRanges).toEqual([{ from: '2026-06-15', to: '2026-06-15' }])
+  })
+
+  it('parses the date formats used in recalls', () => {
+    expect(parseRecallDate('6/1/25')).toBe('2025-06-01')
+    expect(parseRecallDate('February 2028', true)).toBe('2028-02-29')
+    expect(parseRecallDate('Sept. 3, 2026')).toBe('2026-09-03')
+    expect(parseRecallDate('soon')).toBeNull()
+  })
+})
+
+describe('scoreRecallMatch', () => {
+  const identifiers = extractRecallIdentifiers(`${recall.productDescription}\n${recall.codeInfo}`)
+
+  it('treats a UPC match as near-certain', () => {
+    const score = scoreRecallMatch(recall, identifiers, candidate({ upc: '041498123451' }))
+    expect(score.signals).toEqual(expect.arrayContaining(['upc', 'brand', 'product_name']))
+    expect(score.confidence).toBe(0.95)
+  })
+
+  it('uses brand aliases, lot numbers and expiration dates without a UPC', () => {
+    const score = scoreRecallMatch(recall, identifiers, candidate({
+      brand: 'Sunrise Natural',
+      brandAliases: ['Sunrise Natural', 'Sunrise'],
+      lotNumber: '23a-105',
+      expirationDate: '2026-02-14T00:00:00.000Z',
+    }))
+    expect(score.signals).toEqual(['brand', 'product_name', 'lot', 'date_range'])
+    expect(score.confidence).toBe(0.9)
+  })
+
+  it('ignores lot numbers when the brand does not match', () => {
+    const score = scoreRecallMatch(recall, identifiers, candidate({ brand: 'Valley Farms', lotNumber: '23A105' }))
+    expect(score.signals).not.toContain('lot')
+    expect(score.confidence).toBeLessThan(0.6)
+  })
+})
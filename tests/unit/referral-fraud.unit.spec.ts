@@ -0,0 +1,264 @@
+/**
+ * Unit tests for referral fraud scoring
+ *
+ * Tests IP ranges and mailbox normalization, each signal group (fingerprints,
+ * emails, IPs, RevenueCat timing), holds before commission accrual, and the
+ * approve / deny review applied to held payouts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { CollectionBeforeChangeHook, PayloadRequest } from 'payload'
+import type { Referral } from '@/payload-types'
+import {
+  FRAUD_HOLD_SCORE,
+  applyReferralFraudReview,
+  assessReferralFraud,
+  clientIpOf,
+  holdReferralCommission,
+  ipRange,
+  normalizeMailbox,
+  scoreReferralFraud,
+  type FraudDevice,
+  type ReferralFraudEvidence,
+} from '@/utilities/referral-fraud'
+import { Referrals } from '@/collections/Referrals'
+
+function device(overrides: Partial<FraudDevice> = {}): FraudDevice {
+  return { id: 1, fingerprintHash: 'fp-1', isBanned: false, suspiciousScore: 0, emailsUsed: [], lastIpAddress: null, ...overrides }
+}
+
+function evidence(overrides: Partial<ReferralFraudEvidence> = {}): ReferralFraudEvidence {
+  return {
+    referral: { referrerEmail: 'alice@example.com', referredEmail: 'bob@othermail.com', attributionIp: '198.51.100.7' },
+    referrer: device({ id: 1, lastIpAddress: '203.0.113.5' }),
+    referee: device({ id: 2, fingerprintHash: 'fp-2' }),
+    siblings: [],
+    ...overrides,
+  }
+}
+
+function codes(e: ReferralFraudEvidence): string[] {
+  return scoreReferralFraud(e).signals.map(signal => signal.code)
+}
+
+const referral = {
+  id: 12,
+  referrerId: '1',
+  referralCode: 'ABC123',
+  referredDeviceId: 'fp-2',
+  status: 'active',
+  totalCommissionPaid: 25,
+  fraud: { reviewStatus: 'none' },
+} as Referral
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => undefined)
+})
+
+describe('normalization', () => {
+  it('groups IPs by /24 and /48 ranges', () => {
+    expect(ipRange('203.0.113.5')).toBe('203.0.113.0/24')
+    expect(ipRange('::ffff:203.0.113.99')).toBe('203.0.113.0/24')
+    expect(ipRange('2001:0db8:0a0b:12f0::1')).toBe('2001:db8:a0b::/48')
+    expect(ipRange('2001:db8::1')).toBe('2001:db8:0::/48')
+    expect(ipRange('999.1.1.1')).toBeNull()
+    expect(ipRange('not-an-ip')).toBeNull()
+    expect(ipRange(null)).toBeNull()
+  })
+
+  it('normalizes mailboxes across plus tags and Gmail dots', () => {
+    expect(normalizeMailbox('J.Ane.Doe+promo@GoogleMail.com')).toBe('janedoe@gmail.com')
+    expect(normalizeMailbox('jane.doe+x@example.com')).toBe('jane.doe@example.com')
+    expect(normalizeMailbox('no-at-sign')).toBeNull()
+  })
+
+  it('reads the client IP from proxy headers', () => {
+    expect(clientIpOf(new Headers({ 'x-forwarded-for': '1.2.3.4, 10.0.0.1' }))).toBe('1.2.3.4')
+    expect(clientIpOf(new Headers({ 'x-real-ip': '5.6.7.8' }))).toBe('5.6.7.8')
+    expect(clientIpOf(new Headers())).toBeUndefined()
+  })
+})
+
+describe('scoreReferralFraud', () => {
+  it('scores an unlinked referral as low risk', () => {
+    expect(scoreReferralFraud(evidence())).toEqual({ score: 0, riskLevel: 'low', signals: [], hold: false })
+  })
+
+  it('links fingerprints: same device, banned and abusive devices', () => {
+    expect(codes(evidence({ referee: device({ id: 1 }) }))).toContain('same_device')
+    expect(codes(evidence({ referee: device({ id: 2, isBanned: true }) }))).toEqual(['banned_device'])
+
+    const suspicious = scoreReferralFraud(evidence({ referrer: device({ id: 1, suspiciousScore: 80 }) }))
+    expect(suspicious.signals).toEqual([{ code: 'suspicious_device', weight: 24, detail: 'Device abuse score 80' }])
+    expect(codes(evidence({ referrer: device({ id: 1, suspiciousScore: 40 }) }))).toEqual([])
+  })
+
+  it('links emails: same mailbox, shared addresses, numbered variants, disposable domains', () => {
+    const referral = { attributionIp: null }
+    expect(codes(evidence({ referral: { ...referral, referrerEmail: 'jane.doe@gmail.com', referredEmail: 'janedoe+2@gmail.com' } })))
+      .toEqual(['same_mailbox'])
+    expect(codes(evidence({
+      referral: { ...referral, referredEmail: 'bob@othermail.com' },
+      referrer: device({ id: 1, emailsUsed: ['Bob@othermail.com'] }),
+    }))).toEqual(['shared_email'])
+    expect(codes(evidence({ referral: { ...referral, referrerEmail: 'jane1@example.com', referredEmail: 'jane2@example.com' } })))
+      .toEqual(['email_pattern'])
+    expect(codes(evidence({
+      referral: { ...referral, referredEmail: 'promo3@example.com' },
+      siblings: [{ id: 5, status: 'active', referredEmail: 'promo1@example.com' }],
+    }))).toEqual(['email_pattern'])
+    expect(codes(evidence({ referral: { ...referral, referredEmail: 'x@mailinator.com' } }))).toEqual(['disposable_email'])
+  })
+
+  it('links IPs: same address, same range, clusters across the referrer\'s referrals', () => {
+    expect(codes(evidence({ referral: { attributionIp: '203.0.113.5' } }))).toEqual(['same_ip'])
+    expect(codes(evidence({ referee: device({ id: 2, lastIpAddress: '203.0.113.77' }) }))).toEqual(['same_ip_range'])
+    expect(codes(evidence({
+      siblings: [
+        { id: 5, status: 'active', attributionIp: '198.51.100.20' },
+        { id: 6, status: 'pending', attributionIp: '198.51.100.21' },
+      ],
+    }))).toEqual(['ip_cluster'])
+  })
+
+  it('uses RevenueCat refund and cancel timing', () => {
+    const subscribed = '2026-03-01T00:00:00.000Z'
+    expect(scoreReferralFraud(evidence({
+      referral: { firstSubscriptionDate: subscribed, refundedAt: '2026-03-03T00:00:00.000Z', cancelledAt: '2026-03-03T00:00:00.000Z' },
+    })).signals).toEqual([{ code: 'refunded', weight: 35, detail: 'Refunded 2 day(s) after subscribing' }])
+    expect(codes(evidence({ referral: { firstSubscriptionDate: subscribed, cancelledAt: '2026-03-05T00:00:00.000Z' } })))
+      .toEqual(['early_cancel'])
+    expect(codes(evidence({ referral: { firstSubscriptionDate: subscribed, cancelledAt: '2026-06-01T00:00:00.000Z' } })))
+      .toEqual([])
+
+    const siblings = [
+      { id: 5, status: 'churned' as const, firstSubscriptionDate: subscribed, refundedAt: '2026-03-02T00:00:00.000Z' },
+      { id: 6, status: 'churned' as const, firstSubscriptionDate: subscribed, cancelledAt: '2026-03-04T00:00:00.000Z' },
+      { id: 7, status: 'active' as const, firstSubscriptionDate: subscribed },
+    ]
+    expect(codes(evidence({ siblings }))).toEqual(['referrer_churn_pattern'])
+  })
+
+  it('holds when combined signals reach the threshold, capped at 100', () => {
+    const result = scoreReferralFraud(evidence({
+      referral: { attributionIp: '203.0.113.5', referrerEmail: 'a@x.com', referredEmail: 'a+1@x.com', refundedAt: '2026-03-02T00:00:00.000Z' },
+      referee: device({ id: 2, isBanned: true }),
+    }))
+    expect(result.score).toBe(100)
+    expect(result.riskLevel).toBe('high')
+    expect(result.hold).toBe(true)
+    expect(result.signals[0].code).toBe('banned_device')
+
+    const medium = scoreReferralFraud(evidence({ referral: { attributionIp: '203.0.113.5' } }))
+    expect(medium).toMatchObject({ score: 35, riskLevel: 'medium', hold: false })
+    expect(FRAUD_HOLD_SCORE).toBe(60)
+  })
+})
+
+describe('holds and review', () => {
+  function createPayload(options: { devices?: FraudDevice[]; siblings?: unknown[]; payouts?: Array<Record<string, unknown>> } = {}) {
+    const payouts = options.payouts ?? []
+    return {
+      find: vi.fn(async ({ collection }: { collection: string }) => {
+        if (collection === 'device-fingerprints') return { docs: options.devices ?? [] }
+        if (collection === 'referrals') return { docs: options.siblings ?? [] }
+        return { docs: payouts }
+      }),
+      update: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ ...referral, ...data })),
+      create: vi.fn(async ({ data }: { data: Record<string, unknown> }) => ({ id: 90, ...data })),
+    }
+  }
+
+  it('holds high-risk referrals and stores the assessment', async () => {
+    const payload = createPayload({ devices: [device({ id: 1, isBanned: true, suspiciousScore: 100 })] })
+    const result = await assessReferralFraud(payload as never, referral)
+
+    expect(result.held).toBe(true)
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'referrals',
+      id: 12,
+      data: { fraud: expect.objectContaining({ score: result.score, riskLevel: 'high', reviewStatus: 'held' }) },
+    }))
+  })
+
+  it('keeps a reviewer\'s approval when rescoring', async () => {
+    const payload = createPayload({ devices: [device({ id: 1, isBanned: true, suspiciousScore: 100 })] })
+    const result = await assessReferralFraud(payload as never, { ...referral, fraud: { reviewStatus: 'approved' } })
+
+    expect(result.held).toBe(false)
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: { fraud: expect.objectContaining({ riskLevel: 'high', reviewStatus: 'approved' }) },
+    }))
+  })
+
+  it('creates one held payout per referral and period', async () => {
+    const payload = createPayload()
+    const commission = { amount: 25, period: '2026', anniversaryDate: '2026-03-01T00:00:00.000Z' }
+    expect(await holdReferralCommission(payload as never, referral, commission)).toBe(90)
+    expect(payload.create).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'referral-payouts',
+      data: expect.objectContaining({ status: 'held', heldReferral: 12, amount: 25, referralCount: 1 }),
+    }))
+
+    const existing = createPayload({ payouts: [{ id: 44 }] })
+    expect(await holdReferralCommission(existing as never, referral, commission)).toBe(44)
+    expect(existing.create).not.toHaveBeenCalled()
+  })
+
+  it('releases held payouts on approval', async () => {
+    const payload = createPayload({ payouts: [{ id: 44, amount: 25, notes: 'Held for fraud review (score 70)' }] })
+    const changes = await applyReferralFraudReview({ payload } as unknown as PayloadRequest, referral, 'approved')
+
+    expect(changes).toEqual({ totalCommissionPaid: 50 })
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'referral-payouts',
+      id: 44,
+      data: expect.objectContaining({ status: 'pending', notes: expect.stringMatching(/score 70\)\nFraud review approved/) }),
+    }))
+  })
+
+  it('cancels held payouts and flags the referrer\'s device on denial', async () => {
+    const payload = createPayload({ payouts: [{ id: 44, amount: 25 }], devices: [device({ id: 1 })] })
+    const changes = await applyReferralFraudReview({ payload } as unknown as PayloadRequest, referral, 'denied')
+
+    expect(changes).toEqual({ status: 'fraud' })
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'referral-payouts', id: 44, data: expect.objectContaining({ status: 'cancelled' }),
+    }))
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'device-fingerprints', id: 1, data: { suspiciousActivity: true },
+    }))
+  })
+})
+
+describe('Referrals fraud review hook', () => {
+  const reviewHook = Referrals.hooks!.beforeChange![1] as CollectionBeforeChangeHook
+  type HookArgs = Parameters<CollectionBeforeChangeHook>[0]
+
+  function run(data: Record<string, unknown>, originalDoc: Record<string, unknown>, payouts: Array<Record<string, unknown>> = []) {
+    const payload = {
+      find: vi.fn(async () => ({ docs: payouts })),
+      update: vi.fn(async () => ({})),
+    }
+    const req = { payload, user: { id: 3, role: 'admin' } }
+    return { payload, result: reviewHook({ data, originalDoc, operation: 'update', req } as unknown as HookArgs) }
+  }
+
+  it('applies a denial and records the reviewer', async () => {
+    const { result } = run({ fraud: { reviewStatus: 'denied' } }, { ...referral, fraud: { reviewStatus: 'held' } })
+    const data = await result
+
+    expect(data.status).toBe('fraud')
+    expect(data.fraud).toMatchObject({ reviewStatus: 'denied', reviewedBy: 3 })
+    expect(data.fraud.reviewedAt).toEqual(expect.any(String))
+  })
+
+  it('ignores unrelated updates and refuses to reopen denials', async () => {
+    const untouched = run({ notes: 'x' }, { ...referral, fraud: { reviewStatus: 'held' } })
+    expect(await untouched.result).toEqual({ notes: 'x' })
+    expect(untouched.payload.find).not.toHaveBeenCalled()
+
+    await expect(run({ fraud: { reviewStatus: 'approved' } }, { ...referral, fraud: { reviewStatus: 'denied' } }).result)
+      .rejects.toThrow('Denied referrals cannot be reopened')
+  })
+})
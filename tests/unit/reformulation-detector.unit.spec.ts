@@ -0,0 +1,74 @@
+/**
+ * Unit tests for the reformulation detector
+ *
+ * Tests how ingredient panels are normalized and how differences between
+ * two captures are classified, with and without a registry index.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildIngredientIndex, type RegistryIngredient } from '@/utilities/ingredient-registry'
+import { diffIngredientPanels, listIngredients } from '@/utilities/reformulation-detector'
+
+const registry: RegistryIngredient[] = [
+  { id: 1, name: 'Sugar', verdict: 'safe', category: 'sugars', synonyms: [{ synonym: 'Cane Sugar' }] },
+  { id: 2, name: 'Sucralose', verdict: 'caution', category: 'artificial_sweeteners' },
+  { id: 3, name: 'Aspartame', verdict: 'caution', category: 'artificial_sweeteners',
+    hazardClassifications: [{ hazard: 'possible_carcinogen', authority: 'iarc' }] },
+  { id: 4, name: 'Red 40', verdict: 'caution', category: 'artificial_colors', eNumber: 'E129' },
+  { id: 5, name: 'Titanium Dioxide', verdict: 'flagged', category: 'artificial_colors' },
+  { id: 6, name: 'Salt', verdict: 'safe', category: 'other' },
+]
+const index = buildIngredientIndex(registry)
+
+describe('listIngredients', () => {
+  it('normalizes synonyms, percentages and descriptors', () => {
+    const listed = listIngredients('Water, Organic Cane Sugar, 2% Salt, Red 40 (E129)', index)
+    expect(listed.map(i => i.key)).toEqual(['water', 'registry:1', 'registry:6', 'registry:4'])
+    expect(listed.map(i => i.name)).toEqual(['Water', 'Sugar', 'Salt', 'Red 40'])
+  })
+
+  it('lists hazards, treating flagged ingredients without classifications as hazardous', () => {
+    const listed = listIngredients('Aspartame, Titanium Dioxide, Salt', index)
+    expect(listed.map(i => i.hazards)).toEqual([['Possible carcinogen (IARC)'], ['Flagged ingredient'], []])
+  })
+})
+
+describe('diffIngredientPanels', () => {
+  it('ignores case, synonyms and percentage changes', () => {
+    const diff = diffIngredientPanels('Water, Sugar, Salt 2%', 'WATER, cane sugar, salt (1%)', index)
+    expect(diff.changes).toEqual([])
+    expect(diff.hazardous).toBe(false)
+  })
+
+  it('pairs replacements from the same category as substitutions', () => {
+    const diff = diffIngredientPanels('Water, Sucralose, Citric Acid, Salt', 'Water, Citric Acid, Salt, Aspartame', index)
+    expect(diff.changes).toEqual([
+      expect.objectContaining({ type: 'substitution', ingredient: 'Aspartame', replaced: 'Sucralose', hazards: ['Possible carcinogen (IARC)'] }),
+    ])
+    expect(diff.hazardous).toBe(true)
+    expect(diff.summary).toBe('Sucralose replaced by Aspartame')
+  })
+
+  it('pairs unknown ingredients in the same slot and reports the rest as removals and additions', () => {
+    const diff = diffIngredientPanels('Oats, Honey, Almonds, Salt, Cinnamon', 'Oats, Maple Syrup, Salt, Cinnamon, Titanium Dioxide', index)
+    expect(diff.changes.map(c => [c.type, c.ingredient])).toEqual([
+      ['substitution', 'Maple Syrup'],
+      ['removal', 'Almonds'],
+      ['addition', 'Titanium Dioxide'],
+    ])
+    expect(diff.summary).toBe('Added Titanium Dioxide; Honey replaced by Maple Syrup; removed Almonds')
+  })
+
+  it('only reports ingredients that moved as reordered', () => {
+    const diff = diffIngredientPanels('Water, Sugar, Salt, Vinegar', 'Sugar, Water, Salt, Vinegar', index)
+    expect(diff.changes).toEqual([
+      { type: 'reordering', ingredient: 'Water', fromPosition: 1, toPosition: 2, hazards: [] },
+    ])
+  })
+
+  it('works without a registry index', () => {
+    const diff = diffIngredientPanels('Water, Sugar', 'Water, Sugar, Red 40', null)
+    expect(diff.changes).toEqual([{ type: 'addition', ingredient: 'Red 40', toPosition: 3, hazards: [] }])
+    expect(diff.hazardous).toBe(false)
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for regulatory feed parsers
+ *
+ * Parses saved Federal Register, Prop 65 and EFSA feeds
+ * (tests/unit/fixtures/regulatory) offline, resolves their substances against
+ * a small ingredient registry and checks referenceId de-duplication.
+ */
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import type { Payload } from 'payload'
+import { describe, it, expect, vi } from 'vitest'
+import { buildIngredientIndex, type RegistryIngredient } from '@/utilities/ingredient-registry'
+import {
+  classifyChangeType,
+  extractSubstanceMentions,
+  ingestRegulatoryUpdates,
+  parseEfsaFeed,
+  parseFederalRegister,
+  parseProp65List,
+  resolveSubstances,
+  type ParsedRegulatoryUpdate,
+} from '@/utilities/regulatory-feeds'
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', 'regulatory', name), 'utf8')
+
+const registry: RegistryIngredient[] = [
+  { id: 1, name: 'Red 3', verdict: 'flagged', casNumber: '16423-68-0', synonyms: [{ synonym: 'FD&C Red No. 3' }] },
+  { id: 2, name: 'Titanium Dioxide', verdict: 'flagged', casNumber: '13463-67-7', eNumber: 'E171' },
+  { id: 3, name: 'Lead', verdict: 'flagged', casNumber: '7439-92-1' },
+  { id: 4, name: 'Sugar', verdict: 'safe' },
+]
+const index = buildIngredientIndex(registry)
+
+describe('parseFederalRegister', () => {
+  const updates = parseFederalRegister(JSON.parse(fixture('federal-register.json')))
+
+  it('keeps food documents and classifies them', () => {
+    expect(updates.map(u => [u.referenceId, u.changeType])).toEqual([
+      ['2025-00830', 'ban'],
+      ['2025-01234', 'limit'],
+      ['2025-02001', 'review'],
+    ])
+    expect(updates[0]).toMatchObject({
+      source: 'fda',
+      announcedDate: '2025-01-16',
+      effectiveDate: '2025-01-16',
+    })
+    expect(updates[1].effectiveDate).toBeUndefined()
+  })
+
+  it('reads CAS-tagged substances, falling back to the title subject', () => {
+    expect(updates[0].substances).toEqual([{ name: 'FD&C Red No. 3', casNumber: '16423-68-0' }])
+    expect(updates[1].substances).toEqual([{ name: 'lead', casNumber: '7439-92-1' }])
+    expect(updates[2].substances).toEqual([{ name: 'Vitamin D2 Mushroom Powder', casNumber: null }])
+  })
+})
+
+describe('parseProp65List', () => {
+  it('finds the header below the title rows and reads each listing', () => {
+    const updates = parseProp65List(fixture('prop65.csv'))
+    expect(updates).toHaveLength(6)
+    expect(updates[2]).toMatchObject({
+      source: 'prop65',
+      referenceId: 'prop65-108-05-4-2025-01-03',
+      title: 'Prop 65 listing: Vinyl acetate',
+      changeType: 'warning',
+      effectiveDate: '2025-01-03',
+      substances: [{ name: 'Vinyl acetate', casNumber: '108-05-4' }],
+    })
+    expect(updates[2].summary).toBe('Listed as known to the State of California to cause cancer; listing mechanism: LC')
+  })
+
+  it('only returns recent listings and keys chemicals without a CAS number by name', () => {
+    const updates = parseProp65List(fixture('prop65.csv'), new Date('2024-12-01'))
+    expect(updates.map(u => u.referenceId)).toEqual([
+      'prop65-108-05-4-2025-01-03',
+      'prop65-perfluorooctane-sulfonate-pfos-and-its-salts-and-transformat-2024-12-27',
+    ])
+    expect(updates[1].substances[0].casNumber).toBeNull()
+  })
+})
+
+describe('parseEfsaFeed', () => {
+  const updates = parseEfsaFeed(fixture('efsa.xml'))
+
+  it('uses the DOI as reference id and skips unrelated opinions', () => {
+    expect(updates.map(u => u.referenceId)).toEqual([
+      '10.2903/j.efsa.2025.9012',
+      '10.2903/j.efsa.2025.9100',
+      '10.2903/j.efsa.2025.9150',
+    ])
+    expect(updates.map(u => u.changeType)).toEqual(['review', 'review', 'approval'])
+    expect(updates[0].summary).toBe('The Panel on Food Additives and Flavourings concluded that a concern for genotoxicity of titanium dioxide particles cannot be ruled out & an ADI cannot be established.')
+    expect(updates[0].announcedDate).toBe('2025-01-14')
+  })
+
+  it('reads E-numbers, active substances and opinion subjects', () => {
+    expect(updates.map(u => u.substances)).toEqual([
+      [{ name: 'titanium dioxide', casNumber: null, eNumber: 'E171' }],
+      [{ name: 'glyphosate', casNumber: null }],
+      [{ name: 'vitamin D2 mushroom powder', casNumber: null }],
+    ])
+  })
+})
+
+describe('classifyChangeType and extractSubstanceMentions', () => {
+  it('prefers the strongest action named in the text', () => {
+    expect(classifyChangeType('Revocation of the tolerance for chlorpyrifos', 'restriction')).toBe('ban')
+    expect(classifyChangeType('Maximum residue levels for acetamiprid', 'guideline')).toBe('limit')
+    expect(classifyChangeType('Food Standards; General Principles', 'restriction')).toBe('restriction')
+  })
+
+  it('stops substance names at sentence boundaries and connectives', () => {
+    expect(extractSubstanceMentions('Tolerances are revoked. Chlorpyrifos (CAS No. 2921-88-2) and residues of malathion (CAS RN 121-75-5)')).toEqual([
+      { name: 'Chlorpyrifos', casNumber: '2921-88-2' },
+      { name: 'malathion', casNumber: '121-75-5' },
+    ])
+  })
+})
+
+describe('resolveSubstances', () => {
+  it('resolves by CAS number, E-number and synonym', () => {
+    const [redDye] = parseFederalRegister(JSON.parse(fixture('federal-register.json')))
+    const [titanium, glyphosate] = parseEfsaFeed(fixture('efsa.xml'))
+
+    expect(resolveSubstances(redDye, index)).toEqual([{ name: 'FD&C Red No. 3', casNumber: '16423-68-0', ingredientId: 1 }])
+    expect(resolveSubstances(titanium, index)).toEqual([{ name: 'titanium dioxide', casNumber: '13463-67-7', ingredientId: 2 }])
+    expect(resolveSubstances(glyphosate, index)).toEqual([{ name: 'glyphosate', casNumber: null, ingredientId: null }])
+  })
+
+  it('adds registry ingredients named in passing, once each', () => {
+    const update: ParsedRegulatoryUpdate = {
+      source: 'efsa',
+      referenceId: 'ref',
+      title: 'Safety assessment of colours in confectionery',
+      summary: 'Covers titanium dioxide (E 171) and titanium dioxide coated sugar pearls.',
+      url: 'https://example.com',
+      changeType: 'review',
+      substances: [{ name: 'E171 pigment', casNumber: null, eNumber: 'E171' }],
+    }
+    expect(resolveSubstances(update, index).map(s => s.ingredientId)).toEqual([2, 4])
+  })
+})
+
+describe('ingestRegulatoryUpdates', () => {
+  it('skips reference ids seen earlier in the batch or already stored', async () => {
+    const updates = parseProp65List(fixture('prop65.csv'), new Date('2024-12-01'))
+    const create = vi.fn().mockResolvedValue({})
+    const payload = {
+      find: vi.fn(async ({ collection }: { collection: string }) => {
+        if (collection === 'regulatory-changes') return { docs: [{ referenceId: updates[1].referenceId }] }
+        return { docs: [] }
+      }),
+      create,
+    } as unknown as Payload
+
+    const result = await ingestRegulatoryUpdates(payload, [...updates, updates[0]])
+
+    expect(result).toEqual({ found: 3, created: 1, duplicates: 2, errors: [] })
+    expect(create).toHaveBeenCalledTimes(1)
+    expect(create.mock.calls[0][0].data).toMatchObject({
+      referenceId: 'prop65-108-05-4-2025-01-03',
+      affectedSubstances: [{ name: 'Vinyl acetate', casNumber: '108-05-4', ingredient: null }],
+      affectedProducts: [],
+      recommendedAction: 'monitor',
+      status: 'pending',
+    })
+  })
+})
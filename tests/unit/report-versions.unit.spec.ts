@@ -0,0 +1,151 @@
+/**
+ * Unit tests for report-versions
+ *
+ * Tests snapshot building, field-level diffs and the public changelog.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildChangelog,
+  buildReportSnapshot,
+  diffSnapshots,
+  findVersion,
+  formatDisputeReason,
+  hasLabData,
+  redactChanges,
+  snapshotsEqual,
+  type ReportVersion,
+} from '@/utilities/report-versions'
+
+const PRODUCT = {
+  name: 'Oat Puffs',
+  brand: 'Acme',
+  verdict: 'recommend',
+  summary: 'Clean oat snack.',
+  sampleId: 'TPR-2026-0001',
+  testDate: '2026-01-10',
+  category: { id: 4 },
+  badges: { isBestValue: true, isRecommended: false },
+  detectionResults: {
+    detections: [
+      { compound: 'Lead', level: '4 ppb', interpretation: 'below', confirmationLevel: 'quantified', displayMode: 'primary' },
+      { compound: 'Glyphosate', level: '12 ppb', interpretation: 'none', confirmationLevel: 'screening', displayMode: 'hidden' },
+    ],
+  },
+}
+
+const V1 = buildReportSnapshot(PRODUCT)
+const V2 = buildReportSnapshot({
+  ...PRODUCT,
+  verdict: 'caution',
+  summary: 'Lead above our limit on retest.',
+  badges: { isBestValue: false, isRecommended: true },
+  detectionResults: {
+    detections: [
+      { compound: 'Lead', level: '14 ppb', interpretation: 'above', confirmationLevel: 'quantified', displayMode: 'primary' },
+      { compound: 'Glyphosate', level: '30 ppb', interpretation: 'none', confirmationLevel: 'screening', displayMode: 'hidden' },
+      { compound: 'Cadmium', level: '2 ppb', interpretation: 'below', confirmationLevel: 'confirmed', displayMode: 'primary' },
+    ],
+  },
+})
+
+const VERSIONS: ReportVersion[] = [
+  { versionNumber: 1, publishedAt: '2026-01-12T00:00:00.000Z', snapshot: V1, changeReason: 'Initial publication' },
+  {
+    versionNumber: 2,
+    publishedAt: '2026-02-03T00:00:00.000Z',
+    snapshot: V2,
+    changeReason: 'Manufacturer dispute DIS-2026-ABC123: retested lead',
+    disputeReference: 'DIS-2026-ABC123',
+  },
+]
+
+describe('report-versions', () => {
+  describe('buildReportSnapshot', () => {
+    it('records verdict, summary, active badges and detections', () => {
+      expect(V1).toMatchObject({
+        verdict: 'recommend',
+        summary: 'Clean oat snack.',
+        category: 4,
+        badges: ['isBestValue'],
+      })
+      expect(V1.detections[0]).toEqual({
+        compound: 'Lead',
+        level: '4 ppb',
+        threshold: null,
+        interpretation: 'below',
+        confirmationLevel: 'quantified',
+        displayMode: 'primary',
+      })
+    })
+
+    it('requires a sample or detections to count as lab data', () => {
+      expect(hasLabData(PRODUCT)).toBe(true)
+      expect(hasLabData({ name: 'Untested', detectionResults: { detections: [] } })).toBe(false)
+    })
+  })
+
+  describe('diffSnapshots', () => {
+    it('reports scalar, badge and per-compound detection changes', () => {
+      const changes = diffSnapshots(V1, V2)
+
+      expect(changes).toContainEqual({ field: 'verdict', type: 'changed', before: 'recommend', after: 'caution' })
+      expect(changes).toContainEqual({ field: 'badges.isRecommended', type: 'added', after: true })
+      expect(changes).toContainEqual({ field: 'badges.isBestValue', type: 'removed', before: true })
+      expect(changes).toContainEqual({ field: 'detections.lead.level', type: 'changed', before: '4 ppb', after: '14 ppb' })
+      expect(changes.find(c => c.field === 'detections.cadmium')?.type).toBe('added')
+    })
+
+    it('treats legacy snapshots with a badge group and no detections as equivalent', () => {
+      const legacy = { ...V1, badges: { isBestValue: true, isRecommended: false }, detections: undefined }
+      expect(snapshotsEqual(legacy, { ...V1, detections: [] })).toBe(true)
+      expect(snapshotsEqual(V1, V2)).toBe(false)
+    })
+  })
+
+  describe('findVersion', () => {
+    it('returns the latest version when no number is given', () => {
+      expect(findVersion(VERSIONS)?.versionNumber).toBe(2)
+      expect(findVersion(VERSIONS, 1)?.changeReason).toBe('Initial publication')
+      expect(findVersion(VERSIONS, 7)).toBeUndefined()
+    })
+  })
+
+  describe('redactChanges', () => {
+    it('collapses summary and detection details when shielded', () => {
+      const redacted = redactChanges(diffSnapshots(V1, V2), true)
+
+      expect(redacted.some(c => c.field === 'summary')).toBe(false)
+      expect(redacted.filter(c => c.field.startsWith('detections'))).toEqual([{ field: 'detections', type: 'changed' }])
+    })
+  })
+
+  describe('buildChangelog', () => {
+    it('lists versions newest first with public reasons and no hidden detections', () => {
+      const [latest, first] = buildChangelog(VERSIONS)
+
+      expect(first).toMatchObject({ versionNumber: 1, reason: 'Initial publication', changes: [] })
+      expect(latest.reason).toBe('Updated following a manufacturer review')
+      expect(latest.changes).toContain('Verdict changed from recommend to caution')
+      expect(latest.changes).toContain('Awarded "Recommended" badge')
+      expect(latest.changes).toContain('Cadmium detected at 2 ppb')
+      expect(latest.changes.join(' ')).not.toMatch(/glyphosate/i)
+    })
+
+    it('hides lab detail for shielded viewers', () => {
+      const [latest] = buildChangelog(VERSIONS, { shielded: true })
+
+      expect(latest.changes).toContain('Lab results updated')
+      expect(latest.changes).not.toContain('Summary updated')
+    })
+  })
+
+  describe('formatDisputeReason', () => {
+    it('includes the dispute reference and description', () => {
+      expect(formatDisputeReason({ referenceNumber: 'DIS-2026-ABC123', description: ' retested lead ' })).toBe(
+        'Manufacturer dispute DIS-2026-ABC123: retested lead'
+      )
+      expect(formatDisputeReason({ referenceNumber: 'DIS-2026-ABC123' })).toBe('Manufacturer dispute DIS-2026-ABC123')
+    })
+  })
+})
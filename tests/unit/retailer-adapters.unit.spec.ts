@@ -0,0 +1,134 @@
+/**
+ * Unit tests for retailer price adapters
+ *
+ * Parses saved product pages (tests/unit/fixtures/retailers) offline and
+ * checks price, sale price, size, unit count and ingredient extraction, plus
+ * the shared size / count / structured-data helpers.
+ */
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import { describe, it, expect } from 'vitest'
+import {
+  detectRetailer,
+  extractAssignedJson,
+  parseListing,
+  parsePrice,
+  parseSize,
+  parseUnitCount,
+} from '@/utilities/retailer-adapters'
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, 'fixtures', 'retailers', `${name}.html`), 'utf8')
+
+describe('retailer adapters', () => {
+  it('reads Amazon buy box price data, the strike price and the ingredient panel', () => {
+    const listing = parseListing('amazon', fixture('amazon'))
+    expect(listing).toMatchObject({
+      title: 'Honest Kids Organic Juice Drink, Berry Berry Good Lemonade, 6 Fl Oz (Pack of 8)',
+      price: 5.29,
+      salePrice: 4.48,
+      size: '6 fl oz',
+      unitCount: 8,
+      inStock: true,
+      source: 'embedded_state',
+    })
+    expect(listing.ingredients).toMatch(/^Filtered Water, Organic Lemon Juice Concentrate/)
+    expect(listing.ingredients).not.toContain('Shake well')
+  })
+
+  it('reads Walmart __NEXT_DATA__ over JSON-LD and microdata', () => {
+    const listing = parseListing('walmart', fixture('walmart'))
+    expect(listing).toMatchObject({
+      price: 4.58,
+      salePrice: 4.12,
+      size: '40 oz',
+      unitCount: null,
+      inStock: true,
+      source: 'embedded_state',
+    })
+    expect(listing.ingredients).toMatch(/^Roasted Peanuts, Sugar/)
+    expect(listing.warnings).toEqual([])
+  })
+
+  it('reads Target state serialized with JSON.parse', () => {
+    const listing = parseListing('target', fixture('target'))
+    expect(listing).toMatchObject({
+      title: 'General Mills Cheerios Heart Healthy Cereal - 8.9oz',
+      price: 4.49,
+      salePrice: 3.99,
+      size: '8.9 oz',
+      inStock: true,
+      source: 'embedded_state',
+    })
+    expect(listing.ingredients).toMatch(/^Whole Grain Oats/)
+  })
+
+  it('reads iHerb JSON-LD list price, package quantity and other ingredients', () => {
+    const listing = parseListing('iherb', fixture('iherb'))
+    expect(listing).toMatchObject({
+      price: 10.78,
+      salePrice: 8.08,
+      size: null,
+      unitCount: 100,
+      inStock: true,
+      source: 'json_ld',
+    })
+    expect(listing.ingredients).toBe(
+      'Fish oil (anchovy, sardine, mackerel), fish gelatin softgel (fish gelatin, glycerin, purified water), mixed tocopherols (antioxidant).'
+    )
+  })
+
+  it('falls back to structured data and reports what is missing', () => {
+    const html = fixture('iherb').replace(/<script type="application\/ld\+json">[\s\S]*?<\/script>/, '')
+    expect(parseListing('iherb', html)).toMatchObject({ price: 8.08, salePrice: null, source: 'microdata' })
+
+    const empty = parseListing('costco', '<html><body><h1>Kirkland Signature Almonds, 3 lbs</h1></body></html>')
+    expect(empty.price).toBeNull()
+    expect(empty.warnings).toEqual(['No price found', 'No package size found', 'No ingredient panel found'])
+  })
+
+  it('rejects prices in other currencies', () => {
+    const html = '<script type="application/ld+json">{"@type":"Product","name":"Tea","offers":{"price":"9.50","priceCurrency":"CAD"}}</script>'
+    const listing = parseListing('iherb', html)
+    expect(listing.price).toBeNull()
+    expect(listing.warnings).toContain('Price is in CAD, not USD')
+  })
+})
+
+describe('helpers', () => {
+  it('parses prices', () => {
+    expect(parsePrice('Now $1,299.00')).toBe(1299)
+    expect(parsePrice(4.125)).toBe(4.13)
+    expect(parsePrice('Free')).toBeNull()
+    expect(parsePrice(0)).toBeNull()
+  })
+
+  it('canonicalizes sizes and ignores per-unit prices', () => {
+    expect(parseSize('6 Fluid Ounces')).toBe('6 fl oz')
+    expect(parseSize('Cheerios - 8.9oz')).toBe('8.9 oz')
+    expect(parseSize('1.5 Liters')).toBe('1.5 l')
+    expect(parseSize('2 lbs bag')).toBe('2 lb')
+    expect(parseSize('($0.09/Fl Oz)')).toBeNull()
+    expect(parseSize('100 Fish Gelatin Softgels')).toBeNull()
+  })
+
+  it('finds unit counts', () => {
+    expect(parseUnitCount('6 Fl Oz (Pack of 8)')).toBe(8)
+    expect(parseUnitCount('100 Count')).toBe(100)
+    expect(parseUnitCount('120 Veggie Capsules')).toBe(120)
+    expect(parseUnitCount('40 oz')).toBeNull()
+  })
+
+  it('reads object-literal window state', () => {
+    const html = '<script>window.__STATE__ = {"a":{"b":"}"}};window.other = 1</script>'
+    expect(extractAssignedJson(html, 'window.__STATE__')).toEqual({ a: { b: '}' } })
+  })
+
+  it('detects retailers from URLs', () => {
+    expect(detectRetailer('https://www.amazon.com/dp/B000')).toBe('amazon')
+    expect(detectRetailer('https://www.iherb.com/pr/x/62118')).toBe('iherb')
+    expect(detectRetailer('https://www.costco.com/item.html')).toBe('costco')
+    expect(detectRetailer('https://notamazon.com/x')).toBeNull()
+    expect(detectRetailer('not a url')).toBeNull()
+  })
+})
@@ -0,0 +1,335 @@
+/**
+ * Unit tests for RevenueCat event processing
+ *
+ * Tests mapping events to subscription status and member state, the ledger
+ * key and redelivery handling, renewal commission surviving a failed
+ * accrual, and reversing refunded commission from unpaid payouts.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { Payload } from 'payload'
+import {
+  auditActionFor,
+  isRefund,
+  isSettled,
+  ledgerKey,
+  memberStateFor,
+  receiveRevenueCatEvent,
+  replayRevenueCatEvents,
+  reverseRefundedCommission,
+  subscriptionStatusFor,
+  applyRevenueCatEvent,
+  type RevenueCatWebhookEvent,
+} from '@/utilities/revenuecat-events'
+import { atomicCommissionAccrual, atomicIncrement } from '@/utilities/atomic-operations'
+
+vi.mock('@/collections/AuditLog', () => ({
+  createAuditLog: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/lib/analytics/rudderstack-server', () => ({
+  trackServer: vi.fn(),
+  flushServer: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/utilities/atomic-operations', () => ({
+  atomicCommissionAccrual: vi.fn(),
+  atomicIncrement: vi.fn(async () => undefined),
+}))
+
+vi.mock('@/utilities/referral-fraud', () => ({
+  assessReferralFraud: vi.fn(async () => ({ held: false })),
+  holdReferralCommission: vi.fn(),
+}))
+
+const NOW = Date.parse('2026-02-10T12:00:00Z')
+
+function event(overrides: Partial<RevenueCatWebhookEvent> = {}): RevenueCatWebhookEvent {
+  return {
+    type: 'RENEWAL',
+    id: 'evt-1',
+    event_timestamp_ms: NOW,
+    app_user_id: 'user-1',
+    ...overrides,
+  }
+}
+
+describe('subscriptionStatusFor', () => {
+  it('maps purchases and renewals to premium, trials to trial', () => {
+    expect(subscriptionStatusFor(event({ type: 'INITIAL_PURCHASE' }), NOW)).toBe('premium')
+    expect(subscriptionStatusFor(event({ type: 'INITIAL_PURCHASE', period_type: 'TRIAL' }), NOW)).toBe('trial')
+    expect(subscriptionStatusFor(event({ type: 'RENEWAL' }), NOW)).toBe('premium')
+    expect(subscriptionStatusFor(event({ type: 'TEMPORARY_ENTITLEMENT_GRANT' }), NOW)).toBe('premium')
+  })
+
+  it('keeps access through cancellation until expiration, except for refunds', () => {
+    expect(subscriptionStatusFor(event({ type: 'CANCELLATION', expiration_at_ms: NOW + 1000 }), NOW)).toBeNull()
+    expect(subscriptionStatusFor(event({ type: 'CANCELLATION', expiration_at_ms: NOW - 1000 }), NOW)).toBe('cancelled')
+    expect(subscriptionStatusFor(event({
+      type: 'CANCELLATION',
+      cancel_reason: 'CUSTOMER_SUPPORT',
+      expiration_at_ms: NOW + 1000,
+    }), NOW)).toBe('cancelled')
+    expect(subscriptionStatusFor(event({ type: 'EXPIRATION' }), NOW)).toBe('cancelled')
+  })
+
+  it('leaves status alone for billing issues, pauses and consumables', () => {
+    expect(subscriptionStatusFor(event({ type: 'BILLING_ISSUE' }), NOW)).toBeNull()
+    expect(subscriptionStatusFor(event({ type: 'SUBSCRIPTION_PAUSED' }), NOW)).toBeNull()
+    expect(subscriptionStatusFor(event({ type: 'NON_RENEWING_PURCHASE' }), NOW)).toBeNull()
+    expect(subscriptionStatusFor(event({ type: 'NON_RENEWING_PURCHASE', entitlement_ids: ['pro'] }), NOW)).toBe('premium')
+  })
+
+  it('restores premium on a reversed refund only while the period runs', () => {
+    expect(subscriptionStatusFor(event({ type: 'REFUND_REVERSED', expiration_at_ms: NOW + 1000 }), NOW)).toBe('premium')
+    expect(subscriptionStatusFor(event({ type: 'REFUND_REVERSED', expiration_at_ms: NOW - 1000 }), NOW)).toBeNull()
+  })
+})
+
+describe('memberStateFor', () => {
+  it('makes subscribers members and drops lapsed members to trial', () => {
+    expect(memberStateFor('premium', 'virgin')).toBe('member')
+    expect(memberStateFor('premium', 'member')).toBeNull()
+    expect(memberStateFor('cancelled', 'member')).toBe('trial')
+    expect(memberStateFor('cancelled', 'virgin')).toBeNull()
+  })
+})
+
+describe('event helpers', () => {
+  it('recognises refunds by cancel reason', () => {
+    expect(isRefund({ type: 'CANCELLATION', cancel_reason: 'CUSTOMER_SUPPORT' })).toBe(true)
+    expect(isRefund({ type: 'CANCELLATION', cancel_reason: 'UNSUBSCRIBE' })).toBe(false)
+    expect(isRefund({ type: 'EXPIRATION', cancel_reason: 'CUSTOMER_SUPPORT' })).toBe(false)
+  })
+
+  it('audits trial conversions separately from renewals', () => {
+    expect(auditActionFor(event({ is_trial_conversion: true }))).toBe('trial_converted')
+    expect(auditActionFor(event())).toBe('subscription_renewed')
+  })
+
+  it('keys the ledger by event id, or by type, subscriber and time', () => {
+    expect(ledgerKey(event())).toBe('evt-1')
+    expect(ledgerKey(event({ id: undefined }))).toBe(`RENEWAL:user-1:${NOW}`)
+  })
+
+  it('settles processed and skipped entries, and received ones still in flight', () => {
+    const recent = new Date(NOW - 60 * 1000).toISOString()
+    const old = new Date(NOW - 60 * 60 * 1000).toISOString()
+    expect(isSettled({ status: 'processed', updatedAt: old }, NOW)).toBe(true)
+    expect(isSettled({ status: 'skipped', updatedAt: old }, NOW)).toBe(true)
+    expect(isSettled({ status: 'received', updatedAt: recent }, NOW)).toBe(true)
+    expect(isSettled({ status: 'received', updatedAt: old }, NOW)).toBe(false)
+    expect(isSettled({ status: 'failed', updatedAt: recent }, NOW)).toBe(false)
+    expect(isSettled({ status: 'unmatched', updatedAt: recent }, NOW)).toBe(false)
+  })
+})
+
+describe('applyRevenueCatEvent', () => {
+  it('skips informational events without looking anything up', async () => {
+    const payload = { find: vi.fn() } as unknown as Payload
+    const result = await applyRevenueCatEvent(payload, event({ type: 'SUBSCRIBER_ALIAS' }))
+    expect(result.status).toBe('skipped')
+    expect(payload.find).not.toHaveBeenCalled()
+  })
+
+  it('reports events with no user or referral as unmatched', async () => {
+    const payload = {
+      find: vi.fn(async () => ({ docs: [] })),
+      findByID: vi.fn(async () => { throw new Error('Not Found') }),
+    } as unknown as Payload
+    const result = await applyRevenueCatEvent(payload, event())
+    expect(result.status).toBe('unmatched')
+    expect(result.userId).toBeUndefined()
+  })
+})
+
+describe('renewal commission', () => {
+  const referral = {
+    id: 10,
+    status: 'active',
+    referrerId: 'ref-1',
+    referrerEmail: 'alice@example.com',
+    nextCommissionDate: new Date(NOW - 24 * 60 * 60 * 1000).toISOString(),
+  }
+
+  function mockPayload(recordedPayouts: number) {
+    return {
+      find: vi.fn(async ({ collection }: { collection: string }) => ({
+        docs: collection === 'referrals' ? [referral] : [],
+      })),
+      count: vi.fn(async ({ collection }: { collection: string }) => ({
+        totalDocs: collection === 'referral-payouts' ? recordedPayouts : 0,
+      })),
+      update: vi.fn(async () => ({})),
+    } as unknown as Payload & { update: ReturnType<typeof vi.fn> }
+  }
+
+  beforeEach(() => {
+    vi.mocked(atomicIncrement).mockClear()
+    vi.mocked(atomicCommissionAccrual).mockReset()
+  })
+
+  it('keeps the anniversary when the accrual fails, so a replay retries it', async () => {
+    vi.mocked(atomicCommissionAccrual).mockRejectedValueOnce(new Error('db down'))
+    const payload = mockPayload(0)
+
+    await expect(applyRevenueCatEvent(payload, event())).rejects.toThrow('db down')
+
+    expect(payload.update).not.toHaveBeenCalled()
+    expect(atomicIncrement).not.toHaveBeenCalled()
+  })
+
+  it('accrues once, then advances the anniversary', async () => {
+    const payload = mockPayload(0)
+
+    const result = await applyRevenueCatEvent(payload, event())
+
+    expect(atomicCommissionAccrual).toHaveBeenCalledTimes(1)
+    expect(atomicIncrement).toHaveBeenCalledWith(payload, 'referrals', 10, 'totalCommissionPaid', 25, undefined)
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      collection: 'referrals',
+      data: expect.objectContaining({ nextCommissionDate: expect.any(String) }),
+    }))
+    expect(result.outcome.referral?.actions).toContain('commission_accrued')
+  })
+
+  it('only advances the anniversary when the commission was already recorded', async () => {
+    const payload = mockPayload(1)
+
+    const result = await applyRevenueCatEvent(payload, event())
+
+    expect(atomicCommissionAccrual).not.toHaveBeenCalled()
+    expect(atomicIncrement).not.toHaveBeenCalledWith(payload, 'referrals', 10, 'totalCommissionPaid', 25, undefined)
+    expect(atomicIncrement).toHaveBeenCalledWith(payload, 'referrals', 10, 'yearsActive', 1, undefined)
+    expect(result.outcome.referral?.actions).toContain('commission_already_recorded')
+  })
+})
+
+describe('receiveRevenueCatEvent', () => {
+  it('acknowledges a redelivered event without applying it again', async () => {
+    const entry = {
+      id: 7,
+      eventId: 'evt-1',
+      type: 'RENEWAL',
+      status: 'processed',
+      event: event(),
+      updatedAt: new Date().toISOString(),
+      createdAt: new Date().toISOString(),
+    }
+    const payload = {
+      find: vi.fn(async () => ({ docs: [entry] })),
+      create: vi.fn(),
+      update: vi.fn(),
+    } as unknown as Payload
+
+    const result = await receiveRevenueCatEvent(payload, event())
+
+    expect(result).toMatchObject({ duplicate: true, status: 'processed' })
+    expect(payload.create).not.toHaveBeenCalled()
+    expect(payload.update).not.toHaveBeenCalled()
+  })
+})
+
+describe('replayRevenueCatEvents', () => {
+  it('picks up received entries left behind by a crash by default', async () => {
+    vi.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') })
+    const payload = { find: vi.fn(async () => ({ docs: [] })) } as unknown as Payload
+
+    await replayRevenueCatEvents(payload)
+    vi.useRealTimers()
+
+    const { where } = vi.mocked(payload.find).mock.calls[0][0]
+    expect(where?.and?.[0]).toEqual({
+      or: [
+        { status: { in: ['failed', 'unmatched'] } },
+        { and: [{ status: { equals: 'received' } }, { updatedAt: { less_than: '2026-03-01T11:55:00.000Z' } }] },
+      ],
+    })
+  })
+
+  it('uses the statuses it is given as they are', async () => {
+    const payload = { find: vi.fn(async () => ({ docs: [] })) } as unknown as Payload
+
+    await replayRevenueCatEvents(payload, { status: ['failed'] })
+
+    expect(vi.mocked(payload.find).mock.calls[0][0].where?.and?.[0]).toEqual({ status: { in: ['failed'] } })
+  })
+})
+
+describe('reverseRefundedCommission', () => {
+  beforeEach(() => {
+    vi.mocked(atomicIncrement).mockClear()
+  })
+
+  function mockPayload(payouts: Record<string, unknown>[]) {
+    return {
+      find: vi.fn(async () => ({ docs: payouts })),
+      update: vi.fn(async () => ({})),
+    } as unknown as Payload & { update: ReturnType<typeof vi.fn> }
+  }
+
+  const since = new Date('2026-01-01T00:00:00Z')
+
+  it('removes refunded commission from pending payouts and reverses the total', async () => {
+    const payload = mockPayload([{
+      id: 1,
+      status: 'pending',
+      amount: 50,
+      referralCount: 2,
+      referralBreakdown: [
+        { referralId: '10', amount: 25, anniversaryDate: '2026-01-15T00:00:00Z' },
+        { referralId: '11', amount: 25, anniversaryDate: '2026-01-15T00:00:00Z' },
+      ],
+    }])
+
+    const result = await reverseRefundedCommission(payload, { id: 10 }, since)
+
+    expect(result).toEqual({ reversed: 25, payoutIds: [1], clawbackPayoutIds: [] })
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      id: 1,
+      data: expect.objectContaining({ amount: 25, referralCount: 1 }),
+    }))
+    expect(atomicIncrement).toHaveBeenCalledWith(payload, 'referrals', 10, 'totalCommissionPaid', -25, undefined)
+  })
+
+  it('cancels held payouts left empty without touching the paid total', async () => {
+    const payload = mockPayload([{
+      id: 2,
+      status: 'held',
+      amount: 25,
+      referralCount: 1,
+      referralBreakdown: [{ referralId: '10', amount: 25, anniversaryDate: '2026-01-15T00:00:00Z' }],
+    }])
+
+    const result = await reverseRefundedCommission(payload, { id: 10 }, since)
+
+    expect(result.payoutIds).toEqual([2])
+    expect(result.reversed).toBe(0)
+    expect(payload.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ status: 'cancelled' }),
+    }))
+    expect(atomicIncrement).not.toHaveBeenCalled()
+  })
+
+  it('reports paid payouts for clawback and ignores commission from before the refund', async () => {
+    const payload = mockPayload([
+      {
+        id: 3,
+        status: 'paid',
+        amount: 25,
+        referralBreakdown: [{ referralId: '10', amount: 25, anniversaryDate: '2026-01-15T00:00:00Z' }],
+      },
+      {
+        id: 4,
+        status: 'pending',
+        amount: 25,
+        referralBreakdown: [{ referralId: '10', amount: 25, anniversaryDate: '2025-01-15T00:00:00Z' }],
+      },
+    ])
+
+    const result = await reverseRefundedCommission(payload, { id: 10 }, since)
+
+    expect(result).toEqual({ reversed: 0, payoutIds: [], clawbackPayoutIds: [3] })
+    expect(payload.update).not.toHaveBeenCalled()
+  })
+})
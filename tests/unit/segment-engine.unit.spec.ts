@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the segment membership engine
+ *
+ * Tests rule evaluation, the metrics derived from a device-fingerprints
+ * row, matching against active segments and the membership diff that
+ * produces entered/exited events.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  deriveUserMetrics,
+  diffMemberships,
+  evaluateSegmentRules,
+  matchSegments,
+  type FingerprintMetricsRow,
+  type UserSegment,
+} from '@/utilities/segment-engine'
+
+const now = new Date('2026-02-10T12:00:00.000Z')
+
+function row(overrides: Partial<FingerprintMetricsRow> = {}): FingerprintMetricsRow {
+  return {
+    id: 1,
+    fingerprint_hash: 'fp-1',
+    user_id: null,
+    first_seen_at: '2026-01-01T12:00:00.000Z',
+    last_seen_at: '2026-02-08T12:00:00.000Z',
+    os: 'iOS 18.2',
+    total_referrals: 0,
+    total_scans: '12',
+    vote_count: null,
+    subscription_status: null,
+    push_platform: null,
+    unlocked_products: 3,
+    voted_products: 0,
+    ...overrides,
+  }
+}
+
+function segment(id: number, overrides: Partial<UserSegment> = {}): UserSegment {
+  return {
+    id,
+    slug: `segment-${id}`,
+    rules: [{ field: 'scan_count', operator: 'gte', value: '10' }],
+    ruleLogic: 'all',
+    isActive: true,
+    ...overrides,
+  }
+}
+
+describe('evaluateSegmentRules', () => {
+  it('compares numbers numerically and strings case-insensitively', () => {
+    expect(evaluateSegmentRules([{ field: 'scan_count', operator: 'gt', value: '9' }], { scan_count: 10 }, 'all')).toBe(true)
+    expect(evaluateSegmentRules([{ field: 'platform', operator: 'eq', value: 'IOS' }], { platform: 'ios' }, 'all')).toBe(true)
+    expect(evaluateSegmentRules([{ field: 'app_version', operator: 'contains', value: '2.1' }], { app_version: '2.1.4' }, 'all')).toBe(true)
+  })
+
+  it('never matches a missing metric or an empty rule set', () => {
+    expect(evaluateSegmentRules([{ field: 'streak_days', operator: 'gte', value: '0' }], { scan_count: 5 }, 'all')).toBe(false)
+    expect(evaluateSegmentRules([], { scan_count: 5 }, 'any')).toBe(false)
+  })
+
+  it('combines rules with all/any', () => {
+    const rules = [
+      { field: 'scan_count', operator: 'gte' as const, value: '10' },
+      { field: 'subscription_status', operator: 'eq' as const, value: 'active' },
+    ]
+    const metrics = { scan_count: 12, subscription_status: 'free' }
+    expect(evaluateSegmentRules(rules, metrics, 'all')).toBe(false)
+    expect(evaluateSegmentRules(rules, metrics, 'any')).toBe(true)
+  })
+})
+
+describe('deriveUserMetrics', () => {
+  it('derives day counts, platform and counters from the row', () => {
+    expect(deriveUserMetrics(row(), now)).toEqual({
+      scan_count: 12,
+      days_since_install: 40,
+      subscription_status: 'free',
+      last_active_days: 2,
+      referral_count: 0,
+      platform: 'ios',
+      products_viewed: 3,
+      votes_cast: 0,
+    })
+  })
+
+  it('prefers the push token platform and maps premium to active', () => {
+    const metrics = deriveUserMetrics(row({ push_platform: 'android', subscription_status: 'premium' }), now)
+    expect(metrics.platform).toBe('android')
+    expect(metrics.subscription_status).toBe('active')
+  })
+
+  it('counts whichever vote source is higher', () => {
+    expect(deriveUserMetrics(row({ vote_count: 2, voted_products: '5' }), now).votes_cast).toBe(5)
+    expect(deriveUserMetrics(row({ vote_count: 7, voted_products: 5 }), now).votes_cast).toBe(7)
+  })
+
+  it('falls back to first seen when the device was never seen again', () => {
+    expect(deriveUserMetrics(row({ last_seen_at: null }), now).last_active_days).toBe(40)
+  })
+})
+
+describe('membership', () => {
+  it('matches active segments only', () => {
+    const segments = [segment(1), segment(2, { isActive: false }), segment(3, { rules: [{ field: 'scan_count', operator: 'lt', value: '5' }] })]
+    expect(matchSegments(segments, { scan_count: 12 })).toEqual([1])
+  })
+
+  it('diffs current and desired memberships into entries and exits', () => {
+    const current = [{ segmentId: 1, fingerprintId: 1 }, { segmentId: 2, fingerprintId: 1 }]
+    const desired = [{ segmentId: 2, fingerprintId: 1 }, { segmentId: 3, fingerprintId: 1 }]
+    expect(diffMemberships(current, desired)).toEqual({
+      entered: [{ segmentId: 3, fingerprintId: 1 }],
+      exited: [{ segmentId: 1, fingerprintId: 1 }],
+    })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Unit tests for verdict-conditions
+ *
+ * Tests condition tree validation, evaluation and clause explanations.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  evaluateConditionTree,
+  parseConcentration,
+  treeUsesBrand,
+  validateConditionTree,
+  type ConditionContext,
+  type ConditionNode,
+} from '@/utilities/verdict-conditions'
+
+const BABY_FOOD_LEAD_OR_RECALL: ConditionNode = {
+  op: 'or',
+  children: [
+    {
+      op: 'and',
+      children: [
+        { type: 'category', categories: ['baby-food'] },
+        { type: 'detection', compound: 'lead', operator: 'gt', value: 10, unit: 'ppb' },
+      ],
+    },
+    { type: 'brand_recall', withinMonths: 12 },
+  ],
+}
+
+function context(overrides: Partial<ConditionContext> = {}): ConditionContext {
+  return {
+    ingredientIds: [],
+    ingredientVerdicts: [],
+    now: new Date('2026-06-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('verdict-conditions', () => {
+  describe('parseConcentration', () => {
+    it('converts common units to ppb', () => {
+      expect(parseConcentration('45 ppb')).toBe(45)
+      expect(parseConcentration('0.02 ppm')).toBe(20)
+      expect(parseConcentration('1,500 ppt')).toBe(1.5)
+      expect(parseConcentration('3 μg/kg')).toBe(3) // Greek mu
+    })
+
+    it('reads non-detects as below any threshold', () => {
+      expect(parseConcentration('<1 µg/kg')).toBe(0)
+      expect(parseConcentration('< 5 ppb')).toBe(0)
+      expect(parseConcentration('ND')).toBe(0)
+      expect(parseConcentration('Not detected')).toBe(0)
+    })
+
+    it('returns null for unparseable levels', () => {
+      expect(parseConcentration('trace')).toBeNull()
+      expect(parseConcentration('12 widgets')).toBeNull()
+      expect(parseConcentration(null)).toBeNull()
+    })
+  })
+
+  describe('validateConditionTree', () => {
+    it('accepts a well-formed tree', () => {
+      expect(validateConditionTree(BABY_FOOD_LEAD_OR_RECALL)).toBe(true)
+    })
+
+    it('reports the path of the invalid node', () => {
+      const result = validateConditionTree({
+        op: 'and',
+        children: [{ type: 'category', categories: [1] }, { op: 'not', child: { type: 'bogus' } }],
+      })
+      expect(result).toBe('root.and[1].not: unknown predicate type "bogus"')
+    })
+
+    it('rejects empty groups and missing comparison values', () => {
+      expect(validateConditionTree({ op: 'or', children: [] })).toMatch(/non-empty "children"/)
+      expect(validateConditionTree({ type: 'detection', compound: 'lead', operator: 'gt' })).toMatch(/"value"/)
+    })
+  })
+
+  describe('evaluateConditionTree', () => {
+    it('matches the AND branch and explains only that branch', () => {
+      const result = evaluateConditionTree(
+        BABY_FOOD_LEAD_OR_RECALL,
+        context({
+          category: { id: 3, slug: 'baby-food' },
+          detections: [{ compound: 'Lead (Pb)', level: '0.05 ppm' }],
+        })
+      )
+
+      expect(result.matched).toBe(true)
+      expect(result.explanation).toBe('(category is baby-food AND lead > 10 ppb)')
+      expect(result.clauses).toEqual([
+        { path: 'root.or[0].and[0]', description: 'category is baby-food', matched: true },
+        { path: 'root.or[0].and[1]', description: 'lead > 10 ppb', matched: true },
+        { path: 'root.or[1]', description: 'brand recall in last 12 months', matched: false },
+      ])
+    })
+
+    it('matches the recall branch when lab levels are below threshold', () => {
+      const result = evaluateConditionTree(
+        BABY_FOOD_LEAD_OR_RECALL,
+        context({
+          category: { id: 3, slug: 'baby-food' },
+          detections: [{ compound: 'Lead', level: '4 ppb' }],
+          brand: { recalls: [{ date: '2025-09-15', severity: 'class_ii' }] },
+        })
+      )
+
+      expect(result.matched).toBe(true)
+      expect(result.explanation).toBe('brand recall in last 12 months')
+    })
+
+    it('treats non-detects as below a detection threshold', () => {
+      const lead: ConditionNode = { type: 'detection', compound: 'lead', operator: 'gt', value: 4, unit: 'ppb' }
+      expect(evaluateConditionTree(lead, context({ detections: [{ compound: 'Lead', level: '< 5 ppb' }] })).matched).toBe(false)
+      expect(evaluateConditionTree(lead, context({ detections: [{ compound: 'Lead', level: '6 μg/kg' }] })).matched).toBe(true)
+    })
+
+    it('ignores recalls outside the window', () => {
+      const result = evaluateConditionTree(
+        { type: 'brand_recall', withinMonths: 12 },
+        context({ brand: { recalls: [{ date: '2024-01-01' }] } })
+      )
+      expect(result).toMatchObject({ matched: false, explanation: '' })
+    })
+
+    it('negates with NOT', () => {
+      const tree: ConditionNode = {
+        op: 'and',
+        children: [
+          { type: 'price_range', ranges: ['$$$', '$$$$'] },
+          { op: 'not', child: { type: 'freshness', statuses: ['fresh'] } },
+        ],
+      }
+
+      expect(evaluateConditionTree(tree, context({ priceRange: '$$$', freshnessStatus: 'stale' })).matched).toBe(true)
+      expect(evaluateConditionTree(tree, context({ priceRange: '$$$', freshnessStatus: 'fresh' })).matched).toBe(false)
+    })
+
+    it('compares brand trust score and ingredient verdicts', () => {
+      const tree: ConditionNode = {
+        op: 'and',
+        children: [
+          { type: 'brand_trust_score', operator: 'lt', value: 40 },
+          { type: 'ingredient_verdict', verdict: 'caution' },
+        ],
+      }
+
+      expect(
+        evaluateConditionTree(tree, context({ brand: { trustScore: 35 }, ingredientVerdicts: ['safe', 'caution'] })).matched
+      ).toBe(true)
+      expect(evaluateConditionTree(tree, context({ ingredientVerdicts: ['caution'] })).matched).toBe(false)
+    })
+  })
+
+  describe('treeUsesBrand', () => {
+    it('detects brand predicates anywhere in the tree', () => {
+      expect(treeUsesBrand(BABY_FOOD_LEAD_OR_RECALL)).toBe(true)
+      expect(treeUsesBrand({ op: 'not', child: { type: 'price_range', ranges: ['$'] } })).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for the products verdict rules hook
+ *
+ * Tests that rules read the saved product merged with partial updates,
+ * respect an editor's verdict override, and leave updates that don't touch
+ * rule inputs alone.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import type { PayloadRequest } from 'payload'
+
+vi.mock('@/utilities/smart-automation', () => ({
+  evaluateVerdictRules: vi.fn(),
+  recordRuleApplications: vi.fn(async () => undefined),
+}))
+
+import { applyVerdictRules } from '@/hooks/verdictRules'
+import { evaluateVerdictRules, recordRuleApplications } from '@/utilities/smart-automation'
+
+const req = { payload: {} } as unknown as PayloadRequest
+
+const savedProduct = {
+  id: 42,
+  name: 'Whey Protein',
+  brand: 'Acme',
+  verdict: 'recommend',
+  verdictOverride: true,
+  autoVerdict: 'flagged',
+  ruleApplied: 'Red 40',
+  ingredientsList: [{ id: 7 }, 9],
+  category: { id: 3 },
+  status: 'published',
+}
+
+function runHook(data: Record<string, unknown>, operation: 'create' | 'update' = 'update') {
+  return applyVerdictRules({
+    data,
+    originalDoc: operation === 'update' ? savedProduct : undefined,
+    operation,
+    req,
+    collection: {} as never,
+    context: {},
+  })
+}
+
+describe('applyVerdictRules', () => {
+  beforeEach(() => {
+    vi.mocked(evaluateVerdictRules).mockReset().mockResolvedValue({
+      evaluations: [{ ruleId: 1, ruleName: 'Red 40', matched: true } as never],
+      suggestedVerdict: 'flagged',
+      shouldBlock: false,
+      warnings: [],
+    })
+    vi.mocked(recordRuleApplications).mockClear()
+  })
+
+  it('leaves partial updates that touch no rule input alone', async () => {
+    const data = { retestRequestedAt: '2026-02-01T00:00:00Z' }
+    const result = await runHook(data)
+
+    expect(result).toEqual({ retestRequestedAt: '2026-02-01T00:00:00Z' })
+    expect(evaluateVerdictRules).not.toHaveBeenCalled()
+    expect(recordRuleApplications).not.toHaveBeenCalled()
+  })
+
+  it('evaluates partial updates against the saved product and keeps the override', async () => {
+    const result = await runHook({ detectionResults: { detections: [] } })
+
+    expect(evaluateVerdictRules).toHaveBeenCalledWith(
+      expect.objectContaining({ ingredientsList: [7, 9], category: 3, brand: 'Acme', verdict: 'recommend' }),
+      req.payload
+    )
+    expect(result).toMatchObject({ autoVerdict: 'flagged', ruleApplied: 'Red 40' })
+    expect(result?.verdict).toBeUndefined()
+  })
+
+  it('applies the rule verdict when the product is not overridden', async () => {
+    const result = await runHook({ name: 'Whey', ingredientsList: [7], verdict: 'recommend' }, 'create')
+
+    expect(result?.verdict).toBe('flagged')
+    expect(recordRuleApplications).toHaveBeenCalledTimes(1)
+  })
+
+  it('blocks publishing when a rule says so', async () => {
+    vi.mocked(evaluateVerdictRules).mockResolvedValue({
+      evaluations: [],
+      suggestedVerdict: undefined,
+      shouldBlock: true,
+      warnings: ['Unreviewed detection'],
+    })
+
+    await expect(runHook({ status: 'published' })).rejects.toThrow('Cannot publish: Unreviewed detection')
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for verdict-simulator
+ *
+ * Tests simulated rule-set construction, change grouping and CSV export.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildSimulatedRuleSet,
+  simulationToCsv,
+  summarizeChanges,
+  validateDraftRule,
+  type VerdictChange,
+} from '@/utilities/verdict-simulator'
+import type { VerdictRule } from '@/utilities/smart-automation'
+
+const ACTIVE_RULES: VerdictRule[] = [
+  { id: 1, name: 'Flag lead', conditionType: 'condition_tree', action: 'set_flagged', isActive: true, priority: 20 },
+  { id: 2, name: 'Caution dyes', conditionType: 'contains_ingredient', action: 'set_caution', isActive: true, priority: 10 },
+  { id: 3, name: 'Recommend clean', conditionType: 'ingredient_verdict', action: 'set_recommend', isActive: true, priority: 10 },
+]
+
+const CHANGES: VerdictChange[] = [
+  {
+    productId: 10,
+    productName: 'Oat Puffs',
+    brand: 'Acme',
+    category: 'Baby Food',
+    fromVerdict: 'recommend',
+    toVerdict: 'caution',
+    rules: ['Draft: (category is baby-food AND lead > 10 ppb)'],
+  },
+  {
+    productId: 11,
+    productName: 'Rice Rusks, "Original"',
+    brand: 'Acme',
+    category: 'Snacks',
+    fromVerdict: 'recommend',
+    toVerdict: 'flagged',
+    rules: ['Flag lead', 'Draft'],
+  },
+  {
+    productId: 12,
+    productName: 'Fruit Pouch',
+    brand: 'Bolt',
+    category: 'Baby Food',
+    fromVerdict: 'recommend',
+    toVerdict: 'caution',
+    rules: [],
+  },
+]
+
+describe('verdict-simulator', () => {
+  describe('validateDraftRule', () => {
+    it('requires name, condition type and action', () => {
+      expect(validateDraftRule({ name: '', conditionType: 'category_match', action: 'set_caution' })).toMatch(/name/)
+      expect(validateDraftRule({ name: 'Draft', conditionType: 'category_match', action: 'set_caution' })).toBeNull()
+    })
+
+    it('validates condition trees', () => {
+      expect(
+        validateDraftRule({
+          name: 'Draft',
+          conditionType: 'condition_tree',
+          action: 'set_caution',
+          conditionTree: { op: 'and', children: [] },
+        })
+      ).toMatch(/^draftRule.conditionTree: root/)
+    })
+  })
+
+  describe('buildSimulatedRuleSet', () => {
+    it('adds a draft rule in priority order', () => {
+      const rules = buildSimulatedRuleSet(ACTIVE_RULES, {
+        draftRule: { name: 'Draft', conditionType: 'category_match', action: 'set_caution', priority: 15 },
+      })
+      expect(rules.map(r => r.id)).toEqual([1, -1, 2, 3])
+      expect(rules[1].isActive).toBe(true)
+    })
+
+    it('replaces an existing rule when the draft carries its id', () => {
+      const rules = buildSimulatedRuleSet(ACTIVE_RULES, {
+        draftRule: { id: 2, name: 'Caution dyes v2', conditionType: 'contains_ingredient', action: 'set_flagged', priority: 10 },
+      })
+      expect(rules.map(r => r.name)).toEqual(['Flag lead', 'Recommend clean', 'Caution dyes v2'])
+    })
+
+    it('applies priority overrides and disabled rules without mutating the input', () => {
+      const rules = buildSimulatedRuleSet(ACTIVE_RULES, {
+        priorityOverrides: { '3': 30 },
+        disabledRuleIds: [1],
+      })
+      expect(rules.map(r => r.id)).toEqual([3, 2])
+      expect(ACTIVE_RULES[2].priority).toBe(10)
+    })
+  })
+
+  describe('summarizeChanges', () => {
+    it('groups transitions by category and brand', () => {
+      const summary = summarizeChanges(CHANGES)
+
+      expect(summary.transitions).toEqual({ 'recommend->caution': 2, 'recommend->flagged': 1 })
+      expect(summary.byCategory['Baby Food']).toEqual({ changed: 2, transitions: { 'recommend->caution': 2 } })
+      expect(summary.byBrand.Acme).toEqual({
+        changed: 2,
+        transitions: { 'recommend->caution': 1, 'recommend->flagged': 1 },
+      })
+    })
+  })
+
+  describe('simulationToCsv', () => {
+    it('writes one escaped row per change', () => {
+      const lines = simulationToCsv({ changes: CHANGES }).trim().split('\n')
+
+      expect(lines[0]).toBe('Product ID,Product,Brand,Category,From Verdict,To Verdict,Rules')
+      expect(lines[2]).toBe('11,"Rice Rusks, ""Original""",Acme,Snacks,recommend,flagged,Flag lead; Draft')
+      expect(lines).toHaveLength(4)
+    })
+
+    it('neutralises values that spreadsheets would run as formulas', () => {
+      const lines = simulationToCsv({
+        changes: [{ ...CHANGES[0], productName: '=HYPERLINK("http://x","Oat")', brand: '@Acme', category: '-Snacks' }],
+      }).trim().split('\n')
+
+      expect(lines[1]).toBe('10,"\'=HYPERLINK(""http://x"",""Oat"")",\'@Acme,\'-Snacks,recommend,caution,Draft: (category is baby-food AND lead > 10 ppb)')
+    })
+  })
+})